@@ -0,0 +1,9 @@
+import { Knex } from 'knex';
+import { HISTORY_QUERIES_TABLE } from '../../repository/history-query.repository';
+
+export async function up(knex: Knex): Promise<void> {
+  // Existing history queries keep their own North (null North id)
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD north_id TEXT NULL`);
+}
+
+export async function down(): Promise<void> {}
@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+import { HISTORY_QUERIES_TABLE, HISTORY_QUERY_NORTHS_TABLE } from '../../repository/history-query.repository';
+import { SCAN_MODES_TABLE } from '../../repository/scan-mode.repository';
+import CreateTableBuilder = Knex.CreateTableBuilder;
+
+function createDefaultEntityFields(table: CreateTableBuilder): void {
+  table.uuid('id').primary();
+  table.timestamps(false, true);
+}
+
+export async function up(knex: Knex): Promise<void> {
+  await createHistoryQueryNorthsTable(knex);
+}
+
+async function createHistoryQueryNorthsTable(knex: Knex): Promise<void> {
+  await knex.schema.createTable(HISTORY_QUERY_NORTHS_TABLE, table => {
+    createDefaultEntityFields(table);
+    table.uuid('history_id').notNullable();
+    table.foreign('history_id').references('id').inTable(HISTORY_QUERIES_TABLE);
+    table.string('north_type').notNullable();
+    table.json('north_settings').notNullable();
+    table.string('caching_scan_mode_id').notNullable();
+    table.foreign('caching_scan_mode_id').references('id').inTable(SCAN_MODES_TABLE);
+    table.integer('caching_group_count').notNullable();
+    table.integer('caching_retry_interval').notNullable();
+    table.integer('caching_retry_count').notNullable();
+    table.integer('caching_max_send_count').notNullable();
+    table.string('caching_values_storage').notNullable().defaultTo('file');
+    table.integer('caching_send_file_immediately').notNullable();
+    table.integer('caching_max_size').notNullable();
+    table.string('caching_overflow_policy').notNullable().defaultTo('drop-newest');
+    table.integer('archive_enabled').notNullable();
+    table.integer('archive_retention_duration').notNullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable(HISTORY_QUERY_NORTHS_TABLE);
+}
@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+import { HISTORY_QUERIES_TABLE } from '../../repository/history-query.repository';
+import { SCAN_MODES_TABLE } from '../../repository/scan-mode.repository';
+import { HISTORY_QUERY_RUNS_TABLE } from '../../repository/history-query-run.repository';
+import { HISTORY_QUERY_RUN_STATUS } from '../../../../shared/model/history-query.model';
+import CreateTableBuilder = Knex.CreateTableBuilder;
+
+function createDefaultEntityFields(table: CreateTableBuilder): void {
+  table.uuid('id').primary();
+  table.timestamps(false, true);
+}
+
+export async function up(knex: Knex): Promise<void> {
+  await addScheduleColumns(knex);
+  await createHistoryQueryRunsTable(knex);
+}
+
+async function addScheduleColumns(knex: Knex): Promise<void> {
+  // Existing history queries keep running once on their fixed time range
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD schedule_enabled INTEGER NOT NULL DEFAULT 0`);
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD schedule_scan_mode_id TEXT NULL REFERENCES ${SCAN_MODES_TABLE}(id)`);
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD schedule_window_duration INTEGER NOT NULL DEFAULT 1`);
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD schedule_window_unit TEXT NOT NULL DEFAULT 'day'`);
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD schedule_timezone TEXT NOT NULL DEFAULT 'UTC'`);
+}
+
+async function createHistoryQueryRunsTable(knex: Knex): Promise<void> {
+  await knex.schema.createTable(HISTORY_QUERY_RUNS_TABLE, table => {
+    createDefaultEntityFields(table);
+    table.uuid('history_id').notNullable();
+    table.foreign('history_id').references('id').inTable(HISTORY_QUERIES_TABLE);
+    table.enum('status', HISTORY_QUERY_RUN_STATUS).notNullable();
+    table.datetime('start_time').notNullable();
+    table.datetime('end_time').notNullable();
+    table.datetime('run_start').notNullable();
+    table.datetime('run_end');
+    table.string('error');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable(HISTORY_QUERY_RUNS_TABLE);
+}
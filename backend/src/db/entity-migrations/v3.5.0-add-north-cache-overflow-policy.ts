@@ -0,0 +1,11 @@
+import { Knex } from 'knex';
+import { NORTH_CONNECTORS_TABLE } from '../../repository/north-connector.repository';
+import { HISTORY_QUERIES_TABLE } from '../../repository/history-query.repository';
+
+export async function up(knex: Knex): Promise<void> {
+  // Content was already discarded when the cache was full, which is kept as default policy
+  await knex.schema.raw(`ALTER TABLE ${NORTH_CONNECTORS_TABLE} ADD caching_overflow_policy TEXT NOT NULL DEFAULT 'drop-newest'`);
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD caching_overflow_policy TEXT NOT NULL DEFAULT 'drop-newest'`);
+}
+
+export async function down(): Promise<void> {}
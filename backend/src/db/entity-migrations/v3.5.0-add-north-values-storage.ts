@@ -0,0 +1,10 @@
+import { Knex } from 'knex';
+import { NORTH_CONNECTORS_TABLE } from '../../repository/north-connector.repository';
+import { HISTORY_QUERIES_TABLE } from '../../repository/history-query.repository';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.raw(`ALTER TABLE ${NORTH_CONNECTORS_TABLE} ADD caching_values_storage TEXT NOT NULL DEFAULT 'file'`);
+  await knex.schema.raw(`ALTER TABLE ${HISTORY_QUERIES_TABLE} ADD caching_values_storage TEXT NOT NULL DEFAULT 'file'`);
+}
+
+export async function down(): Promise<void> {}
@@ -0,0 +1,55 @@
+import { Knex } from 'knex';
+import { COMMANDS_TABLE } from '../../repository/command.repository';
+import { OIBUS_COMMAND_STATUS, OIBUS_COMMAND_TYPES } from '../../../../shared/model/command.model';
+import CreateTableBuilder = Knex.CreateTableBuilder;
+
+const COMMAND_COLUMNS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'type',
+  'status',
+  'ack',
+  'retrieved_date',
+  'completed_date',
+  'result',
+  'upgrade_version',
+  'upgrade_asset_id'
+];
+
+function createDefaultEntityFields(table: CreateTableBuilder): void {
+  table.uuid('id').primary();
+  table.timestamps(false, true);
+}
+
+export async function up(knex: Knex): Promise<void> {
+  // SQLite keeps the allowed command types in a check constraint: the table is rebuilt to accept the new types
+  await recreateCommandTable(knex, OIBUS_COMMAND_TYPES, true);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex(COMMANDS_TABLE).whereNot('type', 'UPGRADE').delete();
+  await recreateCommandTable(knex, ['UPGRADE'], false);
+}
+
+async function recreateCommandTable(knex: Knex, commandTypes: ReadonlyArray<string>, withCommandContent: boolean): Promise<void> {
+  await knex.schema.createTable(`${COMMANDS_TABLE}_dg_tmp`, table => {
+    createDefaultEntityFields(table);
+    table.enum('type', commandTypes).notNullable();
+    table.enum('status', OIBUS_COMMAND_STATUS).notNullable();
+    table.boolean('ack').defaultTo(false).notNullable();
+    table.string('retrieved_date');
+    table.string('completed_date');
+    table.string('result');
+    table.string('upgrade_version');
+    table.string('upgrade_asset_id');
+    if (withCommandContent) {
+      table.text('command_content');
+    }
+  });
+  await knex.schema.raw(
+    `insert into ${COMMANDS_TABLE}_dg_tmp(${COMMAND_COLUMNS.join(', ')}) select ${COMMAND_COLUMNS.join(', ')} from ${COMMANDS_TABLE};`
+  );
+  await knex.schema.dropTable(COMMANDS_TABLE);
+  await knex.schema.renameTable(`${COMMANDS_TABLE}_dg_tmp`, COMMANDS_TABLE);
+}
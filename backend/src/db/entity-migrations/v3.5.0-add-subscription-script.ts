@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+import { SUBSCRIPTION_TABLE } from '../../repository/subscription.repository';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable(SUBSCRIPTION_TABLE, table => {
+    table.text('script');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable(SUBSCRIPTION_TABLE, table => {
+    table.dropColumn('script');
+  });
+}
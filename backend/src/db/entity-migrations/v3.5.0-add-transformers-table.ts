@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+import { TRANSFORMERS_TABLE } from '../../repository/transformer.repository';
+import { SOUTH_CONNECTORS_TABLE } from '../../repository/south-connector.repository';
+import { TRANSFORMER_TYPES } from '../../../../shared/model/transformer.model';
+import CreateTableBuilder = Knex.CreateTableBuilder;
+
+function createDefaultEntityFields(table: CreateTableBuilder): void {
+  table.uuid('id').primary();
+  table.timestamps(false, true);
+}
+
+export async function up(knex: Knex): Promise<void> {
+  await createTransformersTable(knex);
+}
+
+async function createTransformersTable(knex: Knex): Promise<void> {
+  await knex.schema.createTable(TRANSFORMERS_TABLE, table => {
+    createDefaultEntityFields(table);
+    table.uuid('south_id').notNullable();
+    table.foreign('south_id').references('id').inTable(SOUTH_CONNECTORS_TABLE);
+    table.enum('type', TRANSFORMER_TYPES).notNullable();
+    table.boolean('enabled').notNullable();
+    table.integer('position').notNullable();
+    table.string('point_id_filter');
+    table.json('settings').notNullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable(TRANSFORMERS_TABLE);
+}
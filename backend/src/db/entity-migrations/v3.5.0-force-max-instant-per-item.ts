@@ -0,0 +1,12 @@
+import { Knex } from 'knex';
+import { SOUTH_CONNECTORS_TABLE } from '../../repository/south-connector.repository';
+
+// Types of the connectors whose manifest forces the max instant per item
+const MAX_INSTANT_PER_ITEM_TYPES = ['mssql', 'mysql', 'odbc', 'oledb', 'oracle', 'postgresql', 'slims', 'sqlite'];
+
+export async function up(knex: Knex): Promise<void> {
+  // The shared cache entries of these connectors are split by item when they start
+  await knex(SOUTH_CONNECTORS_TABLE).update({ history_max_instant_per_item: true }).whereIn('type', MAX_INSTANT_PER_ITEM_TYPES);
+}
+
+export async function down(_knex: Knex): Promise<void> {}
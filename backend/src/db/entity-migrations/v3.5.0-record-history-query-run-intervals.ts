@@ -0,0 +1,36 @@
+import { Knex } from 'knex';
+import { HISTORY_QUERY_RUN_INTERVALS_TABLE, HISTORY_QUERY_RUNS_TABLE } from '../../repository/history-query-run.repository';
+import { HISTORY_QUERY_INTERVAL_STATUS } from '../../../../shared/model/history-query.model';
+import CreateTableBuilder = Knex.CreateTableBuilder;
+
+function createDefaultEntityFields(table: CreateTableBuilder): void {
+  table.uuid('id').primary();
+  table.timestamps(false, true);
+}
+
+export async function up(knex: Knex): Promise<void> {
+  await createHistoryQueryRunIntervalsTable(knex);
+}
+
+async function createHistoryQueryRunIntervalsTable(knex: Knex): Promise<void> {
+  await knex.schema.createTable(HISTORY_QUERY_RUN_INTERVALS_TABLE, table => {
+    createDefaultEntityFields(table);
+    table.uuid('run_id').notNullable();
+    table.foreign('run_id').references('id').inTable(HISTORY_QUERY_RUNS_TABLE);
+    // null when the items are queried together
+    table.uuid('item_id');
+    table.datetime('start_time').notNullable();
+    table.datetime('end_time').notNullable();
+    table.enum('status', HISTORY_QUERY_INTERVAL_STATUS).notNullable().defaultTo('PENDING');
+    table.integer('number_of_values').notNullable().defaultTo(0);
+    table.integer('number_of_files').notNullable().defaultTo(0);
+    table.json('content_by_item').notNullable().defaultTo('{}');
+    table.string('error');
+    // The intervals are read by run, and updated by run, item and time range
+    table.index(['run_id', 'item_id', 'start_time', 'end_time']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable(HISTORY_QUERY_RUN_INTERVALS_TABLE);
+}
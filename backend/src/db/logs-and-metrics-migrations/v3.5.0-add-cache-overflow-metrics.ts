@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+import { NORTH_METRICS_TABLE } from '../../repository/north-connector-metrics.repository';
+import { SOUTH_METRICS_TABLE } from '../../repository/south-connector-metrics.repository';
+
+export async function up(knex: Knex): Promise<void> {
+  await updateNorthMetricsTable(knex);
+  await updateSouthMetricsTable(knex);
+}
+
+async function updateNorthMetricsTable(knex: Knex): Promise<void> {
+  await knex.schema.raw(`ALTER TABLE ${NORTH_METRICS_TABLE} ADD cache_full INTEGER DEFAULT 0`);
+}
+
+async function updateSouthMetricsTable(knex: Knex): Promise<void> {
+  await knex.schema.raw(`ALTER TABLE ${SOUTH_METRICS_TABLE} ADD backpressured INTEGER DEFAULT 0`);
+}
+
+export async function down(): Promise<void> {}
@@ -0,0 +1,12 @@
+import { Knex } from 'knex';
+import { SOUTH_METRICS_TABLE } from '../../repository/south-connector-metrics.repository';
+
+export async function up(knex: Knex): Promise<void> {
+  await updateSouthMetricsTable(knex);
+}
+
+async function updateSouthMetricsTable(knex: Knex): Promise<void> {
+  await knex.schema.raw(`ALTER TABLE ${SOUTH_METRICS_TABLE} ADD nb_values_suppressed INTEGER DEFAULT 0`);
+}
+
+export async function down(): Promise<void> {}
@@ -16,6 +16,10 @@ import { PassThrough } from 'node:stream';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { filesExists } from '../service/utils';
+import OIBusEngineMock from '../tests/__mocks__/oibus-engine.mock';
+import OIBusEngine from './oibus-engine';
+import HistoryQuery from './history-query';
+import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
 
 jest.mock('../service/south.service');
 jest.mock('../service/north.service');
@@ -33,8 +37,10 @@ const southService: SouthService = new SouthServiceMock();
 const northService: NorthService = new NorthServiceMock();
 const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
 const historyQueryService: HistoryQueryService = new HistoryQueryServiceMock();
+const oibusEngine: OIBusEngine = new OIBusEngineMock();
 
 const nowDateString = '2020-02-02T02:02:02.222Z';
+const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
 
 let configuration: HistoryQueryDTO;
 let engine: HistoryQueryEngine;
@@ -50,6 +56,14 @@ describe('HistoryQueryEngine', () => {
       name: 'history',
       southType: 'FolderScanner',
       northType: 'Console',
+      northId: null,
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
       description: 'my test history query',
       status: 'RUNNING',
       history: {
@@ -68,9 +82,11 @@ describe('HistoryQueryEngine', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 1,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -79,13 +95,14 @@ describe('HistoryQueryEngine', () => {
             retentionDuration: 0
           }
         }
-      }
+      },
+      additionalNorths: []
     };
     (historyQueryService.getHistoryQueryList as jest.Mock).mockReturnValue([configuration]);
     (historyQueryService.listItems as jest.Mock).mockReturnValue([]);
     (historyQueryService.getHistoryQuery as jest.Mock).mockReturnValue(configuration);
 
-    engine = new HistoryQueryEngine(encryptionService, northService, southService, historyQueryService, logger);
+    engine = new HistoryQueryEngine(encryptionService, northService, southService, historyQueryService, oibusEngine, logger);
   });
 
   it('it should start connectors and stop all', async () => {
@@ -103,6 +120,27 @@ describe('HistoryQueryEngine', () => {
     await engine.resetCache('anotherId');
   });
 
+  it('should retry the failed intervals of a History query', async () => {
+    const startSpy = jest.spyOn(HistoryQuery.prototype, 'start').mockImplementation(() => Promise.reject(new Error('start error')));
+    await engine.createHistoryQuery(configuration);
+    await engine.retryHistoryQueryIntervals(configuration.id);
+    await engine.retryHistoryQueryIntervals('anotherId');
+    expect(startSpy).toHaveBeenCalledTimes(1);
+    expect(startSpy).toHaveBeenCalledWith(true);
+    await flushPromises();
+    expect(logger.error).toHaveBeenCalledWith(new Error('start error'));
+    startSpy.mockRestore();
+  });
+
+  it('should update the scan mode of every History query', async () => {
+    const updateScanModeSpy = jest.spyOn(HistoryQuery.prototype, 'updateScanMode').mockImplementation();
+    const scanMode = { id: 'scanModeId', name: 'scan mode', description: '', cron: '0 1 * * *' } as ScanModeDTO;
+    await engine.createHistoryQuery(configuration);
+    await engine.updateScanMode(scanMode);
+    expect(updateScanModeSpy).toHaveBeenCalledWith(scanMode);
+    updateScanModeSpy.mockRestore();
+  });
+
   it('should properly set logger', async () => {
     await engine.start();
 
@@ -162,4 +200,24 @@ describe('HistoryQueryEngine', () => {
     expect(logger.trace).toHaveBeenCalledWith(`Deleting base folder "${baseFolder}" of History query "${name}" (${historyId})`);
     expect(logger.error).toHaveBeenCalledWith(`Unable to delete History query "${name}" (${historyId}) base folder: ${error}`);
   });
+
+  it('should delete the cache of a removed North target', async () => {
+    (filesExists as jest.Mock).mockImplementationOnce(() => Promise.resolve(true)).mockImplementationOnce(() => Promise.resolve(false));
+    const northFolder = path.resolve('./cache/history-query', `history-${configuration.id}`, 'north-targetId');
+
+    await engine.deleteAdditionalNorthCache(configuration.id, 'targetId');
+    expect(filesExists).toHaveBeenCalledWith(northFolder);
+    expect(fs.rm).toHaveBeenCalledWith(northFolder, { recursive: true });
+
+    await engine.deleteAdditionalNorthCache(configuration.id, 'targetId');
+    expect(fs.rm).toHaveBeenCalledTimes(1);
+
+    const error = new Error('rm error');
+    (filesExists as jest.Mock).mockImplementationOnce(() => Promise.resolve(true));
+    (fs.rm as jest.Mock).mockImplementationOnce(() => {
+      throw error;
+    });
+    await engine.deleteAdditionalNorthCache(configuration.id, 'targetId');
+    expect(logger.error).toHaveBeenCalledWith(`Unable to delete the cache folder "${northFolder}" of a removed North target: ${error}`);
+  });
 });
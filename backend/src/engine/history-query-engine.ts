@@ -11,6 +11,8 @@ import { createFolder, filesExists } from '../service/utils';
 
 import { HistoryQueryDTO } from '../../../shared/model/history-query.model';
 import { PassThrough } from 'node:stream';
+import OIBusEngine from './oibus-engine';
+import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
 
 const CACHE_FOLDER = './cache/history-query';
 
@@ -26,6 +28,7 @@ export default class HistoryQueryEngine extends BaseEngine {
     northService: NorthService,
     southService: SouthService,
     private readonly historyQueryService: HistoryQueryService,
+    private readonly oibusEngine: OIBusEngine,
     logger: pino.Logger
   ) {
     super(encryptionService, northService, southService, logger, CACHE_FOLDER);
@@ -57,6 +60,7 @@ export default class HistoryQueryEngine extends BaseEngine {
       this.southService,
       this.northService,
       this.historyQueryService,
+      this.oibusEngine,
       this.logger.child({ scopeType: 'history-query', scopeId: settings.id, scopeName: settings.name }),
       baseFolder
     );
@@ -80,6 +84,20 @@ export default class HistoryQueryEngine extends BaseEngine {
     }
   }
 
+  /**
+   * Start a History query to query again the failed intervals of its last run
+   */
+  async retryHistoryQueryIntervals(historyId: string): Promise<void> {
+    if (this.historyQueries.has(historyId)) {
+      this.historyQueries
+        .get(historyId)!
+        .start(true)
+        .catch(error => {
+          this.logger.error(error);
+        });
+    }
+  }
+
   async stopHistoryQuery(historyId: string): Promise<void> {
     const historyQuery = this.historyQueries.get(historyId);
     if (!historyQuery) {
@@ -89,6 +107,12 @@ export default class HistoryQueryEngine extends BaseEngine {
     await historyQuery.stop();
   }
 
+  async updateScanMode(scanMode: ScanModeDTO): Promise<void> {
+    for (const historyQuery of this.historyQueries.values()) {
+      await historyQuery.updateScanMode(scanMode);
+    }
+  }
+
   async resetCache(historyId: string) {
     await this.historyQueries.get(historyId)?.resetCache();
   }
@@ -108,6 +132,20 @@ export default class HistoryQueryEngine extends BaseEngine {
     return this.historyQueries.get(historyId)?.getMetricsDataStream() || null;
   }
 
+  /**
+   * Deletes the cache folder of an additional North target removed from a History query
+   */
+  async deleteAdditionalNorthCache(historyId: string, northId: string): Promise<void> {
+    const northFolder = path.resolve(this.cacheFolder, `history-${historyId}`, `north-${northId}`);
+    try {
+      if (await filesExists(northFolder)) {
+        await fs.rm(northFolder, { recursive: true });
+      }
+    } catch (error) {
+      this.logger.error(`Unable to delete the cache folder "${northFolder}" of a removed North target: ${error}`);
+    }
+  }
+
   /**
    * Stops the History query and deletes all cache inside the base folder
    */
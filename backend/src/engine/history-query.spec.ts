@@ -4,25 +4,29 @@ import SouthServiceMock from '../tests/__mocks__/south-service.mock';
 import NorthServiceMock from '../tests/__mocks__/north-service.mock';
 
 import { SouthConnectorItemDTO } from '../../../shared/model/south-connector.model';
-import { HistoryQueryDTO } from '../../../shared/model/history-query.model';
+import { HistoryQueryDTO, HistoryQueryRunDTO } from '../../../shared/model/history-query.model';
 
 import SouthService from '../service/south.service';
 import NorthService from '../service/north.service';
 
-import { createFolder } from '../service/utils';
+import { createFolder, generateScheduledWindow } from '../service/utils';
 
 import pino from 'pino';
 import path from 'node:path';
 import HistoryServiceMock from '../tests/__mocks__/history-query-service.mock';
 import HistoryQueryService from '../service/history-query.service';
+import OIBusEngineMock from '../tests/__mocks__/oibus-engine.mock';
+import OIBusEngine from './oibus-engine';
 import Stream from 'node:stream';
 import { EventEmitter } from 'node:events';
 import { OIBusTimeValue } from '../../../shared/model/engine.model';
+import { CronJob } from 'cron';
 
 jest.mock('../service/south.service');
 jest.mock('../service/north.service');
 const updateMetrics = jest.fn();
 const resetMetrics = jest.fn();
+const setAdditionalNorths = jest.fn();
 jest.mock(
   '../service/history-metrics.service',
   () =>
@@ -30,7 +34,8 @@ jest.mock(
       return {
         updateMetrics,
         resetMetrics,
-        metrics: { status: 'my status' },
+        setAdditionalNorths,
+        metrics: { status: 'my status', additionalNorths: {} },
         get stream() {
           return { stream: 'myStream' };
         }
@@ -38,15 +43,31 @@ jest.mock(
     }
 );
 jest.mock('../service/utils');
+jest.mock('cron');
 
 const logger: pino.Logger = new PinoLogger();
 const anotherLogger: pino.Logger = new PinoLogger();
 
+const nowDateString = '2020-02-02T02:02:02.222Z';
+
 const southService: SouthService = new SouthServiceMock();
 const northService: NorthService = new NorthServiceMock();
 const historyService: HistoryQueryService = new HistoryServiceMock();
+const engine: OIBusEngine = new OIBusEngineMock();
+(historyService.repositoryService.historyQueryRunRepository.getIntervals as jest.Mock).mockReturnValue([]);
+(historyService.repositoryService.historyQueryRunRepository.createRun as jest.Mock).mockImplementation(
+  (historyId: string, startTime: string, endTime: string): HistoryQueryRunDTO => ({
+    id: 'runId',
+    historyId,
+    status: 'RUNNING',
+    startTime,
+    endTime,
+    runStart: nowDateString,
+    runEnd: null,
+    error: null
+  })
+);
 
-const nowDateString = '2020-02-02T02:02:02.222Z';
 const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
 
 let historyQuery: HistoryQuery;
@@ -81,11 +102,13 @@ const items: Array<SouthConnectorItemDTO> = [
 
 const southStream = new Stream();
 const connectedEvent = new EventEmitter();
+const historyEvent = new EventEmitter();
 const createdSouth = {
   start: jest.fn(),
   stop: jest.fn(),
   connect: jest.fn(),
   historyQueryHandler: jest.fn(),
+  retryHistoryIntervals: jest.fn(),
   addItem: jest.fn(),
   deleteItem: jest.fn(),
   deleteAllItems: jest.fn(),
@@ -94,7 +117,9 @@ const createdSouth = {
   historyIsRunning: false,
   createDeferredPromise: jest.fn(),
   resolveDeferredPromise: jest.fn(),
-  connectedEvent
+  setBackpressured: jest.fn(),
+  connectedEvent,
+  historyEvent
 };
 
 const northStream = new Stream();
@@ -102,10 +127,11 @@ const createdNorth = {
   start: jest.fn(),
   stop: jest.fn(),
   connect: jest.fn(),
-  cacheValues: jest.fn(),
-  cacheFile: jest.fn(),
+  cacheValues: jest.fn().mockResolvedValue(true),
+  cacheFile: jest.fn().mockResolvedValue(true),
   resetCache: jest.fn(),
   isCacheEmpty: jest.fn(),
+  isBackpressuring: jest.fn().mockReturnValue(false),
   getMetricsDataStream: jest.fn(() => northStream)
 };
 
@@ -115,6 +141,7 @@ describe('HistoryQuery enabled', () => {
     jest.useFakeTimers().setSystemTime(new Date(nowDateString));
 
     connectedEvent.removeAllListeners();
+    historyEvent.removeAllListeners();
 
     (southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
     (northService.createNorth as jest.Mock).mockReturnValue(createdNorth);
@@ -123,6 +150,14 @@ describe('HistoryQuery enabled', () => {
       name: 'history',
       southType: 'FolderScanner',
       northType: 'Console',
+      northId: null,
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
       description: 'my test history query',
       status: 'RUNNING',
       history: {
@@ -141,9 +176,11 @@ describe('HistoryQuery enabled', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 1,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -152,7 +189,8 @@ describe('HistoryQuery enabled', () => {
             retentionDuration: 0
           }
         }
-      }
+      },
+      additionalNorths: []
     };
     (historyService.repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValue(configuration);
     (historyService.listItems as jest.Mock).mockReturnValue(items);
@@ -162,6 +200,7 @@ describe('HistoryQuery enabled', () => {
       southService,
       northService,
       historyService,
+      engine,
       logger,
       path.resolve('baseFolder', configuration.id)
     );
@@ -176,8 +215,9 @@ describe('HistoryQuery enabled', () => {
     northStream.emit('data', `data: ${JSON.stringify({})}`);
     southStream.emit('data', `data: ${JSON.stringify({})}`);
     expect(updateMetrics).toHaveBeenCalledTimes(2);
-    expect(updateMetrics).toHaveBeenCalledWith({ status: 'my status', south: {} });
-    expect(updateMetrics).toHaveBeenCalledWith({ status: 'my status', north: {} });
+    expect(updateMetrics).toHaveBeenCalledWith({ status: 'my status', additionalNorths: {}, south: {} });
+    expect(updateMetrics).toHaveBeenCalledWith({ status: 'my status', additionalNorths: {}, north: {} });
+    expect(setAdditionalNorths).toHaveBeenCalledWith([]);
   });
 
   it('should start south connector', async () => {
@@ -192,7 +232,7 @@ describe('HistoryQuery enabled', () => {
     connectedEvent.emit('connected');
     expect(createdSouth.start).toHaveBeenCalledTimes(1);
     expect(createdSouth.historyQueryHandler).toHaveBeenCalledTimes(1);
-    expect(createdSouth.historyQueryHandler).toHaveBeenCalledWith(items, configuration.startTime, configuration.endTime, 'history');
+    expect(createdSouth.historyQueryHandler).toHaveBeenCalledWith(items, configuration.startTime, configuration.endTime, 'history', true);
     expect(clearIntervalSpy).not.toHaveBeenCalled();
     connectedEvent.emit('connected');
     expect(clearIntervalSpy).toHaveBeenCalledTimes(1);
@@ -223,7 +263,7 @@ describe('HistoryQuery enabled', () => {
 
     await flushPromises();
     expect(createdSouth.historyQueryHandler).toHaveBeenCalledTimes(1);
-    expect(createdSouth.historyQueryHandler).toHaveBeenCalledWith(items, configuration.startTime, configuration.endTime, 'history');
+    expect(createdSouth.historyQueryHandler).toHaveBeenCalledWith(items, configuration.startTime, configuration.endTime, 'history', true);
 
     expect(createdSouth.start).toHaveBeenCalledTimes(2);
     expect(createdSouth.stop).toHaveBeenCalledTimes(1);
@@ -243,19 +283,28 @@ describe('HistoryQuery enabled', () => {
   it('should cache values', async () => {
     await historyQuery.start();
 
-    await historyQuery.addContent('southId', { type: 'time-values', content: [{}, {}] as Array<OIBusTimeValue> });
-    expect(logger.info).toHaveBeenCalledWith(`Add 2 values from History Query "${configuration.name}" to north connector`);
+    expect(await historyQuery.addContent('southId', { type: 'time-values', content: [{}, {}] as Array<OIBusTimeValue> })).toEqual(1);
+    expect(logger.info).toHaveBeenCalledWith(`Add 2 values from History Query "${configuration.name}" to 1 north connector(s)`);
     expect(createdNorth.cacheValues).toHaveBeenCalledWith([{}, {}]);
+    expect(createdSouth.setBackpressured).toHaveBeenCalledWith(false);
   });
 
   it('should cache file', async () => {
     await historyQuery.start();
 
-    await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' });
-    expect(logger.info).toHaveBeenCalledWith(`Add file "myFile" from History Query "${configuration.name}" to north connector`);
+    expect(await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' })).toEqual(1);
+    expect(logger.info).toHaveBeenCalledWith(`Add file "myFile" from History Query "${configuration.name}" to 1 north connector(s)`);
     expect(createdNorth.cacheFile).toHaveBeenCalledWith('myFile');
   });
 
+  it('should backpressure the South when the North cache is full', async () => {
+    await historyQuery.start();
+    createdNorth.isBackpressuring.mockReturnValueOnce(true);
+
+    expect(await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' })).toEqual(1);
+    expect(createdSouth.setBackpressured).toHaveBeenCalledWith(true);
+  });
+
   it('should properly stop', async () => {
     const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
 
@@ -288,14 +337,157 @@ describe('HistoryQuery enabled', () => {
     await historyQuery.finish();
 
     expect(logger.debug).toHaveBeenCalledWith(`History query "${configuration.name}" is still running`);
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(false);
+    createdNorth.isBackpressuring.mockReturnValueOnce(true);
     await historyQuery.finish();
     expect(logger.debug).toHaveBeenCalledTimes(2);
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(true);
 
     createdSouth.historyIsRunning = false;
     await historyQuery.finish();
     expect(logger.info).toHaveBeenCalledWith(`Finish "${configuration.name}" (${configuration.id})`);
   });
 
+  it('should record the run of the time range', async () => {
+    await historyQuery.start();
+    expect(historyService.repositoryService.historyQueryRunRepository.getLastRun).toHaveBeenCalledWith(configuration.id);
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).toHaveBeenCalledWith(
+      configuration.id,
+      configuration.startTime,
+      configuration.endTime
+    );
+
+    historyQuery.stop = jest.fn();
+    createdSouth.historyIsRunning = false;
+    createdNorth.isCacheEmpty.mockReturnValue(true);
+    await historyQuery.finish();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith('runId', 'FINISHED', null);
+  });
+
+  it('should end in error a run finished with failed intervals', async () => {
+    await historyQuery.start();
+    historyQuery.stop = jest.fn();
+    createdSouth.historyIsRunning = false;
+    createdNorth.isCacheEmpty.mockReturnValue(true);
+    (historyService.repositoryService.historyQueryRunRepository.getIntervals as jest.Mock).mockReturnValueOnce([
+      { status: 'DONE' },
+      { status: 'ERRORED' },
+      { status: 'ERRORED' }
+    ]);
+    await historyQuery.finish();
+    expect(historyService.repositoryService.historyQueryRunRepository.getIntervals).toHaveBeenCalledWith('runId');
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith(
+      'runId',
+      'ERRORED',
+      '2 intervals could not be queried'
+    );
+  });
+
+  it('should retry the failed intervals of the last run', async () => {
+    const lastRun = {
+      id: 'lastRunId',
+      status: 'ERRORED',
+      startTime: configuration.startTime,
+      endTime: configuration.endTime
+    };
+    (historyService.repositoryService.historyQueryRunRepository.getLastRun as jest.Mock).mockReturnValueOnce(lastRun);
+    (historyService.repositoryService.historyQueryRunRepository.getIntervals as jest.Mock).mockReturnValueOnce([
+      { itemId: 'id1', startTime: '2020-02-01T00:00:00.000Z', endTime: '2020-02-01T12:00:00.000Z', status: 'ERRORED' },
+      { itemId: 'id2', startTime: '2020-02-01T00:00:00.000Z', endTime: '2020-02-01T12:00:00.000Z', status: 'DONE' }
+    ]);
+    createdSouth.retryHistoryIntervals.mockReturnValueOnce(Promise.resolve());
+
+    await historyQuery.start(true);
+    expect(historyService.repositoryService.historyQueryRunRepository.getIntervals).toHaveBeenCalledWith('lastRunId');
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).not.toHaveBeenCalled();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith('lastRunId', 'RUNNING', null);
+    expect(logger.info).toHaveBeenCalledWith(`Retry 1 failed intervals of History query "${configuration.name}"`);
+    expect(createdSouth.start).toHaveBeenCalledTimes(1);
+
+    connectedEvent.emit('connected');
+    await flushPromises();
+    expect(createdSouth.historyQueryHandler).not.toHaveBeenCalled();
+    expect(createdSouth.retryHistoryIntervals).toHaveBeenCalledWith(items, [
+      { itemId: 'id1', interval: { start: '2020-02-01T00:00:00.000Z', end: '2020-02-01T12:00:00.000Z' } }
+    ]);
+    expect(createdSouth.resolveDeferredPromise).toHaveBeenCalledTimes(1);
+
+    historyQuery.stop = jest.fn();
+    createdSouth.historyIsRunning = false;
+    createdNorth.isCacheEmpty.mockReturnValue(true);
+    await historyQuery.finish();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith('lastRunId', 'FINISHED', null);
+  });
+
+  it('should not retry a run without failed interval', async () => {
+    (historyService.repositoryService.historyQueryRunRepository.getLastRun as jest.Mock).mockReturnValueOnce({
+      id: 'lastRunId',
+      status: 'FINISHED'
+    });
+
+    await historyQuery.start(true);
+    expect(logger.warn).toHaveBeenCalledWith(`No failed interval to retry for History query "${configuration.name}"`);
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).not.toHaveBeenCalled();
+    expect(createdSouth.start).not.toHaveBeenCalled();
+  });
+
+  it('should resume the interrupted run of the same time range', async () => {
+    (historyService.repositoryService.historyQueryRunRepository.getLastRun as jest.Mock).mockReturnValueOnce({
+      id: 'lastRunId',
+      status: 'RUNNING',
+      startTime: configuration.startTime,
+      endTime: configuration.endTime
+    });
+    await historyQuery.start();
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).not.toHaveBeenCalled();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).not.toHaveBeenCalled();
+  });
+
+  it('should end the interrupted run of another time range', async () => {
+    (historyService.repositoryService.historyQueryRunRepository.getLastRun as jest.Mock).mockReturnValueOnce({
+      id: 'lastRunId',
+      status: 'RUNNING',
+      startTime: '2020-01-01T00:00:00.000Z',
+      endTime: configuration.endTime
+    });
+    await historyQuery.start();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith(
+      'lastRunId',
+      'ERRORED',
+      'Run interrupted by a change of the time range'
+    );
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store the intervals of the run', async () => {
+    await historyQuery.start();
+    const intervals = [{ start: configuration.startTime, end: configuration.endTime }];
+    historyEvent.emit('intervals', 'itemId', intervals);
+    expect(historyService.repositoryService.historyQueryRunRepository.createIntervals).toHaveBeenCalledWith('runId', 'itemId', intervals);
+
+    const result = {
+      itemId: 'itemId',
+      interval: intervals[0],
+      numberOfValues: 1,
+      numberOfFiles: 0,
+      contentByItem: { item1: { numberOfValues: 1, numberOfFiles: 0 } },
+      error: null
+    };
+    historyEvent.emit('interval', result, ['itemId']);
+    expect(historyService.repositoryService.historyQueryRunRepository.updateInterval).toHaveBeenCalledWith('runId', result, ['itemId']);
+
+    await historyQuery.stop();
+    expect(historyEvent.listenerCount('interval')).toBe(0);
+  });
+
+  it('should store the error of the run before retrying', async () => {
+    createdSouth.historyQueryHandler.mockImplementationOnce(() => Promise.reject(new Error('history error')));
+    await historyQuery.start();
+    connectedEvent.emit('connected');
+    await flushPromises();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith('runId', 'RUNNING', 'history error');
+  });
+
   it('should properly set another logger', async () => {
     historyQuery.stop = jest.fn();
     historyQuery.setLogger(anotherLogger);
@@ -309,6 +501,7 @@ describe('HistoryQuery disabled', () => {
     jest.clearAllMocks();
     jest.useFakeTimers().setSystemTime(new Date(nowDateString));
     connectedEvent.removeAllListeners();
+    historyEvent.removeAllListeners();
 
     (southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
     (northService.createNorth as jest.Mock).mockReturnValue(createdNorth);
@@ -318,6 +511,14 @@ describe('HistoryQuery disabled', () => {
       name: 'history',
       southType: 'FolderScanner',
       northType: 'Console',
+      northId: null,
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
       description: 'my test history query',
       status: 'PENDING',
       history: {
@@ -336,9 +537,11 @@ describe('HistoryQuery disabled', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 1,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -347,11 +550,12 @@ describe('HistoryQuery disabled', () => {
             retentionDuration: 0
           }
         }
-      }
+      },
+      additionalNorths: []
     };
     (historyService.repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValue(configuration);
 
-    historyQuery = new HistoryQuery(configuration, southService, northService, historyService, logger, 'baseFolder');
+    historyQuery = new HistoryQuery(configuration, southService, northService, historyService, engine, logger, 'baseFolder');
   });
 
   it('should be properly initialized', async () => {
@@ -362,12 +566,12 @@ describe('HistoryQuery disabled', () => {
   });
 
   it('should not cache values if north is not defined', async () => {
-    await historyQuery.addContent('southId', { type: 'time-values', content: [] });
+    expect(await historyQuery.addContent('southId', { type: 'time-values', content: [] })).toEqual(0);
     expect(logger.info).not.toHaveBeenCalled();
   });
 
   it('should not cache file if north is not defined', async () => {
-    await historyQuery.addContent('southId', { type: 'raw', filePath: 'filePath' });
+    expect(await historyQuery.addContent('southId', { type: 'raw', filePath: 'filePath' })).toEqual(0);
     expect(logger.info).not.toHaveBeenCalled();
   });
 
@@ -386,3 +590,480 @@ describe('HistoryQuery disabled', () => {
     expect(historyQuery.getMetricsDataStream()).toEqual({ stream: 'myStream' });
   });
 });
+
+describe('HistoryQuery with additional North targets', () => {
+  const additionalNorthStream = new Stream();
+  const additionalNorth = {
+    start: jest.fn(),
+    stop: jest.fn(),
+    cacheValues: jest.fn().mockResolvedValue(true),
+    cacheFile: jest.fn().mockResolvedValue(true),
+    resetCache: jest.fn(),
+    isCacheEmpty: jest.fn(),
+    isBackpressuring: jest.fn().mockReturnValue(false),
+    getMetricsDataStream: jest.fn(() => additionalNorthStream)
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    connectedEvent.removeAllListeners();
+    historyEvent.removeAllListeners();
+    additionalNorthStream.removeAllListeners();
+
+    (southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
+    (northService.createNorth as jest.Mock).mockReturnValueOnce(createdNorth).mockReturnValueOnce(additionalNorth);
+    configuration = {
+      id: 'historyId',
+      name: 'history',
+      southType: 'FolderScanner',
+      northType: 'Console',
+      northId: null,
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
+      description: 'my test history query',
+      status: 'RUNNING',
+      history: {
+        maxInstantPerItem: true,
+        maxReadInterval: 3600,
+        readDelay: 0,
+        overlap: 0
+      },
+      northSettings: {},
+      southSettings: {},
+      southSharedConnection: false,
+      startTime: '2021-02-02T02:02:02.222Z',
+      endTime: '2022-02-02T02:02:02.222Z',
+      caching: {
+        scanModeId: 'scanModeId',
+        retryInterval: 5000,
+        retryCount: 3,
+        maxSize: 1,
+        overflowPolicy: 'drop-newest',
+        oibusTimeValues: {
+          groupCount: 1000,
+          maxSendCount: 10000,
+          storage: 'file'
+        },
+        rawFiles: {
+          sendFileImmediately: false,
+          archive: {
+            enabled: false,
+            retentionDuration: 0
+          }
+        }
+      },
+      additionalNorths: [
+        {
+          id: 'targetId',
+          northType: 'AmazonS3',
+          northSettings: { bucket: 'bucket' },
+          caching: {
+            scanModeId: 'scanModeId',
+            retryInterval: 1000,
+            retryCount: 2,
+            maxSize: 0,
+            overflowPolicy: 'stop',
+            oibusTimeValues: {
+              groupCount: 100,
+              maxSendCount: 1000,
+              storage: 'file'
+            },
+            rawFiles: {
+              sendFileImmediately: true,
+              archive: {
+                enabled: false,
+                retentionDuration: 0
+              }
+            }
+          }
+        }
+      ]
+    };
+    (historyService.repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValue(configuration);
+    (historyService.listItems as jest.Mock).mockReturnValue(items);
+
+    historyQuery = new HistoryQuery(
+      configuration,
+      southService,
+      northService,
+      historyService,
+      engine,
+      logger,
+      path.resolve('baseFolder', configuration.id)
+    );
+  });
+
+  it('should create and start every North', async () => {
+    await historyQuery.start();
+    expect(createFolder).toHaveBeenCalledWith(path.resolve('baseFolder', configuration.id, 'north-targetId'));
+    expect(northService.createNorth).toHaveBeenCalledWith(
+      {
+        id: 'targetId',
+        name: 'history (AmazonS3)',
+        description: '',
+        enabled: true,
+        type: 'AmazonS3',
+        settings: { bucket: 'bucket' },
+        caching: configuration.additionalNorths[0].caching
+      },
+      path.resolve('baseFolder', configuration.id, 'north-targetId'),
+      logger
+    );
+    expect(setAdditionalNorths).toHaveBeenCalledWith(['targetId']);
+    expect(createdNorth.start).toHaveBeenCalledTimes(1);
+    expect(additionalNorth.start).toHaveBeenCalledTimes(1);
+
+    additionalNorthStream.emit('data', `data: ${JSON.stringify({ numberOfValuesSent: 2 })}`);
+    expect(updateMetrics).toHaveBeenCalledWith({ status: 'my status', additionalNorths: { targetId: { numberOfValuesSent: 2 } } });
+  });
+
+  it('should fan out content to every North', async () => {
+    await historyQuery.start();
+
+    expect(await historyQuery.addContent('southId', { type: 'time-values', content: [{}, {}] as Array<OIBusTimeValue> })).toEqual(2);
+    expect(logger.info).toHaveBeenCalledWith(`Add 2 values from History Query "${configuration.name}" to 2 north connector(s)`);
+    expect(createdNorth.cacheValues).toHaveBeenCalledWith([{}, {}]);
+    expect(additionalNorth.cacheValues).toHaveBeenCalledWith([{}, {}]);
+
+    expect(await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' })).toEqual(2);
+    expect(createdNorth.cacheFile).toHaveBeenCalledWith('myFile');
+    expect(additionalNorth.cacheFile).toHaveBeenCalledWith('myFile');
+    expect(createdSouth.setBackpressured).toHaveBeenCalledWith(false);
+
+    additionalNorth.cacheValues.mockResolvedValueOnce(false);
+    expect(await historyQuery.addContent('southId', { type: 'time-values', content: [{}] as Array<OIBusTimeValue> })).toEqual(1);
+    expect(additionalNorth.cacheValues).toHaveBeenLastCalledWith([{}]);
+
+    additionalNorth.isBackpressuring.mockReturnValueOnce(true);
+    await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' });
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(true);
+  });
+
+  it('should stop and reset every North', async () => {
+    await historyQuery.start();
+    await historyQuery.stop();
+    expect(createdNorth.stop).toHaveBeenCalledTimes(1);
+    expect(additionalNorth.stop).toHaveBeenCalledTimes(1);
+
+    await historyQuery.resetCache();
+    expect(createdNorth.resetCache).toHaveBeenCalledTimes(1);
+    expect(additionalNorth.resetCache).toHaveBeenCalledTimes(1);
+  });
+
+  it('should finish once every North cache is empty', async () => {
+    historyQuery.stop = jest.fn();
+    createdSouth.historyIsRunning = false;
+    createdNorth.isCacheEmpty.mockReturnValue(true);
+    additionalNorth.isCacheEmpty.mockReturnValueOnce(false).mockReturnValue(true);
+
+    await historyQuery.start();
+    await historyQuery.finish();
+    expect(logger.debug).toHaveBeenCalledWith(`History query "${configuration.name}" is still running`);
+    expect(historyQuery.stop).not.toHaveBeenCalled();
+
+    await historyQuery.finish();
+    expect(logger.info).toHaveBeenCalledWith(`Finish "${configuration.name}" (${configuration.id})`);
+    expect(historyQuery.stop).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('HistoryQuery with an existing North connector', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    connectedEvent.removeAllListeners();
+    historyEvent.removeAllListeners();
+
+    (southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
+    (northService.createNorth as jest.Mock).mockReturnValue(createdNorth);
+    configuration = {
+      id: 'historyId',
+      name: 'history',
+      southType: 'FolderScanner',
+      northType: 'Console',
+      northId: 'northId',
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
+      description: 'my test history query',
+      status: 'RUNNING',
+      history: {
+        maxInstantPerItem: true,
+        maxReadInterval: 3600,
+        readDelay: 0,
+        overlap: 0
+      },
+      northSettings: {},
+      southSettings: {},
+      southSharedConnection: false,
+      startTime: '2021-02-02T02:02:02.222Z',
+      endTime: '2022-02-02T02:02:02.222Z',
+      caching: {
+        scanModeId: 'scanModeId',
+        retryInterval: 5000,
+        retryCount: 3,
+        maxSize: 1,
+        overflowPolicy: 'drop-newest',
+        oibusTimeValues: {
+          groupCount: 1000,
+          maxSendCount: 10000,
+          storage: 'file'
+        },
+        rawFiles: {
+          sendFileImmediately: false,
+          archive: {
+            enabled: false,
+            retentionDuration: 0
+          }
+        }
+      },
+      additionalNorths: []
+    };
+    (historyService.repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValue(configuration);
+    (historyService.listItems as jest.Mock).mockReturnValue(items);
+    (engine.isNorthBackpressuring as jest.Mock).mockReturnValue(false);
+
+    historyQuery = new HistoryQuery(
+      configuration,
+      southService,
+      northService,
+      historyService,
+      engine,
+      logger,
+      path.resolve('baseFolder', configuration.id)
+    );
+  });
+
+  it('should not create a dedicated North', async () => {
+    await historyQuery.start();
+    expect(northService.createNorth).not.toHaveBeenCalled();
+    expect(createFolder).not.toHaveBeenCalledWith(path.resolve('baseFolder', configuration.id, 'north'));
+    expect(createdSouth.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add content to the existing North', async () => {
+    await historyQuery.start();
+
+    expect(await historyQuery.addContent('southId', { type: 'time-values', content: [{}, {}] as Array<OIBusTimeValue> })).toEqual(1);
+    expect(logger.info).toHaveBeenCalledWith(`Add 2 values from History Query "${configuration.name}" to 1 north connector(s)`);
+    expect(engine.addHistoryContent).toHaveBeenCalledWith('northId', configuration.id, {
+      type: 'time-values',
+      content: [{}, {}]
+    });
+    expect(createdSouth.setBackpressured).toHaveBeenCalledWith(false);
+
+    (engine.isNorthBackpressuring as jest.Mock).mockReturnValueOnce(true);
+    expect(await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' })).toEqual(1);
+    expect(engine.isNorthBackpressuring).toHaveBeenCalledWith('northId');
+    expect(engine.addHistoryContent).toHaveBeenCalledWith('northId', configuration.id, { type: 'raw', filePath: 'myFile' });
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(true);
+
+    (engine.addHistoryContent as jest.Mock).mockResolvedValueOnce(false);
+    expect(await historyQuery.addContent('southId', { type: 'raw', filePath: 'myFile' })).toEqual(0);
+  });
+
+  it('should finish without waiting for the existing North cache', async () => {
+    historyQuery.stop = jest.fn();
+    createdSouth.historyIsRunning = false;
+
+    await historyQuery.start();
+    await historyQuery.finish();
+    expect(logger.info).toHaveBeenCalledWith(`Finish "${configuration.name}" (${configuration.id})`);
+    expect(historyQuery.stop).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Scheduled HistoryQuery', () => {
+  const scanMode = { id: 'scheduleScanModeId', name: 'Every night', description: '', cron: '0 1 * * *' };
+  let cronCallback: () => void;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    connectedEvent.removeAllListeners();
+    historyEvent.removeAllListeners();
+
+    (southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
+    (northService.createNorth as jest.Mock).mockReturnValue(createdNorth);
+    (CronJob as unknown as jest.Mock).mockImplementation((_cron, callback) => {
+      cronCallback = callback;
+      return { stop: jest.fn() };
+    });
+    (generateScheduledWindow as jest.Mock).mockReturnValue({ start: '2020-02-01T00:00:00.000Z', end: '2020-02-02T00:00:00.000Z' });
+    (historyService.repositoryService.scanModeRepository.getScanMode as jest.Mock).mockReturnValue(scanMode);
+    createdSouth.historyQueryHandler.mockReturnValue(Promise.resolve());
+    configuration = {
+      id: 'historyId',
+      name: 'history',
+      southType: 'FolderScanner',
+      northType: 'Console',
+      northId: null,
+      schedule: {
+        enabled: true,
+        scanModeId: 'scheduleScanModeId',
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'Europe/Paris'
+      },
+      description: 'my test history query',
+      status: 'RUNNING',
+      history: {
+        maxInstantPerItem: true,
+        maxReadInterval: 3600,
+        readDelay: 0,
+        overlap: 0
+      },
+      northSettings: {},
+      southSettings: {},
+      southSharedConnection: false,
+      startTime: '2021-02-02T02:02:02.222Z',
+      endTime: '2022-02-02T02:02:02.222Z',
+      caching: {
+        scanModeId: 'scanModeId',
+        retryInterval: 5000,
+        retryCount: 3,
+        maxSize: 1,
+        overflowPolicy: 'drop-newest',
+        oibusTimeValues: {
+          groupCount: 1000,
+          maxSendCount: 10000,
+          storage: 'file'
+        },
+        rawFiles: {
+          sendFileImmediately: false,
+          archive: {
+            enabled: false,
+            retentionDuration: 0
+          }
+        }
+      },
+      additionalNorths: []
+    };
+    (historyService.repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValue(configuration);
+    (historyService.listItems as jest.Mock).mockReturnValue(items);
+
+    historyQuery = new HistoryQuery(
+      configuration,
+      southService,
+      northService,
+      historyService,
+      engine,
+      logger,
+      path.resolve('baseFolder', configuration.id)
+    );
+  });
+
+  it('should wait for the schedule to start a run', async () => {
+    await historyQuery.start();
+    expect(historyService.repositoryService.scanModeRepository.getScanMode).toHaveBeenCalledWith('scheduleScanModeId');
+    expect(CronJob).toHaveBeenCalledWith(scanMode.cron, expect.any(Function), null, true);
+    expect(createdNorth.start).toHaveBeenCalledTimes(1);
+    expect(createdSouth.start).not.toHaveBeenCalled();
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).not.toHaveBeenCalled();
+  });
+
+  it('should run the window of the schedule', async () => {
+    await historyQuery.start();
+    cronCallback();
+    await flushPromises();
+    expect(generateScheduledWindow).toHaveBeenCalledWith(configuration.schedule, nowDateString);
+    expect(createdSouth.resetCache).toHaveBeenCalledTimes(1);
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).toHaveBeenCalledWith(
+      configuration.id,
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z'
+    );
+    expect(createdSouth.start).toHaveBeenCalledTimes(1);
+
+    connectedEvent.emit('connected');
+    expect(createdSouth.historyQueryHandler).toHaveBeenCalledWith(
+      items,
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z',
+      'history',
+      true
+    );
+
+    cronCallback();
+    await flushPromises();
+    expect(logger.warn).toHaveBeenCalledWith(`Run of History query "${configuration.name}" skipped. The previous run is still running`);
+    expect(historyService.repositoryService.historyQueryRunRepository.createRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('should finish a run without stopping the North connectors', async () => {
+    createdSouth.historyIsRunning = false;
+    createdNorth.isCacheEmpty.mockReturnValue(true);
+    await historyQuery.start();
+    cronCallback();
+    await flushPromises();
+
+    await historyQuery.finish();
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith('runId', 'FINISHED', null);
+    expect(createdSouth.stop).toHaveBeenCalledTimes(1);
+    expect(createdNorth.stop).not.toHaveBeenCalled();
+    expect(historyService.repositoryService.historyQueryRepository.setHistoryQueryStatus).not.toHaveBeenCalled();
+  });
+
+  it('should end a run in error without retrying', async () => {
+    createdSouth.historyQueryHandler.mockImplementationOnce(() => Promise.reject(new Error('history error')));
+    await historyQuery.start();
+    cronCallback();
+    await flushPromises();
+    connectedEvent.emit('connected');
+    await flushPromises();
+
+    expect(historyService.repositoryService.historyQueryRunRepository.updateRun).toHaveBeenCalledWith('runId', 'ERRORED', 'history error');
+    expect(createdSouth.stop).toHaveBeenCalledTimes(1);
+    expect(createdSouth.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume an interrupted run', async () => {
+    (historyService.repositoryService.historyQueryRunRepository.getLastRun as jest.Mock).mockReturnValueOnce({
+      id: 'lastRunId',
+      status: 'RUNNING',
+      startTime: '2020-01-31T00:00:00.000Z',
+      endTime: '2020-02-01T00:00:00.000Z'
+    });
+    await historyQuery.start();
+    expect(createdSouth.start).toHaveBeenCalledTimes(1);
+    connectedEvent.emit('connected');
+    expect(createdSouth.historyQueryHandler).toHaveBeenCalledWith(
+      items,
+      '2020-01-31T00:00:00.000Z',
+      '2020-02-01T00:00:00.000Z',
+      'history',
+      true
+    );
+  });
+
+  it('should update the cron of its scan mode and stop it', async () => {
+    await historyQuery.start();
+    const job = (CronJob as unknown as jest.Mock).mock.results[0].value;
+    await historyQuery.updateScanMode({ ...scanMode, id: 'anotherScanMode' });
+    expect(CronJob).toHaveBeenCalledTimes(1);
+
+    await historyQuery.updateScanMode({ ...scanMode, cron: '0 2 * * *' });
+    expect(job.stop).toHaveBeenCalledTimes(1);
+    expect(CronJob).toHaveBeenCalledTimes(2);
+
+    await historyQuery.stop();
+    expect((CronJob as unknown as jest.Mock).mock.results[1].value.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not create the cron of a missing scan mode', async () => {
+    (historyService.repositoryService.scanModeRepository.getScanMode as jest.Mock).mockReturnValueOnce(null);
+    await historyQuery.start();
+    expect(logger.error).toHaveBeenCalledWith('Scan mode scheduleScanModeId not found');
+    expect(CronJob).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,14 @@
 import path from 'node:path';
-import { HistoryQueryDTO } from '../../../shared/model/history-query.model';
+import {
+  HistoryQueryDTO,
+  HistoryQueryRunDTO,
+  HistoryQueryRunIntervalDTO,
+  HistoryQueryRunStatus
+} from '../../../shared/model/history-query.model';
 import { SouthConnectorDTO } from '../../../shared/model/south-connector.model';
 import { NorthConnectorDTO } from '../../../shared/model/north-connector.model';
 
-import { createFolder, delay } from '../service/utils';
+import { createFolder, delay, generateScheduledWindow, validateCronExpression } from '../service/utils';
 import pino from 'pino';
 import SouthService from '../service/south.service';
 import NorthService from '../service/north.service';
@@ -15,14 +20,24 @@ import { PassThrough } from 'node:stream';
 import { SouthSettings } from '../../../shared/model/south-settings.model';
 import { NorthSettings } from '../../../shared/model/north-settings.model';
 import { OIBusContent } from '../../../shared/model/engine.model';
+import OIBusEngine from './oibus-engine';
+import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
+import { CronJob } from 'cron';
+import { DateTime } from 'luxon';
+import { Interval } from '../../../shared/model/types';
+import { HistoryIntervalResult } from '../south/south-interface';
 
 const FINISH_INTERVAL = 5000;
 
 export default class HistoryQuery {
   protected readonly baseFolder: string;
   private north: NorthConnector<any> | null = null;
+  private additionalNorths: Map<string, NorthConnector<any>> = new Map<string, NorthConnector<any>>();
   private south: SouthConnector<any, any> | null = null;
   private finishInterval: NodeJS.Timeout | null = null;
+  private cronJob: CronJob | null = null;
+  private run: HistoryQueryRunDTO | null = null;
+  private failedIntervals: Array<HistoryQueryRunIntervalDTO> | null = null;
   private readonly _metricsService: HistoryMetricsService;
   private stopping = false;
 
@@ -31,6 +46,7 @@ export default class HistoryQuery {
     private readonly southService: SouthService,
     private readonly northService: NorthService,
     private readonly historyService: HistoryQueryService,
+    private readonly engine: OIBusEngine,
     private logger: pino.Logger,
     baseFolder: string
   ) {
@@ -43,9 +59,10 @@ export default class HistoryQuery {
   }
 
   /**
-   * Run history query according to its status
+   * Run history query according to its status. With retryFailedIntervals, the last run is resumed to query again only
+   * its intervals in error
    */
-  async start<S extends SouthSettings, N extends NorthSettings>(): Promise<void> {
+  async start<S extends SouthSettings, N extends NorthSettings>(retryFailedIntervals = false): Promise<void> {
     this.historyConfiguration = this.historyService.repositoryService.historyQueryRepository.getHistoryQuery(this.historyConfiguration.id)!;
     const southConfiguration: SouthConnectorDTO<S> = {
       id: this.historyConfiguration.id,
@@ -60,18 +77,54 @@ export default class HistoryQuery {
     const southFolder = path.resolve(this.baseFolder, 'south');
     await createFolder(southFolder);
     this.south = this.southService.createSouth(southConfiguration, this.addContent.bind(this), southFolder, this.logger);
-    const northConfiguration: NorthConnectorDTO<N> = {
-      id: this.historyConfiguration.id,
-      name: this.historyConfiguration.name,
-      description: '',
-      enabled: true,
-      type: this.historyConfiguration.northType,
-      settings: this.historyConfiguration.northSettings,
-      caching: this.historyConfiguration.caching
-    };
-    const northFolder = path.resolve(this.baseFolder, 'north');
-    await createFolder(northFolder);
-    this.north = this.northService.createNorth(northConfiguration, northFolder, this.logger);
+    // Without North id, the content is sent through a North dedicated to the History query, otherwise the
+    // content goes to the cache of the existing North connector
+    this.north = null;
+    if (!this.historyConfiguration.northId) {
+      const northConfiguration: NorthConnectorDTO<N> = {
+        id: this.historyConfiguration.id,
+        name: this.historyConfiguration.name,
+        description: '',
+        enabled: true,
+        type: this.historyConfiguration.northType,
+        settings: this.historyConfiguration.northSettings,
+        caching: this.historyConfiguration.caching
+      };
+      const northFolder = path.resolve(this.baseFolder, 'north');
+      await createFolder(northFolder);
+      this.north = this.northService.createNorth(northConfiguration, northFolder, this.logger);
+      this.north.getMetricsDataStream().on('data', data => {
+        // Remove the 'data: ' start of the string
+        const northMetrics = JSON.parse(Buffer.from(data).toString().slice(6));
+        this._metricsService.updateMetrics({ ...this._metricsService.metrics, north: northMetrics });
+      });
+    }
+
+    this.additionalNorths.clear();
+    for (const target of this.historyConfiguration.additionalNorths) {
+      const additionalNorthConfiguration: NorthConnectorDTO<N> = {
+        id: target.id,
+        name: `${this.historyConfiguration.name} (${target.northType})`,
+        description: '',
+        enabled: true,
+        type: target.northType,
+        settings: target.northSettings,
+        caching: target.caching
+      };
+      const additionalNorthFolder = path.resolve(this.baseFolder, `north-${target.id}`);
+      await createFolder(additionalNorthFolder);
+      const additionalNorth = this.northService.createNorth(additionalNorthConfiguration, additionalNorthFolder, this.logger);
+      additionalNorth.getMetricsDataStream().on('data', data => {
+        // Remove the 'data: ' start of the string
+        const northMetrics = JSON.parse(Buffer.from(data).toString().slice(6));
+        this._metricsService.updateMetrics({
+          ...this._metricsService.metrics,
+          additionalNorths: { ...this._metricsService.metrics.additionalNorths, [target.id]: northMetrics }
+        });
+      });
+      this.additionalNorths.set(target.id, additionalNorth);
+    }
+    this._metricsService.setAdditionalNorths([...this.additionalNorths.keys()]);
 
     this.south.getMetricsDataStream().on('data', data => {
       // Remove the 'data: ' start of the string
@@ -79,34 +132,42 @@ export default class HistoryQuery {
       this._metricsService.updateMetrics({ ...this._metricsService.metrics, south: southMetrics });
     });
 
-    this.north.getMetricsDataStream().on('data', data => {
-      // Remove the 'data: ' start of the string
-      const northMetrics = JSON.parse(Buffer.from(data).toString().slice(6));
-      this._metricsService.updateMetrics({ ...this._metricsService.metrics, north: northMetrics });
-    });
-
     if (this.historyConfiguration.status !== 'RUNNING') {
       this.logger.trace(`History Query "${this.historyConfiguration.name}" not enabled`);
       return;
     }
 
-    await this.north.start(false);
+    for (const north of this.getNorths()) {
+      await north.start(false);
+    }
 
     this.south.connectedEvent.on('connected', async () => {
       this.south!.createDeferredPromise();
 
-      this.south!.historyQueryHandler(
-        this.historyService.listItems(this.historyConfiguration.id, { enabled: true }),
-        this.historyConfiguration.startTime,
-        this.historyConfiguration.endTime,
-        'history'
-      )
+      const items = this.historyService.listItems(this.historyConfiguration.id, { enabled: true });
+      const query = this.failedIntervals
+        ? this.south!.retryHistoryIntervals(
+            items,
+            this.failedIntervals.map(interval => ({
+              itemId: interval.itemId,
+              interval: { start: interval.startTime, end: interval.endTime }
+            }))
+          )
+        : this.south!.historyQueryHandler(items, this.run!.startTime, this.run!.endTime, 'history', true);
+      query
         .then(() => {
           this.south!.resolveDeferredPromise();
         })
         .catch(async error => {
           this.logger.error(`Error while executing history query. ${error}`);
           this.south!.resolveDeferredPromise();
+          if (this.historyConfiguration.schedule.enabled) {
+            // A scheduled run is not retried: the next run extracts its own window
+            this.endRun('ERRORED', error.message);
+            await this.south!.stop(false);
+            return;
+          }
+          this.historyService.repositoryService.historyQueryRunRepository.updateRun(this.run!.id, 'RUNNING', error.message);
           await delay(FINISH_INTERVAL);
           this.historyConfiguration = this.historyService.repositoryService.historyQueryRepository.getHistoryQuery(
             this.historyConfiguration.id
@@ -121,37 +182,214 @@ export default class HistoryQuery {
       }
       this.finishInterval = setInterval(this.finish.bind(this), FINISH_INTERVAL);
     });
-    await this.south.start(false);
-  }
-
-  async addContent(_historyId: string, data: OIBusContent) {
-    if (this.north) {
-      switch (data.type) {
-        case 'time-values':
-          this.logger.info(`Add ${data.content.length} values from History Query "${this.historyConfiguration.name}" to north connector`);
-          return await this.north.cacheValues(data.content);
-        case 'raw':
-          this.logger.info(`Add file "${data.filePath}" from History Query "${this.historyConfiguration.name}" to north connector`);
-          return await this.north.cacheFile(data.filePath);
+
+    // The intervals of the run are stored for its report
+    this.south.historyEvent.on('intervals', (itemId: string | null, intervals: Array<Interval>) => {
+      this.historyService.repositoryService.historyQueryRunRepository.createIntervals(this.run!.id, itemId, intervals);
+    });
+    this.south.historyEvent.on('interval', (result: HistoryIntervalResult, itemIds: Array<string>) => {
+      this.historyService.repositoryService.historyQueryRunRepository.updateInterval(this.run!.id, result, itemIds);
+    });
+
+    const lastRun = this.historyService.repositoryService.historyQueryRunRepository.getLastRun(this.historyConfiguration.id);
+    if (this.historyConfiguration.schedule.enabled) {
+      // A run interrupted by a stop is resumed, the next runs are started by the schedule
+      this.run = lastRun?.status === 'RUNNING' ? lastRun : null;
+      const scanMode = this.historyService.repositoryService.scanModeRepository.getScanMode(this.historyConfiguration.schedule.scanModeId!);
+      if (scanMode) {
+        this.createCronJob(scanMode);
+      } else {
+        this.logger.error(`Scan mode ${this.historyConfiguration.schedule.scanModeId} not found`);
       }
+    } else if (!retryFailedIntervals) {
+      this.run = this.resumeOrCreateRun(lastRun);
+    }
+    this.failedIntervals = null;
+    if (retryFailedIntervals && lastRun) {
+      this.run = this.resumeFailedIntervals(lastRun);
+    }
+    if (this.run) {
+      await this.south.start(false);
+    }
+  }
+
+  /**
+   * Resume the last run when it was interrupted while extracting the current time range of the History query, or
+   * create a new run
+   */
+  private resumeOrCreateRun(lastRun: HistoryQueryRunDTO | null): HistoryQueryRunDTO {
+    const runRepository = this.historyService.repositoryService.historyQueryRunRepository;
+    if (lastRun?.status === 'RUNNING') {
+      if (lastRun.startTime === this.historyConfiguration.startTime && lastRun.endTime === this.historyConfiguration.endTime) {
+        return lastRun;
+      }
+      runRepository.updateRun(lastRun.id, 'ERRORED', 'Run interrupted by a change of the time range');
+    }
+    return runRepository.createRun(this.historyConfiguration.id, this.historyConfiguration.startTime, this.historyConfiguration.endTime);
+  }
+
+  /**
+   * Resume a finished run to query again its failed intervals, leaving the intervals already queried untouched
+   */
+  private resumeFailedIntervals(lastRun: HistoryQueryRunDTO): HistoryQueryRunDTO | null {
+    const runRepository = this.historyService.repositoryService.historyQueryRunRepository;
+    const failedIntervals = runRepository.getIntervals(lastRun.id).filter(interval => interval.status === 'ERRORED');
+    if (!failedIntervals.length) {
+      this.logger.warn(`No failed interval to retry for History query "${this.historyConfiguration.name}"`);
+      return this.run;
+    }
+    this.logger.info(`Retry ${failedIntervals.length} failed intervals of History query "${this.historyConfiguration.name}"`);
+    this.failedIntervals = failedIntervals;
+    runRepository.updateRun(lastRun.id, 'RUNNING', null);
+    return lastRun;
+  }
+
+  /**
+   * Create the job starting the runs of a scheduled History query
+   */
+  createCronJob(scanMode: ScanModeDTO): void {
+    if (this.cronJob) {
+      this.logger.debug(`Removing existing History query cron job associated to scan mode "${scanMode.name}" (${scanMode.cron})`);
+      this.cronJob.stop();
+      this.cronJob = null;
+    }
+    this.logger.debug(`Creating History query cron job for scan mode "${scanMode.name}" (${scanMode.cron})`);
+    try {
+      validateCronExpression(scanMode.cron);
+      this.cronJob = new CronJob(
+        scanMode.cron,
+        () => {
+          this.startScheduledRun().catch(error => {
+            this.logger.error(`Error when starting a run of History query "${this.historyConfiguration.name}": ${error.message}`);
+          });
+        },
+        null,
+        true
+      );
+    } catch (error: any) {
+      this.logger.error(`Error when creating History query cron job for scan mode "${scanMode.name}" (${scanMode.cron}): ${error.message}`);
+    }
+  }
+
+  async updateScanMode(scanMode: ScanModeDTO): Promise<void> {
+    if (this.cronJob && this.historyConfiguration.schedule.scanModeId === scanMode.id) {
+      this.createCronJob(scanMode);
     }
   }
 
+  /**
+   * Start a run extracting the window of the schedule ending before now
+   */
+  async startScheduledRun(): Promise<void> {
+    if (this.run) {
+      this.logger.warn(`Run of History query "${this.historyConfiguration.name}" skipped. The previous run is still running`);
+      return;
+    }
+    const window = generateScheduledWindow(this.historyConfiguration.schedule, DateTime.now().toUTC().toISO()!);
+    // The whole window is extracted, even when it overlaps the window of the previous run
+    await this.south!.resetCache();
+    this.run = this.historyService.repositoryService.historyQueryRunRepository.createRun(
+      this.historyConfiguration.id,
+      window.start,
+      window.end
+    );
+    this.logger.info(`Run History query "${this.historyConfiguration.name}" from ${window.start} to ${window.end}`);
+    await this.south!.start(false);
+  }
+
+  /**
+   * Store the status of the current run once it is over. A run finished with intervals in error is errored, until these
+   * intervals are retried
+   */
+  private endRun(status: HistoryQueryRunStatus, error: string | null): void {
+    if (this.finishInterval) {
+      clearInterval(this.finishInterval);
+      this.finishInterval = null;
+    }
+    this.failedIntervals = null;
+    if (this.run) {
+      const runRepository = this.historyService.repositoryService.historyQueryRunRepository;
+      const numberOfFailedIntervals =
+        status === 'FINISHED' ? runRepository.getIntervals(this.run.id).filter(interval => interval.status === 'ERRORED').length : 0;
+      if (numberOfFailedIntervals > 0) {
+        runRepository.updateRun(this.run.id, 'ERRORED', `${numberOfFailedIntervals} intervals could not be queried`);
+      } else {
+        runRepository.updateRun(this.run.id, status, error);
+      }
+      this.run = null;
+    }
+  }
+
+  /**
+   * Add the content retrieved by the South connector to the North connectors of the History query.
+   * Return the number of North connectors that cached the content
+   */
+  async addContent(_historyId: string, data: OIBusContent): Promise<number> {
+    if (!this.south) {
+      return 0;
+    }
+    const norths = this.getNorths();
+    const northId = this.historyConfiguration.northId;
+    const numberOfNorths = norths.length + (northId ? 1 : 0);
+    let numberOfNorthsReached = 0;
+    switch (data.type) {
+      case 'time-values':
+        this.logger.info(
+          `Add ${data.content.length} values from History Query "${this.historyConfiguration.name}" to ${numberOfNorths} north connector(s)`
+        );
+        for (const north of norths) {
+          if (await north.cacheValues(data.content)) {
+            numberOfNorthsReached++;
+          }
+        }
+        break;
+      case 'raw':
+        this.logger.info(
+          `Add file "${data.filePath}" from History Query "${this.historyConfiguration.name}" to ${numberOfNorths} north connector(s)`
+        );
+        for (const north of norths) {
+          if (await north.cacheFile(data.filePath)) {
+            numberOfNorthsReached++;
+          }
+        }
+        break;
+    }
+    if (northId && (await this.engine.addHistoryContent(northId, this.historyConfiguration.id, data))) {
+      numberOfNorthsReached++;
+    }
+    this.south.setBackpressured(this.isBackpressured());
+    return numberOfNorthsReached;
+  }
+
+  /**
+   * Check if one of the North connectors of the History query refuses new content because its cache is full: the slowest
+   * North sets the pace of the extraction
+   */
+  private isBackpressured(): boolean {
+    const northId = this.historyConfiguration.northId;
+    return this.getNorths().some(north => north.isBackpressuring()) || (!!northId && this.engine.isNorthBackpressuring(northId));
+  }
+
   /**
    * Stop history query
    */
   async stop(): Promise<void> {
     this.stopping = true;
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+    }
     if (this.finishInterval) {
       clearInterval(this.finishInterval);
       this.finishInterval = null;
     }
     if (this.south) {
       this.south.connectedEvent.removeAllListeners();
+      this.south.historyEvent.removeAllListeners();
       await this.south.stop(false);
     }
-    if (this.north) {
-      await this.north.stop(false);
+    for (const north of this.getNorths()) {
+      await north.stop(false);
     }
     this.stopping = false;
   }
@@ -160,8 +398,8 @@ export default class HistoryQuery {
     if (this.south) {
       await this.south.resetCache();
     }
-    if (this.north) {
-      await this.north.resetCache();
+    for (const north of this.getNorths()) {
+      await north.resetCache();
     }
     if (this._metricsService) {
       this._metricsService.resetMetrics();
@@ -172,16 +410,43 @@ export default class HistoryQuery {
    * Finish HistoryQuery.
    */
   async finish(): Promise<void> {
-    if (!this.north || !this.south || ((await this.north.isCacheEmpty()) && !this.south.historyIsRunning)) {
+    // The content sent to an existing North connector is part of its data stream and does not delay the end of the History query
+    if (!this.south || ((await this.areCachesEmpty()) && !this.south.historyIsRunning)) {
+      if (this.historyConfiguration.schedule.enabled) {
+        // The North connectors keep running until the next run of the schedule
+        this.logger.info(`Run of "${this.historyConfiguration.name}" (${this.historyConfiguration.id}) finished`);
+        this.endRun('FINISHED', null);
+        await this.south?.stop(false);
+        return;
+      }
       this.logger.info(`Finish "${this.historyConfiguration.name}" (${this.historyConfiguration.id})`);
       await this.stop();
+      this.endRun('FINISHED', null);
       this.historyService.repositoryService.historyQueryRepository.setHistoryQueryStatus(this.historyConfiguration.id, 'FINISHED');
       this.historyConfiguration = this.historyService.repositoryService.historyQueryRepository.getHistoryQuery(
         this.historyConfiguration.id
       )!;
     } else {
       this.logger.debug(`History query "${this.historyConfiguration.name}" is still running`);
+      // Resume the South connector paused between two intervals once the caches of the North connectors are no longer full
+      this.south.setBackpressured(this.isBackpressured());
+    }
+  }
+
+  /**
+   * The North connectors created by the History query: its main North, if any, followed by the additional North targets
+   */
+  private getNorths(): Array<NorthConnector<any>> {
+    return this.north ? [this.north, ...this.additionalNorths.values()] : [...this.additionalNorths.values()];
+  }
+
+  private async areCachesEmpty(): Promise<boolean> {
+    for (const north of this.getNorths()) {
+      if (!(await north.isCacheEmpty())) {
+        return false;
+      }
     }
+    return true;
   }
 
   setLogger(value: pino.Logger) {
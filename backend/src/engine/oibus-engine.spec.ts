@@ -19,7 +19,9 @@ import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
 import { filesExists } from '../service/utils';
 import HomeMetricsServiceMock from '../tests/__mocks__/home-metrics-service.mock';
 import HomeMetricsService from '../service/home-metrics.service';
-import { OIBusTimeValue } from '../../../shared/model/engine.model';
+import { OIBusContent, OIBusTimeValue } from '../../../shared/model/engine.model';
+import OIAnalyticsMessageService from '../service/oia/message.service';
+import MessageServiceMock from '../tests/__mocks__/message-service.mock';
 
 jest.mock('../south/south-mqtt/south-mqtt');
 jest.mock('../service/south.service');
@@ -35,6 +37,7 @@ const anotherLogger: pino.Logger = new PinoLogger();
 const southService: SouthService = new SouthServiceMock();
 const northService: NorthService = new NorthServiceMock();
 const homeMetrics: HomeMetricsService = new HomeMetricsServiceMock();
+const oianalyticsMessageService: OIAnalyticsMessageService = new MessageServiceMock();
 const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
 
 const nowDateString = '2020-02-02T02:02:02.222Z';
@@ -127,6 +130,12 @@ const createdSouth = {
   getMetricsDataStream: jest.fn(),
   resetMetrics: jest.fn(),
   onItemChange: jest.fn(),
+  onTransformersChange: jest.fn(),
+  setBackpressured: jest.fn(),
+  writeItemValue: jest.fn(),
+  callRemoteMethod: jest.fn(),
+  browsesNodes: jest.fn(),
+  browse: jest.fn(),
   settings: { id: 'id1', name: 'South Connector1', type: 'sqlite' },
   connectedEvent: connectedEvent
 };
@@ -135,9 +144,10 @@ const createdNorth = {
   stop: jest.fn(),
   connect: jest.fn(),
   isEnabled: jest.fn(),
-  cacheValues: jest.fn(),
-  cacheFile: jest.fn(),
+  cacheValues: jest.fn().mockResolvedValue(true),
+  cacheFile: jest.fn().mockResolvedValue(true),
   isSubscribed: jest.fn(),
+  transformSubscribedContent: jest.fn((_southId: string, content: OIBusContent): OIBusContent | null => content),
   setLogger: jest.fn(),
   updateScanMode: jest.fn(),
   getErrorFiles: jest.fn(),
@@ -167,6 +177,8 @@ const createdNorth = {
   retryValueErrors: jest.fn(),
   retryAllValueErrors: jest.fn(),
   updateConnectorSubscription: jest.fn(),
+  isBackpressuring: jest.fn().mockReturnValue(false),
+  cacheEvent: new EventEmitter(),
   settings: { id: 'id1', name: 'myNorthConnector1', type: 'oianalytics' }
 };
 
@@ -178,7 +190,7 @@ describe('OIBusEngine', () => {
     (southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
     (northService.createNorth as jest.Mock).mockReturnValue(createdNorth);
 
-    engine = new OIBusEngine(encryptionService, northService, southService, homeMetrics, logger);
+    engine = new OIBusEngine(encryptionService, northService, southService, homeMetrics, oianalyticsMessageService, logger);
   });
 
   it('it should start', async () => {
@@ -404,6 +416,40 @@ describe('OIBusEngine', () => {
     await engine.onSouthItemsChange('southId');
     expect(createdSouth.onItemChange).toHaveBeenCalledTimes(2);
 
+    engine.onSouthTransformersChange(southConnectors[0].id);
+    engine.onSouthTransformersChange('southId');
+    expect(createdSouth.onTransformersChange).toHaveBeenCalledTimes(1);
+
+    const item = { id: 'itemId', name: 'item', connectorId: southConnectors[0].id } as SouthConnectorItemDTO;
+    await expect(engine.writeSouthItem('southId', item, 12, 'admin')).rejects.toThrow(
+      new Error('South connector "southId" is not running')
+    );
+    createdSouth.isEnabled.mockReturnValueOnce(false).mockReturnValueOnce(true);
+    await expect(engine.writeSouthItem(southConnectors[0].id, item, 12, 'admin')).rejects.toThrow(
+      new Error(`South connector "${southConnectors[0].id}" is not running`)
+    );
+    await engine.writeSouthItem(southConnectors[0].id, item, 12, 'admin');
+    expect(createdSouth.writeItemValue).toHaveBeenCalledTimes(1);
+    expect(createdSouth.writeItemValue).toHaveBeenCalledWith(item, 12, 'admin');
+
+    await expect(engine.callSouthMethod('southId', 'objectId', 'methodId', [12], 'admin')).rejects.toThrow(
+      new Error('South connector "southId" is not running')
+    );
+    createdSouth.isEnabled.mockReturnValueOnce(true);
+    createdSouth.callRemoteMethod.mockReturnValueOnce([1]);
+    expect(await engine.callSouthMethod(southConnectors[0].id, 'objectId', 'methodId', [12], 'admin')).toEqual([1]);
+    expect(createdSouth.callRemoteMethod).toHaveBeenCalledWith('objectId', 'methodId', [12], 'admin');
+
+    await expect(engine.browseSouth('southId', null)).rejects.toThrow(new Error('South connector "southId" is not running'));
+    createdSouth.isEnabled.mockReturnValueOnce(true).mockReturnValueOnce(true);
+    createdSouth.browsesNodes.mockReturnValueOnce(false).mockReturnValueOnce(true);
+    await expect(engine.browseSouth(southConnectors[0].id, null)).rejects.toThrow(
+      new Error(`South connector "${southConnectors[0].id}" does not support browse`)
+    );
+    createdSouth.browse.mockReturnValueOnce([{ nodeId: 'ns=3;s=Node' }]);
+    expect(await engine.browseSouth(southConnectors[0].id, 'ns=3;s=Folder')).toEqual([{ nodeId: 'ns=3;s=Node' }]);
+    expect(createdSouth.browse).toHaveBeenCalledWith('ns=3;s=Folder');
+
     // Cache value operations
     // Get cache values
     await engine.getCacheValues('id1', '');
@@ -506,6 +552,130 @@ describe('OIBusEngine', () => {
     expect(createdSouth.start).toHaveBeenCalledTimes(1);
   });
 
+  it('should add content to every subscribed North', async () => {
+    const firstNorth = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      isSubscribed: jest.fn().mockReturnValue(true),
+      transformSubscribedContent: jest.fn((_southId: string, content: OIBusContent): OIBusContent | null => content),
+      cacheValues: jest.fn().mockResolvedValue(true),
+      cacheFile: jest.fn().mockResolvedValue(true),
+      isBackpressuring: jest.fn().mockReturnValue(false),
+      cacheEvent: new EventEmitter(),
+      settings: { id: 'id1', name: 'myNorthConnector1', type: 'oianalytics' }
+    };
+    const secondNorth = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      isSubscribed: jest.fn().mockReturnValue(true),
+      transformSubscribedContent: jest.fn((_southId: string, content: OIBusContent): OIBusContent | null => content),
+      cacheValues: jest.fn().mockResolvedValue(true),
+      cacheFile: jest.fn().mockResolvedValue(true),
+      isBackpressuring: jest.fn().mockReturnValue(false),
+      cacheEvent: new EventEmitter(),
+      settings: { id: 'id2', name: 'myNorthConnector2', type: 'oiconnect' }
+    };
+    (northService.createNorth as jest.Mock).mockReturnValueOnce(firstNorth).mockReturnValueOnce(secondNorth);
+    await engine.createNorth(northConnectors[0]);
+    await engine.createNorth(northConnectors[1]);
+
+    expect(await engine.addContent('southId', { type: 'time-values', content: [{}, {}] as Array<OIBusTimeValue> })).toEqual(2);
+    expect(firstNorth.cacheValues).toHaveBeenCalledWith([{}, {}]);
+    expect(secondNorth.cacheValues).toHaveBeenCalledWith([{}, {}]);
+
+    expect(await engine.addContent('southId', { type: 'raw', filePath: 'filePath' })).toEqual(2);
+    expect(firstNorth.cacheFile).toHaveBeenCalledWith('filePath');
+    expect(secondNorth.cacheFile).toHaveBeenCalledWith('filePath');
+
+    secondNorth.isSubscribed.mockReturnValueOnce(false);
+    expect(await engine.addContent('southId', { type: 'raw', filePath: 'filePath' })).toEqual(1);
+    expect(firstNorth.cacheFile).toHaveBeenCalledTimes(2);
+    expect(secondNorth.cacheFile).toHaveBeenCalledTimes(1);
+
+    firstNorth.transformSubscribedContent.mockReturnValueOnce({ type: 'raw', filePath: 'transformedFilePath' });
+    secondNorth.transformSubscribedContent.mockReturnValueOnce(null);
+    expect(await engine.addContent('southId', { type: 'raw', filePath: 'filePath' })).toEqual(1);
+    expect(firstNorth.transformSubscribedContent).toHaveBeenCalledWith('southId', { type: 'raw', filePath: 'filePath' });
+    expect(firstNorth.cacheFile).toHaveBeenCalledWith('transformedFilePath');
+    expect(secondNorth.cacheFile).toHaveBeenCalledTimes(1);
+
+    secondNorth.cacheFile.mockResolvedValueOnce(false);
+    expect(await engine.addContent('southId', { type: 'raw', filePath: 'filePath' })).toEqual(1);
+    expect(secondNorth.cacheFile).toHaveBeenCalledTimes(2);
+
+    firstNorth.cacheValues.mockImplementationOnce(() => {
+      throw new Error('cache error');
+    });
+    expect(await engine.addContent('southId', { type: 'time-values', content: [{}] as Array<OIBusTimeValue> })).toEqual(1);
+    expect(secondNorth.cacheValues).toHaveBeenCalledTimes(2);
+    expect(secondNorth.cacheValues).toHaveBeenLastCalledWith([{}]);
+    expect(logger.error).toHaveBeenCalledWith(
+      `Could not add content from South "southId" to North "myNorthConnector1": ${new Error('cache error')}`
+    );
+  });
+
+  it('should backpressure the South when a subscribed North refuses new content', async () => {
+    const north = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      isSubscribed: jest.fn().mockReturnValue(true),
+      transformSubscribedContent: jest.fn((_southId: string, content: OIBusContent): OIBusContent | null => content),
+      cacheValues: jest.fn().mockResolvedValue(true),
+      cacheFile: jest.fn().mockResolvedValue(true),
+      isBackpressuring: jest.fn().mockReturnValueOnce(true).mockReturnValueOnce(false),
+      cacheEvent: new EventEmitter(),
+      settings: { id: 'id1', name: 'myNorthConnector1', type: 'oianalytics' }
+    };
+    (northService.createNorth as jest.Mock).mockReturnValueOnce(north);
+    await engine.createNorth(northConnectors[0]);
+    await engine.createSouth(southConnectors[0]);
+
+    await engine.addContent(southConnectors[0].id, { type: 'time-values', content: [{}] as Array<OIBusTimeValue> });
+    expect(createdSouth.setBackpressured).toHaveBeenCalledWith(true);
+    await engine.addContent(southConnectors[0].id, { type: 'time-values', content: [{}] as Array<OIBusTimeValue> });
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(false);
+
+    north.isBackpressuring.mockReturnValueOnce(true);
+    await engine.addContent(southConnectors[0].id, { type: 'time-values', content: [{}] as Array<OIBusTimeValue> });
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(true);
+    // The backpressured South is resumed once the cache of the North is no longer full
+    north.cacheEvent.emit('cache-available');
+    expect(createdSouth.setBackpressured).toHaveBeenLastCalledWith(false);
+  });
+
+  it('should add tagged history content to a North', async () => {
+    const north = {
+      isEnabled: jest.fn().mockReturnValueOnce(true).mockReturnValueOnce(true).mockReturnValueOnce(false),
+      cacheValues: jest.fn().mockResolvedValue(true),
+      cacheFile: jest.fn().mockResolvedValue(true),
+      isBackpressuring: jest.fn().mockReturnValueOnce(true),
+      cacheEvent: new EventEmitter(),
+      settings: { id: 'id1', name: 'myNorthConnector1', type: 'oianalytics' }
+    };
+    (northService.createNorth as jest.Mock).mockReturnValueOnce(north);
+    await engine.createNorth(northConnectors[0]);
+
+    const values = [{ pointId: 'pointId', timestamp: '2020-02-02T02:02:02.222Z', data: { value: '1' } }];
+    await engine.addHistoryContent(northConnectors[0].id, 'historyId', { type: 'time-values', content: values });
+    expect(north.cacheValues).toHaveBeenCalledWith(values, 'history-historyId-');
+    await engine.addHistoryContent(northConnectors[0].id, 'historyId', { type: 'raw', filePath: 'filePath' });
+    expect(north.cacheFile).toHaveBeenCalledWith('filePath', 'history-historyId-');
+    expect(engine.isNorthBackpressuring(northConnectors[0].id)).toEqual(true);
+    expect(engine.isNorthBackpressuring('unknownId')).toEqual(false);
+
+    await expect(engine.addHistoryContent(northConnectors[0].id, 'historyId', { type: 'raw', filePath: 'filePath' })).rejects.toThrow(
+      new Error(`North connector "${northConnectors[0].id}" not found or disabled`)
+    );
+    await expect(engine.addHistoryContent('unknownId', 'historyId', { type: 'raw', filePath: 'filePath' })).rejects.toThrow(
+      new Error(`North connector "unknownId" not found or disabled`)
+    );
+    expect(north.cacheFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send a message to OIAnalytics when the cache of a North is full', async () => {
+    await engine.createNorth(northConnectors[0]);
+    const message = { northId: 'id1', northName: 'myNorthConnector1', cacheSize: 2048, maxSize: 1, overflowPolicy: 'stop' };
+    createdNorth.cacheEvent.emit('cache-full', message);
+    expect(oianalyticsMessageService.createMessage).toHaveBeenCalledWith('NORTH_CACHE_FULL', message);
+  });
+
   it('should delete south connector', async () => {
     (filesExists as jest.Mock).mockImplementationOnce(() => Promise.resolve(true)).mockImplementationOnce(() => Promise.resolve(false));
     const stopSouthSpy = jest.spyOn(engine, 'stopSouth');
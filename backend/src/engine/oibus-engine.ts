@@ -9,13 +9,20 @@ import { createFolder, filesExists } from '../service/utils';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 
-import { SouthConnectorDTO } from '../../../shared/model/south-connector.model';
+import {
+  SouthConnectorBrowseNodeDTO,
+  SouthConnectorDTO,
+  SouthConnectorItemDTO,
+  SouthItemWriteValue
+} from '../../../shared/model/south-connector.model';
 import { NorthConnectorDTO } from '../../../shared/model/north-connector.model';
 import { Instant } from '../../../shared/model/types';
 import { PassThrough } from 'node:stream';
 import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
 import HomeMetricsService from '../service/home-metrics.service';
 import { OIBusContent } from '../../../shared/model/engine.model';
+import OIAnalyticsMessageService from '../service/oia/message.service';
+import { NorthCacheFullMessage } from '../../../shared/model/oianalytics-message.model';
 
 const CACHE_FOLDER = './cache/data-stream';
 
@@ -31,27 +38,68 @@ export default class OIBusEngine extends BaseEngine {
     northService: NorthService,
     southService: SouthService,
     private readonly homeMetricsService: HomeMetricsService,
+    private readonly oianalyticsMessageService: OIAnalyticsMessageService,
     logger: pino.Logger
   ) {
     super(encryptionService, northService, southService, logger, CACHE_FOLDER);
   }
 
   /**
-   * Method called by South connectors to add content to the appropriate Norths
+   * Method called by South connectors to add content to every enabled North subscribed to the South.
+   * The content is first transformed by the script of the subscription, if any.
+   * A North failing to cache the content does not prevent the others from receiving it.
+   * The South is backpressured while one of these North refuses new content because its cache is full.
+   * Return the number of North connectors that cached the content
    */
-  async addContent(southId: string, data: OIBusContent) {
+  async addContent(southId: string, data: OIBusContent): Promise<number> {
+    let numberOfNorthsReached = 0;
     for (const north of this.northConnectors.values()) {
-      if (north.isEnabled() && north.isSubscribed(southId)) {
-        switch (data.type) {
+      if (!north.isEnabled() || !north.isSubscribed(southId)) {
+        continue;
+      }
+      try {
+        const content = north.transformSubscribedContent(southId, data);
+        let cached = false;
+        switch (content?.type) {
           case 'time-values':
-            await north.cacheValues(data.content);
-            return;
+            cached = await north.cacheValues(content.content);
+            break;
           case 'raw':
-            await north.cacheFile(data.filePath);
-            return;
+            cached = await north.cacheFile(content.filePath);
+            break;
+        }
+        if (cached) {
+          numberOfNorthsReached++;
         }
+      } catch (error: unknown) {
+        this.logger.error(`Could not add content from South "${southId}" to North "${north.settings.name}": ${error}`);
       }
     }
+    this.southConnectors.get(southId)?.setBackpressured(this.isBackpressured(southId));
+    return numberOfNorthsReached;
+  }
+
+  /**
+   * Check if one of the enabled North connectors subscribed to the South refuses new content because its cache is full
+   */
+  private isBackpressured(southId: string): boolean {
+    return [...this.northConnectors.values()].some(north => north.isEnabled() && north.isSubscribed(southId) && north.isBackpressuring());
+  }
+
+  /**
+   * Update the backpressure of every South connector, once a North connector no longer refuses new content
+   */
+  private updateBackpressure(): void {
+    for (const [southId, south] of this.southConnectors.entries()) {
+      south.setBackpressured(this.isBackpressured(southId));
+    }
+  }
+
+  /**
+   * Check if a North connector refuses new content because its cache is full
+   */
+  isNorthBackpressuring(northId: string): boolean {
+    return this.northConnectors.get(northId)?.isBackpressuring() ?? false;
   }
 
   /**
@@ -73,6 +121,24 @@ export default class OIBusEngine extends BaseEngine {
     }
   }
 
+  /**
+   * Add content retrieved by a History query to a North connector of the data stream.
+   * The cache files of the values and files are prefixed with the History query id.
+   * Return false if the content is discarded because the cache of the North is full
+   */
+  async addHistoryContent(northId: string, historyId: string, data: OIBusContent): Promise<boolean> {
+    const north = this.northConnectors.get(northId);
+    if (!north || !north.isEnabled()) {
+      throw new Error(`North connector "${northId}" not found or disabled`);
+    }
+    switch (data.type) {
+      case 'time-values':
+        return north.cacheValues(data.content, `history-${historyId}-`);
+      case 'raw':
+        return north.cacheFile(data.filePath, `history-${historyId}-`);
+    }
+  }
+
   /**
    * Creates a new instance for every North and South connectors and initialize them.
    * Creates CronJobs based on the ScanModes and starts them.
@@ -163,6 +229,12 @@ export default class OIBusEngine extends BaseEngine {
       baseFolder,
       this.logger.child({ scopeType: 'north', scopeId: settings.id, scopeName: settings.name })
     );
+    north.cacheEvent.on('cache-full', (message: NorthCacheFullMessage) => {
+      this.oianalyticsMessageService.createMessage('NORTH_CACHE_FULL', message);
+    });
+    north.cacheEvent.on('cache-available', () => {
+      this.updateBackpressure();
+    });
     this.northConnectors.set(settings.id, north);
     this.homeMetricsService.addNorth(north, north.settings.id);
   }
@@ -189,6 +261,7 @@ export default class OIBusEngine extends BaseEngine {
 
   async stopNorth(northId: string): Promise<void> {
     await this.northConnectors.get(northId)?.stop();
+    this.updateBackpressure();
   }
 
   /**
@@ -220,6 +293,7 @@ export default class OIBusEngine extends BaseEngine {
     await this.stopNorth(northId);
     this.homeMetricsService.removeNorth(northId);
     this.northConnectors.delete(northId);
+    this.updateBackpressure();
 
     const baseFolder = path.resolve(this.cacheFolder, `north-${northId}`);
 
@@ -380,6 +454,52 @@ export default class OIBusEngine extends BaseEngine {
     await this.southConnectors.get(southId)?.onItemChange();
   }
 
+  onSouthTransformersChange(southId: string): void {
+    this.southConnectors.get(southId)?.onTransformersChange();
+  }
+
+  /**
+   * Write a value on an item through its South connector, which must be running to reach the remote system
+   */
+  async writeSouthItem(southId: string, item: SouthConnectorItemDTO, value: SouthItemWriteValue, user: string): Promise<void> {
+    const south = this.southConnectors.get(southId);
+    if (!south || !south.isEnabled()) {
+      throw new Error(`South connector "${southId}" is not running`);
+    }
+    await south.writeItemValue(item, value, user);
+  }
+
+  /**
+   * Call a method of the remote system through a running South connector and return its output arguments
+   */
+  async callSouthMethod(
+    southId: string,
+    objectId: string,
+    methodId: string,
+    inputArguments: Array<SouthItemWriteValue>,
+    user: string
+  ): Promise<Array<any>> {
+    const south = this.southConnectors.get(southId);
+    if (!south || !south.isEnabled()) {
+      throw new Error(`South connector "${southId}" is not running`);
+    }
+    return await south.callRemoteMethod(objectId, methodId, inputArguments, user);
+  }
+
+  /**
+   * Browse the address space of the remote system through a running South connector
+   */
+  async browseSouth(southId: string, nodeId: string | null): Promise<Array<SouthConnectorBrowseNodeDTO>> {
+    const south = this.southConnectors.get(southId);
+    if (!south || !south.isEnabled()) {
+      throw new Error(`South connector "${southId}" is not running`);
+    }
+    if (!south.browsesNodes()) {
+      throw new Error(`South connector "${southId}" does not support browse`);
+    }
+    return await south.browse(nodeId);
+  }
+
   async reloadSouth(southId: string) {
     await this.stopSouth(southId);
     await this.startSouth(southId);
@@ -392,5 +512,6 @@ export default class OIBusEngine extends BaseEngine {
 
   updateNorthConnectorSubscriptions(northId: string) {
     this.northConnectors.get(northId)?.updateConnectorSubscription();
+    this.updateBackpressure();
   }
 }
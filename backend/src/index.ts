@@ -103,31 +103,41 @@ const LOG_DB_NAME = 'logs.db';
     repositoryService.southMetricsRepository
   );
 
-  const engine = new OIBusEngine(encryptionService, northService, southService, homeMetricsService, loggerService.logger!);
+  const oianalyticsMessageService = new OIAnalyticsMessageService(repositoryService, encryptionService, loggerService.logger!);
+  oianalyticsMessageService.start();
+  const engine = new OIBusEngine(
+    encryptionService,
+    northService,
+    southService,
+    homeMetricsService,
+    oianalyticsMessageService,
+    loggerService.logger!
+  );
   const historyQueryEngine = new HistoryQueryEngine(
     encryptionService,
     northService,
     southService,
     historyQueryService,
+    engine,
     loggerService.logger!
   );
 
-  const oianalyticsMessageService = new OIAnalyticsMessageService(repositoryService, encryptionService, loggerService.logger!);
-  oianalyticsMessageService.start();
   const commandService = new CommandService(
     repositoryService,
     encryptionService,
     oianalyticsMessageService,
+    engine,
     loggerService.logger!,
     binaryFolder,
     ignoreRemoteUpdate
   );
-  commandService.start();
 
   const oibusService = new OIBusService(engine, historyQueryEngine);
 
   await engine.start();
   await historyQueryEngine.start();
+  // Commands may target South connectors: they run once the engine has started them
+  commandService.start();
 
   const proxyServer = new ProxyServer(loggerService.logger!);
   const ipFilters = [
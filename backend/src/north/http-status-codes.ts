@@ -0,0 +1,5 @@
+/**
+ * HTTP status codes for which the request may succeed later without changing the settings or the content.
+ * Authentication and not found errors require a fix of the settings, so the content goes to the error cache instead
+ */
+export const RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504];
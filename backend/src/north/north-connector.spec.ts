@@ -27,6 +27,7 @@ const getFileToSend = jest.fn();
 const valueCacheIsEmpty = jest.fn();
 const getQueuedFilesMetadata = jest.fn();
 const removeSentValues = jest.fn();
+const removeQueuedValues = jest.fn();
 const removeAllValues = jest.fn();
 const fileCacheIsEmpty = jest.fn();
 const removeAllErrorFiles = jest.fn();
@@ -42,6 +43,11 @@ const archiveTrigger = new EventEmitter();
 const getErrorFileContent = jest.fn();
 const getCacheFileContent = jest.fn();
 const getArchiveFileContent = jest.fn();
+const removeOldestValues = jest.fn();
+const getValuesPrefix = jest.fn();
+const flushValues = jest.fn();
+const removeOldestFile = jest.fn();
+const removeOldestArchiveFile = jest.fn();
 
 // Mock services
 jest.mock('../service/repository.service');
@@ -57,15 +63,37 @@ jest.mock(
       valueCacheServiceMock.triggerRun = valueTrigger;
       valueCacheServiceMock.getQueuedFilesMetadata = getQueuedFilesMetadata;
       valueCacheServiceMock.removeSentValues = removeSentValues;
+      valueCacheServiceMock.removeQueuedValues = removeQueuedValues;
       valueCacheServiceMock.removeAllValues = removeAllValues;
       valueCacheServiceMock.getErrorValueFiles = getErrorValueFiles;
       valueCacheServiceMock.removeErrorValues = removeErrorValues;
       valueCacheServiceMock.removeAllErrorValues = removeAllErrorValues;
       valueCacheServiceMock.retryErrorValues = retryErrorValues;
       valueCacheServiceMock.retryAllErrorValues = retryAllErrorValues;
+      valueCacheServiceMock.removeOldestValues = removeOldestValues;
+      valueCacheServiceMock.getValuesPrefix = getValuesPrefix;
+      valueCacheServiceMock.flush = flushValues;
       return valueCacheServiceMock;
     }
 );
+const sqliteValueTrigger = new EventEmitter();
+const sqliteGetQueuedFilesMetadata = jest.fn();
+const sqliteGetCacheSize = jest.fn();
+const sqliteCacheValues = jest.fn();
+const sqliteStart = jest.fn();
+jest.mock('../service/cache/sqlite-value-cache.service', () => ({
+  __esModule: true,
+  DATABASE_FILES: ['values.db', 'values.db-wal', 'values.db-shm'],
+  default: function () {
+    const valueCacheServiceMock = new ValueCacheServiceMock();
+    valueCacheServiceMock.triggerRun = sqliteValueTrigger;
+    valueCacheServiceMock.getQueuedFilesMetadata = sqliteGetQueuedFilesMetadata;
+    valueCacheServiceMock.getCacheSize = sqliteGetCacheSize;
+    valueCacheServiceMock.cacheValues = sqliteCacheValues;
+    valueCacheServiceMock.start = sqliteStart;
+    return valueCacheServiceMock;
+  }
+}));
 
 jest.mock(
   '../service/cache/file-cache.service',
@@ -79,6 +107,7 @@ jest.mock(
       fileCacheServiceMock.triggerRun = fileTrigger;
       fileCacheServiceMock.getErrorFileContent = getErrorFileContent;
       fileCacheServiceMock.getCacheFileContent = getCacheFileContent;
+      fileCacheServiceMock.removeOldestFile = removeOldestFile;
       return fileCacheServiceMock;
     }
 );
@@ -89,6 +118,7 @@ jest.mock(
       const archiveServiceMock = new ArchiveServiceMock();
       archiveServiceMock.triggerRun = archiveTrigger;
       archiveServiceMock.getArchiveFileContent = getArchiveFileContent;
+      archiveServiceMock.removeOldestFile = removeOldestArchiveFile;
       return archiveServiceMock;
     }
 );
@@ -107,7 +137,8 @@ jest.mock(
         resetMetrics,
         metrics: {
           numberOfValuesSent: 1,
-          numberOfFilesSent: 1
+          numberOfFilesSent: 1,
+          cacheFull: false
         }
       };
     }
@@ -150,9 +181,11 @@ describe('NorthConnector enabled', () => {
         retryInterval: 5000,
         retryCount: 2,
         maxSize: 1000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 10000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -347,12 +380,12 @@ describe('NorthConnector enabled', () => {
   });
 
   it('should properly cache values', async () => {
-    await north.cacheValues([{}, {}] as Array<OIBusTimeValue>);
+    expect(await north.cacheValues([{}, {}] as Array<OIBusTimeValue>)).toBeTruthy();
     expect(logger.debug).toHaveBeenCalledWith(`Caching 2 values (cache size: 0 MB)`);
   });
 
   it('should properly cache file', async () => {
-    await north.cacheFile('myFilePath');
+    expect(await north.cacheFile('myFilePath')).toBeTruthy();
     expect(logger.debug).toHaveBeenCalledWith(`Caching file "myFilePath" in North connector "${configuration.name}"...`);
   });
 
@@ -378,6 +411,29 @@ describe('NorthConnector enabled', () => {
     expect(north.isSubscribed('southId2')).toBeFalsy();
   });
 
+  it('should transform subscribed content with the subscription script', async () => {
+    (repositoryService.subscriptionRepository.getNorthSubscriptionScripts as jest.Mock).mockReturnValueOnce([
+      { southId: 'southId1', script: 'content.filePath.endsWith(".csv") ? content : null' },
+      { southId: 'southId2', script: 'null' },
+      { southId: 'southId3', script: 'content.' },
+      { southId: 'southId4', script: 'content.unknown.field' }
+    ]);
+    await north.start();
+    expect(logger.error).toHaveBeenCalledWith(
+      'Could not compile the script of the subscription to South "southId3": Unexpected end of input'
+    );
+
+    const content: OIBusContent = { type: 'raw', filePath: 'file.csv' };
+    expect(north.transformSubscribedContent('southId1', content)).toEqual({ type: 'raw', filePath: 'file.csv' });
+    expect(north.transformSubscribedContent('southId2', content)).toBeNull();
+    expect(north.transformSubscribedContent('southId3', content)).toBe(content);
+    expect(north.transformSubscribedContent('southId5', content)).toBe(content);
+    expect(north.transformSubscribedContent('southId4', content)).toBe(content);
+    expect(logger.error).toHaveBeenCalledWith(
+      `Error while running the script of the subscription to South "southId4": Cannot read properties of undefined (reading 'field')`
+    );
+  });
+
   it('should get error files', async () => {
     const result = await north.getErrorFiles('2022-11-11T11:11:11.111Z', '2022-11-12T11:11:11.111Z', 'file');
     expect(result).toEqual([
@@ -443,6 +499,7 @@ describe('NorthConnector enabled', () => {
     const files = ['file1.name', 'file2.name', 'file3.name'];
     await north.removeArchiveFiles(files);
     expect(logger.trace).toHaveBeenCalledWith(`Removing 3 archive files from North connector "${configuration.name}"...`);
+    expect(dirSize).toHaveBeenCalledWith('baseFolder', ['values.db', 'values.db-wal', 'values.db-shm']);
   });
 
   it('should retry archive files', async () => {
@@ -541,16 +598,53 @@ describe('NorthConnector enabled', () => {
 
   it('should remove cache values by filename', async () => {
     const filenames = ['file1.queue.tmp', 'file2.queue.tmp'];
-    path.join = jest.fn().mockImplementation((...args) => args.join('/'));
 
     await north.removeCacheValues(filenames);
 
-    expect(removeSentValues).toHaveBeenCalledWith(
-      new Map([
-        ['valueFolder/file1.queue.tmp', []],
-        ['valueFolder/file2.queue.tmp', []]
-      ])
-    );
+    expect(removeQueuedValues).toHaveBeenCalledWith(filenames);
+  });
+
+  it('should change value cache storage and move the values', async () => {
+    sqliteGetCacheSize.mockReturnValueOnce(456);
+    repositoryService.northConnectorRepository.getNorthConnector = jest.fn().mockReturnValue({
+      ...configuration,
+      caching: { ...configuration.caching, oibusTimeValues: { ...configuration.caching.oibusTimeValues, storage: 'sqlite' } }
+    });
+    const firstGroups = new Map([
+      ['history-historyId-abc.queue.tmp', [{}, {}] as Array<OIBusTimeValue>],
+      ['def.queue.tmp', [{}] as Array<OIBusTimeValue>]
+    ]);
+    const secondGroups = new Map([['ghi.compact.tmp', [{}] as Array<OIBusTimeValue>]]);
+    getValuesToSendMock.mockReturnValueOnce(firstGroups).mockReturnValueOnce(secondGroups).mockReturnValueOnce(new Map());
+    getValuesPrefix.mockReturnValueOnce('history-historyId-').mockReturnValueOnce('').mockReturnValueOnce('');
+    sqliteCacheValues.mockImplementation(() => {
+      // The cache size must not be updated while moving the values
+      expect(sqliteValueTrigger.listenerCount('cache-size')).toEqual(0);
+    });
+    await north.stop();
+    await north.start();
+
+    expect(valueTrigger.listenerCount('next')).toEqual(0);
+    expect(valueTrigger.listenerCount('cache-size')).toEqual(0);
+    expect(sqliteStart).toHaveBeenCalledTimes(1);
+    expect(retryAllErrorValues).toHaveBeenCalledTimes(1);
+    expect(flushValues).toHaveBeenCalledTimes(1);
+    expect(retryAllErrorValues.mock.invocationCallOrder[0]).toBeLessThan(flushValues.mock.invocationCallOrder[0]);
+    expect(sqliteCacheValues).toHaveBeenCalledTimes(3);
+    expect(sqliteCacheValues).toHaveBeenCalledWith([{}, {}], 'history-historyId-');
+    expect(sqliteCacheValues).toHaveBeenCalledWith([{}], '');
+    expect(removeSentValues).toHaveBeenCalledWith(firstGroups);
+    expect(removeSentValues).toHaveBeenCalledWith(secondGroups);
+    expect(logger.info).toHaveBeenCalledWith('Value cache storage changed from "file" to "sqlite". 4 values moved to the new storage');
+
+    expect(dirSize).toHaveBeenCalledWith('baseFolder', ['values.db', 'values.db-wal', 'values.db-shm']);
+    expect(sqliteGetCacheSize).toHaveBeenCalledTimes(1);
+
+    north.getCacheValues('');
+    expect(sqliteGetQueuedFilesMetadata).toHaveBeenCalledWith('');
+    expect(getQueuedFilesMetadata).not.toHaveBeenCalled();
+    expect(sqliteValueTrigger.listenerCount('next')).toEqual(1);
+    sqliteValueTrigger.removeAllListeners();
   });
 
   it('should get cache values errors', async () => {
@@ -609,6 +703,7 @@ describe('NorthConnector disabled', () => {
     jest.useFakeTimers().setSystemTime(new Date(nowDateString));
 
     (dirSize as jest.Mock).mockReturnValue(cacheSize);
+    (repositoryService.subscriptionRepository.getNorthSubscriptionScripts as jest.Mock).mockReturnValue([]);
     const valuesInQueue = new Map();
     getValuesToSendMock.mockImplementation(() => valuesInQueue);
     getFileToSend.mockImplementation(() => null);
@@ -627,9 +722,11 @@ describe('NorthConnector disabled', () => {
         retryInterval: 5000,
         retryCount: 2,
         maxSize: 10,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 10000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -725,7 +822,7 @@ describe('NorthConnector disabled', () => {
 
   it('should manage caching file when cache size is more than max size', async () => {
     await north.start();
-    await north.cacheFile('filePath');
+    expect(await north.cacheFile('filePath')).toBeFalsy();
     expect(logger.debug).toHaveBeenCalledWith(
       `North cache is exceeding the maximum allowed size ` +
         `(${Math.floor((cacheSize / 1024 / 1024) * 100) / 100} MB >= ${configuration.caching.maxSize} MB). ` +
@@ -735,12 +832,89 @@ describe('NorthConnector disabled', () => {
 
   it('should manage caching value when cache size is more than max size', async () => {
     await north.start();
+    expect(await north.cacheValues([])).toBeFalsy();
+    expect(logger.debug).toHaveBeenCalledWith(
+      `North cache is exceeding the maximum allowed size ` +
+        `(${Math.floor((cacheSize / 1024 / 1024) * 100) / 100} MB >= ${configuration.caching.maxSize} MB). ` +
+        'Values will be discarded until the cache is emptied (by sending files/values or manual removal)'
+    );
+  });
+
+  it('should warn and notify when the cache is full', async () => {
+    const cacheFullListener = jest.fn();
+    const cacheAvailableListener = jest.fn();
+    north.cacheEvent.on('cache-full', cacheFullListener);
+    north.cacheEvent.on('cache-available', cacheAvailableListener);
+    await north.start();
+    expect(logger.warn).toHaveBeenCalledWith(
+      `North cache is full (${Math.floor((cacheSize / 1024 / 1024) * 100) / 100} MB >= ${configuration.caching.maxSize} MB). ` +
+        'New content is discarded until the cache is emptied'
+    );
+    expect(cacheFullListener).toHaveBeenCalledWith({
+      northId: configuration.id,
+      northName: configuration.name,
+      cacheSize,
+      maxSize: configuration.caching.maxSize,
+      overflowPolicy: 'drop-newest'
+    });
+    expect(north.isCacheFull()).toBeTruthy();
+    expect(north.isBackpressuring()).toBeFalsy();
+
+    // Still full above the reset ratio of the max size
+    archiveTrigger.emit('cache-size', -(cacheSize - 9.5 * 1024 * 1024));
+    expect(logger.info).not.toHaveBeenCalledWith(expect.stringContaining('North cache is no longer full'));
+    expect(cacheAvailableListener).not.toHaveBeenCalled();
+    archiveTrigger.emit('cache-size', -1024 * 1024);
+    expect(logger.info).toHaveBeenCalledWith('North cache is no longer full (8.5 MB)');
+    expect(cacheAvailableListener).toHaveBeenCalledTimes(1);
+    expect(cacheFullListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should backpressure when the cache is full with stop policy', async () => {
+    configuration.caching.overflowPolicy = 'stop';
+    await north.start();
+    expect(north.isBackpressuring()).toBeTruthy();
     await north.cacheValues([]);
     expect(logger.debug).toHaveBeenCalledWith(
       `North cache is exceeding the maximum allowed size ` +
         `(${Math.floor((cacheSize / 1024 / 1024) * 100) / 100} MB >= ${configuration.caching.maxSize} MB). ` +
         'Values will be discarded until the cache is emptied (by sending files/values or manual removal)'
     );
+    expect(removeOldestArchiveFile).not.toHaveBeenCalled();
+  });
+
+  it('should drop the oldest content when the cache is full with drop-oldest policy', async () => {
+    configuration.caching.overflowPolicy = 'drop-oldest';
+    await north.start();
+    removeOldestArchiveFile.mockImplementationOnce(async () => {
+      archiveTrigger.emit('cache-size', -cacheSize);
+      return true;
+    });
+    expect(await north.cacheValues([])).toBeTruthy();
+    expect(removeOldestArchiveFile).toHaveBeenCalledTimes(1);
+    expect(removeOldestValues).not.toHaveBeenCalled();
+    expect(removeOldestFile).not.toHaveBeenCalled();
+    expect(logger.debug).toHaveBeenCalledWith(`${cacheSize} bytes of the oldest content removed from cache to cache new values`);
+    expect(logger.debug).not.toHaveBeenCalledWith(expect.stringContaining('North cache is exceeding the maximum allowed size'));
+    expect(north.isCacheFull()).toBeFalsy();
+  });
+
+  it('should discard new content when the oldest content can not be dropped', async () => {
+    configuration.caching.overflowPolicy = 'drop-oldest';
+    await north.start();
+    removeOldestArchiveFile.mockReturnValue(false);
+    removeOldestValues.mockReturnValue(false);
+    removeOldestFile.mockReturnValue(false);
+    await north.cacheFile('filePath');
+    expect(removeOldestArchiveFile).toHaveBeenCalledTimes(1);
+    expect(removeOldestFile).toHaveBeenCalledWith(null);
+    expect(removeOldestValues).toHaveBeenCalledWith([]);
+    expect(removeOldestFile.mock.invocationCallOrder[0]).toBeLessThan(removeOldestValues.mock.invocationCallOrder[0]);
+    expect(logger.debug).toHaveBeenCalledWith(
+      `North cache is exceeding the maximum allowed size ` +
+        `(${Math.floor((cacheSize / 1024 / 1024) * 100) / 100} MB >= ${configuration.caching.maxSize} MB). ` +
+        'Files will be discarded until the cache is emptied (by sending files/values or manual removal)'
+    );
   });
 });
 
@@ -761,9 +935,11 @@ describe('NorthConnector test', () => {
         retryInterval: 5000,
         retryCount: 2,
         maxSize: 10,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 10000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -1,9 +1,17 @@
 import ArchiveService from '../service/cache/archive.service';
 
-import { NorthArchiveFiles, NorthCacheFiles, NorthConnectorDTO, NorthValueFiles } from '../../../shared/model/north-connector.model';
+import {
+  NorthArchiveFiles,
+  NorthCacheFiles,
+  NorthCacheOverflowPolicy,
+  NorthConnectorDTO,
+  NorthValueCacheStorage,
+  NorthValueFiles
+} from '../../../shared/model/north-connector.model';
 import pino from 'pino';
 import EncryptionService from '../service/encryption.service';
 import ValueCacheService from '../service/cache/value-cache.service';
+import SqliteValueCacheService, { DATABASE_FILES } from '../service/cache/sqlite-value-cache.service';
 import FileCacheService from '../service/cache/file-cache.service';
 import RepositoryService from '../service/repository.service';
 import { CronJob } from 'cron';
@@ -19,6 +27,18 @@ import path from 'node:path';
 import NorthConnectorMetricsService from '../service/north-connector-metrics.service';
 import { NorthSettings } from '../../../shared/model/north-settings.model';
 import { dirSize, validateCronExpression } from '../service/utils';
+import ScriptTransformerService from '../service/script-transformer.service';
+import { NorthCacheFullMessage } from '../../../shared/model/oianalytics-message.model';
+
+// Once full, the cache is considered full until its size goes under this ratio of the max size, to avoid flapping
+// between full and not full states when the oldest content is dropped to cache new content
+const CACHE_FULL_RESET_RATIO = 0.9;
+
+const OVERFLOW_POLICY_DESCRIPTIONS: Record<NorthCacheOverflowPolicy, string> = {
+  stop: 'New content is refused and the South connectors are backpressured until the cache is emptied',
+  'drop-oldest': 'The oldest content is removed from the cache to cache new content',
+  'drop-newest': 'New content is discarded until the cache is emptied'
+};
 
 /**
  * Class NorthConnector : provides general attributes and methods for north connectors.
@@ -41,11 +61,15 @@ export default class NorthConnector<T extends NorthSettings = any> {
   public static type: string;
 
   private archiveService: ArchiveService;
-  private valueCacheService: ValueCacheService;
+  private valueCacheService: ValueCacheService | SqliteValueCacheService;
+  private valueCacheStorage: NorthValueCacheStorage = 'file';
   private fileCacheService: FileCacheService;
   protected metricsService: NorthConnectorMetricsService | null = null;
   private subscribedTo: Array<SubscriptionDTO> = [];
+  private subscriptionScripts: Map<string, ScriptTransformerService> = new Map();
   private cacheSize = 0;
+  private cacheFull = false;
+  public cacheEvent: EventEmitter = new EventEmitter();
 
   private fileBeingSent: string | null = null;
   private fileErrorCount = 0;
@@ -66,7 +90,7 @@ export default class NorthConnector<T extends NorthSettings = any> {
     protected readonly baseFolder: string
   ) {
     this.archiveService = new ArchiveService(this.logger, this.baseFolder, this.connector.caching.rawFiles.archive);
-    this.valueCacheService = new ValueCacheService(this.logger, this.baseFolder, this.connector.caching);
+    this.valueCacheService = this.createValueCacheService();
     this.fileCacheService = new FileCacheService(this.logger, this.baseFolder, this.connector.caching);
 
     if (this.connector.id === 'test') {
@@ -87,21 +111,7 @@ export default class NorthConnector<T extends NorthSettings = any> {
       }
     });
 
-    this.valueCacheService.triggerRun.on('next', async () => {
-      this.taskJobQueue.push({ id: 'value-trigger', cron: '', name: '', description: '' });
-      this.logger.trace(`Value cache trigger immediately: ${!this.runProgress$}`);
-      if (!this.runProgress$ && !this.stopping) {
-        await this.run('value-trigger');
-      }
-    });
-
-    this.valueCacheService.triggerRun.on('cache-size', async (sizeToAdd: number) => {
-      this.cacheSize += sizeToAdd;
-      this.metricsService!.updateMetrics(this.connector.id, {
-        ...this.metricsService!.metrics,
-        cacheSize: this.cacheSize
-      });
-    });
+    this.listenToValueCache();
 
     this.fileCacheService.triggerRun.on('next', async () => {
       this.taskJobQueue.push({ id: 'file-trigger', cron: '', name: '', description: '' });
@@ -112,22 +122,102 @@ export default class NorthConnector<T extends NorthSettings = any> {
     });
 
     this.fileCacheService.triggerRun.on('cache-size', async (sizeToAdd: number) => {
-      this.cacheSize += sizeToAdd;
-      this.metricsService!.updateMetrics(this.connector.id, {
-        ...this.metricsService!.metrics,
-        cacheSize: this.cacheSize
-      });
+      this.updateCacheSize(this.cacheSize + sizeToAdd);
     });
 
     this.archiveService.triggerRun.on('cache-size', async (sizeToAdd: number) => {
-      this.cacheSize += sizeToAdd;
-      this.metricsService!.updateMetrics(this.connector.id, {
-        ...this.metricsService!.metrics,
-        cacheSize: this.cacheSize
-      });
+      this.updateCacheSize(this.cacheSize + sizeToAdd);
     });
   }
 
+  /**
+   * Create the value cache service of the storage set in the cache settings
+   */
+  private createValueCacheService(): ValueCacheService | SqliteValueCacheService {
+    this.valueCacheStorage = this.connector.caching.oibusTimeValues.storage;
+    if (this.connector.caching.oibusTimeValues.storage === 'sqlite') {
+      return new SqliteValueCacheService(this.logger, this.baseFolder, this.connector.caching);
+    }
+    return new ValueCacheService(this.logger, this.baseFolder, this.connector.caching);
+  }
+
+  private listenToValueCache(): void {
+    this.valueCacheService.triggerRun.on('next', async () => {
+      this.taskJobQueue.push({ id: 'value-trigger', cron: '', name: '', description: '' });
+      this.logger.trace(`Value cache trigger immediately: ${!this.runProgress$}`);
+      if (!this.runProgress$ && !this.stopping) {
+        await this.run('value-trigger');
+      }
+    });
+
+    this.valueCacheService.triggerRun.on('cache-size', async (sizeToAdd: number) => {
+      this.updateCacheSize(this.cacheSize + sizeToAdd);
+    });
+  }
+
+  /**
+   * Update the cache size and its metrics. When the cache reaches its max size, it is flagged as full until it goes
+   * under the reset ratio of the max size: a warning is logged and the cache-full event is emitted for OIAnalytics.
+   * The cache-available event is emitted once it is no longer full, to resume the backpressured South connectors
+   */
+  private updateCacheSize(cacheSize: number): void {
+    this.cacheSize = cacheSize;
+    if (!this.cacheFull && this.isCacheFull()) {
+      this.cacheFull = true;
+      this.logger.warn(
+        `North cache is full (${this.formatCacheSize()} MB >= ${this.connector.caching.maxSize} MB). ` +
+          OVERFLOW_POLICY_DESCRIPTIONS[this.connector.caching.overflowPolicy]
+      );
+      const message: NorthCacheFullMessage = {
+        northId: this.connector.id,
+        northName: this.connector.name,
+        cacheSize: this.cacheSize,
+        maxSize: this.connector.caching.maxSize,
+        overflowPolicy: this.connector.caching.overflowPolicy
+      };
+      this.cacheEvent.emit('cache-full', message);
+    } else if (this.cacheFull && !this.isCacheFull(CACHE_FULL_RESET_RATIO)) {
+      this.cacheFull = false;
+      this.logger.info(`North cache is no longer full (${this.formatCacheSize()} MB)`);
+      this.cacheEvent.emit('cache-available');
+    }
+    this.metricsService!.updateMetrics(this.connector.id, {
+      ...this.metricsService!.metrics,
+      cacheSize: this.cacheSize,
+      cacheFull: this.cacheFull
+    });
+  }
+
+  /**
+   * Check if the cache size reached the given ratio of its max size. A max size of 0 means no limit
+   */
+  isCacheFull(ratio = 1): boolean {
+    return this.connector.caching.maxSize !== 0 && this.cacheSize >= this.connector.caching.maxSize * 1024 * 1024 * ratio;
+  }
+
+  /**
+   * Check if the North stops accepting new content because its cache is full, in which case the South connectors
+   * sending content to this North are backpressured
+   */
+  isBackpressuring(): boolean {
+    return this.connector.caching.overflowPolicy === 'stop' && this.isCacheFull();
+  }
+
+  /**
+   * Compute the cache size from the files of the North. The SQLite database is counted by the size of its values
+   */
+  private async computeCacheSize(): Promise<number> {
+    const size = await dirSize(this.baseFolder, DATABASE_FILES);
+    if (this.valueCacheStorage === 'sqlite') {
+      return size + (this.valueCacheService as SqliteValueCacheService).getCacheSize();
+    }
+    return size;
+  }
+
+  private formatCacheSize(): number {
+    return Math.floor((this.cacheSize / 1024 / 1024) * 100) / 100;
+  }
+
   isEnabled(): boolean {
     return this.connector.enabled;
   }
@@ -136,27 +226,78 @@ export default class NorthConnector<T extends NorthSettings = any> {
    * Initialize services at startup
    */
   async start(dataStream = true): Promise<void> {
+    let previousValueCacheService: ValueCacheService | SqliteValueCacheService | null = null;
+    const previousValueCacheStorage = this.valueCacheStorage;
     if (dataStream) {
       // Reload the settings only on data stream case, otherwise let the history query manage the settings
       this.connector = this.repositoryService.northConnectorRepository.getNorthConnector(this.connector.id)!;
+      if (this.connector.caching.oibusTimeValues.storage !== this.valueCacheStorage) {
+        previousValueCacheService = this.valueCacheService;
+        previousValueCacheService.triggerRun.removeAllListeners();
+        this.valueCacheService = this.createValueCacheService();
+        this.valuesBeingSent = new Map();
+      }
     }
     this.logger.debug(`North connector "${this.connector.name}" enabled. Starting services...`);
+    await this.valueCacheService.start();
+    if (previousValueCacheService) {
+      await this.moveValues(previousValueCacheService, previousValueCacheStorage);
+      if (this.connector.id !== 'test') {
+        this.listenToValueCache();
+      }
+    }
     if (this.connector.id !== 'test') {
-      this.cacheSize = await dirSize(this.baseFolder);
-      this.metricsService!.updateMetrics(this.connector.id, {
-        ...this.metricsService!.metrics,
-        cacheSize: this.cacheSize
-      });
+      // Keep the full state of the previous run to not notify again a cache that is still full
+      this.cacheFull = this.metricsService!.metrics.cacheFull;
+      this.updateCacheSize(await this.computeCacheSize());
       this.updateConnectorSubscription();
     }
-    await this.valueCacheService.start();
     await this.fileCacheService.start();
     await this.archiveService.start();
     await this.connect();
   }
 
+  /**
+   * Move the values of the previous value cache storage into the new one, keeping their prefix. The values in error are
+   * retried first, so that they are sent again from the new storage
+   */
+  private async moveValues(
+    previousValueCacheService: ValueCacheService | SqliteValueCacheService,
+    previousValueCacheStorage: NorthValueCacheStorage
+  ): Promise<void> {
+    await previousValueCacheService.start();
+    await previousValueCacheService.retryAllErrorValues();
+    if (previousValueCacheStorage === 'file') {
+      // Values retried or cached just before the change may still be in the buffer of the file storage
+      await (previousValueCacheService as ValueCacheService).flush();
+    }
+    let numberOfValues = 0;
+    let valuesToMove = await previousValueCacheService.getValuesToSend();
+    while (valuesToMove.size > 0) {
+      for (const [key, values] of valuesToMove) {
+        await this.valueCacheService.cacheValues(values, previousValueCacheService.getValuesPrefix(key));
+        numberOfValues += values.length;
+      }
+      await previousValueCacheService.removeSentValues(valuesToMove);
+      valuesToMove = await previousValueCacheService.getValuesToSend();
+    }
+    await previousValueCacheService.stop();
+    this.logger.info(
+      `Value cache storage changed from "${previousValueCacheStorage}" to "${this.valueCacheStorage}". ` +
+        `${numberOfValues} values moved to the new storage`
+    );
+  }
+
   updateConnectorSubscription() {
     this.subscribedTo = this.repositoryService.subscriptionRepository.getNorthSubscriptions(this.connector.id);
+    this.subscriptionScripts.clear();
+    for (const { southId, script } of this.repositoryService.subscriptionRepository.getNorthSubscriptionScripts(this.connector.id)) {
+      try {
+        this.subscriptionScripts.set(southId, new ScriptTransformerService(script!));
+      } catch (error: any) {
+        this.logger.error(`Could not compile the script of the subscription to South "${southId}": ${error.message}`);
+      }
+    }
   }
 
   /**
@@ -376,39 +517,70 @@ export default class NorthConnector<T extends NorthSettings = any> {
   /**
    * Method called by the Engine to cache an array of values in order to cache them
    * and send them to a third party application.
+   * Return false if the values are discarded because the cache is full
    */
-  async cacheValues(values: Array<OIBusTimeValue>): Promise<void> {
-    if (this.connector.caching.maxSize !== 0 && this.cacheSize >= this.connector.caching.maxSize * 1024 * 1024) {
-      this.logger.debug(
-        `North cache is exceeding the maximum allowed size ` +
-          `(${Math.floor((this.cacheSize / 1024 / 1024) * 100) / 100} MB >= ${this.connector.caching.maxSize} MB). ` +
-          'Values will be discarded until the cache is emptied (by sending files/values or manual removal)'
-      );
-      return;
+  async cacheValues(values: Array<OIBusTimeValue>, prefix = ''): Promise<boolean> {
+    if (this.isCacheFull() && !(await this.applyOverflowPolicy('values'))) {
+      return false;
     }
 
     const chunkSize = this.connector.caching.oibusTimeValues.maxSendCount;
     for (let i = 0; i < values.length; i += chunkSize) {
       const chunk = values.slice(i, i + chunkSize);
       this.logger.debug(`Caching ${chunk.length} values (cache size: ${Math.floor((this.cacheSize / 1024 / 1024) * 100) / 100} MB)`);
-      await this.valueCacheService.cacheValues(chunk);
+      await this.valueCacheService.cacheValues(chunk, prefix);
     }
+    return true;
   }
 
   /**
    * Method called by the Engine to cache a file and send them to a third party application.
+   * The prefix is added to the name of the cached file. Return false if the file is discarded because the cache is full
    */
-  async cacheFile(filePath: string): Promise<void> {
-    if (this.connector.caching.maxSize !== 0 && this.cacheSize >= this.connector.caching.maxSize * 1024 * 1024) {
-      this.logger.debug(
-        `North cache is exceeding the maximum allowed size ` +
-          `(${Math.floor((this.cacheSize / 1024 / 1024) * 100) / 100} MB >= ${this.connector.caching.maxSize} MB). ` +
-          'Files will be discarded until the cache is emptied (by sending files/values or manual removal)'
-      );
-      return;
+  async cacheFile(filePath: string, prefix = ''): Promise<boolean> {
+    if (this.isCacheFull() && !(await this.applyOverflowPolicy('files'))) {
+      return false;
     }
     this.logger.debug(`Caching file "${filePath}" in North connector "${this.connector.name}"...`);
-    await this.fileCacheService.cacheFile(filePath);
+    await this.fileCacheService.cacheFile(filePath, true, prefix);
+    return true;
+  }
+
+  /**
+   * Apply the overflow policy of the full cache before caching new content. Return true if the content can be cached
+   */
+  private async applyOverflowPolicy(contentType: 'values' | 'files'): Promise<boolean> {
+    if (this.connector.caching.overflowPolicy === 'drop-oldest') {
+      await this.removeOldestContent(contentType);
+      if (!this.isCacheFull()) {
+        return true;
+      }
+    }
+    this.logger.debug(
+      `North cache is exceeding the maximum allowed size (${this.formatCacheSize()} MB >= ${this.connector.caching.maxSize} MB). ` +
+        `${contentType === 'values' ? 'Values' : 'Files'} will be discarded until the cache is emptied (by sending files/values or manual removal)`
+    );
+    return false;
+  }
+
+  /**
+   * Remove the oldest content until the cache is no longer full: the archived files first, then the oldest content of
+   * the type to cache and finally the oldest content of the other type. The content being sent is kept
+   */
+  private async removeOldestContent(contentType: 'values' | 'files'): Promise<void> {
+    const removeOldestValues = () => this.valueCacheService.removeOldestValues([...this.valuesBeingSent.keys()]);
+    const removeOldestFile = () => this.fileCacheService.removeOldestFile(this.fileBeingSent);
+    const removals = [
+      () => this.archiveService.removeOldestFile(),
+      ...(contentType === 'values' ? [removeOldestValues, removeOldestFile] : [removeOldestFile, removeOldestValues])
+    ];
+    const previousCacheSize = this.cacheSize;
+    for (const removeOldest of removals) {
+      while (this.isCacheFull() && (await removeOldest())) {
+        this.logger.trace(`Oldest content removed from the full cache (${this.formatCacheSize()} MB)`);
+      }
+    }
+    this.logger.debug(`${previousCacheSize - this.cacheSize} bytes of the oldest content removed from cache to cache new ${contentType}`);
   }
 
   /**
@@ -419,6 +591,23 @@ export default class NorthConnector<T extends NorthSettings = any> {
     return this.subscribedTo.length === 0 || this.subscribedTo.includes(southId);
   }
 
+  /**
+   * Apply the script of the subscription to a South on the content received from this South.
+   * Return null if the script drops the content. If the script fails, the error is logged and the content is kept unchanged
+   */
+  transformSubscribedContent(southId: string, content: OIBusContent): OIBusContent | null {
+    const scriptTransformer = this.subscriptionScripts.get(southId);
+    if (!scriptTransformer) {
+      return content;
+    }
+    try {
+      return scriptTransformer.transform(content);
+    } catch (error: any) {
+      this.logger.error(`Error while running the script of the subscription to South "${southId}": ${error.message}`);
+      return content;
+    }
+  }
+
   /**
    * Check appropriate caches emptiness
    */
@@ -564,7 +753,7 @@ export default class NorthConnector<T extends NorthSettings = any> {
   async removeArchiveFiles(filenames: Array<string>): Promise<void> {
     this.logger.trace(`Removing ${filenames.length} archive files from North connector "${this.connector.name}"...`);
     await this.archiveService.removeFiles(filenames);
-    this.cacheSize = await dirSize(this.baseFolder);
+    this.updateCacheSize(await this.computeCacheSize());
   }
 
   /**
@@ -616,10 +805,7 @@ export default class NorthConnector<T extends NorthSettings = any> {
   }
 
   async removeCacheValues(filenames: Array<string>): Promise<void> {
-    const sentValues = new Map<string, OIBusTimeValue[]>(
-      filenames.map(filename => [path.join(this.valueCacheService.valueFolder, filename), []])
-    );
-    await this.valueCacheService.removeSentValues(sentValues);
+    await this.valueCacheService.removeQueuedValues(filenames);
   }
 
   async removeAllCacheValues(): Promise<void> {
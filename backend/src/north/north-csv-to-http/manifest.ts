@@ -0,0 +1,105 @@
+import { NorthConnectorManifest } from '../../../../shared/model/north-connector.model';
+import { proxy } from '../../../../shared/model/manifest-factory';
+
+const manifest: NorthConnectorManifest = {
+  id: 'csv-to-http',
+  name: 'CSV to HTTP',
+  category: 'api',
+  description: 'Convert CSV files into JSON payloads sent to an HTTP endpoint',
+  modes: {
+    files: true,
+    points: false
+  },
+  settings: [
+    {
+      key: 'applicativeHostUrl',
+      type: 'OibText',
+      label: 'Endpoint URL',
+      defaultValue: 'http://localhost/api/rows',
+      newRow: true,
+      validators: [
+        { key: 'required' },
+        {
+          key: 'pattern',
+          params: { pattern: '^(http:\\/\\/|https:\\/\\/|HTTP:\\/\\/|HTTPS:\\/\\/).*' }
+        }
+      ],
+      displayInViewMode: true,
+      class: 'col-6'
+    },
+    {
+      key: 'requestMethod',
+      type: 'OibSelect',
+      label: 'Request method',
+      options: ['POST', 'PUT', 'PATCH'],
+      defaultValue: 'POST',
+      validators: [{ key: 'required' }],
+      displayInViewMode: true,
+      class: 'col-3'
+    },
+    {
+      key: 'bodyMaxLength',
+      type: 'OibNumber',
+      label: 'Max rows per request',
+      defaultValue: 100,
+      newRow: true,
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 1 } }],
+      displayInViewMode: true
+    },
+    {
+      key: 'acceptUnconvertedRows',
+      type: 'OibCheckbox',
+      label: 'Accept unconverted rows',
+      defaultValue: false,
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
+    },
+    {
+      key: 'csvDelimiter',
+      type: 'OibSelect',
+      label: 'CSV delimiter',
+      options: [',', ';'],
+      defaultValue: ',',
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
+    },
+    {
+      key: 'mapping',
+      type: 'OibArray',
+      label: 'Mapping',
+      content: [
+        {
+          key: 'csvField',
+          label: 'CSV column',
+          type: 'OibText',
+          defaultValue: '',
+          validators: [{ key: 'required' }],
+          displayInViewMode: true
+        },
+        {
+          key: 'httpField',
+          label: 'JSON field',
+          type: 'OibText',
+          defaultValue: '',
+          validators: [{ key: 'required' }],
+          displayInViewMode: true
+        },
+        {
+          key: 'type',
+          label: 'Type',
+          type: 'OibSelect',
+          options: ['string', 'integer', 'float', 'boolean', 'json'],
+          defaultValue: 'string',
+          validators: [{ key: 'required' }],
+          displayInViewMode: true
+        }
+      ],
+      class: 'col',
+      newRow: true,
+      displayInViewMode: false
+    },
+    ...proxy
+  ]
+};
+
+export default manifest;
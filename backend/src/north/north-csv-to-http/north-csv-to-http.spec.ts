@@ -0,0 +1,260 @@
+import fs from 'node:fs/promises';
+
+import NorthCsvToHttp from './north-csv-to-http';
+import pino from 'pino';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import EncryptionService from '../../service/encryption.service';
+import EncryptionServiceMock from '../../tests/__mocks__/encryption-service.mock';
+import RepositoryService from '../../service/repository.service';
+import RepositoryServiceMock from '../../tests/__mocks__/repository-service.mock';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import ValueCacheServiceMock from '../../tests/__mocks__/value-cache-service.mock';
+import FileCacheServiceMock from '../../tests/__mocks__/file-cache-service.mock';
+import ArchiveServiceMock from '../../tests/__mocks__/archive-service.mock';
+import { NorthCsvToHttpSettings } from '../../../../shared/model/north-settings.model';
+import { createProxyAgent } from '../../service/proxy-agent';
+import { filesExists } from '../../service/utils';
+import fetch from 'node-fetch';
+
+jest.mock('node:fs/promises');
+jest.mock('node-fetch');
+const { Response } = jest.requireActual('node-fetch');
+jest.mock('../../service/utils');
+jest.mock('../../service/proxy-agent');
+
+const logger: pino.Logger = new PinoLogger();
+const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+
+jest.mock(
+  '../../service/cache/archive.service',
+  () =>
+    function () {
+      return new ArchiveServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/value-cache.service',
+  () =>
+    function () {
+      return new ValueCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/file-cache.service',
+  () =>
+    function () {
+      return new FileCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/north-connector-metrics.service',
+  () =>
+    function () {
+      return {
+        initMetrics: jest.fn(),
+        updateMetrics: jest.fn(),
+        get stream() {
+          return { stream: 'myStream' };
+        },
+        resetMetrics: jest.fn(),
+        metrics: {
+          numberOfValuesSent: 1,
+          numberOfFilesSent: 1
+        }
+      };
+    }
+);
+
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const csvContent =
+  'name;quantity;price;available;details\n' +
+  'apple;3;1.5;true;{"color":"red"}\n' +
+  'pear;two;2;0;{}\n' +
+  'plum;5;0.5;no;[1]\n' +
+  'peach;1;1;1;{"size":2}\n' +
+  'cherry;1;cheap;1;{}\n' +
+  '\n';
+
+let north: NorthCsvToHttp;
+
+describe('NorthCsvToHttp', () => {
+  const configuration: NorthConnectorDTO<NorthCsvToHttpSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'csv-to-http',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      applicativeHostUrl: 'https://hostname/api/rows',
+      requestMethod: 'PUT',
+      bodyMaxLength: 1,
+      acceptUnconvertedRows: false,
+      csvDelimiter: ';',
+      mapping: [
+        { csvField: 'name', httpField: 'fruit', type: 'string' },
+        { csvField: 'quantity', httpField: 'quantity', type: 'integer' },
+        { csvField: 'price', httpField: 'price', type: 'float' },
+        { csvField: 'available', httpField: 'available', type: 'boolean' },
+        { csvField: 'details', httpField: 'details', type: 'json' }
+      ],
+      useProxy: false
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 1000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    (filesExists as jest.Mock).mockReturnValue(true);
+    (fs.readFile as jest.Mock).mockReturnValue(csvContent);
+    (fetch as unknown as jest.Mock).mockImplementation(() => Promise.resolve(new Response('Ok')));
+    north = new NorthCsvToHttp(structuredClone(configuration), encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should convert rows and send them by groups', async () => {
+    await north.handleContent({ type: 'raw', filePath: 'file.csv' });
+
+    expect(fs.readFile).toHaveBeenCalledWith('file.csv', { encoding: 'utf8' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/rows', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ fruit: 'apple', quantity: 3, price: 1.5, available: true, details: { color: 'red' } }]),
+      agent: undefined
+    });
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/rows', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ fruit: 'peach', quantity: 1, price: 1, available: true, details: { size: 2 } }]),
+      agent: undefined
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Row 1 of file "file.csv" ignored: value "two" of column "quantity" is not of type integer');
+    expect(logger.warn).toHaveBeenCalledWith('Row 2 of file "file.csv" ignored: value "no" of column "available" is not of type boolean');
+    expect(logger.warn).toHaveBeenCalledWith('Row 4 of file "file.csv" ignored: value "cheap" of column "price" is not of type float');
+  });
+
+  it('should send unconverted rows when accepted', async () => {
+    north.settings.settings.acceptUnconvertedRows = true;
+    north.settings.settings.bodyMaxLength = 10;
+    north.settings.settings.mapping!.push({ csvField: 'unknown', httpField: 'other', type: 'string' });
+
+    await north.handleFile('file.csv');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/rows', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([
+        { fruit: 'apple', quantity: 3, price: 1.5, available: true, details: { color: 'red' }, other: null },
+        { fruit: 'pear', quantity: 'two', price: 2, available: false, details: {}, other: null },
+        { fruit: 'plum', quantity: 5, price: 0.5, available: 'no', details: [1], other: null },
+        { fruit: 'peach', quantity: 1, price: 1, available: true, details: { size: 2 }, other: null },
+        { fruit: 'cherry', quantity: 1, price: 'cheap', available: true, details: {}, other: null }
+      ]),
+      agent: undefined
+    });
+    expect(logger.debug).toHaveBeenCalledWith('Row 0 of file "file.csv" sent unconverted: column "unknown" not found');
+    expect(logger.debug).toHaveBeenCalledWith('5 rows sent to https://hostname/api/rows');
+  });
+
+  it('should send all columns as strings without mapping', async () => {
+    north.settings.settings.mapping = [];
+    north.settings.settings.bodyMaxLength = 10;
+    (fs.readFile as jest.Mock).mockReturnValueOnce('name;price\napple;1.5;extra\n');
+
+    await north.handleFile('file.csv');
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Error while parsing row 0 of file "file.csv": Too many fields: expected 2 fields but parsed 3'
+    );
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/rows', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ name: 'apple', price: '1.5', __parsed_extra: ['extra'] }]),
+      agent: undefined
+    });
+  });
+
+  it('should not send empty files', async () => {
+    (fs.readFile as jest.Mock).mockReturnValueOnce('name;quantity\n');
+    await north.handleFile('file.csv');
+    expect(fetch).not.toHaveBeenCalled();
+    expect(logger.debug).toHaveBeenCalledWith('No row to send from file "file.csv"');
+  });
+
+  it('should throw errors', async () => {
+    await expect(north.handleContent({ type: 'time-values', content: [] })).rejects.toThrow(
+      new Error(`CSV to HTTP North connector "${configuration.name}" does not support values`)
+    );
+
+    (filesExists as jest.Mock).mockReturnValueOnce(false);
+    await expect(north.handleFile('file.csv')).rejects.toThrow(new Error('File file.csv does not exist'));
+
+    (fetch as unknown as jest.Mock)
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      })
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 400, statusText: 'Bad Request' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 502, statusText: 'Bad Gateway' }));
+    await expect(north.handleFile('file.csv')).rejects.toEqual({
+      message: `Fail to reach endpoint https://hostname/api/rows. ${new Error('connection refused')}`,
+      retry: true
+    });
+    await expect(north.handleFile('file.csv')).rejects.toEqual({ message: 'Error 400: Bad Request', retry: false });
+    await expect(north.handleFile('file.csv')).rejects.toEqual({ message: 'Error 502: Bad Gateway', retry: true });
+  });
+
+  it('should use proxy', async () => {
+    north.settings.settings.useProxy = true;
+    north.settings.settings.proxyUrl = 'http://proxy';
+    north.settings.settings.proxyUsername = 'proxyUser';
+    north.settings.settings.proxyPassword = 'proxyPass';
+    await north.getAgent();
+    expect(createProxyAgent).toHaveBeenCalledWith(true, 'https://hostname/api/rows', {
+      url: 'http://proxy',
+      username: 'proxyUser',
+      password: 'proxyPass'
+    });
+
+    north.settings.settings.proxyPassword = null;
+    await north.getAgent();
+    expect(createProxyAgent).toHaveBeenCalledWith(true, 'https://hostname/api/rows', {
+      url: 'http://proxy',
+      username: 'proxyUser',
+      password: null
+    });
+  });
+
+  it('should test connection', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 405, statusText: 'Method Not Allowed' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 403, statusText: 'Forbidden' }))
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      });
+
+    await expect(north.testConnection()).resolves.not.toThrow();
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/rows', { method: 'OPTIONS', agent: undefined });
+    await expect(north.testConnection()).rejects.toThrow(new Error('HTTP request failed with status code 403 and message: Forbidden'));
+    await expect(north.testConnection()).rejects.toThrow(new Error(`Fetch error ${new Error('connection refused')}`));
+  });
+});
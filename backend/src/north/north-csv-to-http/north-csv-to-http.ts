@@ -0,0 +1,202 @@
+import fs from 'node:fs/promises';
+import csv from 'papaparse';
+import fetch, { RequestInit } from 'node-fetch';
+
+import NorthConnector from '../north-connector';
+import { RETRY_STATUS_CODES } from '../http-status-codes';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import { createProxyAgent } from '../../service/proxy-agent';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { filesExists } from '../../service/utils';
+import { NorthCsvToHttpSettings, NorthCsvToHttpSettingsMappingType } from '../../../../shared/model/north-settings.model';
+import { OIBusContent } from '../../../../shared/model/engine.model';
+
+/**
+ * Class NorthCsvToHttp - Convert the rows of CSV files into JSON objects and send them to an HTTP endpoint
+ */
+export default class NorthCsvToHttp extends NorthConnector<NorthCsvToHttpSettings> {
+  static type = manifest.id;
+
+  constructor(
+    connector: NorthConnectorDTO<NorthCsvToHttpSettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  override async testConnection(): Promise<void> {
+    let response;
+    try {
+      response = await fetch(this.connector.settings.applicativeHostUrl, {
+        method: 'OPTIONS',
+        agent: await this.getAgent()
+      });
+    } catch (error) {
+      throw new Error(`Fetch error ${error}`);
+    }
+    // The endpoint may not accept OPTIONS requests: only authentication and server errors mean it cannot be used
+    if (response.status === 401 || response.status === 403 || response.status >= 500) {
+      throw new Error(`HTTP request failed with status code ${response.status} and message: ${response.statusText}`);
+    }
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        return this.handleFile(data.filePath);
+
+      case 'time-values':
+        throw new Error(`CSV to HTTP North connector "${this.connector.name}" does not support values`);
+    }
+  }
+
+  /**
+   * Convert the rows of the CSV file and send them by groups of the configured max length
+   */
+  async handleFile(filePath: string): Promise<void> {
+    if (!(await filesExists(filePath))) {
+      throw new Error(`File ${filePath} does not exist`);
+    }
+    const content = await fs.readFile(filePath, { encoding: 'utf8' });
+    const parsedContent = csv.parse<Record<string, string>>(content, {
+      header: true,
+      delimiter: this.connector.settings.csvDelimiter,
+      skipEmptyLines: true
+    });
+    for (const error of parsedContent.errors) {
+      this.logger.warn(`Error while parsing row ${error.row} of file "${filePath}": ${error.message}`);
+    }
+
+    const bodies: Array<Record<string, unknown>> = [];
+    parsedContent.data.forEach((row, index) => {
+      const body = this.convertRow(row, index, filePath);
+      if (body) {
+        bodies.push(body);
+      }
+    });
+    if (bodies.length === 0) {
+      this.logger.debug(`No row to send from file "${filePath}"`);
+      return;
+    }
+
+    for (let i = 0; i < bodies.length; i += this.connector.settings.bodyMaxLength) {
+      await this.sendBodies(bodies.slice(i, i + this.connector.settings.bodyMaxLength));
+    }
+  }
+
+  /**
+   * Build the JSON object of a row from the mapping. Without mapping, all the columns are sent as strings.
+   * A row with a field that cannot be converted is ignored, unless unconverted rows are accepted: in this case, the
+   * field keeps its CSV value
+   */
+  convertRow(row: Record<string, string>, index: number, filePath: string): Record<string, unknown> | null {
+    if (!this.connector.settings.mapping || this.connector.settings.mapping.length === 0) {
+      return row;
+    }
+
+    const body: Record<string, unknown> = {};
+    const errors: Array<string> = [];
+    for (const mapping of this.connector.settings.mapping) {
+      const csvValue = row[mapping.csvField];
+      if (csvValue === undefined) {
+        errors.push(`column "${mapping.csvField}" not found`);
+        body[mapping.httpField] = null;
+        continue;
+      }
+      const convertedValue = convertField(csvValue, mapping.type);
+      if (convertedValue === undefined) {
+        errors.push(`value "${csvValue}" of column "${mapping.csvField}" is not of type ${mapping.type}`);
+        body[mapping.httpField] = csvValue;
+        continue;
+      }
+      body[mapping.httpField] = convertedValue;
+    }
+
+    if (errors.length === 0) {
+      return body;
+    }
+    if (this.connector.settings.acceptUnconvertedRows) {
+      this.logger.debug(`Row ${index} of file "${filePath}" sent unconverted: ${errors.join(', ')}`);
+      return body;
+    }
+    this.logger.warn(`Row ${index} of file "${filePath}" ignored: ${errors.join(', ')}`);
+    return null;
+  }
+
+  async sendBodies(bodies: Array<Record<string, unknown>>): Promise<void> {
+    const fetchOptions: RequestInit = {
+      method: this.connector.settings.requestMethod,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(bodies),
+      agent: await this.getAgent()
+    };
+
+    let response;
+    try {
+      response = await fetch(this.connector.settings.applicativeHostUrl, fetchOptions);
+    } catch (fetchError) {
+      throw {
+        message: `Fail to reach endpoint ${this.connector.settings.applicativeHostUrl}. ${fetchError}`,
+        retry: true
+      };
+    }
+
+    if (!response.ok) {
+      throw {
+        message: `Error ${response.status}: ${response.statusText}`,
+        retry: RETRY_STATUS_CODES.includes(response.status)
+      };
+    }
+    this.logger.debug(`${bodies.length} rows sent to ${this.connector.settings.applicativeHostUrl}`);
+  }
+
+  async getAgent(): Promise<any> {
+    return createProxyAgent(
+      this.connector.settings.useProxy,
+      this.connector.settings.applicativeHostUrl,
+      this.connector.settings.useProxy
+        ? {
+            url: this.connector.settings.proxyUrl!,
+            username: this.connector.settings.proxyUsername!,
+            password: this.connector.settings.proxyPassword
+              ? await this.encryptionService.decryptText(this.connector.settings.proxyPassword)
+              : null
+          }
+        : null
+    );
+  }
+}
+
+/**
+ * Convert a CSV value into the type of the mapping. Return undefined if the value cannot be converted
+ */
+const convertField = (value: string, type: NorthCsvToHttpSettingsMappingType): unknown => {
+  switch (type) {
+    case 'string':
+      return value;
+    case 'integer':
+      return /^[-+]?\d+$/.test(value.trim()) ? parseInt(value, 10) : undefined;
+    case 'float':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+    case 'boolean':
+      if (['true', '1'].includes(value.trim().toLowerCase())) {
+        return true;
+      }
+      if (['false', '0'].includes(value.trim().toLowerCase())) {
+        return false;
+      }
+      return undefined;
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+  }
+};
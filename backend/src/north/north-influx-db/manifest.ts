@@ -4,7 +4,7 @@ const manifest: NorthConnectorManifest = {
   id: 'influxdb',
   name: 'InfluxDB',
   category: 'database',
-  description: 'InfluxDB description',
+  description: 'Write values into an InfluxDB database (v1 HTTP API)',
   modes: {
     files: false,
     points: true
@@ -0,0 +1,325 @@
+import NorthInfluxDB from './north-influx-db';
+import pino from 'pino';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import EncryptionService from '../../service/encryption.service';
+import EncryptionServiceMock from '../../tests/__mocks__/encryption-service.mock';
+import RepositoryService from '../../service/repository.service';
+import RepositoryServiceMock from '../../tests/__mocks__/repository-service.mock';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import ValueCacheServiceMock from '../../tests/__mocks__/value-cache-service.mock';
+import FileCacheServiceMock from '../../tests/__mocks__/file-cache-service.mock';
+import ArchiveServiceMock from '../../tests/__mocks__/archive-service.mock';
+import { NorthInfluxDBSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+import fetch from 'node-fetch';
+
+jest.mock('node-fetch');
+const { Response } = jest.requireActual('node-fetch');
+jest.mock('../../service/utils');
+
+const logger: pino.Logger = new PinoLogger();
+const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+
+jest.mock(
+  '../../service/cache/archive.service',
+  () =>
+    function () {
+      return new ArchiveServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/value-cache.service',
+  () =>
+    function () {
+      return new ValueCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/file-cache.service',
+  () =>
+    function () {
+      return new FileCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/north-connector-metrics.service',
+  () =>
+    function () {
+      return {
+        initMetrics: jest.fn(),
+        updateMetrics: jest.fn(),
+        get stream() {
+          return { stream: 'myStream' };
+        },
+        resetMetrics: jest.fn(),
+        metrics: {
+          numberOfValuesSent: 1,
+          numberOfFilesSent: 1
+        }
+      };
+    }
+);
+
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const values: Array<OIBusTimeValue> = [
+  {
+    pointId: 'site1.unit 1.temperature',
+    timestamp: '2021-07-29T12:13:31.883Z',
+    data: { value: '21.5', quality: 'good' }
+  },
+  {
+    pointId: 'site2.unit2.pressure',
+    timestamp: '2021-07-29T12:13:32.883Z',
+    data: { value: 'running "fast"', quality: 'good', flag: true, nested: { key: 'value' } }
+  }
+];
+
+let north: NorthInfluxDB;
+
+describe('NorthInfluxDB', () => {
+  const configuration: NorthConnectorDTO<NorthInfluxDBSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'influxdb',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      host: 'http://localhost:8086',
+      database: 'oibus',
+      username: 'user',
+      password: 'pass',
+      timestampPathInDataValue: null,
+      precision: 'ms',
+      regExp: '(.*)\\.(.*)\\.(.*)',
+      measurement: '%3$s',
+      tags: 'site=%1$s,unit=%2$s',
+      useDataKeyValue: false,
+      keyParentValue: null
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 1,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    repositoryService.northConnectorRepository.getNorthConnector = jest.fn().mockReturnValue(configuration);
+    north = new NorthInfluxDB(structuredClone(configuration), encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should write values in line protocol by groups', async () => {
+    (fetch as unknown as jest.Mock).mockImplementation(() => Promise.resolve(new Response('Ok')));
+
+    await north.handleContent({ type: 'time-values', content: values });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const expectedOptions = {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`,
+        'Content-Type': 'text/plain; charset=utf-8'
+      }
+    };
+    expect(fetch).toHaveBeenCalledWith('http://localhost:8086/write?db=oibus&precision=ms', {
+      ...expectedOptions,
+      body: 'temperature,site=site1,unit=unit\\ 1 value=21.5,quality="good" 1627560811883'
+    });
+    expect(fetch).toHaveBeenCalledWith('http://localhost:8086/write?db=oibus&precision=ms', {
+      ...expectedOptions,
+      body: 'pressure,site=site2,unit=unit2 value="running \\"fast\\"",quality="good",flag=true 1627560812883'
+    });
+    expect(logger.debug).toHaveBeenCalledWith('1 values written into InfluxDB database "oibus"');
+  });
+
+  it('should not handle files', async () => {
+    await expect(north.handleContent({ type: 'raw', filePath: 'myFile' })).rejects.toThrow(
+      new Error(`InfluxDB North connector "${configuration.name}" does not support files`)
+    );
+  });
+
+  it('should throw a retry error when InfluxDB is not reachable', async () => {
+    (fetch as unknown as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('connection refused');
+    });
+
+    await expect(north.handleValues([values[0]])).rejects.toEqual({
+      message: `Fail to reach InfluxDB endpoint http://localhost:8086/write?db=oibus&precision=ms. ${new Error('connection refused')}`,
+      retry: true
+    });
+  });
+
+  it('should classify HTTP errors', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 400, statusText: 'Bad Request' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 503, statusText: 'Service Unavailable' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 401, statusText: 'Unauthorized' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 429, statusText: 'Too Many Requests' }));
+
+    await expect(north.handleValues([values[0]])).rejects.toEqual({ message: 'Error 400: Bad Request', retry: false });
+    await expect(north.handleValues([values[0]])).rejects.toEqual({ message: 'Error 503: Service Unavailable', retry: true });
+    await expect(north.handleValues([values[0]])).rejects.toEqual({ message: 'Error 401: Unauthorized', retry: false });
+    await expect(north.handleValues([values[0]])).rejects.toEqual({ message: 'Error 429: Too Many Requests', retry: true });
+  });
+
+  it('should skip values not matching the regexp or without enough groups', async () => {
+    expect(north.convertToLineProtocol({ pointId: 'no-match', timestamp: nowDateString, data: { value: 1 } })).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(`RegExp "${configuration.settings.regExp}" does not match point ID "no-match"`);
+
+    north.settings.settings.regExp = '(.*)\\.(.*)';
+    expect(north.convertToLineProtocol({ pointId: 'a.b', timestamp: nowDateString, data: { value: 1 } })).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(`RegExp "(.*)\\.(.*)" does not return enough groups for the measurement of "a.b"`);
+
+    north.settings.settings.measurement = '%1$s';
+    expect(north.convertToLineProtocol({ pointId: 'a', timestamp: nowDateString, data: { value: 1 } })).toBeNull();
+    north.settings.settings.regExp = '(.*)';
+    expect(north.convertToLineProtocol({ pointId: 'a', timestamp: nowDateString, data: { value: 1 } })).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(`RegExp "(.*)" does not return enough groups for the tags of "a"`);
+
+    north.settings.settings.tags = null;
+    expect(
+      north.convertToLineProtocol({
+        pointId: 'a',
+        timestamp: nowDateString,
+        data: { value: { key: 'value' } }
+      } as unknown as OIBusTimeValue)
+    ).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith('No field to write for point ID "a"');
+    expect(north.convertToLineProtocol({ pointId: 'a', timestamp: nowDateString, data: { value: 1 } })).toEqual(`a value=1 1580608922222`);
+  });
+
+  it('should test connection', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(
+        Promise.resolve(new Response(JSON.stringify({ results: [{ series: [{ values: [['_internal'], ['oibus']] }] }] })))
+      )
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ results: [{}] }))))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 401, statusText: 'Unauthorized' }))
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      });
+
+    await expect(north.testConnection()).resolves.not.toThrow();
+    expect(fetch).toHaveBeenCalledWith('http://localhost:8086/query?q=SHOW%20DATABASES', {
+      method: 'GET',
+      headers: { authorization: `Basic ${Buffer.from('user:pass').toString('base64')}` }
+    });
+    await expect(north.testConnection()).rejects.toThrow(new Error('Database "oibus" does not exist'));
+    await expect(north.testConnection()).rejects.toThrow(new Error('HTTP request failed with status code 401 and message: Unauthorized'));
+    await expect(north.testConnection()).rejects.toThrow(new Error(`Fetch error ${new Error('connection refused')}`));
+  });
+});
+
+describe('NorthInfluxDB with data key value', () => {
+  const configuration: NorthConnectorDTO<NorthInfluxDBSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'influxdb',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      host: 'http://localhost:8086',
+      database: 'oibus',
+      username: '',
+      password: null,
+      timestampPathInDataValue: 'timestamp',
+      precision: 'ns',
+      regExp: '(.*)',
+      measurement: '%1$s',
+      tags: null,
+      useDataKeyValue: true,
+      keyParentValue: 'level1'
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 1000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    north = new NorthInfluxDB(structuredClone(configuration), encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should use the timestamp of the data value', async () => {
+    (fetch as unknown as jest.Mock).mockImplementation(() => Promise.resolve(new Response('Ok')));
+    const value = {
+      pointId: 'point',
+      timestamp: nowDateString,
+      data: { value: { level1: { temperature: 12, timestamp: '2021-07-29T12:13:31.883Z' } } }
+    } as unknown as OIBusTimeValue;
+
+    await north.handleValues([value, value]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith('http://localhost:8086/write?db=oibus&precision=ns', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      body: 'point temperature=12 1627560811883000000\npoint temperature=12 1627560811883000000'
+    });
+    // The cached value must not be altered
+    expect((value.data.value as unknown as { level1: object }).level1).toEqual({ temperature: 12, timestamp: '2021-07-29T12:13:31.883Z' });
+  });
+
+  it('should fall back to the timestamp of the value when the data value has no valid timestamp', async () => {
+    const missing = {
+      pointId: 'point',
+      timestamp: nowDateString,
+      data: { value: { level1: { temperature: 12 } } }
+    } as unknown as OIBusTimeValue;
+    expect(north.convertToLineProtocol(missing)).toEqual('point temperature=12 1580608922222000000');
+    expect(logger.debug).toHaveBeenCalledWith(
+      'No valid timestamp at path "timestamp" in the data of "point". Timestamp of the value used instead'
+    );
+
+    const invalid = {
+      pointId: 'point',
+      timestamp: nowDateString,
+      data: { value: { level1: { temperature: 12, timestamp: 'not a date' } } }
+    } as unknown as OIBusTimeValue;
+    expect(north.convertToLineProtocol(invalid)).toEqual('point temperature=12,timestamp="not a date" 1580608922222000000');
+  });
+
+  it('should convert timestamps with the configured precision', async () => {
+    const value = { pointId: 'point', timestamp: nowDateString, data: { value: { level1: 3 } } } as unknown as OIBusTimeValue;
+    north.settings.settings.timestampPathInDataValue = null;
+    const expectedTimestamps = { ns: '1580608922222000000', u: '1580608922222000', s: '1580608922', m: '26343482', h: '439058' };
+    for (const [precision, expected] of Object.entries(expectedTimestamps)) {
+      north.settings.settings.precision = precision as NorthInfluxDBSettings['precision'];
+      expect(north.convertToLineProtocol(value)).toEqual(`point value=3 ${expected}`);
+    }
+  });
+});
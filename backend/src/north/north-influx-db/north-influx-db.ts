@@ -0,0 +1,225 @@
+import { vsprintf } from 'sprintf-js';
+import objectPath from 'object-path';
+import fetch, { HeadersInit } from 'node-fetch';
+import { DateTime } from 'luxon';
+
+import NorthConnector from '../north-connector';
+import { RETRY_STATUS_CODES } from '../http-status-codes';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { NorthInfluxDBSettings, NorthInfluxDBSettingsPrecision } from '../../../../shared/model/north-settings.model';
+import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+/**
+ * Class NorthInfluxDB - Write values into an InfluxDB database with the line protocol
+ */
+export default class NorthInfluxDB extends NorthConnector<NorthInfluxDBSettings> {
+  static type = manifest.id;
+
+  constructor(
+    connector: NorthConnectorDTO<NorthInfluxDBSettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  override async testConnection(): Promise<void> {
+    const requestUrl = `${this.connector.settings.host}/query?q=${encodeURIComponent('SHOW DATABASES')}`;
+    let response;
+    try {
+      response = await fetch(requestUrl, { method: 'GET', headers: await this.getHeaders() });
+    } catch (error) {
+      throw new Error(`Fetch error ${error}`);
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP request failed with status code ${response.status} and message: ${response.statusText}`);
+    }
+
+    const result: { results: Array<{ series?: Array<{ values: Array<Array<string>> }> }> } = await response.json();
+    const databases = (result.results[0]?.series?.[0]?.values || []).map(value => value[0]);
+    if (!databases.includes(this.connector.settings.database)) {
+      throw new Error(`Database "${this.connector.settings.database}" does not exist`);
+    }
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        throw new Error(`InfluxDB North connector "${this.connector.name}" does not support files`);
+
+      case 'time-values':
+        return this.handleValues(data.content);
+    }
+  }
+
+  /**
+   * Convert values into line protocol and write them by groups of the configured group count
+   */
+  async handleValues(values: Array<OIBusTimeValue>): Promise<void> {
+    const lines: Array<string> = [];
+    for (const value of values) {
+      const line = this.convertToLineProtocol(value);
+      if (line) {
+        lines.push(line);
+      }
+    }
+
+    const groupCount = this.connector.caching.oibusTimeValues.groupCount || lines.length;
+    for (let i = 0; i < lines.length; i += groupCount) {
+      await this.writeLines(lines.slice(i, i + groupCount));
+    }
+  }
+
+  async writeLines(lines: Array<string>): Promise<void> {
+    const requestUrl =
+      `${this.connector.settings.host}/write?db=${encodeURIComponent(this.connector.settings.database)}` +
+      `&precision=${this.connector.settings.precision}`;
+
+    let response;
+    try {
+      response = await fetch(requestUrl, {
+        method: 'POST',
+        headers: { ...(await this.getHeaders()), 'Content-Type': 'text/plain; charset=utf-8' },
+        body: lines.join('\n')
+      });
+    } catch (fetchError) {
+      throw {
+        message: `Fail to reach InfluxDB endpoint ${requestUrl}. ${fetchError}`,
+        retry: true
+      };
+    }
+
+    if (!response.ok) {
+      throw {
+        message: `Error ${response.status}: ${response.statusText}`,
+        retry: RETRY_STATUS_CODES.includes(response.status)
+      };
+    }
+    this.logger.debug(`${lines.length} values written into InfluxDB database "${this.connector.settings.database}"`);
+  }
+
+  /**
+   * Build a line of the InfluxDB line protocol: measurement and tags are built from the groups of the regexp applied
+   * on the point ID, fields from the data of the value
+   */
+  convertToLineProtocol(value: OIBusTimeValue): string | null {
+    const groups = new RegExp(this.connector.settings.regExp).exec(value.pointId);
+    if (!groups) {
+      this.logger.error(`RegExp "${this.connector.settings.regExp}" does not match point ID "${value.pointId}"`);
+      return null;
+    }
+    // Remove the first element, which is the matched string, because we only need the groups
+    groups.shift();
+
+    const measurement = vsprintf(this.connector.settings.measurement, groups.map(escapeMeasurement));
+    const tags = this.connector.settings.tags ? vsprintf(this.connector.settings.tags, groups.map(escapeTag)) : '';
+    // If there are fewer groups than placeholders, vsprintf puts undefined in place of the missing groups
+    if (countUndefined(measurement) > countUndefined(this.connector.settings.measurement)) {
+      this.logger.error(
+        `RegExp "${this.connector.settings.regExp}" does not return enough groups for the measurement of "${value.pointId}"`
+      );
+      return null;
+    }
+    if (countUndefined(tags) > countUndefined(this.connector.settings.tags || '')) {
+      this.logger.error(`RegExp "${this.connector.settings.regExp}" does not return enough groups for the tags of "${value.pointId}"`);
+      return null;
+    }
+    const tagKeys = tags ? tags.split(',').map(tag => tag.split('=')[0]) : [];
+
+    // Copy the data to not alter the value kept in cache when removing the timestamp field
+    let dataValue = structuredClone(
+      this.connector.settings.useDataKeyValue
+        ? objectPath.get(value.data.value as unknown as object, this.connector.settings.keyParentValue || '')
+        : value.data
+    );
+    if (!dataValue || typeof dataValue !== 'object') {
+      dataValue = { value: dataValue };
+    }
+
+    let timestamp = value.timestamp;
+    if (this.connector.settings.timestampPathInDataValue) {
+      const dataTimestamp = objectPath.get(dataValue, this.connector.settings.timestampPathInDataValue);
+      if (typeof dataTimestamp === 'string' && DateTime.fromISO(dataTimestamp).isValid) {
+        timestamp = dataTimestamp;
+        objectPath.del(dataValue, this.connector.settings.timestampPathInDataValue);
+      } else {
+        this.logger.debug(
+          `No valid timestamp at path "${this.connector.settings.timestampPathInDataValue}" in the data of "${value.pointId}". ` +
+            'Timestamp of the value used instead'
+        );
+      }
+    }
+
+    const fields = Object.entries(dataValue)
+      .filter(([fieldKey]) => !tagKeys.includes(fieldKey))
+      .map(([fieldKey, fieldValue]) => formatField(fieldKey, fieldValue))
+      .filter(field => field !== null);
+    if (fields.length === 0) {
+      this.logger.warn(`No field to write for point ID "${value.pointId}"`);
+      return null;
+    }
+
+    return `${measurement}${tags ? `,${tags}` : ''} ${fields.join(',')} ${convertTimestamp(timestamp, this.connector.settings.precision)}`;
+  }
+
+  async getHeaders(): Promise<HeadersInit> {
+    const headers: HeadersInit = {};
+    if (this.connector.settings.username) {
+      const password = this.connector.settings.password ? await this.encryptionService.decryptText(this.connector.settings.password) : '';
+      headers.authorization = `Basic ${Buffer.from(`${this.connector.settings.username}:${password}`).toString('base64')}`;
+    }
+    return headers;
+  }
+}
+
+/**
+ * Convert an ISO timestamp into an epoch with the configured precision
+ */
+const convertTimestamp = (timestamp: string, precision: NorthInfluxDBSettingsPrecision): string => {
+  const millis = DateTime.fromISO(timestamp).toMillis();
+  switch (precision) {
+    case 'ns':
+      // Concatenate strings to avoid loss of precision with numbers bigger than Number.MAX_SAFE_INTEGER
+      return `${millis}000000`;
+    case 'u':
+      return `${millis}000`;
+    case 'ms':
+      return `${millis}`;
+    case 's':
+      return `${Math.floor(millis / 1000)}`;
+    case 'm':
+      return `${Math.floor(millis / 1000 / 60)}`;
+    case 'h':
+      return `${Math.floor(millis / 1000 / 60 / 60)}`;
+  }
+};
+
+const countUndefined = (text: string): number => (text.match(/undefined/g) || []).length;
+
+const escapeMeasurement = (measurement: string): string => measurement.replace(/[, ]/g, match => `\\${match}`);
+
+const escapeTag = (tag: string): string => tag.replace(/[,= ]/g, match => `\\${match}`);
+
+/**
+ * Format a field of the line protocol. Numeric strings are written as numbers, other strings as string fields.
+ * Objects are ignored
+ */
+const formatField = (key: string, value: unknown): string | null => {
+  const escapedKey = escapeTag(key);
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return `${escapedKey}=${value}`;
+  }
+  if (typeof value === 'string') {
+    if (value.trim() !== '' && !isNaN(Number(value))) {
+      return `${escapedKey}=${Number(value)}`;
+    }
+    return `${escapedKey}="${value.replace(/["\\]/g, match => `\\${match}`)}"`;
+  }
+  return null;
+};
@@ -4,7 +4,7 @@ const manifest: NorthConnectorManifest = {
   id: 'mongodb',
   name: 'MongoDB',
   category: 'database',
-  description: 'MongoDB description',
+  description: 'Insert values into MongoDB collections',
   modes: {
     files: false,
     points: true
@@ -14,8 +14,8 @@ const manifest: NorthConnectorManifest = {
       key: 'host',
       type: 'OibText',
       label: 'Host',
-      validators: [{ key: 'required' }, { key: 'pattern', params: { pattern: '^(http:\\/\\/|https:\\/\\/|HTTP:\\/\\/|HTTPS:\\/\\/).*' } }],
-      defaultValue: 'http://localhost:8086',
+      validators: [{ key: 'required' }],
+      defaultValue: 'localhost:27017',
       newRow: true,
       displayInViewMode: true
     },
@@ -32,7 +32,6 @@ const manifest: NorthConnectorManifest = {
       type: 'OibText',
       label: 'User',
       defaultValue: '',
-      validators: [{ key: 'required' }],
       displayInViewMode: true
     },
     {
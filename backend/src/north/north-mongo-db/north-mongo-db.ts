@@ -0,0 +1,228 @@
+import { Db, Document, MongoBulkWriteError, MongoClient, MongoNetworkError, MongoServerSelectionError } from 'mongodb';
+import { vsprintf } from 'sprintf-js';
+import objectPath from 'object-path';
+import { DateTime } from 'luxon';
+
+import NorthConnector from '../north-connector';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { NorthMongoDBSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Class NorthMongoDB - Insert values into MongoDB collections
+ */
+export default class NorthMongoDB extends NorthConnector<NorthMongoDBSettings> {
+  static type = manifest.id;
+
+  private client: MongoClient | null = null;
+  private database: Db | null = null;
+  private checkedCollections = new Set<string>();
+
+  constructor(
+    connector: NorthConnectorDTO<NorthMongoDBSettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  override async connect(): Promise<void> {
+    this.logger.info(`Connecting to MongoDB "${this.connector.settings.host}"`);
+    // The MongoDB driver connects lazily and manages reconnections by itself
+    this.client = new MongoClient(await this.createConnectionUrl());
+    this.database = this.client.db(this.connector.settings.database);
+    this.checkedCollections.clear();
+    await super.connect();
+  }
+
+  override async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.logger.info(`Disconnected from MongoDB "${this.connector.settings.host}"`);
+      this.client = null;
+      this.database = null;
+    }
+    await super.disconnect();
+  }
+
+  override async testConnection(): Promise<void> {
+    const client = new MongoClient(await this.createConnectionUrl());
+    try {
+      await client.connect();
+      await client.db(this.connector.settings.database).command({ ping: 1 });
+    } catch (error: any) {
+      throw new Error(`Unable to connect to MongoDB "${this.connector.settings.host}". ${error.message}`);
+    } finally {
+      await client.close();
+    }
+  }
+
+  async createConnectionUrl(): Promise<string> {
+    if (!this.connector.settings.username) {
+      return `mongodb://${this.connector.settings.host}`;
+    }
+    const password = this.connector.settings.password ? await this.encryptionService.decryptText(this.connector.settings.password) : '';
+    return `mongodb://${encodeURIComponent(this.connector.settings.username)}:${encodeURIComponent(password)}@${this.connector.settings.host}`;
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        throw new Error(`MongoDB North connector "${this.connector.name}" does not support files`);
+
+      case 'time-values':
+        return this.handleValues(data.content);
+    }
+  }
+
+  /**
+   * Group values by collection and insert them
+   */
+  async handleValues(values: Array<OIBusTimeValue>): Promise<void> {
+    if (!this.database) {
+      throw {
+        message: `MongoDB client not connected to "${this.connector.settings.host}"`,
+        retry: true
+      };
+    }
+
+    const documentsByCollection = new Map<string, { indexFields: Array<string>; documents: Array<Document> }>();
+    for (const value of values) {
+      const result = this.createDocument(value);
+      if (!result) {
+        continue;
+      }
+      const collectionDocuments = documentsByCollection.get(result.collection);
+      if (collectionDocuments) {
+        collectionDocuments.documents.push(result.document);
+      } else {
+        documentsByCollection.set(result.collection, { indexFields: result.indexFields, documents: [result.document] });
+      }
+    }
+
+    for (const [collection, { indexFields, documents }] of documentsByCollection.entries()) {
+      try {
+        if (this.connector.settings.createCollection && !this.checkedCollections.has(collection)) {
+          await this.ensureCollectionExists(collection, indexFields);
+        }
+        await this.database.collection(collection).insertMany(documents, { ordered: false });
+        this.logger.debug(`${documents.length} values inserted into MongoDB collection "${collection}"`);
+      } catch (error: any) {
+        // Documents already inserted by a previous attempt are rejected by their ID, the others are still inserted
+        const writeErrors = error instanceof MongoBulkWriteError ? [error.writeErrors].flat() : [];
+        if (writeErrors.length > 0 && writeErrors.every(writeError => writeError.code === DUPLICATE_KEY_ERROR)) {
+          this.logger.debug(
+            `${documents.length - writeErrors.length} values inserted into MongoDB collection "${collection}" ` +
+              `(${writeErrors.length} values already inserted)`
+          );
+          continue;
+        }
+        throw {
+          message: `Could not insert values into MongoDB collection "${collection}". ${error.message}`,
+          retry: error instanceof MongoNetworkError || error instanceof MongoServerSelectionError
+        };
+      }
+    }
+  }
+
+  /**
+   * Build the document of a value: the collection and the index fields are built from the groups of the regexp
+   * applied on the point ID, other fields from the data of the value
+   */
+  createDocument(value: OIBusTimeValue): { collection: string; indexFields: Array<string>; document: Document } | null {
+    const groups = new RegExp(this.connector.settings.regExp).exec(value.pointId);
+    if (!groups) {
+      this.logger.error(`RegExp "${this.connector.settings.regExp}" does not match point ID "${value.pointId}"`);
+      return null;
+    }
+    // Remove the first element, which is the matched string, because we only need the groups
+    groups.shift();
+
+    const collection = vsprintf(this.connector.settings.collection, groups);
+    const indexFields = this.connector.settings.indexFields ? vsprintf(this.connector.settings.indexFields, groups) : '';
+    // If there are fewer groups than placeholders, vsprintf puts undefined in place of the missing groups
+    if (countUndefined(collection) > countUndefined(this.connector.settings.collection)) {
+      this.logger.error(
+        `RegExp "${this.connector.settings.regExp}" does not return enough groups for the collection of "${value.pointId}"`
+      );
+      return null;
+    }
+    if (countUndefined(indexFields) > countUndefined(this.connector.settings.indexFields || '')) {
+      this.logger.error(
+        `RegExp "${this.connector.settings.regExp}" does not return enough groups for the index fields of "${value.pointId}"`
+      );
+      return null;
+    }
+
+    // Copy the data to not alter the value kept in cache when removing the timestamp field
+    let dataValue = structuredClone(
+      this.connector.settings.useDataKeyValue
+        ? objectPath.get(value.data.value as unknown as object, this.connector.settings.keyParentValue || '')
+        : value.data
+    );
+    if (!dataValue || typeof dataValue !== 'object') {
+      dataValue = { value: dataValue };
+    }
+
+    let timestamp = value.timestamp;
+    if (this.connector.settings.timestampPathInDataValue) {
+      const dataTimestamp = objectPath.get(dataValue, this.connector.settings.timestampPathInDataValue);
+      if (typeof dataTimestamp === 'string' && DateTime.fromISO(dataTimestamp).isValid) {
+        timestamp = dataTimestamp;
+        objectPath.del(dataValue, this.connector.settings.timestampPathInDataValue);
+      } else {
+        this.logger.debug(
+          `No valid timestamp at path "${this.connector.settings.timestampPathInDataValue}" in the data of "${value.pointId}". ` +
+            'Timestamp of the value used instead'
+        );
+      }
+    }
+
+    // The ID identifies the value, so that a value sent again is not inserted twice
+    const document: Document = { _id: { pointId: value.pointId, timestamp: new Date(timestamp) } };
+    // Index fields are formatted as field1:value1,field2:value2
+    const indexKeys: Array<string> = [];
+    for (const indexField of indexFields.split(',').filter(field => field.includes(':'))) {
+      const [key, ...fieldValue] = indexField.split(':');
+      document[key] = fieldValue.join(':');
+      indexKeys.push(key);
+    }
+    for (const [key, fieldValue] of Object.entries(dataValue)) {
+      if (key !== 'timestamp' && key !== '_id') {
+        document[key] = fieldValue;
+      }
+    }
+    document[this.connector.settings.timestampKey] = new Date(timestamp);
+
+    return { collection, indexFields: indexKeys, document };
+  }
+
+  /**
+   * Create the collection with an index on the index fields and the timestamp if it does not exist
+   */
+  async ensureCollectionExists(collection: string, indexFields: Array<string>): Promise<void> {
+    const existingCollections = await this.database!.listCollections({ name: collection }, { nameOnly: true }).toArray();
+    if (existingCollections.length === 0) {
+      await this.database!.createCollection(collection);
+      this.logger.info(`Collection "${collection}" created`);
+
+      const index: Record<string, 1> = {};
+      for (const field of [...indexFields, this.connector.settings.timestampKey]) {
+        index[field] = 1;
+      }
+      await this.database!.collection(collection).createIndex(index);
+      this.logger.info(`Index created for collection "${collection}"`);
+    }
+    this.checkedCollections.add(collection);
+  }
+}
+
+const countUndefined = (text: string): number => (text.match(/undefined/g) || []).length;
@@ -4,7 +4,7 @@ const manifest: NorthConnectorManifest = {
   id: 'mqtt',
   name: 'MQTT',
   category: 'iot',
-  description: 'MQTT description',
+  description: 'Publish values to MQTT broker topics',
   modes: {
     files: false,
     points: true
@@ -14,6 +14,8 @@ const manifest: NorthConnectorManifest = {
       key: 'url',
       type: 'OibText',
       label: 'URL',
+      defaultValue: '',
+      newRow: true,
       validators: [
         { key: 'required' },
         { key: 'pattern', params: { pattern: '^(mqtt:\\/\\/|mqtts:\\/\\/|tcp:\\/\\/|tls:\\/\\/|ws:\\/\\/|wss:\\/\\/).*' } }
@@ -31,78 +33,109 @@ const manifest: NorthConnectorManifest = {
       displayInViewMode: true
     },
     {
-      key: 'username',
-      type: 'OibText',
-      label: 'Username',
-      defaultValue: '',
-      newRow: true,
-      displayInViewMode: false
-    },
-    {
-      key: 'password',
-      type: 'OibSecret',
-      label: 'Password',
-      defaultValue: '',
+      key: 'persistent',
+      type: 'OibCheckbox',
+      label: 'Persistent',
+      defaultValue: false,
       newRow: false,
-      displayInViewMode: false
+      conditionalDisplay: { field: 'qos', values: ['1', '2'] },
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
     },
     {
-      key: 'certFile',
-      type: 'OibText',
-      label: 'Cert File',
-      defaultValue: '',
+      key: 'authentication',
+      type: 'OibFormGroup',
+      label: 'Authentication',
+      class: 'col',
       newRow: true,
-      displayInViewMode: false
+      displayInViewMode: false,
+      validators: [{ key: 'required' }],
+      content: [
+        {
+          key: 'type',
+          type: 'OibSelect',
+          label: 'Type',
+          options: ['none', 'basic', 'cert'],
+          pipe: 'authentication',
+          validators: [{ key: 'required' }],
+          defaultValue: 'none',
+          newRow: true,
+          displayInViewMode: false
+        },
+        {
+          key: 'username',
+          type: 'OibText',
+          label: 'Username',
+          defaultValue: '',
+          validators: [{ key: 'required' }],
+          conditionalDisplay: { field: 'type', values: ['basic'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'password',
+          type: 'OibSecret',
+          label: 'Password',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['basic'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'certificateId',
+          type: 'OibCertificate',
+          label: 'Certificate',
+          validators: [{ key: 'required' }],
+          conditionalDisplay: { field: 'type', values: ['cert'] },
+          newRow: false,
+          displayInViewMode: false
+        },
+        {
+          key: 'caFilePath',
+          type: 'OibText',
+          label: 'CA file path',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['cert'] },
+          newRow: false,
+          displayInViewMode: false
+        }
+      ]
     },
     {
-      key: 'keyFile',
-      type: 'OibText',
-      label: 'Key File',
-      defaultValue: '',
-      newRow: false,
-      displayInViewMode: false
+      key: 'rejectUnauthorized',
+      type: 'OibCheckbox',
+      label: 'Reject unauthorized connection',
+      defaultValue: false,
+      newRow: true,
+      displayInViewMode: false,
+      validators: [{ key: 'required' }]
     },
     {
-      key: 'caFile',
-      type: 'OibText',
-      label: 'CA File',
-      defaultValue: '',
+      key: 'reconnectPeriod',
+      type: 'OibNumber',
+      label: 'Reconnect period',
+      unitLabel: 'ms',
+      defaultValue: 1000,
       newRow: false,
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 100 } }, { key: 'max', params: { max: 30_000 } }],
       displayInViewMode: false
     },
     {
-      key: 'rejectUnauthorized',
-      type: 'OibCheckbox',
-      label: 'Reject Unauthorized Connection',
-      defaultValue: false,
+      key: 'connectTimeout',
+      type: 'OibNumber',
+      label: 'Connect timeout',
+      unitLabel: 'ms',
+      defaultValue: 10000,
       newRow: false,
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 100 } }, { key: 'max', params: { max: 30_000 } }],
       displayInViewMode: false
     },
-    {
-      key: 'regExp',
-      type: 'OibText',
-      label: 'RegExp',
-      validators: [{ key: 'required' }],
-      defaultValue: '(.*)'
-    },
     {
       key: 'topic',
       type: 'OibText',
       label: 'Topic',
-      defaultValue: '%1$s',
-      validators: [{ key: 'required' }]
-    },
-    {
-      key: 'useDataKeyValue',
-      type: 'OibCheckbox',
-      label: 'Use key "value" of Json "data"',
-      defaultValue: false,
-      validators: [{ key: 'required' }]
-    },
-    {
-      key: 'keyParentValue',
-      type: 'OibText',
-      label: 'Key parent value'
+      defaultValue: '{pointId}',
+      newRow: true,
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
     }
   ]
 };
@@ -0,0 +1,331 @@
+import Stream from 'node:stream';
+import fs from 'node:fs/promises';
+
+import mqtt from 'mqtt';
+
+import NorthMQTT from './north-mqtt';
+import pino from 'pino';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import EncryptionService from '../../service/encryption.service';
+import EncryptionServiceMock from '../../tests/__mocks__/encryption-service.mock';
+import RepositoryService from '../../service/repository.service';
+import RepositoryServiceMock from '../../tests/__mocks__/repository-service.mock';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import ValueCacheServiceMock from '../../tests/__mocks__/value-cache-service.mock';
+import FileCacheServiceMock from '../../tests/__mocks__/file-cache-service.mock';
+import ArchiveServiceMock from '../../tests/__mocks__/archive-service.mock';
+import { NorthMqttSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+jest.mock('mqtt');
+jest.mock('node:fs/promises');
+jest.mock('../../service/utils');
+
+const logger: pino.Logger = new PinoLogger();
+const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+
+jest.mock(
+  '../../service/cache/archive.service',
+  () =>
+    function () {
+      return new ArchiveServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/value-cache.service',
+  () =>
+    function () {
+      return new ValueCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/file-cache.service',
+  () =>
+    function () {
+      return new FileCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/north-connector-metrics.service',
+  () =>
+    function () {
+      return {
+        initMetrics: jest.fn(),
+        updateMetrics: jest.fn(),
+        get stream() {
+          return { stream: 'myStream' };
+        },
+        resetMetrics: jest.fn(),
+        metrics: {
+          numberOfValuesSent: 1,
+          numberOfFilesSent: 1
+        }
+      };
+    }
+);
+
+class CustomStream extends Stream {
+  connected = false;
+
+  constructor() {
+    super();
+  }
+
+  publishAsync() {}
+
+  end() {}
+}
+
+const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const values: Array<OIBusTimeValue> = [
+  {
+    pointId: 'pointId1',
+    timestamp: '2021-07-29T12:13:31.883Z',
+    data: { value: '666', quality: 'good' }
+  },
+  {
+    pointId: 'pointId2',
+    timestamp: '2021-07-29T12:13:31.883Z',
+    data: { value: '777', quality: 'good' }
+  }
+];
+
+let north: NorthMQTT;
+let mqttStream: CustomStream;
+
+describe('NorthMQTT', () => {
+  const configuration: NorthConnectorDTO<NorthMqttSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'mqtt',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      url: 'mqtt://localhost:1883',
+      qos: '1',
+      persistent: true,
+      authentication: {
+        type: 'basic',
+        username: 'username',
+        password: 'pass'
+      },
+      rejectUnauthorized: false,
+      reconnectPeriod: 1000,
+      connectTimeout: 1000,
+      topic: 'oibus/{pointId}/value'
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 10000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    repositoryService.northConnectorRepository.getNorthConnector = jest.fn().mockReturnValue(configuration);
+    mqttStream = new CustomStream();
+    mqttStream.publishAsync = jest.fn();
+    mqttStream.end = jest.fn();
+    (mqtt.connect as jest.Mock).mockImplementation(() => mqttStream);
+
+    north = new NorthMQTT(configuration, encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should properly connect and disconnect', async () => {
+    await north.start();
+    expect(mqtt.connect).toHaveBeenCalledWith(configuration.settings.url, {
+      clientId: configuration.id,
+      rejectUnauthorized: false,
+      username: 'username',
+      password: 'pass',
+      connectTimeout: 1000,
+      reconnectPeriod: 1000,
+      clean: false
+    });
+    mqttStream.emit('connect');
+    expect(logger.info).toHaveBeenCalledWith(`Connected to ${configuration.settings.url}`);
+    mqttStream.emit('error', new Error('error'));
+    expect(logger.error).toHaveBeenCalledWith(`MQTT connection error ${new Error('error')}`);
+
+    await north.disconnect();
+    expect(mqttStream.end).toHaveBeenCalledWith(true);
+    expect(logger.info).toHaveBeenCalledWith(`Disconnected from ${configuration.settings.url}...`);
+    await north.disconnect();
+    expect(mqttStream.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should publish values on topics built from point ids', async () => {
+    await north.start();
+    mqttStream.connected = true;
+
+    await north.handleContent({ type: 'time-values', content: values });
+
+    expect(mqttStream.publishAsync).toHaveBeenCalledTimes(2);
+    expect(mqttStream.publishAsync).toHaveBeenCalledWith('oibus/pointId1/value', JSON.stringify(values[0]), { qos: 1 });
+    expect(mqttStream.publishAsync).toHaveBeenCalledWith('oibus/pointId2/value', JSON.stringify(values[1]), { qos: 1 });
+    expect(logger.debug).toHaveBeenCalledWith(`2 values published on "${configuration.settings.url}"`);
+  });
+
+  it('should throw a retry error if the client is not connected', async () => {
+    await expect(north.handleContent({ type: 'time-values', content: values })).rejects.toEqual({
+      message: `MQTT client not connected to "${configuration.settings.url}"`,
+      retry: true
+    });
+
+    await north.start();
+    await expect(north.handleContent({ type: 'time-values', content: values })).rejects.toEqual({
+      message: `MQTT client not connected to "${configuration.settings.url}"`,
+      retry: true
+    });
+    expect(mqttStream.publishAsync).not.toHaveBeenCalled();
+  });
+
+  it('should throw an error when publish fails', async () => {
+    await north.start();
+    mqttStream.connected = true;
+    mqttStream.publishAsync = jest.fn().mockImplementationOnce(() => {
+      throw new Error('publish error');
+    });
+
+    await expect(north.handleContent({ type: 'time-values', content: values })).rejects.toEqual({
+      message: `Could not publish value on topic "oibus/pointId1/value". ${new Error('publish error')}`,
+      retry: false
+    });
+    expect(mqttStream.publishAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not handle files', async () => {
+    await expect(north.handleContent({ type: 'raw', filePath: 'myFile' })).rejects.toThrow(
+      new Error(`MQTT North connector "${configuration.name}" does not support files`)
+    );
+  });
+
+  it('should test connection', async () => {
+    const promise = north.testConnection();
+    await flushPromises();
+    mqttStream.emit('connect');
+    await expect(promise).resolves.toBeUndefined();
+    expect(logger.info).toHaveBeenCalledWith(`Connection test to "${configuration.settings.url}" successful`);
+    expect(mqttStream.end).toHaveBeenCalledWith(true);
+  });
+
+  it('should fail to test connection', async () => {
+    const promise = north.testConnection();
+    await flushPromises();
+    mqttStream.emit('error', new Error('connection refused'));
+    await expect(promise).rejects.toThrow(new Error(`MQTT connection error. ${new Error('connection refused')}`));
+    expect(logger.error).toHaveBeenCalledWith(`MQTT connection error. ${new Error('connection refused')}`);
+    expect(mqttStream.end).toHaveBeenCalledWith(true);
+  });
+
+  it('should fail to test connection when the broker does not answer', async () => {
+    const promise = north.testConnection();
+    await flushPromises();
+    jest.advanceTimersByTime(configuration.settings.connectTimeout);
+    await expect(promise).rejects.toThrow(
+      new Error(`MQTT connection to "${configuration.settings.url}" timed out after ${configuration.settings.connectTimeout} ms`)
+    );
+    expect(logger.error).toHaveBeenCalledWith(`MQTT connection to "${configuration.settings.url}" timed out`);
+    expect(mqttStream.end).toHaveBeenCalledWith(true);
+  });
+});
+
+describe('NorthMQTT with certificate', () => {
+  const configuration: NorthConnectorDTO<NorthMqttSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'mqtt',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      url: 'mqtts://localhost:8883',
+      qos: '0',
+      authentication: {
+        type: 'cert',
+        certificateId: 'certificateId',
+        caFilePath: 'ca.pem'
+      },
+      rejectUnauthorized: true,
+      reconnectPeriod: 1000,
+      connectTimeout: 1000,
+      topic: '{pointId}'
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 10000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    repositoryService.northConnectorRepository.getNorthConnector = jest.fn().mockReturnValue(configuration);
+    mqttStream = new CustomStream();
+    mqttStream.publishAsync = jest.fn();
+    mqttStream.end = jest.fn();
+    (mqtt.connect as jest.Mock).mockImplementation(() => mqttStream);
+
+    north = new NorthMQTT(configuration, encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should connect with a certificate from the certificate repository', async () => {
+    (repositoryService.certificateRepository.findById as jest.Mock).mockReturnValueOnce({
+      id: 'certificateId',
+      certificate: 'my certificate',
+      privateKey: 'my private key'
+    });
+    (fs.readFile as jest.Mock).mockReturnValueOnce('ca content');
+
+    await north.start();
+    expect(repositoryService.certificateRepository.findById).toHaveBeenCalledWith('certificateId');
+    expect(encryptionService.decryptText).toHaveBeenCalledWith('my private key');
+    expect(mqtt.connect).toHaveBeenCalledWith(configuration.settings.url, {
+      clientId: configuration.id,
+      rejectUnauthorized: true,
+      connectTimeout: 1000,
+      reconnectPeriod: 1000,
+      cert: 'my certificate',
+      key: 'my private key',
+      ca: 'ca content'
+    });
+  });
+
+  it('should throw an error if the certificate is not found', async () => {
+    (repositoryService.certificateRepository.findById as jest.Mock).mockReturnValueOnce(null);
+
+    await expect(north.createConnectionOptions()).rejects.toThrow(new Error('Certificate certificateId not found'));
+  });
+});
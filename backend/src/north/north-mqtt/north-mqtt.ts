@@ -0,0 +1,155 @@
+import mqtt from 'mqtt';
+import { QoS } from 'mqtt-packet';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import NorthConnector from '../north-connector';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { NorthMqttSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+/**
+ * Class NorthMQTT - Publish values to a MQTT broker
+ */
+export default class NorthMQTT extends NorthConnector<NorthMqttSettings> {
+  static type = manifest.id;
+
+  private client: mqtt.MqttClient | null = null;
+
+  constructor(
+    connector: NorthConnectorDTO<NorthMqttSettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  override async connect(): Promise<void> {
+    this.logger.info(`Connecting to "${this.connector.settings.url}"`);
+    const options = await this.createConnectionOptions();
+
+    this.client = mqtt.connect(this.connector.settings.url, options);
+    this.client.on('connect', () => {
+      this.logger.info(`Connected to ${this.connector.settings.url}`);
+    });
+    this.client.on('error', error => {
+      this.logger.error(`MQTT connection error ${error}`);
+    });
+    // The North cron is created even if the broker is not reachable yet: values will be retried until the client is connected
+    await super.connect();
+  }
+
+  override async disconnect(): Promise<void> {
+    if (this.client) {
+      this.client.end(true);
+      this.logger.info(`Disconnected from ${this.connector.settings.url}...`);
+      this.client = null;
+    }
+    await super.disconnect();
+  }
+
+  override async testConnection(): Promise<void> {
+    const options = await this.createConnectionOptions();
+    return new Promise((resolve, reject) => {
+      const client = mqtt.connect(this.connector.settings.url, options);
+      // The client keeps reconnecting to an unreachable broker without emitting any error
+      const timeout = setTimeout(() => {
+        this.logger.error(`MQTT connection to "${this.connector.settings.url}" timed out`);
+        client.end(true);
+        reject(
+          new Error(`MQTT connection to "${this.connector.settings.url}" timed out after ${this.connector.settings.connectTimeout} ms`)
+        );
+      }, this.connector.settings.connectTimeout);
+      client.on('connect', () => {
+        clearTimeout(timeout);
+        this.logger.info(`Connection test to "${this.connector.settings.url}" successful`);
+        client.end(true);
+        resolve();
+      });
+      client.on('error', error => {
+        clearTimeout(timeout);
+        this.logger.error(`MQTT connection error. ${error}`);
+        client.end(true);
+        reject(new Error(`MQTT connection error. ${error}`));
+      });
+    });
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        throw new Error(`MQTT North connector "${this.connector.name}" does not support files`);
+
+      case 'time-values':
+        return this.handleValues(data.content);
+    }
+  }
+
+  /**
+   * Publish each value on the topic built from the topic template of the connector
+   */
+  async handleValues(values: Array<OIBusTimeValue>): Promise<void> {
+    if (!this.client || !this.client.connected) {
+      throw {
+        message: `MQTT client not connected to "${this.connector.settings.url}"`,
+        retry: true
+      };
+    }
+
+    const qos = parseInt(this.connector.settings.qos) as QoS;
+    for (const value of values) {
+      const topic = this.buildTopic(value);
+      try {
+        await this.client.publishAsync(topic, JSON.stringify(value), { qos });
+      } catch (error) {
+        throw {
+          message: `Could not publish value on topic "${topic}". ${error}`,
+          retry: !this.client || !this.client.connected
+        };
+      }
+    }
+    this.logger.debug(`${values.length} values published on "${this.connector.settings.url}"`);
+  }
+
+  /**
+   * Replace the {pointId} placeholder of the topic template by the point ID of the value
+   */
+  buildTopic(value: OIBusTimeValue): string {
+    return this.connector.settings.topic.replace(/{pointId}/g, value.pointId);
+  }
+
+  async createConnectionOptions(): Promise<mqtt.IClientOptions> {
+    const options: mqtt.IClientOptions = {
+      rejectUnauthorized: this.connector.settings.rejectUnauthorized,
+      reconnectPeriod: this.connector.settings.reconnectPeriod,
+      connectTimeout: this.connector.settings.connectTimeout,
+      clientId: this.connector.id
+    };
+    if (this.connector.settings.authentication.type === 'basic') {
+      options.username = this.connector.settings.authentication.username;
+      options.password = this.connector.settings.authentication.password
+        ? await this.encryptionService.decryptText(this.connector.settings.authentication.password)
+        : '';
+    } else if (this.connector.settings.authentication.type === 'cert') {
+      const certificate = this.repositoryService.certificateRepository.findById(this.connector.settings.authentication.certificateId!);
+      if (!certificate) {
+        throw new Error(`Certificate ${this.connector.settings.authentication.certificateId} not found`);
+      }
+      options.cert = certificate.certificate;
+      options.key = await this.encryptionService.decryptText(certificate.privateKey);
+      if (this.connector.settings.authentication.caFilePath) {
+        options.ca = await fs.readFile(path.resolve(this.connector.settings.authentication.caFilePath));
+      }
+    }
+    if (this.connector.settings.qos === '1' || this.connector.settings.qos === '2') {
+      options.clean = !this.connector.settings.persistent;
+    }
+    return options;
+  }
+}
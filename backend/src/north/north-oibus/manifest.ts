@@ -0,0 +1,107 @@
+import { NorthConnectorManifest } from '../../../../shared/model/north-connector.model';
+import { proxy } from '../../../../shared/model/manifest-factory';
+
+const manifest: NorthConnectorManifest = {
+  id: 'oibus',
+  name: 'OIBus',
+  category: 'oi',
+  description: 'Forward files and values to a North connector of another OIBus',
+  modes: {
+    files: true,
+    points: true
+  },
+  settings: [
+    {
+      key: 'host',
+      type: 'OibText',
+      label: 'Host',
+      defaultValue: 'http://localhost:2223',
+      newRow: true,
+      validators: [
+        { key: 'required' },
+        {
+          key: 'pattern',
+          params: { pattern: '^(http:\\/\\/|https:\\/\\/|HTTP:\\/\\/|HTTPS:\\/\\/).*' }
+        }
+      ],
+      displayInViewMode: true,
+      class: 'col-6'
+    },
+    {
+      key: 'acceptUnauthorized',
+      type: 'OibCheckbox',
+      label: 'Accept unauthorized certificate',
+      validators: [{ key: 'required' }],
+      defaultValue: false,
+      displayInViewMode: true,
+      class: 'col-3'
+    },
+    {
+      key: 'timeout',
+      type: 'OibNumber',
+      label: 'Timeout',
+      defaultValue: 30,
+      unitLabel: 's',
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 1 } }],
+      class: 'col-3'
+    },
+    {
+      key: 'remoteNorthId',
+      type: 'OibText',
+      label: 'Remote North ID',
+      newRow: true,
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
+    },
+    {
+      key: 'authentication',
+      type: 'OibFormGroup',
+      label: 'Authentication',
+      class: 'col',
+      newRow: true,
+      displayInViewMode: false,
+      validators: [{ key: 'required' }],
+      content: [
+        {
+          key: 'type',
+          type: 'OibSelect',
+          label: 'Type',
+          options: ['basic', 'bearer'],
+          pipe: 'authentication',
+          validators: [{ key: 'required' }],
+          defaultValue: 'basic',
+          newRow: true,
+          displayInViewMode: false
+        },
+        {
+          key: 'username',
+          type: 'OibText',
+          label: 'Username',
+          defaultValue: '',
+          validators: [{ key: 'required' }],
+          conditionalDisplay: { field: 'type', values: ['basic'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'password',
+          type: 'OibSecret',
+          label: 'Password',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['basic'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'token',
+          type: 'OibSecret',
+          label: 'Token',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['bearer'] },
+          displayInViewMode: false
+        }
+      ]
+    },
+    ...proxy
+  ]
+};
+
+export default manifest;
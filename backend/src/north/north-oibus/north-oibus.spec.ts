@@ -0,0 +1,278 @@
+import fsSync from 'node:fs';
+
+import NorthOIBus from './north-oibus';
+import pino from 'pino';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import EncryptionService from '../../service/encryption.service';
+import EncryptionServiceMock from '../../tests/__mocks__/encryption-service.mock';
+import RepositoryService from '../../service/repository.service';
+import RepositoryServiceMock from '../../tests/__mocks__/repository-service.mock';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import ValueCacheServiceMock from '../../tests/__mocks__/value-cache-service.mock';
+import FileCacheServiceMock from '../../tests/__mocks__/file-cache-service.mock';
+import ArchiveServiceMock from '../../tests/__mocks__/archive-service.mock';
+import { NorthOIBusSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+import { createProxyAgent } from '../../service/proxy-agent';
+import { filesExists } from '../../service/utils';
+import fetch from 'node-fetch';
+
+jest.mock('node:fs');
+jest.mock('node-fetch');
+const { Response } = jest.requireActual('node-fetch');
+jest.mock('../../service/utils');
+jest.mock('../../service/proxy-agent');
+
+const logger: pino.Logger = new PinoLogger();
+const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+
+jest.mock(
+  '../../service/cache/archive.service',
+  () =>
+    function () {
+      return new ArchiveServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/value-cache.service',
+  () =>
+    function () {
+      return new ValueCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/file-cache.service',
+  () =>
+    function () {
+      return new FileCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/north-connector-metrics.service',
+  () =>
+    function () {
+      return {
+        initMetrics: jest.fn(),
+        updateMetrics: jest.fn(),
+        get stream() {
+          return { stream: 'myStream' };
+        },
+        resetMetrics: jest.fn(),
+        metrics: {
+          numberOfValuesSent: 1,
+          numberOfFilesSent: 1
+        }
+      };
+    }
+);
+
+const myReadStream = {
+  pipe: jest.fn().mockReturnThis(),
+  on: jest.fn(),
+  pause: jest.fn(),
+  close: jest.fn()
+};
+
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const values: Array<OIBusTimeValue> = [
+  {
+    pointId: 'pointId',
+    timestamp: nowDateString,
+    data: { value: '666', quality: 'good' }
+  }
+];
+
+let north: NorthOIBus;
+
+describe('NorthOIBus', () => {
+  const configuration: NorthConnectorDTO<NorthOIBusSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'oibus',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      host: 'https://dmz-oibus:2223/',
+      acceptUnauthorized: true,
+      timeout: 30,
+      remoteNorthId: 'remote north',
+      authentication: {
+        type: 'basic',
+        username: 'admin',
+        password: 'pass'
+      },
+      useProxy: false
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 1000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+  const basicAuthorization = `Basic ${Buffer.from('admin:pass').toString('base64')}`;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    (fsSync.createReadStream as jest.Mock).mockReturnValue(myReadStream);
+    (filesExists as jest.Mock).mockReturnValue(true);
+    (repositoryService.engineRepository.getEngineSettings as jest.Mock).mockReturnValue({ version: '3.4.6' });
+    north = new NorthOIBus(structuredClone(configuration), encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should forward values to the remote North connector', async () => {
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response(null, { status: 204 })));
+
+    await north.handleContent({ type: 'time-values', content: values });
+
+    expect(createProxyAgent).toHaveBeenCalledWith(false, 'https://dmz-oibus:2223/api/add-content?northId=remote%20north', null, true);
+    expect(fetch).toHaveBeenCalledWith('https://dmz-oibus:2223/api/add-content?northId=remote%20north', {
+      method: 'POST',
+      headers: {
+        authorization: basicAuthorization,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ type: 'time-values', content: values }),
+      timeout: 30000,
+      agent: undefined
+    });
+  });
+
+  it('should forward files to the remote North connector', async () => {
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response(null, { status: 204 })));
+
+    await north.handleContent({ type: 'raw', filePath: '/path/to/my-file-123456.csv' });
+
+    expect(fsSync.createReadStream).toHaveBeenCalledWith('/path/to/my-file-123456.csv');
+    expect(fetch).toHaveBeenCalledWith('https://dmz-oibus:2223/api/add-content?northId=remote%20north', {
+      method: 'POST',
+      headers: {
+        authorization: basicAuthorization,
+        'content-type': expect.stringContaining('multipart/form-data; boundary=')
+      },
+      body: expect.anything(),
+      timeout: 30000,
+      agent: undefined
+    });
+    expect(myReadStream.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should classify errors', async () => {
+    (filesExists as jest.Mock).mockReturnValueOnce(false);
+    await expect(north.handleFile('/path/to/file.csv')).rejects.toThrow(new Error('File /path/to/file.csv does not exist'));
+
+    (fetch as unknown as jest.Mock)
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      })
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 400, statusText: 'Bad Request' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 403, statusText: 'Forbidden' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 503, statusText: 'Service Unavailable' }));
+
+    await expect(north.handleFile('/path/to/file')).rejects.toEqual({
+      message: `Fail to reach OIBus endpoint https://dmz-oibus:2223/api/add-content?northId=remote%20north. ${new Error('connection refused')}`,
+      retry: true
+    });
+    expect(myReadStream.close).toHaveBeenCalledTimes(1);
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 400: Bad Request', retry: false });
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 403: Forbidden', retry: false });
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 503: Service Unavailable', retry: true });
+  });
+
+  it('should build authentication headers', async () => {
+    north.settings.settings.authentication = { type: 'basic', username: 'admin', password: null };
+    expect(await north.getHeaders()).toEqual({ authorization: `Basic ${Buffer.from('admin:').toString('base64')}` });
+    north.settings.settings.authentication = { type: 'bearer', token: 'jwt' };
+    expect(await north.getHeaders()).toEqual({ authorization: 'Bearer jwt' });
+    north.settings.settings.authentication = { type: 'bearer', token: null };
+    expect(await north.getHeaders()).toEqual({ authorization: 'Bearer ' });
+  });
+
+  it('should use proxy', async () => {
+    north.settings.settings.useProxy = true;
+    north.settings.settings.proxyUrl = 'http://proxy';
+    north.settings.settings.proxyUsername = 'proxyUser';
+    north.settings.settings.proxyPassword = 'proxyPass';
+    await north.getAgent('https://dmz-oibus:2223/api/info');
+    expect(createProxyAgent).toHaveBeenCalledWith(
+      true,
+      'https://dmz-oibus:2223/api/info',
+      { url: 'http://proxy', username: 'proxyUser', password: 'proxyPass' },
+      true
+    );
+
+    north.settings.settings.proxyPassword = null;
+    await north.getAgent('https://dmz-oibus:2223/api/info');
+    expect(createProxyAgent).toHaveBeenCalledWith(
+      true,
+      'https://dmz-oibus:2223/api/info',
+      { url: 'http://proxy', username: 'proxyUser', password: null },
+      true
+    );
+  });
+
+  it('should test connection', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ version: '3.5.0', oibusName: 'DMZ' }))))
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ name: 'remote', enabled: true }))));
+
+    await expect(north.testConnection()).resolves.not.toThrow();
+    expect(fetch).toHaveBeenCalledWith('https://dmz-oibus:2223/api/info', {
+      method: 'GET',
+      headers: { authorization: basicAuthorization },
+      timeout: 30000,
+      agent: undefined
+    });
+    expect(fetch).toHaveBeenCalledWith('https://dmz-oibus:2223/api/north/remote%20north', {
+      method: 'GET',
+      headers: { authorization: basicAuthorization },
+      timeout: 30000,
+      agent: undefined
+    });
+  });
+
+  it('should fail connection test with incompatible version', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ version: '2.7.3', oibusName: 'DMZ' }))))
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ version: 'unknown', oibusName: 'DMZ' }))));
+
+    await expect(north.testConnection()).rejects.toThrow(new Error('Remote OIBus version 2.7.3 is not compatible with version 3.4.6'));
+    await expect(north.testConnection()).rejects.toThrow(new Error('Remote OIBus version unknown is not compatible with version 3.4.6'));
+  });
+
+  it('should fail connection test with disabled or unknown remote North connector', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ version: 'v3.4.0', oibusName: 'DMZ' }))))
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ name: 'remote', enabled: false }))))
+      .mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify({ version: '3.4.0', oibusName: 'DMZ' }))))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' }));
+
+    await expect(north.testConnection()).rejects.toThrow(new Error('Remote North connector "remote" of OIBus "DMZ" is disabled'));
+    await expect(north.testConnection()).rejects.toThrow(
+      new Error('HTTP request https://dmz-oibus:2223/api/north/remote%20north failed with status code 404 and message: Not Found')
+    );
+  });
+
+  it('should fail connection test when remote OIBus is not reachable', async () => {
+    (fetch as unknown as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('connection refused');
+    });
+
+    await expect(north.testConnection()).rejects.toThrow(new Error(`Fetch error ${new Error('connection refused')}`));
+  });
+});
@@ -0,0 +1,192 @@
+import { createReadStream } from 'node:fs';
+import path from 'node:path';
+import FormData from 'form-data';
+import fetch, { HeadersInit, RequestInit } from 'node-fetch';
+
+import NorthConnector from '../north-connector';
+import { RETRY_STATUS_CODES } from '../http-status-codes';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import { createProxyAgent } from '../../service/proxy-agent';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { filesExists } from '../../service/utils';
+import { NorthOIBusSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusContent, OIBusInfo, OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+/**
+ * Class NorthOIBus - Forward files and values to a North connector of a remote OIBus through its add-content endpoint
+ */
+export default class NorthOIBus extends NorthConnector<NorthOIBusSettings> {
+  static type = manifest.id;
+
+  constructor(
+    connector: NorthConnectorDTO<NorthOIBusSettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  /**
+   * Check the remote OIBus version and the existence of the remote North connector
+   */
+  override async testConnection(): Promise<void> {
+    const infoResponse = await this.get('/api/info');
+    const remoteInfo: OIBusInfo = await infoResponse.json();
+    const localVersion = this.repositoryService.engineRepository.getEngineSettings()!.version;
+    if (!areVersionsCompatible(localVersion, remoteInfo.version)) {
+      throw new Error(`Remote OIBus version ${remoteInfo.version} is not compatible with version ${localVersion}`);
+    }
+
+    const northResponse = await this.get(`/api/north/${encodeURIComponent(this.connector.settings.remoteNorthId)}`);
+    const remoteNorth: NorthConnectorDTO = await northResponse.json();
+    if (!remoteNorth.enabled) {
+      throw new Error(`Remote North connector "${remoteNorth.name}" of OIBus "${remoteInfo.oibusName}" is disabled`);
+    }
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        return this.handleFile(data.filePath);
+
+      case 'time-values':
+        return this.handleValues(data.content);
+    }
+  }
+
+  /**
+   * Send values as a time-values content
+   */
+  async handleValues(values: Array<OIBusTimeValue>): Promise<void> {
+    const content: OIBusContent = { type: 'time-values', content: values };
+    await this.sendContent({
+      method: 'POST',
+      headers: {
+        ...(await this.getHeaders()),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(content)
+    });
+  }
+
+  /**
+   * Send the file in a multipart form, without the timestamp added to its name by the cache: the remote OIBus adds its
+   * own timestamp when caching the file
+   */
+  async handleFile(filePath: string): Promise<void> {
+    if (!(await filesExists(filePath))) {
+      throw new Error(`File ${filePath} does not exist`);
+    }
+
+    const { name, ext } = path.parse(filePath);
+    const readStream = createReadStream(filePath);
+    const body = new FormData();
+    body.append('file', readStream, { filename: `${name.includes('-') ? name.slice(0, name.lastIndexOf('-')) : name}${ext}` });
+
+    try {
+      await this.sendContent({
+        method: 'POST',
+        headers: { ...(await this.getHeaders()), ...body.getHeaders() },
+        body
+      });
+    } finally {
+      readStream.close();
+    }
+  }
+
+  async sendContent(fetchOptions: RequestInit): Promise<void> {
+    const requestUrl = this.buildUrl(`/api/add-content?northId=${encodeURIComponent(this.connector.settings.remoteNorthId)}`);
+
+    let response;
+    try {
+      response = await fetch(requestUrl, {
+        ...fetchOptions,
+        timeout: this.connector.settings.timeout * 1000,
+        agent: await this.getAgent(requestUrl)
+      });
+    } catch (fetchError) {
+      throw {
+        message: `Fail to reach OIBus endpoint ${requestUrl}. ${fetchError}`,
+        retry: true
+      };
+    }
+
+    if (!response.ok) {
+      throw {
+        message: `Error ${response.status}: ${response.statusText}`,
+        retry: RETRY_STATUS_CODES.includes(response.status)
+      };
+    }
+  }
+
+  async get(endpoint: string) {
+    const requestUrl = this.buildUrl(endpoint);
+    let response;
+    try {
+      response = await fetch(requestUrl, {
+        method: 'GET',
+        headers: await this.getHeaders(),
+        timeout: this.connector.settings.timeout * 1000,
+        agent: await this.getAgent(requestUrl)
+      });
+    } catch (error) {
+      throw new Error(`Fetch error ${error}`);
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP request ${requestUrl} failed with status code ${response.status} and message: ${response.statusText}`);
+    }
+    return response;
+  }
+
+  buildUrl(endpoint: string): string {
+    const host = this.connector.settings.host.endsWith('/') ? this.connector.settings.host.slice(0, -1) : this.connector.settings.host;
+    return `${host}${endpoint}`;
+  }
+
+  async getHeaders(): Promise<HeadersInit> {
+    const authentication = this.connector.settings.authentication;
+    switch (authentication.type) {
+      case 'basic':
+        return {
+          authorization: `Basic ${Buffer.from(
+            `${authentication.username}:${authentication.password ? await this.encryptionService.decryptText(authentication.password) : ''}`
+          ).toString('base64')}`
+        };
+      case 'bearer':
+        return {
+          authorization: `Bearer ${authentication.token ? await this.encryptionService.decryptText(authentication.token) : ''}`
+        };
+    }
+  }
+
+  async getAgent(targetUrl: string): Promise<any> {
+    return createProxyAgent(
+      this.connector.settings.useProxy,
+      targetUrl,
+      this.connector.settings.useProxy
+        ? {
+            url: this.connector.settings.proxyUrl!,
+            username: this.connector.settings.proxyUsername!,
+            password: this.connector.settings.proxyPassword
+              ? await this.encryptionService.decryptText(this.connector.settings.proxyPassword)
+              : null
+          }
+        : null,
+      this.connector.settings.acceptUnauthorized
+    );
+  }
+}
+
+/**
+ * The add-content endpoint is stable within a major version: both OIBus must share the same major version
+ */
+const areVersionsCompatible = (localVersion: string, remoteVersion: string): boolean => {
+  const localMajor = parseInt(localVersion.replace(/^v/, '').split('.')[0], 10);
+  const remoteMajor = parseInt(remoteVersion.replace(/^v/, '').split('.')[0], 10);
+  return !isNaN(remoteMajor) && localMajor === remoteMajor;
+};
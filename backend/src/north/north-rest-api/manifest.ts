@@ -0,0 +1,132 @@
+import { NorthConnectorManifest } from '../../../../shared/model/north-connector.model';
+import { proxy } from '../../../../shared/model/manifest-factory';
+
+const manifest: NorthConnectorManifest = {
+  id: 'rest-api',
+  name: 'REST API',
+  category: 'api',
+  description: 'Send files and values to HTTP endpoints',
+  modes: {
+    files: true,
+    points: true
+  },
+  settings: [
+    {
+      key: 'host',
+      type: 'OibText',
+      label: 'Host',
+      defaultValue: 'http://localhost',
+      newRow: true,
+      validators: [
+        { key: 'required' },
+        {
+          key: 'pattern',
+          params: { pattern: '^(http:\\/\\/|https:\\/\\/|HTTP:\\/\\/|HTTPS:\\/\\/).*' }
+        }
+      ],
+      displayInViewMode: true,
+      class: 'col-6'
+    },
+    {
+      key: 'acceptUnauthorized',
+      type: 'OibCheckbox',
+      label: 'Accept unauthorized certificate',
+      validators: [{ key: 'required' }],
+      defaultValue: false,
+      displayInViewMode: true,
+      class: 'col-3'
+    },
+    {
+      key: 'timeout',
+      type: 'OibNumber',
+      label: 'Timeout',
+      defaultValue: 30,
+      unitLabel: 's',
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 1 } }],
+      class: 'col-3'
+    },
+    {
+      key: 'valuesEndpoint',
+      type: 'OibText',
+      label: 'Values endpoint',
+      defaultValue: '/api/values',
+      newRow: true,
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
+    },
+    {
+      key: 'fileEndpoint',
+      type: 'OibText',
+      label: 'File endpoint',
+      defaultValue: '/api/files',
+      validators: [{ key: 'required' }],
+      displayInViewMode: true
+    },
+    ...proxy,
+    {
+      key: 'authentication',
+      type: 'OibFormGroup',
+      label: 'Authentication',
+      class: 'col',
+      newRow: true,
+      displayInViewMode: false,
+      validators: [{ key: 'required' }],
+      content: [
+        {
+          key: 'type',
+          type: 'OibSelect',
+          label: 'Type',
+          options: ['none', 'basic', 'bearer', 'api-key'],
+          pipe: 'authentication',
+          validators: [{ key: 'required' }],
+          defaultValue: 'none',
+          newRow: true,
+          displayInViewMode: false
+        },
+        {
+          key: 'username',
+          type: 'OibText',
+          label: 'Username',
+          defaultValue: '',
+          validators: [{ key: 'required' }],
+          conditionalDisplay: { field: 'type', values: ['basic'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'password',
+          type: 'OibSecret',
+          label: 'Password',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['basic'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'token',
+          type: 'OibSecret',
+          label: 'Token',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['bearer'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'apiKeyHeader',
+          type: 'OibText',
+          label: 'Header',
+          defaultValue: 'X-API-Key',
+          conditionalDisplay: { field: 'type', values: ['api-key'] },
+          displayInViewMode: false
+        },
+        {
+          key: 'apiKey',
+          type: 'OibSecret',
+          label: 'API key',
+          defaultValue: '',
+          conditionalDisplay: { field: 'type', values: ['api-key'] },
+          displayInViewMode: false
+        }
+      ]
+    }
+  ]
+};
+
+export default manifest;
@@ -0,0 +1,283 @@
+import fsSync from 'node:fs';
+
+import NorthRestAPI from './north-rest-api';
+import pino from 'pino';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import EncryptionService from '../../service/encryption.service';
+import EncryptionServiceMock from '../../tests/__mocks__/encryption-service.mock';
+import RepositoryService from '../../service/repository.service';
+import RepositoryServiceMock from '../../tests/__mocks__/repository-service.mock';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import ValueCacheServiceMock from '../../tests/__mocks__/value-cache-service.mock';
+import FileCacheServiceMock from '../../tests/__mocks__/file-cache-service.mock';
+import ArchiveServiceMock from '../../tests/__mocks__/archive-service.mock';
+import { NorthRestAPISettings } from '../../../../shared/model/north-settings.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+import { createProxyAgent } from '../../service/proxy-agent';
+import { filesExists } from '../../service/utils';
+import fetch from 'node-fetch';
+
+jest.mock('node:fs');
+jest.mock('node-fetch');
+const { Response } = jest.requireActual('node-fetch');
+jest.mock('../../service/utils');
+jest.mock('../../service/proxy-agent');
+
+const logger: pino.Logger = new PinoLogger();
+const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+
+jest.mock(
+  '../../service/cache/archive.service',
+  () =>
+    function () {
+      return new ArchiveServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/value-cache.service',
+  () =>
+    function () {
+      return new ValueCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/file-cache.service',
+  () =>
+    function () {
+      return new FileCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/north-connector-metrics.service',
+  () =>
+    function () {
+      return {
+        initMetrics: jest.fn(),
+        updateMetrics: jest.fn(),
+        get stream() {
+          return { stream: 'myStream' };
+        },
+        resetMetrics: jest.fn(),
+        metrics: {
+          numberOfValuesSent: 1,
+          numberOfFilesSent: 1
+        }
+      };
+    }
+);
+
+const myReadStream = {
+  pipe: jest.fn().mockReturnThis(),
+  on: jest.fn(),
+  pause: jest.fn(),
+  close: jest.fn()
+};
+
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const values: Array<OIBusTimeValue> = [
+  {
+    pointId: 'pointId',
+    timestamp: nowDateString,
+    data: { value: '666', quality: 'good' }
+  }
+];
+
+let north: NorthRestAPI;
+
+describe('NorthRestAPI', () => {
+  const configuration: NorthConnectorDTO<NorthRestAPISettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'rest-api',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      host: 'https://hostname/',
+      acceptUnauthorized: false,
+      timeout: 30,
+      valuesEndpoint: '/api/values',
+      fileEndpoint: 'api/files',
+      useProxy: false,
+      authentication: {
+        type: 'basic',
+        username: 'user',
+        password: 'pass'
+      }
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 1000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    (fsSync.createReadStream as jest.Mock).mockReturnValue(myReadStream);
+    (filesExists as jest.Mock).mockReturnValue(true);
+    north = new NorthRestAPI(structuredClone(configuration), encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should send values as JSON', async () => {
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response('Ok')));
+
+    await north.handleContent({ type: 'time-values', content: values });
+
+    expect(createProxyAgent).toHaveBeenCalledWith(false, 'https://hostname/api/values', null, false);
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/values', {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 30000,
+      body: JSON.stringify(values),
+      agent: undefined
+    });
+  });
+
+  it('should classify values errors', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      })
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 400, statusText: 'Bad Request' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 429, statusText: 'Too Many Requests' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 401, statusText: 'Unauthorized' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' }));
+
+    await expect(north.handleValues(values)).rejects.toEqual({
+      message: `Fail to reach values endpoint https://hostname/api/values. ${new Error('connection refused')}`,
+      retry: true
+    });
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 400: Bad Request', retry: false });
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 429: Too Many Requests', retry: true });
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 401: Unauthorized', retry: false });
+    await expect(north.handleValues(values)).rejects.toEqual({ message: 'Error 404: Not Found', retry: false });
+  });
+
+  it('should send files in a multipart form', async () => {
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response('Ok')));
+
+    await north.handleContent({ type: 'raw', filePath: '/path/to/my-file-123456.csv' });
+
+    expect(fsSync.createReadStream).toHaveBeenCalledWith('/path/to/my-file-123456.csv');
+    expect(fetch).toHaveBeenCalledWith('https://hostname/api/files', {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`,
+        'content-type': expect.stringContaining('multipart/form-data; boundary=')
+      },
+      timeout: 30000,
+      body: expect.anything(),
+      agent: undefined
+    });
+    expect(myReadStream.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should classify file errors', async () => {
+    (filesExists as jest.Mock).mockReturnValueOnce(false);
+    await expect(north.handleFile('/path/to/file.csv')).rejects.toThrow(new Error('File /path/to/file.csv does not exist'));
+
+    (fetch as unknown as jest.Mock)
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      })
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 413, statusText: 'Payload Too Large' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 503, statusText: 'Service Unavailable' }));
+
+    await expect(north.handleFile('/path/to/file.csv')).rejects.toEqual({
+      message: `Fail to reach file endpoint https://hostname/api/files. ${new Error('connection refused')}`,
+      retry: true
+    });
+    await expect(north.handleFile('/path/to/file.csv')).rejects.toEqual({ message: 'Error 413: Payload Too Large', retry: false });
+    await expect(north.handleFile('/path/to/file.csv')).rejects.toEqual({ message: 'Error 503: Service Unavailable', retry: true });
+    expect(myReadStream.close).toHaveBeenCalledTimes(3);
+  });
+
+  it('should build authentication headers', async () => {
+    north.settings.settings.authentication = { type: 'none' };
+    expect(await north.getHeaders()).toEqual({});
+    north.settings.settings.authentication = { type: 'basic', username: 'user', password: null };
+    expect(await north.getHeaders()).toEqual({ authorization: `Basic ${Buffer.from('user:').toString('base64')}` });
+    north.settings.settings.authentication = { type: 'bearer', token: 'my token' };
+    expect(await north.getHeaders()).toEqual({ authorization: 'Bearer my token' });
+    north.settings.settings.authentication = { type: 'bearer', token: null };
+    expect(await north.getHeaders()).toEqual({ authorization: 'Bearer ' });
+    north.settings.settings.authentication = { type: 'api-key', apiKeyHeader: 'api-key-header', apiKey: 'key' };
+    expect(await north.getHeaders()).toEqual({ 'api-key-header': 'key' });
+    north.settings.settings.authentication = { type: 'api-key', apiKeyHeader: null, apiKey: null };
+    expect(await north.getHeaders()).toEqual({ 'X-API-Key': '' });
+  });
+
+  it('should use proxy', async () => {
+    north.settings.settings.useProxy = true;
+    north.settings.settings.proxyUrl = 'http://proxy';
+    north.settings.settings.proxyUsername = 'proxyUser';
+    north.settings.settings.proxyPassword = 'proxyPass';
+    await north.getAgent('https://hostname/api/values');
+    expect(createProxyAgent).toHaveBeenCalledWith(
+      true,
+      'https://hostname/api/values',
+      { url: 'http://proxy', username: 'proxyUser', password: 'proxyPass' },
+      false
+    );
+
+    north.settings.settings.proxyPassword = null;
+    await north.getAgent('https://hostname/api/values');
+    expect(createProxyAgent).toHaveBeenCalledWith(
+      true,
+      'https://hostname/api/values',
+      { url: 'http://proxy', username: 'proxyUser', password: null },
+      false
+    );
+  });
+
+  it('should build urls', () => {
+    expect(north.buildUrl('')).toEqual('https://hostname');
+    north.settings.settings.host = 'http://hostname:8080';
+    expect(north.buildUrl('/endpoint')).toEqual('http://hostname:8080/endpoint');
+    expect(north.buildUrl('endpoint')).toEqual('http://hostname:8080/endpoint');
+  });
+
+  it('should test connection', async () => {
+    (fetch as unknown as jest.Mock)
+      .mockReturnValueOnce(Promise.resolve(new Response('Ok')))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 401, statusText: 'Unauthorized' }))
+      .mockReturnValueOnce(Promise.resolve({ ok: false, status: 500, statusText: 'Internal Server Error' }))
+      .mockImplementationOnce(() => {
+        throw new Error('connection refused');
+      });
+
+    await expect(north.testConnection()).resolves.not.toThrow();
+    expect(fetch).toHaveBeenCalledWith('https://hostname', {
+      method: 'GET',
+      headers: { authorization: `Basic ${Buffer.from('user:pass').toString('base64')}` },
+      timeout: 30000,
+      agent: undefined
+    });
+    await expect(north.testConnection()).resolves.not.toThrow();
+    await expect(north.testConnection()).rejects.toThrow(new Error('HTTP request failed with status code 401 and message: Unauthorized'));
+    await expect(north.testConnection()).rejects.toThrow(
+      new Error('HTTP request failed with status code 500 and message: Internal Server Error')
+    );
+    await expect(north.testConnection()).rejects.toThrow(new Error(`Fetch error ${new Error('connection refused')}`));
+  });
+});
@@ -0,0 +1,186 @@
+import { createReadStream } from 'node:fs';
+import path from 'node:path';
+import FormData from 'form-data';
+import fetch, { HeadersInit, RequestInit } from 'node-fetch';
+
+import NorthConnector from '../north-connector';
+import { RETRY_STATUS_CODES } from '../http-status-codes';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import { createProxyAgent } from '../../service/proxy-agent';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { filesExists } from '../../service/utils';
+import { NorthRestAPISettings } from '../../../../shared/model/north-settings.model';
+import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+/**
+ * Class NorthRestAPI - Send files to a POST Multipart HTTP request and values as JSON payload to any HTTP endpoint
+ */
+export default class NorthRestAPI extends NorthConnector<NorthRestAPISettings> {
+  static type = manifest.id;
+
+  constructor(
+    connector: NorthConnectorDTO<NorthRestAPISettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  override async testConnection(): Promise<void> {
+    const requestUrl = this.buildUrl('');
+    const fetchOptions: RequestInit = {
+      method: 'GET',
+      headers: await this.getHeaders(),
+      timeout: this.connector.settings.timeout * 1000,
+      agent: await this.getAgent(requestUrl)
+    };
+
+    let response;
+    try {
+      response = await fetch(requestUrl, fetchOptions);
+    } catch (error) {
+      throw new Error(`Fetch error ${error}`);
+    }
+    // The root of the API may not be served: only authentication and server errors mean the endpoints cannot be used
+    if (response.status === 401 || response.status === 403 || response.status >= 500) {
+      throw new Error(`HTTP request failed with status code ${response.status} and message: ${response.statusText}`);
+    }
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        return this.handleFile(data.filePath);
+
+      case 'time-values':
+        return this.handleValues(data.content);
+    }
+  }
+
+  /**
+   * Send values as a JSON array
+   */
+  async handleValues(values: Array<OIBusTimeValue>): Promise<void> {
+    const valuesUrl = this.buildUrl(this.connector.settings.valuesEndpoint);
+    const fetchOptions: RequestInit = {
+      method: 'POST',
+      headers: {
+        ...(await this.getHeaders()),
+        'Content-Type': 'application/json'
+      },
+      timeout: this.connector.settings.timeout * 1000,
+      body: JSON.stringify(values),
+      agent: await this.getAgent(valuesUrl)
+    };
+
+    let response;
+    try {
+      response = await fetch(valuesUrl, fetchOptions);
+    } catch (fetchError) {
+      throw {
+        message: `Fail to reach values endpoint ${valuesUrl}. ${fetchError}`,
+        retry: true
+      };
+    }
+
+    if (!response.ok) {
+      throw {
+        message: `Error ${response.status}: ${response.statusText}`,
+        retry: RETRY_STATUS_CODES.includes(response.status)
+      };
+    }
+  }
+
+  /**
+   * Send the file in a multipart form, without the timestamp added to its name by the cache
+   */
+  async handleFile(filePath: string): Promise<void> {
+    if (!(await filesExists(filePath))) {
+      throw new Error(`File ${filePath} does not exist`);
+    }
+    const fileUrl = this.buildUrl(this.connector.settings.fileEndpoint);
+
+    const { name, ext } = path.parse(filePath);
+    const readStream = createReadStream(filePath);
+    const body = new FormData();
+    body.append('file', readStream, { filename: `${name.includes('-') ? name.slice(0, name.lastIndexOf('-')) : name}${ext}` });
+
+    let response;
+    try {
+      response = await fetch(fileUrl, {
+        method: 'POST',
+        headers: { ...(await this.getHeaders()), ...body.getHeaders() },
+        timeout: this.connector.settings.timeout * 1000,
+        body,
+        agent: await this.getAgent(fileUrl)
+      });
+    } catch (fetchError) {
+      throw {
+        message: `Fail to reach file endpoint ${fileUrl}. ${fetchError}`,
+        retry: true
+      };
+    } finally {
+      readStream.close();
+    }
+
+    if (!response.ok) {
+      throw {
+        message: `Error ${response.status}: ${response.statusText}`,
+        retry: RETRY_STATUS_CODES.includes(response.status)
+      };
+    }
+  }
+
+  buildUrl(endpoint: string): string {
+    const host = this.connector.settings.host.endsWith('/') ? this.connector.settings.host.slice(0, -1) : this.connector.settings.host;
+    if (!endpoint) {
+      return host;
+    }
+    return `${host}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+  }
+
+  async getHeaders(): Promise<HeadersInit> {
+    const headers: Record<string, string> = {};
+    const authentication = this.connector.settings.authentication;
+    switch (authentication.type) {
+      case 'basic':
+        headers.authorization = `Basic ${Buffer.from(
+          `${authentication.username}:${authentication.password ? await this.encryptionService.decryptText(authentication.password) : ''}`
+        ).toString('base64')}`;
+        break;
+      case 'bearer':
+        headers.authorization = `Bearer ${authentication.token ? await this.encryptionService.decryptText(authentication.token) : ''}`;
+        break;
+      case 'api-key':
+        headers[authentication.apiKeyHeader || 'X-API-Key'] = authentication.apiKey
+          ? await this.encryptionService.decryptText(authentication.apiKey)
+          : '';
+        break;
+      case 'none':
+        break;
+    }
+    return headers;
+  }
+
+  async getAgent(targetUrl: string): Promise<any> {
+    return createProxyAgent(
+      this.connector.settings.useProxy,
+      targetUrl,
+      this.connector.settings.useProxy
+        ? {
+            url: this.connector.settings.proxyUrl!,
+            username: this.connector.settings.proxyUsername!,
+            password: this.connector.settings.proxyPassword
+              ? await this.encryptionService.decryptText(this.connector.settings.proxyPassword)
+              : null
+          }
+        : null,
+      this.connector.settings.acceptUnauthorized
+    );
+  }
+}
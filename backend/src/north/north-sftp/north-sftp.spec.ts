@@ -99,9 +99,11 @@ describe('NorthSFTP', () => {
       retryInterval: 5000,
       retryCount: 2,
       maxSize: 1000,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 10000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       },
       rawFiles: {
         sendFileImmediately: true,
@@ -216,9 +218,11 @@ describe('NorthSFTP without suffix or prefix', () => {
       retryInterval: 5000,
       retryCount: 2,
       maxSize: 1000,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 10000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       },
       rawFiles: {
         sendFileImmediately: true,
@@ -4,54 +4,70 @@ const manifest: NorthConnectorManifest = {
   id: 'timescaledb',
   name: 'TimescaleDB',
   category: 'database',
-  description: 'TimescaleDB description',
+  description: 'Insert values into TimescaleDB tables',
   modes: {
     files: false,
     points: true
   },
   settings: [
     {
-      key: 'username',
+      key: 'host',
       type: 'OibText',
-      label: 'User',
-      defaultValue: '',
+      label: 'Host',
+      defaultValue: 'localhost',
       validators: [{ key: 'required' }],
       displayInViewMode: true
     },
     {
-      key: 'password',
-      type: 'OibSecret',
-      label: 'Password',
-      defaultValue: '',
-      newRow: false,
-      validators: [
-        { key: 'minLength', params: { minLength: 1 } },
-        { key: 'maxLength', params: { maxLength: 255 } }
-      ],
+      key: 'port',
+      type: 'OibNumber',
+      label: 'Port',
+      defaultValue: 5432,
+      class: 'col-2',
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 1 } }, { key: 'max', params: { max: 65535 } }],
+      displayInViewMode: true
+    },
+    {
+      key: 'connectionTimeout',
+      type: 'OibNumber',
+      label: 'Connection timeout',
+      defaultValue: 1000,
+      class: 'col-3',
+      validators: [{ key: 'required' }, { key: 'min', params: { min: 100 } }, { key: 'max', params: { max: 30000 } }],
+      unitLabel: 'ms',
       displayInViewMode: false
     },
     {
-      key: 'host',
+      key: 'database',
       type: 'OibText',
-      label: 'Host',
-      validators: [{ key: 'required' }, { key: 'pattern', params: { pattern: '^(http:\\/\\/|https:\\/\\/|HTTP:\\/\\/|HTTPS:\\/\\/).*' } }],
+      label: 'Database',
+      defaultValue: '',
       newRow: true,
+      validators: [{ key: 'required' }],
       displayInViewMode: true
     },
     {
-      key: 'database',
+      key: 'username',
       type: 'OibText',
-      newRow: false,
-      label: 'Database',
+      label: 'User',
       defaultValue: '',
       validators: [{ key: 'required' }],
       displayInViewMode: true
     },
+    {
+      key: 'password',
+      type: 'OibSecret',
+      label: 'Password',
+      defaultValue: '',
+      newRow: false,
+      displayInViewMode: false
+    },
     {
       key: 'regExp',
       type: 'OibText',
       label: 'RegExp',
       defaultValue: '(.*)',
+      newRow: true,
       validators: [{ key: 'required' }]
     },
     {
@@ -0,0 +1,280 @@
+import pg from 'pg';
+
+import NorthTimescaleDB from './north-timescale-db';
+import pino from 'pino';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import EncryptionService from '../../service/encryption.service';
+import EncryptionServiceMock from '../../tests/__mocks__/encryption-service.mock';
+import RepositoryService from '../../service/repository.service';
+import RepositoryServiceMock from '../../tests/__mocks__/repository-service.mock';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import ValueCacheServiceMock from '../../tests/__mocks__/value-cache-service.mock';
+import FileCacheServiceMock from '../../tests/__mocks__/file-cache-service.mock';
+import ArchiveServiceMock from '../../tests/__mocks__/archive-service.mock';
+import { NorthTimescaleDBSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+jest.mock('pg');
+jest.mock('../../service/utils');
+
+const logger: pino.Logger = new PinoLogger();
+const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+
+jest.mock(
+  '../../service/cache/archive.service',
+  () =>
+    function () {
+      return new ArchiveServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/value-cache.service',
+  () =>
+    function () {
+      return new ValueCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/cache/file-cache.service',
+  () =>
+    function () {
+      return new FileCacheServiceMock();
+    }
+);
+jest.mock(
+  '../../service/north-connector-metrics.service',
+  () =>
+    function () {
+      return {
+        initMetrics: jest.fn(),
+        updateMetrics: jest.fn(),
+        get stream() {
+          return { stream: 'myStream' };
+        },
+        resetMetrics: jest.fn(),
+        metrics: {
+          numberOfValuesSent: 1,
+          numberOfFilesSent: 1
+        }
+      };
+    }
+);
+
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const values: Array<OIBusTimeValue> = [
+  {
+    pointId: 'site1.temperature',
+    timestamp: '2021-07-29T12:13:31.883Z',
+    data: { value: '21.5', quality: 'good', flag: true, nested: { key: 'value' } }
+  },
+  {
+    pointId: 'site2.pressure',
+    timestamp: '2021-07-29T12:13:32.883Z',
+    data: { value: 3, site: 'overridden site' }
+  }
+];
+
+let north: NorthTimescaleDB;
+
+describe('NorthTimescaleDB', () => {
+  const configuration: NorthConnectorDTO<NorthTimescaleDBSettings> = {
+    id: 'northId',
+    name: 'north',
+    type: 'timescaledb',
+    description: 'my test connector',
+    enabled: true,
+    settings: {
+      host: 'localhost',
+      port: 5432,
+      connectionTimeout: 1000,
+      database: 'oibus',
+      username: 'user',
+      password: 'pass',
+      regExp: '(.*)\\.(.*)',
+      table: '%2$s',
+      optFields: 'site:%1$s',
+      timestampPathInDataValue: null,
+      useDataKeyValue: false,
+      keyParentValue: null
+    },
+    caching: {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 2,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 1000,
+        maxSendCount: 10000,
+        storage: 'file'
+      },
+      rawFiles: {
+        sendFileImmediately: true,
+        archive: {
+          enabled: true,
+          retentionDuration: 720
+        }
+      }
+    }
+  };
+  const client = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    end: jest.fn()
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    (pg.Client as unknown as jest.Mock).mockReturnValue(client);
+    north = new NorthTimescaleDB(structuredClone(configuration), encryptionService, repositoryService, logger, 'baseFolder');
+  });
+
+  it('should insert values in a transaction', async () => {
+    await north.handleContent({ type: 'time-values', content: values });
+
+    expect(pg.Client).toHaveBeenCalledWith({
+      host: 'localhost',
+      port: 5432,
+      user: 'user',
+      password: 'pass',
+      database: 'oibus',
+      connectionTimeoutMillis: 1000
+    });
+    expect(client.connect).toHaveBeenCalledTimes(1);
+    expect(client.query).toHaveBeenCalledTimes(4);
+    expect(client.query).toHaveBeenNthCalledWith(1, 'BEGIN');
+    expect(client.query).toHaveBeenNthCalledWith(
+      2,
+      'INSERT INTO "temperature" ("value", "quality", "flag", "site", "timestamp") VALUES ($1, $2, $3, $4, $5);',
+      ['21.5', 'good', true, 'site1', '2021-07-29T12:13:31.883Z']
+    );
+    expect(client.query).toHaveBeenNthCalledWith(3, 'INSERT INTO "pressure" ("value", "site", "timestamp") VALUES ($1, $2, $3);', [
+      3,
+      'overridden site',
+      '2021-07-29T12:13:32.883Z'
+    ]);
+    expect(client.query).toHaveBeenNthCalledWith(4, 'COMMIT');
+    expect(client.end).toHaveBeenCalledTimes(1);
+    expect(logger.debug).toHaveBeenCalledWith('2 values inserted into TimescaleDB database "oibus"');
+  });
+
+  it('should not connect if no value can be inserted', async () => {
+    await north.handleValues([{ pointId: 'no-match', timestamp: nowDateString, data: { value: 1 } }]);
+    expect(logger.error).toHaveBeenCalledWith(`RegExp "${configuration.settings.regExp}" does not match point ID "no-match"`);
+    expect(pg.Client).not.toHaveBeenCalled();
+  });
+
+  it('should throw a retry error if the connection fails', async () => {
+    client.connect.mockImplementationOnce(() => {
+      throw new Error('connection refused');
+    });
+
+    await expect(north.handleValues(values)).rejects.toEqual({
+      message: `Could not connect to TimescaleDB "localhost:5432". ${new Error('connection refused')}`,
+      retry: true
+    });
+    expect(client.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rollback if an insert fails', async () => {
+    client.query
+      .mockImplementationOnce(() => null)
+      .mockImplementationOnce(() => {
+        throw new Error('relation does not exist');
+      });
+
+    await expect(north.handleValues(values)).rejects.toThrow(
+      new Error(`Could not insert values into TimescaleDB. ${new Error('relation does not exist')}`)
+    );
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not handle files', async () => {
+    await expect(north.handleContent({ type: 'raw', filePath: 'myFile' })).rejects.toThrow(
+      new Error(`TimescaleDB North connector "${configuration.name}" does not support files`)
+    );
+  });
+
+  it('should skip values without enough groups', () => {
+    north.settings.settings.regExp = '(.*)';
+    expect(north.createInsertStatement({ pointId: 'a', timestamp: nowDateString, data: { value: 1 } })).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(`RegExp "(.*)" does not return enough groups for the table of "a"`);
+
+    north.settings.settings.table = '%1$s';
+    north.settings.settings.optFields = 'site:%2$s';
+    expect(north.createInsertStatement({ pointId: 'a', timestamp: nowDateString, data: { value: 1 } })).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(`RegExp "(.*)" does not return enough groups for the optional fields of "a"`);
+  });
+
+  it('should use the data key value and its timestamp', () => {
+    north.settings.settings.useDataKeyValue = true;
+    north.settings.settings.keyParentValue = 'level1';
+    north.settings.settings.timestampPathInDataValue = 'date';
+    north.settings.settings.optFields = null;
+    north.settings.settings.table = 'my "table"';
+    const value = {
+      pointId: 'a.b',
+      timestamp: nowDateString,
+      data: { value: { level1: { measure: 12, date: '2021-07-29T12:13:31.883Z' } } }
+    } as unknown as OIBusTimeValue;
+
+    expect(north.createInsertStatement(value)).toEqual({
+      query: 'INSERT INTO "my ""table""" ("measure", "timestamp") VALUES ($1, $2);',
+      params: [12, '2021-07-29T12:13:31.883Z']
+    });
+    north.settings.settings.keyParentValue = 'level1.measure';
+    expect(north.createInsertStatement(value)).toEqual({
+      query: 'INSERT INTO "my ""table""" ("value", "timestamp") VALUES ($1, $2);',
+      params: [12, nowDateString]
+    });
+    expect(logger.debug).toHaveBeenCalledWith(
+      'No valid timestamp at path "date" in the data of "a.b". Timestamp of the value used instead'
+    );
+  });
+
+  it('should fall back to the timestamp of the value when the data value has an invalid timestamp', () => {
+    north.settings.settings.timestampPathInDataValue = 'date';
+    north.settings.settings.optFields = null;
+    north.settings.settings.table = 'table';
+    const value = { pointId: 'a.b', timestamp: nowDateString, data: { value: 12, date: 'not a date' } } as unknown as OIBusTimeValue;
+
+    expect(north.createInsertStatement(value)).toEqual({
+      query: 'INSERT INTO "table" ("value", "date", "timestamp") VALUES ($1, $2, $3);',
+      params: [12, 'not a date', nowDateString]
+    });
+  });
+
+  it('should test connection', async () => {
+    await north.testConnection();
+    expect(client.query).toHaveBeenCalledWith(`SELECT extversion FROM pg_extension WHERE extname = 'timescaledb'`);
+    expect(client.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw an error when querying fails during connection test', async () => {
+    client.query.mockImplementationOnce(() => {
+      throw new Error('query error');
+    });
+    await expect(north.testConnection()).rejects.toThrow(new Error('Unable to query database "oibus". query error'));
+    expect(client.end).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['timeout expired', 'Please check host and port. timeout expired'],
+    ['connect ECONNREFUSED 127.0.0.1:5432', 'Please check host and port. connect ECONNREFUSED 127.0.0.1:5432'],
+    [
+      'password authentication failed for user "user"',
+      'Please check username and password. password authentication failed for user "user"'
+    ],
+    ['database "oibus" does not exist', 'Database "oibus" does not exist. database "oibus" does not exist'],
+    ['other', 'Unexpected error. other']
+  ])('should throw an error when connection test fails with %s', async (message, expected) => {
+    client.connect.mockImplementationOnce(() => {
+      throw new Error(message);
+    });
+    await expect(north.testConnection()).rejects.toThrow(new Error(expected));
+    expect(client.end).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,214 @@
+import * as pg from 'pg';
+import { ClientConfig } from 'pg';
+import { vsprintf } from 'sprintf-js';
+import objectPath from 'object-path';
+import { DateTime } from 'luxon';
+
+import NorthConnector from '../north-connector';
+import manifest from './manifest';
+import { NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
+import EncryptionService from '../../service/encryption.service';
+import RepositoryService from '../../service/repository.service';
+import pino from 'pino';
+import { NorthTimescaleDBSettings } from '../../../../shared/model/north-settings.model';
+import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+interface InsertStatement {
+  query: string;
+  params: Array<string | number | boolean>;
+}
+
+/**
+ * Class NorthTimescaleDB - Insert values into TimescaleDB tables
+ */
+export default class NorthTimescaleDB extends NorthConnector<NorthTimescaleDBSettings> {
+  static type = manifest.id;
+
+  constructor(
+    connector: NorthConnectorDTO<NorthTimescaleDBSettings>,
+    encryptionService: EncryptionService,
+    repositoryService: RepositoryService,
+    logger: pino.Logger,
+    baseFolder: string
+  ) {
+    super(connector, encryptionService, repositoryService, logger, baseFolder);
+  }
+
+  async createConnectionOptions(): Promise<ClientConfig> {
+    return {
+      host: this.connector.settings.host,
+      port: this.connector.settings.port,
+      user: this.connector.settings.username,
+      password: this.connector.settings.password ? await this.encryptionService.decryptText(this.connector.settings.password) : undefined,
+      database: this.connector.settings.database,
+      connectionTimeoutMillis: this.connector.settings.connectionTimeout
+    };
+  }
+
+  override async testConnection(): Promise<void> {
+    const config = await this.createConnectionOptions();
+
+    let connection;
+    try {
+      connection = new pg.Client(config);
+      await connection.connect();
+    } catch (error: any) {
+      if (connection) {
+        await connection.end();
+      }
+
+      if (/(timeout expired)|(^(connect ECONNREFUSED).*)/.test(error.message)) {
+        throw new Error(`Please check host and port. ${error.message}`);
+      }
+
+      switch (error.message) {
+        case `password authentication failed for user "${this.connector.settings.username}"`:
+          throw new Error(`Please check username and password. ${error.message}`);
+
+        case `database "${this.connector.settings.database}" does not exist`:
+          throw new Error(`Database "${this.connector.settings.database}" does not exist. ${error.message}`);
+
+        default:
+          throw new Error(`Unexpected error. ${error.message}`);
+      }
+    }
+
+    try {
+      await connection.query(`SELECT extversion FROM pg_extension WHERE extname = 'timescaledb'`);
+    } catch (error: any) {
+      await connection.end();
+      throw new Error(`Unable to query database "${this.connector.settings.database}". ${error.message}`);
+    }
+    await connection.end();
+  }
+
+  async handleContent(data: OIBusContent): Promise<void> {
+    switch (data.type) {
+      case 'raw':
+        throw new Error(`TimescaleDB North connector "${this.connector.name}" does not support files`);
+
+      case 'time-values':
+        return this.handleValues(data.content);
+    }
+  }
+
+  /**
+   * Insert values in a single transaction
+   */
+  async handleValues(values: Array<OIBusTimeValue>): Promise<void> {
+    const statements: Array<InsertStatement> = [];
+    for (const value of values) {
+      const statement = this.createInsertStatement(value);
+      if (statement) {
+        statements.push(statement);
+      }
+    }
+    if (statements.length === 0) {
+      return;
+    }
+
+    const config = await this.createConnectionOptions();
+    const connection = new pg.Client(config);
+    try {
+      await connection.connect();
+    } catch (error) {
+      await connection.end();
+      throw {
+        message: `Could not connect to TimescaleDB "${this.connector.settings.host}:${this.connector.settings.port}". ${error}`,
+        retry: true
+      };
+    }
+
+    try {
+      await connection.query('BEGIN');
+      for (const statement of statements) {
+        await connection.query(statement.query, statement.params);
+      }
+      await connection.query('COMMIT');
+      this.logger.debug(`${statements.length} values inserted into TimescaleDB database "${this.connector.settings.database}"`);
+    } catch (error) {
+      await connection.query('ROLLBACK');
+      throw new Error(`Could not insert values into TimescaleDB. ${error}`);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Build a parameterized insert statement: the table and the optional fields are built from the groups of the regexp
+   * applied on the point ID, other columns from the data of the value
+   */
+  createInsertStatement(value: OIBusTimeValue): InsertStatement | null {
+    const groups = new RegExp(this.connector.settings.regExp).exec(value.pointId);
+    if (!groups) {
+      this.logger.error(`RegExp "${this.connector.settings.regExp}" does not match point ID "${value.pointId}"`);
+      return null;
+    }
+    // Remove the first element, which is the matched string, because we only need the groups
+    groups.shift();
+
+    const table = vsprintf(this.connector.settings.table, groups);
+    const optFields = this.connector.settings.optFields ? vsprintf(this.connector.settings.optFields, groups) : '';
+    // If there are fewer groups than placeholders, vsprintf puts undefined in place of the missing groups
+    if (countUndefined(table) > countUndefined(this.connector.settings.table)) {
+      this.logger.error(`RegExp "${this.connector.settings.regExp}" does not return enough groups for the table of "${value.pointId}"`);
+      return null;
+    }
+    if (countUndefined(optFields) > countUndefined(this.connector.settings.optFields || '')) {
+      this.logger.error(
+        `RegExp "${this.connector.settings.regExp}" does not return enough groups for the optional fields of "${value.pointId}"`
+      );
+      return null;
+    }
+
+    // Copy the data to not alter the value kept in cache when removing the timestamp field
+    let dataValue = structuredClone(
+      this.connector.settings.useDataKeyValue
+        ? objectPath.get(value.data.value as unknown as object, this.connector.settings.keyParentValue || '')
+        : value.data
+    );
+    if (!dataValue || typeof dataValue !== 'object') {
+      dataValue = { value: dataValue };
+    }
+
+    let timestamp = value.timestamp;
+    if (this.connector.settings.timestampPathInDataValue) {
+      const dataTimestamp = objectPath.get(dataValue, this.connector.settings.timestampPathInDataValue);
+      if (typeof dataTimestamp === 'string' && DateTime.fromISO(dataTimestamp).isValid) {
+        timestamp = dataTimestamp;
+        objectPath.del(dataValue, this.connector.settings.timestampPathInDataValue);
+      } else {
+        this.logger.debug(
+          `No valid timestamp at path "${this.connector.settings.timestampPathInDataValue}" in the data of "${value.pointId}". ` +
+            'Timestamp of the value used instead'
+        );
+      }
+    }
+
+    const columns = new Map<string, string | number | boolean>();
+    for (const [key, fieldValue] of Object.entries(dataValue)) {
+      if (key !== 'timestamp' && ['string', 'number', 'boolean'].includes(typeof fieldValue)) {
+        columns.set(key, fieldValue as string | number | boolean);
+      }
+    }
+    // Optional fields are formatted as column1:value1,column2:value2 and are not overridden by the data of the value
+    for (const optField of optFields.split(',').filter(field => field.includes(':'))) {
+      const [key, ...fieldValue] = optField.split(':');
+      if (!columns.has(key)) {
+        columns.set(key, fieldValue.join(':'));
+      }
+    }
+    columns.set('timestamp', timestamp);
+
+    const columnNames = Array.from(columns.keys()).map(escapeIdentifier);
+    const placeholders = columnNames.map((_column, index) => `$${index + 1}`);
+    return {
+      query: `INSERT INTO ${escapeIdentifier(table)} (${columnNames.join(', ')}) VALUES (${placeholders.join(', ')});`,
+      params: Array.from(columns.values())
+    };
+  }
+}
+
+const countUndefined = (text: string): number => (text.match(/undefined/g) || []).length;
+
+const escapeIdentifier = (identifier: string): string => `"${identifier.replace(/"/g, '""')}"`;
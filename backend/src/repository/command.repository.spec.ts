@@ -57,7 +57,7 @@ describe('Command repository', () => {
     const results = repository.findAll();
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, result, ` +
-      `upgrade_version as version, upgrade_asset_id as assetId FROM commands;`;
+      `upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM commands;`;
     expect(database.prepare).toHaveBeenCalledWith(query);
     expect(results).toEqual(expectedCommands);
   });
@@ -72,7 +72,7 @@ describe('Command repository', () => {
     const results = repository.searchCommandsPage(searchCriteria, 0);
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, ` +
-      `result, upgrade_version as version, upgrade_asset_id as assetId FROM commands WHERE id IS NOT NULL AND ` +
+      `result, upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM commands WHERE id IS NOT NULL AND ` +
       `type IN (?) AND status IN (?) ORDER BY created_at DESC LIMIT 50 OFFSET ?;`;
     expect(database.prepare).toHaveBeenCalledWith(query);
     expect(database.prepare).toHaveBeenCalledWith(
@@ -91,7 +91,7 @@ describe('Command repository', () => {
     const results = repository.searchCommandsList(searchCriteria);
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, ` +
-      `result, upgrade_version as version, upgrade_asset_id as assetId FROM commands WHERE id IS NOT NULL AND ` +
+      `result, upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM commands WHERE id IS NOT NULL AND ` +
       `type IN (?) AND status IN (?) AND ack = ? ORDER BY created_at DESC;`;
     expect(database.prepare).toHaveBeenCalledWith(query);
     expect(results).toEqual(expectedCommands);
@@ -113,10 +113,35 @@ describe('Command repository', () => {
     const result = repository.findById('id2');
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, result, ` +
-      `upgrade_version as version, upgrade_asset_id as assetId FROM commands WHERE id = ?;`;
+      `upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM commands WHERE id = ?;`;
     expect(database.prepare).toHaveBeenCalledWith(query);
     expect(get).toHaveBeenCalledWith('id2');
     expect(result).toEqual(expectedValue);
+
+    get.mockReturnValueOnce(undefined);
+    expect(repository.findById('id3')).toBeNull();
+  });
+
+  it('should properly find South commands by id', () => {
+    const expectedValue: OIBusCommandDTO = {
+      id: 'id1',
+      type: 'WRITE_SOUTH_ITEM',
+      status: 'RETRIEVED',
+      ack: false,
+      southId: 'southId',
+      itemId: 'itemId',
+      value: [1, 2]
+    };
+    get.mockReturnValueOnce({
+      id: 'id1',
+      type: 'WRITE_SOUTH_ITEM',
+      status: 'RETRIEVED',
+      ack: false,
+      version: null,
+      assetId: null,
+      commandContent: JSON.stringify({ southId: 'southId', itemId: 'itemId', value: [1, 2] })
+    });
+    expect(repository.findById('id1')).toEqual(expectedValue);
   });
 
   it('should create a command', () => {
@@ -126,12 +151,51 @@ describe('Command repository', () => {
       version: '3.2.0',
       assetId: 'assetId'
     };
-    repository.create('id1', command);
+    get.mockReturnValueOnce({ id: 'id1', status: 'RETRIEVED', ack: false, ...command, commandContent: null });
+    const result = repository.create('id1', command);
     const insertQuery =
       `INSERT INTO ${COMMANDS_TABLE} (id, retrieved_date, type, status, ack, upgrade_version, ` +
-      `upgrade_asset_id) VALUES (?, ?, ?, ?, ?, ?, ?);`;
+      `upgrade_asset_id, command_content) VALUES (?, ?, ?, ?, ?, ?, ?, ?);`;
     expect(database.prepare).toHaveBeenCalledWith(insertQuery);
-    expect(run).toHaveBeenCalledWith('id1', nowDateString, command.type, 'RETRIEVED', 0, command.version, command.assetId);
+    expect(run).toHaveBeenCalledWith('id1', nowDateString, command.type, 'RETRIEVED', 0, command.version, command.assetId, null);
+    expect(result).toEqual({ id: 'id1', type: 'UPGRADE', status: 'RETRIEVED', ack: false, version: '3.2.0', assetId: 'assetId' });
+  });
+
+  it('should create a South command', () => {
+    run.mockReturnValueOnce({ lastInsertRowid: 1 });
+    const command: OIBusCommand = {
+      type: 'CALL_SOUTH_METHOD',
+      southId: 'southId',
+      objectId: 'ns=3;s=Machine',
+      methodId: 'ns=3;s=Machine.Start',
+      inputArguments: [10, 'fast']
+    };
+    get.mockReturnValueOnce({
+      id: 'id1',
+      type: 'CALL_SOUTH_METHOD',
+      status: 'RETRIEVED',
+      ack: false,
+      version: null,
+      assetId: null,
+      commandContent: JSON.stringify({
+        southId: 'southId',
+        objectId: 'ns=3;s=Machine',
+        methodId: 'ns=3;s=Machine.Start',
+        inputArguments: [10, 'fast']
+      })
+    });
+    const result = repository.create('id1', command);
+    expect(run).toHaveBeenCalledWith(
+      'id1',
+      nowDateString,
+      command.type,
+      'RETRIEVED',
+      0,
+      null,
+      null,
+      JSON.stringify({ southId: 'southId', objectId: 'ns=3;s=Machine', methodId: 'ns=3;s=Machine.Start', inputArguments: [10, 'fast'] })
+    );
+    expect(result).toEqual({ id: 'id1', status: 'RETRIEVED', ack: false, ...command });
   });
 
   it('should mark a command as COMPLETED', () => {
@@ -16,8 +16,11 @@ export default class CommandRepository {
   findAll(): Array<OIBusCommandDTO> {
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, ` +
-      `result, upgrade_version as version, upgrade_asset_id as assetId FROM ${COMMANDS_TABLE};`;
-    return this.database.prepare(query).all() as Array<OIBusCommandDTO>;
+      `result, upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM ${COMMANDS_TABLE};`;
+    return this.database
+      .prepare(query)
+      .all()
+      .map(result => this.toCommandDTO(result));
   }
 
   /**
@@ -37,8 +40,11 @@ export default class CommandRepository {
 
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, result, upgrade_version as version, ` +
-      `upgrade_asset_id as assetId FROM ${COMMANDS_TABLE} ${whereClause} ORDER BY created_at DESC LIMIT ${PAGE_SIZE} OFFSET ?;`;
-    const results: Array<OIBusCommandDTO> = this.database.prepare(query).all(...queryParams, PAGE_SIZE * page) as Array<OIBusCommandDTO>;
+      `upgrade_asset_id as assetId, command_content as commandContent FROM ${COMMANDS_TABLE} ${whereClause} ORDER BY created_at DESC LIMIT ${PAGE_SIZE} OFFSET ?;`;
+    const results: Array<OIBusCommandDTO> = this.database
+      .prepare(query)
+      .all(...queryParams, PAGE_SIZE * page)
+      .map(result => this.toCommandDTO(result));
     const totalElements = (
       this.database.prepare(`SELECT COUNT(*) as count FROM ${COMMANDS_TABLE} ${whereClause}`).get(...queryParams) as { count: number }
     ).count;
@@ -74,29 +80,39 @@ export default class CommandRepository {
 
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, result, ` +
-      `upgrade_version as version, upgrade_asset_id as assetId FROM ${COMMANDS_TABLE} ${whereClause} ORDER BY created_at DESC;`;
-    return this.database.prepare(query).all(...queryParams) as Array<OIBusCommandDTO>;
+      `upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM ${COMMANDS_TABLE} ${whereClause} ORDER BY created_at DESC;`;
+    return this.database
+      .prepare(query)
+      .all(...queryParams)
+      .map(result => this.toCommandDTO(result));
   }
 
   findById(id: string): OIBusCommandDTO | null {
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, result, ` +
-      `upgrade_version as version, upgrade_asset_id as assetId FROM ${COMMANDS_TABLE} WHERE id = ?;`;
-    return this.database.prepare(query).get(id) as OIBusCommandDTO | null;
+      `upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM ${COMMANDS_TABLE} WHERE id = ?;`;
+    const result = this.database.prepare(query).get(id);
+    return result ? this.toCommandDTO(result) : null;
   }
 
   create(id: string, command: OIBusCommand): OIBusCommandDTO {
     const insertQuery =
       `INSERT INTO ${COMMANDS_TABLE} (id, retrieved_date, type, status, ack, upgrade_version, ` +
-      `upgrade_asset_id) VALUES (?, ?, ?, ?, ?, ?, ?);`;
-    const result = this.database
-      .prepare(insertQuery)
-      .run(id, DateTime.now().toUTC().toISO(), command.type, 'RETRIEVED', 0, command.version, command.assetId);
+      `upgrade_asset_id, command_content) VALUES (?, ?, ?, ?, ?, ?, ?, ?);`;
+    const { type, ...commandContent } = command;
+    const result =
+      command.type === 'UPGRADE'
+        ? this.database
+            .prepare(insertQuery)
+            .run(id, DateTime.now().toUTC().toISO(), type, 'RETRIEVED', 0, command.version, command.assetId, null)
+        : this.database
+            .prepare(insertQuery)
+            .run(id, DateTime.now().toUTC().toISO(), type, 'RETRIEVED', 0, null, null, JSON.stringify(commandContent));
 
     const query =
       `SELECT id, type, status, ack, retrieved_date as retrievedDate, completed_date as completedDate, result, ` +
-      `upgrade_version as version, upgrade_asset_id as assetId FROM ${COMMANDS_TABLE} WHERE ROWID = ?;`;
-    return this.database.prepare(query).get(result.lastInsertRowid) as OIBusCommandDTO;
+      `upgrade_version as version, upgrade_asset_id as assetId, command_content as commandContent FROM ${COMMANDS_TABLE} WHERE ROWID = ?;`;
+    return this.toCommandDTO(this.database.prepare(query).get(result.lastInsertRowid));
   }
 
   cancel(id: string): void {
@@ -128,4 +144,12 @@ export default class CommandRepository {
     const query = `DELETE FROM ${COMMANDS_TABLE} WHERE id = ?;`;
     this.database.prepare(query).run(id);
   }
+
+  /**
+   * Upgrade commands are stored in dedicated columns, the content of the other commands is stored as JSON
+   */
+  private toCommandDTO(result: any): OIBusCommandDTO {
+    const { version, assetId, commandContent, ...command } = result;
+    return command.type === 'UPGRADE' ? { ...command, version, assetId } : { ...command, ...JSON.parse(commandContent) };
+  }
 }
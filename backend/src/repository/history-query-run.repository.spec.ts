@@ -0,0 +1,240 @@
+import SqliteDatabaseMock, { all, get, run } from '../tests/__mocks__/database.mock';
+import { Database } from 'better-sqlite3';
+import HistoryQueryRunRepository from './history-query-run.repository';
+import { HistoryQueryRunDTO, HistoryQueryRunIntervalDTO } from '../../../shared/model/history-query.model';
+
+jest.mock('../tests/__mocks__/database.mock');
+jest.mock('../service/utils', () => ({
+  generateRandomId: jest.fn(() => '123456')
+}));
+const nowDateString = '2020-02-02T02:02:02.222Z';
+
+const existingRun: HistoryQueryRunDTO = {
+  id: 'runId1',
+  historyId: 'historyId',
+  status: 'FINISHED',
+  startTime: '2020-02-01T00:00:00.000Z',
+  endTime: '2020-02-02T00:00:00.000Z',
+  runStart: '2020-02-02T01:00:00.000Z',
+  runEnd: '2020-02-02T01:10:00.000Z',
+  error: null
+};
+
+const existingInterval: HistoryQueryRunIntervalDTO = {
+  id: 'intervalId1',
+  runId: 'runId1',
+  itemId: null,
+  startTime: '2020-02-01T00:00:00.000Z',
+  endTime: '2020-02-02T00:00:00.000Z',
+  status: 'DONE',
+  numberOfValues: 2,
+  numberOfFiles: 0,
+  contentByItem: { item1: { numberOfValues: 2, numberOfFiles: 0 } },
+  error: null
+};
+
+let database: Database;
+let repository: HistoryQueryRunRepository;
+describe('History query run repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    database = new SqliteDatabaseMock();
+    database.prepare = jest.fn().mockReturnValue({
+      run,
+      get,
+      all
+    });
+    repository = new HistoryQueryRunRepository(database);
+  });
+
+  it('should get the runs of a history query', () => {
+    all.mockReturnValueOnce([existingRun]);
+    expect(repository.getRuns('historyId')).toEqual([existingRun]);
+    expect(database.prepare).toHaveBeenCalledWith(
+      `SELECT id, history_id AS historyId, status, start_time AS startTime, end_time AS endTime, run_start AS runStart, ` +
+        `run_end AS runEnd, error FROM history_query_runs WHERE history_id = ? ORDER BY run_start DESC;`
+    );
+    expect(all).toHaveBeenCalledWith('historyId');
+  });
+
+  it('should get the last run of a history query', () => {
+    get.mockReturnValueOnce(existingRun).mockReturnValueOnce(undefined);
+    expect(repository.getLastRun('historyId')).toEqual(existingRun);
+    expect(database.prepare).toHaveBeenCalledWith(
+      `SELECT id, history_id AS historyId, status, start_time AS startTime, end_time AS endTime, run_start AS runStart, ` +
+        `run_end AS runEnd, error FROM history_query_runs WHERE history_id = ? ORDER BY run_start DESC LIMIT 1;`
+    );
+    expect(get).toHaveBeenCalledWith('historyId');
+    expect(repository.getLastRun('historyId')).toBeNull();
+  });
+
+  it('should create a run', () => {
+    run.mockReturnValueOnce({ lastInsertRowid: 1 });
+    get.mockReturnValueOnce(existingRun);
+    expect(repository.createRun('historyId', '2020-02-01T00:00:00.000Z', '2020-02-02T00:00:00.000Z')).toEqual(existingRun);
+    expect(database.prepare).toHaveBeenCalledWith(
+      'INSERT INTO history_query_runs (id, history_id, status, start_time, end_time, run_start) VALUES (?, ?, ?, ?, ?, ?);'
+    );
+    expect(run).toHaveBeenCalledWith(
+      '123456',
+      'historyId',
+      'RUNNING',
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z',
+      nowDateString
+    );
+    expect(database.prepare).toHaveBeenCalledWith(
+      'DELETE FROM history_query_run_intervals WHERE run_id IN ' +
+        '(SELECT id FROM history_query_runs WHERE history_id = ? ORDER BY run_start DESC LIMIT -1 OFFSET ?);'
+    );
+    expect(database.prepare).toHaveBeenCalledWith(
+      'DELETE FROM history_query_runs WHERE id IN (SELECT id FROM history_query_runs WHERE history_id = ? ORDER BY run_start DESC LIMIT -1 OFFSET ?);'
+    );
+    expect(run).toHaveBeenCalledWith('historyId', 100);
+    expect(get).toHaveBeenCalledWith(1);
+  });
+
+  it('should update a run', () => {
+    repository.updateRun('runId1', 'ERRORED', 'error');
+    expect(database.prepare).toHaveBeenCalledWith('UPDATE history_query_runs SET status = ?, run_end = ?, error = ? WHERE id = ?;');
+    expect(run).toHaveBeenCalledWith('ERRORED', nowDateString, 'error', 'runId1');
+
+    repository.updateRun('runId1', 'RUNNING', 'error');
+    expect(run).toHaveBeenCalledWith('RUNNING', null, 'error', 'runId1');
+  });
+
+  it('should delete the runs of a history query', () => {
+    repository.deleteRuns('historyId');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'DELETE FROM history_query_run_intervals WHERE run_id IN (SELECT id FROM history_query_runs WHERE history_id = ?);'
+    );
+    expect(database.prepare).toHaveBeenCalledWith('DELETE FROM history_query_runs WHERE history_id = ?;');
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenCalledWith('historyId');
+  });
+
+  it('should get the intervals of a run', () => {
+    all.mockReturnValueOnce([{ ...existingInterval, contentByItem: JSON.stringify(existingInterval.contentByItem) }]);
+    expect(repository.getIntervals('runId1')).toEqual([existingInterval]);
+    expect(database.prepare).toHaveBeenCalledWith(
+      `SELECT id, run_id AS runId, item_id AS itemId, start_time AS startTime, end_time AS endTime, status, number_of_values AS numberOfValues, ` +
+        `number_of_files AS numberOfFiles, content_by_item AS contentByItem, error FROM history_query_run_intervals WHERE run_id = ? ` +
+        `ORDER BY start_time, item_id;`
+    );
+    expect(all).toHaveBeenCalledWith('runId1');
+  });
+
+  it('should create the intervals of a run', () => {
+    (database.transaction as jest.Mock).mockImplementationOnce(callback => {
+      return () => callback();
+    });
+    repository.createIntervals('runId1', 'itemId1', [
+      { start: '2020-02-01T00:00:00.000Z', end: '2020-02-01T12:00:00.000Z' },
+      { start: '2020-02-01T12:00:00.000Z', end: '2020-02-02T00:00:00.000Z' }
+    ]);
+    expect(database.prepare).toHaveBeenCalledWith(
+      `DELETE FROM history_query_run_intervals WHERE run_id = ? AND item_id IS ? AND status = 'PENDING';`
+    );
+    expect(database.prepare).toHaveBeenCalledWith(
+      'INSERT INTO history_query_run_intervals (id, run_id, item_id, start_time, end_time, status) VALUES (?, ?, ?, ?, ?, ?);'
+    );
+    expect(run).toHaveBeenCalledWith('runId1', 'itemId1');
+    expect(run).toHaveBeenCalledWith('123456', 'runId1', 'itemId1', '2020-02-01T00:00:00.000Z', '2020-02-01T12:00:00.000Z', 'PENDING');
+    expect(run).toHaveBeenCalledWith('123456', 'runId1', 'itemId1', '2020-02-01T12:00:00.000Z', '2020-02-02T00:00:00.000Z', 'PENDING');
+  });
+
+  it('should update an interval of a run', () => {
+    const result = {
+      itemId: 'itemId1',
+      interval: { start: '2020-02-01T00:00:00.000Z', end: '2020-02-02T00:00:00.000Z' },
+      numberOfValues: 2,
+      numberOfFiles: 1,
+      contentByItem: { item1: { numberOfValues: 2, numberOfFiles: 0 } },
+      error: null
+    };
+    repository.updateInterval('runId1', result, ['itemId1']);
+    expect(database.prepare).toHaveBeenCalledWith(
+      `UPDATE history_query_run_intervals SET status = ?, number_of_values = ?, number_of_files = ?, content_by_item = ?, error = ? ` +
+        `WHERE run_id = ? AND item_id IS ? AND start_time = ? AND end_time = ? AND status <> 'DONE';`
+    );
+    expect(run).toHaveBeenCalledWith(
+      'DONE',
+      2,
+      1,
+      JSON.stringify(result.contentByItem),
+      null,
+      'runId1',
+      'itemId1',
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z'
+    );
+
+    repository.updateInterval('runId1', { ...result, error: 'query error' }, ['itemId1']);
+    expect(run).toHaveBeenCalledWith(
+      'ERRORED',
+      2,
+      1,
+      JSON.stringify(result.contentByItem),
+      'query error',
+      'runId1',
+      'itemId1',
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z'
+    );
+
+    repository.updateInterval('runId1', { ...result, itemId: null }, ['itemId1', 'itemId2']);
+    expect(run).toHaveBeenCalledWith(
+      'DONE',
+      2,
+      1,
+      JSON.stringify(result.contentByItem),
+      null,
+      'runId1',
+      null,
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z'
+    );
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('should record a failed interval of items queried together once per item', () => {
+    (database.transaction as jest.Mock).mockImplementationOnce(callback => {
+      return () => callback();
+    });
+    const result = {
+      itemId: null,
+      interval: { start: '2020-02-01T00:00:00.000Z', end: '2020-02-02T00:00:00.000Z' },
+      numberOfValues: 0,
+      numberOfFiles: 0,
+      contentByItem: {},
+      error: 'query error'
+    };
+    repository.updateInterval('runId1', result, ['itemId1', 'itemId2']);
+    expect(database.prepare).toHaveBeenCalledWith(
+      `DELETE FROM history_query_run_intervals WHERE run_id = ? AND item_id IS NULL AND start_time = ? AND end_time = ? AND status <> 'DONE';`
+    );
+    expect(database.prepare).toHaveBeenCalledWith(
+      'INSERT INTO history_query_run_intervals (id, run_id, item_id, start_time, end_time, status, error) VALUES (?, ?, ?, ?, ?, ?, ?);'
+    );
+    expect(run).toHaveBeenCalledWith('runId1', '2020-02-01T00:00:00.000Z', '2020-02-02T00:00:00.000Z');
+    expect(run).toHaveBeenCalledWith(
+      '123456',
+      'runId1',
+      'itemId1',
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z',
+      'ERRORED',
+      'query error'
+    );
+    expect(run).toHaveBeenCalledWith(
+      '123456',
+      'runId1',
+      'itemId2',
+      '2020-02-01T00:00:00.000Z',
+      '2020-02-02T00:00:00.000Z',
+      'ERRORED',
+      'query error'
+    );
+  });
+});
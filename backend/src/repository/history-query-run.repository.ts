@@ -0,0 +1,173 @@
+import { DateTime } from 'luxon';
+import { Database } from 'better-sqlite3';
+import { generateRandomId } from '../service/utils';
+import { HistoryQueryRunDTO, HistoryQueryRunIntervalDTO, HistoryQueryRunStatus } from '../../../shared/model/history-query.model';
+import { Instant, Interval } from '../../../shared/model/types';
+import { HistoryIntervalResult } from '../south/south-interface';
+
+export const HISTORY_QUERY_RUNS_TABLE = 'history_query_runs';
+export const HISTORY_QUERY_RUN_INTERVALS_TABLE = 'history_query_run_intervals';
+// Number of runs kept for each History query, with their intervals. A scheduled History query starts a run at each
+// occurrence of its scan mode, so the oldest runs are removed
+export const MAX_RUNS_PER_HISTORY_QUERY = 100;
+
+interface HistoryQueryRunIntervalResult {
+  id: string;
+  runId: string;
+  itemId: string | null;
+  startTime: Instant;
+  endTime: Instant;
+  status: HistoryQueryRunIntervalDTO['status'];
+  numberOfValues: number;
+  numberOfFiles: number;
+  contentByItem: string;
+  error: string | null;
+}
+
+/**
+ * Repository used for the run history of History queries
+ */
+export default class HistoryQueryRunRepository {
+  constructor(private readonly database: Database) {}
+
+  /**
+   * Get the runs of a History query, the most recent first
+   */
+  getRuns(historyId: string): Array<HistoryQueryRunDTO> {
+    const query =
+      `SELECT id, history_id AS historyId, status, start_time AS startTime, end_time AS endTime, run_start AS runStart, ` +
+      `run_end AS runEnd, error FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE history_id = ? ORDER BY run_start DESC;`;
+    return this.database.prepare(query).all(historyId) as Array<HistoryQueryRunDTO>;
+  }
+
+  /**
+   * Get the most recent run of a History query
+   */
+  getLastRun(historyId: string): HistoryQueryRunDTO | null {
+    const query =
+      `SELECT id, history_id AS historyId, status, start_time AS startTime, end_time AS endTime, run_start AS runStart, ` +
+      `run_end AS runEnd, error FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE history_id = ? ORDER BY run_start DESC LIMIT 1;`;
+    const result = this.database.prepare(query).get(historyId) as HistoryQueryRunDTO | undefined;
+    return result || null;
+  }
+
+  /**
+   * Create a running run extracting the window between startTime and endTime, and remove the runs older than the last
+   * MAX_RUNS_PER_HISTORY_QUERY runs
+   */
+  createRun(historyId: string, startTime: Instant, endTime: Instant): HistoryQueryRunDTO {
+    const insertQuery = `INSERT INTO ${HISTORY_QUERY_RUNS_TABLE} (id, history_id, status, start_time, end_time, run_start) VALUES (?, ?, ?, ?, ?, ?);`;
+    const insertResult = this.database
+      .prepare(insertQuery)
+      .run(generateRandomId(6), historyId, 'RUNNING', startTime, endTime, DateTime.now().toUTC().toISO());
+    this.deleteOldRuns(historyId);
+
+    const query =
+      `SELECT id, history_id AS historyId, status, start_time AS startTime, end_time AS endTime, run_start AS runStart, ` +
+      `run_end AS runEnd, error FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE ROWID = ?;`;
+    return this.database.prepare(query).get(insertResult.lastInsertRowid) as HistoryQueryRunDTO;
+  }
+
+  /**
+   * Update the status of a run. The end of the run is set once it is no longer running
+   */
+  updateRun(id: string, status: HistoryQueryRunStatus, error: string | null): void {
+    const query = `UPDATE ${HISTORY_QUERY_RUNS_TABLE} SET status = ?, run_end = ?, error = ? WHERE id = ?;`;
+    this.database.prepare(query).run(status, status === 'RUNNING' ? null : DateTime.now().toUTC().toISO(), error, id);
+  }
+
+  /**
+   * Delete the runs of a History query, with their intervals
+   */
+  deleteRuns(historyId: string): void {
+    this.database
+      .prepare(
+        `DELETE FROM ${HISTORY_QUERY_RUN_INTERVALS_TABLE} WHERE run_id IN (SELECT id FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE history_id = ?);`
+      )
+      .run(historyId);
+    const query = `DELETE FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE history_id = ?;`;
+    this.database.prepare(query).run(historyId);
+  }
+
+  private deleteOldRuns(historyId: string): void {
+    const oldRuns = `SELECT id FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE history_id = ? ORDER BY run_start DESC LIMIT -1 OFFSET ?`;
+    this.database
+      .prepare(`DELETE FROM ${HISTORY_QUERY_RUN_INTERVALS_TABLE} WHERE run_id IN (${oldRuns});`)
+      .run(historyId, MAX_RUNS_PER_HISTORY_QUERY);
+    this.database.prepare(`DELETE FROM ${HISTORY_QUERY_RUNS_TABLE} WHERE id IN (${oldRuns});`).run(historyId, MAX_RUNS_PER_HISTORY_QUERY);
+  }
+
+  /**
+   * Get the intervals queried by a run, in chronological order
+   */
+  getIntervals(runId: string): Array<HistoryQueryRunIntervalDTO> {
+    const query =
+      `SELECT id, run_id AS runId, item_id AS itemId, start_time AS startTime, end_time AS endTime, status, number_of_values AS numberOfValues, ` +
+      `number_of_files AS numberOfFiles, content_by_item AS contentByItem, error FROM ${HISTORY_QUERY_RUN_INTERVALS_TABLE} WHERE run_id = ? ` +
+      `ORDER BY start_time, item_id;`;
+    const results = this.database.prepare(query).all(runId) as Array<HistoryQueryRunIntervalResult>;
+    return results.map(result => ({ ...result, contentByItem: JSON.parse(result.contentByItem) }));
+  }
+
+  /**
+   * Store the intervals to query for an item, or for all the items when itemId is null. The intervals still pending are
+   * replaced: when a run resumes, its intervals are generated again from the last instant retrieved
+   */
+  createIntervals(runId: string, itemId: string | null, intervals: Array<Interval>): void {
+    const remove = this.database.prepare(
+      `DELETE FROM ${HISTORY_QUERY_RUN_INTERVALS_TABLE} WHERE run_id = ? AND item_id IS ? AND status = 'PENDING';`
+    );
+    const insert = this.database.prepare(
+      `INSERT INTO ${HISTORY_QUERY_RUN_INTERVALS_TABLE} (id, run_id, item_id, start_time, end_time, status) VALUES (?, ?, ?, ?, ?, ?);`
+    );
+
+    const transaction = this.database.transaction(() => {
+      remove.run(runId, itemId);
+      for (const interval of intervals) {
+        insert.run(generateRandomId(6), runId, itemId, interval.start, interval.end, 'PENDING');
+      }
+    });
+    transaction();
+  }
+
+  /**
+   * Store the content retrieved by an interval once queried, or queried again when it failed. An interval of items
+   * queried together that fails is recorded once per item, so that each item can be retried on its own
+   */
+  updateInterval(runId: string, result: HistoryIntervalResult, itemIds: Array<string>): void {
+    if (result.error && result.itemId === null) {
+      const remove = this.database.prepare(
+        `DELETE FROM ${HISTORY_QUERY_RUN_INTERVALS_TABLE} WHERE run_id = ? AND item_id IS NULL AND start_time = ? AND end_time = ? AND status <> 'DONE';`
+      );
+      const insert = this.database.prepare(
+        `INSERT INTO ${HISTORY_QUERY_RUN_INTERVALS_TABLE} (id, run_id, item_id, start_time, end_time, status, error) VALUES (?, ?, ?, ?, ?, ?, ?);`
+      );
+
+      const transaction = this.database.transaction(() => {
+        remove.run(runId, result.interval.start, result.interval.end);
+        for (const itemId of itemIds) {
+          insert.run(generateRandomId(6), runId, itemId, result.interval.start, result.interval.end, 'ERRORED', result.error);
+        }
+      });
+      transaction();
+      return;
+    }
+
+    const query =
+      `UPDATE ${HISTORY_QUERY_RUN_INTERVALS_TABLE} SET status = ?, number_of_values = ?, number_of_files = ?, content_by_item = ?, error = ? ` +
+      `WHERE run_id = ? AND item_id IS ? AND start_time = ? AND end_time = ? AND status <> 'DONE';`;
+    this.database
+      .prepare(query)
+      .run(
+        result.error ? 'ERRORED' : 'DONE',
+        result.numberOfValues,
+        result.numberOfFiles,
+        JSON.stringify(result.contentByItem),
+        result.error,
+        runId,
+        result.itemId,
+        result.interval.start,
+        result.interval.end
+      );
+  }
+}
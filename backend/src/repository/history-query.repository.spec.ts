@@ -20,6 +20,7 @@ describe('History Query repository', () => {
       get,
       all
     });
+    database.transaction = jest.fn().mockImplementation(callback => callback);
     repository = new HistoryQueryRepository(database);
   });
 
@@ -40,6 +41,14 @@ describe('History Query repository', () => {
         endTime: '2023-02-01T00:00:00.000Z',
         southType: 'SQL',
         northType: 'OIConnect',
+        northId: null,
+        schedule: {
+          enabled: false,
+          scanModeId: null,
+          windowDuration: 1,
+          windowUnit: 'day',
+          timezone: 'UTC'
+        },
         southSettings: {},
         southSharedConnection: false,
         northSettings: {},
@@ -48,9 +57,11 @@ describe('History Query repository', () => {
           retryInterval: 5000,
           retryCount: 3,
           maxSize: 10000,
+          overflowPolicy: 'drop-newest',
           oibusTimeValues: {
             groupCount: 1000,
-            maxSendCount: 10000
+            maxSendCount: 10000,
+            storage: 'file'
           },
           rawFiles: {
             sendFileImmediately: false,
@@ -59,7 +70,33 @@ describe('History Query repository', () => {
               retentionDuration: 1000
             }
           }
-        }
+        },
+        additionalNorths: [
+          {
+            id: 'targetId1',
+            northType: 'AmazonS3',
+            northSettings: { bucket: 'bucket' },
+            caching: {
+              scanModeId: 'scanId1',
+              retryInterval: 1000,
+              retryCount: 2,
+              maxSize: 500,
+              overflowPolicy: 'stop',
+              oibusTimeValues: {
+                groupCount: 100,
+                maxSendCount: 1000,
+                storage: 'sqlite'
+              },
+              rawFiles: {
+                sendFileImmediately: true,
+                archive: {
+                  enabled: false,
+                  retentionDuration: 0
+                }
+              }
+            }
+          }
+        ]
       },
       {
         id: 'id2',
@@ -76,6 +113,14 @@ describe('History Query repository', () => {
         endTime: '2023-02-01T00:00:00.000Z',
         southType: 'SQL',
         northType: 'OIConnect',
+        northId: null,
+        schedule: {
+          enabled: false,
+          scanModeId: null,
+          windowDuration: 1,
+          windowUnit: 'day',
+          timezone: 'UTC'
+        },
         southSettings: {},
         southSharedConnection: false,
         northSettings: {},
@@ -84,9 +129,11 @@ describe('History Query repository', () => {
           retryInterval: 5000,
           retryCount: 3,
           maxSize: 10000,
+          overflowPolicy: 'drop-newest',
           oibusTimeValues: {
             groupCount: 1000,
-            maxSendCount: 10000
+            maxSendCount: 10000,
+            storage: 'file'
           },
           rawFiles: {
             sendFileImmediately: false,
@@ -95,7 +142,8 @@ describe('History Query repository', () => {
               retentionDuration: 1000
             }
           }
-        }
+        },
+        additionalNorths: []
       }
     ];
     all.mockReturnValueOnce([
@@ -111,6 +159,12 @@ describe('History Query repository', () => {
         endTime: '2023-02-01T00:00:00.000Z',
         southType: 'SQL',
         northType: 'OIConnect',
+        northId: null,
+        scheduleEnabled: 0,
+        scheduleScanModeId: null,
+        scheduleWindowDuration: 1,
+        scheduleWindowUnit: 'day',
+        scheduleTimezone: 'UTC',
         southSettings: JSON.stringify({}),
         northSettings: JSON.stringify({}),
         cachingScanModeId: 'scanId1',
@@ -118,8 +172,10 @@ describe('History Query repository', () => {
         cachingRetryCount: 3,
         cachingGroupCount: 1000,
         cachingMaxSendCount: 10000,
+        cachingValuesStorage: 'file',
         cachingSendFileImmediately: false,
         cachingMaxSize: 10000,
+        cachingOverflowPolicy: 'drop-newest',
         archiveEnabled: true,
         archiveRetentionDuration: 1000
       },
@@ -135,6 +191,12 @@ describe('History Query repository', () => {
         endTime: '2023-02-01T00:00:00.000Z',
         southType: 'SQL',
         northType: 'OIConnect',
+        northId: null,
+        scheduleEnabled: 0,
+        scheduleScanModeId: null,
+        scheduleWindowDuration: 1,
+        scheduleWindowUnit: 'day',
+        scheduleTimezone: 'UTC',
         southSettings: JSON.stringify({}),
         northSettings: JSON.stringify({}),
         cachingScanModeId: 'scanId1',
@@ -142,22 +204,54 @@ describe('History Query repository', () => {
         cachingRetryCount: 3,
         cachingGroupCount: 1000,
         cachingMaxSendCount: 10000,
+        cachingValuesStorage: 'file',
         cachingSendFileImmediately: false,
         cachingMaxSize: 10000,
+        cachingOverflowPolicy: 'drop-newest',
         archiveEnabled: true,
         archiveRetentionDuration: 1000
       }
     ]);
+    all.mockReturnValueOnce([
+      {
+        id: 'targetId1',
+        northType: 'AmazonS3',
+        northSettings: JSON.stringify({ bucket: 'bucket' }),
+        cachingScanModeId: 'scanId1',
+        cachingRetryInterval: 1000,
+        cachingRetryCount: 2,
+        cachingGroupCount: 100,
+        cachingMaxSendCount: 1000,
+        cachingValuesStorage: 'sqlite',
+        cachingSendFileImmediately: true,
+        cachingMaxSize: 500,
+        cachingOverflowPolicy: 'stop',
+        archiveEnabled: false,
+        archiveRetentionDuration: 0
+      }
+    ]);
+    all.mockReturnValueOnce([]);
     const southConnectors = repository.getHistoryQueries();
     expect(database.prepare).toHaveBeenCalledWith(
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
         `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-        `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+        `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
         `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-        `archive_retention_duration AS archiveRetentionDuration FROM history_queries;`
+        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+        `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+        `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+        `FROM history_queries;`
+    );
+    expect(database.prepare).toHaveBeenCalledWith(
+      `SELECT id, north_type AS northType, north_settings AS northSettings, caching_scan_mode_id AS cachingScanModeId, ` +
+        `caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, caching_retry_count AS cachingRetryCount, ` +
+        `caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, ` +
+        `archive_enabled AS archiveEnabled, archive_retention_duration AS archiveRetentionDuration FROM history_query_norths WHERE history_id = ?;`
     );
+    expect(all).toHaveBeenCalledWith('id1');
+    expect(all).toHaveBeenCalledWith('id2');
     expect(southConnectors).toEqual(expectedValue);
   });
 
@@ -177,6 +271,14 @@ describe('History Query repository', () => {
       endTime: '2023-02-01T00:00:00.000Z',
       southType: 'SQL',
       northType: 'OIConnect',
+      northId: null,
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
       southSettings: {},
       southSharedConnection: false,
       northSettings: {},
@@ -185,9 +287,11 @@ describe('History Query repository', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 10000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -196,7 +300,8 @@ describe('History Query repository', () => {
             retentionDuration: 1000
           }
         }
-      }
+      },
+      additionalNorths: []
     };
     get.mockReturnValueOnce({
       id: 'id1',
@@ -210,6 +315,12 @@ describe('History Query repository', () => {
       endTime: '2023-02-01T00:00:00.000Z',
       southType: 'SQL',
       northType: 'OIConnect',
+      northId: null,
+      scheduleEnabled: 0,
+      scheduleScanModeId: null,
+      scheduleWindowDuration: 1,
+      scheduleWindowUnit: 'day',
+      scheduleTimezone: 'UTC',
       southSettings: JSON.stringify({}),
       northSettings: JSON.stringify({}),
       cachingScanModeId: 'scanId1',
@@ -217,22 +328,28 @@ describe('History Query repository', () => {
       cachingRetryCount: 3,
       cachingGroupCount: 1000,
       cachingMaxSendCount: 10000,
+      cachingValuesStorage: 'file',
       cachingSendFileImmediately: false,
       cachingMaxSize: 10000,
+      cachingOverflowPolicy: 'drop-newest',
       archiveEnabled: true,
       archiveRetentionDuration: 1000
     });
+    all.mockReturnValueOnce([]);
     const historyQuery = repository.getHistoryQuery('id1');
     expect(database.prepare).toHaveBeenCalledWith(
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
         `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-        `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+        `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
         `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-        `archive_retention_duration AS archiveRetentionDuration FROM history_queries WHERE id = ?;`
+        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+        `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+        `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+        `FROM history_queries WHERE id = ?;`
     );
     expect(get).toHaveBeenCalledWith('id1');
+    expect(all).toHaveBeenCalledWith('id1');
     expect(historyQuery).toEqual(expectedValue);
   });
 
@@ -242,11 +359,13 @@ describe('History Query repository', () => {
     expect(database.prepare).toHaveBeenCalledWith(
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
         `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-        `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+        `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
         `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-        `archive_retention_duration AS archiveRetentionDuration FROM history_queries WHERE id = ?;`
+        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+        `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+        `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+        `FROM history_queries WHERE id = ?;`
     );
     expect(get).toHaveBeenCalledWith('id1');
     expect(historyQuery).toEqual(null);
@@ -266,6 +385,14 @@ describe('History Query repository', () => {
       endTime: '2023-02-01T00:00:00.000Z',
       southType: 'SQL',
       northType: 'OIConnect',
+      northId: null,
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
+      },
       southSettings: {},
       southSharedConnection: false,
       northSettings: {},
@@ -274,9 +401,11 @@ describe('History Query repository', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 10000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -285,7 +414,57 @@ describe('History Query repository', () => {
             retentionDuration: 1000
           }
         }
-      }
+      },
+      additionalNorths: [
+        {
+          id: 'targetId1',
+          northType: 'AmazonS3',
+          northSettings: { bucket: 'bucket' },
+          caching: {
+            scanModeId: 'scanId1',
+            retryInterval: 1000,
+            retryCount: 2,
+            maxSize: 500,
+            overflowPolicy: 'stop',
+            oibusTimeValues: {
+              groupCount: 100,
+              maxSendCount: 1000,
+              storage: 'sqlite'
+            },
+            rawFiles: {
+              sendFileImmediately: true,
+              archive: {
+                enabled: false,
+                retentionDuration: 0
+              }
+            }
+          }
+        },
+        {
+          id: null,
+          northType: 'OIAnalytics',
+          northSettings: {},
+          caching: {
+            scanModeId: 'scanId2',
+            retryInterval: 2000,
+            retryCount: 3,
+            maxSize: 0,
+            overflowPolicy: 'drop-oldest',
+            oibusTimeValues: {
+              groupCount: 10,
+              maxSendCount: 100,
+              storage: 'file'
+            },
+            rawFiles: {
+              sendFileImmediately: false,
+              archive: {
+                enabled: true,
+                retentionDuration: 72
+              }
+            }
+          }
+        }
+      ]
     };
 
     const result = {
@@ -300,6 +479,12 @@ describe('History Query repository', () => {
       endTime: '2023-02-01T00:00:00.000Z',
       southType: 'SQL',
       northType: 'OIConnect',
+      northId: null,
+      scheduleEnabled: 0,
+      scheduleScanModeId: null,
+      scheduleWindowDuration: 1,
+      scheduleWindowUnit: 'day',
+      scheduleTimezone: 'UTC',
       southSettings: JSON.stringify({}),
       northSettings: JSON.stringify({}),
       cachingScanModeId: 'scanId1',
@@ -307,21 +492,25 @@ describe('History Query repository', () => {
       cachingRetryCount: 3,
       cachingGroupCount: 1000,
       cachingMaxSendCount: 10000,
+      cachingValuesStorage: 'file',
       cachingSendFileImmediately: false,
       cachingMaxSize: 10000,
+      cachingOverflowPolicy: 'drop-newest',
       archiveEnabled: true,
       archiveRetentionDuration: 1000
     };
     const runFn = jest.fn(() => ({ lastInsertRowId: 1 }));
     const getFn = jest.fn(() => result);
-    database.prepare = jest.fn().mockReturnValueOnce({ run: runFn }).mockReturnValueOnce({ get: getFn });
+    database.prepare = jest.fn().mockReturnValueOnce({ run: runFn }).mockReturnValueOnce({ get: getFn }).mockReturnValue({ run, get, all });
+    all.mockReturnValueOnce([]);
     repository.createHistoryQuery(command);
     expect(generateRandomId).toHaveBeenCalledWith(6);
     expect(database.prepare).toHaveBeenCalledWith(
       `INSERT INTO history_queries (id, name, description, status, history_max_instant_per_item, history_max_read_interval, ` +
-        `history_read_delay, start_time, end_time, south_type, north_type, south_settings, south_shared_connection, north_settings, caching_scan_mode_id, caching_group_count, ` +
-        `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_send_file_immediately, caching_max_size, archive_enabled, ` +
-        `archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        `history_read_delay, start_time, end_time, south_type, north_type, north_id, south_settings, south_shared_connection, north_settings, caching_scan_mode_id, caching_group_count, ` +
+        `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, caching_send_file_immediately, caching_max_size, caching_overflow_policy, archive_enabled, ` +
+        `archive_retention_duration, schedule_enabled, schedule_scan_mode_id, schedule_window_duration, schedule_window_unit, schedule_timezone) ` +
+        `VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     expect(runFn).toHaveBeenCalledWith(
       '123456',
@@ -335,6 +524,7 @@ describe('History Query repository', () => {
       command.endTime,
       command.southType,
       command.northType,
+      command.northId,
       JSON.stringify(command.southSettings),
       +command.southSharedConnection,
       JSON.stringify(command.northSettings),
@@ -343,20 +533,78 @@ describe('History Query repository', () => {
       command.caching.retryInterval,
       command.caching.retryCount,
       command.caching.oibusTimeValues.maxSendCount,
+      command.caching.oibusTimeValues.storage,
       +command.caching.rawFiles.sendFileImmediately,
       command.caching.maxSize,
+      command.caching.overflowPolicy,
       +command.caching.rawFiles.archive.enabled,
-      command.caching.rawFiles.archive.retentionDuration
+      command.caching.rawFiles.archive.retentionDuration,
+      0,
+      null,
+      1,
+      'day',
+      'UTC'
     );
 
     expect(database.prepare).toHaveBeenCalledWith(
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
         `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-        `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+        `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
         `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-        `archive_retention_duration AS archiveRetentionDuration FROM history_queries WHERE ROWID = ?;`
+        `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+        `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+        `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+        `FROM history_queries WHERE ROWID = ?;`
+    );
+    // The targets of a duplicated history query are created again
+    expect(database.prepare).toHaveBeenCalledWith('DELETE FROM history_query_norths WHERE history_id = ? AND id NOT IN ();');
+    expect(run).toHaveBeenCalledWith('id1');
+    expect(database.prepare).toHaveBeenCalledWith(
+      `INSERT INTO history_query_norths (id, history_id, north_type, north_settings, caching_scan_mode_id, caching_group_count, ` +
+        `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, caching_send_file_immediately, caching_max_size, ` +
+        `caching_overflow_policy, archive_enabled, archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`
+    );
+    expect(run).toHaveBeenCalledWith(
+      '123456',
+      'id1',
+      'AmazonS3',
+      JSON.stringify({ bucket: 'bucket' }),
+      'scanId1',
+      100,
+      1000,
+      2,
+      1000,
+      'sqlite',
+      1,
+      500,
+      'stop',
+      0,
+      0
+    );
+    expect(run).toHaveBeenCalledWith(
+      '123456',
+      'id1',
+      'OIAnalytics',
+      JSON.stringify({}),
+      'scanId2',
+      10,
+      2000,
+      3,
+      100,
+      'file',
+      0,
+      0,
+      'drop-oldest',
+      1,
+      72
+    );
+    expect(database.prepare).toHaveBeenCalledWith(
+      `SELECT id, north_type AS northType, north_settings AS northSettings, caching_scan_mode_id AS cachingScanModeId, ` +
+        `caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, caching_retry_count AS cachingRetryCount, ` +
+        `caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+        `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, ` +
+        `archive_enabled AS archiveEnabled, archive_retention_duration AS archiveRetentionDuration FROM history_query_norths WHERE history_id = ?;`
     );
   });
 
@@ -374,6 +622,14 @@ describe('History Query repository', () => {
       endTime: '2023-02-01T00:00:00.000Z',
       southType: 'SQL',
       northType: 'OIConnect',
+      northId: null,
+      schedule: {
+        enabled: true,
+        scanModeId: 'scanId1',
+        windowDuration: 7,
+        windowUnit: 'day',
+        timezone: 'Europe/Paris'
+      },
       southSettings: {},
       southSharedConnection: false,
       northSettings: {},
@@ -382,9 +638,11 @@ describe('History Query repository', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 10000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -393,15 +651,66 @@ describe('History Query repository', () => {
             retentionDuration: 1000
           }
         }
-      }
+      },
+      additionalNorths: [
+        {
+          id: 'targetId1',
+          northType: 'AmazonS3',
+          northSettings: { bucket: 'bucket' },
+          caching: {
+            scanModeId: 'scanId1',
+            retryInterval: 1000,
+            retryCount: 2,
+            maxSize: 500,
+            overflowPolicy: 'stop',
+            oibusTimeValues: {
+              groupCount: 100,
+              maxSendCount: 1000,
+              storage: 'sqlite'
+            },
+            rawFiles: {
+              sendFileImmediately: true,
+              archive: {
+                enabled: false,
+                retentionDuration: 0
+              }
+            }
+          }
+        },
+        {
+          id: null,
+          northType: 'OIAnalytics',
+          northSettings: {},
+          caching: {
+            scanModeId: 'scanId2',
+            retryInterval: 2000,
+            retryCount: 3,
+            maxSize: 0,
+            overflowPolicy: 'drop-oldest',
+            oibusTimeValues: {
+              groupCount: 10,
+              maxSendCount: 100,
+              storage: 'file'
+            },
+            rawFiles: {
+              sendFileImmediately: false,
+              archive: {
+                enabled: true,
+                retentionDuration: 72
+              }
+            }
+          }
+        }
+      ]
     };
     repository.updateHistoryQuery('id1', command);
     expect(database.prepare).toHaveBeenCalledWith(
       `UPDATE history_queries SET name = ?, description = ?, history_max_instant_per_item = ?, ` +
         `history_max_read_interval = ?, history_read_delay = ?, start_time = ?, ` +
-        `end_time = ?, south_type = ?, north_type = ?, south_settings = ?, south_shared_connection = ?, north_settings = ?,` +
+        `end_time = ?, south_type = ?, north_type = ?, north_id = ?, south_settings = ?, south_shared_connection = ?, north_settings = ?,` +
         `caching_scan_mode_id = ?, caching_group_count = ?, caching_retry_interval = ?, caching_retry_count = ?, ` +
-        `caching_max_send_count = ?, caching_send_file_immediately = ?, caching_max_size = ?, archive_enabled = ?, archive_retention_duration = ? ` +
+        `caching_max_send_count = ?, caching_values_storage = ?, caching_send_file_immediately = ?, caching_max_size = ?, caching_overflow_policy = ?, archive_enabled = ?, archive_retention_duration = ?, ` +
+        `schedule_enabled = ?, schedule_scan_mode_id = ?, schedule_window_duration = ?, schedule_window_unit = ?, schedule_timezone = ? ` +
         `WHERE id = ?;`
     );
     expect(run).toHaveBeenCalledWith(
@@ -414,6 +723,7 @@ describe('History Query repository', () => {
       command.endTime,
       command.southType,
       command.northType,
+      command.northId,
       JSON.stringify(command.southSettings),
       +command.southSharedConnection,
       JSON.stringify(command.northSettings),
@@ -422,12 +732,65 @@ describe('History Query repository', () => {
       command.caching.retryInterval,
       command.caching.retryCount,
       command.caching.oibusTimeValues.maxSendCount,
+      command.caching.oibusTimeValues.storage,
       +command.caching.rawFiles.sendFileImmediately,
       command.caching.maxSize,
+      command.caching.overflowPolicy,
       +command.caching.rawFiles.archive.enabled,
       command.caching.rawFiles.archive.retentionDuration,
+      1,
+      'scanId1',
+      7,
+      'day',
+      'Europe/Paris',
+      'id1'
+    );
+    expect(database.prepare).toHaveBeenCalledWith('DELETE FROM history_query_norths WHERE history_id = ? AND id NOT IN (?);');
+    expect(run).toHaveBeenCalledWith('id1', 'targetId1');
+    expect(database.prepare).toHaveBeenCalledWith(
+      `UPDATE history_query_norths SET north_type = ?, north_settings = ?, caching_scan_mode_id = ?, caching_group_count = ?, ` +
+        `caching_retry_interval = ?, caching_retry_count = ?, caching_max_send_count = ?, caching_values_storage = ?, caching_send_file_immediately = ?, ` +
+        `caching_max_size = ?, caching_overflow_policy = ?, archive_enabled = ?, archive_retention_duration = ? WHERE id = ? AND history_id = ?;`
+    );
+    expect(run).toHaveBeenCalledWith(
+      'AmazonS3',
+      JSON.stringify({ bucket: 'bucket' }),
+      'scanId1',
+      100,
+      1000,
+      2,
+      1000,
+      'sqlite',
+      1,
+      500,
+      'stop',
+      0,
+      0,
+      'targetId1',
       'id1'
     );
+    expect(database.prepare).toHaveBeenCalledWith(
+      `INSERT INTO history_query_norths (id, history_id, north_type, north_settings, caching_scan_mode_id, caching_group_count, ` +
+        `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, caching_send_file_immediately, caching_max_size, ` +
+        `caching_overflow_policy, archive_enabled, archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`
+    );
+    expect(run).toHaveBeenCalledWith(
+      '123456',
+      'id1',
+      'OIAnalytics',
+      JSON.stringify({}),
+      'scanId2',
+      10,
+      2000,
+      3,
+      100,
+      'file',
+      0,
+      0,
+      'drop-oldest',
+      1,
+      72
+    );
   });
 
   it('should stop a history query', () => {
@@ -438,6 +801,7 @@ describe('History Query repository', () => {
 
   it('should delete a history query', () => {
     repository.deleteHistoryQuery('id1');
+    expect(database.prepare).toHaveBeenCalledWith('DELETE FROM history_query_norths WHERE history_id = ?;');
     expect(database.prepare).toHaveBeenCalledWith('DELETE FROM history_queries WHERE id = ?;');
     expect(run).toHaveBeenCalledWith('id1');
   });
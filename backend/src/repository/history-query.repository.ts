@@ -1,10 +1,39 @@
-import { HistoryQueryCommandDTO, HistoryQueryDTO, HistoryQueryStatus } from '../../../shared/model/history-query.model';
+import {
+  HistoryQueryCommandDTO,
+  HistoryQueryDTO,
+  HistoryQueryNorthCommandDTO,
+  HistoryQueryNorthDTO,
+  HistoryQueryScheduleDTO,
+  HistoryQueryStatus,
+  HistoryQueryWindowUnit
+} from '../../../shared/model/history-query.model';
+import {
+  NorthCacheOverflowPolicy,
+  NorthCacheSettingsCommandDTO,
+  NorthCacheSettingsDTO,
+  NorthValueCacheStorage
+} from '../../../shared/model/north-connector.model';
 import { generateRandomId } from '../service/utils';
 import { Database } from 'better-sqlite3';
 
 export const HISTORY_QUERIES_TABLE = 'history_queries';
+export const HISTORY_QUERY_NORTHS_TABLE = 'history_query_norths';
 
-interface HistoryQueryResult {
+interface CachingResult {
+  cachingScanModeId: string;
+  cachingGroupCount: number;
+  cachingRetryInterval: number;
+  cachingRetryCount: number;
+  cachingMaxSendCount: number;
+  cachingValuesStorage: NorthValueCacheStorage;
+  cachingSendFileImmediately: boolean;
+  cachingMaxSize: number;
+  cachingOverflowPolicy: NorthCacheOverflowPolicy;
+  archiveEnabled: boolean;
+  archiveRetentionDuration: number;
+}
+
+interface HistoryQueryResult extends CachingResult {
   id: string;
   name: string;
   description: string;
@@ -16,18 +45,21 @@ interface HistoryQueryResult {
   endTime: string;
   southType: string;
   northType: string;
+  northId: string | null;
   southSettings: string;
   southSharedConnection: boolean;
   northSettings: string;
-  cachingScanModeId: string;
-  cachingGroupCount: number;
-  cachingRetryInterval: number;
-  cachingRetryCount: number;
-  cachingMaxSendCount: number;
-  cachingSendFileImmediately: boolean;
-  cachingMaxSize: number;
-  archiveEnabled: boolean;
-  archiveRetentionDuration: number;
+  scheduleEnabled: boolean;
+  scheduleScanModeId: string | null;
+  scheduleWindowDuration: number;
+  scheduleWindowUnit: HistoryQueryWindowUnit;
+  scheduleTimezone: string;
+}
+
+interface HistoryQueryNorthResult extends CachingResult {
+  id: string;
+  northType: string;
+  northSettings: string;
 }
 
 export default class HistoryQueryRepository {
@@ -40,13 +72,15 @@ export default class HistoryQueryRepository {
     const query =
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
       `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-      `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+      `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
       `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-      `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-      `archive_retention_duration AS archiveRetentionDuration FROM ${HISTORY_QUERIES_TABLE};`;
+      `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+      `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+      `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+      `FROM ${HISTORY_QUERIES_TABLE};`;
     const results: Array<HistoryQueryResult> = this.database.prepare(query).all() as Array<HistoryQueryResult>;
-    return results.map(result => this.toHistoryQueryDTO(result));
+    return results.map(result => this.toHistoryQueryDTO(result, this.getAdditionalNorths(result.id)));
   }
 
   /**
@@ -56,18 +90,20 @@ export default class HistoryQueryRepository {
     const query =
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
       `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-      `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+      `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
       `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-      `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-      `archive_retention_duration AS archiveRetentionDuration FROM ${HISTORY_QUERIES_TABLE} WHERE id = ?;`;
+      `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+      `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+      `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+      `FROM ${HISTORY_QUERIES_TABLE} WHERE id = ?;`;
     const result: HistoryQueryResult = this.database.prepare(query).get(id) as HistoryQueryResult;
 
     if (!result) {
       return null;
     }
 
-    return this.toHistoryQueryDTO(result);
+    return this.toHistoryQueryDTO(result, this.getAdditionalNorths(result.id));
   }
 
   /**
@@ -78,9 +114,10 @@ export default class HistoryQueryRepository {
 
     const insertQuery =
       `INSERT INTO ${HISTORY_QUERIES_TABLE} (id, name, description, status, history_max_instant_per_item, history_max_read_interval, ` +
-      `history_read_delay, start_time, end_time, south_type, north_type, south_settings, south_shared_connection, north_settings, caching_scan_mode_id, caching_group_count, ` +
-      `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_send_file_immediately, caching_max_size, archive_enabled, ` +
-      `archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+      `history_read_delay, start_time, end_time, south_type, north_type, north_id, south_settings, south_shared_connection, north_settings, caching_scan_mode_id, caching_group_count, ` +
+      `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, caching_send_file_immediately, caching_max_size, caching_overflow_policy, archive_enabled, ` +
+      `archive_retention_duration, schedule_enabled, schedule_scan_mode_id, schedule_window_duration, schedule_window_unit, schedule_timezone) ` +
+      `VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
     const insertResult = this.database.prepare(insertQuery).run(
       id,
       command.name,
@@ -93,6 +130,7 @@ export default class HistoryQueryRepository {
       command.endTime,
       command.southType,
       command.northType,
+      command.northId,
       JSON.stringify(command.southSettings),
       +command.southSharedConnection,
       JSON.stringify(command.northSettings),
@@ -101,23 +139,33 @@ export default class HistoryQueryRepository {
       command.caching.retryInterval,
       command.caching.retryCount,
       command.caching.oibusTimeValues.maxSendCount,
+      command.caching.oibusTimeValues.storage,
       +command.caching.rawFiles.sendFileImmediately,
       command.caching.maxSize,
+      command.caching.overflowPolicy,
       +command.caching.rawFiles.archive.enabled,
-      command.caching.rawFiles.archive.retentionDuration
+      command.caching.rawFiles.archive.retentionDuration,
+      ...this.toScheduleParams(command.schedule)
     );
 
     const query =
       `SELECT id, name, description, status, history_max_instant_per_item AS maxInstantPerItem, ` +
       `history_max_read_interval AS maxReadInterval, history_read_delay AS readDelay, start_time AS startTime, end_time AS endTime, ` +
-      `south_type AS southType, north_type AS northType, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
+      `south_type AS southType, north_type AS northType, north_id AS northId, south_settings AS southSettings, south_shared_connection as southSharedConnection, north_settings AS northSettings, ` +
       `caching_scan_mode_id AS cachingScanModeId, caching_group_count AS cachingGroupCount, caching_retry_interval AS ` +
-      `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
-      `archive_retention_duration AS archiveRetentionDuration FROM ${HISTORY_QUERIES_TABLE} WHERE ROWID = ?;`;
+      `cachingRetryInterval, caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
+      `archive_retention_duration AS archiveRetentionDuration, schedule_enabled AS scheduleEnabled, schedule_scan_mode_id AS scheduleScanModeId, ` +
+      `schedule_window_duration AS scheduleWindowDuration, schedule_window_unit AS scheduleWindowUnit, schedule_timezone AS scheduleTimezone ` +
+      `FROM ${HISTORY_QUERIES_TABLE} WHERE ROWID = ?;`;
     const result: HistoryQueryResult = this.database.prepare(query).get(insertResult.lastInsertRowid) as HistoryQueryResult;
+    // The ids of the targets come from the duplicated history query, if any
+    this.updateAdditionalNorths(
+      result.id,
+      command.additionalNorths.map(target => ({ ...target, id: null }))
+    );
 
-    return this.toHistoryQueryDTO(result);
+    return this.toHistoryQueryDTO(result, this.getAdditionalNorths(result.id));
   }
 
   setHistoryQueryStatus(id: string, status: HistoryQueryStatus) {
@@ -132,9 +180,10 @@ export default class HistoryQueryRepository {
     const query =
       `UPDATE ${HISTORY_QUERIES_TABLE} SET name = ?, description = ?, history_max_instant_per_item = ?, ` +
       `history_max_read_interval = ?, history_read_delay = ?, start_time = ?, ` +
-      `end_time = ?, south_type = ?, north_type = ?, south_settings = ?, south_shared_connection = ?, north_settings = ?,` +
+      `end_time = ?, south_type = ?, north_type = ?, north_id = ?, south_settings = ?, south_shared_connection = ?, north_settings = ?,` +
       `caching_scan_mode_id = ?, caching_group_count = ?, caching_retry_interval = ?, caching_retry_count = ?, ` +
-      `caching_max_send_count = ?, caching_send_file_immediately = ?, caching_max_size = ?, archive_enabled = ?, archive_retention_duration = ? ` +
+      `caching_max_send_count = ?, caching_values_storage = ?, caching_send_file_immediately = ?, caching_max_size = ?, caching_overflow_policy = ?, archive_enabled = ?, archive_retention_duration = ?, ` +
+      `schedule_enabled = ?, schedule_scan_mode_id = ?, schedule_window_duration = ?, schedule_window_unit = ?, schedule_timezone = ? ` +
       `WHERE id = ?;`;
     this.database
       .prepare(query)
@@ -148,6 +197,7 @@ export default class HistoryQueryRepository {
         command.endTime,
         command.southType,
         command.northType,
+        command.northId,
         JSON.stringify(command.southSettings),
         +command.southSharedConnection,
         JSON.stringify(command.northSettings),
@@ -156,23 +206,134 @@ export default class HistoryQueryRepository {
         command.caching.retryInterval,
         command.caching.retryCount,
         command.caching.oibusTimeValues.maxSendCount,
+        command.caching.oibusTimeValues.storage,
         +command.caching.rawFiles.sendFileImmediately,
         command.caching.maxSize,
+        command.caching.overflowPolicy,
         +command.caching.rawFiles.archive.enabled,
         command.caching.rawFiles.archive.retentionDuration,
+        ...this.toScheduleParams(command.schedule),
         id
       );
+    this.updateAdditionalNorths(id, command.additionalNorths);
   }
 
   /**
    * Delete a History query by its ID
    */
   deleteHistoryQuery(id: string): void {
+    this.database.prepare(`DELETE FROM ${HISTORY_QUERY_NORTHS_TABLE} WHERE history_id = ?;`).run(id);
     const query = `DELETE FROM ${HISTORY_QUERIES_TABLE} WHERE id = ?;`;
     this.database.prepare(query).run(id);
   }
 
-  private toHistoryQueryDTO(result: HistoryQueryResult): HistoryQueryDTO {
+  /**
+   * Get the additional North targets of a History query
+   */
+  getAdditionalNorths(historyId: string): Array<HistoryQueryNorthDTO> {
+    const query =
+      `SELECT id, north_type AS northType, north_settings AS northSettings, caching_scan_mode_id AS cachingScanModeId, ` +
+      `caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, caching_retry_count AS cachingRetryCount, ` +
+      `caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, ` +
+      `archive_enabled AS archiveEnabled, archive_retention_duration AS archiveRetentionDuration FROM ${HISTORY_QUERY_NORTHS_TABLE} WHERE history_id = ?;`;
+    const results: Array<HistoryQueryNorthResult> = this.database.prepare(query).all(historyId) as Array<HistoryQueryNorthResult>;
+    return results.map(result => ({
+      id: result.id,
+      northType: result.northType,
+      northSettings: JSON.parse(result.northSettings),
+      caching: this.toCachingDTO(result)
+    }));
+  }
+
+  /**
+   * Replace the additional North targets of a History query: targets with an id are updated, the others are created,
+   * and the targets missing from the commands are removed
+   */
+  private updateAdditionalNorths(historyId: string, commands: Array<HistoryQueryNorthCommandDTO>): void {
+    const keptIds = commands.filter(command => command.id).map(command => command.id!);
+    const remove = this.database.prepare(
+      `DELETE FROM ${HISTORY_QUERY_NORTHS_TABLE} WHERE history_id = ? AND id NOT IN (${keptIds.map(() => '?').join(', ')});`
+    );
+    const insert = this.database.prepare(
+      `INSERT INTO ${HISTORY_QUERY_NORTHS_TABLE} (id, history_id, north_type, north_settings, caching_scan_mode_id, caching_group_count, ` +
+        `caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, caching_send_file_immediately, caching_max_size, ` +
+        `caching_overflow_policy, archive_enabled, archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`
+    );
+    const update = this.database.prepare(
+      `UPDATE ${HISTORY_QUERY_NORTHS_TABLE} SET north_type = ?, north_settings = ?, caching_scan_mode_id = ?, caching_group_count = ?, ` +
+        `caching_retry_interval = ?, caching_retry_count = ?, caching_max_send_count = ?, caching_values_storage = ?, caching_send_file_immediately = ?, ` +
+        `caching_max_size = ?, caching_overflow_policy = ?, archive_enabled = ?, archive_retention_duration = ? WHERE id = ? AND history_id = ?;`
+    );
+
+    const transaction = this.database.transaction(() => {
+      remove.run(historyId, ...keptIds);
+      for (const command of commands) {
+        if (command.id) {
+          update.run(
+            command.northType,
+            JSON.stringify(command.northSettings),
+            ...this.toCachingParams(command.caching),
+            command.id,
+            historyId
+          );
+        } else {
+          insert.run(
+            generateRandomId(6),
+            historyId,
+            command.northType,
+            JSON.stringify(command.northSettings),
+            ...this.toCachingParams(command.caching)
+          );
+        }
+      }
+    });
+    transaction();
+  }
+
+  private toCachingParams(caching: NorthCacheSettingsCommandDTO): Array<string | number | undefined> {
+    return [
+      caching.scanModeId,
+      caching.oibusTimeValues.groupCount,
+      caching.retryInterval,
+      caching.retryCount,
+      caching.oibusTimeValues.maxSendCount,
+      caching.oibusTimeValues.storage,
+      +caching.rawFiles.sendFileImmediately,
+      caching.maxSize,
+      caching.overflowPolicy,
+      +caching.rawFiles.archive.enabled,
+      caching.rawFiles.archive.retentionDuration
+    ];
+  }
+
+  private toScheduleParams(schedule: HistoryQueryScheduleDTO): Array<string | number | null> {
+    return [+schedule.enabled, schedule.scanModeId, schedule.windowDuration, schedule.windowUnit, schedule.timezone];
+  }
+
+  private toCachingDTO(result: CachingResult): NorthCacheSettingsDTO {
+    return {
+      scanModeId: result.cachingScanModeId,
+      retryInterval: result.cachingRetryInterval,
+      retryCount: result.cachingRetryCount,
+      maxSize: result.cachingMaxSize,
+      overflowPolicy: result.cachingOverflowPolicy,
+      oibusTimeValues: {
+        groupCount: result.cachingGroupCount,
+        maxSendCount: result.cachingMaxSendCount,
+        storage: result.cachingValuesStorage
+      },
+      rawFiles: {
+        sendFileImmediately: Boolean(result.cachingSendFileImmediately),
+        archive: {
+          enabled: Boolean(result.archiveEnabled),
+          retentionDuration: result.archiveRetentionDuration
+        }
+      }
+    };
+  }
+
+  private toHistoryQueryDTO(result: HistoryQueryResult, additionalNorths: Array<HistoryQueryNorthDTO>): HistoryQueryDTO {
     return {
       id: result.id,
       name: result.name,
@@ -188,25 +349,18 @@ export default class HistoryQueryRepository {
       endTime: result.endTime,
       southType: result.southType,
       northType: result.northType,
+      northId: result.northId,
       southSettings: JSON.parse(result.southSettings),
       southSharedConnection: Boolean(result.southSharedConnection),
       northSettings: JSON.parse(result.northSettings),
-      caching: {
-        scanModeId: result.cachingScanModeId,
-        retryInterval: result.cachingRetryInterval,
-        retryCount: result.cachingRetryCount,
-        maxSize: result.cachingMaxSize,
-        oibusTimeValues: {
-          groupCount: result.cachingGroupCount,
-          maxSendCount: result.cachingMaxSendCount
-        },
-        rawFiles: {
-          sendFileImmediately: Boolean(result.cachingSendFileImmediately),
-          archive: {
-            enabled: Boolean(result.archiveEnabled),
-            retentionDuration: result.archiveRetentionDuration
-          }
-        }
+      caching: this.toCachingDTO(result),
+      additionalNorths,
+      schedule: {
+        enabled: Boolean(result.scheduleEnabled),
+        scanModeId: result.scheduleScanModeId,
+        windowDuration: result.scheduleWindowDuration,
+        windowUnit: result.scheduleWindowUnit,
+        timezone: result.scheduleTimezone
       }
     };
   }
@@ -29,9 +29,9 @@ describe('NorthConnectorMetricsRepository', () => {
     expect(repository.getMetrics).toHaveBeenCalledWith('id1');
     expect(repository.database.prepare).toHaveBeenCalledWith(
       `INSERT INTO north_metrics (north_id, metrics_start, nb_values, nb_files, ` +
-        `last_value, last_file, last_connection, last_run_start, last_run_duration, cache_size) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`
+        `last_value, last_file, last_connection, last_run_start, last_run_duration, cache_size, cache_full) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`
     );
-    expect(run).toHaveBeenCalledWith('id1', nowDateString, 0, 0, null, null, null, null, null, 0);
+    expect(run).toHaveBeenCalledWith('id1', nowDateString, 0, 0, null, null, null, null, null, 0, 0);
     expect(run).toHaveBeenCalledTimes(1);
   });
 
@@ -40,7 +40,7 @@ describe('NorthConnectorMetricsRepository', () => {
     expect(repository.database.prepare).toHaveBeenCalledWith(
       `SELECT metrics_start AS metricsStart, nb_values AS numberOfValuesSent, nb_files AS numberOfFilesSent, ` +
         `last_value AS lastValueSent, last_file AS lastFileSent, last_connection AS lastConnection, last_run_start AS lastRunStart, ` +
-        `last_run_duration AS lastRunDuration, cache_size AS cacheSize FROM north_metrics WHERE north_id = ?;`
+        `last_run_duration AS lastRunDuration, cache_size AS cacheSize, cache_full AS cacheFull FROM north_metrics WHERE north_id = ?;`
     );
     expect(nullMetrics).toBeNull();
 
@@ -53,7 +53,8 @@ describe('NorthConnectorMetricsRepository', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: 1
     });
     const metrics = repository.getMetrics('id1');
     expect(metrics).toEqual({
@@ -65,7 +66,8 @@ describe('NorthConnectorMetricsRepository', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: true
     });
 
     get.mockReturnValueOnce({
@@ -77,7 +79,8 @@ describe('NorthConnectorMetricsRepository', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: 0
     });
     const metricsWithEmptyValue = repository.getMetrics('id1');
     expect(metricsWithEmptyValue).toEqual({
@@ -89,7 +92,8 @@ describe('NorthConnectorMetricsRepository', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: false
     });
   });
 
@@ -103,13 +107,14 @@ describe('NorthConnectorMetricsRepository', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: false
     };
 
     repository.updateMetrics('northId', newConnectorMetrics);
     expect(repository.database.prepare).toHaveBeenCalledWith(
       `UPDATE north_metrics SET metrics_start = ?, nb_values = ?, nb_files = ?, last_value = ?, last_file = ?, ` +
-        `last_connection = ?, last_run_start = ?, last_run_duration = ?, cache_size = ? WHERE north_id = ?;`
+        `last_connection = ?, last_run_start = ?, last_run_duration = ?, cache_size = ?, cache_full = ? WHERE north_id = ?;`
     );
     expect(run).toHaveBeenCalledWith(
       newConnectorMetrics.metricsStart,
@@ -121,6 +126,7 @@ describe('NorthConnectorMetricsRepository', () => {
       newConnectorMetrics.lastRunStart,
       newConnectorMetrics.lastRunDuration,
       123,
+      0,
       'northId'
     );
 
@@ -133,7 +139,8 @@ describe('NorthConnectorMetricsRepository', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: false
     };
 
     repository.updateMetrics('northId', connectorMetricsWithNullValue);
@@ -148,6 +155,7 @@ describe('NorthConnectorMetricsRepository', () => {
       newConnectorMetrics.lastRunStart,
       newConnectorMetrics.lastRunDuration,
       123,
+      0,
       'northId'
     );
   });
@@ -19,8 +19,8 @@ export default class NorthConnectorMetricsRepository {
     if (!foundMetrics) {
       const insertQuery =
         `INSERT INTO ${NORTH_METRICS_TABLE} (north_id, metrics_start, nb_values, nb_files, ` +
-        `last_value, last_file, last_connection, last_run_start, last_run_duration, cache_size) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`;
-      this._database.prepare(insertQuery).run(northId, DateTime.now().toUTC().toISO(), 0, 0, null, null, null, null, null, 0);
+        `last_value, last_file, last_connection, last_run_start, last_run_duration, cache_size, cache_full) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`;
+      this._database.prepare(insertQuery).run(northId, DateTime.now().toUTC().toISO(), 0, 0, null, null, null, null, null, 0, 0);
     }
   }
 
@@ -28,7 +28,7 @@ export default class NorthConnectorMetricsRepository {
     const query =
       `SELECT metrics_start AS metricsStart, nb_values AS numberOfValuesSent, nb_files AS numberOfFilesSent, ` +
       `last_value AS lastValueSent, last_file AS lastFileSent, last_connection AS lastConnection, last_run_start AS lastRunStart, ` +
-      `last_run_duration AS lastRunDuration, cache_size AS cacheSize FROM ${NORTH_METRICS_TABLE} WHERE north_id = ?;`;
+      `last_run_duration AS lastRunDuration, cache_size AS cacheSize, cache_full AS cacheFull FROM ${NORTH_METRICS_TABLE} WHERE north_id = ?;`;
     const result: any = this._database.prepare(query).get(northId);
     if (!result) return null;
     return {
@@ -40,14 +40,15 @@ export default class NorthConnectorMetricsRepository {
       lastConnection: result.lastConnection,
       lastRunStart: result.lastRunStart,
       lastRunDuration: result.lastRunDuration,
-      cacheSize: result.cacheSize
+      cacheSize: result.cacheSize,
+      cacheFull: Boolean(result.cacheFull)
     };
   }
 
   updateMetrics(northId: string, metrics: NorthConnectorMetrics): void {
     const updateQuery =
       `UPDATE ${NORTH_METRICS_TABLE} SET metrics_start = ?, nb_values = ?, nb_files = ?, last_value = ?, last_file = ?, ` +
-      'last_connection = ?, last_run_start = ?, last_run_duration = ?, cache_size = ? WHERE north_id = ?;';
+      'last_connection = ?, last_run_start = ?, last_run_duration = ?, cache_size = ?, cache_full = ? WHERE north_id = ?;';
     this._database
       .prepare(updateQuery)
       .run(
@@ -60,6 +61,7 @@ export default class NorthConnectorMetricsRepository {
         metrics.lastRunStart,
         metrics.lastRunDuration,
         metrics.cacheSize,
+        +metrics.cacheFull,
         northId
       );
   }
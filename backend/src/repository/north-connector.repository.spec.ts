@@ -37,9 +37,11 @@ describe('North connector repository', () => {
           retryInterval: 5000,
           retryCount: 3,
           maxSize: 10000,
+          overflowPolicy: 'drop-newest',
           oibusTimeValues: {
             groupCount: 1000,
-            maxSendCount: 10000
+            maxSendCount: 10000,
+            storage: 'file'
           },
           rawFiles: {
             sendFileImmediately: false,
@@ -62,9 +64,11 @@ describe('North connector repository', () => {
           retryInterval: 5000,
           retryCount: 3,
           maxSize: 10000,
+          overflowPolicy: 'drop-newest',
           oibusTimeValues: {
             groupCount: 1000,
-            maxSendCount: 10000
+            maxSendCount: 10000,
+            storage: 'file'
           },
           rawFiles: {
             sendFileImmediately: false,
@@ -89,8 +93,10 @@ describe('North connector repository', () => {
         cachingRetryCount: 3,
         cachingGroupCount: 1000,
         cachingMaxSendCount: 10000,
+        cachingValuesStorage: 'file',
         cachingSendFileImmediately: 0,
         cachingMaxSize: 10000,
+        cachingOverflowPolicy: 'drop-newest',
         archiveEnabled: 1,
         archiveRetentionDuration: 1000
       },
@@ -106,8 +112,10 @@ describe('North connector repository', () => {
         cachingRetryCount: 3,
         cachingGroupCount: 1000,
         cachingMaxSendCount: 10000,
+        cachingValuesStorage: 'file',
         cachingSendFileImmediately: 0,
         cachingMaxSize: 10000,
+        cachingOverflowPolicy: 'drop-newest',
         archiveEnabled: 1,
         archiveRetentionDuration: 1000
       }
@@ -116,8 +124,8 @@ describe('North connector repository', () => {
     expect(database.prepare).toHaveBeenCalledWith(
       'SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ' +
         'caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ' +
-        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ' +
-        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ' +
+        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ' +
+        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ' +
         'archive_retention_duration AS archiveRetentionDuration FROM north_connectors;'
     );
     expect(northConnectors).toEqual(expectedValue);
@@ -136,9 +144,11 @@ describe('North connector repository', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 10000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -161,8 +171,10 @@ describe('North connector repository', () => {
       cachingRetryCount: 3,
       cachingGroupCount: 1000,
       cachingMaxSendCount: 10000,
+      cachingValuesStorage: 'file',
       cachingSendFileImmediately: 0,
       cachingMaxSize: 10000,
+      cachingOverflowPolicy: 'drop-newest',
       archiveEnabled: 1,
       archiveRetentionDuration: 1000
     });
@@ -170,8 +182,8 @@ describe('North connector repository', () => {
     expect(database.prepare).toHaveBeenCalledWith(
       'SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ' +
         'caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ' +
-        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ' +
-        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ' +
+        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ' +
+        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ' +
         'archive_retention_duration AS archiveRetentionDuration FROM north_connectors WHERE id = ?;'
     );
     expect(get).toHaveBeenCalledWith('id1');
@@ -184,8 +196,8 @@ describe('North connector repository', () => {
     expect(database.prepare).toHaveBeenCalledWith(
       'SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ' +
         'caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ' +
-        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ' +
-        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ' +
+        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ' +
+        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ' +
         'archive_retention_duration AS archiveRetentionDuration FROM north_connectors WHERE id = ?;'
     );
     expect(get).toHaveBeenCalledWith('id1');
@@ -207,9 +219,11 @@ describe('North connector repository', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 10000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -224,8 +238,8 @@ describe('North connector repository', () => {
     expect(generateRandomId).toHaveBeenCalledWith(6);
     expect(database.prepare).toHaveBeenCalledWith(
       'INSERT INTO north_connectors (id, name, type, description, enabled, settings, caching_scan_mode_id, ' +
-        'caching_group_count, caching_retry_interval, caching_retry_count, caching_max_send_count, caching_send_file_immediately, caching_max_size, ' +
-        'archive_enabled, archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);'
+        'caching_group_count, caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, caching_send_file_immediately, caching_max_size, caching_overflow_policy, ' +
+        'archive_enabled, archive_retention_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);'
     );
     expect(run).toHaveBeenCalledWith(
       '123456',
@@ -239,8 +253,10 @@ describe('North connector repository', () => {
       command.caching.retryInterval,
       command.caching.retryCount,
       command.caching.oibusTimeValues.maxSendCount,
+      command.caching.oibusTimeValues.storage,
       +command.caching.rawFiles.sendFileImmediately,
       command.caching.maxSize,
+      command.caching.overflowPolicy,
       +command.caching.rawFiles.archive.enabled,
       command.caching.rawFiles.archive.retentionDuration
     );
@@ -249,8 +265,8 @@ describe('North connector repository', () => {
     expect(database.prepare).toHaveBeenCalledWith(
       'SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ' +
         'caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ' +
-        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ' +
-        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ' +
+        'caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ' +
+        'caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ' +
         'archive_retention_duration AS archiveRetentionDuration FROM north_connectors WHERE ROWID = ?;'
     );
   });
@@ -267,9 +283,11 @@ describe('North connector repository', () => {
         retryInterval: 5000,
         retryCount: 3,
         maxSize: 10000,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: false,
@@ -283,8 +301,8 @@ describe('North connector repository', () => {
     repository.updateNorthConnector('id1', command);
     expect(database.prepare).toHaveBeenCalledWith(
       'UPDATE north_connectors SET name = ?, description = ?, settings = ?, caching_scan_mode_id = ?, ' +
-        'caching_group_count = ?, caching_retry_interval = ?, caching_retry_count = ?, caching_max_send_count = ?, ' +
-        'caching_send_file_immediately = ?, caching_max_size = ?, archive_enabled = ?, archive_retention_duration = ? WHERE id = ?;'
+        'caching_group_count = ?, caching_retry_interval = ?, caching_retry_count = ?, caching_max_send_count = ?, caching_values_storage = ?, ' +
+        'caching_send_file_immediately = ?, caching_max_size = ?, caching_overflow_policy = ?, archive_enabled = ?, archive_retention_duration = ? WHERE id = ?;'
     );
     expect(run).toHaveBeenCalledWith(
       command.name,
@@ -295,8 +313,10 @@ describe('North connector repository', () => {
       command.caching.retryInterval,
       command.caching.retryCount,
       command.caching.oibusTimeValues.maxSendCount,
+      command.caching.oibusTimeValues.storage,
       +command.caching.rawFiles.sendFileImmediately,
       command.caching.maxSize,
+      command.caching.overflowPolicy,
       +command.caching.rawFiles.archive.enabled,
       command.caching.rawFiles.archive.retentionDuration,
       'id1'
@@ -17,8 +17,8 @@ export default class NorthConnectorRepository {
     const query =
       `SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ` +
       `caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ` +
-      `caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
+      `caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
       `archive_retention_duration AS archiveRetentionDuration FROM ${NORTH_CONNECTORS_TABLE};`;
     return this.database
       .prepare(query)
@@ -35,9 +35,11 @@ export default class NorthConnectorRepository {
           retryInterval: result.cachingRetryInterval,
           retryCount: result.cachingRetryCount,
           maxSize: result.cachingMaxSize,
+          overflowPolicy: result.cachingOverflowPolicy,
           oibusTimeValues: {
             groupCount: result.cachingGroupCount,
-            maxSendCount: result.cachingMaxSendCount
+            maxSendCount: result.cachingMaxSendCount,
+            storage: result.cachingValuesStorage
           },
           rawFiles: {
             sendFileImmediately: Boolean(result.cachingSendFileImmediately),
@@ -49,7 +51,21 @@ export default class NorthConnectorRepository {
         }
       }))
       .filter(result =>
-        ['aws-s3', 'azure-blob', 'console', 'file-writer', 'oianalytics', 'oibus', 'rest-api', 'sftp'].includes(result.type)
+        [
+          'aws-s3',
+          'azure-blob',
+          'console',
+          'csv-to-http',
+          'file-writer',
+          'influxdb',
+          'mongodb',
+          'mqtt',
+          'oianalytics',
+          'oibus',
+          'rest-api',
+          'sftp',
+          'timescaledb'
+        ].includes(result.type)
       );
   }
 
@@ -60,8 +76,8 @@ export default class NorthConnectorRepository {
     const query =
       `SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ` +
       `caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ` +
-      `caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
+      `caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
       `archive_retention_duration AS archiveRetentionDuration FROM ${NORTH_CONNECTORS_TABLE} WHERE id = ?;`;
     const result: any = this.database.prepare(query).get(id) as any;
 
@@ -81,9 +97,11 @@ export default class NorthConnectorRepository {
         retryInterval: result.cachingRetryInterval,
         retryCount: result.cachingRetryCount,
         maxSize: result.cachingMaxSize,
+        overflowPolicy: result.cachingOverflowPolicy,
         oibusTimeValues: {
           groupCount: result.cachingGroupCount,
-          maxSendCount: result.cachingMaxSendCount
+          maxSendCount: result.cachingMaxSendCount,
+          storage: result.cachingValuesStorage
         },
         rawFiles: {
           sendFileImmediately: Boolean(result.cachingSendFileImmediately),
@@ -103,9 +121,9 @@ export default class NorthConnectorRepository {
     const id = generateRandomId(6);
     const insertQuery =
       `INSERT INTO ${NORTH_CONNECTORS_TABLE} (id, name, type, description, enabled, settings, ` +
-      `caching_scan_mode_id, caching_group_count, caching_retry_interval, caching_retry_count, caching_max_send_count, ` +
-      `caching_send_file_immediately, caching_max_size, archive_enabled, archive_retention_duration) ` +
-      `VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`;
+      `caching_scan_mode_id, caching_group_count, caching_retry_interval, caching_retry_count, caching_max_send_count, caching_values_storage, ` +
+      `caching_send_file_immediately, caching_max_size, caching_overflow_policy, archive_enabled, archive_retention_duration) ` +
+      `VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`;
     const insertResult = this.database
       .prepare(insertQuery)
       .run(
@@ -120,8 +138,10 @@ export default class NorthConnectorRepository {
         command.caching.retryInterval,
         command.caching.retryCount,
         command.caching.oibusTimeValues.maxSendCount,
+        command.caching.oibusTimeValues.storage,
         +command.caching.rawFiles.sendFileImmediately,
         command.caching.maxSize,
+        command.caching.overflowPolicy,
         +command.caching.rawFiles.archive.enabled,
         command.caching.rawFiles.archive.retentionDuration
       );
@@ -129,8 +149,8 @@ export default class NorthConnectorRepository {
     const query =
       `SELECT id, name, type, description, enabled, settings, caching_scan_mode_id AS cachingScanModeId, ` +
       `caching_group_count AS cachingGroupCount, caching_retry_interval AS cachingRetryInterval, ` +
-      `caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, ` +
-      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, archive_enabled AS archiveEnabled, ` +
+      `caching_retry_count AS cachingRetryCount, caching_max_send_count AS cachingMaxSendCount, caching_values_storage AS cachingValuesStorage, ` +
+      `caching_send_file_immediately AS cachingSendFileImmediately, caching_max_size AS cachingMaxSize, caching_overflow_policy AS cachingOverflowPolicy, archive_enabled AS archiveEnabled, ` +
       `archive_retention_duration AS archiveRetentionDuration FROM ${NORTH_CONNECTORS_TABLE} WHERE ROWID = ?;`;
     const result: any = this.database.prepare(query).get(insertResult.lastInsertRowid);
     return {
@@ -145,9 +165,11 @@ export default class NorthConnectorRepository {
         retryInterval: result.cachingRetryInterval,
         retryCount: result.cachingRetryCount,
         maxSize: result.cachingMaxSize,
+        overflowPolicy: result.cachingOverflowPolicy,
         oibusTimeValues: {
           groupCount: result.cachingGroupCount,
-          maxSendCount: result.cachingMaxSendCount
+          maxSendCount: result.cachingMaxSendCount,
+          storage: result.cachingValuesStorage
         },
         rawFiles: {
           sendFileImmediately: Boolean(result.cachingSendFileImmediately),
@@ -177,7 +199,7 @@ export default class NorthConnectorRepository {
     const query =
       `UPDATE ${NORTH_CONNECTORS_TABLE} SET name = ?, description = ?, settings = ?, ` +
       `caching_scan_mode_id = ?, caching_group_count = ?, caching_retry_interval = ?, caching_retry_count = ?, ` +
-      `caching_max_send_count = ?, caching_send_file_immediately = ?, caching_max_size = ?, archive_enabled = ?, archive_retention_duration = ? ` +
+      `caching_max_send_count = ?, caching_values_storage = ?, caching_send_file_immediately = ?, caching_max_size = ?, caching_overflow_policy = ?, archive_enabled = ?, archive_retention_duration = ? ` +
       `WHERE id = ?;`;
     this.database
       .prepare(query)
@@ -190,8 +212,10 @@ export default class NorthConnectorRepository {
         command.caching.retryInterval,
         command.caching.retryCount,
         command.caching.oibusTimeValues.maxSendCount,
+        command.caching.oibusTimeValues.storage,
         +command.caching.rawFiles.sendFileImmediately,
         command.caching.maxSize,
+        command.caching.overflowPolicy,
         +command.caching.rawFiles.archive.enabled,
         command.caching.rawFiles.archive.retentionDuration,
         id
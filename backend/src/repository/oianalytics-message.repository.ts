@@ -1,7 +1,12 @@
 import { generateRandomId } from '../service/utils';
 import { Database } from 'better-sqlite3';
 import { Instant, Page } from '../../../shared/model/types';
-import { InfoMessage, OIAnalyticsMessageDTO, OIAnalyticsMessageSearchParam } from '../../../shared/model/oianalytics-message.model';
+import {
+  InfoMessage,
+  NorthCacheFullMessage,
+  OIAnalyticsMessageDTO,
+  OIAnalyticsMessageSearchParam
+} from '../../../shared/model/oianalytics-message.model';
 
 export const OIANALYTICS_MESSAGE_TABLE = 'oianalytics_messages';
 const PAGE_SIZE = 50;
@@ -107,7 +112,7 @@ export default class OianalyticsMessageRepository {
   /**
    * Create a message
    */
-  createOIAnalyticsMessages(type: string, content: InfoMessage): OIAnalyticsMessageDTO {
+  createOIAnalyticsMessages(type: string, content: InfoMessage | NorthCacheFullMessage): OIAnalyticsMessageDTO {
     const insertQuery = `INSERT INTO ${OIANALYTICS_MESSAGE_TABLE} (id, type, status, content) VALUES (?, ?, ?, ?);`;
     const insertResult = this.database.prepare(insertQuery).run(generateRandomId(), type, 'PENDING', JSON.stringify(content));
 
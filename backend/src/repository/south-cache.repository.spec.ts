@@ -35,6 +35,20 @@ describe('SouthCacheRepository', () => {
     expect(southCache).toEqual(expectedValue);
   });
 
+  it('should properly get the south caches of a south', () => {
+    const expectedValue: Array<SouthCache> = [
+      { southId: 'southId', scanModeId: 'id1', itemId: 'itemId1', maxInstant: '2023-03-01T10:30:16.000Z' },
+      { southId: 'southId', scanModeId: 'id1', itemId: 'itemId2', maxInstant: '2023-03-02T10:30:16.000Z' }
+    ];
+    all.mockReturnValueOnce(expectedValue);
+    const southCaches = repository.getSouthCacheScanModes('southId');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'SELECT south_id AS southId, scan_mode_id AS scanModeId, item_id AS itemId, max_instant AS maxInstant FROM cache_history WHERE south_id = ? ORDER BY scan_mode_id, item_id;'
+    );
+    expect(all).toHaveBeenCalledWith('southId');
+    expect(southCaches).toEqual(expectedValue);
+  });
+
   it('should create a south cache', () => {
     run.mockReturnValueOnce({ lastInsertRowid: 1 });
     get.mockReturnValueOnce(null);
@@ -108,6 +122,20 @@ describe('SouthCacheRepository', () => {
     expect(run).toHaveBeenCalledTimes(1);
   });
 
+  it('should run a query for each list of parameters in a transaction', () => {
+    (database.transaction as jest.Mock).mockImplementationOnce(callback => () => callback());
+    repository.runQueriesOnCustomTable(`INSERT INTO "test" (filename, mtime_ms) VALUES (?, ?)`, [
+      ['file1', 1],
+      ['file2', 2]
+    ]);
+    expect(database.prepare).toHaveBeenCalledTimes(1);
+    expect(database.prepare).toHaveBeenCalledWith(`INSERT INTO "test" (filename, mtime_ms) VALUES (?, ?)`);
+    expect(database.transaction).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenCalledWith('file1', 1);
+    expect(run).toHaveBeenCalledWith('file2', 2);
+  });
+
   it('should delete all cache rows of a south connector', () => {
     repository.deleteAllCacheScanModes('southId');
     expect(database.prepare).toHaveBeenCalledWith(`DELETE FROM ${SOUTH_CACHE_TABLE} WHERE south_id = ?;`);
@@ -28,6 +28,19 @@ export default class SouthCacheRepository {
     };
   }
 
+  /**
+   * Retrieve all the cache scan modes of a South connector
+   */
+  getSouthCacheScanModes(southId: string): Array<SouthCache> {
+    const query = `SELECT south_id AS southId, scan_mode_id AS scanModeId, item_id AS itemId, max_instant AS maxInstant FROM ${SOUTH_CACHE_TABLE} WHERE south_id = ? ORDER BY scan_mode_id, item_id;`;
+    return (this._database.prepare(query).all(southId) as Array<SouthCache>).map(result => ({
+      southId: result.southId,
+      scanModeId: result.scanModeId,
+      itemId: result.itemId,
+      maxInstant: result.maxInstant
+    }));
+  }
+
   /**
    * Create or update a South connector cache scan mode with the scan mode ID as primary key
    */
@@ -86,6 +99,19 @@ export default class SouthCacheRepository {
     this._database.prepare(query).run(...params);
   }
 
+  /**
+   * Run the query once for each list of parameters, in a single transaction
+   */
+  runQueriesOnCustomTable(query: string, paramsList: Array<Array<any>>): void {
+    const statement = this._database.prepare(query);
+    const transaction = this._database.transaction(() => {
+      for (const params of paramsList) {
+        statement.run(...params);
+      }
+    });
+    transaction();
+  }
+
   getQueryOnCustomTable(query: string, params: Array<any>): any {
     return this._database.prepare(query).get(...params);
   }
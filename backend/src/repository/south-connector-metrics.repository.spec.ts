@@ -28,65 +28,78 @@ describe('SouthConnectorMetricsRepository', () => {
     repository.initMetrics('id1');
     expect(repository.getMetrics).toHaveBeenCalledWith('id1');
     expect(repository.database.prepare).toHaveBeenCalledWith(
-      `INSERT INTO south_metrics (south_id, metrics_start, nb_values, nb_files, ` +
-        `last_value, last_file, last_connection, last_run_start, last_run_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);`
+      `INSERT INTO south_metrics (south_id, metrics_start, nb_values, nb_values_suppressed, nb_files, ` +
+        `last_value, last_file, last_connection, last_run_start, last_run_duration, last_norths_reached, backpressured) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`
     );
-    expect(run).toHaveBeenCalledWith('id1', nowDateString, 0, 0, null, null, null, null, null);
+    expect(run).toHaveBeenCalledWith('id1', nowDateString, 0, 0, 0, null, null, null, null, null, null, 0);
     expect(run).toHaveBeenCalledTimes(1);
   });
 
   it('should get metrics', () => {
     const nullMetrics = repository.getMetrics('id1');
     expect(repository.database.prepare).toHaveBeenCalledWith(
-      `SELECT metrics_start AS metricsStart, nb_values AS numberOfValuesRetrieved, nb_files AS numberOfFilesRetrieved, ` +
+      `SELECT metrics_start AS metricsStart, nb_values AS numberOfValuesRetrieved, nb_values_suppressed AS numberOfValuesSuppressed, ` +
+        `nb_files AS numberOfFilesRetrieved, ` +
         `last_value AS lastValueRetrieved, last_file AS lastFileRetrieved, last_connection AS lastConnection, last_run_start AS lastRunStart, ` +
-        `last_run_duration AS lastRunDuration FROM south_metrics WHERE south_id = ?;`
+        `last_run_duration AS lastRunDuration, last_norths_reached AS lastNumberOfNorthsReached, backpressured FROM south_metrics WHERE south_id = ?;`
     );
     expect(nullMetrics).toBeNull();
 
     get.mockReturnValueOnce({
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: '{}',
       lastFileRetrieved: 'myFile',
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
-      lastRunDuration: 120
+      lastRunDuration: 120,
+      lastNumberOfNorthsReached: 2,
+      backpressured: 1
     });
     const metrics = repository.getMetrics('id1');
     expect(metrics).toEqual({
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: {},
       lastFileRetrieved: 'myFile',
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
+      lastNumberOfNorthsReached: 2,
+      backpressured: true,
       historyMetrics: {}
     });
 
     get.mockReturnValueOnce({
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: '',
       lastFileRetrieved: 'myFile',
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
-      lastRunDuration: 120
+      lastRunDuration: 120,
+      lastNumberOfNorthsReached: 2,
+      backpressured: 0
     });
     const metricsWithEmptyValue = repository.getMetrics('id1');
     expect(metricsWithEmptyValue).toEqual({
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: null,
       lastFileRetrieved: 'myFile',
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
+      lastNumberOfNorthsReached: 2,
+      backpressured: false,
       historyMetrics: {}
     });
   });
@@ -95,41 +108,50 @@ describe('SouthConnectorMetricsRepository', () => {
     const newConnectorMetrics: SouthConnectorMetrics = {
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: { pointId: 'pointId', timestamp: '2020-02-02T02:02:02.222Z', data: { value: '13' } },
       lastFileRetrieved: 'myFile',
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
+      lastNumberOfNorthsReached: 2,
+      backpressured: false,
       historyMetrics: {}
     };
 
     repository.updateMetrics('southId', newConnectorMetrics);
     expect(repository.database.prepare).toHaveBeenCalledWith(
-      `UPDATE south_metrics SET metrics_start = ?, nb_values = ?, nb_files = ?, last_value = ?, last_file = ?, ` +
-        `last_connection = ?, last_run_start = ?, last_run_duration = ? WHERE south_id = ?;`
+      `UPDATE south_metrics SET metrics_start = ?, nb_values = ?, nb_values_suppressed = ?, nb_files = ?, last_value = ?, last_file = ?, ` +
+        `last_connection = ?, last_run_start = ?, last_run_duration = ?, last_norths_reached = ?, backpressured = ? WHERE south_id = ?;`
     );
     expect(run).toHaveBeenCalledWith(
       newConnectorMetrics.metricsStart,
       newConnectorMetrics.numberOfValuesRetrieved,
+      newConnectorMetrics.numberOfValuesSuppressed,
       newConnectorMetrics.numberOfFilesRetrieved,
       JSON.stringify(newConnectorMetrics.lastValueRetrieved),
       newConnectorMetrics.lastFileRetrieved,
       newConnectorMetrics.lastConnection,
       newConnectorMetrics.lastRunStart,
       newConnectorMetrics.lastRunDuration,
+      newConnectorMetrics.lastNumberOfNorthsReached,
+      0,
       'southId'
     );
 
     const connectorMetricsWithNullValue: SouthConnectorMetrics = {
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: null,
       lastFileRetrieved: 'myFile',
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
+      lastNumberOfNorthsReached: 2,
+      backpressured: false,
       historyMetrics: {}
     };
 
@@ -138,12 +160,15 @@ describe('SouthConnectorMetricsRepository', () => {
     expect(run).toHaveBeenCalledWith(
       newConnectorMetrics.metricsStart,
       newConnectorMetrics.numberOfValuesRetrieved,
+      newConnectorMetrics.numberOfValuesSuppressed,
       newConnectorMetrics.numberOfFilesRetrieved,
       null,
       newConnectorMetrics.lastFileRetrieved,
       newConnectorMetrics.lastConnection,
       newConnectorMetrics.lastRunStart,
       newConnectorMetrics.lastRunDuration,
+      newConnectorMetrics.lastNumberOfNorthsReached,
+      0,
       'southId'
     );
   });
@@ -18,47 +18,54 @@ export default class SouthConnectorMetricsRepository {
     const foundMetrics = this.getMetrics(southId);
     if (!foundMetrics) {
       const insertQuery =
-        `INSERT INTO ${SOUTH_METRICS_TABLE} (south_id, metrics_start, nb_values, nb_files, ` +
-        `last_value, last_file, last_connection, last_run_start, last_run_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);`;
-      this._database.prepare(insertQuery).run(southId, DateTime.now().toUTC().toISO(), 0, 0, null, null, null, null, null);
+        `INSERT INTO ${SOUTH_METRICS_TABLE} (south_id, metrics_start, nb_values, nb_values_suppressed, nb_files, ` +
+        `last_value, last_file, last_connection, last_run_start, last_run_duration, last_norths_reached, backpressured) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`;
+      this._database.prepare(insertQuery).run(southId, DateTime.now().toUTC().toISO(), 0, 0, 0, null, null, null, null, null, null, 0);
     }
   }
 
   getMetrics(southId: string): SouthConnectorMetrics | null {
     const query =
-      `SELECT metrics_start AS metricsStart, nb_values AS numberOfValuesRetrieved, nb_files AS numberOfFilesRetrieved, ` +
+      `SELECT metrics_start AS metricsStart, nb_values AS numberOfValuesRetrieved, nb_values_suppressed AS numberOfValuesSuppressed, ` +
+      `nb_files AS numberOfFilesRetrieved, ` +
       `last_value AS lastValueRetrieved, last_file AS lastFileRetrieved, last_connection AS lastConnection, last_run_start AS lastRunStart, ` +
-      `last_run_duration AS lastRunDuration FROM ${SOUTH_METRICS_TABLE} WHERE south_id = ?;`;
+      `last_run_duration AS lastRunDuration, last_norths_reached AS lastNumberOfNorthsReached, backpressured FROM ${SOUTH_METRICS_TABLE} WHERE south_id = ?;`;
     const result: any = this._database.prepare(query).get(southId);
     if (!result) return null;
     return {
       metricsStart: result.metricsStart,
       numberOfValuesRetrieved: result.numberOfValuesRetrieved,
+      numberOfValuesSuppressed: result.numberOfValuesSuppressed,
       numberOfFilesRetrieved: result.numberOfFilesRetrieved,
       lastValueRetrieved: result.lastValueRetrieved ? JSON.parse(result.lastValueRetrieved) : null,
       lastFileRetrieved: result.lastFileRetrieved,
       lastConnection: result.lastConnection,
       lastRunStart: result.lastRunStart,
       lastRunDuration: result.lastRunDuration,
+      lastNumberOfNorthsReached: result.lastNumberOfNorthsReached,
+      backpressured: Boolean(result.backpressured),
       historyMetrics: {}
     };
   }
 
   updateMetrics(southId: string, metrics: SouthConnectorMetrics): void {
     const updateQuery =
-      `UPDATE ${SOUTH_METRICS_TABLE} SET metrics_start = ?, nb_values = ?, nb_files = ?, last_value = ?, ` +
-      `last_file = ?, last_connection = ?, last_run_start = ?, last_run_duration = ? WHERE south_id = ?;`;
+      `UPDATE ${SOUTH_METRICS_TABLE} SET metrics_start = ?, nb_values = ?, nb_values_suppressed = ?, nb_files = ?, last_value = ?, ` +
+      `last_file = ?, last_connection = ?, last_run_start = ?, last_run_duration = ?, last_norths_reached = ?, backpressured = ? WHERE south_id = ?;`;
     this._database
       .prepare(updateQuery)
       .run(
         metrics.metricsStart,
         metrics.numberOfValuesRetrieved,
+        metrics.numberOfValuesSuppressed,
         metrics.numberOfFilesRetrieved,
         metrics.lastValueRetrieved ? JSON.stringify(metrics.lastValueRetrieved) : null,
         metrics.lastFileRetrieved,
         metrics.lastConnection,
         metrics.lastRunStart,
         metrics.lastRunDuration,
+        metrics.lastNumberOfNorthsReached,
+        +metrics.backpressured,
         southId
       );
   }
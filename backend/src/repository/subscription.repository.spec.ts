@@ -57,6 +57,35 @@ describe('Subscription repository', () => {
     expect(run).toHaveBeenCalledWith('north1', 'south1');
   });
 
+  it('should get the scripts of the North subscriptions', () => {
+    const expectedValue = [{ southId: 'south1', script: 'content' }];
+    all.mockReturnValueOnce(expectedValue);
+    const scripts = repository.getNorthSubscriptionScripts('north1');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'SELECT south_connector_id AS southId, script FROM subscription WHERE north_connector_id = ? AND script IS NOT NULL;'
+    );
+    expect(all).toHaveBeenCalledWith('north1');
+    expect(scripts).toEqual(expectedValue);
+  });
+
+  it('should get the script of a subscription', () => {
+    get.mockReturnValueOnce({ southId: 'south1', script: 'content' }).mockReturnValueOnce(null);
+    expect(repository.getNorthSubscriptionScript('north1', 'south1')).toEqual({ southId: 'south1', script: 'content' });
+    expect(database.prepare).toHaveBeenCalledWith(
+      'SELECT south_connector_id AS southId, script FROM subscription WHERE north_connector_id = ? AND south_connector_id = ?;'
+    );
+    expect(get).toHaveBeenCalledWith('north1', 'south1');
+    expect(repository.getNorthSubscriptionScript('north1', 'south1')).toBeNull();
+  });
+
+  it('should update the script of a subscription', () => {
+    repository.updateNorthSubscriptionScript('north1', 'south1', 'content');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'UPDATE subscription SET script = ? WHERE north_connector_id = ? AND south_connector_id = ?;'
+    );
+    expect(run).toHaveBeenCalledWith('content', 'north1', 'south1');
+  });
+
   it('should delete a subscription', () => {
     repository.deleteNorthSubscription('north1', 'south1');
     expect(database.prepare).toHaveBeenCalledWith('DELETE FROM subscription WHERE north_connector_id = ? AND south_connector_id = ?;');
@@ -1,5 +1,5 @@
 import { Database } from 'better-sqlite3';
-import { SubscriptionDTO } from '../../../shared/model/subscription.model';
+import { SubscriptionDTO, SubscriptionScriptDTO } from '../../../shared/model/subscription.model';
 
 export const SUBSCRIPTION_TABLE = 'subscription';
 
@@ -47,6 +47,31 @@ export default class SubscriptionRepository {
     this.database.prepare(query).run(northId, southId);
   }
 
+  /**
+   * Retrieve the scripts set on the subscriptions of a given North connector
+   */
+  getNorthSubscriptionScripts(northId: string): Array<SubscriptionScriptDTO> {
+    const query = `SELECT south_connector_id AS southId, script FROM ${SUBSCRIPTION_TABLE} WHERE north_connector_id = ? AND script IS NOT NULL;`;
+    return this.database.prepare(query).all(northId) as Array<SubscriptionScriptDTO>;
+  }
+
+  /**
+   * Retrieve the script set on a subscription
+   */
+  getNorthSubscriptionScript(northId: string, southId: string): SubscriptionScriptDTO | null {
+    const query = `SELECT south_connector_id AS southId, script FROM ${SUBSCRIPTION_TABLE} WHERE north_connector_id = ? AND south_connector_id = ?;`;
+    const result = this.database.prepare(query).get(northId, southId);
+    return result ? (result as SubscriptionScriptDTO) : null;
+  }
+
+  /**
+   * Set or remove (with a null script) the script of a subscription
+   */
+  updateNorthSubscriptionScript(northId: string, southId: string, script: string | null): void {
+    const query = `UPDATE ${SUBSCRIPTION_TABLE} SET script = ? WHERE north_connector_id = ? AND south_connector_id = ?;`;
+    this.database.prepare(query).run(script, northId, southId);
+  }
+
   /**
    * Delete a subscription for a given North connector
    */
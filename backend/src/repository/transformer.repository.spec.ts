@@ -0,0 +1,153 @@
+import TransformerRepository from './transformer.repository';
+import SqliteDatabaseMock, { all, get, run } from '../tests/__mocks__/database.mock';
+import { Database } from 'better-sqlite3';
+import { TransformerCommandDTO, TransformerDTO } from '../../../shared/model/transformer.model';
+
+jest.mock('../tests/__mocks__/database.mock');
+jest.mock('../service/utils', () => ({
+  generateRandomId: jest.fn(() => '123456')
+}));
+
+let database: Database;
+let repository: TransformerRepository;
+describe('Transformer repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    database = new SqliteDatabaseMock();
+    database.prepare = jest.fn().mockReturnValue({
+      run,
+      get,
+      all
+    });
+    repository = new TransformerRepository(database);
+  });
+
+  it('should properly get transformers of a South connector', () => {
+    const expectedValue: Array<TransformerDTO> = [
+      {
+        id: 'id1',
+        southId: 'southId',
+        type: 'scaling',
+        enabled: true,
+        position: 0,
+        pointIdFilter: null,
+        settings: { multiplier: 2, offset: 0 }
+      },
+      {
+        id: 'id2',
+        southId: 'southId',
+        type: 'rename',
+        enabled: false,
+        position: 1,
+        pointIdFilter: '^point',
+        settings: { regExp: '^point', replacement: 'tag' }
+      }
+    ];
+    all.mockReturnValueOnce(
+      expectedValue.map(transformer => ({
+        ...transformer,
+        enabled: +transformer.enabled,
+        settings: JSON.stringify(transformer.settings)
+      }))
+    );
+    const transformers = repository.getTransformers('southId');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'SELECT id, south_id AS southId, type, enabled, position, point_id_filter AS pointIdFilter, settings ' +
+        'FROM transformers WHERE south_id = ? ORDER BY position;'
+    );
+    expect(all).toHaveBeenCalledWith('southId');
+    expect(transformers).toEqual(expectedValue);
+  });
+
+  it('should properly get a transformer', () => {
+    const expectedValue: TransformerDTO = {
+      id: 'id1',
+      southId: 'southId',
+      type: 'scaling',
+      enabled: true,
+      position: 0,
+      pointIdFilter: null,
+      settings: { multiplier: 2, offset: 0 }
+    };
+    get.mockReturnValueOnce({ ...expectedValue, enabled: 1, settings: JSON.stringify(expectedValue.settings) });
+    const transformer = repository.getTransformer('id1');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'SELECT id, south_id AS southId, type, enabled, position, point_id_filter AS pointIdFilter, settings ' +
+        'FROM transformers WHERE id = ?;'
+    );
+    expect(get).toHaveBeenCalledWith('id1');
+    expect(transformer).toEqual(expectedValue);
+  });
+
+  it('should return null when transformer not found', () => {
+    get.mockReturnValueOnce(null);
+    const transformer = repository.getTransformer('id1');
+    expect(transformer).toBeNull();
+  });
+
+  it('should create a transformer at the end of the South transformers', () => {
+    run.mockReturnValueOnce({ lastInsertRowid: 1 });
+    get.mockReturnValueOnce({ count: 2 }).mockReturnValueOnce({
+      id: '123456',
+      southId: 'southId',
+      type: 'deadband',
+      enabled: 1,
+      position: 2,
+      pointIdFilter: null,
+      settings: JSON.stringify({ deadband: 1, relative: false })
+    });
+    const command: TransformerCommandDTO = {
+      type: 'deadband',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { deadband: 1, relative: false }
+    };
+    const transformer = repository.createTransformer('southId', command);
+    expect(database.prepare).toHaveBeenCalledWith('SELECT COUNT(*) AS count FROM transformers WHERE south_id = ?;');
+    expect(database.prepare).toHaveBeenCalledWith(
+      'INSERT INTO transformers (id, south_id, type, enabled, position, point_id_filter, settings) VALUES (?, ?, ?, ?, ?, ?, ?);'
+    );
+    expect(run).toHaveBeenCalledWith('123456', 'southId', 'deadband', 1, 2, null, JSON.stringify(command.settings));
+    expect(database.prepare).toHaveBeenCalledWith(
+      'SELECT id, south_id AS southId, type, enabled, position, point_id_filter AS pointIdFilter, settings ' +
+        'FROM transformers WHERE ROWID = ?;'
+    );
+    expect(transformer).toEqual({ id: '123456', southId: 'southId', position: 2, ...command });
+  });
+
+  it('should update a transformer', () => {
+    const command: TransformerCommandDTO = {
+      type: 'scaling',
+      enabled: false,
+      pointIdFilter: '^point',
+      settings: { multiplier: 2, offset: 1 }
+    };
+    repository.updateTransformer('id1', command);
+    expect(database.prepare).toHaveBeenCalledWith(
+      'UPDATE transformers SET type = ?, enabled = ?, point_id_filter = ?, settings = ? WHERE id = ?;'
+    );
+    expect(run).toHaveBeenCalledWith('scaling', 0, '^point', JSON.stringify(command.settings), 'id1');
+  });
+
+  it('should order transformers', () => {
+    (database.transaction as jest.Mock).mockImplementationOnce(callback => {
+      return () => callback();
+    });
+    repository.orderTransformers('southId', ['id2', 'id1']);
+    expect(database.prepare).toHaveBeenCalledWith('UPDATE transformers SET position = ? WHERE id = ? AND south_id = ?;');
+    expect(run).toHaveBeenCalledWith(0, 'id2', 'southId');
+    expect(run).toHaveBeenCalledWith(1, 'id1', 'southId');
+  });
+
+  it('should delete a transformer', () => {
+    repository.deleteTransformer('id1');
+    expect(database.prepare).toHaveBeenCalledWith('DELETE FROM transformers WHERE id = ?;');
+    expect(run).toHaveBeenCalledWith('id1');
+  });
+
+  it('should delete all transformers of a South connector', () => {
+    repository.deleteAllTransformers('southId');
+    expect(database.prepare).toHaveBeenCalledWith('DELETE FROM transformers WHERE south_id = ?;');
+    expect(run).toHaveBeenCalledWith('southId');
+  });
+});
@@ -0,0 +1,108 @@
+import { generateRandomId } from '../service/utils';
+import { TransformerCommandDTO, TransformerDTO } from '../../../shared/model/transformer.model';
+import { Database } from 'better-sqlite3';
+
+export const TRANSFORMERS_TABLE = 'transformers';
+
+/**
+ * Repository used for the transformers applied on the values of South connectors
+ */
+export default class TransformerRepository {
+  constructor(private readonly database: Database) {}
+
+  /**
+   * Retrieve all transformers of a South connector, in the order of their position
+   */
+  getTransformers(southId: string): Array<TransformerDTO> {
+    const query =
+      `SELECT id, south_id AS southId, type, enabled, position, point_id_filter AS pointIdFilter, settings ` +
+      `FROM ${TRANSFORMERS_TABLE} WHERE south_id = ? ORDER BY position;`;
+    return this.database
+      .prepare(query)
+      .all(southId)
+      .map((result: any) => this.toTransformerDTO(result));
+  }
+
+  /**
+   * Retrieve a transformer by its ID
+   */
+  getTransformer(id: string): TransformerDTO | null {
+    const query =
+      `SELECT id, south_id AS southId, type, enabled, position, point_id_filter AS pointIdFilter, settings ` +
+      `FROM ${TRANSFORMERS_TABLE} WHERE id = ?;`;
+    const result: any = this.database.prepare(query).get(id);
+    if (!result) return null;
+    return this.toTransformerDTO(result);
+  }
+
+  /**
+   * Create a transformer with a random generated ID, at the end of the transformers of the South connector
+   */
+  createTransformer(southId: string, command: TransformerCommandDTO): TransformerDTO {
+    const id = generateRandomId(6);
+    const positionQuery = `SELECT COUNT(*) AS count FROM ${TRANSFORMERS_TABLE} WHERE south_id = ?;`;
+    const position = (this.database.prepare(positionQuery).get(southId) as { count: number }).count;
+
+    const insertQuery =
+      `INSERT INTO ${TRANSFORMERS_TABLE} (id, south_id, type, enabled, position, point_id_filter, settings) ` +
+      `VALUES (?, ?, ?, ?, ?, ?, ?);`;
+    const insertResult = this.database
+      .prepare(insertQuery)
+      .run(id, southId, command.type, +command.enabled, position, command.pointIdFilter, JSON.stringify(command.settings));
+
+    const query =
+      `SELECT id, south_id AS southId, type, enabled, position, point_id_filter AS pointIdFilter, settings ` +
+      `FROM ${TRANSFORMERS_TABLE} WHERE ROWID = ?;`;
+    const result: any = this.database.prepare(query).get(insertResult.lastInsertRowid);
+    return this.toTransformerDTO(result);
+  }
+
+  /**
+   * Update a transformer by its ID. The position is kept
+   */
+  updateTransformer(id: string, command: TransformerCommandDTO): void {
+    const query = `UPDATE ${TRANSFORMERS_TABLE} SET type = ?, enabled = ?, point_id_filter = ?, settings = ? WHERE id = ?;`;
+    this.database.prepare(query).run(command.type, +command.enabled, command.pointIdFilter, JSON.stringify(command.settings), id);
+  }
+
+  /**
+   * Set the position of the transformers of a South connector from the order of their IDs
+   */
+  orderTransformers(southId: string, transformerIds: Array<string>): void {
+    const update = this.database.prepare(`UPDATE ${TRANSFORMERS_TABLE} SET position = ? WHERE id = ? AND south_id = ?;`);
+    const transaction = this.database.transaction(() => {
+      transformerIds.forEach((transformerId, position) => {
+        update.run(position, transformerId, southId);
+      });
+    });
+    transaction();
+  }
+
+  /**
+   * Delete a transformer by its ID
+   */
+  deleteTransformer(id: string): void {
+    const query = `DELETE FROM ${TRANSFORMERS_TABLE} WHERE id = ?;`;
+    this.database.prepare(query).run(id);
+  }
+
+  /**
+   * Delete all transformers of a South connector
+   */
+  deleteAllTransformers(southId: string): void {
+    const query = `DELETE FROM ${TRANSFORMERS_TABLE} WHERE south_id = ?;`;
+    this.database.prepare(query).run(southId);
+  }
+
+  private toTransformerDTO(result: any): TransformerDTO {
+    return {
+      id: result.id,
+      southId: result.southId,
+      type: result.type,
+      enabled: Boolean(result.enabled),
+      position: result.position,
+      pointIdFilter: result.pointIdFilter,
+      settings: JSON.parse(result.settings)
+    };
+  }
+}
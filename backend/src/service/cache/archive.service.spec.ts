@@ -218,6 +218,33 @@ describe('ArchiveService', () => {
       expect(logger.error).toHaveBeenCalledTimes(1);
     });
 
+    it('should remove the oldest archived file', async () => {
+      const cacheSizeListener = jest.fn();
+      archiveService.triggerRun.on('cache-size', cacheSizeListener);
+      (fs.readdir as jest.Mock).mockImplementation(() => ['file1', 'file2']);
+      (fs.stat as jest.Mock)
+        .mockReturnValueOnce({ mtimeMs: DateTime.fromISO('2030-02-02T02:02:02.222Z').toMillis(), size: 100 })
+        .mockReturnValueOnce({ mtimeMs: DateTime.fromISO('2000-02-02T02:02:02.222Z').toMillis(), size: 60 });
+
+      expect(await archiveService.removeOldestFile()).toEqual(true);
+      expect(fs.unlink).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'archive', 'file2'));
+      expect(logger.debug).toHaveBeenCalledWith(`Oldest archived file "${path.resolve('myCacheFolder', 'archive', 'file2')}" removed`);
+      expect(cacheSizeListener).toHaveBeenCalledWith(-60);
+
+      (fs.stat as jest.Mock).mockReturnValue({ mtimeMs: DateTime.fromISO('2000-02-02T02:02:02.222Z').toMillis(), size: 60 });
+      (fs.unlink as jest.Mock).mockImplementationOnce(() => {
+        throw new Error(`Can't remove file`);
+      });
+      expect(await archiveService.removeOldestFile()).toEqual(false);
+      expect(logger.error).toHaveBeenCalledWith(
+        `Unable to remove archived file "${path.resolve('myCacheFolder', 'archive', 'file1')}": ${new Error(`Can't remove file`)}`
+      );
+      expect(cacheSizeListener).toHaveBeenCalledTimes(1);
+
+      (fs.readdir as jest.Mock).mockImplementation(() => []);
+      expect(await archiveService.removeOldestFile()).toEqual(false);
+    });
+
     it('should remove all archived files', async () => {
       const filenames = ['file1', 'file2', 'file3'];
       (fs.readdir as jest.Mock).mockImplementation(() => filenames);
@@ -193,6 +193,26 @@ export default class ArchiveService {
     }
   }
 
+  /**
+   * Remove the oldest archived file. Return false if there is no file that could be removed
+   */
+  async removeOldestFile(): Promise<boolean> {
+    const [oldestFile] = (await this.getArchiveFiles('', '', '')).sort((a, b) => a.modificationDate.localeCompare(b.modificationDate));
+    if (!oldestFile) {
+      return false;
+    }
+    const filePath = path.resolve(this.archiveFolder, oldestFile.filename);
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      this._logger.error(`Unable to remove archived file "${filePath}": ${error}`);
+      return false;
+    }
+    this._logger.debug(`Oldest archived file "${filePath}" removed`);
+    this.triggerRun.emit('cache-size', -oldestFile.size);
+    return true;
+  }
+
   /**
    * Remove all archive files.
    */
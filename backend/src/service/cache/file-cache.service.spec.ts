@@ -95,6 +95,17 @@ describe('FileCache without sendFileImmediately', () => {
     );
   });
 
+  it('should properly cache file with a prefix', async () => {
+    (fs.stat as jest.Mock).mockImplementation(() => ({ size: 123 }));
+
+    await cache.cacheFile('myFile.csv', true, 'history-historyId-');
+
+    expect(fs.copyFile).toHaveBeenCalledWith(
+      'myFile.csv',
+      path.resolve('myCacheFolder', 'files', 'history-historyId-myFile-1580608922222.csv')
+    );
+  });
+
   it('should properly cache file without appending timestamp', async () => {
     (fs.stat as jest.Mock).mockImplementation(() => ({ size: 123 }));
 
@@ -319,6 +330,22 @@ describe('FileCache without sendFileImmediately', () => {
     ]);
   });
 
+  it('should remove the oldest file of the queue except the file being sent', async () => {
+    (fs.stat as jest.Mock).mockImplementation(() => ({ size: 123 }));
+    expect(await cache.removeOldestFile(null)).toEqual(false);
+
+    await cache.cacheFile('myFile1.csv');
+    await cache.cacheFile('myFile2.csv');
+    const cacheSizeListener = jest.fn();
+    cache.triggerRun.on('cache-size', cacheSizeListener);
+
+    expect(await cache.removeOldestFile(path.resolve('myCacheFolder', 'files', 'myFile1-1580608922222.csv'))).toEqual(true);
+    expect(fs.unlink).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'files', 'myFile2-1580608922222.csv'));
+    expect(cacheSizeListener).toHaveBeenCalledWith(-123);
+    expect(cache['filesQueue']).toEqual([path.resolve('myCacheFolder', 'files', 'myFile1-1580608922222.csv')]);
+    expect(await cache.removeOldestFile(path.resolve('myCacheFolder', 'files', 'myFile1-1580608922222.csv'))).toEqual(false);
+  });
+
   it('should properly get error files', async () => {
     await cache.getErrorFiles('2020-02-02T02:02:02.222Z', '2020-02-03T02:02:02.222Z', 'file');
     expect(getFilesFiltered).toHaveBeenCalled();
@@ -128,16 +128,16 @@ export default class FileCacheService {
   }
 
   /**
-   * Cache a new file from a South connector
+   * Cache a new file from a South connector. The prefix tags the cached file name (with history queries for example)
    */
-  async cacheFile(filePath: string, appendTimestamp = true): Promise<void> {
+  async cacheFile(filePath: string, appendTimestamp = true, prefix = ''): Promise<void> {
     const timestamp = new Date().getTime();
     // When compressed file is received the name looks like filename.txt.gz
     const filenameInfo = path.parse(filePath);
 
     const cacheFilename = appendTimestamp
-      ? `${filenameInfo.name}-${timestamp}${filenameInfo.ext}`
-      : `${filenameInfo.name}${filenameInfo.ext}`;
+      ? `${prefix}${filenameInfo.name}-${timestamp}${filenameInfo.ext}`
+      : `${prefix}${filenameInfo.name}${filenameInfo.ext}`;
     const cachePath = path.resolve(this._fileFolder, cacheFilename);
 
     await fs.copyFile(filePath, cachePath);
@@ -215,6 +215,18 @@ export default class FileCacheService {
     }
   }
 
+  /**
+   * Remove the oldest file of the queue, except the one being sent. Return false if there is no file to remove
+   */
+  async removeOldestFile(fileToKeep: string | null): Promise<boolean> {
+    const oldestFile = this.filesQueue.find(file => file !== fileToKeep);
+    if (!oldestFile) {
+      return false;
+    }
+    await this.removeFiles(this._fileFolder, [path.basename(oldestFile)]);
+    return true;
+  }
+
   /**
    * Retry error files.
    */
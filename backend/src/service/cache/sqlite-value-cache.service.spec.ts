@@ -0,0 +1,300 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import db from 'better-sqlite3';
+import pino from 'pino';
+
+import SqliteValueCacheService from './sqlite-value-cache.service';
+import PinoLogger from '../../tests/__mocks__/logger.mock';
+import { NorthCacheSettingsDTO } from '../../../../shared/model/north-connector.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+
+const run = jest.fn();
+const get = jest.fn();
+const all = jest.fn();
+const iterate = jest.fn();
+const mockDatabase = {
+  prepare: jest.fn(() => ({ run, get, all, iterate })),
+  transaction: jest.fn(callback => callback),
+  pragma: jest.fn(),
+  exec: jest.fn(),
+  close: jest.fn()
+};
+jest.mock('better-sqlite3', () => jest.fn(() => mockDatabase));
+jest.mock('node:fs');
+jest.mock('../utils', () => ({
+  generateRandomId: jest.fn(() => 'generated-id')
+}));
+
+const logger: pino.Logger = new PinoLogger();
+const anotherLogger: pino.Logger = new PinoLogger();
+
+const nowDateString = '2020-02-02T02:02:02.222Z';
+const values: Array<OIBusTimeValue> = [
+  { pointId: 'point1', timestamp: nowDateString, data: { value: '1' } },
+  { pointId: 'point2', timestamp: nowDateString, data: { value: '2' } }
+];
+let settings: NorthCacheSettingsDTO;
+let cache: SqliteValueCacheService;
+
+describe('SqliteValueCacheService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(nowDateString));
+    settings = {
+      scanModeId: 'id1',
+      retryInterval: 5000,
+      retryCount: 3,
+      maxSize: 1000,
+      overflowPolicy: 'drop-newest',
+      oibusTimeValues: {
+        groupCount: 3,
+        maxSendCount: 4,
+        storage: 'sqlite'
+      }
+    } as NorthCacheSettingsDTO;
+
+    cache = new SqliteValueCacheService(logger, 'myCacheFolder', settings);
+    cache.triggerRun.emit = jest.fn();
+  });
+
+  it('should be properly initialized with values in cache', async () => {
+    get.mockReturnValueOnce({ numberOfGroups: 2, numberOfValues: 5 });
+    await cache.start();
+
+    expect(fs.mkdirSync).toHaveBeenCalledWith(path.resolve('myCacheFolder'), { recursive: true });
+    expect(db).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'values.db'));
+    expect(mockDatabase.pragma).toHaveBeenCalledWith('journal_mode = WAL');
+    expect(mockDatabase.exec).toHaveBeenCalledWith(
+      'CREATE TABLE IF NOT EXISTS cache_values (id TEXT PRIMARY KEY, created_at TEXT NOT NULL, values_count INTEGER NOT NULL, ' +
+        'content TEXT NOT NULL, error INTEGER NOT NULL DEFAULT 0, error_count INTEGER NOT NULL DEFAULT 0, errored_at TEXT);' +
+        'CREATE INDEX IF NOT EXISTS cache_values_error ON cache_values (error, errored_at);'
+    );
+    expect(mockDatabase.prepare).toHaveBeenCalledWith(
+      'SELECT COUNT(*) AS numberOfGroups, TOTAL(values_count) AS numberOfValues FROM cache_values WHERE error = 0;'
+    );
+    expect(logger.debug).toHaveBeenCalledWith('5 values in 2 groups in cache');
+  });
+
+  it('should be properly initialized without value in cache', async () => {
+    get.mockReturnValueOnce({ numberOfGroups: 0, numberOfValues: 0 });
+    await cache.start();
+    expect(logger.debug).toHaveBeenCalledWith('No value in cache');
+  });
+
+  it('should cache values', async () => {
+    get.mockReturnValueOnce({ numberOfValues: 2 }).mockReturnValueOnce({ numberOfValues: 4 });
+    await cache.cacheValues(values);
+
+    expect(mockDatabase.prepare).toHaveBeenCalledWith(
+      'INSERT INTO cache_values (id, created_at, values_count, content) VALUES (?, ?, ?, ?);'
+    );
+    expect(run).toHaveBeenCalledWith('generated-id', nowDateString, 2, JSON.stringify(values));
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('cache-size', Buffer.byteLength(JSON.stringify(values)));
+    expect(cache.triggerRun.emit).not.toHaveBeenCalledWith('next');
+
+    await cache.cacheValues(values, 'history-historyId-');
+    expect(run).toHaveBeenCalledWith('history-historyId-generated-id', nowDateString, 2, JSON.stringify(values));
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('next');
+  });
+
+  it('should get values to send up to the max send count', async () => {
+    iterate.mockReturnValueOnce(
+      [
+        { id: 'group1', valuesCount: 2, content: JSON.stringify(values) },
+        { id: 'group2', valuesCount: 1, content: JSON.stringify([values[0]]) },
+        { id: 'group3', valuesCount: 2, content: JSON.stringify(values) }
+      ][Symbol.iterator]()
+    );
+    expect(await cache.getValuesToSend()).toEqual(
+      new Map([
+        ['group1', values],
+        ['group2', [values[0]]]
+      ])
+    );
+    expect(mockDatabase.prepare).toHaveBeenCalledWith(
+      'SELECT id, values_count AS valuesCount, content FROM cache_values WHERE error = 0 ORDER BY ROWID;'
+    );
+    expect(logger.trace).toHaveBeenCalledWith('Retrieving 3 values from 2 groups');
+
+    iterate.mockReturnValueOnce([{ id: 'group4', valuesCount: 10, content: JSON.stringify(values) }][Symbol.iterator]());
+    expect(await cache.getValuesToSend()).toEqual(new Map([['group4', values]]));
+  });
+
+  it('should remove sent values', async () => {
+    get.mockReturnValueOnce({ size: 100 }).mockReturnValueOnce(undefined);
+    await cache.removeSentValues(
+      new Map([
+        ['group1', values],
+        ['group2', values]
+      ])
+    );
+
+    expect(mockDatabase.transaction).toHaveBeenCalledTimes(1);
+    expect(mockDatabase.prepare).toHaveBeenCalledWith(
+      'SELECT LENGTH(CAST(content AS BLOB)) AS size FROM cache_values WHERE id = ? AND error = ?;'
+    );
+    expect(mockDatabase.prepare).toHaveBeenCalledWith('DELETE FROM cache_values WHERE id = ? AND error = ?;');
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith('group1', 0);
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('cache-size', -100);
+  });
+
+  it('should remove all values', async () => {
+    all.mockReturnValueOnce([{ id: 'group1' }, { id: 'group2' }]);
+    get.mockReturnValue({ size: 100 });
+    await cache.removeAllValues();
+
+    expect(mockDatabase.prepare).toHaveBeenCalledWith('SELECT id FROM cache_values WHERE error = ? ORDER BY ROWID;');
+    expect(all).toHaveBeenCalledWith(0);
+    expect(run).toHaveBeenCalledWith('group1', 0);
+    expect(run).toHaveBeenCalledWith('group2', 0);
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('cache-size', -200);
+    get.mockReset();
+  });
+
+  it('should remove the oldest values except the ones being sent', async () => {
+    all.mockReturnValueOnce([{ id: 'group1' }, { id: 'group2' }]);
+    get.mockReturnValueOnce({ size: 100 });
+    expect(await cache.removeOldestValues(['group1'])).toEqual(true);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith('group2', 0);
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('cache-size', -100);
+
+    all.mockReturnValueOnce([{ id: 'group1' }]);
+    expect(await cache.removeOldestValues(['group1'])).toEqual(false);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should manage errored values', async () => {
+    await cache.manageErroredValues(new Map([['group1', values]]), 4);
+
+    expect(mockDatabase.prepare).toHaveBeenCalledWith('UPDATE cache_values SET error = 1, error_count = ?, errored_at = ? WHERE id = ?;');
+    expect(run).toHaveBeenCalledWith(4, nowDateString, 'group1');
+    expect(logger.warn).toHaveBeenCalledWith('Values group "group1" (2 values) moved to the error cache after 4 errors');
+  });
+
+  it('should check if cache is empty', async () => {
+    get.mockReturnValueOnce({ numberOfValues: 0 }).mockReturnValueOnce({ numberOfValues: 2 });
+    expect(await cache.isEmpty()).toBeTruthy();
+    expect(await cache.isEmpty()).toBeFalsy();
+  });
+
+  it('should return the prefix of a group of values', () => {
+    expect(cache.getValuesPrefix('history-historyId-abc')).toEqual('history-historyId-');
+    expect(cache.getValuesPrefix('abc')).toEqual('');
+  });
+
+  it('should return the size of the content of the values', () => {
+    get.mockReturnValueOnce({ size: 123 });
+    expect(cache.getCacheSize()).toEqual(123);
+    expect(mockDatabase.prepare).toHaveBeenCalledWith('SELECT TOTAL(LENGTH(CAST(content AS BLOB))) AS size FROM cache_values;');
+  });
+
+  it('should return metadata from queue', () => {
+    all.mockReturnValueOnce([
+      { id: 'group1', valuesCount: 2 },
+      { id: 'other', valuesCount: 3 }
+    ]);
+    expect(cache.getQueuedFilesMetadata('GROUP')).toEqual([{ filename: 'group1', valuesCount: 2 }]);
+  });
+
+  it('should remove queued values', async () => {
+    get.mockReturnValueOnce({ size: 100 });
+    await cache.removeQueuedValues(['group1']);
+    expect(run).toHaveBeenCalledWith('group1', 0);
+  });
+
+  it('should return metadata about errored values', async () => {
+    all.mockReturnValue([
+      { id: 'group1', erroredAt: nowDateString, size: 100 },
+      { id: 'other', erroredAt: nowDateString, size: 200 }
+    ]);
+    expect(await cache.getErrorValueFiles('2020-02-01T00:00:00.000+01:00', '', 'group')).toEqual([
+      { filename: 'group1', modificationDate: nowDateString, size: 100 }
+    ]);
+    expect(mockDatabase.prepare).toHaveBeenCalledWith(
+      'SELECT id, errored_at AS erroredAt, LENGTH(CAST(content AS BLOB)) AS size FROM cache_values ' +
+        'WHERE error = 1 AND (? IS NULL OR errored_at >= ?) AND (? IS NULL OR errored_at <= ?) ORDER BY errored_at;'
+    );
+    expect(all).toHaveBeenCalledWith('2020-01-31T23:00:00.000Z', '2020-01-31T23:00:00.000Z', null, null);
+
+    expect(await cache.getErrorValueFiles('', nowDateString, '')).toEqual([
+      { filename: 'group1', modificationDate: nowDateString, size: 100 },
+      { filename: 'other', modificationDate: nowDateString, size: 200 }
+    ]);
+    expect(all).toHaveBeenCalledWith(null, null, nowDateString, nowDateString);
+    all.mockReset();
+  });
+
+  it('should remove errored values', async () => {
+    get.mockReturnValueOnce({ size: 100 });
+    await cache.removeErrorValues(['group1']);
+    expect(run).toHaveBeenCalledWith('group1', 1);
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('cache-size', -100);
+  });
+
+  it('should remove all errored values', async () => {
+    all.mockReturnValueOnce([{ id: 'group1' }]).mockReturnValueOnce([]);
+    get.mockReturnValueOnce({ size: 100 });
+    await cache.removeAllErrorValues();
+    expect(all).toHaveBeenCalledWith(1);
+    expect(run).toHaveBeenCalledWith('group1', 1);
+    expect(logger.debug).toHaveBeenCalledWith('Removing 1 groups of values from the error cache');
+
+    await cache.removeAllErrorValues();
+    expect(logger.debug).toHaveBeenCalledWith('The error value cache is empty. Nothing to delete');
+  });
+
+  it('should retry errored values', async () => {
+    get.mockReturnValueOnce({ numberOfValues: 2 }).mockReturnValueOnce({ numberOfValues: 3 });
+    await cache.retryErrorValues(['group1', 'group2']);
+
+    expect(mockDatabase.prepare).toHaveBeenCalledWith(
+      'UPDATE cache_values SET error = 0, error_count = 0, errored_at = NULL WHERE id = ? AND error = 1;'
+    );
+    expect(run).toHaveBeenCalledWith('group1');
+    expect(run).toHaveBeenCalledWith('group2');
+    expect(cache.triggerRun.emit).not.toHaveBeenCalled();
+
+    await cache.retryErrorValues(['group3']);
+    expect(cache.triggerRun.emit).toHaveBeenCalledWith('next');
+  });
+
+  it('should retry all errored values', async () => {
+    cache.retryErrorValues = jest.fn();
+    all.mockReturnValueOnce([{ id: 'group1' }]).mockReturnValueOnce([]);
+    await cache.retryAllErrorValues();
+    expect(cache.retryErrorValues).toHaveBeenCalledWith(['group1']);
+    expect(logger.debug).toHaveBeenCalledWith('Retrying 1 groups of values from the error cache');
+
+    await cache.retryAllErrorValues();
+    expect(logger.debug).toHaveBeenCalledWith('The error value cache is empty. Nothing to retry');
+  });
+
+  it('should close the database when stopping', async () => {
+    await cache.stop();
+    expect(mockDatabase.close).not.toHaveBeenCalled();
+
+    get.mockReturnValueOnce({ numberOfGroups: 0, numberOfValues: 0 });
+    await cache.start();
+    await cache.stop();
+    expect(mockDatabase.close).toHaveBeenCalledTimes(1);
+
+    get.mockReturnValueOnce({ numberOfGroups: 0, numberOfValues: 0 });
+    await cache.start();
+    expect(db).toHaveBeenCalledTimes(2);
+  });
+
+  it('should properly change logger and settings', async () => {
+    cache.setLogger(anotherLogger);
+    cache.settings = { ...settings, oibusTimeValues: { ...settings.oibusTimeValues, groupCount: 10 } };
+    get.mockReturnValueOnce({ numberOfValues: 4 });
+    await cache.cacheValues(values);
+    expect(cache.triggerRun.emit).not.toHaveBeenCalledWith('next');
+
+    get.mockReturnValueOnce({ numberOfGroups: 0, numberOfValues: 0 });
+    await cache.start();
+    expect(anotherLogger.debug).toHaveBeenCalledWith('No value in cache');
+  });
+});
@@ -0,0 +1,313 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { EventEmitter } from 'node:events';
+
+import db, { Database } from 'better-sqlite3';
+import { DateTime } from 'luxon';
+import pino from 'pino';
+
+import { generateRandomId } from '../utils';
+import { NorthCacheFiles, NorthCacheSettingsDTO, NorthValueFiles } from '../../../../shared/model/north-connector.model';
+import { OIBusTimeValue } from '../../../../shared/model/engine.model';
+import { Instant } from '../../../../shared/model/types';
+
+const DATABASE_FILE = 'values.db';
+// Without VACUUM, the database and its WAL keep their size on disk when values are removed: they are not counted in
+// the size of the cache, which uses the size of the content of the values instead
+export const DATABASE_FILES = [DATABASE_FILE, `${DATABASE_FILE}-wal`, `${DATABASE_FILE}-shm`];
+const VALUES_TABLE = 'cache_values';
+const PREFIXED_ID_REGEX = /^(.+-)[^-]+$/;
+
+/**
+ * Local cache implementation storing the values in a SQLite database instead of files. Each group of cached values is a
+ * row of the database (its ID is used as filename by the cache API), sent groups are removed in a transaction and groups
+ * in error are flagged in the same table.
+ */
+export default class SqliteValueCacheService {
+  private _logger: pino.Logger;
+  private readonly baseFolder: string;
+  private _database: Database | null = null;
+
+  private _triggerRun: EventEmitter = new EventEmitter();
+
+  constructor(
+    logger: pino.Logger,
+    baseFolder: string,
+    private _settings: NorthCacheSettingsDTO
+  ) {
+    this._logger = logger;
+    this.baseFolder = path.resolve(baseFolder);
+  }
+
+  /**
+   * Open the database and count the values stored in the cache to log it
+   */
+  async start(): Promise<void> {
+    const { numberOfGroups, numberOfValues } = this.database
+      .prepare(`SELECT COUNT(*) AS numberOfGroups, TOTAL(values_count) AS numberOfValues FROM ${VALUES_TABLE} WHERE error = 0;`)
+      .get() as { numberOfGroups: number; numberOfValues: number };
+    if (numberOfValues > 0) {
+      this._logger.debug(`${numberOfValues} values in ${numberOfGroups} groups in cache`);
+    } else {
+      this._logger.debug('No value in cache');
+    }
+  }
+
+  /**
+   * Persist values as a new group in the database. The prefix starts the ID of the group (with history queries for example)
+   */
+  async cacheValues(values: Array<OIBusTimeValue>, prefix = ''): Promise<void> {
+    const content = JSON.stringify(values);
+    this.database
+      .prepare(`INSERT INTO ${VALUES_TABLE} (id, created_at, values_count, content) VALUES (?, ?, ?, ?);`)
+      .run(`${prefix}${generateRandomId()}`, DateTime.now().toUTC().toISO(), values.length, content);
+    this.triggerRun.emit('cache-size', Buffer.byteLength(content));
+
+    if (this.countQueuedValues() >= this._settings.oibusTimeValues.groupCount) {
+      this.triggerRun.emit('next');
+    }
+  }
+
+  /**
+   * Retrieve the oldest groups of values, up to the max send count (but at least one group), by group ID
+   */
+  async getValuesToSend(): Promise<Map<string, Array<OIBusTimeValue>>> {
+    const valuesToSend: Map<string, Array<OIBusTimeValue>> = new Map();
+    let numberOfValues = 0;
+    const groups = this.database
+      .prepare(`SELECT id, values_count AS valuesCount, content FROM ${VALUES_TABLE} WHERE error = 0 ORDER BY ROWID;`)
+      .iterate() as IterableIterator<{ id: string; valuesCount: number; content: string }>;
+    for (const group of groups) {
+      if (valuesToSend.size > 0 && numberOfValues + group.valuesCount > this._settings.oibusTimeValues.maxSendCount) {
+        break;
+      }
+      valuesToSend.set(group.id, JSON.parse(group.content));
+      numberOfValues += group.valuesCount;
+    }
+    this._logger.trace(`Retrieving ${numberOfValues} values from ${valuesToSend.size} groups`);
+    return valuesToSend;
+  }
+
+  /**
+   * Remove the sent groups of values in a single transaction
+   */
+  async removeSentValues(sentValues: Map<string, Array<OIBusTimeValue>>): Promise<void> {
+    this.removeGroups([...sentValues.keys()], 0);
+  }
+
+  /**
+   * Remove all the values from the queue
+   */
+  async removeAllValues(): Promise<void> {
+    this.removeGroups(this.listGroupIds(0), 0);
+  }
+
+  /**
+   * Remove the oldest group of values, except the ones being sent. Return false if there is no group of values to remove
+   */
+  async removeOldestValues(keysToKeep: Array<string>): Promise<boolean> {
+    const oldestId = this.listGroupIds(0).find(id => !keysToKeep.includes(id));
+    if (!oldestId) {
+      return false;
+    }
+    this.removeGroups([oldestId], 0);
+    return true;
+  }
+
+  /**
+   * Flag the groups of values as errored, keeping them in the database
+   */
+  async manageErroredValues(values: Map<string, Array<OIBusTimeValue>>, errorCount: number): Promise<void> {
+    const erroredAt = DateTime.now().toUTC().toISO();
+    const statement = this.database.prepare(`UPDATE ${VALUES_TABLE} SET error = 1, error_count = ?, errored_at = ? WHERE id = ?;`);
+    this.database.transaction(() => {
+      for (const id of values.keys()) {
+        statement.run(errorCount, erroredAt, id);
+      }
+    })();
+    for (const [id, groupValues] of values.entries()) {
+      this._logger.warn(`Values group "${id}" (${groupValues.length} values) moved to the error cache after ${errorCount} errors`);
+    }
+  }
+
+  /**
+   * Return the prefix of a group of values, which starts its ID
+   */
+  getValuesPrefix(id: string): string {
+    return id.match(PREFIXED_ID_REGEX)?.[1] ?? '';
+  }
+
+  /**
+   * Return the size of the content of all the groups of values, queued or errored
+   */
+  getCacheSize(): number {
+    const { size } = this.database.prepare(`SELECT TOTAL(LENGTH(CAST(content AS BLOB))) AS size FROM ${VALUES_TABLE};`).get() as {
+      size: number;
+    };
+    return size;
+  }
+
+  /**
+   * Check if the value cache is empty or not
+   */
+  async isEmpty(): Promise<boolean> {
+    return this.countQueuedValues() === 0;
+  }
+
+  /**
+   * Returns metadata about the groups of values in the queue
+   */
+  getQueuedFilesMetadata(fileNameContains: string): Array<NorthValueFiles> {
+    return (
+      this.database.prepare(`SELECT id, values_count AS valuesCount FROM ${VALUES_TABLE} WHERE error = 0 ORDER BY ROWID;`).all() as Array<{
+        id: string;
+        valuesCount: number;
+      }>
+    )
+      .map(group => ({ filename: group.id, valuesCount: group.valuesCount }))
+      .filter(group => group.filename.toUpperCase().includes(fileNameContains.toUpperCase()));
+  }
+
+  /**
+   * Remove groups of values from the queue
+   */
+  async removeQueuedValues(filenames: Array<string>): Promise<void> {
+    this.removeGroups(filenames, 0);
+  }
+
+  /**
+   * Returns metadata about the errored groups of values
+   */
+  async getErrorValueFiles(fromDate: Instant, toDate: Instant, nameFilter: string): Promise<Array<NorthCacheFiles>> {
+    const query =
+      `SELECT id, errored_at AS erroredAt, LENGTH(CAST(content AS BLOB)) AS size FROM ${VALUES_TABLE} ` +
+      `WHERE error = 1 AND (? IS NULL OR errored_at >= ?) AND (? IS NULL OR errored_at <= ?) ORDER BY errored_at;`;
+    const from = fromDate ? DateTime.fromISO(fromDate).toUTC().toISO() : null;
+    const to = toDate ? DateTime.fromISO(toDate).toUTC().toISO() : null;
+    return (this.database.prepare(query).all(from, from, to, to) as Array<{ id: string; erroredAt: Instant; size: number }>)
+      .filter(group => !nameFilter || group.id.toUpperCase().includes(nameFilter.toUpperCase()))
+      .map(group => ({ filename: group.id, modificationDate: group.erroredAt, size: group.size }));
+  }
+
+  /**
+   * Remove errored groups of values
+   */
+  async removeErrorValues(filenames: Array<string>): Promise<void> {
+    this.removeGroups(filenames, 1);
+  }
+
+  /**
+   * Remove all errored groups of values
+   */
+  async removeAllErrorValues(): Promise<void> {
+    const ids = this.listGroupIds(1);
+    if (ids.length > 0) {
+      this._logger.debug(`Removing ${ids.length} groups of values from the error cache`);
+      this.removeGroups(ids, 1);
+    } else {
+      this._logger.debug('The error value cache is empty. Nothing to delete');
+    }
+  }
+
+  /**
+   * Put errored groups of values back in the queue, at their original position
+   */
+  async retryErrorValues(filenames: Array<string>): Promise<void> {
+    const statement = this.database.prepare(
+      `UPDATE ${VALUES_TABLE} SET error = 0, error_count = 0, errored_at = NULL WHERE id = ? AND error = 1;`
+    );
+    this.database.transaction(() => {
+      for (const id of filenames) {
+        statement.run(id);
+      }
+    })();
+    if (this.countQueuedValues() >= this._settings.oibusTimeValues.groupCount) {
+      this.triggerRun.emit('next');
+    }
+  }
+
+  /**
+   * Retry all errored groups of values
+   */
+  async retryAllErrorValues(): Promise<void> {
+    const ids = this.listGroupIds(1);
+    if (ids.length > 0) {
+      this._logger.debug(`Retrying ${ids.length} groups of values from the error cache`);
+      await this.retryErrorValues(ids);
+    } else {
+      this._logger.debug('The error value cache is empty. Nothing to retry');
+    }
+  }
+
+  /**
+   * Close the database, which is opened again when needed
+   */
+  async stop(): Promise<void> {
+    this._database?.close();
+    this._database = null;
+  }
+
+  setLogger(value: pino.Logger) {
+    this._logger = value;
+  }
+
+  get triggerRun(): EventEmitter {
+    return this._triggerRun;
+  }
+
+  set settings(value: NorthCacheSettingsDTO) {
+    this._settings = value;
+  }
+
+  private get database(): Database {
+    if (!this._database) {
+      fs.mkdirSync(this.baseFolder, { recursive: true });
+      this._database = db(path.resolve(this.baseFolder, DATABASE_FILE));
+      this._database.pragma('journal_mode = WAL');
+      this._database.exec(
+        `CREATE TABLE IF NOT EXISTS ${VALUES_TABLE} (id TEXT PRIMARY KEY, created_at TEXT NOT NULL, values_count INTEGER NOT NULL, ` +
+          `content TEXT NOT NULL, error INTEGER NOT NULL DEFAULT 0, error_count INTEGER NOT NULL DEFAULT 0, errored_at TEXT);` +
+          `CREATE INDEX IF NOT EXISTS ${VALUES_TABLE}_error ON ${VALUES_TABLE} (error, errored_at);`
+      );
+    }
+    return this._database;
+  }
+
+  private countQueuedValues(): number {
+    const { numberOfValues } = this.database
+      .prepare(`SELECT TOTAL(values_count) AS numberOfValues FROM ${VALUES_TABLE} WHERE error = 0;`)
+      .get() as { numberOfValues: number };
+    return numberOfValues;
+  }
+
+  private listGroupIds(error: 0 | 1): Array<string> {
+    return (
+      this.database.prepare(`SELECT id FROM ${VALUES_TABLE} WHERE error = ? ORDER BY ROWID;`).all(error) as Array<{ id: string }>
+    ).map(group => group.id);
+  }
+
+  /**
+   * Remove groups of values in a single transaction and update the cache size with their content size
+   */
+  private removeGroups(ids: Array<string>, error: 0 | 1): void {
+    const sizeStatement = this.database.prepare(
+      `SELECT LENGTH(CAST(content AS BLOB)) AS size FROM ${VALUES_TABLE} WHERE id = ? AND error = ?;`
+    );
+    const deleteStatement = this.database.prepare(`DELETE FROM ${VALUES_TABLE} WHERE id = ? AND error = ?;`);
+    const removedSize = this.database.transaction(() => {
+      let size = 0;
+      for (const id of ids) {
+        const group = sizeStatement.get(id, error) as { size: number } | undefined;
+        if (group) {
+          deleteStatement.run(id, error);
+          size += group.size;
+        }
+      }
+      return size;
+    })();
+    if (removedSize > 0) {
+      this._logger.trace(`${ids.length} groups of values removed from cache`);
+      this.triggerRun.emit('cache-size', -removedSize);
+    }
+  }
+}
@@ -32,9 +32,11 @@ describe('ValueCache', () => {
       retryInterval: 5000,
       retryCount: 3,
       maxSize: 1000,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 1000,
-        maxSendCount: 1000
+        maxSendCount: 1000,
+        storage: 'file'
       }
     } as NorthCacheSettingsDTO;
     (dirSize as jest.Mock).mockImplementation(() => 1000);
@@ -191,6 +193,17 @@ describe('ValueCache', () => {
     );
   });
 
+  it('should remove queued values', async () => {
+    cache.removeSentValues = jest.fn();
+    await cache.removeQueuedValues(['1.queue.tmp', '2.queue.tmp']);
+    expect(cache.removeSentValues).toHaveBeenCalledWith(
+      new Map([
+        [path.join(path.resolve('myCacheFolder', 'values'), '1.queue.tmp'), []],
+        [path.join(path.resolve('myCacheFolder', 'values'), '2.queue.tmp'), []]
+      ])
+    );
+  });
+
   it('should delete key from cache', async () => {
     fs.unlink = jest
       .fn()
@@ -366,6 +379,7 @@ describe('ValueCache', () => {
 
   it('should log an error and not remove file from queue if compact write error', async () => {
     const queue = new Map();
+    queue.set('1.queue.tmp', [{ data: 'myFirstValue' }]);
     cache.deleteKeyFromCache = jest.fn();
     fs.writeFile = jest.fn().mockImplementationOnce(() => {
       throw new Error('writing error');
@@ -375,6 +389,70 @@ describe('ValueCache', () => {
     expect(logger.error).toHaveBeenCalledWith(new Error('writing error'));
   });
 
+  it('should keep the values cached with a prefix in their own files', async () => {
+    (generateRandomId as jest.Mock)
+      .mockReturnValueOnce('uuid1')
+      .mockReturnValueOnce('uuid2')
+      .mockReturnValueOnce('uuid3')
+      .mockReturnValueOnce('uuid4')
+      .mockReturnValueOnce('uuid5')
+      .mockReturnValueOnce('uuid6');
+    (fs.stat as jest.Mock).mockReturnValue({ size: 123 });
+    const streamValues = [{ pointId: 'stream' }] as Array<OIBusTimeValue>;
+    const historyValues = [{ pointId: 'history' }] as Array<OIBusTimeValue>;
+
+    await cache.cacheValues(streamValues);
+    await cache.cacheValues(historyValues, 'history-historyId-');
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.resolve('myCacheFolder', 'values', 'history-historyId-uuid2.buffer.tmp'),
+      JSON.stringify(historyValues),
+      { encoding: 'utf8' }
+    );
+
+    await cache.flush();
+    expect(fs.writeFile).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'values', 'uuid3.queue.tmp'), JSON.stringify(streamValues), {
+      encoding: 'utf8',
+      flag: 'w'
+    });
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.resolve('myCacheFolder', 'values', 'history-historyId-uuid4.queue.tmp'),
+      JSON.stringify(historyValues),
+      { encoding: 'utf8', flag: 'w' }
+    );
+    expect(cache.getQueuedFilesMetadata('history-historyId')).toEqual([{ filename: 'history-historyId-uuid4.queue.tmp', valuesCount: 1 }]);
+    expect(cache.getValuesPrefix(path.resolve('myCacheFolder', 'values', 'history-historyId-uuid4.queue.tmp'))).toEqual(
+      'history-historyId-'
+    );
+    expect(cache.getValuesPrefix(path.resolve('myCacheFolder', 'values', 'uuid3.queue.tmp'))).toEqual('');
+    expect(cache.getValuesPrefix(path.resolve('myCacheFolder', 'values', 'history-other-uuid9.compact.tmp'))).toEqual('history-other-');
+
+    await cache.compactQueueCache(await cache.getValuesToSend());
+    expect(fs.writeFile).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'values', 'uuid5.compact.tmp'), JSON.stringify(streamValues), {
+      encoding: 'utf8',
+      flag: 'w'
+    });
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.resolve('myCacheFolder', 'values', 'history-historyId-uuid6.compact.tmp'),
+      JSON.stringify(historyValues),
+      { encoding: 'utf8', flag: 'w' }
+    );
+  });
+
+  it('should retrieve the prefix of the values from their file names on start', async () => {
+    fs.readdir = jest.fn().mockImplementationOnce(() => ['history-historyId-abc.queue.tmp']);
+    fs.readFile = jest.fn().mockReturnValueOnce(JSON.stringify([{ pointId: 'history' }]));
+    (generateRandomId as jest.Mock).mockReturnValueOnce('uuid1');
+    (fs.stat as jest.Mock).mockReturnValue({ size: 123 });
+    await cache.start();
+
+    await cache.compactQueueCache(await cache.getValuesToSend());
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.resolve('myCacheFolder', 'values', 'history-historyId-uuid1.compact.tmp'),
+      JSON.stringify([{ pointId: 'history' }]),
+      { encoding: 'utf8', flag: 'w' }
+    );
+  });
+
   it('should properly change logger', async () => {
     (fs.readdir as jest.Mock).mockReturnValue([]);
     cache.setLogger(anotherLogger);
@@ -535,6 +613,16 @@ describe('ValueCache', () => {
       expect(valuesToSend).toEqual(expectedValues);
     });
 
+    it('should remove the oldest values except the ones being sent', async () => {
+      const valuesBeingSent = path.resolve('myCacheFolder', 'values', 'generated-uuid2.queue.tmp');
+      expect(await cache.removeOldestValues([valuesBeingSent])).toEqual(true);
+      expect(fs.unlink).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'values', 'generated-uuid4.queue.tmp'));
+      expect(await cache.removeOldestValues([valuesBeingSent])).toEqual(true);
+      expect(fs.unlink).toHaveBeenCalledWith(path.resolve('myCacheFolder', 'values', 'generated-uuid6.queue.tmp'));
+      expect(await cache.removeOldestValues([valuesBeingSent])).toEqual(false);
+      expect(await cache.getValuesToSend()).toEqual(new Map([[valuesBeingSent, valuesToCache]]));
+    });
+
     it('should properly get values to send from compact and delete from cache', async () => {
       (fs.readFile as jest.Mock).mockImplementationOnce(() => '[{}]');
 
@@ -14,9 +14,13 @@ const BUFFER_TIMEOUT = 300;
 
 const VALUE_FOLDER = 'values';
 const ERROR_FOLDER = 'values-errors';
+// The prefix of a cache file ends with a dash, and the random ID that follows has none
+const PREFIXED_FILENAME_REGEX = /^(.+-)[^-]+\.(buffer|queue|compact)\.tmp$/;
 
 /**
  * Local cache implementation to group events and store them when the communication with the North is down.
+ * Values cached with a prefix (by history queries for example) are never grouped with other values, and the names of
+ * their cache files start with the prefix
  */
 export default class ValueCacheService {
   private _logger: pino.Logger;
@@ -29,6 +33,7 @@ export default class ValueCacheService {
   private compactedQueue: Array<{ filename: string; createdAt: number }> = []; // List of compact filename (randomId.compact.tmp)
   private bufferFiles: Map<string, Array<OIBusTimeValue>> = new Map(); // key: buffer filename (randomId.buffer.tmp, value: the values in the queue file)
   private queue: Map<string, Array<OIBusTimeValue>> = new Map(); // key: queue filename (randomId.queue.tmp, value: the values in the queue file)
+  private prefixes: Map<string, string> = new Map(); // key: buffer, queue or compact filename, value: the prefix of its values
 
   private _triggerRun: EventEmitter = new EventEmitter();
 
@@ -62,6 +67,7 @@ export default class ValueCacheService {
         const fileContent = await fs.readFile(path.resolve(this.valueFolder, filename), { encoding: 'utf8' });
         const values = JSON.parse(fileContent);
         this.bufferFiles.set(path.resolve(this.valueFolder, filename), values);
+        this.prefixes.set(path.resolve(this.valueFolder, filename), getPrefix(filename));
       } catch (error) {
         // If a file is being written or corrupted, the readFile method can fail
         // An error is logged and the cache goes through the other files
@@ -77,6 +83,7 @@ export default class ValueCacheService {
         const fileContent = await fs.readFile(path.resolve(this.valueFolder, filename), { encoding: 'utf8' });
         const values = JSON.parse(fileContent);
         this.queue.set(path.resolve(this.valueFolder, filename), values);
+        this.prefixes.set(path.resolve(this.valueFolder, filename), getPrefix(filename));
         numberOfValuesInCache += values.length;
       } catch (error) {
         // If a file is being written or corrupted, the readFile method can fail
@@ -95,6 +102,7 @@ export default class ValueCacheService {
           filename: path.resolve(this.valueFolder, filename),
           createdAt: fileStat.ctimeMs
         });
+        this.prefixes.set(path.resolve(this.valueFolder, filename), getPrefix(filename));
       } catch (error) {
         // If a file is being written or corrupted, the stat method can fail
         // An error is logged and the cache goes through the other files
@@ -127,51 +135,48 @@ export default class ValueCacheService {
     // Reset timeout to null to set the buffer timeout again on the next send values
     this.bufferTimeout = undefined;
 
-    const fileInBuffer: Array<string> = [];
-    let valuesToFlush: Array<OIBusTimeValue> = [];
-
-    for (const [key, values] of this.bufferFiles.entries()) {
-      fileInBuffer.push(key);
-      valuesToFlush = [...valuesToFlush, ...values];
+    let numberOfValuesInBuffer = 0;
+    for (const values of this.bufferFiles.values()) {
+      numberOfValuesInBuffer += values.length;
     }
-    const tmpFileName = `${generateRandomId()}.queue.tmp`;
-
     // Save the buffer to be sent and immediately clear it
-    if (valuesToFlush.length === 0) {
+    if (numberOfValuesInBuffer === 0) {
       this._logger.trace(`Nothing to flush (${flag})`);
       this.flushInProgress = false;
       return;
     }
-    // Store the values in a tmp file
-    try {
-      await fs.writeFile(path.resolve(this.valueFolder, tmpFileName), JSON.stringify(valuesToFlush), { encoding: 'utf8', flag: 'w' });
-      const fileStat = await fs.stat(path.resolve(this.valueFolder, tmpFileName));
-      this.triggerRun.emit('cache-size', fileStat.size);
-      this.queue.set(path.resolve(this.valueFolder, tmpFileName), valuesToFlush);
-    } catch (error) {
-      this._logger.error(`Error while writing queue file "${path.resolve(this.valueFolder, tmpFileName)}". ${error}`);
-      this.flushInProgress = false;
-      return; // Do not empty the buffer if the file could not be written
-    }
 
-    // Once compacted, remove values from queue.
-    for (const key of fileInBuffer) {
-      this.bufferFiles.delete(key);
+    for (const [prefix, bufferFiles] of this.groupByPrefix(this.bufferFiles)) {
+      const valuesToFlush = [...bufferFiles.values()].flat();
+      const tmpFileName = `${prefix}${generateRandomId()}.queue.tmp`;
+      // Store the values in a tmp file
       try {
-        await fs.unlink(path.resolve(key));
+        await fs.writeFile(path.resolve(this.valueFolder, tmpFileName), JSON.stringify(valuesToFlush), { encoding: 'utf8', flag: 'w' });
+        const fileStat = await fs.stat(path.resolve(this.valueFolder, tmpFileName));
+        this.triggerRun.emit('cache-size', fileStat.size);
+        this.queue.set(path.resolve(this.valueFolder, tmpFileName), valuesToFlush);
+        this.prefixes.set(path.resolve(this.valueFolder, tmpFileName), prefix);
       } catch (error) {
-        this._logger.error(`Error while removing buffer file "${path.resolve(this.valueFolder, key)}". ${error}`);
+        this._logger.error(`Error while writing queue file "${path.resolve(this.valueFolder, tmpFileName)}". ${error}`);
+        continue; // Do not empty the buffer if the file could not be written
       }
-    }
 
-    let groupCount = 0;
-    for (const values of this.queue.values()) {
-      groupCount += values.length;
+      // Once compacted, remove values from queue.
+      for (const key of bufferFiles.keys()) {
+        this.bufferFiles.delete(key);
+        this.prefixes.delete(key);
+        try {
+          await fs.unlink(path.resolve(key));
+        } catch (error) {
+          this._logger.error(`Error while removing buffer file "${path.resolve(this.valueFolder, key)}". ${error}`);
+        }
+      }
+      this._logger.trace(
+        `Flush ${valuesToFlush.length} values (${flag}) into "${path.resolve(this.valueFolder, tmpFileName)}". ${this.countQueuedValues()} values in queue`
+      );
     }
-    this._logger.trace(
-      `Flush ${valuesToFlush.length} values (${flag}) into "${path.resolve(this.valueFolder, tmpFileName)}". ${groupCount} values in queue`
-    );
 
+    const groupCount = this.countQueuedValues();
     if (groupCount >= this._settings.oibusTimeValues.maxSendCount) {
       const copiedQueue = this.queue;
       await this.compactQueueCache(copiedQueue);
@@ -186,32 +191,29 @@ export default class ValueCacheService {
    * Take values from the queue and store them in a compact file
    */
   async compactQueueCache(cacheQueue: Map<string, Array<OIBusTimeValue>>): Promise<void> {
-    const fileInBuffer: Array<string> = [];
-    let valuesInQueue: Array<OIBusTimeValue> = [];
-
-    cacheQueue.forEach((values, key) => {
-      fileInBuffer.push(key);
-      valuesInQueue = [...valuesInQueue, ...values];
-    });
-    const compactFilename = `${generateRandomId()}.compact.tmp`;
-    this._logger.trace(`Max group count reach. Compacting queue into "${compactFilename}"`);
-    try {
-      // Store the values in a tmp file
-      await fs.writeFile(path.resolve(this.valueFolder, compactFilename), JSON.stringify(valuesInQueue), { encoding: 'utf8', flag: 'w' });
-      const fileStat = await fs.stat(path.resolve(this.valueFolder, compactFilename));
-      this.compactedQueue.push({
-        filename: path.resolve(this.valueFolder, compactFilename),
-        createdAt: new Date().getTime()
-      });
+    for (const [prefix, queue] of this.groupByPrefix(cacheQueue)) {
+      const valuesInQueue = [...queue.values()].flat();
+      const compactFilename = `${prefix}${generateRandomId()}.compact.tmp`;
+      this._logger.trace(`Max group count reach. Compacting queue into "${compactFilename}"`);
+      try {
+        // Store the values in a tmp file
+        await fs.writeFile(path.resolve(this.valueFolder, compactFilename), JSON.stringify(valuesInQueue), { encoding: 'utf8', flag: 'w' });
+        const fileStat = await fs.stat(path.resolve(this.valueFolder, compactFilename));
+        this.compactedQueue.push({
+          filename: path.resolve(this.valueFolder, compactFilename),
+          createdAt: new Date().getTime()
+        });
+        this.prefixes.set(path.resolve(this.valueFolder, compactFilename), prefix);
 
-      this.triggerRun.emit('cache-size', fileStat.size);
+        this.triggerRun.emit('cache-size', fileStat.size);
 
-      // Once compacted, remove values from queue.
-      for (const key of fileInBuffer) {
-        await this.deleteKeyFromCache(key);
+        // Once compacted, remove values from queue.
+        for (const key of queue.keys()) {
+          await this.deleteKeyFromCache(key);
+        }
+      } catch (error) {
+        this._logger.error(error);
       }
-    } catch (error) {
-      this._logger.error(error);
     }
   }
 
@@ -271,6 +273,7 @@ export default class ValueCacheService {
       this.compactedQueue.splice(indexToRemove, 1);
     }
     this.queue.delete(key);
+    this.prefixes.delete(key);
 
     // Remove file from disk
     try {
@@ -284,6 +287,21 @@ export default class ValueCacheService {
     }
   }
 
+  /**
+   * Remove the oldest group of values (compacted files first), except the ones being sent.
+   * Return false if there is no group of values to remove
+   */
+  async removeOldestValues(keysToKeep: Array<string>): Promise<boolean> {
+    const oldestKey = [...this.compactedQueue.map(queueFile => queueFile.filename), ...this.queue.keys()].find(
+      key => !keysToKeep.includes(key)
+    );
+    if (!oldestKey) {
+      return false;
+    }
+    await this.deleteKeyFromCache(oldestKey);
+    return true;
+  }
+
   /**
    * Remove values from North connector cache and save them to the values error cache db
    */
@@ -295,6 +313,7 @@ export default class ValueCacheService {
         this.compactedQueue.splice(indexToRemove, 1);
       }
       this.queue.delete(key);
+      this.prefixes.delete(key);
 
       const filePath = path.parse(key);
       try {
@@ -313,14 +332,16 @@ export default class ValueCacheService {
   }
 
   /**
-   * Persist values into a tmp file and keep them in a local buffer to flush them in the queue later
+   * Persist values into a tmp file and keep them in a local buffer to flush them in the queue later.
+   * The prefix must end with a dash
    */
-  async cacheValues(values: Array<OIBusTimeValue>): Promise<void> {
-    const tmpFileName = path.resolve(this.valueFolder, `${generateRandomId()}.buffer.tmp`);
+  async cacheValues(values: Array<OIBusTimeValue>, prefix = ''): Promise<void> {
+    const tmpFileName = path.resolve(this.valueFolder, `${prefix}${generateRandomId()}.buffer.tmp`);
 
     // Immediately write the values into the buffer.tmp file to persist them on disk
     await fs.writeFile(tmpFileName, JSON.stringify(values), { encoding: 'utf8' });
     this.bufferFiles.set(tmpFileName, values);
+    this.prefixes.set(tmpFileName, prefix);
     let numberOfValuesInBufferFiles = 0;
     for (const valuesInFile of this.bufferFiles.values()) {
       numberOfValuesInBufferFiles += valuesInFile.length;
@@ -332,6 +353,13 @@ export default class ValueCacheService {
     }
   }
 
+  /**
+   * Return the prefix of the values of a queue or compact file
+   */
+  getValuesPrefix(key: string): string {
+    return this.prefixes.get(key) ?? getPrefix(path.basename(key));
+  }
+
   /**
    * Check if the value cache is empty or not
    */
@@ -358,6 +386,13 @@ export default class ValueCacheService {
       .filter(file => file.filename.toUpperCase().includes(fileNameContains.toUpperCase()));
   }
 
+  /**
+   * Remove queued value files.
+   */
+  async removeQueuedValues(filenames: Array<string>): Promise<void> {
+    await this.removeSentValues(new Map(filenames.map(filename => [path.join(this.valueFolder, filename), []])));
+  }
+
   /**
    * Returns metadata about error value files.
    */
@@ -438,4 +473,29 @@ export default class ValueCacheService {
   set settings(value: NorthCacheSettingsDTO) {
     this._settings = value;
   }
+
+  private countQueuedValues(): number {
+    let numberOfValues = 0;
+    for (const values of this.queue.values()) {
+      numberOfValues += values.length;
+    }
+    return numberOfValues;
+  }
+
+  /**
+   * Split the cache files by prefix of their values
+   */
+  private groupByPrefix(files: Map<string, Array<OIBusTimeValue>>): Map<string, Map<string, Array<OIBusTimeValue>>> {
+    const filesByPrefix = new Map<string, Map<string, Array<OIBusTimeValue>>>();
+    for (const [key, values] of files) {
+      const prefix = this.prefixes.get(key) ?? '';
+      if (!filesByPrefix.has(prefix)) {
+        filesByPrefix.set(prefix, new Map());
+      }
+      filesByPrefix.get(prefix)!.set(key, values);
+    }
+    return filesByPrefix;
+  }
 }
+
+const getPrefix = (filename: string): string => filename.match(PREFIXED_FILENAME_REGEX)?.[1] ?? '';
@@ -30,19 +30,24 @@ describe('HistoryMetricsService', () => {
         lastConnection: null,
         lastRunStart: null,
         lastRunDuration: null,
-        cacheSize: 0
+        cacheSize: 0,
+        cacheFull: false
       },
       south: {
         metricsStart: nowDateString,
         numberOfValuesRetrieved: 0,
+        numberOfValuesSuppressed: 0,
         numberOfFilesRetrieved: 0,
         lastValueRetrieved: null,
         lastFileRetrieved: null,
+        lastNumberOfNorthsReached: null,
+        backpressured: false,
         lastConnection: null,
         lastRunStart: null,
         lastRunDuration: null,
         historyMetrics: {}
-      }
+      },
+      additionalNorths: {}
     };
     service.updateMetrics(metrics as HistoryMetrics);
     const stream = service.stream;
@@ -79,10 +84,28 @@ describe('HistoryMetricsService', () => {
     expect(service.stream).toBeDefined();
   });
 
+  it('should set additional North metrics', () => {
+    (northRepositoryMock.getMetrics as jest.Mock)
+      .mockReturnValueOnce({ numberOfValuesSent: 1 })
+      .mockReturnValueOnce({ numberOfValuesSent: 2 });
+    service.setAdditionalNorths(['targetId1', 'targetId2']);
+
+    expect(northRepositoryMock.initMetrics).toHaveBeenCalledWith('targetId1');
+    expect(northRepositoryMock.initMetrics).toHaveBeenCalledWith('targetId2');
+    expect(service.metrics.additionalNorths).toEqual({ targetId1: { numberOfValuesSent: 1 }, targetId2: { numberOfValuesSent: 2 } });
+
+    service.setAdditionalNorths(['targetId2']);
+    expect(Object.keys(service.metrics.additionalNorths)).toEqual(['targetId2']);
+  });
+
   it('should reset metrics', () => {
     const updateMetricsSpy = jest.spyOn(service, 'updateMetrics');
+    service.setAdditionalNorths(['targetId1']);
     service.resetMetrics();
 
+    expect(northRepositoryMock.removeMetrics).toHaveBeenCalledWith('targetId1');
+    expect(northRepositoryMock.initMetrics).toHaveBeenCalledWith('targetId1');
+
     expect(southRepositoryMock.removeMetrics).toHaveBeenCalled();
     expect(southRepositoryMock.initMetrics).toHaveBeenCalled();
 
@@ -1,4 +1,4 @@
-import { HistoryMetrics } from '../../../shared/model/engine.model';
+import { HistoryMetrics, NorthConnectorMetrics } from '../../../shared/model/engine.model';
 import { PassThrough } from 'node:stream';
 import SouthConnectorMetricsRepository from '../repository/south-connector-metrics.repository';
 import NorthConnectorMetricsRepository from '../repository/north-connector-metrics.repository';
@@ -18,10 +18,23 @@ export default class HistoryMetricsService {
     const northMetrics = this.northMetricsRepository.getMetrics(this.historyId)!;
     this._metrics = {
       north: northMetrics,
-      south: southMetrics
+      south: southMetrics,
+      additionalNorths: {}
     };
   }
 
+  /**
+   * Initialize the metrics of the additional North targets. The metrics of targets not listed anymore are dropped
+   */
+  setAdditionalNorths(northIds: Array<string>): void {
+    const additionalNorths: Record<string, NorthConnectorMetrics> = {};
+    for (const northId of northIds) {
+      this.northMetricsRepository.initMetrics(northId);
+      additionalNorths[northId] = this.northMetricsRepository.getMetrics(northId)!;
+    }
+    this.updateMetrics({ ...this._metrics, additionalNorths });
+  }
+
   updateMetrics(newMetrics: HistoryMetrics): void {
     this._metrics = newMetrics;
     this._stream?.write(`data: ${JSON.stringify(this._metrics)}\n\n`);
@@ -34,9 +47,17 @@ export default class HistoryMetricsService {
     this.northMetricsRepository.removeMetrics(this.historyId);
     this.northMetricsRepository.initMetrics(this.historyId);
 
+    const additionalNorths: Record<string, NorthConnectorMetrics> = {};
+    for (const northId of Object.keys(this._metrics.additionalNorths)) {
+      this.northMetricsRepository.removeMetrics(northId);
+      this.northMetricsRepository.initMetrics(northId);
+      additionalNorths[northId] = this.northMetricsRepository.getMetrics(northId)!;
+    }
+
     this.updateMetrics({
       north: this.northMetricsRepository.getMetrics(this.historyId)!,
-      south: this.southMetricsRepository.getMetrics(this.historyId)!
+      south: this.southMetricsRepository.getMetrics(this.historyId)!,
+      additionalNorths
     });
   }
 
@@ -35,7 +35,8 @@ describe('NorthConnectorMetricsService', () => {
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
-      cacheSize: 123
+      cacheSize: 123,
+      cacheFull: false
     };
     service.updateMetrics('northId', newConnectorMetrics);
     expect(service.metricsRepository.updateMetrics).toHaveBeenCalledWith('northId', newConnectorMetrics);
@@ -16,7 +16,8 @@ export default class NorthConnectorMetricsService {
     lastConnection: null,
     lastRunStart: null,
     lastRunDuration: null,
-    cacheSize: 0
+    cacheSize: 0,
+    cacheFull: false
   };
 
   constructor(
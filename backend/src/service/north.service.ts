@@ -9,12 +9,26 @@ import { NorthConnectorDTO, NorthConnectorManifest } from '../../../shared/model
 import NorthAmazonS3 from '../north/north-amazon-s3/north-amazon-s3';
 import NorthFileWriter from '../north/north-file-writer/north-file-writer';
 import NorthSFTP from '../north/north-sftp/north-sftp';
+import NorthMQTT from '../north/north-mqtt/north-mqtt';
+import NorthInfluxDB from '../north/north-influx-db/north-influx-db';
+import NorthTimescaleDB from '../north/north-timescale-db/north-timescale-db';
+import NorthMongoDB from '../north/north-mongo-db/north-mongo-db';
+import NorthRestAPI from '../north/north-rest-api/north-rest-api';
+import NorthCsvToHttp from '../north/north-csv-to-http/north-csv-to-http';
+import NorthOIBus from '../north/north-oibus/north-oibus';
 import azureManifest from '../north/north-azure-blob/manifest';
 import oianalyticsManifest from '../north/north-oianalytics/manifest';
 import fileWriterManifest from '../north/north-file-writer/manifest';
 import consoleManifest from '../north/north-console/manifest';
 import amazonManifest from '../north/north-amazon-s3/manifest';
 import sftpManifest from '../north/north-sftp/manifest';
+import mqttManifest from '../north/north-mqtt/manifest';
+import influxDBManifest from '../north/north-influx-db/manifest';
+import timescaleDBManifest from '../north/north-timescale-db/manifest';
+import mongoDBManifest from '../north/north-mongo-db/manifest';
+import restAPIManifest from '../north/north-rest-api/manifest';
+import csvToHttpManifest from '../north/north-csv-to-http/manifest';
+import oibusManifest from '../north/north-oibus/manifest';
 
 const northList: Array<{ class: typeof NorthConnector<any>; manifest: NorthConnectorManifest }> = [
   { class: NorthConsole, manifest: consoleManifest },
@@ -22,7 +36,14 @@ const northList: Array<{ class: typeof NorthConnector<any>; manifest: NorthConne
   { class: NorthAzureBlob, manifest: azureManifest },
   { class: NorthAmazonS3, manifest: amazonManifest },
   { class: NorthFileWriter, manifest: fileWriterManifest },
-  { class: NorthSFTP, manifest: sftpManifest }
+  { class: NorthSFTP, manifest: sftpManifest },
+  { class: NorthMQTT, manifest: mqttManifest },
+  { class: NorthInfluxDB, manifest: influxDBManifest },
+  { class: NorthTimescaleDB, manifest: timescaleDBManifest },
+  { class: NorthMongoDB, manifest: mongoDBManifest },
+  { class: NorthRestAPI, manifest: restAPIManifest },
+  { class: NorthCsvToHttp, manifest: csvToHttpManifest },
+  { class: NorthOIBus, manifest: oibusManifest }
 ];
 
 export default class NorthService {
@@ -11,8 +11,11 @@ import { RegistrationSettingsDTO } from '../../../../shared/model/engine.model';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { version } from '../../../package.json';
+import { DateTime } from 'luxon';
 import MessageServiceMock from '../../tests/__mocks__/message-service.mock';
 import OIAnalyticsMessageService from './message.service';
+import OIBusEngine from '../../engine/oibus-engine';
+import OIBusEngineMock from '../../tests/__mocks__/oibus-engine.mock';
 
 jest.mock('node:fs/promises');
 jest.mock('node-fetch');
@@ -24,6 +27,7 @@ jest.spyOn(process, 'exit').mockImplementation(() => {});
 const repositoryService: RepositoryService = new RepositoryServiceMock('', '');
 const oianalyticsMessageService: OIAnalyticsMessageService = new MessageServiceMock('', '');
 const encryptionService: EncryptionService = new EncryptionServiceMock('', '');
+const oibusEngine: OIBusEngine = new OIBusEngineMock();
 
 const nowDateString = '2020-02-02T02:02:02.222Z';
 const logger: pino.Logger = new PinoLogger();
@@ -62,7 +66,15 @@ describe('Command service with running command', () => {
     (repositoryService.engineRepository.getEngineSettings as jest.Mock).mockReturnValue({ version: '3.2.0' });
     (repositoryService.registrationRepository.getRegistrationSettings as jest.Mock).mockReturnValue(registration);
     (repositoryService.commandRepository.searchCommandsList as jest.Mock).mockReturnValue([command]);
-    service = new CommandService(repositoryService, encryptionService, oianalyticsMessageService, logger, 'binaryFolder', false);
+    service = new CommandService(
+      repositoryService,
+      encryptionService,
+      oianalyticsMessageService,
+      oibusEngine,
+      logger,
+      'binaryFolder',
+      false
+    );
   });
 
   it('should properly start and stop after an update', async () => {
@@ -74,9 +86,14 @@ describe('Command service with running command', () => {
     );
     expect(repositoryService.engineRepository.updateVersion).toHaveBeenCalledWith(version);
     service.run = jest.fn();
+    (repositoryService.commandRepository.searchCommandsList as jest.Mock).mockReturnValueOnce([]);
     service.start();
     expect(service.run).toHaveBeenCalledTimes(1);
-    expect(repositoryService.commandRepository.searchCommandsList).toHaveBeenCalledWith({ status: ['RETRIEVED', 'RUNNING'], types: [] });
+    expect(repositoryService.commandRepository.searchCommandsList).toHaveBeenCalledWith({
+      status: ['RUNNING'],
+      types: ['WRITE_SOUTH_ITEM', 'CALL_SOUTH_METHOD']
+    });
+    expect(repositoryService.commandRepository.searchCommandsList).toHaveBeenCalledWith({ status: ['RETRIEVED'], types: [] });
 
     await service.stop();
     expect(logger.debug).toHaveBeenCalledWith(`Stopping command service...`);
@@ -151,7 +168,15 @@ describe('Command service without command', () => {
 
     (repositoryService.commandRepository.searchCommandsList as jest.Mock).mockReturnValue([]);
     (repositoryService.engineRepository.getEngineSettings as jest.Mock).mockReturnValue({ version: '3.2.0' });
-    service = new CommandService(repositoryService, encryptionService, oianalyticsMessageService, logger, 'binaryFolder', false);
+    service = new CommandService(
+      repositoryService,
+      encryptionService,
+      oianalyticsMessageService,
+      oibusEngine,
+      logger,
+      'binaryFolder',
+      false
+    );
   });
 
   it('should properly start when not registered', () => {
@@ -178,6 +203,19 @@ describe('Command service without command', () => {
     expect(service.run).not.toHaveBeenCalled();
   });
 
+  it('should not replay South commands interrupted by a restart', () => {
+    (repositoryService.registrationRepository.getRegistrationSettings as jest.Mock).mockReturnValue({ status: 'REGISTERED' });
+    (repositoryService.commandRepository.searchCommandsList as jest.Mock)
+      .mockReturnValueOnce([{ id: 'id2', type: 'WRITE_SOUTH_ITEM', status: 'RUNNING' }])
+      .mockReturnValueOnce([]);
+
+    service.run = jest.fn();
+    service.start();
+    expect(logger.warn).toHaveBeenCalledWith('Command id2 of type WRITE_SOUTH_ITEM interrupted by a restart of OIBus');
+    expect(repositoryService.commandRepository.markAsErrored).toHaveBeenCalledWith('id2', 'Command interrupted by a restart of OIBus');
+    expect(service.run).not.toHaveBeenCalled();
+  });
+
   it('should properly start when registered', () => {
     const registration: RegistrationSettingsDTO = {
       id: 'id',
@@ -227,6 +265,64 @@ describe('Command service without command', () => {
     expect(fs.unlink).toHaveBeenCalledWith(expectedFilename);
   });
 
+  it('should execute WRITE_SOUTH_ITEM command', async () => {
+    const writeCommand: OIBusCommandDTO = {
+      id: 'id2',
+      type: 'WRITE_SOUTH_ITEM',
+      status: 'RUNNING',
+      ack: false,
+      southId: 'southId',
+      itemId: 'itemId',
+      value: 12.5
+    };
+    const item = { id: 'itemId', name: 'setpoint', connectorId: 'southId' };
+    (repositoryService.southItemRepository.getSouthItem as jest.Mock).mockReturnValueOnce(item);
+
+    await service.executeCommand(writeCommand);
+    expect(repositoryService.southItemRepository.getSouthItem).toHaveBeenCalledWith('itemId');
+    expect(oibusEngine.writeSouthItem).toHaveBeenCalledWith('southId', item, 12.5, 'OIAnalytics command id2');
+    expect(repositoryService.commandRepository.markAsCompleted).toHaveBeenCalledWith(
+      'id2',
+      DateTime.now().toUTC().toISO(),
+      'Value 12.5 written on item setpoint'
+    );
+
+    (repositoryService.southItemRepository.getSouthItem as jest.Mock).mockReturnValueOnce({ ...item, connectorId: 'anotherSouth' });
+    await expect(service.executeCommand(writeCommand)).rejects.toThrow(new Error('Item itemId not found in South connector southId'));
+    expect(oibusEngine.writeSouthItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should execute CALL_SOUTH_METHOD command', async () => {
+    const callCommand: OIBusCommandDTO = {
+      id: 'id3',
+      type: 'CALL_SOUTH_METHOD',
+      status: 'RUNNING',
+      ack: false,
+      southId: 'southId',
+      objectId: 'ns=3;s=Machine',
+      methodId: 'ns=3;s=Machine.Start',
+      inputArguments: [10, 'fast']
+    };
+    (oibusEngine.callSouthMethod as jest.Mock).mockReturnValueOnce(['started', 1]);
+
+    await service.executeCommand(callCommand);
+    await expect(service.executeCommand({ ...callCommand, type: 'UNKNOWN' } as unknown as OIBusCommandDTO)).rejects.toThrow(
+      new Error('Command type UNKNOWN not supported')
+    );
+    expect(oibusEngine.callSouthMethod).toHaveBeenCalledWith(
+      'southId',
+      'ns=3;s=Machine',
+      'ns=3;s=Machine.Start',
+      [10, 'fast'],
+      'OIAnalytics command id3'
+    );
+    expect(repositoryService.commandRepository.markAsCompleted).toHaveBeenCalledWith(
+      'id3',
+      DateTime.now().toUTC().toISO(),
+      JSON.stringify(['started', 1])
+    );
+  });
+
   it('should change logger', () => {
     service.setLogger(anotherLogger);
   });
@@ -251,7 +347,15 @@ describe('Command service with running command', () => {
     (repositoryService.engineRepository.getEngineSettings as jest.Mock).mockReturnValue({ version });
     (repositoryService.registrationRepository.getRegistrationSettings as jest.Mock).mockReturnValue(registration);
     (repositoryService.commandRepository.searchCommandsList as jest.Mock).mockReturnValue([command]);
-    service = new CommandService(repositoryService, encryptionService, oianalyticsMessageService, logger, 'binaryFolder', true);
+    service = new CommandService(
+      repositoryService,
+      encryptionService,
+      oianalyticsMessageService,
+      oibusEngine,
+      logger,
+      'binaryFolder',
+      true
+    );
   });
 
   it('should properly start and stop after a failed update', async () => {
@@ -3,7 +3,12 @@ import { delay, downloadFile, getNetworkSettingsFromRegistration, getOIBusInfo,
 import RepositoryService from '../repository.service';
 import EncryptionService from '../encryption.service';
 import pino from 'pino';
-import { OIBusCommandDTO } from '../../../../shared/model/command.model';
+import {
+  OIBusCallSouthMethodCommandDTO,
+  OIBusCommandDTO,
+  OIBusUpgradeCommandDTO,
+  OIBusWriteSouthItemCommandDTO
+} from '../../../../shared/model/command.model';
 import { EventEmitter } from 'node:events';
 import DeferredPromise from '../deferred-promise';
 import { DateTime } from 'luxon';
@@ -11,6 +16,7 @@ import { RegistrationSettingsDTO } from '../../../../shared/model/engine.model';
 import path from 'node:path';
 import { version } from '../../../package.json';
 import OIAnalyticsMessageService from './message.service';
+import OIBusEngine from '../../engine/oibus-engine';
 
 const DOWNLOAD_TIMEOUT = 600_000;
 const STOP_TIMEOUT = 30_000;
@@ -26,6 +32,7 @@ export default class CommandService {
     private repositoryService: RepositoryService,
     private encryptionService: EncryptionService,
     private oianalyticsMessageService: OIAnalyticsMessageService,
+    private oibusEngine: OIBusEngine,
     private logger: pino.Logger,
     private binaryFolder: string,
     private ignoreRemoteUpdate: boolean
@@ -56,12 +63,22 @@ export default class CommandService {
   }
 
   start(): void {
+    // A write or a method call interrupted by a restart may have reached the device: it is not replayed
+    const interruptedCommands = this.repositoryService.commandRepository.searchCommandsList({
+      status: ['RUNNING'],
+      types: ['WRITE_SOUTH_ITEM', 'CALL_SOUTH_METHOD']
+    });
+    for (const command of interruptedCommands) {
+      this.logger.warn(`Command ${command.id} of type ${command.type} interrupted by a restart of OIBus`);
+      this.repositoryService.commandRepository.markAsErrored(command.id, 'Command interrupted by a restart of OIBus');
+    }
+
     this.registration = this.repositoryService.registrationRepository.getRegistrationSettings()!;
     if (this.registration.status !== 'REGISTERED') {
       this.logger.debug(`Command service not started: OIAnalytics not registered`);
       return;
     }
-    this.commandsQueue = this.repositoryService.commandRepository.searchCommandsList({ status: ['RETRIEVED', 'RUNNING'], types: [] });
+    this.commandsQueue = this.repositoryService.commandRepository.searchCommandsList({ status: ['RETRIEVED'], types: [] });
 
     this.triggerRun.on('next', async () => {
       if (!this.runProgress$) {
@@ -116,6 +133,19 @@ export default class CommandService {
   }
 
   async executeCommand(command: OIBusCommandDTO): Promise<void> {
+    switch (command.type) {
+      case 'UPGRADE':
+        return this.executeUpgradeCommand(command);
+      case 'WRITE_SOUTH_ITEM':
+        return this.executeWriteSouthItemCommand(command);
+      case 'CALL_SOUTH_METHOD':
+        return this.executeCallSouthMethodCommand(command);
+      default:
+        throw new Error(`Command type ${(command as OIBusCommandDTO).type} not supported`);
+    }
+  }
+
+  async executeUpgradeCommand(command: OIBusUpgradeCommandDTO): Promise<void> {
     if (this.ignoreRemoteUpdate) {
       this.logger.error(`OIBus is not set up to execute remote`);
       this.repositoryService.commandRepository.markAsErrored(command.id, 'OIBus is not set up to execute remote');
@@ -149,6 +179,33 @@ export default class CommandService {
     process.exit();
   }
 
+  /**
+   * Write a setpoint on a South item. The command must target an item of the given South connector
+   */
+  async executeWriteSouthItemCommand(command: OIBusWriteSouthItemCommandDTO): Promise<void> {
+    const item = this.repositoryService.southItemRepository.getSouthItem(command.itemId);
+    if (!item || item.connectorId !== command.southId) {
+      throw new Error(`Item ${command.itemId} not found in South connector ${command.southId}`);
+    }
+    await this.oibusEngine.writeSouthItem(command.southId, item, command.value, `OIAnalytics command ${command.id}`);
+    this.repositoryService.commandRepository.markAsCompleted(
+      command.id,
+      DateTime.now().toUTC().toISO(),
+      `Value ${JSON.stringify(command.value)} written on item ${item.name}`
+    );
+  }
+
+  async executeCallSouthMethodCommand(command: OIBusCallSouthMethodCommandDTO): Promise<void> {
+    const outputArguments = await this.oibusEngine.callSouthMethod(
+      command.southId,
+      command.objectId,
+      command.methodId,
+      command.inputArguments,
+      `OIAnalytics command ${command.id}`
+    );
+    this.repositoryService.commandRepository.markAsCompleted(command.id, DateTime.now().toUTC().toISO(), JSON.stringify(outputArguments));
+  }
+
   /**
    * Stop services and timer
    */
@@ -217,6 +217,41 @@ describe('OIAnalytics message service without message', () => {
     expect(fetch).toHaveBeenCalledTimes(1);
   });
 
+  it('should send north cache full message', async () => {
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response()));
+    const message: OIAnalyticsMessageDTO = {
+      id: '5678',
+      status: 'PENDING',
+      type: 'NORTH_CACHE_FULL',
+      content: { northId: 'northId', northName: 'north', cacheSize: 2048, maxSize: 1, overflowPolicy: 'stop' }
+    };
+
+    await service.sendMessage(message);
+    expect(fetch).toHaveBeenCalledWith('http://localhost:4200/api/oianalytics/oibus/message', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ type: 'NORTH_CACHE_FULL', ...message.content }),
+      timeout: 15_000,
+      agent: undefined
+    });
+  });
+
+  it('should create message only when registered', () => {
+    const content = { northId: 'northId', northName: 'north', cacheSize: 2048, maxSize: 1, overflowPolicy: 'stop' as const };
+    (repositoryService.registrationRepository.getRegistrationSettings as jest.Mock).mockReturnValueOnce({ status: 'NOT_REGISTERED' });
+    service.addMessageToQueue = jest.fn();
+    service.createMessage('NORTH_CACHE_FULL', content);
+    expect(repositoryService.oianalyticsMessageRepository.createOIAnalyticsMessages).not.toHaveBeenCalled();
+
+    (repositoryService.registrationRepository.getRegistrationSettings as jest.Mock).mockReturnValueOnce({ status: 'REGISTERED' });
+    (repositoryService.oianalyticsMessageRepository.createOIAnalyticsMessages as jest.Mock).mockReturnValueOnce(existingMessage);
+    service.createMessage('NORTH_CACHE_FULL', content);
+    expect(repositoryService.oianalyticsMessageRepository.createOIAnalyticsMessages).toHaveBeenCalledWith('NORTH_CACHE_FULL', content);
+    expect(service.addMessageToQueue).toHaveBeenCalledWith(existingMessage);
+  });
+
   it('should not send message if message type is not recognized', async () => {
     service.removeMessageFromQueue = jest.fn();
     await service.sendMessage({ id: 'badId', type: 'BAD TYPE' } as any);
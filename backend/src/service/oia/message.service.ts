@@ -7,7 +7,13 @@ import DeferredPromise from '../deferred-promise';
 import { DateTime } from 'luxon';
 import { RegistrationSettingsDTO } from '../../../../shared/model/engine.model';
 import fetch from 'node-fetch';
-import { OIAnalyticsMessageCommand, OIAnalyticsMessageDTO } from '../../../../shared/model/oianalytics-message.model';
+import {
+  InfoMessage,
+  NorthCacheFullMessage,
+  OIAnalyticsMessageCommand,
+  OIAnalyticsMessageDTO,
+  OIAnalyticsMessageType
+} from '../../../../shared/model/oianalytics-message.model';
 
 const STOP_TIMEOUT = 30_000;
 const MESSAGE_TIMEOUT = 15_000;
@@ -85,6 +91,18 @@ export default class OIAnalyticsMessageService {
     this.triggerRun.emit('next');
   }
 
+  /**
+   * Create a message and add it to the queue, unless OIBus is not registered to OIAnalytics
+   */
+  createMessage(type: OIAnalyticsMessageType, content: InfoMessage | NorthCacheFullMessage): void {
+    const registration = this.repositoryService.registrationRepository.getRegistrationSettings()!;
+    if (registration.status === 'NOT_REGISTERED') {
+      return;
+    }
+    const createdMessage = this.repositoryService.oianalyticsMessageRepository.createOIAnalyticsMessages(type, content);
+    this.addMessageToQueue(createdMessage);
+  }
+
   messageToCommandDTO(message: OIAnalyticsMessageDTO): OIAnalyticsMessageCommand {
     switch (message.type) {
       case 'INFO':
@@ -102,9 +120,22 @@ export default class OIAnalyticsMessageService {
           platform: message.content.platform
         };
 
-      default:
-        this.removeMessageFromQueue(message.id);
-        throw new Error(`Unrecognized type ${message.type}. Message ${message.id} removed from queue`);
+      case 'NORTH_CACHE_FULL':
+        return {
+          type: 'NORTH_CACHE_FULL',
+          northId: message.content.northId,
+          northName: message.content.northName,
+          cacheSize: message.content.cacheSize,
+          maxSize: message.content.maxSize,
+          overflowPolicy: message.content.overflowPolicy
+        };
+
+      default: {
+        // Messages stored with a type unknown to this version of OIBus
+        const unknownMessage = message as OIAnalyticsMessageDTO;
+        this.removeMessageFromQueue(unknownMessage.id);
+        throw new Error(`Unrecognized type ${unknownMessage.type}. Message ${unknownMessage.id} removed from queue`);
+      }
     }
   }
 
@@ -876,6 +876,52 @@ describe('OIBus service should interact with OIA and', () => {
     });
   });
 
+  it('should retrieve and create South commands', async () => {
+    const fetchResponse: Array<OIBusCommandDTO> = [
+      { id: 'id2', type: 'WRITE_SOUTH_ITEM', status: 'RETRIEVED', ack: false, southId: 'southId', itemId: 'itemId', value: [1, 2] },
+      {
+        id: 'id3',
+        type: 'CALL_SOUTH_METHOD',
+        status: 'RETRIEVED',
+        ack: false,
+        southId: 'southId',
+        objectId: 'objectId',
+        methodId: 'methodId',
+        inputArguments: ['fast']
+      }
+    ];
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify(fetchResponse))));
+
+    await service.retrieveCommands();
+    expect(repositoryService.commandRepository.create).toHaveBeenCalledWith('id2', {
+      type: 'WRITE_SOUTH_ITEM',
+      southId: 'southId',
+      itemId: 'itemId',
+      value: [1, 2]
+    });
+    expect(repositoryService.commandRepository.create).toHaveBeenCalledWith('id3', {
+      type: 'CALL_SOUTH_METHOD',
+      southId: 'southId',
+      objectId: 'objectId',
+      methodId: 'methodId',
+      inputArguments: ['fast']
+    });
+  });
+
+  it('should ignore commands of unknown type', async () => {
+    const fetchResponse = [{ id: 'id4', type: 'UNKNOWN', status: 'RETRIEVED', ack: false }, command];
+    (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response(JSON.stringify(fetchResponse))));
+
+    await service.retrieveCommands();
+    expect(logger.error).toHaveBeenCalledWith('Command id4 of unknown type UNKNOWN ignored');
+    expect(repositoryService.commandRepository.create).toHaveBeenCalledTimes(1);
+    expect(repositoryService.commandRepository.create).toHaveBeenCalledWith('id1', {
+      type: command.type,
+      version: command.version,
+      assetId: command.assetId
+    });
+  });
+
   it('should retrieve log error on bad fetch response', async () => {
     (fetch as unknown as jest.Mock).mockReturnValueOnce(Promise.resolve(new Response('invalid', { status: 404 })));
 
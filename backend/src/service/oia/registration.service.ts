@@ -353,11 +353,11 @@ export default class RegistrationService {
       }
       this.logger.trace(`${newCommands.length} commands to add`);
       for (const command of newCommands) {
-        const creationCommand: OIBusCommand = {
-          type: command.type,
-          version: command.version,
-          assetId: command.assetId
-        };
+        const creationCommand = this.toCreationCommand(command);
+        if (!creationCommand) {
+          this.logger.error(`Command ${command.id} of unknown type ${command.type} ignored`);
+          continue;
+        }
         const newCommand = this.repositoryService.commandRepository.create(command.id, creationCommand);
         this.commandService.addCommandToQueue(newCommand);
       }
@@ -367,6 +367,28 @@ export default class RegistrationService {
     }
   }
 
+  /**
+   * Keep the fields of a command retrieved from OIAnalytics. Return null for a command type this version does not know
+   */
+  toCreationCommand(command: OIBusCommandDTO): OIBusCommand | null {
+    switch (command.type) {
+      case 'UPGRADE':
+        return { type: command.type, version: command.version, assetId: command.assetId };
+      case 'WRITE_SOUTH_ITEM':
+        return { type: command.type, southId: command.southId, itemId: command.itemId, value: command.value };
+      case 'CALL_SOUTH_METHOD':
+        return {
+          type: command.type,
+          southId: command.southId,
+          objectId: command.objectId,
+          methodId: command.methodId,
+          inputArguments: command.inputArguments
+        };
+      default:
+        return null;
+    }
+  }
+
   stop() {
     if (this.intervalCheckRegistration) {
       clearInterval(this.intervalCheckRegistration);
@@ -35,6 +35,7 @@ import OibusServiceMock from '../tests/__mocks__/oibus-service.mock';
 import { getOIBusInfo } from './utils';
 import OIAnalyticsMessageService from './oia/message.service';
 import MessageServiceMock from '../tests/__mocks__/message-service.mock';
+import { TransformerCommandDTO } from '../../../shared/model/transformer.model';
 
 jest.mock('./encryption.service');
 jest.mock('./logger/logger.service');
@@ -247,6 +248,7 @@ describe('reload service', () => {
     expect(oibusEngine.deleteSouth).toHaveBeenCalledWith('southId', 'southName');
 
     expect(repositoryService.southItemRepository.deleteAllSouthItems).toHaveBeenCalledWith('southId');
+    expect(repositoryService.transformerRepository.deleteAllTransformers).toHaveBeenCalledWith('southId');
     expect(repositoryService.southConnectorRepository.deleteSouthConnector).toHaveBeenCalledWith('southId');
 
     expect(repositoryService.logRepository.deleteLogsByScopeId).toHaveBeenCalledWith('south', 'southId');
@@ -289,6 +291,40 @@ describe('reload service', () => {
     expect(oibusEngine.onSouthItemsChange).toHaveBeenCalledWith('southId');
   });
 
+  it('should create transformer', async () => {
+    const command = { type: 'scaling', enabled: true, pointIdFilter: null, settings: { multiplier: 2, offset: 0 } };
+    const transformer = { id: 'transformerId', southId: 'southId', position: 0, ...command };
+    (repositoryService.transformerRepository.createTransformer as jest.Mock).mockReturnValueOnce(transformer);
+    const result = await service.onCreateTransformer('southId', command as TransformerCommandDTO);
+    expect(repositoryService.transformerRepository.createTransformer).toHaveBeenCalledWith('southId', command);
+    expect(oibusEngine.onSouthTransformersChange).toHaveBeenCalledWith('southId');
+    expect(result).toEqual(transformer);
+  });
+
+  it('should update transformer', async () => {
+    const command = { type: 'scaling', enabled: true, pointIdFilter: null, settings: { multiplier: 2, offset: 0 } };
+    await service.onUpdateTransformer('southId', 'transformerId', command as TransformerCommandDTO);
+    expect(repositoryService.transformerRepository.updateTransformer).toHaveBeenCalledWith('transformerId', command);
+    expect(oibusEngine.onSouthTransformersChange).toHaveBeenCalledWith('southId');
+  });
+
+  it('should order transformers', async () => {
+    await service.onOrderTransformers('southId', ['transformerId2', 'transformerId1']);
+    expect(repositoryService.transformerRepository.orderTransformers).toHaveBeenCalledWith('southId', ['transformerId2', 'transformerId1']);
+    expect(oibusEngine.onSouthTransformersChange).toHaveBeenCalledWith('southId');
+  });
+
+  it('should delete transformer', async () => {
+    (repositoryService.transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      { id: 'transformerId1' },
+      { id: 'transformerId3' }
+    ]);
+    await service.onDeleteTransformer('southId', 'transformerId2');
+    expect(repositoryService.transformerRepository.deleteTransformer).toHaveBeenCalledWith('transformerId2');
+    expect(repositoryService.transformerRepository.orderTransformers).toHaveBeenCalledWith('southId', ['transformerId1', 'transformerId3']);
+    expect(oibusEngine.onSouthTransformersChange).toHaveBeenCalledWith('southId');
+  });
+
   it('should create or update south items', () => {
     service.onCreateOrUpdateSouthItems({ id: 'southId' } as SouthConnectorDTO, [], []);
     expect(repositoryService.southItemRepository.createAndUpdateSouthItems).toHaveBeenCalledWith('southId', [], []);
@@ -413,6 +449,9 @@ describe('reload service', () => {
     const command: NorthConnectorCommandDTO = { enabled: false, name: 'new name' } as NorthConnectorCommandDTO;
     const previousSettings: NorthConnectorDTO = { id: 'northId', enabled: true, name: 'old name' } as NorthConnectorDTO;
     (repositoryService.northConnectorRepository.getNorthConnector as jest.Mock).mockReturnValueOnce(previousSettings);
+    (repositoryService.historyQueryRepository.getHistoryQueries as jest.Mock).mockReturnValueOnce([
+      { id: 'historyId', name: 'history', northId: 'northId', status: 'FINISHED' }
+    ]);
 
     await service.onUpdateNorthSettings('northId', command as NorthConnectorCommandDTO);
     expect(oibusEngine.stopNorth).toHaveBeenCalledWith('northId');
@@ -421,19 +460,53 @@ describe('reload service', () => {
     expect(repositoryService.northConnectorRepository.updateNorthConnector).toHaveBeenCalledWith('northId', command);
   });
 
+  it('should not disable north used by a running history query', async () => {
+    const command: NorthConnectorCommandDTO = { enabled: false, name: 'new name' } as NorthConnectorCommandDTO;
+    const previousSettings: NorthConnectorDTO = { id: 'northId', enabled: true, name: 'old name' } as NorthConnectorDTO;
+    (repositoryService.northConnectorRepository.getNorthConnector as jest.Mock).mockReturnValueOnce(previousSettings);
+    (repositoryService.historyQueryRepository.getHistoryQueries as jest.Mock).mockReturnValueOnce([
+      { id: 'historyId', name: 'history', northId: 'northId', status: 'RUNNING' }
+    ]);
+
+    await expect(service.onUpdateNorthSettings('northId', command)).rejects.toThrow(
+      new Error('North connector "old name" is used by History query "history"')
+    );
+    expect(repositoryService.northConnectorRepository.updateNorthConnector).not.toHaveBeenCalled();
+    expect(oibusEngine.stopNorth).not.toHaveBeenCalled();
+  });
+
   it('should delete north', async () => {
     const northConnector: NorthConnectorDTO = { name: 'northName', id: 'northId' } as NorthConnectorDTO;
     (repositoryService.northConnectorRepository.getNorthConnector as jest.Mock).mockReturnValueOnce(northConnector);
+    (repositoryService.historyQueryRepository.getHistoryQueries as jest.Mock).mockReturnValueOnce([
+      { id: 'historyId', name: 'history', northId: 'otherNorthId', status: 'RUNNING' }
+    ]);
 
     await service.onDeleteNorth('northId');
 
     expect(repositoryService.northConnectorRepository.getNorthConnector).toHaveBeenCalledWith('northId');
+    expect(repositoryService.subscriptionRepository.deleteNorthSubscriptions).toHaveBeenCalledWith('northId');
     expect(oibusEngine.deleteNorth).toHaveBeenCalledWith(northConnector.id, northConnector.name);
     expect(repositoryService.northConnectorRepository.deleteNorthConnector).toHaveBeenCalledWith('northId');
     expect(repositoryService.logRepository.deleteLogsByScopeId).toHaveBeenCalledWith('north', 'northId');
     expect(repositoryService.northMetricsRepository.removeMetrics).toHaveBeenCalledWith('northId');
   });
 
+  it('should not delete north used by a history query', async () => {
+    const northConnector: NorthConnectorDTO = { name: 'northName', id: 'northId' } as NorthConnectorDTO;
+    (repositoryService.northConnectorRepository.getNorthConnector as jest.Mock).mockReturnValueOnce(northConnector);
+    (repositoryService.historyQueryRepository.getHistoryQueries as jest.Mock).mockReturnValueOnce([
+      { id: 'historyId', name: 'history', northId: 'northId', status: 'FINISHED' }
+    ]);
+
+    await expect(service.onDeleteNorth('northId')).rejects.toThrow(
+      new Error('North connector "northName" is used by History query "history"')
+    );
+    expect(repositoryService.subscriptionRepository.deleteNorthSubscriptions).not.toHaveBeenCalled();
+    expect(oibusEngine.deleteNorth).not.toHaveBeenCalled();
+    expect(repositoryService.northConnectorRepository.deleteNorthConnector).not.toHaveBeenCalled();
+  });
+
   it('should start north', async () => {
     await service.onStartNorth('northId');
     expect(repositoryService.northConnectorRepository.startNorthConnector).toHaveBeenCalledWith('northId');
@@ -441,11 +514,27 @@ describe('reload service', () => {
   });
 
   it('should stop north', async () => {
+    (repositoryService.northConnectorRepository.getNorthConnector as jest.Mock).mockReturnValueOnce({ id: 'northId', name: 'northName' });
+    (repositoryService.historyQueryRepository.getHistoryQueries as jest.Mock).mockReturnValueOnce([]);
+
     await service.onStopNorth('northId');
     expect(repositoryService.northConnectorRepository.stopNorthConnector).toHaveBeenCalledWith('northId');
     expect(oibusEngine.stopNorth).toHaveBeenCalledWith('northId');
   });
 
+  it('should not stop north used by a paused history query', async () => {
+    (repositoryService.northConnectorRepository.getNorthConnector as jest.Mock).mockReturnValueOnce({ id: 'northId', name: 'northName' });
+    (repositoryService.historyQueryRepository.getHistoryQueries as jest.Mock).mockReturnValueOnce([
+      { id: 'historyId', name: 'history', northId: 'northId', status: 'PAUSED' }
+    ]);
+
+    await expect(service.onStopNorth('northId')).rejects.toThrow(
+      new Error('North connector "northName" is used by History query "history"')
+    );
+    expect(repositoryService.northConnectorRepository.stopNorthConnector).not.toHaveBeenCalled();
+    expect(oibusEngine.stopNorth).not.toHaveBeenCalled();
+  });
+
   it('should create history query', async () => {
     const command = {};
     const southItems: Array<SouthConnectorItemDTO> = [
@@ -470,21 +559,42 @@ describe('reload service', () => {
   });
 
   it('should update history query and reload logger', async () => {
-    const command = { name: 'another name' };
-    (repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValueOnce({ id: 'historyId', name: 'name' });
-    await service.onUpdateHistoryQuerySettings('historyId', command as HistoryQueryCommandDTO);
+    const command = { name: 'another name', additionalNorths: [] };
+    (repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValueOnce({
+      id: 'historyId',
+      name: 'name',
+      additionalNorths: []
+    });
+    await service.onUpdateHistoryQuerySettings('historyId', command as unknown as HistoryQueryCommandDTO);
     expect(repositoryService.historyQueryRepository.updateHistoryQuery).toHaveBeenCalledWith('historyId', command);
     expect(historyQueryEngine.setLogger).toHaveBeenCalledWith(historyQueryEngine.logger);
   });
 
   it('should update history query and not reload logger', async () => {
-    const command = { name: 'name' };
-    (repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValueOnce({ id: 'historyId', name: 'name' });
-    await service.onUpdateHistoryQuerySettings('historyId', command as HistoryQueryCommandDTO);
+    const command = { name: 'name', additionalNorths: [] };
+    (repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValueOnce({
+      id: 'historyId',
+      name: 'name',
+      additionalNorths: []
+    });
+    await service.onUpdateHistoryQuerySettings('historyId', command as unknown as HistoryQueryCommandDTO);
     expect(repositoryService.historyQueryRepository.updateHistoryQuery).toHaveBeenCalledWith('historyId', command);
     expect(historyQueryEngine.setLogger).not.toHaveBeenCalled();
   });
 
+  it('should update history query and delete the cache of removed North targets', async () => {
+    const command = { name: 'name', additionalNorths: [{ id: 'targetId1' }, { id: null }] };
+    (repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValueOnce({
+      id: 'historyId',
+      name: 'name',
+      additionalNorths: [{ id: 'targetId1' }, { id: 'targetId2' }]
+    });
+    await service.onUpdateHistoryQuerySettings('historyId', command as unknown as HistoryQueryCommandDTO);
+    expect(historyQueryEngine.deleteAdditionalNorthCache).toHaveBeenCalledTimes(1);
+    expect(historyQueryEngine.deleteAdditionalNorthCache).toHaveBeenCalledWith('historyId', 'targetId2');
+    expect(repositoryService.northMetricsRepository.removeMetrics).toHaveBeenCalledWith('targetId2');
+  });
+
   it('should delete history query', async () => {
     (repositoryService.historyQueryRepository.getHistoryQuery as jest.Mock).mockReturnValueOnce({ name: 'historyName', id: 'historyId' });
 
@@ -494,6 +604,7 @@ describe('reload service', () => {
     expect(historyQueryEngine.deleteHistoryQuery).toHaveBeenCalledWith('historyId', 'historyName');
 
     expect(repositoryService.historyQueryItemRepository.deleteAllItems).toHaveBeenCalledWith('historyId');
+    expect(repositoryService.historyQueryRunRepository.deleteRuns).toHaveBeenCalledWith('historyId');
     expect(repositoryService.historyQueryRepository.deleteHistoryQuery).toHaveBeenCalledWith('historyId');
 
     expect(repositoryService.logRepository.deleteLogsByScopeId).toHaveBeenCalledWith('history-query', 'historyId');
@@ -528,6 +639,13 @@ describe('reload service', () => {
     expect(historyQueryEngine.startHistoryQuery).toHaveBeenCalledWith('historyId');
   });
 
+  it('should retry the failed intervals of a history query', async () => {
+    await service.onRetryHistoryQueryIntervals('historyId');
+    expect(historyQueryEngine.stopHistoryQuery).toHaveBeenCalledWith('historyId');
+    expect(repositoryService.historyQueryRepository.setHistoryQueryStatus).toHaveBeenCalledWith('historyId', 'RUNNING');
+    expect(historyQueryEngine.retryHistoryQueryIntervals).toHaveBeenCalledWith('historyId');
+  });
+
   it('should stop history query', async () => {
     await service.onPauseHistoryQuery('historyId');
     expect(historyQueryEngine.stopHistoryQuery).toHaveBeenCalledWith('historyId');
@@ -585,12 +703,91 @@ describe('reload service', () => {
     expect(oibusEngine.updateNorthConnectorSubscriptions).toHaveBeenCalledWith('northId');
   });
 
+  it('should update North subscription script', async () => {
+    await service.onUpdateNorthSubscriptionScript('northId', 'southId', 'content');
+    expect(repositoryService.subscriptionRepository.updateNorthSubscriptionScript).toHaveBeenCalledWith('northId', 'southId', 'content');
+    expect(oibusEngine.updateNorthConnectorSubscriptions).toHaveBeenCalledWith('northId');
+  });
+
   it('should delete North subscription', async () => {
     await service.onDeleteNorthSubscription('northId', 'southId');
     expect(repositoryService.subscriptionRepository.deleteNorthSubscription).toHaveBeenCalledWith('northId', 'southId');
     expect(oibusEngine.updateNorthConnectorSubscriptions).toHaveBeenCalledWith('northId');
   });
 
+  it('should write a South item', async () => {
+    const item = { id: 'itemId', name: 'item', connectorId: 'southId' } as SouthConnectorItemDTO;
+    await service.writeSouthItem('southId', item, 12, 'admin');
+    expect(oibusEngine.writeSouthItem).toHaveBeenCalledWith('southId', item, 12, 'admin');
+  });
+
+  it('should set the max instant of a South cache entry of a stopped South', async () => {
+    const command = { southId: 'southId', scanModeId: 'scanModeId', itemId: 'itemId', maxInstant: '2020-02-02T02:02:02.222Z' };
+    (repositoryService.southConnectorRepository.getSouthConnector as jest.Mock).mockReturnValueOnce({ id: 'southId', enabled: false });
+
+    await service.onSetSouthCacheMaxInstant(command);
+    expect(repositoryService.southCacheRepository.createOrUpdateCacheScanMode).toHaveBeenCalledWith(command);
+    expect(oibusEngine.stopSouth).not.toHaveBeenCalled();
+    expect(oibusEngine.startSouth).not.toHaveBeenCalled();
+  });
+
+  it('should set the max instant of a South cache entry while the South is stopped', async () => {
+    const command = { southId: 'southId', scanModeId: 'scanModeId', itemId: 'itemId', maxInstant: '2020-02-02T02:02:02.222Z' };
+    (repositoryService.southConnectorRepository.getSouthConnector as jest.Mock).mockReturnValueOnce({ id: 'southId', enabled: true });
+    const calls: Array<string> = [];
+    (oibusEngine.stopSouth as jest.Mock).mockImplementationOnce(() => calls.push('stop'));
+    (repositoryService.southCacheRepository.createOrUpdateCacheScanMode as jest.Mock).mockImplementationOnce(() => calls.push('update'));
+    (oibusEngine.startSouth as jest.Mock).mockImplementationOnce(() => calls.push('start'));
+
+    await service.onSetSouthCacheMaxInstant(command);
+    expect(repositoryService.southCacheRepository.createOrUpdateCacheScanMode).toHaveBeenCalledWith(command);
+    expect(oibusEngine.stopSouth).toHaveBeenCalledWith('southId');
+    expect(oibusEngine.startSouth).toHaveBeenCalledWith('southId');
+    expect(calls).toEqual(['stop', 'update', 'start']);
+  });
+
+  it('should restart the South when the cache update fails', async () => {
+    const command = { southId: 'southId', scanModeId: 'scanModeId', itemId: 'itemId', maxInstant: '2020-02-02T02:02:02.222Z' };
+    (repositoryService.southConnectorRepository.getSouthConnector as jest.Mock).mockReturnValueOnce({ id: 'southId', enabled: true });
+    (repositoryService.southCacheRepository.createOrUpdateCacheScanMode as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('database error');
+    });
+
+    await expect(service.onSetSouthCacheMaxInstant(command)).rejects.toThrow(new Error('database error'));
+    expect(oibusEngine.startSouth).toHaveBeenCalledWith('southId');
+  });
+
+  it('should rewind the South cache entries', async () => {
+    const cacheEntries = [
+      { southId: 'southId', scanModeId: 'scanModeId', itemId: 'itemId1', maxInstant: '2020-02-01T02:02:02.222Z' },
+      { southId: 'southId', scanModeId: 'scanModeId', itemId: 'itemId2', maxInstant: '2020-02-03T02:02:02.222Z' }
+    ];
+    (repositoryService.southConnectorRepository.getSouthConnector as jest.Mock).mockReturnValueOnce({ id: 'southId', enabled: true });
+    (repositoryService.southCacheRepository.getSouthCacheScanModes as jest.Mock).mockReturnValueOnce(cacheEntries);
+
+    expect(await service.onRewindSouthCache('southId', '2020-02-02T02:02:02.222Z')).toEqual([cacheEntries[1]]);
+    expect(oibusEngine.stopSouth).toHaveBeenCalledWith('southId');
+    expect(oibusEngine.startSouth).toHaveBeenCalledWith('southId');
+    expect(repositoryService.southCacheRepository.getSouthCacheScanModes).toHaveBeenCalledWith('southId');
+    expect(repositoryService.southCacheRepository.createOrUpdateCacheScanMode).toHaveBeenCalledTimes(1);
+    expect(repositoryService.southCacheRepository.createOrUpdateCacheScanMode).toHaveBeenCalledWith({
+      ...cacheEntries[1],
+      maxInstant: '2020-02-02T02:02:02.222Z'
+    });
+  });
+
+  it('should call a South method', async () => {
+    (oibusEngine.callSouthMethod as jest.Mock).mockReturnValueOnce([1]);
+    expect(await service.callSouthMethod('southId', 'objectId', 'methodId', [12], 'admin')).toEqual([1]);
+    expect(oibusEngine.callSouthMethod).toHaveBeenCalledWith('southId', 'objectId', 'methodId', [12], 'admin');
+  });
+
+  it('should browse a South', async () => {
+    (oibusEngine.browseSouth as jest.Mock).mockReturnValueOnce([]);
+    expect(await service.browseSouth('southId', 'nodeId')).toEqual([]);
+    expect(oibusEngine.browseSouth).toHaveBeenCalledWith('southId', 'nodeId');
+  });
+
   it('should retrieve error file from north', async () => {
     await service.getErrorFiles('northId', '2020-02-02T02:02:02.222Z', '2022-02-02T02:02:02.222Z', 'file');
     expect(oibusEngine.getErrorFiles).toHaveBeenCalledWith('northId', '2020-02-02T02:02:02.222Z', '2022-02-02T02:02:02.222Z', 'file');
@@ -612,6 +809,7 @@ describe('reload service', () => {
     await service.onUpdateScanMode('scanModeId', { cron: '*/10 * * * *' } as ScanModeCommandDTO);
     expect(repositoryService.scanModeRepository.getScanMode).toHaveBeenCalledWith('scanModeId');
     expect(oibusEngine.updateScanMode).toHaveBeenCalledWith({ id: 'scanModeId', cron: '* * * * *' });
+    expect(historyQueryEngine.updateScanMode).toHaveBeenCalledWith({ id: 'scanModeId', cron: '* * * * *' });
   });
 
   it('should not update scan mode if not found', async () => {
@@ -630,6 +828,7 @@ describe('reload service', () => {
     await service.onUpdateScanMode('scanModeId', { cron: '* * * * *' } as ScanModeCommandDTO);
     expect(repositoryService.scanModeRepository.getScanMode).toHaveBeenCalledWith('scanModeId');
     expect(oibusEngine.updateScanMode).not.toHaveBeenCalled();
+    expect(historyQueryEngine.updateScanMode).not.toHaveBeenCalled();
   });
 
   describe('onSouthItemScanModeChange', () => {
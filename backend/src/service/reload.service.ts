@@ -3,11 +3,14 @@ import LoggerService from './logger/logger.service';
 
 import { EngineSettingsDTO } from '../../../shared/model/engine.model';
 import {
+  SouthCache,
+  SouthConnectorBrowseNodeDTO,
   SouthConnectorCommandDTO,
   SouthConnectorDTO,
   SouthConnectorItemCommandDTO,
   SouthConnectorItemDTO,
-  SouthConnectorItemScanModeNameDTO
+  SouthConnectorItemScanModeNameDTO,
+  SouthItemWriteValue
 } from '../../../shared/model/south-connector.model';
 import { NorthCacheFiles, NorthConnectorCommandDTO, NorthConnectorDTO } from '../../../shared/model/north-connector.model';
 import { HistoryQueryCommandDTO, HistoryQueryDTO, SouthHistoryQueryItemDTO } from '../../../shared/model/history-query.model';
@@ -18,12 +21,14 @@ import SouthService from './south.service';
 import OIBusEngine from '../engine/oibus-engine';
 import HistoryQueryEngine from '../engine/history-query-engine';
 import { Instant } from '../../../shared/model/types';
+import { TransformerCommandDTO, TransformerDTO } from '../../../shared/model/transformer.model';
 import { ScanModeCommandDTO } from '../../../shared/model/scan-mode.model';
 import HomeMetricsService from './home-metrics.service';
 import ProxyServer from '../web-server/proxy-server';
 import OIBusService from './oibus.service';
 import { getOIBusInfo } from './utils';
 import OIAnalyticsMessageService from './oia/message.service';
+import { DateTime } from 'luxon';
 
 export default class ReloadService {
   private webServerChangeLoggerCallback: (logger: pino.Logger) => void = () => {};
@@ -177,6 +182,7 @@ export default class ReloadService {
     await this.oibusEngine.deleteSouth(id, name);
 
     this.repositoryService.southItemRepository.deleteAllSouthItems(id);
+    this.repositoryService.transformerRepository.deleteAllTransformers(id);
     this.repositoryService.southConnectorRepository.deleteSouthConnector(id);
 
     this.repositoryService.logRepository.deleteLogsByScopeId('south', id);
@@ -252,6 +258,32 @@ export default class ReloadService {
     await this.oibusEngine.onSouthItemsChange(southId);
   }
 
+  async onCreateTransformer(southId: string, command: TransformerCommandDTO): Promise<TransformerDTO> {
+    const transformer = this.repositoryService.transformerRepository.createTransformer(southId, command);
+    this.oibusEngine.onSouthTransformersChange(southId);
+    return transformer;
+  }
+
+  async onUpdateTransformer(southId: string, transformerId: string, command: TransformerCommandDTO): Promise<void> {
+    this.repositoryService.transformerRepository.updateTransformer(transformerId, command);
+    this.oibusEngine.onSouthTransformersChange(southId);
+  }
+
+  async onOrderTransformers(southId: string, transformerIds: Array<string>): Promise<void> {
+    this.repositoryService.transformerRepository.orderTransformers(southId, transformerIds);
+    this.oibusEngine.onSouthTransformersChange(southId);
+  }
+
+  async onDeleteTransformer(southId: string, transformerId: string): Promise<void> {
+    this.repositoryService.transformerRepository.deleteTransformer(transformerId);
+    // Keep the positions contiguous so that new transformers are added at the end
+    this.repositoryService.transformerRepository.orderTransformers(
+      southId,
+      this.repositoryService.transformerRepository.getTransformers(southId).map(transformer => transformer.id)
+    );
+    this.oibusEngine.onSouthTransformersChange(southId);
+  }
+
   async onCreateNorth(command: NorthConnectorCommandDTO): Promise<NorthConnectorDTO> {
     const northConnector = this.repositoryService.northConnectorRepository.createNorthConnector(command);
     await this.oibusEngine.createNorth(northConnector);
@@ -260,6 +292,9 @@ export default class ReloadService {
 
   async onUpdateNorthSettings(northId: string, command: NorthConnectorCommandDTO): Promise<void> {
     const previousSettings = this.repositoryService.northConnectorRepository.getNorthConnector(northId)!;
+    if (!command.enabled) {
+      this.checkNorthUsage(previousSettings, false);
+    }
     this.repositoryService.northConnectorRepository.updateNorthConnector(northId, command);
 
     if (previousSettings.name !== command.name) {
@@ -275,7 +310,10 @@ export default class ReloadService {
   }
 
   async onDeleteNorth(northId: string): Promise<void> {
-    const { id, name } = this.repositoryService.northConnectorRepository.getNorthConnector(northId)!;
+    const northConnector = this.repositoryService.northConnectorRepository.getNorthConnector(northId)!;
+    this.checkNorthUsage(northConnector, true);
+    const { id, name } = northConnector;
+    this.repositoryService.subscriptionRepository.deleteNorthSubscriptions(id);
     await this.oibusEngine.deleteNorth(id, name);
     this.repositoryService.northConnectorRepository.deleteNorthConnector(id);
     this.repositoryService.logRepository.deleteLogsByScopeId('north', id);
@@ -288,15 +326,34 @@ export default class ReloadService {
   }
 
   async onStopNorth(northId: string): Promise<void> {
+    this.checkNorthUsage(this.repositoryService.northConnectorRepository.getNorthConnector(northId)!, false);
     await this.oibusEngine.stopNorth(northId);
     this.repositoryService.northConnectorRepository.stopNorthConnector(northId);
   }
 
+  /**
+   * Throw an error if a History query sends its data to the North connector, which could not cache them anymore.
+   * A North connector can be disabled once the History queries using it are finished, but not deleted
+   */
+  private checkNorthUsage(northConnector: NorthConnectorDTO, deletion: boolean): void {
+    const historyQuery = this.repositoryService.historyQueryRepository
+      .getHistoryQueries()
+      .find(historyQuery => historyQuery.northId === northConnector.id && (deletion || historyQuery.status !== 'FINISHED'));
+    if (historyQuery) {
+      throw new Error(`North connector "${northConnector.name}" is used by History query "${historyQuery.name}"`);
+    }
+  }
+
   async onCreateNorthSubscription(northId: string, southId: string): Promise<void> {
     this.repositoryService.subscriptionRepository.createNorthSubscription(northId, southId);
     this.oibusEngine.updateNorthConnectorSubscriptions(northId);
   }
 
+  async onUpdateNorthSubscriptionScript(northId: string, southId: string, script: string | null): Promise<void> {
+    this.repositoryService.subscriptionRepository.updateNorthSubscriptionScript(northId, southId, script);
+    this.oibusEngine.updateNorthConnectorSubscriptions(northId);
+  }
+
   async onDeleteNorthSubscription(northId: string, southId: string): Promise<void> {
     this.repositoryService.subscriptionRepository.deleteNorthSubscription(northId, southId);
     this.oibusEngine.updateNorthConnectorSubscriptions(northId);
@@ -324,6 +381,12 @@ export default class ReloadService {
     const previousSettings = this.repositoryService.historyQueryRepository.getHistoryQuery(historyId)!;
     this.repositoryService.historyQueryRepository.setHistoryQueryStatus(historyId, 'PENDING');
     this.repositoryService.historyQueryRepository.updateHistoryQuery(historyId, command);
+    for (const previousNorth of previousSettings.additionalNorths) {
+      if (!command.additionalNorths.some(target => target.id === previousNorth.id)) {
+        await this.historyEngine.deleteAdditionalNorthCache(historyId, previousNorth.id);
+        this.repositoryService.northMetricsRepository.removeMetrics(previousNorth.id);
+      }
+    }
     if (previousSettings.name !== command.name) {
       this.historyEngine.setLogger(this.historyEngine.logger);
     }
@@ -334,6 +397,12 @@ export default class ReloadService {
     await this.historyEngine.startHistoryQuery(historyId);
   }
 
+  async onRetryHistoryQueryIntervals(historyId: string): Promise<void> {
+    await this.historyEngine.stopHistoryQuery(historyId);
+    this.repositoryService.historyQueryRepository.setHistoryQueryStatus(historyId, 'RUNNING');
+    await this.historyEngine.retryHistoryQueryIntervals(historyId);
+  }
+
   async onPauseHistoryQuery(historyId: string): Promise<void> {
     await this.historyEngine.stopHistoryQuery(historyId);
     this.repositoryService.historyQueryRepository.setHistoryQueryStatus(historyId, 'PAUSED');
@@ -344,6 +413,7 @@ export default class ReloadService {
     await this.historyEngine.deleteHistoryQuery(id, name);
 
     this.repositoryService.historyQueryItemRepository.deleteAllItems(id);
+    this.repositoryService.historyQueryRunRepository.deleteRuns(id);
     this.repositoryService.historyQueryRepository.deleteHistoryQuery(id);
     this.repositoryService.logRepository.deleteLogsByScopeId('history-query', id);
   }
@@ -395,6 +465,67 @@ export default class ReloadService {
     this.repositoryService.historyQueryItemRepository.createAndUpdateItems(historyQuery.id, itemsToAdd, itemsToUpdate);
   }
 
+  async writeSouthItem(southId: string, item: SouthConnectorItemDTO, value: SouthItemWriteValue, user: string): Promise<void> {
+    await this.oibusEngine.writeSouthItem(southId, item, value, user);
+  }
+
+  /**
+   * Set the max instant of a south cache entry, from which the history is queried again on the next run of its scan mode
+   */
+  async onSetSouthCacheMaxInstant(command: SouthCache): Promise<void> {
+    await this.updateSouthCache(command.southId, () => {
+      this.repositoryService.southCacheRepository.createOrUpdateCacheScanMode(command);
+    });
+  }
+
+  /**
+   * Set back to the given instant the max instant of the south cache entries beyond it, and return the previous entries
+   */
+  async onRewindSouthCache(southId: string, maxInstant: Instant): Promise<Array<SouthCache>> {
+    let cacheEntriesToRewind: Array<SouthCache> = [];
+    await this.updateSouthCache(southId, () => {
+      cacheEntriesToRewind = this.repositoryService.southCacheRepository
+        .getSouthCacheScanModes(southId)
+        .filter(cacheEntry => DateTime.fromISO(cacheEntry.maxInstant) > DateTime.fromISO(maxInstant));
+      for (const cacheEntry of cacheEntriesToRewind) {
+        this.repositoryService.southCacheRepository.createOrUpdateCacheScanMode({ ...cacheEntry, maxInstant });
+      }
+    });
+    return cacheEntriesToRewind;
+  }
+
+  /**
+   * A running South connector is stopped while its cache is updated, once its current history query is over, so that
+   * the query does not overwrite the new max instants. It is restarted afterward
+   */
+  private async updateSouthCache(southId: string, update: () => void): Promise<void> {
+    const southConnector = this.repositoryService.southConnectorRepository.getSouthConnector(southId)!;
+    if (!southConnector.enabled) {
+      update();
+      return;
+    }
+    await this.oibusEngine.stopSouth(southId);
+    try {
+      update();
+    } finally {
+      await this.oibusEngine.startSouth(southId);
+    }
+  }
+
+  async callSouthMethod(
+    southId: string,
+    objectId: string,
+    methodId: string,
+    inputArguments: Array<SouthItemWriteValue>,
+    user: string
+  ): Promise<Array<any>> {
+    return await this.oibusEngine.callSouthMethod(southId, objectId, methodId, inputArguments, user);
+  }
+
+  async browseSouth(southId: string, nodeId: string | null): Promise<Array<SouthConnectorBrowseNodeDTO>> {
+    return await this.oibusEngine.browseSouth(southId, nodeId);
+  }
+
   async getErrorFiles(northId: string, start: Instant, end: Instant, fileNameContains: string): Promise<Array<NorthCacheFiles>> {
     return await this.oibusEngine.getErrorFiles(northId, start, end, fileNameContains);
   }
@@ -408,6 +539,7 @@ export default class ReloadService {
     const newScanMode = this.repositoryService.scanModeRepository.getScanMode(scanModeId)!;
     if (oldScanMode.cron !== scanModeCommand.cron) {
       await this.oibusEngine.updateScanMode(newScanMode);
+      await this.historyEngine.updateScanMode(newScanMode);
     }
   }
 
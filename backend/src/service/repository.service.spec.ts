@@ -11,6 +11,7 @@ import NorthConnectorRepository from '../repository/north-connector.repository';
 import LogRepository from '../repository/log.repository';
 import HistoryQueryRepository from '../repository/history-query.repository';
 import HistoryQueryItemRepository from '../repository/history-query-item.repository';
+import HistoryQueryRunRepository from '../repository/history-query-run.repository';
 import UserRepository from '../repository/user.repository';
 import SubscriptionRepository from '../repository/subscription.repository';
 import CryptoRepository from '../repository/crypto.repository';
@@ -22,6 +23,7 @@ import CertificateRepository from '../repository/certificate.repository';
 import RegistrationRepository from '../repository/registration.repository';
 import CommandRepository from '../repository/command.repository';
 import OianalyticsMessageRepository from '../repository/oianalytics-message.repository';
+import TransformerRepository from '../repository/transformer.repository';
 
 jest.mock('better-sqlite3', () => jest.fn(() => 'sqlite database'));
 jest.mock('../repository/crypto.repository');
@@ -38,12 +40,14 @@ jest.mock('../repository/south-item.repository');
 jest.mock('../repository/log.repository');
 jest.mock('../repository/history-query.repository');
 jest.mock('../repository/history-query-item.repository');
+jest.mock('../repository/history-query-run.repository');
 jest.mock('../repository/user.repository');
 jest.mock('../repository/subscription.repository');
 jest.mock('../repository/certificate.repository');
 jest.mock('../repository/registration.repository');
 jest.mock('../repository/command.repository');
 jest.mock('../repository/oianalytics-message.repository');
+jest.mock('../repository/transformer.repository');
 
 describe('Repository service', () => {
   it('should properly initialize service', () => {
@@ -66,12 +70,14 @@ describe('Repository service', () => {
     expect(LogRepository).toHaveBeenCalledWith('sqlite database');
     expect(HistoryQueryRepository).toHaveBeenCalledWith('sqlite database');
     expect(HistoryQueryItemRepository).toHaveBeenCalledWith('sqlite database');
+    expect(HistoryQueryRunRepository).toHaveBeenCalledWith('sqlite database');
     expect(UserRepository).toHaveBeenCalledWith('sqlite database');
     expect(SubscriptionRepository).toHaveBeenCalledWith('sqlite database');
     expect(RegistrationRepository).toHaveBeenCalledWith('sqlite database');
     expect(CertificateRepository).toHaveBeenCalledWith('sqlite database');
     expect(CommandRepository).toHaveBeenCalledWith('sqlite database');
     expect(OianalyticsMessageRepository).toHaveBeenCalledWith('sqlite database');
+    expect(TransformerRepository).toHaveBeenCalledWith('sqlite database');
 
     expect(repositoryService.engineRepository).toBeDefined();
     expect(repositoryService.cryptoRepository).toBeDefined();
@@ -88,10 +94,12 @@ describe('Repository service', () => {
     expect(repositoryService.logRepository).toBeDefined();
     expect(repositoryService.historyQueryRepository).toBeDefined();
     expect(repositoryService.historyQueryItemRepository).toBeDefined();
+    expect(repositoryService.historyQueryRunRepository).toBeDefined();
     expect(repositoryService.userRepository).toBeDefined();
     expect(repositoryService.subscriptionRepository).toBeDefined();
     expect(repositoryService.certificateRepository).toBeDefined();
     expect(repositoryService.commandRepository).toBeDefined();
     expect(repositoryService.oianalyticsMessageRepository).toBeDefined();
+    expect(repositoryService.transformerRepository).toBeDefined();
   });
 });
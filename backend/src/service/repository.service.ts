@@ -10,6 +10,7 @@ import LogRepository from '../repository/log.repository';
 import HistoryQueryRepository from '../repository/history-query.repository';
 import UserRepository from '../repository/user.repository';
 import HistoryQueryItemRepository from '../repository/history-query-item.repository';
+import HistoryQueryRunRepository from '../repository/history-query-run.repository';
 import SubscriptionRepository from '../repository/subscription.repository';
 import CryptoRepository from '../repository/crypto.repository';
 import SouthConnectorMetricsRepository from '../repository/south-connector-metrics.repository';
@@ -20,6 +21,7 @@ import CertificateRepository from '../repository/certificate.repository';
 import RegistrationRepository from '../repository/registration.repository';
 import CommandRepository from '../repository/command.repository';
 import OianalyticsMessageRepository from '../repository/oianalytics-message.repository';
+import TransformerRepository from '../repository/transformer.repository';
 
 export default class RepositoryService {
   private readonly _engineRepository: EngineRepository;
@@ -37,11 +39,13 @@ export default class RepositoryService {
   private readonly _northMetricsRepository: NorthConnectorMetricsRepository;
   private readonly _historyQueryRepository: HistoryQueryRepository;
   private readonly _historyQueryItemRepository: HistoryQueryItemRepository;
+  private readonly _historyQueryRunRepository: HistoryQueryRunRepository;
   private readonly _userRepository: UserRepository;
   private readonly _subscriptionRepository: SubscriptionRepository;
   private readonly _registrationRepository: RegistrationRepository;
   private readonly _commandRepository: CommandRepository;
   private readonly _oianalyticsMessageRepository: OianalyticsMessageRepository;
+  private readonly _transformerRepository: TransformerRepository;
 
   constructor(oibusDatabasePath: string, logsDatabasePath: string, cryptoDatabasePath: string, cacheDatabasePath: string) {
     const oibusDatabase = Database(oibusDatabasePath);
@@ -59,11 +63,13 @@ export default class RepositoryService {
     this._southItemRepository = new SouthItemRepository(oibusDatabase);
     this._historyQueryRepository = new HistoryQueryRepository(oibusDatabase);
     this._historyQueryItemRepository = new HistoryQueryItemRepository(oibusDatabase);
+    this._historyQueryRunRepository = new HistoryQueryRunRepository(oibusDatabase);
     this._userRepository = new UserRepository(oibusDatabase);
     this._subscriptionRepository = new SubscriptionRepository(oibusDatabase);
     this._registrationRepository = new RegistrationRepository(oibusDatabase);
     this._commandRepository = new CommandRepository(oibusDatabase);
     this._oianalyticsMessageRepository = new OianalyticsMessageRepository(oibusDatabase);
+    this._transformerRepository = new TransformerRepository(oibusDatabase);
 
     this._cryptoRepository = new CryptoRepository(cryptoDatabase);
 
@@ -144,6 +150,10 @@ export default class RepositoryService {
     return this._historyQueryItemRepository;
   }
 
+  get historyQueryRunRepository(): HistoryQueryRunRepository {
+    return this._historyQueryRunRepository;
+  }
+
   get subscriptionRepository(): SubscriptionRepository {
     return this._subscriptionRepository;
   }
@@ -155,4 +165,8 @@ export default class RepositoryService {
   get oianalyticsMessageRepository(): OianalyticsMessageRepository {
     return this._oianalyticsMessageRepository;
   }
+
+  get transformerRepository(): TransformerRepository {
+    return this._transformerRepository;
+  }
 }
@@ -0,0 +1,97 @@
+import ScriptTransformerService from './script-transformer.service';
+import { OIBusTimeValueContent } from '../../../shared/model/engine.model';
+
+const content: OIBusTimeValueContent = {
+  type: 'time-values',
+  content: [
+    { pointId: 'point1', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 1 } },
+    { pointId: 'point2', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 2 } }
+  ]
+};
+
+describe('ScriptTransformerService', () => {
+  it('should transform content with an expression', () => {
+    const service = new ScriptTransformerService(
+      '({ ...content, content: content.content.map(value => ({ ...value, data: { value: value.data.value * 10 } })) })'
+    );
+    expect(service.transform(content)).toEqual({
+      type: 'time-values',
+      content: [
+        { pointId: 'point1', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 10 } },
+        { pointId: 'point2', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 20 } }
+      ]
+    });
+    // The content given to the script must not be changed
+    expect(content.content[0].data.value).toEqual(1);
+  });
+
+  it('should transform content with a function', () => {
+    const service = new ScriptTransformerService(`
+      function transform(content) {
+        if (content.type === 'raw') {
+          return content.filePath.endsWith('.csv') ? content : null;
+        }
+        return { type: 'time-values', content: content.content.filter(value => value.pointId !== 'point2') };
+      }
+      transform;
+    `);
+    expect(service.transform(content)).toEqual({ type: 'time-values', content: [content.content[0]] });
+    expect(service.transform({ type: 'raw', filePath: 'myFile.csv' })).toEqual({ type: 'raw', filePath: 'myFile.csv' });
+    expect(service.transform({ type: 'raw', filePath: 'myFile.txt' })).toBeNull();
+  });
+
+  it('should drop content', () => {
+    expect(new ScriptTransformerService('null').transform(content)).toBeNull();
+    expect(new ScriptTransformerService('() => {}').transform(content)).toBeNull();
+  });
+
+  it('should throw on invalid result', () => {
+    expect(() => new ScriptTransformerService('({ type: "raw" })').transform(content)).toThrow(
+      new Error('The script must return time-values or raw content, or null to drop the content')
+    );
+    expect(() => new ScriptTransformerService('content.content').transform(content)).toThrow(
+      new Error('The script must return time-values or raw content, or null to drop the content')
+    );
+    expect(() =>
+      new ScriptTransformerService('JSON.stringify = () => ({ toString() { return "{}"; } }); content').transform(content)
+    ).toThrow(new Error('The script must return time-values or raw content, or null to drop the content'));
+  });
+
+  it('should not let the script send another file', () => {
+    expect(() => new ScriptTransformerService('({ type: "raw", filePath: "/etc/shadow" })').transform(content)).toThrow(
+      new Error('The script cannot change the path of the file to send')
+    );
+    expect(() =>
+      new ScriptTransformerService('({ ...content, filePath: "/etc/shadow" })').transform({ type: 'raw', filePath: 'myFile.csv' })
+    ).toThrow(new Error('The script cannot change the path of the file to send'));
+  });
+
+  it('should throw on syntax error', () => {
+    expect(() => new ScriptTransformerService('content.')).toThrow('Unexpected end of input');
+  });
+
+  it('should not give access to the OIBus context', () => {
+    expect(() => new ScriptTransformerService('process.exit()').transform(content)).toThrow('process is not defined');
+    expect(() => new ScriptTransformerService('require("node:fs")').transform(content)).toThrow('require is not defined');
+    expect(() => new ScriptTransformerService('eval("content")').transform(content)).toThrow('Code generation from strings disallowed');
+    expect(() => new ScriptTransformerService('this.constructor.constructor("return process")()').transform(content)).toThrow(
+      'Code generation from strings disallowed'
+    );
+  });
+
+  it('should stop script exceeding the time budget', () => {
+    expect(() => new ScriptTransformerService('while (true) {}', 10).transform(content)).toThrow('Script execution timed out after 10ms');
+    expect(() => new ScriptTransformerService('() => { while (true) {} }', 10).transform(content)).toThrow(
+      'Script execution timed out after 10ms'
+    );
+    expect(() => new ScriptTransformerService('Promise.resolve().then(() => { while (true) {} }) && null', 10).transform(content)).toThrow(
+      'Script execution timed out after 10ms'
+    );
+    expect(() =>
+      new ScriptTransformerService("Object.defineProperty(globalThis, 'result', { get() { while (true) {} } })", 10).transform(content)
+    ).toThrow('Cannot redefine property: result');
+    expect(() => new ScriptTransformerService('({ toJSON() { while (true) {} } })', 10).transform(content)).toThrow(
+      'Script execution timed out after 10ms'
+    );
+  });
+});
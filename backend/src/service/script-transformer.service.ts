@@ -0,0 +1,68 @@
+import vm from 'node:vm';
+import { OIBusContent } from '../../../shared/model/engine.model';
+
+// Time budget (in ms) given to each synchronous execution of a script
+export const SCRIPT_TIMEOUT = 100;
+
+// The content is serialized across the sandbox boundary so the script never manipulates objects of the OIBus context.
+// The result variable is locked as a data property: the script cannot turn it into an accessor run by OIBus
+const PREPARE_SCRIPT = new vm.Script(
+  'content = JSON.parse(serializedContent); delete serializedContent; ' +
+    "Object.defineProperty(globalThis, 'result', { value: undefined, writable: true, enumerable: false, configurable: false });"
+);
+// Call the function returned by the script and serialize its result in one execution, bound by the time budget
+const SERIALIZE_SCRIPT = new vm.Script(
+  "if (typeof result === 'function') { result = result(content); } " +
+    'result === undefined || result === null ? null : JSON.stringify(result);'
+);
+
+/**
+ * Run a user script on OIBus content in a node:vm sandbox.
+ * The script is either an expression evaluated with the `content` variable in scope or a function receiving the
+ * content. In both cases it must synchronously return the transformed content, or null to drop it. A raw content can
+ * only be kept or dropped: the script cannot point the North to another file.
+ * The context is created without prototype, so that the script cannot reach the constructors of the OIBus realm (and
+ * from them process or require), and its microtasks run within the time budget of each execution
+ */
+export default class ScriptTransformerService {
+  private readonly script: vm.Script;
+
+  constructor(
+    script: string,
+    private readonly timeout = SCRIPT_TIMEOUT
+  ) {
+    this.script = new vm.Script(script, { filename: 'transformer.js' });
+  }
+
+  /**
+   * Return the content transformed by the script, or null if the script drops it.
+   * Throw an error if the script fails, exceeds its time budget or returns something that is not OIBus content
+   */
+  transform(content: OIBusContent): OIBusContent | null {
+    const sandbox = Object.create(null);
+    sandbox.serializedContent = JSON.stringify(content);
+    const context = vm.createContext(sandbox, { codeGeneration: { strings: false, wasm: false }, microtaskMode: 'afterEvaluate' });
+    PREPARE_SCRIPT.runInContext(context);
+    // The value returned by the script is only stored, never read, outside the sandbox
+    context.result = this.script.runInContext(context, { timeout: this.timeout });
+    const serializedResult: unknown = SERIALIZE_SCRIPT.runInContext(context, { timeout: this.timeout });
+    if (serializedResult === null) {
+      return null;
+    }
+    if (typeof serializedResult !== 'string') {
+      throw new Error('The script must return time-values or raw content, or null to drop the content');
+    }
+
+    const result = JSON.parse(serializedResult);
+    if (result?.type === 'time-values' && Array.isArray(result.content)) {
+      return { type: 'time-values', content: result.content };
+    }
+    if (result?.type === 'raw' && typeof result.filePath === 'string') {
+      if (content.type !== 'raw' || result.filePath !== content.filePath) {
+        throw new Error('The script cannot change the path of the file to send');
+      }
+      return { type: 'raw', filePath: result.filePath };
+    }
+    throw new Error('The script must return time-values or raw content, or null to drop the content');
+  }
+}
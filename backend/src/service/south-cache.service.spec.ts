@@ -52,6 +52,72 @@ describe('South cache service', () => {
     });
   });
 
+  it('should split shared cache scan modes', () => {
+    (service.cacheRepository.getSouthCacheScanMode as jest.Mock).mockImplementation(
+      (southId: string, scanModeId: string, itemId: string) => {
+        if (scanModeId === 'scanMode1' && itemId === 'all') {
+          return { southId, scanModeId, itemId, maxInstant: nowDateString };
+        }
+        if (itemId === 'item2') {
+          return { southId, scanModeId, itemId, maxInstant: '2021-02-02T02:02:02.222Z' };
+        }
+        return null;
+      }
+    );
+    service.splitSharedCacheScanModes('southId', [
+      { id: 'item1', scanModeId: 'scanMode1' },
+      { id: 'item2', scanModeId: 'scanMode1' },
+      { id: 'item3', scanModeId: 'scanMode2' }
+    ]);
+    expect(service.cacheRepository.createOrUpdateCacheScanMode).toHaveBeenCalledTimes(1);
+    expect(service.cacheRepository.createOrUpdateCacheScanMode).toHaveBeenCalledWith({
+      southId: 'southId',
+      scanModeId: 'scanMode1',
+      itemId: 'item1',
+      maxInstant: nowDateString
+    });
+    expect(service.cacheRepository.deleteCacheScanMode).toHaveBeenCalledTimes(1);
+    expect(service.cacheRepository.deleteCacheScanMode).toHaveBeenCalledWith('southId', 'scanMode1', 'all');
+  });
+
+  it('should get and set deadband values', () => {
+    (service.cacheRepository.getQueryOnCustomTable as jest.Mock)
+      .mockReturnValueOnce({ value: '12.5', timestamp: nowDateString })
+      .mockReturnValueOnce(undefined);
+
+    expect(service.getDeadbandValue('point1')).toEqual({ value: 12.5, timestamp: nowDateString });
+    expect(service.getDeadbandValue('point1')).toEqual({ value: 12.5, timestamp: nowDateString });
+    expect(service.getDeadbandValue('point2')).toBeNull();
+    expect(service.cacheRepository.createCustomTable).toHaveBeenCalledTimes(1);
+    expect(service.cacheRepository.createCustomTable).toHaveBeenCalledWith(
+      'deadband_connectorId',
+      'point_id TEXT PRIMARY KEY, value TEXT, timestamp TEXT'
+    );
+    expect(service.cacheRepository.getQueryOnCustomTable).toHaveBeenCalledTimes(2);
+    expect(service.cacheRepository.getQueryOnCustomTable).toHaveBeenCalledWith(
+      'SELECT value, timestamp FROM "deadband_connectorId" WHERE point_id = ?',
+      ['point1']
+    );
+
+    service.setDeadbandValues(
+      new Map([
+        ['point2', { value: 'on', timestamp: nowDateString }],
+        ['point3', { value: 3, timestamp: nowDateString }]
+      ])
+    );
+    expect(service.cacheRepository.runQueriesOnCustomTable).toHaveBeenCalledTimes(1);
+    expect(service.cacheRepository.runQueriesOnCustomTable).toHaveBeenCalledWith(
+      'INSERT INTO "deadband_connectorId" (point_id, value, timestamp) VALUES (?, ?, ?) ON CONFLICT(point_id) DO UPDATE SET value = ?, timestamp = ?',
+      [
+        ['point2', '"on"', nowDateString, '"on"', nowDateString],
+        ['point3', '3', nowDateString, '3', nowDateString]
+      ]
+    );
+    expect(service.getDeadbandValue('point2')).toEqual({ value: 'on', timestamp: nowDateString });
+    expect(service.getDeadbandValue('point3')).toEqual({ value: 3, timestamp: nowDateString });
+    expect(service.cacheRepository.getQueryOnCustomTable).toHaveBeenCalledTimes(2);
+  });
+
   it('should reset cache', () => {
     service.resetCacheScanMode('id');
     expect(service.cacheRepository.resetSouthCacheDatabase).toHaveBeenCalledTimes(1);
@@ -3,7 +3,15 @@ import SouthCacheRepository from '../repository/south-cache.repository';
 import { SouthCache } from '../../../shared/model/south-connector.model';
 import { Instant } from '../../../shared/model/types';
 
+export interface DeadbandValue {
+  value: string | number;
+  timestamp: Instant;
+}
+
 export default class SouthCacheService {
+  private deadbandTableCreated = false;
+  private deadbandValues = new Map<string, DeadbandValue>();
+
   constructor(
     private readonly connectorId: string,
     private readonly _cacheRepository: SouthCacheRepository
@@ -33,6 +41,78 @@ export default class SouthCacheService {
     this._cacheRepository.createOrUpdateCacheScanMode(command);
   }
 
+  /**
+   * Replace the cache entries shared by all the items of a scan mode by one entry per item, each item resuming from the
+   * max instant already reached for its scan mode
+   */
+  splitSharedCacheScanModes(southId: string, items: Array<{ id: string; scanModeId: string }>): void {
+    const sharedScanModeIds = new Set<string>();
+    for (const item of items) {
+      const sharedCache = this._cacheRepository.getSouthCacheScanMode(southId, item.scanModeId, 'all');
+      if (!sharedCache) {
+        continue;
+      }
+      sharedScanModeIds.add(item.scanModeId);
+      if (!this._cacheRepository.getSouthCacheScanMode(southId, item.scanModeId, item.id)) {
+        this._cacheRepository.createOrUpdateCacheScanMode({
+          southId,
+          scanModeId: item.scanModeId,
+          itemId: item.id,
+          maxInstant: sharedCache.maxInstant
+        });
+      }
+    }
+    for (const scanModeId of sharedScanModeIds) {
+      this._cacheRepository.deleteCacheScanMode(southId, scanModeId, 'all');
+    }
+  }
+
+  /**
+   * Retrieve the last value sent for a point, kept to apply the deadband of its item
+   */
+  getDeadbandValue(pointId: string): DeadbandValue | null {
+    if (!this.deadbandValues.has(pointId)) {
+      this.createDeadbandTable();
+      const result = this._cacheRepository.getQueryOnCustomTable(
+        `SELECT value, timestamp FROM "${this.deadbandTable}" WHERE point_id = ?`,
+        [pointId]
+      ) as { value: string; timestamp: Instant } | undefined;
+      if (!result) {
+        return null;
+      }
+      this.deadbandValues.set(pointId, { value: JSON.parse(result.value), timestamp: result.timestamp });
+    }
+    return this.deadbandValues.get(pointId)!;
+  }
+
+  /**
+   * Keep the last values sent for their point, in a single transaction
+   */
+  setDeadbandValues(deadbandValues: Map<string, DeadbandValue>): void {
+    this.createDeadbandTable();
+    const params: Array<Array<string>> = [];
+    for (const [pointId, deadbandValue] of deadbandValues) {
+      const serializedValue = JSON.stringify(deadbandValue.value);
+      params.push([pointId, serializedValue, deadbandValue.timestamp, serializedValue, deadbandValue.timestamp]);
+      this.deadbandValues.set(pointId, deadbandValue);
+    }
+    this._cacheRepository.runQueriesOnCustomTable(
+      `INSERT INTO "${this.deadbandTable}" (point_id, value, timestamp) VALUES (?, ?, ?) ON CONFLICT(point_id) DO UPDATE SET value = ?, timestamp = ?`,
+      params
+    );
+  }
+
+  private get deadbandTable(): string {
+    return `deadband_${this.connectorId}`;
+  }
+
+  private createDeadbandTable(): void {
+    if (!this.deadbandTableCreated) {
+      this._cacheRepository.createCustomTable(this.deadbandTable, 'point_id TEXT PRIMARY KEY, value TEXT, timestamp TEXT');
+      this.deadbandTableCreated = true;
+    }
+  }
+
   resetCacheScanMode(id: string): void {
     this._cacheRepository.resetSouthCacheDatabase(id);
   }
@@ -29,9 +29,12 @@ describe('SouthConnectorMetricsService', () => {
     const newConnectorMetrics: SouthConnectorMetrics = {
       metricsStart: '2020-02-02T02:02:02.222Z',
       numberOfValuesRetrieved: 22,
+      numberOfValuesSuppressed: 11,
       numberOfFilesRetrieved: 33,
       lastValueRetrieved: { pointId: 'pointId', timestamp: '2020-02-02T02:02:02.222Z', data: { value: '13' } },
       lastFileRetrieved: 'myFile',
+      lastNumberOfNorthsReached: 2,
+      backpressured: false,
       lastConnection: '2020-02-02T02:02:02.222Z',
       lastRunStart: '2020-02-02T02:02:02.222Z',
       lastRunDuration: 120,
@@ -10,12 +10,15 @@ export default class SouthConnectorMetricsService {
   private _metrics: SouthConnectorMetrics = {
     metricsStart: DateTime.now().toUTC().toISO() as Instant,
     numberOfValuesRetrieved: 0,
+    numberOfValuesSuppressed: 0,
     numberOfFilesRetrieved: 0,
     lastValueRetrieved: null,
     lastFileRetrieved: null,
     lastConnection: null,
     lastRunStart: null,
     lastRunDuration: null,
+    lastNumberOfNorthsReached: null,
+    backpressured: false,
     historyMetrics: {}
   };
 
@@ -76,7 +76,7 @@ export default class SouthService {
    */
   createSouth(
     settings: SouthConnectorDTO,
-    addContent: (southId: string, data: OIBusContent) => Promise<void>,
+    addContent: (southId: string, data: OIBusContent) => Promise<number>,
     baseFolder: string,
     logger: pino.Logger
   ): SouthConnector {
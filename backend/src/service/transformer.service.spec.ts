@@ -0,0 +1,176 @@
+import TransformerService from './transformer.service';
+import TransformerRepository from '../repository/transformer.repository';
+import RepositoryServiceMock from '../tests/__mocks__/repository-service.mock';
+import RepositoryService from './repository.service';
+import { TransformerDTO } from '../../../shared/model/transformer.model';
+import { OIBusTimeValue } from '../../../shared/model/engine.model';
+
+const repositoryService: RepositoryService = new RepositoryServiceMock();
+const transformerRepository: TransformerRepository = repositoryService.transformerRepository;
+
+const timestamp = '2020-02-02T02:02:02.222Z';
+const createValue = (pointId: string, value: string | number, quality?: string): OIBusTimeValue => ({
+  pointId,
+  timestamp,
+  data: quality ? { value, quality } : { value }
+});
+const createTransformer = (transformer: Partial<TransformerDTO>): TransformerDTO =>
+  ({
+    id: 'transformerId',
+    southId: 'southId',
+    type: 'scaling',
+    enabled: true,
+    position: 0,
+    pointIdFilter: null,
+    settings: { multiplier: 1, offset: 0 },
+    ...transformer
+  }) as TransformerDTO;
+
+let service: TransformerService;
+describe('TransformerService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TransformerService('southId', transformerRepository);
+  });
+
+  it('should not transform values without transformer', () => {
+    const values = [createValue('point1', 1)];
+    expect(service.transform(values)).toBe(values);
+
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ enabled: false, settings: { multiplier: 2, offset: 0 } })
+    ]);
+    service.loadTransformers();
+    expect(transformerRepository.getTransformers).toHaveBeenCalledWith('southId');
+    expect(service.transform(values)).toBe(values);
+  });
+
+  it('should scale numeric values and keep their type', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ type: 'scaling', settings: { multiplier: 2, offset: 1 } })
+    ]);
+    service.loadTransformers();
+
+    const values = [createValue('point1', 1), createValue('point2', '2.5'), createValue('point3', 'on'), createValue('point4', '')];
+    expect(service.transform(values)).toEqual([
+      createValue('point1', 3),
+      createValue('point2', '6'),
+      createValue('point3', 'on'),
+      createValue('point4', '')
+    ]);
+    // The values given to the service must not be changed
+    expect(values[0]).toEqual(createValue('point1', 1));
+  });
+
+  it('should convert units', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ id: 'transformer1', type: 'unit-conversion', settings: { conversion: 'celsius-to-fahrenheit' } }),
+      createTransformer({ id: 'transformer2', type: 'unit-conversion', position: 1, settings: { conversion: 'bar-to-pascal' } })
+    ]);
+    service.loadTransformers();
+
+    expect(service.transform([createValue('point1', 100)])).toEqual([createValue('point1', 21_200_000)]);
+  });
+
+  it('should apply transformers only on filtered point IDs', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ type: 'unit-conversion', pointIdFilter: '^temperature', settings: { conversion: 'kelvin-to-celsius' } })
+    ]);
+    service.loadTransformers();
+
+    expect(service.transform([createValue('temperature1', 300), createValue('pressure1', 300)])).toEqual([
+      createValue('temperature1', 300 - 273.15),
+      createValue('pressure1', 300)
+    ]);
+  });
+
+  it('should apply an absolute deadband by point', () => {
+    const deadbandTransformer = createTransformer({ type: 'deadband', settings: { deadband: 1, relative: false } });
+    (transformerRepository.getTransformers as jest.Mock)
+      .mockReturnValueOnce([deadbandTransformer])
+      .mockReturnValueOnce([deadbandTransformer]);
+    service.loadTransformers();
+
+    expect(
+      service.transform([
+        createValue('point1', 10),
+        createValue('point2', 10),
+        createValue('point1', 10.5),
+        createValue('point1', 11.5),
+        createValue('point2', 9),
+        createValue('point2', '8.5')
+      ])
+    ).toEqual([createValue('point1', 10), createValue('point2', 10), createValue('point1', 11.5), createValue('point2', '8.5')]);
+
+    // The last kept values are kept between calls
+    expect(service.transform([createValue('point1', 12)])).toEqual([]);
+
+    // The state is reset when the transformers are reloaded
+    service.loadTransformers();
+    expect(service.transform([createValue('point1', 12)])).toEqual([createValue('point1', 12)]);
+  });
+
+  it('should apply a relative deadband and keep changed values that are not numeric', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ type: 'deadband', settings: { deadband: 10, relative: true } })
+    ]);
+    service.loadTransformers();
+
+    expect(
+      service.transform([
+        createValue('point1', 100),
+        createValue('point1', 109),
+        createValue('point1', 111),
+        createValue('point2', 'on'),
+        createValue('point2', 'on'),
+        createValue('point2', 'off')
+      ])
+    ).toEqual([createValue('point1', 100), createValue('point1', 111), createValue('point2', 'on'), createValue('point2', 'off')]);
+  });
+
+  it('should keep a value in the deadband once the max silence is reached', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ type: 'deadband', settings: { deadband: 1, relative: false, maxSilence: 60 } })
+    ]);
+    service.loadTransformers();
+
+    const laterValue = { ...createValue('point1', 10), timestamp: '2020-02-02T02:03:02.222Z' };
+    expect(
+      service.transform([
+        createValue('point1', 10),
+        { ...createValue('point1', 10), timestamp: '2020-02-02T02:03:02.221Z' },
+        laterValue,
+        { ...createValue('point1', 10), timestamp: '2020-02-02T02:04:00.000Z' }
+      ])
+    ).toEqual([createValue('point1', 10), laterValue]);
+  });
+
+  it('should rename point IDs', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ type: 'rename', settings: { regExp: '^site1\\.(.*)$', replacement: 'plant-$1' } })
+    ]);
+    service.loadTransformers();
+
+    expect(service.transform([createValue('site1.temperature', 1), createValue('site2.temperature', 2)])).toEqual([
+      createValue('plant-temperature', 1),
+      createValue('site2.temperature', 2)
+    ]);
+  });
+
+  it('should drop values on quality and stop the chain for dropped values', () => {
+    (transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      createTransformer({ id: 'transformer1', type: 'quality-filter', settings: { qualityField: 'quality', droppedQualities: ['bad'] } }),
+      createTransformer({ id: 'transformer2', type: 'deadband', position: 1, settings: { deadband: 0, relative: false } })
+    ]);
+    service.loadTransformers();
+
+    expect(
+      service.transform([
+        createValue('point1', 1, 'bad'),
+        createValue('point1', 1, 'good'),
+        createValue('point2', 2),
+        createValue('point1', 1, 'good')
+      ])
+    ).toEqual([createValue('point1', 1, 'good'), createValue('point2', 2)]);
+  });
+});
@@ -0,0 +1,185 @@
+import { DateTime } from 'luxon';
+import TransformerRepository from '../repository/transformer.repository';
+import { DeadbandValue } from './south-cache.service';
+
+import {
+  DeadbandTransformerSettings,
+  QualityFilterTransformerSettings,
+  RenameTransformerSettings,
+  ScalingTransformerSettings,
+  TransformerDTO,
+  UnitConversion,
+  UnitConversionTransformerSettings
+} from '../../../shared/model/transformer.model';
+import { OIBusTimeValue } from '../../../shared/model/engine.model';
+
+const UNIT_CONVERSION_FUNCTIONS: Record<UnitConversion, (value: number) => number> = {
+  'celsius-to-fahrenheit': value => (value * 9) / 5 + 32,
+  'fahrenheit-to-celsius': value => ((value - 32) * 5) / 9,
+  'celsius-to-kelvin': value => value + 273.15,
+  'kelvin-to-celsius': value => value - 273.15,
+  'bar-to-pascal': value => value * 100_000,
+  'pascal-to-bar': value => value / 100_000,
+  'bar-to-psi': value => value * 14.503773773,
+  'psi-to-bar': value => value / 14.503773773,
+  'meter-to-foot': value => value / 0.3048,
+  'foot-to-meter': value => value * 0.3048,
+  'kilowatt-to-horsepower': value => value / 0.745699872,
+  'horsepower-to-kilowatt': value => value * 0.745699872
+};
+
+interface LoadedTransformer {
+  transformer: TransformerDTO;
+  pointIdFilter: RegExp | null;
+}
+
+/**
+ * Apply the enabled transformers of a South connector on its values, in the order of their position.
+ * Values that are not numeric are left unchanged by the scaling and unit conversion transformers
+ */
+export default class TransformerService {
+  private transformers: Array<LoadedTransformer> = [];
+  // Last value kept by each deadband transformer, by point ID
+  private lastKeptValues = new Map<string, Map<string, DeadbandValue>>();
+
+  constructor(
+    private readonly southId: string,
+    private readonly transformerRepository: TransformerRepository
+  ) {}
+
+  /**
+   * Load the transformers from the repository. The deadband states are reset
+   */
+  loadTransformers(): void {
+    this.transformers = this.transformerRepository
+      .getTransformers(this.southId)
+      .filter(transformer => transformer.enabled)
+      .map(transformer => ({
+        transformer,
+        pointIdFilter: transformer.pointIdFilter ? new RegExp(transformer.pointIdFilter) : null
+      }));
+    this.lastKeptValues.clear();
+  }
+
+  /**
+   * Return the transformed values, without the values dropped by a transformer
+   */
+  transform(values: Array<OIBusTimeValue>): Array<OIBusTimeValue> {
+    if (this.transformers.length === 0) {
+      return values;
+    }
+    const transformedValues: Array<OIBusTimeValue> = [];
+    for (const value of values) {
+      let transformedValue: OIBusTimeValue | null = value;
+      for (const { transformer, pointIdFilter } of this.transformers) {
+        if (pointIdFilter && !pointIdFilter.test(transformedValue.pointId)) {
+          continue;
+        }
+        transformedValue = this.applyTransformer(transformer, transformedValue);
+        if (!transformedValue) {
+          break;
+        }
+      }
+      if (transformedValue) {
+        transformedValues.push(transformedValue);
+      }
+    }
+    return transformedValues;
+  }
+
+  private applyTransformer(transformer: TransformerDTO, value: OIBusTimeValue): OIBusTimeValue | null {
+    switch (transformer.type) {
+      case 'scaling':
+        return this.scale(transformer.settings, value);
+      case 'unit-conversion':
+        return this.convertUnit(transformer.settings, value);
+      case 'deadband':
+        return this.applyDeadband(transformer.id, transformer.settings, value);
+      case 'rename':
+        return this.rename(transformer.settings, value);
+      case 'quality-filter':
+        return this.filterQuality(transformer.settings, value);
+    }
+  }
+
+  private scale(settings: ScalingTransformerSettings, value: OIBusTimeValue): OIBusTimeValue {
+    return mapNumericValue(value, numericValue => numericValue * settings.multiplier + settings.offset);
+  }
+
+  private convertUnit(settings: UnitConversionTransformerSettings, value: OIBusTimeValue): OIBusTimeValue {
+    return mapNumericValue(value, UNIT_CONVERSION_FUNCTIONS[settings.conversion]);
+  }
+
+  /**
+   * Keep the value if it is the first of its point, or if it is outside the deadband of the last kept value
+   */
+  private applyDeadband(transformerId: string, settings: DeadbandTransformerSettings, value: OIBusTimeValue): OIBusTimeValue | null {
+    let lastKeptValues = this.lastKeptValues.get(transformerId);
+    if (!lastKeptValues) {
+      lastKeptValues = new Map<string, DeadbandValue>();
+      this.lastKeptValues.set(transformerId, lastKeptValues);
+    }
+
+    const lastKeptValue = lastKeptValues.get(value.pointId);
+    if (lastKeptValue && isInDeadband(settings, lastKeptValue, value)) {
+      return null;
+    }
+    lastKeptValues.set(value.pointId, { value: value.data.value, timestamp: value.timestamp });
+    return value;
+  }
+
+  private rename(settings: RenameTransformerSettings, value: OIBusTimeValue): OIBusTimeValue {
+    return { ...value, pointId: value.pointId.replace(new RegExp(settings.regExp), settings.replacement) };
+  }
+
+  private filterQuality(settings: QualityFilterTransformerSettings, value: OIBusTimeValue): OIBusTimeValue | null {
+    const quality = value.data[settings.qualityField];
+    if (quality !== undefined && quality !== null && settings.droppedQualities.includes(`${quality}`)) {
+      return null;
+    }
+    return value;
+  }
+}
+
+/**
+ * Check if a value differs from the last kept value of its point by less than the deadband, in which case it can be dropped.
+ * Values that are not numeric are in the deadband when they do not change. No value is in the deadband once the max silence
+ * is reached
+ */
+export const isInDeadband = (settings: DeadbandTransformerSettings, lastKeptValue: DeadbandValue, value: OIBusTimeValue): boolean => {
+  if (
+    settings.maxSilence &&
+    DateTime.fromISO(value.timestamp).toMillis() - DateTime.fromISO(lastKeptValue.timestamp).toMillis() >= settings.maxSilence * 1000
+  ) {
+    return false;
+  }
+  const numericValue = toNumber(value.data.value);
+  const lastNumericValue = toNumber(lastKeptValue.value);
+  if (numericValue === null || lastNumericValue === null) {
+    return `${value.data.value}` === `${lastKeptValue.value}`;
+  }
+  const threshold = settings.relative ? (Math.abs(lastNumericValue) * settings.deadband) / 100 : settings.deadband;
+  return Math.abs(numericValue - lastNumericValue) <= threshold;
+};
+
+const toNumber = (value: string | number): number | null => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value.trim() === '' || isNaN(Number(value))) {
+    return null;
+  }
+  return Number(value);
+};
+
+/**
+ * Apply the function on numeric values, keeping the type (string or number) of the original value
+ */
+const mapNumericValue = (value: OIBusTimeValue, fn: (numericValue: number) => number): OIBusTimeValue => {
+  const numericValue = toNumber(value.data.value);
+  if (numericValue === null) {
+    return value;
+  }
+  const result = fn(numericValue);
+  return { ...value, data: { ...value.data, value: typeof value.data.value === 'number' ? result : `${result}` } };
+};
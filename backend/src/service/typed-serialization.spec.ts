@@ -0,0 +1,167 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ParquetReader } from '@dsnp/parquetjs';
+import avro from 'avsc';
+
+import { inferColumns, writeAvroFile, writeParquetFile } from './typed-serialization';
+
+const data = [
+  {
+    name: 'pressure',
+    value: 1.5,
+    count: 2,
+    valid: true,
+    timestamp: new Date('2020-02-02T02:02:02.222Z'),
+    raw: Buffer.from([1, 2]),
+    '1st value': null
+  },
+  { name: 'temperature', value: 3, count: BigInt(4), valid: false, timestamp: null, raw: Buffer.from([3]), '1st value': 'a' },
+  { name: 'level', value: null, count: 5, valid: true, timestamp: new Date('2020-02-02T02:02:03.333Z'), other: { unit: 'm' } }
+];
+
+describe('Typed serialization', () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), 'oibus-serialization-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  it('should infer columns', () => {
+    expect(inferColumns(data)).toEqual([
+      { name: 'name', type: 'string' },
+      { name: 'value', type: 'double' },
+      { name: 'count', type: 'integer' },
+      { name: 'valid', type: 'boolean' },
+      { name: 'timestamp', type: 'timestamp' },
+      { name: 'raw', type: 'bytes' },
+      { name: '1st value', type: 'string' },
+      { name: 'other', type: 'string' }
+    ]);
+    expect(inferColumns([{ mixed: 1 }, { mixed: 'a' }, { empty: null }])).toEqual([
+      { name: 'mixed', type: 'string' },
+      { name: 'empty', type: 'string' }
+    ]);
+  });
+
+  it('should write Parquet file', async () => {
+    const filePath = path.join(folder, 'file.parquet');
+    await writeParquetFile(data, filePath, 'snappy');
+
+    const reader = await ParquetReader.openFile(filePath);
+    expect(reader.getSchema().fields['value'].primitiveType).toEqual('DOUBLE');
+    expect(reader.getSchema().fields['count'].primitiveType).toEqual('INT64');
+    expect(reader.getSchema().fields['timestamp'].originalType).toEqual('TIMESTAMP_MILLIS');
+    // Thrift value of the SNAPPY codec
+    expect(reader.metadata!.row_groups[0].columns[0].meta_data!.codec).toEqual(1);
+    const cursor = reader.getCursor();
+    const rows: Array<Record<string, unknown>> = [];
+    let row = await cursor.next();
+    while (row) {
+      rows.push(row as Record<string, unknown>);
+      row = await cursor.next();
+    }
+    await reader.close();
+    expect(rows).toEqual([
+      {
+        name: 'pressure',
+        value: 1.5,
+        count: BigInt(2),
+        valid: true,
+        timestamp: new Date('2020-02-02T02:02:02.222Z'),
+        raw: Buffer.from([1, 2]),
+        '1st value': null,
+        other: null
+      },
+      {
+        name: 'temperature',
+        value: 3,
+        count: BigInt(4),
+        valid: false,
+        timestamp: null,
+        raw: Buffer.from([3]),
+        '1st value': 'a',
+        other: null
+      },
+      {
+        name: 'level',
+        value: null,
+        count: BigInt(5),
+        valid: true,
+        timestamp: new Date('2020-02-02T02:02:03.333Z'),
+        raw: null,
+        '1st value': null,
+        other: '{"unit":"m"}'
+      }
+    ]);
+  });
+
+  it('should write Avro file', async () => {
+    const filePath = path.join(folder, 'file.avro');
+    await writeAvroFile(data, filePath, 'my-item', 'deflate');
+
+    expect((avro.extractFileHeader(filePath)!.meta['avro.schema'] as unknown as avro.schema.RecordType).fields[4]).toEqual({
+      name: 'timestamp',
+      type: ['null', { type: 'long', logicalType: 'timestamp-millis' }],
+      default: null
+    });
+    const records: Array<Record<string, unknown>> = [];
+    let schema: avro.Schema | null = null;
+    await new Promise<void>((resolve, reject) => {
+      avro
+        .createFileDecoder(filePath)
+        .on('metadata', type => (schema = type.schema({ exportAttrs: true })))
+        .on('data', record => records.push({ ...record }))
+        .on('end', resolve)
+        .on('error', reject);
+    });
+    expect(schema).toEqual({
+      type: 'record',
+      name: 'my_item',
+      fields: [
+        { name: 'name', type: ['null', 'string'], default: null },
+        { name: 'value', type: ['null', 'double'], default: null },
+        { name: 'count', type: ['null', 'long'], default: null },
+        { name: 'valid', type: ['null', 'boolean'], default: null },
+        { name: 'timestamp', type: ['null', 'long'], default: null },
+        { name: 'raw', type: ['null', 'bytes'], default: null },
+        { name: '_1st_value', type: ['null', 'string'], default: null },
+        { name: 'other', type: ['null', 'string'], default: null }
+      ]
+    });
+    expect(records).toEqual([
+      {
+        name: 'pressure',
+        value: 1.5,
+        count: 2,
+        valid: true,
+        timestamp: 1580608922222,
+        raw: Buffer.from([1, 2]),
+        _1st_value: null,
+        other: null
+      },
+      { name: 'temperature', value: 3, count: 4, valid: false, timestamp: null, raw: Buffer.from([3]), _1st_value: 'a', other: null },
+      { name: 'level', value: null, count: 5, valid: true, timestamp: 1580608923333, raw: null, _1st_value: null, other: '{"unit":"m"}' }
+    ]);
+  });
+
+  it('should write Avro file with unique field names', async () => {
+    const filePath = path.join(folder, 'file.avro');
+    await writeAvroFile([{ 'a-b': 1, a_b: 2, 'a b': 3, a_b_2: 4 }], filePath, 'my-item', 'null');
+
+    const records: Array<Record<string, unknown>> = [];
+    await new Promise<void>((resolve, reject) => {
+      avro
+        .createFileDecoder(filePath)
+        .on('data', record => records.push({ ...record }))
+        .on('end', resolve)
+        .on('error', reject);
+    });
+    expect(records).toEqual([{ a_b: 1, a_b_2: 2, a_b_3: 3, a_b_2_2: 4 }]);
+  });
+});
@@ -0,0 +1,162 @@
+import { createWriteStream } from 'node:fs';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+import { ParquetCompression, ParquetSchema, ParquetType, ParquetWriter } from '@dsnp/parquetjs';
+import avro from 'avsc';
+
+import { AvroCodec, ParquetCodec } from '../../../shared/model/types';
+
+export type ColumnType = 'boolean' | 'integer' | 'double' | 'timestamp' | 'bytes' | 'string';
+
+export interface Column {
+  name: string;
+  type: ColumnType;
+}
+
+const PARQUET_TYPES: Record<ColumnType, ParquetType> = {
+  boolean: 'BOOLEAN',
+  integer: 'INT64',
+  double: 'DOUBLE',
+  timestamp: 'TIMESTAMP_MILLIS',
+  bytes: 'BYTE_ARRAY',
+  string: 'UTF8'
+};
+
+const AVRO_TYPES: Record<ColumnType, Exclude<avro.schema.AvroSchema, Array<unknown>>> = {
+  boolean: 'boolean',
+  integer: 'long',
+  double: 'double',
+  timestamp: { type: 'long', logicalType: 'timestamp-millis' },
+  bytes: 'bytes',
+  string: 'string'
+};
+
+/**
+ * Infer the columns of the results from their values, in the order of their first appearance. A column is typed when all
+ * its non-null values share the same type (numbers being integers or doubles), and is a string column otherwise.
+ * Date time fields must be given as Date to be typed as timestamps
+ */
+export const inferColumns = (data: Array<Record<string, unknown>>): Array<Column> => {
+  const valuesByColumn = new Map<string, Array<unknown>>();
+  for (const row of data) {
+    for (const [name, value] of Object.entries(row)) {
+      if (!valuesByColumn.has(name)) {
+        valuesByColumn.set(name, []);
+      }
+      if (value !== null && value !== undefined) {
+        valuesByColumn.get(name)!.push(value);
+      }
+    }
+  }
+  return Array.from(valuesByColumn.entries()).map(([name, values]) => ({ name, type: inferColumnType(values) }));
+};
+
+const inferColumnType = (values: Array<unknown>): ColumnType => {
+  if (values.length === 0) {
+    return 'string';
+  }
+  if (values.every(value => typeof value === 'boolean')) {
+    return 'boolean';
+  }
+  if (values.every(value => typeof value === 'bigint' || (typeof value === 'number' && Number.isSafeInteger(value)))) {
+    return 'integer';
+  }
+  if (values.every(value => typeof value === 'number' || typeof value === 'bigint')) {
+    return 'double';
+  }
+  if (values.every(value => value instanceof Date && !isNaN(value.getTime()))) {
+    return 'timestamp';
+  }
+  if (values.every(value => Buffer.isBuffer(value))) {
+    return 'bytes';
+  }
+  return 'string';
+};
+
+/**
+ * Convert a value to the representation expected by the writers for its column type
+ */
+const convertValue = (value: unknown, type: ColumnType, format: 'parquet' | 'avro'): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (type) {
+    case 'integer':
+      return format === 'parquet' ? BigInt(value as number | bigint) : Number(value);
+    case 'double':
+      return Number(value);
+    case 'timestamp':
+      return format === 'parquet' ? value : (value as Date).getTime();
+    case 'string':
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+    default:
+      return value;
+  }
+};
+
+export const writeParquetFile = async (data: Array<Record<string, unknown>>, filePath: string, codec: ParquetCodec): Promise<void> => {
+  const columns = inferColumns(data);
+  const compression = codec.toUpperCase() as ParquetCompression;
+  const schema = new ParquetSchema(
+    Object.fromEntries(columns.map(column => [column.name, { type: PARQUET_TYPES[column.type], optional: true, compression }]))
+  );
+  const writer = await ParquetWriter.openFile(schema, filePath);
+  for (const row of data) {
+    const record: Record<string, unknown> = {};
+    for (const column of columns) {
+      const value = convertValue(row[column.name], column.type, 'parquet');
+      if (value !== null) {
+        record[column.name] = value;
+      }
+    }
+    await writer.appendRow(record);
+  }
+  await writer.close();
+};
+
+export const writeAvroFile = async (
+  data: Array<Record<string, unknown>>,
+  filePath: string,
+  recordName: string,
+  codec: AvroCodec
+): Promise<void> => {
+  const columns = inferColumns(data);
+  const fieldNames = toAvroFieldNames(columns.map(column => column.name));
+  const schema: avro.schema.RecordType = {
+    type: 'record',
+    name: toAvroName(recordName),
+    fields: columns.map((column, index) => ({ name: fieldNames[index], type: ['null', AVRO_TYPES[column.type]], default: null }))
+  };
+  const records = data.map(row =>
+    Object.fromEntries(columns.map((column, index) => [fieldNames[index], convertValue(row[column.name], column.type, 'avro')]))
+  );
+  // The schema is given as is to keep the logical types in the header of the file
+  await pipeline(Readable.from(records), new avro.streams.BlockEncoder(schema, { codec }), createWriteStream(filePath));
+};
+
+// Avro names only accept letters, digits and underscores, and can not start with a digit
+const toAvroName = (name: string): string => {
+  const avroName = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(avroName) || !avroName ? `_${avroName}` : avroName;
+};
+
+/**
+ * Field names must be unique in an Avro record: columns with the same sanitized name (a-b and a_b) are suffixed with
+ * their occurrence (a_b and a_b_2)
+ */
+const toAvroFieldNames = (columnNames: Array<string>): Array<string> => {
+  const fieldNames = new Set<string>();
+  return columnNames.map(columnName => {
+    const avroName = toAvroName(columnName);
+    let fieldName = avroName;
+    for (let occurrence = 2; fieldNames.has(fieldName); occurrence++) {
+      fieldName = `${avroName}_${occurrence}`;
+    }
+    fieldNames.add(fieldName);
+    return fieldName;
+  });
+};
@@ -18,6 +18,7 @@ import {
   formatInstant,
   formatQueryParams,
   generateIntervals,
+  generateScheduledWindow,
   generateRandomId,
   generateReplacementParameters,
   getCommandLineArguments,
@@ -41,11 +42,13 @@ import Stream from 'node:stream';
 import http from 'node:http';
 import https from 'node:https';
 import os from 'node:os';
+import { HistoryQueryScheduleDTO } from '../../../shared/model/history-query.model';
 import { EngineSettingsDTO, OIBusInfo, RegistrationSettingsDTO } from '../../../shared/model/engine.model';
 import { createProxyAgent } from './proxy-agent';
 import EncryptionService from './encryption.service';
 import EncryptionServiceMock from '../tests/__mocks__/encryption-service.mock';
 import cronstrue from 'cronstrue';
+import { writeAvroFile, writeParquetFile } from './typed-serialization';
 
 jest.mock('node:zlib');
 jest.mock('node:fs/promises');
@@ -58,6 +61,7 @@ const { Response } = jest.requireActual('node-fetch');
 jest.mock('node:http', () => ({ request: jest.fn() }));
 jest.mock('node:https', () => ({ request: jest.fn() }));
 jest.mock('./proxy-agent');
+jest.mock('./typed-serialization');
 
 const nowDateString = '2020-02-02T02:02:02.222Z';
 describe('Service utils', () => {
@@ -223,6 +227,43 @@ describe('Service utils', () => {
     });
   });
 
+  describe('generateScheduledWindow', () => {
+    const schedule: HistoryQueryScheduleDTO = {
+      enabled: true,
+      scanModeId: 'scanModeId1',
+      windowDuration: 1,
+      windowUnit: 'day',
+      timezone: 'Europe/Paris'
+    };
+
+    it('should return the previous day in the timezone', () => {
+      expect(generateScheduledWindow(schedule, '2024-03-15T01:30:00.000Z')).toEqual({
+        start: '2024-03-13T23:00:00.000Z',
+        end: '2024-03-14T23:00:00.000Z'
+      });
+    });
+
+    it('should return the last 7 days ending at midnight across a daylight saving time change', () => {
+      expect(generateScheduledWindow({ ...schedule, windowDuration: 7 }, '2024-04-02T06:00:00.000Z')).toEqual({
+        start: '2024-03-25T23:00:00.000Z',
+        end: '2024-04-01T22:00:00.000Z'
+      });
+    });
+
+    it('should return the previous hour', () => {
+      expect(generateScheduledWindow({ ...schedule, windowUnit: 'hour', timezone: 'UTC' }, '2024-03-15T10:12:00.000Z')).toEqual({
+        start: '2024-03-15T09:00:00.000Z',
+        end: '2024-03-15T10:00:00.000Z'
+      });
+    });
+
+    it('should throw an error with an invalid timezone', () => {
+      expect(() => generateScheduledWindow({ ...schedule, timezone: 'Mars/Olympus' }, '2024-03-15T10:12:00.000Z')).toThrow(
+        new Error('Timezone Mars/Olympus not valid')
+      );
+    });
+  });
+
   describe('filesExists', () => {
     beforeEach(() => {
       jest.clearAllMocks();
@@ -414,6 +455,19 @@ describe('Service utils', () => {
       expect(fs.stat).toHaveBeenCalledTimes(4);
       expect(result).toEqual(11);
     });
+
+    it('should exclude files from dir size', async () => {
+      const folder: Array<Dirent> = [
+        { name: 'file1', isDirectory: () => false, isFile: () => true } as Dirent,
+        { name: 'values.db', isDirectory: () => false, isFile: () => true } as Dirent
+      ];
+      (fs.readdir as jest.Mock).mockReturnValueOnce(folder);
+      (fs.stat as jest.Mock).mockReturnValueOnce({ size: 1 } as Stats);
+
+      expect(await dirSize('myDir', ['values.db'])).toEqual(1);
+      expect(fs.stat).toHaveBeenCalledTimes(1);
+      expect(fs.stat).toHaveBeenCalledWith(path.join('myDir', 'file1'));
+    });
   });
 
   describe('generateReplacementParameters', () => {
@@ -570,6 +624,43 @@ describe('Service utils', () => {
         expect(fs.unlink).toHaveBeenCalledTimes(1);
         expect(logger.error).toHaveBeenCalledWith(`Error when deleting file "${filePath}" after caching it. ${new Error('unlink error')}`);
       });
+
+      it('should properly write results into Parquet file without compression', async () => {
+        await persistResults(
+          dataToWrite,
+          { type: 'parquet', filename: 'myFilename.parquet', compression: false, parquetCodec: 'snappy' },
+          'connectorName',
+          'itemName',
+          'myTmpFolder',
+          addContent,
+          logger
+        );
+        const filePath = path.join('myTmpFolder', 'myFilename.parquet');
+        expect(writeParquetFile).toHaveBeenCalledWith(dataToWrite, filePath, 'snappy');
+        expect(addContent).toHaveBeenCalledWith({ type: 'raw', filePath });
+        expect(fs.unlink).toHaveBeenCalledWith(filePath);
+        expect(fs.unlink).toHaveBeenCalledTimes(1);
+      });
+
+      it('should properly write results into Avro file without compression and log unlink errors', async () => {
+        (fs.unlink as jest.Mock).mockImplementation(() => {
+          throw new Error('unlink error');
+        });
+        await persistResults(
+          dataToWrite,
+          { type: 'avro', filename: 'myFilename.avro', compression: false },
+          'connectorName',
+          'itemName',
+          'myTmpFolder',
+          addContent,
+          logger
+        );
+        const filePath = path.join('myTmpFolder', 'myFilename.avro');
+        expect(writeAvroFile).toHaveBeenCalledWith(dataToWrite, filePath, 'itemName', 'null');
+        expect(addContent).toHaveBeenCalledWith({ type: 'raw', filePath });
+        expect(fs.unlink).toHaveBeenCalledWith(filePath);
+        expect(logger.error).toHaveBeenCalledWith(`Error when deleting file "${filePath}" after caching it. ${new Error('unlink error')}`);
+      });
     });
 
     describe('with compression', () => {
@@ -658,6 +749,44 @@ describe('Service utils', () => {
         expect(addContent).toHaveBeenCalledWith({ type: 'time-values', content: dataToWrite });
       });
 
+      it('should properly persists results mapped to values', async () => {
+        await persistResults(
+          [
+            { name: 'pressure', date: new Date('2020-02-02T02:02:02.222Z'), value: 1.5, unit: 'bar' },
+            { name: 'temperature', date: '2020-02-02T03:02:02.222+01:00', value: BigInt(20), unit: 'C' },
+            { name: 'level', date: 1580608922222, value: new Date('2020-02-02T02:02:02.222Z') },
+            { name: 'status', date: 1580608922222, value: { state: 'on' } },
+            { name: 'no value', date: 1580608922222, value: null },
+            { name: 'bad date', date: 'not a date', value: 1 },
+            { date: 1580608922222, value: 1 }
+          ],
+          {
+            type: 'json',
+            pointIdColumn: 'name',
+            timestampColumn: 'date',
+            valueColumn: 'value',
+            otherColumns: [{ name: 'unit', column: 'unit' }]
+          },
+          'connectorName',
+          'itemName',
+          'myTmpFolder',
+          addContent,
+          logger
+        );
+        expect(addContent).toHaveBeenCalledWith({
+          type: 'time-values',
+          content: [
+            { pointId: 'pressure', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 1.5, unit: 'bar' } },
+            { pointId: 'temperature', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 20, unit: 'C' } },
+            { pointId: 'level', timestamp: '2020-02-02T02:02:02.222Z', data: { value: '2020-02-02T02:02:02.222Z', unit: undefined } },
+            { pointId: 'status', timestamp: '2020-02-02T02:02:02.222Z', data: { value: '{"state":"on"}', unit: undefined } }
+          ]
+        });
+        expect(logger.warn).toHaveBeenCalledWith(
+          '3 results ignored: the columns "name", "date" and "value" must contain a point ID, a valid timestamp and a value'
+        );
+      });
+
       it('should properly persists results into CSV file and log unlink errors', async () => {
         (fs.unlink as jest.Mock).mockImplementation(() => {
           throw new Error('unlink error');
@@ -690,6 +819,49 @@ describe('Service utils', () => {
         expect(fs.unlink).toHaveBeenCalledTimes(2);
       });
 
+      it('should properly persists results into Parquet file and log unlink errors', async () => {
+        (fs.unlink as jest.Mock).mockImplementation(() => {
+          throw new Error('unlink error');
+        });
+        await persistResults(
+          dataToWrite,
+          { type: 'parquet', filename: 'myFilename.parquet', compression: true },
+          'connectorName',
+          'itemName',
+          'myTmpFolder',
+          addContent,
+          logger
+        );
+        const filePath = path.join('myTmpFolder', 'myFilename.parquet');
+        expect(writeParquetFile).toHaveBeenCalledWith(dataToWrite, filePath, 'uncompressed');
+        expect(logger.error).toHaveBeenCalledTimes(2);
+        expect(logger.error).toHaveBeenCalledWith(`Error when deleting file "${filePath}" after compression. Error: unlink error`);
+        expect(logger.error).toHaveBeenCalledWith(`Error when deleting file "${filePath}.gz" after caching it. Error: unlink error`);
+        expect(addContent).toHaveBeenCalledWith({ type: 'raw', filePath: `${filePath}.gz` });
+        expect(fs.unlink).toHaveBeenCalledWith(filePath);
+        expect(fs.unlink).toHaveBeenCalledWith(`${filePath}.gz`);
+        expect(fs.unlink).toHaveBeenCalledTimes(2);
+      });
+
+      it('should properly persists results into Avro file', async () => {
+        await persistResults(
+          dataToWrite,
+          { type: 'avro', filename: 'myFilename.avro', compression: true, avroCodec: 'deflate' },
+          'connectorName',
+          'itemName',
+          'myTmpFolder',
+          addContent,
+          logger
+        );
+        const filePath = path.join('myTmpFolder', 'myFilename.avro');
+        expect(writeAvroFile).toHaveBeenCalledWith(dataToWrite, filePath, 'itemName', 'deflate');
+        expect(logger.info).toHaveBeenCalledWith(`File "${filePath}" compressed and deleted`);
+        expect(addContent).toHaveBeenCalledWith({ type: 'raw', filePath: `${filePath}.gz` });
+        expect(fs.unlink).toHaveBeenCalledWith(filePath);
+        expect(fs.unlink).toHaveBeenCalledWith(`${filePath}.gz`);
+        expect(fs.unlink).toHaveBeenCalledTimes(2);
+      });
+
       it('should properly persists results into file and log unlink errors', async () => {
         (fs.unlink as jest.Mock).mockImplementation(() => {
           throw new Error('unlink error');
@@ -8,19 +8,29 @@ import { DateTime } from 'luxon';
 import fetch, { HeadersInit } from 'node-fetch';
 import AdmZip from 'adm-zip';
 
-import { CsvCharacter, DateTimeType, Instant, Interval, SerializationSettings, Timezone } from '../../../shared/model/types';
+import {
+  CsvCharacter,
+  DateTimeType,
+  Instant,
+  Interval,
+  JSONSerializationSettings,
+  SerializationSettings,
+  Timezone
+} from '../../../shared/model/types';
 import pino from 'pino';
 import csv from 'papaparse';
 import https from 'node:https';
 import http from 'node:http';
-import { EngineSettingsDTO, OIBusContent, OIBusInfo, RegistrationSettingsDTO } from '../../../shared/model/engine.model';
+import { EngineSettingsDTO, OIBusContent, OIBusInfo, OIBusTimeValue, RegistrationSettingsDTO } from '../../../shared/model/engine.model';
 import os from 'node:os';
 import { NorthCacheFiles } from '../../../shared/model/north-connector.model';
+import { HistoryQueryScheduleDTO } from '../../../shared/model/history-query.model';
 import EncryptionService from './encryption.service';
 import { createProxyAgent } from './proxy-agent';
 import cronstrue from 'cronstrue';
 import cronparser from 'cron-parser';
 import { ValidatedCronExpression } from '../../../shared/model/scan-mode.model';
+import { writeAvroFile, writeParquetFile } from './typed-serialization';
 
 const COMPRESSION_LEVEL = 9;
 
@@ -75,6 +85,19 @@ export const generateIntervals = (start: Instant, end: Instant, maxInterval: num
   return [{ start: startTime.toUTC().toISO() as Instant, end: endTime.toUTC().toISO() as Instant }];
 };
 
+/**
+ * Compute the window extracted by a run of a scheduled history query. The window ends at the start of the current unit
+ * in the timezone of the schedule (midnight for days) and goes back as many units as the window duration
+ */
+export const generateScheduledWindow = (schedule: HistoryQueryScheduleDTO, now: Instant): Interval => {
+  const endTime = DateTime.fromISO(now).setZone(schedule.timezone).startOf(schedule.windowUnit);
+  if (!endTime.isValid) {
+    throw new Error(`Timezone ${schedule.timezone} not valid`);
+  }
+  const startTime = endTime.minus({ [schedule.windowUnit]: schedule.windowDuration });
+  return { start: startTime.toUTC().toISO() as Instant, end: endTime.toUTC().toISO() as Instant };
+};
+
 /**
  * Create a folder if it does not exist
  */
@@ -134,17 +157,20 @@ export const generateRandomId = (size = RANDOM_LENGTH): string => {
   return randomId;
 };
 
-export const dirSize = async (dir: string): Promise<number> => {
+/**
+ * Compute the size of the files of a folder and its sub-folders, except the files with one of the excluded names
+ */
+export const dirSize = async (dir: string, excludedFilenames: Array<string> = []): Promise<number> => {
   const files = await fs.readdir(dir, { withFileTypes: true });
 
   const paths = files.map(async file => {
     const filePath = path.join(dir, file.name);
 
     if (file.isDirectory()) {
-      return await dirSize(filePath);
+      return await dirSize(filePath, excludedFilenames);
     }
 
-    if (file.isFile()) {
+    if (file.isFile() && !excludedFilenames.includes(file.name)) {
       try {
         const { size } = await fs.stat(filePath);
         return size;
@@ -222,7 +248,12 @@ export const persistResults = async (
 ): Promise<void> => {
   switch (serializationSettings.type) {
     case 'json':
-      return addContentFn({ type: 'time-values', content: data });
+      if (!serializationSettings.valueColumn) {
+        return addContentFn({ type: 'time-values', content: data });
+      }
+      const values = convertResultsToTimeValues(data, serializationSettings, logger);
+      logger.debug(`Sending ${values.length} values to Engine`);
+      return addContentFn({ type: 'time-values', content: values });
     case 'file':
       const filePath = generateFilenameForSerialization(baseFolder, serializationSettings.filename, connectorName, itemName);
       logger.debug(`Writing ${data.length} bytes into file at "${filePath}"`);
@@ -299,7 +330,112 @@ export const persistResults = async (
         }
       }
       break;
+    case 'parquet':
+      const parquetPath = generateFilenameForSerialization(baseFolder, serializationSettings.filename, connectorName, itemName);
+      logger.debug(`Writing ${data.length} rows into Parquet file at "${parquetPath}"`);
+      await writeParquetFile(data, parquetPath, serializationSettings.parquetCodec || 'uncompressed');
+      await sendSerializedFile(parquetPath, serializationSettings.compression, addContentFn, logger);
+      break;
+    case 'avro':
+      const avroPath = generateFilenameForSerialization(baseFolder, serializationSettings.filename, connectorName, itemName);
+      logger.debug(`Writing ${data.length} rows into Avro file at "${avroPath}"`);
+      await writeAvroFile(data, avroPath, itemName, serializationSettings.avroCodec || 'null');
+      await sendSerializedFile(avroPath, serializationSettings.compression, addContentFn, logger);
+      break;
+  }
+};
+
+/**
+ * Send a serialized file to the Engine, compressed or not, and remove it once cached
+ */
+const sendSerializedFile = async (
+  filePath: string,
+  compression: boolean,
+  addContentFn: (data: OIBusContent) => Promise<void>,
+  logger: pino.Logger
+): Promise<void> => {
+  let sentPath = filePath;
+  if (compression) {
+    sentPath = `${filePath}.gz`;
+    await compress(filePath, sentPath);
+    try {
+      await fs.unlink(filePath);
+      logger.info(`File "${filePath}" compressed and deleted`);
+    } catch (unlinkError) {
+      logger.error(`Error when deleting file "${filePath}" after compression. ${unlinkError}`);
+    }
+  }
+
+  logger.debug(`Sending file "${sentPath}" to Engine`);
+  await addContentFn({ type: 'raw', filePath: sentPath });
+  try {
+    await fs.unlink(sentPath);
+    logger.trace(`File "${sentPath}" deleted`);
+  } catch (unlinkError) {
+    logger.error(`Error when deleting file "${sentPath}" after caching it. ${unlinkError}`);
+  }
+};
+
+/**
+ * Map the columns of query results to time values. Results without point ID, value or valid timestamp are ignored
+ */
+export const convertResultsToTimeValues = (
+  data: Array<Record<string, any>>,
+  columns: Omit<JSONSerializationSettings, 'type'>,
+  logger: pino.Logger
+): Array<OIBusTimeValue> => {
+  const values: Array<OIBusTimeValue> = [];
+  for (const result of data) {
+    const pointId = result[columns.pointIdColumn!];
+    const timestamp = convertResultTimestamp(result[columns.timestampColumn!]);
+    const value = result[columns.valueColumn!];
+    if (pointId === null || pointId === undefined || !timestamp || value === null || value === undefined) {
+      continue;
+    }
+    const otherFields = (columns.otherColumns || []).map(field => [field.name, result[field.column]]);
+    values.push({
+      pointId: `${pointId}`,
+      timestamp,
+      data: { value: convertResultValue(value), ...Object.fromEntries(otherFields) }
+    });
+  }
+  if (values.length < data.length) {
+    logger.warn(
+      `${data.length - values.length} results ignored: the columns "${columns.pointIdColumn}", "${columns.timestampColumn}" ` +
+        `and "${columns.valueColumn}" must contain a point ID, a valid timestamp and a value`
+    );
+  }
+  return values;
+};
+
+/**
+ * Timestamps are given as dates when declared as date time fields, as ISO strings or as milliseconds otherwise
+ */
+const convertResultTimestamp = (timestamp: unknown): Instant | null => {
+  let dateTime: DateTime;
+  if (timestamp instanceof Date) {
+    dateTime = DateTime.fromJSDate(timestamp);
+  } else if (typeof timestamp === 'string') {
+    dateTime = DateTime.fromISO(timestamp, { zone: 'utc' });
+  } else if (typeof timestamp === 'number') {
+    dateTime = DateTime.fromMillis(timestamp);
+  } else {
+    return null;
+  }
+  return dateTime.isValid ? dateTime.toUTC().toISO() : null;
+};
+
+const convertResultValue = (value: unknown): string | number => {
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
   }
+  return typeof value === 'object' ? JSON.stringify(value) : `${value}`;
 };
 
 export const generateFilenameForSerialization = (baseFolder: string, filename: string, connectorName: string, itemName: string): string => {
@@ -1,4 +1,5 @@
 import { SouthConnectorManifest } from '../../../../shared/model/south-connector.model';
+import { buildDeadbandFormControl } from '../../../../shared/model/manifest-factory';
 
 const manifest: SouthConnectorManifest = {
   id: 'ads',
@@ -149,7 +150,8 @@ const manifest: SouthConnectorManifest = {
         label: 'Address',
         validators: [{ key: 'required' }],
         displayInViewMode: true
-      }
+      },
+      buildDeadbandFormControl()
     ]
   }
 };
@@ -62,7 +62,8 @@ const items: Array<SouthConnectorItemDTO<SouthADSItemSettings>> = [
     enabled: true,
     connectorId: 'southId',
     settings: {
-      address: 'GVL_Test.TestINT1'
+      address: 'GVL_Test.TestINT1',
+      deadband: null
     },
     scanModeId: 'scanModeId1'
   },
@@ -72,7 +73,8 @@ const items: Array<SouthConnectorItemDTO<SouthADSItemSettings>> = [
     enabled: true,
     connectorId: 'southId',
     settings: {
-      address: 'GVL_Test.TestINT2'
+      address: 'GVL_Test.TestINT2',
+      deadband: null
     },
     scanModeId: 'scanModeId1'
   }
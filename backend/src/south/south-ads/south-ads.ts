@@ -35,7 +35,7 @@ export default class SouthADS extends SouthConnector<SouthADSSettings, SouthADSI
 
   constructor(
     connector: SouthConnectorDTO<SouthADSSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
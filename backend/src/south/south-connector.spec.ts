@@ -10,7 +10,7 @@ import EncryptionService from '../service/encryption.service';
 import RepositoryService from '../service/repository.service';
 import { CronJob } from 'cron';
 import { delay, generateIntervals, validateCronExpression } from '../service/utils';
-import { QueriesFile, QueriesHistory, QueriesLastPoint, QueriesSubscription } from './south-interface';
+import { CallsMethod, QueriesFile, QueriesHistory, QueriesLastPoint, QueriesSubscription, QueriesWrite } from './south-interface';
 import { Instant } from '../../../shared/model/types';
 import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
 import { OIBusTimeValue } from '../../../shared/model/engine.model';
@@ -26,6 +26,9 @@ const createCacheHistoryTableMock = jest.fn();
 const getSouthCacheMock = jest.fn();
 const createOrUpdateCacheScanModeMock = jest.fn();
 const resetCacheMock = jest.fn();
+const splitSharedCacheScanModesMock = jest.fn();
+const getDeadbandValueMock = jest.fn();
+const setDeadbandValuesMock = jest.fn();
 jest.mock(
   '../service/south-cache.service',
   () =>
@@ -34,7 +37,10 @@ jest.mock(
         createSouthCacheScanModeTable: createCacheHistoryTableMock,
         getSouthCacheScanMode: getSouthCacheMock,
         createOrUpdateCacheScanMode: createOrUpdateCacheScanModeMock,
-        resetCacheScanMode: resetCacheMock
+        resetCacheScanMode: resetCacheMock,
+        splitSharedCacheScanModes: splitSharedCacheScanModesMock,
+        getDeadbandValue: getDeadbandValueMock,
+        setDeadbandValues: setDeadbandValuesMock
       };
     }
 );
@@ -54,7 +60,9 @@ jest.mock(
         },
         metrics: {
           numberOfValuesRetrieved: 1,
+          numberOfValuesSuppressed: 0,
           numberOfFilesRetrieved: 1,
+          backpressured: false,
           historyMetrics: {}
         }
       };
@@ -126,7 +134,10 @@ const items: Array<SouthConnectorItemDTO> = [
   }
 ];
 
-class TestSouth extends SouthConnector implements QueriesLastPoint, QueriesFile, QueriesSubscription, QueriesHistory {
+class TestSouth
+  extends SouthConnector
+  implements QueriesLastPoint, QueriesFile, QueriesSubscription, QueriesHistory, QueriesWrite, CallsMethod
+{
   async lastPointQuery(): Promise<void> {}
 
   async fileQuery(): Promise<void> {}
@@ -137,6 +148,12 @@ class TestSouth extends SouthConnector implements QueriesLastPoint, QueriesFile,
 
   async subscribe(): Promise<void> {}
   async unsubscribe(): Promise<void> {}
+
+  async writeItem(): Promise<void> {}
+
+  async callMethod(): Promise<Array<any>> {
+    return [];
+  }
 }
 
 let south: TestSouth;
@@ -356,6 +373,177 @@ describe('SouthConnector enabled', () => {
     expect(addContentCallback).toHaveBeenCalledWith(configuration.id, { type: 'time-values', content: [{}, {}] });
   });
 
+  it('should add transformed values', async () => {
+    (repositoryService.transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      { id: 'transformer1', type: 'scaling', enabled: true, position: 0, pointIdFilter: null, settings: { multiplier: 2, offset: 1 } },
+      {
+        id: 'transformer2',
+        type: 'quality-filter',
+        enabled: true,
+        position: 1,
+        pointIdFilter: null,
+        settings: { qualityField: 'quality', droppedQualities: ['bad'] }
+      }
+    ]);
+    south.onTransformersChange();
+    jest.clearAllMocks();
+
+    await south.addContent({
+      type: 'time-values',
+      content: [
+        { pointId: 'point1', timestamp: nowDateString, data: { value: 1, quality: 'good' } },
+        { pointId: 'point2', timestamp: nowDateString, data: { value: 2, quality: 'bad' } }
+      ]
+    });
+    expect(logger.trace).toHaveBeenCalledWith(`1 values dropped by the transformers of South "${configuration.name}"`);
+    expect(addContentCallback).toHaveBeenCalledWith(configuration.id, {
+      type: 'time-values',
+      content: [{ pointId: 'point1', timestamp: nowDateString, data: { value: 3, quality: 'good' } }]
+    });
+
+    await south.addContent({
+      type: 'time-values',
+      content: [{ pointId: 'point2', timestamp: nowDateString, data: { value: 2, quality: 'bad' } }]
+    });
+    expect(addContentCallback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add values outside deadband', async () => {
+    (repositoryService.southItemRepository.listSouthItems as jest.Mock).mockReturnValueOnce([
+      { ...items[0], settings: { deadband: { type: 'absolute', value: 1, maxSilence: 60 } } },
+      { ...items[1], settings: { deadband: { type: 'percent', value: 10, maxSilence: 0 } } },
+      { ...items[2], settings: { deadband: { type: 'none' } } }
+    ]);
+    await south.onItemChange();
+    getDeadbandValueMock.mockImplementation((pointId: string) => {
+      switch (pointId) {
+        case 'item1':
+        case 'item1.field1':
+          return { value: 10, timestamp: '2020-02-02T02:01:30.000Z' };
+        case 'item2':
+          return { value: '50', timestamp: '2020-02-02T02:00:00.000Z' };
+        case 'item2.status':
+          return { value: 'on', timestamp: '2020-02-02T02:00:00.000Z' };
+        default:
+          return null;
+      }
+    });
+    jest.clearAllMocks();
+
+    await south.addContent({
+      type: 'time-values',
+      content: [
+        { pointId: 'item1', timestamp: nowDateString, data: { value: 10.5 } },
+        { pointId: 'item1.field1', timestamp: '2020-02-02T02:02:30.000Z', data: { value: 10.5 } },
+        { pointId: 'item2', timestamp: nowDateString, data: { value: 54 } },
+        { pointId: 'item2', timestamp: nowDateString, data: { value: '56' } },
+        { pointId: 'item2.status', timestamp: nowDateString, data: { value: 'on' } },
+        { pointId: 'item3', timestamp: nowDateString, data: { value: 1 } },
+        { pointId: 'item4', timestamp: nowDateString, data: { value: 1 } },
+        { pointId: 'item1.new', timestamp: nowDateString, data: { value: 1 } }
+      ]
+    });
+    expect(logger.trace).toHaveBeenCalledWith('3 values suppressed by the deadband of their item');
+    expect(addContentCallback).toHaveBeenCalledWith(configuration.id, {
+      type: 'time-values',
+      content: [
+        { pointId: 'item1.field1', timestamp: '2020-02-02T02:02:30.000Z', data: { value: 10.5 } },
+        { pointId: 'item2', timestamp: nowDateString, data: { value: '56' } },
+        { pointId: 'item3', timestamp: nowDateString, data: { value: 1 } },
+        { pointId: 'item4', timestamp: nowDateString, data: { value: 1 } },
+        { pointId: 'item1.new', timestamp: nowDateString, data: { value: 1 } }
+      ]
+    });
+    expect(setDeadbandValuesMock).toHaveBeenCalledTimes(1);
+    expect(setDeadbandValuesMock).toHaveBeenCalledWith(
+      new Map([
+        ['item1.field1', { value: 10.5, timestamp: '2020-02-02T02:02:30.000Z' }],
+        ['item2', { value: '56', timestamp: nowDateString }],
+        ['item1.new', { value: 1, timestamp: nowDateString }]
+      ])
+    );
+    expect(updateMetricsMock).toHaveBeenCalledWith(
+      configuration.id,
+      expect.objectContaining({ numberOfValuesRetrieved: 9, numberOfValuesSuppressed: 3 })
+    );
+  });
+
+  it('should not save the deadband values when the values are not delivered', async () => {
+    (repositoryService.southItemRepository.listSouthItems as jest.Mock).mockReturnValueOnce([
+      { ...items[0], settings: { deadband: { type: 'absolute', value: 1, maxSilence: 0 } } }
+    ]);
+    await south.onItemChange();
+    getDeadbandValueMock.mockReturnValue(null);
+    jest.clearAllMocks();
+    addContentCallback.mockImplementationOnce(async () => {
+      throw new Error('cache error');
+    });
+
+    await expect(
+      south.addContent({ type: 'time-values', content: [{ pointId: 'item1', timestamp: nowDateString, data: { value: 10 } }] })
+    ).rejects.toThrow(new Error('cache error'));
+    expect(setDeadbandValuesMock).not.toHaveBeenCalled();
+  });
+
+  it('should save the deadband values of the values kept by the transformers', async () => {
+    (repositoryService.southItemRepository.listSouthItems as jest.Mock).mockReturnValueOnce([
+      { ...items[0], settings: { deadband: { type: 'absolute', value: 1, maxSilence: 0 } } }
+    ]);
+    await south.onItemChange();
+    (repositoryService.transformerRepository.getTransformers as jest.Mock).mockReturnValueOnce([
+      {
+        id: 'transformer1',
+        type: 'quality-filter',
+        enabled: true,
+        position: 0,
+        pointIdFilter: null,
+        settings: { qualityField: 'quality', droppedQualities: ['bad'] }
+      }
+    ]);
+    south.onTransformersChange();
+    getDeadbandValueMock.mockReturnValue({ value: 10, timestamp: '2020-02-02T02:00:00.000Z' });
+    jest.clearAllMocks();
+
+    await south.addContent({
+      type: 'time-values',
+      content: [
+        { pointId: 'item1', timestamp: '2020-02-02T02:01:00.000Z', data: { value: 20, quality: 'bad' } },
+        { pointId: 'item1', timestamp: '2020-02-02T02:02:00.000Z', data: { value: 10.5, quality: 'good' } },
+        { pointId: 'item1', timestamp: nowDateString, data: { value: 15, quality: 'good' } }
+      ]
+    });
+    expect(addContentCallback).toHaveBeenCalledWith(configuration.id, {
+      type: 'time-values',
+      content: [{ pointId: 'item1', timestamp: nowDateString, data: { value: 15, quality: 'good' } }]
+    });
+    expect(setDeadbandValuesMock).toHaveBeenCalledWith(new Map([['item1', { value: 15, timestamp: nowDateString }]]));
+  });
+
+  it('should not apply the deadband of the items on history values', async () => {
+    (repositoryService.southItemRepository.listSouthItems as jest.Mock).mockReturnValueOnce([
+      { ...items[0], settings: { deadband: { type: 'absolute', value: 1, maxSilence: 0 } } }
+    ]);
+    await south.onItemChange();
+    getDeadbandValueMock.mockReturnValue({ value: 10, timestamp: nowDateString });
+    (generateIntervals as jest.Mock).mockReturnValueOnce([{ start: '2020-02-02T02:02:02.222Z', end: '2023-02-02T02:02:02.222Z' }]);
+    south.historyQuery = jest.fn(async () => {
+      await south.addContent({
+        type: 'time-values',
+        content: [{ pointId: 'item1', timestamp: nowDateString, data: { value: 10 } }]
+      });
+      return '2023-02-02T02:02:02.222Z';
+    });
+    jest.clearAllMocks();
+
+    await south.historyQueryHandler(items, '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1');
+    expect(addContentCallback).toHaveBeenCalledWith(configuration.id, {
+      type: 'time-values',
+      content: [{ pointId: 'item1', timestamp: nowDateString, data: { value: 10 } }]
+    });
+    expect(getDeadbandValueMock).not.toHaveBeenCalled();
+    expect(setDeadbandValuesMock).not.toHaveBeenCalled();
+  });
+
   it('should add file', async () => {
     await south.addContent({ type: 'raw', filePath: 'file.csv' });
     expect(logger.debug).toHaveBeenCalledWith(`Add file "file.csv" to cache from South "${configuration.name}"`);
@@ -464,6 +652,173 @@ describe('SouthConnector enabled', () => {
     });
   });
 
+  it('should report the content retrieved by each history interval', async () => {
+    const intervals = [{ start: '2020-02-02T02:02:02.222Z', end: '2023-02-02T02:02:02.222Z' }];
+    (generateIntervals as jest.Mock).mockReturnValueOnce(intervals);
+    south.historyQuery = jest.fn(async () => {
+      await south.addContent({
+        type: 'time-values',
+        content: [{ pointId: 'item1' }, { pointId: 'item2.field' }, { pointId: 'unknown' }] as Array<OIBusTimeValue>
+      });
+      await south.addContent({ type: 'raw', filePath: 'file.csv' });
+      return '2023-02-02T02:02:02.222Z';
+    });
+    const intervalsListener = jest.fn();
+    const intervalListener = jest.fn();
+    south.historyEvent.on('intervals', intervalsListener);
+    south.historyEvent.on('interval', intervalListener);
+
+    await south.historyQueryHandler(items, '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1');
+    expect(intervalsListener).toHaveBeenCalledWith(null, intervals);
+    // The file cannot be attributed to an item when the items are queried together
+    expect(intervalListener).toHaveBeenCalledWith(
+      {
+        itemId: null,
+        interval: intervals[0],
+        numberOfValues: 3,
+        numberOfFiles: 1,
+        contentByItem: { item1: { numberOfValues: 1, numberOfFiles: 0 }, item2: { numberOfValues: 1, numberOfFiles: 0 } },
+        error: null
+      },
+      items.map(item => item.id)
+    );
+
+    // Content added outside a history interval is not counted
+    await south.addContent({ type: 'raw', filePath: 'file.csv' });
+    expect(intervalListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report the error of a history interval', async () => {
+    const intervals = [{ start: '2020-02-02T02:02:02.222Z', end: '2023-02-02T02:02:02.222Z' }];
+    (generateIntervals as jest.Mock).mockReturnValueOnce(intervals);
+    south.historyQuery = jest.fn().mockRejectedValueOnce(new Error('query error'));
+    const intervalListener = jest.fn();
+    south.historyEvent.on('interval', intervalListener);
+
+    await expect(south.historyQueryHandler(items, '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1')).rejects.toThrow(
+      'query error'
+    );
+    expect(intervalListener).toHaveBeenCalledWith(
+      {
+        itemId: null,
+        interval: intervals[0],
+        numberOfValues: 0,
+        numberOfFiles: 0,
+        contentByItem: {},
+        error: 'query error'
+      },
+      items.map(item => item.id)
+    );
+  });
+
+  it('should skip the failed history intervals', async () => {
+    const intervals = [
+      { start: '2020-02-02T02:02:02.222Z', end: '2021-02-02T02:02:02.222Z' },
+      { start: '2021-02-02T02:02:02.222Z', end: '2022-02-02T02:02:02.222Z' },
+      { start: '2022-02-02T02:02:02.222Z', end: '2023-02-02T02:02:02.222Z' }
+    ];
+    (generateIntervals as jest.Mock).mockReturnValueOnce(intervals);
+    south.historyQuery = jest
+      .fn()
+      .mockReturnValueOnce('2021-02-02T02:02:02.222Z')
+      .mockRejectedValueOnce(new Error('query error'))
+      .mockReturnValueOnce('2022-12-02T02:02:02.222Z');
+    const intervalListener = jest.fn();
+    south.historyEvent.on('interval', intervalListener);
+
+    await south.historyQueryHandler(items, '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1', true);
+    expect(south.historyQuery).toHaveBeenCalledTimes(3);
+    expect(logger.error).toHaveBeenCalledWith(
+      `Error when querying history interval [${intervals[1].start}, ${intervals[1].end}]. Error: query error`
+    );
+    expect(intervalListener).toHaveBeenCalledTimes(3);
+    expect(intervalListener).toHaveBeenCalledWith(expect.objectContaining({ interval: intervals[1], error: 'query error' }), [
+      'id1',
+      'id2',
+      'id3'
+    ]);
+    // The max instant moves past the failed interval
+    expect(createOrUpdateCacheScanModeMock).toHaveBeenCalledWith({
+      scanModeId: 'id1',
+      maxInstant: '2022-02-02T02:02:02.222Z',
+      southId: configuration.id
+    });
+    expect(createOrUpdateCacheScanModeMock).toHaveBeenCalledWith({
+      scanModeId: 'id1',
+      maxInstant: '2022-12-02T02:02:02.222Z',
+      southId: configuration.id
+    });
+    expect(south.historyIsRunning).toEqual(false);
+  });
+
+  it('should retry failed history intervals', async () => {
+    const firstInterval = { start: '2020-02-02T02:02:02.222Z', end: '2021-02-02T02:02:02.222Z' };
+    const secondInterval = { start: '2021-02-02T02:02:02.222Z', end: '2022-02-02T02:02:02.222Z' };
+    south.historyQuery = jest.fn().mockReturnValueOnce('2021-02-02T02:02:02.222Z').mockRejectedValueOnce(new Error('query error'));
+    const intervalListener = jest.fn();
+    south.historyEvent.on('interval', intervalListener);
+
+    await south.retryHistoryIntervals(items, [
+      { itemId: 'id1', interval: firstInterval },
+      { itemId: 'unknownId', interval: firstInterval },
+      { itemId: null, interval: secondInterval }
+    ]);
+    expect(south.historyQuery).toHaveBeenCalledTimes(2);
+    expect(south.historyQuery).toHaveBeenCalledWith([items[0]], firstInterval.start, firstInterval.end);
+    expect(south.historyQuery).toHaveBeenCalledWith(items, secondInterval.start, secondInterval.end);
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Item unknownId not found or disabled. Interval [${firstInterval.start}, ${firstInterval.end}] not retried`
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      `Error when retrying history interval [${secondInterval.start}, ${secondInterval.end}]. Error: query error`
+    );
+    expect(intervalListener).toHaveBeenCalledWith(expect.objectContaining({ itemId: 'id1', interval: firstInterval, error: null }), [
+      'id1'
+    ]);
+    expect(intervalListener).toHaveBeenCalledWith(
+      expect.objectContaining({ itemId: null, interval: secondInterval, error: 'query error' }),
+      ['id1', 'id2', 'id3']
+    );
+    expect(delay).toHaveBeenCalledTimes(1);
+    expect(createOrUpdateCacheScanModeMock).not.toHaveBeenCalled();
+    expect(south.historyIsRunning).toEqual(false);
+  });
+
+  it('should stop retrying failed history intervals when stopping', async () => {
+    const intervals = [
+      { start: '2020-02-02T02:02:02.222Z', end: '2021-02-02T02:02:02.222Z' },
+      { start: '2021-02-02T02:02:02.222Z', end: '2022-02-02T02:02:02.222Z' }
+    ];
+    south.historyQuery = jest.fn(
+      () =>
+        new Promise<string>(resolve => {
+          setTimeout(() => {
+            resolve('2021-02-02T02:02:02.222Z');
+          }, 1000);
+        })
+    );
+
+    south.createDeferredPromise();
+    south
+      .retryHistoryIntervals(items, [
+        { itemId: null, interval: intervals[0] },
+        { itemId: null, interval: intervals[1] }
+      ])
+      .then(() => {
+        south.resolveDeferredPromise();
+      });
+    south.stop();
+
+    jest.advanceTimersByTime(10000);
+
+    await flushPromises();
+
+    expect(south.historyQuery).toHaveBeenCalledTimes(1);
+    expect(logger.debug).toHaveBeenCalledWith(
+      `Connector is stopping. Exiting history retry at interval 1: [${intervals[1].start}, ${intervals[1].end}]`
+    );
+  });
+
   it('should manage history query with several intervals when stopping', async () => {
     const intervals = [
       { start: '2020-02-02T02:02:02.222Z', end: '2021-02-02T02:02:02.222Z' },
@@ -507,6 +862,36 @@ describe('SouthConnector enabled', () => {
     south.queriesSubscription();
   });
 
+  it('should write item value and log it', async () => {
+    const writeItem = jest.spyOn(south, 'writeItem').mockImplementationOnce(async () => {});
+    await south.writeItemValue(items[0], 12, 'admin');
+    expect(writeItem).toHaveBeenCalledWith(items[0], 12);
+    expect(logger.info).toHaveBeenCalledWith('User "admin" wrote value 12 on item "item1"');
+
+    writeItem.mockImplementationOnce(async () => {
+      throw new Error('write error');
+    });
+    await expect(south.writeItemValue(items[0], true, 'admin')).rejects.toThrow(new Error('write error'));
+    expect(logger.error).toHaveBeenCalledWith('User "admin" could not write value true on item "item1": write error');
+
+    writeItem.mockImplementationOnce(async () => {});
+    await south.writeItemValue(items[0], ['on', 'off'], 'admin');
+    expect(logger.info).toHaveBeenCalledWith('User "admin" wrote value ["on","off"] on item "item1"');
+  });
+
+  it('should call method and log it', async () => {
+    const callMethod = jest.spyOn(south, 'callMethod').mockImplementationOnce(async () => [1, 'ok']);
+    expect(await south.callRemoteMethod('objectId', 'methodId', [12, 'fast'], 'admin')).toEqual([1, 'ok']);
+    expect(callMethod).toHaveBeenCalledWith('objectId', 'methodId', [12, 'fast']);
+    expect(logger.info).toHaveBeenCalledWith('User "admin" called method "methodId" of object "objectId" with arguments [12,"fast"]');
+
+    callMethod.mockImplementationOnce(async () => {
+      throw new Error('call error');
+    });
+    await expect(south.callRemoteMethod('objectId', 'methodId', [], 'admin')).rejects.toThrow(new Error('call error'));
+    expect(logger.error).toHaveBeenCalledWith('User "admin" could not call method "methodId" of object "objectId": call error');
+  });
+
   it('should reset cache', async () => {
     await south.resetCache();
     expect(resetCacheMock).toHaveBeenCalledTimes(1);
@@ -522,6 +907,51 @@ describe('SouthConnector enabled', () => {
     expect(resetMetrics).toHaveBeenCalledTimes(1);
   });
 
+  it('should flag the South as backpressured', () => {
+    jest.clearAllMocks();
+    south.setBackpressured(false);
+    expect(updateMetricsMock).not.toHaveBeenCalled();
+
+    south.setBackpressured(true);
+    expect(logger.warn).toHaveBeenCalledWith(
+      `South "${configuration.name}" is backpressured: its content is refused by a North connector with a full cache`
+    );
+    expect(updateMetricsMock).toHaveBeenCalledWith(configuration.id, expect.objectContaining({ backpressured: true }));
+
+    const scanMode = { id: 'scanModeId1', name: 'scanMode1', cron: '* * * * * *' } as ScanModeDTO;
+    south.addToQueue(scanMode);
+    expect(logger.debug).toHaveBeenCalledWith(`South connector is backpressured. Cron "scanMode1" (* * * * * *) skipped`);
+
+    south.setBackpressured(false);
+    expect(logger.info).toHaveBeenCalledWith(`South "${configuration.name}" is no longer backpressured`);
+    (logger.debug as jest.Mock).mockClear();
+    south.addToQueue(scanMode);
+    expect(logger.debug).not.toHaveBeenCalledWith(`South connector is backpressured. Cron "scanMode1" (* * * * * *) skipped`);
+  });
+
+  it('should pause a history query between two intervals while backpressured', async () => {
+    const intervals = [
+      { start: '2020-02-02T02:02:02.222Z', end: '2021-02-02T02:02:02.222Z' },
+      { start: '2021-02-02T02:02:02.222Z', end: '2022-02-02T02:02:02.222Z' }
+    ];
+    (generateIntervals as jest.Mock).mockReturnValueOnce(intervals);
+    south.historyQuery = jest.fn(async () => {
+      south.setBackpressured(true);
+      return '2021-02-02T02:02:02.222Z';
+    });
+    (delay as jest.Mock)
+      .mockImplementationOnce(async () => {})
+      .mockImplementationOnce(async () => {
+        south.setBackpressured(false);
+      });
+
+    await south.historyQueryHandler(items, '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1');
+    expect(south.historyQuery).toHaveBeenCalledTimes(2);
+    // Two checks of the backpressure, then the read delay
+    expect(delay).toHaveBeenCalledWith(1000);
+    expect(delay).toHaveBeenCalledTimes(3);
+  });
+
   it('should create subscriptions and cron jobs', async () => {
     jest.clearAllMocks();
     south.subscribe = jest.fn();
@@ -649,6 +1079,58 @@ describe('SouthConnector with max instant per item', () => {
     await south.start();
   });
 
+  it('should split the cache entries shared by the items on start', () => {
+    expect(splitSharedCacheScanModesMock).toHaveBeenCalledWith(configuration.id, items);
+  });
+
+  it('should query the other items when the history query of an item fails', async () => {
+    const intervals = [{ start: '2020-02-02T02:02:02.222Z', end: '2023-02-02T02:02:02.222Z' }];
+    (generateIntervals as jest.Mock).mockReturnValue(intervals);
+    south.historyQuery = jest
+      .fn()
+      .mockReturnValueOnce('2023-02-02T02:02:02.222Z')
+      .mockRejectedValueOnce(new Error('query error'))
+      .mockReturnValueOnce('2023-02-02T02:02:02.222Z');
+
+    await expect(south.historyQueryHandler(items, '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1')).rejects.toThrow(
+      `History of items ${items[1].name} could not be queried`
+    );
+    expect(logger.error).toHaveBeenCalledWith(`Error when querying history of item ${items[1].name}. Error: query error`);
+    expect(south.historyQuery).toHaveBeenCalledTimes(3);
+    expect(south.historyQuery).toHaveBeenCalledWith([items[2]], intervals[0].start, intervals[0].end);
+    expect(createOrUpdateCacheScanModeMock).toHaveBeenCalledTimes(2);
+    expect(south.historyIsRunning).toEqual(false);
+  });
+
+  it('should report the history intervals of each item', async () => {
+    const intervals = [{ start: '2020-02-02T02:02:02.222Z', end: '2023-02-02T02:02:02.222Z' }];
+    (generateIntervals as jest.Mock).mockReturnValue(intervals);
+    south.historyQuery = jest.fn(async () => {
+      await south.addContent({ type: 'time-values', content: [{ pointId: 'point' }] as Array<OIBusTimeValue> });
+      await south.addContent({ type: 'raw', filePath: 'file.csv' });
+      return '2023-02-02T02:02:02.222Z';
+    });
+    const intervalsListener = jest.fn();
+    const intervalListener = jest.fn();
+    south.historyEvent.on('intervals', intervalsListener);
+    south.historyEvent.on('interval', intervalListener);
+
+    await south.historyQueryHandler([items[0]], '2020-02-02T02:02:02.222Z', '2023-02-02T02:02:02.222Z', 'scanModeId1');
+    expect(intervalsListener).toHaveBeenCalledWith(items[0].id, intervals);
+    // The content of an item queried alone is attributed to it
+    expect(intervalListener).toHaveBeenCalledWith(
+      {
+        itemId: items[0].id,
+        interval: intervals[0],
+        numberOfValues: 1,
+        numberOfFiles: 1,
+        contentByItem: { [items[0].name]: { numberOfValues: 1, numberOfFiles: 1 } },
+        error: null
+      },
+      [items[0].id]
+    );
+  });
+
   it('should manage history query with several intervals with max instant per item', async () => {
     const intervals = [
       { start: '2020-02-02T02:02:02.222Z', end: '2021-02-02T02:02:02.222Z' },
@@ -868,6 +1350,18 @@ describe('SouthConnector disabled', () => {
     expect(basicSouth.queriesSubscription).toHaveBeenCalledTimes(1);
   });
 
+  it('should not write item value if not supported', async () => {
+    await expect(basicSouth.writeItemValue(items[0], 12, 'admin')).rejects.toThrow(
+      new Error(`South connector "${configuration.name}" does not support write`)
+    );
+  });
+
+  it('should not call method if not supported', async () => {
+    await expect(basicSouth.callRemoteMethod('objectId', 'methodId', [], 'admin')).rejects.toThrow(
+      new Error(`South connector "${configuration.name}" does not support method calls`)
+    );
+  });
+
   it('should test item', async () => {
     let callback = jest.fn();
     await basicSouth.testItem(items[0], callback);
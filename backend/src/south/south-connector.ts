@@ -2,7 +2,7 @@ import { EventEmitter } from 'node:events';
 import { CronJob } from 'cron';
 import { delay, generateIntervals, validateCronExpression } from '../service/utils';
 
-import { SouthCache, SouthConnectorDTO, SouthConnectorItemDTO } from '../../../shared/model/south-connector.model';
+import { SouthCache, SouthConnectorDTO, SouthConnectorItemDTO, SouthItemWriteValue } from '../../../shared/model/south-connector.model';
 import { ScanModeDTO } from '../../../shared/model/scan-mode.model';
 import { Instant, Interval } from '../../../shared/model/types';
 import pino from 'pino';
@@ -10,14 +10,36 @@ import EncryptionService from '../service/encryption.service';
 import RepositoryService from '../service/repository.service';
 import DeferredPromise from '../service/deferred-promise';
 import { DateTime } from 'luxon';
-import SouthCacheService from '../service/south-cache.service';
+import SouthCacheService, { DeadbandValue } from '../service/south-cache.service';
 import { PassThrough } from 'node:stream';
-import { DelegatesConnection, QueriesFile, QueriesHistory, QueriesLastPoint, QueriesSubscription } from './south-interface';
+import {
+  BrowsesNodes,
+  CallsMethod,
+  DelegatesConnection,
+  DiscoversItems,
+  HistoryIntervalResult,
+  QueriesFile,
+  QueriesHistory,
+  QueriesLastPoint,
+  QueriesSubscription,
+  QueriesWrite
+} from './south-interface';
 import SouthConnectorMetricsService from '../service/south-connector-metrics.service';
-import { SouthItemSettings, SouthSettings } from '../../../shared/model/south-settings.model';
-import { OIBusContent, OIBusRawContent, OIBusTimeValueContent } from '../../../shared/model/engine.model';
+import {
+  SouthADSItemSettings,
+  SouthItemSettings,
+  SouthModbusItemSettings,
+  SouthOPCUAItemSettings,
+  SouthSettings
+} from '../../../shared/model/south-settings.model';
+import { OIBusContent, OIBusRawContent, OIBusTimeValue, OIBusTimeValueContent } from '../../../shared/model/engine.model';
+import { DeadbandTransformerSettings } from '../../../shared/model/transformer.model';
 import path from 'node:path';
 import ConnectionService, { ManagedConnectionDTO } from '../service/connection.service';
+import TransformerService, { isInDeadband } from '../service/transformer.service';
+
+// Delay between two checks of the backpressure, while a history query is paused
+const BACKPRESSURE_CHECK_INTERVAL = 1000;
 
 /**
  * Class SouthConnector : provides general attributes and methods for south connectors.
@@ -47,12 +69,17 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
   private cronByScanModeIds: Map<string, CronJob> = new Map<string, CronJob>();
   private taskRunner: EventEmitter = new EventEmitter();
   public connectedEvent: EventEmitter = new EventEmitter();
+  // Emits the intervals to query ('intervals') and the content retrieved for each interval once queried ('interval')
+  public historyEvent: EventEmitter = new EventEmitter();
+  private historyInterval: { itemNames: Map<string, string>; result: HistoryIntervalResult } | null = null;
   private stopping = false;
+  private backpressured = false;
   private runProgress$: DeferredPromise | null = null;
   private subscribedItems: Array<SouthConnectorItemDTO<I>> = [];
   protected items: Array<SouthConnectorItemDTO<I>> = [];
   protected cacheService: SouthCacheService | null = null;
   private metricsService: SouthConnectorMetricsService | null = null;
+  private transformerService: TransformerService | null = null;
   historyIsRunning = false;
 
   /**
@@ -60,7 +87,7 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
    */
   constructor(
     protected connector: SouthConnectorDTO<T>,
-    private engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    private engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     protected readonly encryptionService: EncryptionService,
     protected readonly repositoryService: RepositoryService,
     protected logger: pino.Logger,
@@ -72,6 +99,7 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
       this.metricsService = new SouthConnectorMetricsService(this.connector.id, this.repositoryService.southMetricsRepository);
       this.metricsService.initMetrics();
       this.cacheService = new SouthCacheService(this.connector.id, this.repositoryService.southCacheRepository);
+      this.transformerService = new TransformerService(this.connector.id, this.repositoryService.transformerRepository);
     }
     this.taskRunner.on('next', async () => {
       if (this.taskJobQueue.length > 0) {
@@ -96,7 +124,14 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     if (dataStream) {
       // Reload the settings only on data stream case, otherwise let the history query manage the settings
       this.connector = this.repositoryService.southConnectorRepository.getSouthConnector(this.connector.id)!;
+      if (this.queriesHistory() && this.connector.history.maxInstantPerItem) {
+        this.cacheService!.splitSharedCacheScanModes(
+          this.connector.id,
+          this.repositoryService.southItemRepository.listSouthItems(this.connector.id, {})
+        );
+      }
     }
+    this.transformerService?.loadTransformers();
     this.logger.debug(`South connector ${this.connector.name} enabled. Starting services...`);
     await this.connect();
   }
@@ -192,6 +227,13 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     }
   }
 
+  /**
+   * Reload the transformers applied on the values on transformer changes
+   */
+  onTransformersChange(): void {
+    this.transformerService?.loadTransformers();
+  }
+
   async updateScanMode(scanMode: ScanModeDTO): Promise<void> {
     if (this.cronByScanModeIds.get(scanMode.id)) {
       this.createCronJob(scanMode);
@@ -235,6 +277,10 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
       this.logger.trace(`Connector is exiting. Cron "${scanMode.name}" (${scanMode.cron}) not added`);
       return;
     }
+    if (this.backpressured) {
+      this.logger.debug(`South connector is backpressured. Cron "${scanMode.name}" (${scanMode.cron}) skipped`);
+      return;
+    }
     const foundJob = this.taskJobQueue.find(element => element.id === scanMode.id);
     if (foundJob) {
       // If a job is already scheduled in queue, it will not be added
@@ -327,11 +373,16 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     }
   }
 
+  /**
+   * Query the history of the items between startTime and endTime, split in intervals. With skipFailedIntervals, an
+   * interval in error does not stop the query: it is reported through historyEvent to be retried later
+   */
   async historyQueryHandler(
     items: Array<SouthConnectorItemDTO<I>>,
     startTime: Instant,
     endTime: Instant,
-    scanModeId: string
+    scanModeId: string,
+    skipFailedIntervals = false
   ): Promise<void> {
     const itemsToRead = this.filterHistoryItems(items);
     if (!itemsToRead.length) {
@@ -342,7 +393,10 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     this.logger.trace(`Querying history for ${itemsToRead.length} items`);
 
     this.historyIsRunning = true;
+    const itemsInError: Array<string> = [];
     if (this.connector.history.maxInstantPerItem) {
+      // Each item has its own max instant: an item in error keeps its max instant to be retried on the next run, without
+      // preventing the other items from being queried
       for (const [index, item] of itemsToRead.entries()) {
         if (this.stopping) {
           this.logger.debug(`Connector is stopping. Exiting history query at item ${item.name}`);
@@ -359,7 +413,13 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
         const startTimeFromCache = DateTime.fromISO(southCache.maxInstant).minus(this.connector.history.overlap).toUTC().toISO()!;
         const intervals = generateIntervals(startTimeFromCache, endTime, this.connector.history.maxReadInterval);
         this.logIntervals(intervals);
-        await this.queryIntervals(intervals, [item], southCache, startTimeFromCache);
+        this.historyEvent.emit('intervals', item.id, intervals);
+        try {
+          await this.queryIntervals(intervals, [item], southCache, startTimeFromCache, item.id, skipFailedIntervals);
+        } catch (error) {
+          this.logger.error(`Error when querying history of item ${item.name}. ${error}`);
+          itemsInError.push(item.name);
+        }
         if (index !== itemsToRead.length - 1) {
           await delay(this.connector.history.readDelay);
         }
@@ -371,20 +431,26 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
       // requests. For example only one hour if maxReadInterval is 3600 (in s)
       const intervals = generateIntervals(startTimeFromCache, endTime, this.connector.history.maxReadInterval);
       this.logIntervals(intervals);
+      this.historyEvent.emit('intervals', null, intervals);
 
-      await this.queryIntervals(intervals, itemsToRead, southCache, startTimeFromCache);
+      await this.queryIntervals(intervals, itemsToRead, southCache, startTimeFromCache, null, skipFailedIntervals);
     }
     const stoppedMetrics = structuredClone(this.metricsService!.metrics);
     stoppedMetrics.historyMetrics.running = false;
     this.metricsService!.updateMetrics(this.connector.id, stoppedMetrics);
     this.historyIsRunning = false;
+    if (itemsInError.length > 0) {
+      throw new Error(`History of items ${itemsInError.join(', ')} could not be queried`);
+    }
   }
 
   private async queryIntervals(
     intervals: Array<Interval>,
     items: Array<SouthConnectorItemDTO<I>>,
     southCache: SouthCache,
-    startTimeFromCache: Instant
+    startTimeFromCache: Instant,
+    itemId: string | null,
+    skipFailedIntervals: boolean
   ) {
     this.metricsService!.updateMetrics(this.connector.id, {
       ...this.metricsService!.metrics,
@@ -395,8 +461,17 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     });
 
     for (const [index, interval] of intervals.entries()) {
-      // @ts-ignore
-      const lastInstantRetrieved = await this.historyQuery(items, interval.start, interval.end);
+      let lastInstantRetrieved: Instant;
+      try {
+        lastInstantRetrieved = await this.queryHistoryInterval(items, interval, itemId);
+      } catch (error) {
+        if (!skipFailedIntervals) {
+          throw error;
+        }
+        // The failed interval is left behind: it can be retried without querying again the intervals after it
+        this.logger.error(`Error when querying history interval [${interval.start}, ${interval.end}]. ${error}`);
+        lastInstantRetrieved = interval.end;
+      }
 
       if (lastInstantRetrieved > southCache.maxInstant) {
         // With overlap, it may return a lastInstantRetrieved inferior
@@ -426,11 +501,78 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
       }
 
       if (index !== intervals.length - 1) {
+        await this.waitWhileBackpressured();
         await delay(this.connector.history.readDelay);
       }
     }
   }
 
+  /**
+   * Query again intervals in error, one after another. The max instants stored in the South cache are left untouched
+   */
+  async retryHistoryIntervals(
+    items: Array<SouthConnectorItemDTO<I>>,
+    failedIntervals: Array<{ itemId: string | null; interval: Interval }>
+  ): Promise<void> {
+    const itemsToRead = this.filterHistoryItems(items);
+    this.logger.trace(`Retrying ${failedIntervals.length} history intervals`);
+
+    this.historyIsRunning = true;
+    for (const [index, { itemId, interval }] of failedIntervals.entries()) {
+      if (this.stopping) {
+        this.logger.debug(`Connector is stopping. Exiting history retry at interval ${index}: [${interval.start}, ${interval.end}]`);
+        break;
+      }
+
+      const intervalItems = itemId ? itemsToRead.filter(item => item.id === itemId) : itemsToRead;
+      if (!intervalItems.length) {
+        this.logger.warn(`Item ${itemId} not found or disabled. Interval [${interval.start}, ${interval.end}] not retried`);
+        continue;
+      }
+      try {
+        await this.queryHistoryInterval(intervalItems, interval, itemId);
+      } catch (error) {
+        this.logger.error(`Error when retrying history interval [${interval.start}, ${interval.end}]. ${error}`);
+      }
+      if (index !== failedIntervals.length - 1) {
+        await this.waitWhileBackpressured();
+        await delay(this.connector.history.readDelay);
+      }
+    }
+    this.historyIsRunning = false;
+  }
+
+  /**
+   * Pause the history query between two intervals while the South connector is backpressured, until it stops
+   */
+  private async waitWhileBackpressured(): Promise<void> {
+    while (this.backpressured && !this.stopping) {
+      await delay(BACKPRESSURE_CHECK_INTERVAL);
+    }
+  }
+
+  /**
+   * Query the history of the items for one interval and report the content retrieved, or the error, through historyEvent
+   */
+  private async queryHistoryInterval(items: Array<SouthConnectorItemDTO<I>>, interval: Interval, itemId: string | null): Promise<Instant> {
+    const itemIds = items.map(item => item.id);
+    this.historyInterval = {
+      itemNames: new Map(items.map(item => [item.name, item.name])),
+      result: { itemId, interval, numberOfValues: 0, numberOfFiles: 0, contentByItem: {}, error: null }
+    };
+    try {
+      // @ts-ignore
+      const lastInstantRetrieved: Instant = await this.historyQuery(items, interval.start, interval.end);
+      this.historyEvent.emit('interval', this.historyInterval.result, itemIds);
+      return lastInstantRetrieved;
+    } catch (error: any) {
+      this.historyEvent.emit('interval', { ...this.historyInterval.result, error: error.message }, itemIds);
+      throw error;
+    } finally {
+      this.historyInterval = null;
+    }
+  }
+
   private logIntervals(intervals: Array<Interval>) {
     if (intervals.length > 2) {
       this.logger.trace(
@@ -483,32 +625,139 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
   }
 
   /**
-   * Add new values to the South connector buffer.
+   * Add new values to the South connector buffer, once transformed by the transformers of the South connector.
    */
   private async addValues(data: OIBusTimeValueContent): Promise<void> {
+    if (this.historyInterval) {
+      for (const value of data.content) {
+        this.countHistoryIntervalContent(this.findHistoryItemName(value.pointId), 'numberOfValues');
+      }
+    }
     if (data.content.length > 0 && this.connector.id !== 'test') {
-      this.logger.debug(`Add ${data.content.length} values to cache from South "${this.connector.name}"`);
-      await this.engineAddContentCallback(this.connector.id, data);
+      const { valuesToSend, values, deadbandValues } = this.filterValues(data.content);
+      if (valuesToSend.length < data.content.length) {
+        this.logger.trace(`${data.content.length - valuesToSend.length} values suppressed by the deadband of their item`);
+      }
+      if (values.length < valuesToSend.length) {
+        this.logger.trace(`${valuesToSend.length - values.length} values dropped by the transformers of South "${this.connector.name}"`);
+      }
+      let numberOfNorthsReached = this.metricsService!.metrics.lastNumberOfNorthsReached;
+      if (values.length > 0) {
+        this.logger.debug(`Add ${values.length} values to cache from South "${this.connector.name}"`);
+        numberOfNorthsReached = await this.engineAddContentCallback(this.connector.id, { type: 'time-values', content: values });
+      }
+      // The last values delivered are saved once cached, so that a failure does not suppress the next values of their point
+      if (deadbandValues.size > 0) {
+        this.cacheService!.setDeadbandValues(deadbandValues);
+      }
       const currentMetrics = this.metricsService!.metrics;
       this.metricsService!.updateMetrics(this.connector.id, {
         ...currentMetrics,
         numberOfValuesRetrieved: currentMetrics.numberOfValuesRetrieved + data.content.length,
-        lastValueRetrieved: data.content[data.content.length - 1]
+        numberOfValuesSuppressed: currentMetrics.numberOfValuesSuppressed + data.content.length - valuesToSend.length,
+        lastValueRetrieved: data.content[data.content.length - 1],
+        lastNumberOfNorthsReached: numberOfNorthsReached
       });
     }
   }
 
+  /**
+   * Keep the values outside the deadband of their item, compared to the last value delivered for their point, and the
+   * values sent when the max silence of their item is reached, then transform them. The values are transformed one by one
+   * to return the last value delivered for each point with a deadband, kept in the South cache to survive restarts
+   */
+  private filterValues(values: Array<OIBusTimeValue>): {
+    valuesToSend: Array<OIBusTimeValue>;
+    values: Array<OIBusTimeValue>;
+    deadbandValues: Map<string, DeadbandValue>;
+  } {
+    const deadbandByItemName = new Map<string, DeadbandTransformerSettings>();
+    // History queries retrieve past values: the deadband of the items only applies to last point and subscription values
+    if (!this.historyInterval) {
+      for (const item of this.items) {
+        if (hasDeadband(item.settings) && item.settings.deadband && item.settings.deadband.type !== 'none') {
+          deadbandByItemName.set(item.name, {
+            deadband: item.settings.deadband.value ?? 0,
+            relative: item.settings.deadband.type === 'percent',
+            maxSilence: item.settings.deadband.maxSilence
+          });
+        }
+      }
+    }
+    if (deadbandByItemName.size === 0) {
+      return { valuesToSend: values, values: this.transformerService!.transform(values), deadbandValues: new Map() };
+    }
+
+    const valuesToSend: Array<OIBusTimeValue> = [];
+    const transformedValues: Array<OIBusTimeValue> = [];
+    const deadbandValues = new Map<string, DeadbandValue>();
+    for (const value of values) {
+      const deadband = this.findByPointId(value.pointId, deadbandByItemName);
+      const lastValueSent = deadband ? (deadbandValues.get(value.pointId) ?? this.cacheService!.getDeadbandValue(value.pointId)) : null;
+      if (deadband && lastValueSent && isInDeadband(deadband, lastValueSent, value)) {
+        continue;
+      }
+      valuesToSend.push(value);
+      const transformedValue = this.transformerService!.transform([value]);
+      if (transformedValue.length > 0) {
+        transformedValues.push(...transformedValue);
+        if (deadband) {
+          deadbandValues.set(value.pointId, { value: value.data.value, timestamp: value.timestamp });
+        }
+      }
+    }
+    return { valuesToSend, values: transformedValues, deadbandValues };
+  }
+
+  /**
+   * Retrieve the entry of the item of a point. The point ID is the item name, or starts with the item name followed
+   * by a dot for the fields of a structure (with ADS for example)
+   */
+  private findByPointId<V>(pointId: string, byItemName: Map<string, V>): V | null {
+    let itemName = pointId;
+    while (!byItemName.has(itemName) && itemName.includes('.')) {
+      itemName = itemName.substring(0, itemName.lastIndexOf('.'));
+    }
+    return byItemName.get(itemName) ?? null;
+  }
+
+  /**
+   * Retrieve the item of the current history interval a value belongs to. When the point does not match an item name,
+   * the value is attributed to the item of the interval if it is queried alone
+   */
+  private findHistoryItemName(pointId: string): string | null {
+    return this.findByPointId(pointId, this.historyInterval!.itemNames) ?? this.getSingleHistoryItemName();
+  }
+
+  private getSingleHistoryItemName(): string | null {
+    const itemNames = this.historyInterval!.itemNames;
+    return itemNames.size === 1 ? itemNames.keys().next().value! : null;
+  }
+
+  private countHistoryIntervalContent(itemName: string | null, counter: 'numberOfValues' | 'numberOfFiles'): void {
+    const result = this.historyInterval!.result;
+    result[counter] += 1;
+    if (itemName) {
+      result.contentByItem[itemName] ??= { numberOfValues: 0, numberOfFiles: 0 };
+      result.contentByItem[itemName][counter] += 1;
+    }
+  }
+
   /**
    * Add a new file to the Engine.
    */
   private async addFile(data: OIBusRawContent): Promise<void> {
+    if (this.historyInterval) {
+      this.countHistoryIntervalContent(this.getSingleHistoryItemName(), 'numberOfFiles');
+    }
     this.logger.debug(`Add file "${data.filePath}" to cache from South "${this.connector.name}"`);
-    await this.engineAddContentCallback(this.connector.id, data);
+    const numberOfNorthsReached = await this.engineAddContentCallback(this.connector.id, data);
     const currentMetrics = this.metricsService!.metrics;
     this.metricsService!.updateMetrics(this.connector.id, {
       ...currentMetrics,
       numberOfFilesRetrieved: currentMetrics.numberOfFilesRetrieved + 1,
-      lastFileRetrieved: path.parse(data.filePath).base
+      lastFileRetrieved: path.parse(data.filePath).base,
+      lastNumberOfNorthsReached: numberOfNorthsReached
     });
   }
 
@@ -537,6 +786,12 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     if (dataStream) {
       // Reload the settings only on data stream case, otherwise let the history query manage the settings
       this.connector = this.repositoryService.southConnectorRepository.getSouthConnector(this.connector.id)!;
+      if (this.connector.history.maxInstantPerItem) {
+        this.cacheService!.splitSharedCacheScanModes(
+          this.connector.id,
+          this.repositoryService.southItemRepository.listSouthItems(this.connector.id, {})
+        );
+      }
     }
 
     if (this.runProgress$) {
@@ -565,6 +820,28 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     this.metricsService!.resetMetrics();
   }
 
+  /**
+   * Flag the South connector as backpressured when a North connector it sends content to refuses new content because its
+   * cache is full. A backpressured South skips its scans and pauses its history queries between two intervals. The content
+   * of its subscriptions is still sent, and discarded by the full North connectors
+   */
+  setBackpressured(backpressured: boolean): void {
+    if (this.backpressured !== backpressured) {
+      this.backpressured = backpressured;
+      if (backpressured) {
+        this.logger.warn(`South "${this.connector.name}" is backpressured: its content is refused by a North connector with a full cache`);
+      } else {
+        this.logger.info(`South "${this.connector.name}" is no longer backpressured`);
+      }
+    }
+    if (this.metricsService && this.metricsService.metrics.backpressured !== backpressured) {
+      this.metricsService.updateMetrics(this.connector.id, {
+        ...this.metricsService.metrics,
+        backpressured
+      });
+    }
+  }
+
   queriesFile(): this is QueriesFile {
     return 'fileQuery' in this;
   }
@@ -585,6 +862,61 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     return 'subscribe' in this && 'unsubscribe' in this;
   }
 
+  queriesWrite(): this is QueriesWrite {
+    return 'writeItem' in this;
+  }
+
+  /**
+   * Write a value on an item and keep a trace of the user who requested it in the logs of the connector
+   */
+  async writeItemValue(item: SouthConnectorItemDTO<I>, value: SouthItemWriteValue, user: string): Promise<void> {
+    if (!this.queriesWrite()) {
+      throw new Error(`South connector "${this.connector.name}" does not support write`);
+    }
+    try {
+      await this.writeItem(item, value);
+    } catch (error: any) {
+      this.logger.error(`User "${user}" could not write value ${JSON.stringify(value)} on item "${item.name}": ${error.message}`);
+      throw error;
+    }
+    this.logger.info(`User "${user}" wrote value ${JSON.stringify(value)} on item "${item.name}"`);
+  }
+
+  callsMethod(): this is CallsMethod {
+    return 'callMethod' in this;
+  }
+
+  /**
+   * Call a method of the remote system and keep a trace of the user who requested it in the logs of the connector
+   */
+  async callRemoteMethod(
+    objectId: string,
+    methodId: string,
+    inputArguments: Array<SouthItemWriteValue>,
+    user: string
+  ): Promise<Array<any>> {
+    if (!this.callsMethod()) {
+      throw new Error(`South connector "${this.connector.name}" does not support method calls`);
+    }
+    let outputArguments: Array<any>;
+    try {
+      outputArguments = await this.callMethod(objectId, methodId, inputArguments);
+    } catch (error: any) {
+      this.logger.error(`User "${user}" could not call method "${methodId}" of object "${objectId}": ${error.message}`);
+      throw error;
+    }
+    this.logger.info(`User "${user}" called method "${methodId}" of object "${objectId}" with arguments ${JSON.stringify(inputArguments)}`);
+    return outputArguments;
+  }
+
+  browsesNodes(): this is BrowsesNodes {
+    return 'browse' in this;
+  }
+
+  discoversItems(): this is DiscoversItems {
+    return 'discoverItems' in this;
+  }
+
   delegatesConnection(): this is DelegatesConnection {
     return 'connectionSettings' in this && 'createSession' in this;
   }
@@ -601,3 +933,9 @@ export default class SouthConnector<T extends SouthSettings = any, I extends Sou
     return this.connector;
   }
 }
+
+/**
+ * Check if the settings of an item can have a deadband, as the items of the ADS, Modbus and OPCUA connectors
+ */
+const hasDeadband = (settings: SouthItemSettings): settings is SouthADSItemSettings | SouthModbusItemSettings | SouthOPCUAItemSettings =>
+  'deadband' in settings;
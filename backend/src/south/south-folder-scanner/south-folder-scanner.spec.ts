@@ -227,6 +227,7 @@ describe('SouthFolderScanner', () => {
 describe('SouthFolderScanner with preserve file and compression', () => {
   beforeEach(async () => {
     jest.resetAllMocks();
+    (repositoryService.transformerRepository.getTransformers as jest.Mock).mockReturnValue([]);
     jest.useFakeTimers().setSystemTime(new Date(nowDateString));
     database.prepare.mockImplementation(() => ({
       run: jest.fn()
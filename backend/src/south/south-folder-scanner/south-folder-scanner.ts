@@ -30,7 +30,7 @@ export default class SouthFolderScanner
    */
   constructor(
     connector: SouthConnectorDTO<SouthFolderScannerSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
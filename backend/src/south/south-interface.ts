@@ -1,6 +1,12 @@
 import { ManagedConnection, ManagedConnectionSettings } from '../service/connection.service';
-import { SouthConnectorItemDTO } from '../../../shared/model/south-connector.model';
-import { Instant } from '../../../shared/model/types';
+import {
+  SouthConnectorBrowseNodeDTO,
+  SouthConnectorItemDiscoveryCommandDTO,
+  SouthConnectorItemDTO,
+  SouthItemWriteValue
+} from '../../../shared/model/south-connector.model';
+import { Instant, Interval } from '../../../shared/model/types';
+import { HistoryQueryItemContent } from '../../../shared/model/history-query.model';
 
 export interface QueriesFile {
   fileQuery(items: Array<SouthConnectorItemDTO>): Promise<void>;
@@ -22,11 +28,53 @@ export interface QueriesHistory {
   historyQuery(items: Array<SouthConnectorItemDTO>, startTime: Instant, endTime: Instant, startTimeFromCache: Instant): Promise<Instant>;
 }
 
+/**
+ * Content retrieved by the history query of an interval, emitted once the interval is queried. The itemId is null when
+ * the items are queried together
+ */
+export interface HistoryIntervalResult {
+  itemId: string | null;
+  interval: Interval;
+  numberOfValues: number;
+  numberOfFiles: number;
+  contentByItem: Record<string, HistoryQueryItemContent>;
+  error: string | null;
+}
+
 export interface QueriesSubscription {
   subscribe(items: Array<SouthConnectorItemDTO>): Promise<void>;
   unsubscribe(items: Array<SouthConnectorItemDTO>): Promise<void>;
 }
 
+export interface QueriesWrite {
+  /**
+   * Write a value on the item in the remote system
+   */
+  writeItem(item: SouthConnectorItemDTO, value: SouthItemWriteValue): Promise<void>;
+}
+
+export interface CallsMethod {
+  /**
+   * Call a method of an object in the remote system and return the values of its output arguments
+   */
+  callMethod(objectId: string, methodId: string, inputArguments: Array<SouthItemWriteValue>): Promise<Array<any>>;
+}
+
+export interface BrowsesNodes {
+  /**
+   * Retrieve the children of a node of the remote system, or the nodes at the root of the system when no node is given
+   */
+  browse(nodeId: string | null): Promise<Array<SouthConnectorBrowseNodeDTO>>;
+}
+
+export interface DiscoversItems {
+  /**
+   * Listen to the data published by the remote system during the given duration and propose an item for each data
+   * source that is not already covered by an item of the connector
+   */
+  discoverItems(command: SouthConnectorItemDiscoveryCommandDTO): Promise<Array<SouthConnectorItemDTO>>;
+}
+
 export interface DelegatesConnection<TConnection = any> {
   /**
    * The connection that is being managed
@@ -1,4 +1,5 @@
 import { SouthConnectorManifest } from '../../../../shared/model/south-connector.model';
+import { buildDeadbandFormControl } from '../../../../shared/model/manifest-factory';
 
 const manifest: SouthConnectorManifest = {
   id: 'modbus',
@@ -10,7 +11,8 @@ const manifest: SouthConnectorManifest = {
     lastPoint: true,
     lastFile: false,
     history: false,
-    forceMaxInstantPerItem: false
+    forceMaxInstantPerItem: false,
+    write: true
   },
   settings: [
     {
@@ -150,7 +152,8 @@ const manifest: SouthConnectorManifest = {
             displayInViewMode: false
           }
         ]
-      }
+      },
+      buildDeadbandFormControl()
     ]
   }
 };
@@ -17,13 +17,19 @@ const readCoils = jest.fn().mockReturnValue({ response: { body: { valuesAsArray:
 const readDiscreteInputs = jest.fn().mockReturnValue({ response: { body: { valuesAsArray: [123] } } });
 const readInputRegisters = jest.fn().mockReturnValue({ response: { body: { valuesAsBuffer: Buffer.from([1, 2, 3, 4]) } } });
 const readHoldingRegisters = jest.fn().mockReturnValue({ response: { body: { valuesAsBuffer: Buffer.from([1, 2, 3, 4]) } } });
+const writeSingleCoil = jest.fn();
+const writeSingleRegister = jest.fn();
+const writeMultipleRegisters = jest.fn();
 jest.mock('jsmodbus', () => ({
   client: {
     TCP: jest.fn().mockImplementation(() => ({
       readHoldingRegisters,
       readInputRegisters,
       readDiscreteInputs,
-      readCoils
+      readCoils,
+      writeSingleCoil,
+      writeSingleRegister,
+      writeMultipleRegisters
     }))
   }
 }));
@@ -74,6 +80,7 @@ const items: Array<SouthConnectorItemDTO<SouthModbusItemSettings>> = [
     connectorId: 'southId',
     settings: {
       address: '0x4E80',
+      deadband: null,
       modbusType: 'holdingRegister',
       data: {
         dataType: 'UInt16',
@@ -89,6 +96,7 @@ const items: Array<SouthConnectorItemDTO<SouthModbusItemSettings>> = [
     connectorId: 'southId',
     settings: {
       address: '20097',
+      deadband: null,
       modbusType: 'holdingRegister',
       data: {
         dataType: 'UInt16',
@@ -104,6 +112,7 @@ const items: Array<SouthConnectorItemDTO<SouthModbusItemSettings>> = [
     connectorId: 'southId',
     settings: {
       address: '0x3E81',
+      deadband: null,
       modbusType: 'inputRegister',
       data: {
         dataType: 'UInt16',
@@ -119,6 +128,7 @@ const items: Array<SouthConnectorItemDTO<SouthModbusItemSettings>> = [
     connectorId: 'southId',
     settings: {
       address: '0x1E82',
+      deadband: null,
       modbusType: 'discreteInput'
     },
     scanModeId: 'scanModeId1'
@@ -130,6 +140,7 @@ const items: Array<SouthConnectorItemDTO<SouthModbusItemSettings>> = [
     connectorId: 'southId',
     settings: {
       address: '0x0E83',
+      deadband: null,
       modbusType: 'coil'
     },
     scanModeId: 'scanModeId1'
@@ -141,6 +152,7 @@ const items: Array<SouthConnectorItemDTO<SouthModbusItemSettings>> = [
     connectorId: 'southId',
     settings: {
       address: '0x0E88',
+      deadband: null,
       modbusType: 'holdingRegister',
       data: {
         dataType: 'Bit',
@@ -396,6 +408,74 @@ describe('SouthModbus', () => {
     await expect(south.modbusFunction(item)).rejects.toThrow(`Wrong Modbus type "${item.settings.modbusType}" for point ${item.name}`);
   });
 
+  it('should write coil', async () => {
+    await expect(south.writeCoil(1234, true)).rejects.toThrow('Write coil error: Modbus client not set');
+
+    await south.start();
+    await south.writeCoil(1234, true);
+    expect(writeSingleCoil).toHaveBeenCalledWith(1234, true);
+  });
+
+  it('should write holding', async () => {
+    await expect(south.writeHoldingRegister(1234, 258, 1, 'UInt16')).rejects.toThrow('Write holding error: Modbus client not set');
+
+    await south.start();
+    await south.writeHoldingRegister(1234, 25.8, 0.1, 'UInt16');
+    expect(writeSingleRegister).toHaveBeenCalledWith(1234, 258);
+    await south.writeHoldingRegister(1234, 50594050, 1, 'UInt32');
+    expect(writeMultipleRegisters).toHaveBeenCalledWith(1234, Buffer.from([1, 2, 3, 4]));
+  });
+
+  it('should write holding register bit', async () => {
+    await expect(south.writeHoldingRegisterBit(1234, 2, true)).rejects.toThrow('Write holding error: Modbus client not set');
+
+    await south.start();
+    await south.writeHoldingRegisterBit(1234, 2, true);
+    expect(readHoldingRegisters).toHaveBeenCalledWith(1234, 1);
+    expect(writeSingleRegister).toHaveBeenCalledWith(1234, 262);
+    await south.writeHoldingRegisterBit(1234, 1, false);
+    expect(writeSingleRegister).toHaveBeenCalledWith(1234, 256);
+  });
+
+  it('should write item according to its Modbus type', async () => {
+    south.writeCoil = jest.fn();
+    south.writeHoldingRegister = jest.fn();
+    south.writeHoldingRegisterBit = jest.fn();
+
+    await south.writeItem(items[4], 1);
+    expect(south.writeCoil).toHaveBeenCalledWith(south.getAddress(items[4]), true);
+    await south.writeItem(items[0], 12.5);
+    expect(south.writeHoldingRegister).toHaveBeenCalledWith(south.getAddress(items[0]), 12.5, 1, 'UInt16');
+    await south.writeItem(items[5], true);
+    expect(south.writeHoldingRegisterBit).toHaveBeenCalledWith(south.getAddress(items[5]), items[5].settings.data!.bitIndex, true);
+
+    await expect(south.writeItem(items[4], 2)).rejects.toThrow(
+      new Error('Wrong value 2 for coil Coil: a coil accepts only 0, 1, true or false')
+    );
+    await expect(south.writeItem(items[4], 'on')).rejects.toThrow(
+      new Error('Wrong value on for coil Coil: a coil accepts only 0, 1, true or false')
+    );
+    await expect(south.writeItem(items[5], 3)).rejects.toThrow(
+      new Error(`Wrong value 3 for bit ${items[5].settings.data!.bitIndex} of item HoldingRegister`)
+    );
+    await expect(south.writeItem(items[0], true)).rejects.toThrow(
+      new Error('Wrong value true for item HoldingRegister: a holding register accepts only numbers')
+    );
+    await expect(south.writeItem(items[0], [1, 2])).rejects.toThrow(
+      new Error('Wrong value 1,2 for item HoldingRegister: a holding register accepts only numbers')
+    );
+    await expect(south.writeItem(items[2], 1)).rejects.toThrow(new Error('Modbus type "inputRegister" of item InputRegister is read-only'));
+  });
+
+  it('should get buffer from value', () => {
+    for (const dataType of ['UInt16', 'Int16', 'UInt32', 'Int32', 'Float', 'Double']) {
+      const value = dataType.startsWith('U') ? 1.5 : -1.5;
+      expect(south.getValueFromBuffer(south.getBufferFromValue(value, 0.5, dataType), 0.5, dataType, undefined)).toEqual(value);
+    }
+    expect(south.getBufferFromValue(5, 1, 'BigInt64')).toEqual(Buffer.from([0, 0, 0, 0, 0, 5, 0, 0]));
+    expect(() => south.getBufferFromValue(-1, 1, 'UInt16')).toThrow('The value of "value" is out of range');
+  });
+
   it('should generate buffer function name', () => {
     const endianness = configuration.settings.endianness === 'Big Endian' ? 'BE' : 'LE';
     expect(south.getBufferFunctionName('Bit')).toEqual('readUInt16' + endianness);
@@ -432,6 +512,8 @@ describe('SouthModbus', () => {
     expect(south.getValueFromBuffer(Buffer.from([1, 2, 3, 4]), 1, 'UInt32', 10)).toEqual(50594050);
     expect(south.getValueFromBuffer(Buffer.from([1, 2, 3, 4]), 1, 'UInt16', 10)).toEqual(258);
     expect(south.getValueFromBuffer(Buffer.from([1, 2, 3, 4]), 1, 'Bit', 1)).toEqual(1);
+    expect(south.getValueFromBuffer(south.getBufferFromValue(12.5, 0.1, 'Int32'), 0.1, 'Int32', undefined)).toEqual(12.5);
+    expect(south.getValueFromBuffer(south.getBufferFromValue(-12.5, 1, 'Double'), 1, 'Double', undefined)).toEqual(-12.5);
   });
 });
 
@@ -4,12 +4,12 @@ import { client } from 'jsmodbus';
 
 import SouthConnector from '../south-connector';
 import manifest from './manifest';
-import { SouthConnectorDTO, SouthConnectorItemDTO } from '../../../../shared/model/south-connector.model';
+import { SouthConnectorDTO, SouthConnectorItemDTO, SouthItemWriteValue } from '../../../../shared/model/south-connector.model';
 import EncryptionService from '../../service/encryption.service';
 import RepositoryService from '../../service/repository.service';
 import pino from 'pino';
 import ModbusTCPClient from 'jsmodbus/dist/modbus-tcp-client';
-import { QueriesLastPoint } from '../south-interface';
+import { QueriesLastPoint, QueriesWrite } from '../south-interface';
 import { DateTime } from 'luxon';
 import { SouthModbusItemSettings, SouthModbusSettings } from '../../../../shared/model/south-settings.model';
 import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
@@ -17,7 +17,10 @@ import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.mo
 /**
  * Class SouthModbus - Provides instruction for Modbus client connection
  */
-export default class SouthModbus extends SouthConnector<SouthModbusSettings, SouthModbusItemSettings> implements QueriesLastPoint {
+export default class SouthModbus
+  extends SouthConnector<SouthModbusSettings, SouthModbusItemSettings>
+  implements QueriesLastPoint, QueriesWrite
+{
   static type = manifest.id;
 
   private socket: net.Socket | null = null;
@@ -27,7 +30,7 @@ export default class SouthModbus extends SouthConnector<SouthModbusSettings, Sou
 
   constructor(
     connector: SouthConnectorDTO<SouthModbusSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -70,9 +73,7 @@ export default class SouthModbus extends SouthConnector<SouthModbusSettings, Sou
    * Dynamically call the right function based on the given point settings
    */
   async modbusFunction(item: SouthConnectorItemDTO<SouthModbusItemSettings>): Promise<Array<OIBusTimeValue>> {
-    const offset = this.connector.settings.addressOffset === 'Modbus' ? 0 : -1;
-    const address =
-      (item.settings.address.match(/^0x[0-9a-f]+$/i) ? parseInt(item.settings.address, 16) : parseInt(item.settings.address, 10)) + offset;
+    const address = this.getAddress(item);
 
     let value;
     switch (item.settings.modbusType) {
@@ -110,6 +111,71 @@ export default class SouthModbus extends SouthConnector<SouthModbusSettings, Sou
     ];
   }
 
+  /**
+   * Write a value on a coil or a holding register, using the data settings of the item
+   */
+  async writeItem(item: SouthConnectorItemDTO<SouthModbusItemSettings>, value: SouthItemWriteValue): Promise<void> {
+    const address = this.getAddress(item);
+    switch (item.settings.modbusType) {
+      case 'coil':
+        if (value !== 0 && value !== 1 && typeof value !== 'boolean') {
+          throw new Error(`Wrong value ${value} for coil ${item.name}: a coil accepts only 0, 1, true or false`);
+        }
+        return this.writeCoil(address, !!value);
+      case 'holdingRegister':
+        if (item.settings.data!.dataType === 'Bit') {
+          if (value !== 0 && value !== 1 && typeof value !== 'boolean') {
+            throw new Error(`Wrong value ${value} for bit ${item.settings.data!.bitIndex} of item ${item.name}`);
+          }
+          return this.writeHoldingRegisterBit(address, item.settings.data!.bitIndex!, !!value);
+        }
+        if (typeof value !== 'number') {
+          throw new Error(`Wrong value ${value} for item ${item.name}: a holding register accepts only numbers`);
+        }
+        return this.writeHoldingRegister(address, value, item.settings.data!.multiplierCoefficient!, item.settings.data!.dataType!);
+      default:
+        throw new Error(`Modbus type "${item.settings.modbusType}" of item ${item.name} is read-only`);
+    }
+  }
+
+  /**
+   * Write a Modbus coil
+   */
+  async writeCoil(address: number, value: boolean): Promise<void> {
+    if (!this.client) {
+      throw new Error('Write coil error: Modbus client not set');
+    }
+    await this.client.writeSingleCoil(address, value);
+  }
+
+  /**
+   * Write a Modbus holding register, or several consecutive registers when the data type does not fit in a single word
+   */
+  async writeHoldingRegister(address: number, value: number, multiplier: number, dataType: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('Write holding error: Modbus client not set');
+    }
+    const buffer = this.getBufferFromValue(value, multiplier, dataType);
+    if (this.getNumberOfWords(dataType) === 1) {
+      await this.client.writeSingleRegister(address, buffer.readUInt16BE());
+    } else {
+      await this.client.writeMultipleRegisters(address, buffer);
+    }
+  }
+
+  /**
+   * Set or clear a bit of a Modbus holding register, keeping the other bits of the register unchanged
+   */
+  async writeHoldingRegisterBit(address: number, bitIndex: number, value: boolean): Promise<void> {
+    if (!this.client) {
+      throw new Error('Write holding error: Modbus client not set');
+    }
+    const { response } = await this.client.readHoldingRegisters(address, 1);
+    const register = this.getValueFromBuffer(response.body.valuesAsBuffer, 1, 'UInt16', undefined);
+    const newRegister = value ? register | (1 << bitIndex) : register & ~(1 << bitIndex);
+    await this.client.writeSingleRegister(address, this.getBufferFromValue(newRegister, 1, 'UInt16').readUInt16BE());
+  }
+
   /**
    * Read a Modbus coil
    */
@@ -161,29 +227,57 @@ export default class SouthModbus extends SouthConnector<SouthModbusSettings, Sou
    */
   getValueFromBuffer(buffer: any, multiplier: number, dataType: string, bitIndex: number | undefined): number {
     const bufferFunctionName = this.getBufferFunctionName(dataType);
+    this.swapBuffer(buffer, dataType);
+    const bufferValue = buffer[bufferFunctionName]();
+    if (dataType === 'Bit') {
+      return (bufferValue >> bitIndex!) & 1;
+    }
+
+    return parseFloat((bufferValue * multiplier).toFixed(5));
+  }
+
+  /**
+   * Build the buffer of registers to write from a value, reverting the conversion done by getValueFromBuffer
+   */
+  getBufferFromValue(value: number, multiplier: number, dataType: string): Buffer {
+    const buffer: any = Buffer.alloc(this.getNumberOfWords(dataType) * 2);
+    const bufferFunctionName = this.getBufferFunctionName(dataType).replace(/^read/, 'write');
+    const rawValue = value / multiplier;
+    if (['Float', 'Double'].includes(dataType)) {
+      buffer[bufferFunctionName](rawValue);
+    } else if (['BigUInt64', 'BigInt64'].includes(dataType)) {
+      buffer[bufferFunctionName](BigInt(Math.round(rawValue)));
+    } else {
+      buffer[bufferFunctionName](Math.round(rawValue));
+    }
+    this.swapBuffer(buffer, dataType);
+    return buffer;
+  }
+
+  /**
+   * Reorder the bytes of the registers according to the swap settings. Each swap is its own inverse, so the same
+   * method is used to read and to write registers
+   */
+  swapBuffer(buffer: Buffer, dataType: string): void {
     if (!['Bit', 'Int16', 'UInt16'].includes(dataType)) {
       buffer.swap32().swap16();
       if (this.connector.settings.swapWordsInDWords) {
         buffer.swap16().swap32();
       }
-      if (this.connector.settings.swapBytesInWords) {
-        buffer.swap16();
-      }
-      const bufferValue = buffer[bufferFunctionName]();
-      return parseFloat((bufferValue * multiplier).toFixed(5));
     }
-
     if (this.connector.settings.swapBytesInWords) {
       buffer.swap16();
     }
+  }
 
-    const bufferValue = buffer[bufferFunctionName]();
-
-    if (dataType === 'Bit') {
-      return (bufferValue >> bitIndex!) & 1;
-    }
-
-    return parseFloat((bufferValue * multiplier).toFixed(5));
+  /**
+   * Retrieve the address of an item according to the address offset setting
+   */
+  getAddress(item: SouthConnectorItemDTO<SouthModbusItemSettings>): number {
+    const offset = this.connector.settings.addressOffset === 'Modbus' ? 0 : -1;
+    return (
+      (item.settings.address.match(/^0x[0-9a-f]+$/i) ? parseInt(item.settings.address, 16) : parseInt(item.settings.address, 10)) + offset
+    );
   }
 
   /**
@@ -10,7 +10,8 @@ const manifest: SouthConnectorManifest = {
     lastPoint: false,
     lastFile: false,
     history: false,
-    forceMaxInstantPerItem: false
+    forceMaxInstantPerItem: false,
+    discovery: true
   },
   settings: [
     {
@@ -159,7 +160,7 @@ const manifest: SouthConnectorManifest = {
         key: 'valueType',
         type: 'OibSelect',
         label: 'Value type',
-        options: ['number', 'string', 'json'],
+        options: ['number', 'string', 'json', 'sparkplug-b'],
         defaultValue: 'number',
         validators: [{ key: 'required' }],
         newRow: false,
@@ -3,7 +3,7 @@ import fs from 'node:fs/promises';
 
 import mqtt from 'mqtt';
 
-import SouthMQTT from './south-mqtt';
+import SouthMQTT, { MAX_DISCOVERED_TOPICS } from './south-mqtt';
 import pino from 'pino';
 import PinoLogger from '../../tests/__mocks__/logger.mock';
 import EncryptionService from '../../service/encryption.service';
@@ -14,6 +14,7 @@ import { SouthConnectorDTO, SouthConnectorItemDTO } from '../../../../shared/mod
 import DatabaseMock from '../../tests/__mocks__/database.mock';
 import { SouthMQTTItemSettings, SouthMQTTSettings } from '../../../../shared/model/south-settings.model';
 import * as utils from '../../service/utils';
+import { encodePayload } from 'sparkplug-payload/lib/sparkplugbpayload';
 
 jest.mock('mqtt');
 jest.mock('node:fs/promises');
@@ -322,6 +323,177 @@ describe('SouthMQTT with Basic Auth', () => {
     expect(mqtt.connect).toHaveBeenCalledWith(configuration.settings.url, expectedOptions);
   });
 
+  it('should discover items', async () => {
+    const discoveryStream = new CustomStream();
+    discoveryStream.subscribe = jest.fn();
+    discoveryStream.end = jest.fn();
+    (mqtt.connect as jest.Mock).mockImplementationOnce(() => discoveryStream);
+    (repositoryService.southItemRepository.listSouthItems as jest.Mock).mockReturnValueOnce([items[0], items[1]]);
+
+    const discovery = south.discoverItems({ topic: '#', duration: 10 });
+    await flushPromises();
+    expect(mqtt.connect).toHaveBeenCalledWith(configuration.settings.url, {
+      clientId: `${configuration.id}-discovery`,
+      clean: true,
+      rejectUnauthorized: false,
+      username: 'username',
+      password: 'pass',
+      connectTimeout: 1000,
+      reconnectPeriod: 1000
+    });
+    discoveryStream.emit('connect');
+    expect(discoveryStream.subscribe).toHaveBeenCalledWith('#', { qos: 0 }, expect.any(Function));
+
+    discoveryStream.emit('message', 'factory/temperature', Buffer.from('12.5'));
+    for (let i = 0; i < 5; i++) {
+      discoveryStream.emit('message', 'factory/temperature', Buffer.from('12'));
+    }
+    // Not sampled as the maximum number of samples is reached for this topic
+    discoveryStream.emit('message', 'factory/temperature', Buffer.from('not a number'));
+    discoveryStream.emit('message', 'factory/status', Buffer.from('running'));
+    discoveryStream.emit('message', 'factory/json', Buffer.from(JSON.stringify({ value: 1, timestamp: nowDateString, name: 'point' })));
+    // Covered by the items of the connector
+    discoveryStream.emit('message', 'my/first/topic', Buffer.from('1'));
+    discoveryStream.emit('message', 'my/a/b/topic/with/wildcard/c', Buffer.from('1'));
+    jest.advanceTimersByTime(10_000);
+
+    expect(await discovery).toEqual([
+      {
+        id: '',
+        name: 'factory/json',
+        enabled: true,
+        connectorId: configuration.id,
+        scanModeId: 'subscription',
+        settings: {
+          topic: 'factory/json',
+          valueType: 'json',
+          jsonPayload: {
+            useArray: false,
+            dataArrayPath: null,
+            pointIdOrigin: 'payload',
+            pointIdPath: 'name',
+            timestampOrigin: 'payload',
+            timestampPayload: { timestampPath: 'timestamp', timestampType: 'iso-string' },
+            valuePath: 'value',
+            otherFields: []
+          }
+        }
+      },
+      {
+        id: '',
+        name: 'factory/status',
+        enabled: true,
+        connectorId: configuration.id,
+        scanModeId: 'subscription',
+        settings: { topic: 'factory/status', valueType: 'string' }
+      },
+      {
+        id: '',
+        name: 'factory/temperature',
+        enabled: true,
+        connectorId: configuration.id,
+        scanModeId: 'subscription',
+        settings: { topic: 'factory/temperature', valueType: 'number' }
+      }
+    ]);
+    expect(repositoryService.southItemRepository.listSouthItems).toHaveBeenCalledWith(configuration.id, {});
+    expect(discoveryStream.end).toHaveBeenCalledWith(true);
+    expect(logger.info).toHaveBeenCalledWith('5 topics discovered on "#" in 10s, 3 of them not covered by an item');
+  });
+
+  it('should limit the number of discovered topics', async () => {
+    const discoveryStream = new CustomStream();
+    discoveryStream.subscribe = jest.fn();
+    discoveryStream.end = jest.fn();
+    (mqtt.connect as jest.Mock).mockImplementationOnce(() => discoveryStream);
+    (repositoryService.southItemRepository.listSouthItems as jest.Mock).mockReturnValueOnce([]);
+
+    const discovery = south.discoverItems({ topic: 'factory/#', duration: 1 });
+    await flushPromises();
+    for (let i = 0; i <= MAX_DISCOVERED_TOPICS; i++) {
+      discoveryStream.emit('message', `factory/${i}`, Buffer.from('1'));
+    }
+    jest.advanceTimersByTime(1000);
+
+    expect((await discovery).length).toEqual(MAX_DISCOVERED_TOPICS);
+  });
+
+  it('should reject discovery on subscription or connection error', async () => {
+    const discoveryStream = new CustomStream();
+    discoveryStream.subscribe = jest.fn().mockImplementation((_topic, _options, callback) => callback(new Error('not authorized')));
+    discoveryStream.end = jest.fn();
+    (mqtt.connect as jest.Mock).mockImplementationOnce(() => discoveryStream);
+
+    const failedSubscription = south.discoverItems({ topic: '#', duration: 10 });
+    await flushPromises();
+    discoveryStream.emit('connect');
+    await expect(failedSubscription).rejects.toThrow(new Error('Could not subscribe to topic #: Error: not authorized'));
+    expect(discoveryStream.end).toHaveBeenCalledWith(true);
+
+    (mqtt.connect as jest.Mock).mockImplementationOnce(() => discoveryStream);
+    const failedConnection = south.discoverItems({ topic: '#', duration: 10 });
+    await flushPromises();
+    discoveryStream.emit('error', new Error('connection refused'));
+    await expect(failedConnection).rejects.toThrow(new Error('MQTT connection error Error: connection refused'));
+  });
+
+  it('should infer item settings from payloads', () => {
+    expect(south.inferItemSettings('topic', ['12', '-1.5'])).toEqual({ topic: 'topic', valueType: 'number' });
+    expect(south.inferItemSettings('topic', ['12', 'running'])).toEqual({ topic: 'topic', valueType: 'string' });
+    expect(south.inferItemSettings('topic', [''])).toEqual({ topic: 'topic', valueType: 'string' });
+    expect(south.inferItemSettings('topic', ['[1, 2]'])).toEqual({ topic: 'topic', valueType: 'string' });
+    expect(south.inferItemSettings('topic', ['{}'])).toEqual({ topic: 'topic', valueType: 'string' });
+    expect(south.inferItemSettings('topic', ['{ "value": 1 }', 'not json'])).toEqual({ topic: 'topic', valueType: 'string' });
+
+    expect(
+      south.inferItemSettings('topic', [JSON.stringify({ data: { unit: 'C', temperature: 21.5 }, ts: 1580608922222, tag: 'temperature' })])
+    ).toEqual({
+      topic: 'topic',
+      valueType: 'json',
+      jsonPayload: {
+        useArray: false,
+        dataArrayPath: null,
+        pointIdOrigin: 'payload',
+        pointIdPath: 'tag',
+        timestampOrigin: 'payload',
+        timestampPayload: { timestampPath: 'ts', timestampType: 'unix-epoch-ms' },
+        valuePath: 'data.temperature',
+        otherFields: []
+      }
+    });
+    expect(
+      south.inferItemSettings('topic', [JSON.stringify({ device: 'plc', values: [{ id: 'pressure', v: 2, time: 1580608922 }] })])
+    ).toEqual({
+      topic: 'topic',
+      valueType: 'json',
+      jsonPayload: {
+        useArray: true,
+        dataArrayPath: 'values',
+        pointIdOrigin: 'payload',
+        pointIdPath: 'id',
+        timestampOrigin: 'payload',
+        timestampPayload: { timestampPath: 'time', timestampType: 'unix-epoch' },
+        valuePath: 'v',
+        otherFields: []
+      }
+    });
+    expect(south.inferItemSettings('topic', [JSON.stringify([{ state: 'on', date: '2020-02-02 02:02:02' }])])).toEqual({
+      topic: 'topic',
+      valueType: 'json',
+      jsonPayload: {
+        useArray: true,
+        dataArrayPath: '',
+        pointIdOrigin: 'oibus',
+        pointIdPath: null,
+        timestampOrigin: 'payload',
+        timestampPayload: { timestampPath: 'date', timestampType: 'string', timezone: 'UTC', timestampFormat: 'yyyy-MM-dd HH:mm:ss' },
+        valuePath: 'state',
+        otherFields: []
+      }
+    });
+    expect(south.inferItemSettings('topic', [JSON.stringify({ list: [1, 2] })])).toEqual({ topic: 'topic', valueType: 'string' });
+  });
+
   it('should not subscribe if client is not set', async () => {
     await south.subscribe(items);
     expect(logger.error).toHaveBeenCalledWith('MQTT client could not subscribe to items: client not set');
@@ -623,6 +795,114 @@ describe('SouthMQTT with Basic Auth', () => {
     );
   });
 
+  it('should decode Sparkplug B messages', () => {
+    const birth = Buffer.from(
+      encodePayload({
+        timestamp: 1580608922222,
+        metrics: [
+          { name: 'bdSeq', type: 'Int64', value: 1 },
+          { name: 'Temperature', alias: 1, type: 'Double', value: 21.5, timestamp: 1580608920000 },
+          { name: 'Running', alias: 2, type: 'Boolean', value: true, properties: { Quality: { type: 'Int32', value: 500 } } },
+          { name: 'Label', alias: 3, type: 'String', value: null, isNull: true }
+        ]
+      })
+    );
+    expect(south.formatSparkplugValues('spBv1.0/factory/NBIRTH/plc', birth, nowDateString)).toEqual([
+      { pointId: 'factory/plc/status', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 'ONLINE' } },
+      { pointId: 'factory/plc/bdSeq', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 1, quality: 'good' } },
+      { pointId: 'factory/plc/Temperature', timestamp: '2020-02-02T02:02:00.000Z', data: { value: 21.5, quality: 'good' } },
+      { pointId: 'factory/plc/Running', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 1, quality: 'stale' } }
+    ]);
+    expect(logger.info).toHaveBeenCalledWith('Sparkplug B edge node "factory/plc" is online');
+
+    const deviceBirth = Buffer.from(
+      encodePayload({
+        metrics: [{ name: 'Pressure', alias: 1, type: 'Float', value: 2, properties: { Quality: { type: 'Int32', value: 0 } } }]
+      })
+    );
+    expect(south.formatSparkplugValues('spBv1.0/factory/DBIRTH/plc/sensor', deviceBirth, nowDateString)).toEqual([
+      { pointId: 'factory/plc/sensor/status', timestamp: nowDateString, data: { value: 'ONLINE' } },
+      { pointId: 'factory/plc/sensor/Pressure', timestamp: nowDateString, data: { value: 2, quality: 'bad' } }
+    ]);
+
+    const data = Buffer.from(
+      encodePayload({
+        timestamp: 1580608923333,
+        metrics: [
+          { alias: 1, type: 'Double', value: 22 },
+          { alias: 4, type: 'Double', value: 3 }
+        ]
+      })
+    );
+    expect(south.formatSparkplugValues('spBv1.0/factory/NDATA/plc', data, nowDateString)).toEqual([
+      { pointId: 'factory/plc/Temperature', timestamp: '2020-02-02T02:02:03.333Z', data: { value: 22, quality: 'good' } }
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Unknown alias 4 for Sparkplug B metric of "factory/plc": a birth certificate is expected first'
+    );
+    expect(south.formatSparkplugValues('spBv1.0/factory/DDATA/plc/sensor', data, nowDateString)).toEqual([
+      { pointId: 'factory/plc/sensor/Pressure', timestamp: '2020-02-02T02:02:03.333Z', data: { value: 22, quality: 'good' } }
+    ]);
+    expect(
+      south.formatSparkplugValues(
+        'spBv1.0/factory/DDATA/plc/sensor',
+        Buffer.from(encodePayload({ metrics: [{ name: 'Raw', type: 'Bytes', value: new Uint8Array([1, 2, 3]) }] })),
+        nowDateString
+      )
+    ).toEqual([{ pointId: 'factory/plc/sensor/Raw', timestamp: nowDateString, data: { value: 'AQID', quality: 'good' } }]);
+    expect(south.formatSparkplugValues('spBv1.0/factory/DCMD/plc/sensor', data, nowDateString)).toEqual([]);
+
+    const deviceDeath = Buffer.from(encodePayload({ timestamp: 1580608924444 }));
+    expect(south.formatSparkplugValues('spBv1.0/factory/DDEATH/plc/sensor', deviceDeath, nowDateString)).toEqual([
+      { pointId: 'factory/plc/sensor/status', timestamp: '2020-02-02T02:02:04.444Z', data: { value: 'OFFLINE' } }
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith('Sparkplug B device "factory/plc/sensor" is offline');
+    expect(south.formatSparkplugValues('spBv1.0/factory/DBIRTH/plc/sensor', deviceBirth, nowDateString).length).toEqual(2);
+
+    // Death certificate of a previous session of the edge node
+    const oldDeath = Buffer.from(encodePayload({ metrics: [{ name: 'bdSeq', type: 'Int64', value: 0 }] }));
+    expect(south.formatSparkplugValues('spBv1.0/factory/NDEATH/plc', oldDeath, nowDateString)).toEqual([]);
+    expect(logger.debug).toHaveBeenCalledWith('Ignoring NDEATH of edge node "factory/plc" from a previous session (bdSeq 0)');
+
+    const death = Buffer.from(encodePayload({ metrics: [{ name: 'bdSeq', type: 'Int64', value: 1 }] }));
+    expect(south.formatSparkplugValues('spBv1.0/factory/NDEATH/plc', death, nowDateString)).toEqual([
+      { pointId: 'factory/plc/status', timestamp: nowDateString, data: { value: 'OFFLINE' } },
+      { pointId: 'factory/plc/sensor/status', timestamp: nowDateString, data: { value: 'OFFLINE' } }
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith('Sparkplug B edge node "factory/plc" is offline');
+    // Aliases are forgotten with the death of the edge node
+    expect(south.formatSparkplugValues('spBv1.0/factory/NDATA/plc', data, nowDateString)).toEqual([]);
+
+    expect(() => south.formatSparkplugValues('factory/NDATA/plc', data, nowDateString)).toThrow(
+      new Error('Topic "factory/NDATA/plc" is not a Sparkplug B topic')
+    );
+  });
+
+  it('should handle Sparkplug B message', async () => {
+    const item: SouthConnectorItemDTO<SouthMQTTItemSettings> = {
+      id: 'sparkplug',
+      name: 'sparkplug',
+      enabled: true,
+      connectorId: 'southId',
+      settings: { topic: 'spBv1.0/factory/#', valueType: 'sparkplug-b' },
+      scanModeId: 'subscription'
+    };
+    south.getItem = jest.fn().mockReturnValue(item);
+    south.addContent = jest.fn();
+    await south.handleMessage(
+      'spBv1.0/factory/NDATA/plc',
+      Buffer.from(encodePayload({ metrics: [{ name: 'Temperature', type: 'Double', value: 21.5 }] }))
+    );
+    expect(south.addContent).toHaveBeenCalledWith({
+      type: 'time-values',
+      content: [{ pointId: 'factory/plc/Temperature', timestamp: nowDateString, data: { value: 21.5, quality: 'good' } }]
+    });
+    expect(south.inferItemSettings('spBv1.0/factory/NDATA/plc', ['binary'])).toEqual({
+      topic: 'spBv1.0/factory/NDATA/plc',
+      valueType: 'sparkplug-b'
+    });
+  });
+
   it('should test item', async () => {
     south.subscribe = jest.fn();
     south.unsubscribe = jest.fn();
@@ -2,37 +2,63 @@ import mqtt from 'mqtt';
 import { QoS } from 'mqtt-packet';
 
 import objectPath from 'object-path';
+import { decodePayload, UMetric } from 'sparkplug-payload/lib/sparkplugbpayload';
 import SouthConnector from '../south-connector';
 import manifest from './manifest';
 import EncryptionService from '../../service/encryption.service';
 import RepositoryService from '../../service/repository.service';
 
 import pino from 'pino';
-import { SouthConnectorDTO, SouthConnectorItemDTO } from '../../../../shared/model/south-connector.model';
+import {
+  SouthConnectorDTO,
+  SouthConnectorItemDiscoveryCommandDTO,
+  SouthConnectorItemDTO
+} from '../../../../shared/model/south-connector.model';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { DateTime } from 'luxon';
 import { Instant } from '../../../../shared/model/types';
-import { QueriesSubscription } from '../south-interface';
+import { DiscoversItems, QueriesSubscription } from '../south-interface';
 import {
   SouthMQTTItemSettings,
+  SouthMQTTItemSettingsJsonPayload,
   SouthMQTTItemSettingsJsonPayloadTimestampPayload,
   SouthMQTTSettings
 } from '../../../../shared/model/south-settings.model';
 import { convertDateTimeToInstant } from '../../service/utils';
 import { OIBusContent, OIBusTimeValue } from '../../../../shared/model/engine.model';
 
+// Number of payloads kept for each topic to infer the settings of the discovered items
+export const MAX_SAMPLES_PER_TOPIC = 5;
+// Topics received after this limit during a discovery are ignored
+export const MAX_DISCOVERED_TOPICS = 5000;
+
+const VALUE_FIELD_NAMES = /^(value|val|v)$/i;
+const TIMESTAMP_FIELD_NAMES = /^(timestamp|time|ts|date|datetime)$/i;
+const POINT_ID_FIELD_NAMES = /^(pointid|point_id|id|name|tag|tagname|reference)$/i;
+
+export const SPARKPLUG_B_NAMESPACE = 'spBv1.0';
+// Values of the Quality property of Sparkplug B metrics
+const SPARKPLUG_B_QUALITIES: Record<number, string> = { 0: 'bad', 192: 'good', 500: 'stale' };
+
 /**
  * Class SouthMQTT - Subscribe to data topic from a MQTT broker
  */
-export default class SouthMQTT extends SouthConnector<SouthMQTTSettings, SouthMQTTItemSettings> implements QueriesSubscription {
+export default class SouthMQTT
+  extends SouthConnector<SouthMQTTSettings, SouthMQTTItemSettings>
+  implements QueriesSubscription, DiscoversItems
+{
   static type = manifest.id;
 
   private client: mqtt.MqttClient | null = null;
+  // Metric names by alias, for each Sparkplug B edge node and device (group/node[/device]), learnt from birth certificates
+  private sparkplugAliases = new Map<string, Map<string, string>>();
+  // Birth/death sequence number of the last NBIRTH of each Sparkplug B edge node (group/node)
+  private sparkplugBdSeqs = new Map<string, string>();
 
   constructor(
     connector: SouthConnectorDTO<SouthMQTTSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -92,13 +118,174 @@ export default class SouthMQTT extends SouthConnector<SouthMQTTSettings, SouthMQ
         await this.disconnect();
         callback({
           type: 'time-values',
-          content: this.createContent(item, message, messageTimestamp)
+          content: this.createContent(item, topic, message, messageTimestamp)
         });
         resolve();
       });
     });
   }
 
+  /**
+   * Subscribe to the topic (usually a wildcard) of the command with a dedicated client during the given duration and
+   * propose an item for each topic received that no item already subscribes to
+   */
+  async discoverItems(command: SouthConnectorItemDiscoveryCommandDTO): Promise<Array<SouthConnectorItemDTO<SouthMQTTItemSettings>>> {
+    const options = await this.createConnectionOptions();
+    // A dedicated client ID and a clean session prevent the discovery from disturbing the connector session
+    options.clientId = `${this.connector.id}-discovery`;
+    options.clean = true;
+    const samples = await this.sampleTopics(command, options);
+
+    const existingItems = this.repositoryService.southItemRepository.listSouthItems(this.connector.id, {});
+    const discoveredItems: Array<SouthConnectorItemDTO<SouthMQTTItemSettings>> = [];
+    for (const [topic, payloads] of samples) {
+      if (existingItems.some(item => this.wildcardTopic(topic, item.settings.topic))) {
+        continue;
+      }
+      discoveredItems.push({
+        id: '',
+        name: topic,
+        enabled: true,
+        connectorId: this.connector.id,
+        scanModeId: 'subscription',
+        settings: this.inferItemSettings(topic, payloads)
+      });
+    }
+    this.logger.info(
+      `${samples.size} topics discovered on "${command.topic}" in ${command.duration}s, ${discoveredItems.length} of them not covered by an item`
+    );
+    return discoveredItems.sort((item1, item2) => item1.name.localeCompare(item2.name));
+  }
+
+  private sampleTopics(command: SouthConnectorItemDiscoveryCommandDTO, options: mqtt.IClientOptions): Promise<Map<string, Array<string>>> {
+    const samples = new Map<string, Array<string>>();
+    return new Promise((resolve, reject) => {
+      const client = mqtt.connect(this.connector.settings.url, options);
+      const timeout = setTimeout(() => {
+        client.end(true);
+        resolve(samples);
+      }, command.duration * 1000);
+      client.on('connect', () => {
+        client.subscribe(command.topic, { qos: 0 }, subscriptionError => {
+          if (subscriptionError) {
+            clearTimeout(timeout);
+            client.end(true);
+            reject(new Error(`Could not subscribe to topic ${command.topic}: ${subscriptionError}`));
+          }
+        });
+      });
+      client.on('error', error => {
+        clearTimeout(timeout);
+        client.end(true);
+        reject(new Error(`MQTT connection error ${error}`));
+      });
+      client.on('message', (topic, message) => {
+        const payloads = samples.get(topic);
+        if (!payloads) {
+          if (samples.size < MAX_DISCOVERED_TOPICS) {
+            samples.set(topic, [message.toString()]);
+          }
+        } else if (payloads.length < MAX_SAMPLES_PER_TOPIC) {
+          payloads.push(message.toString());
+        }
+      });
+    });
+  }
+
+  /**
+   * Infer the value type of a topic from its sampled payloads: number when all payloads are numbers, json when all
+   * payloads are JSON objects (or arrays of objects), string otherwise
+   */
+  inferItemSettings(topic: string, payloads: Array<string>): SouthMQTTItemSettings {
+    if (topic.startsWith(`${SPARKPLUG_B_NAMESPACE}/`)) {
+      return { topic, valueType: 'sparkplug-b' };
+    }
+    if (payloads.every(payload => payload.trim() !== '' && !isNaN(Number(payload)))) {
+      return { topic, valueType: 'number' };
+    }
+    const parsedPayloads = payloads.map(payload => {
+      try {
+        return JSON.parse(payload);
+      } catch {
+        return null;
+      }
+    });
+    if (parsedPayloads.every(payload => this.isJsonObject(payload) || this.isJsonObjectArray(payload))) {
+      const jsonPayload = this.inferJsonPayload(parsedPayloads[0]);
+      if (jsonPayload) {
+        return { topic, valueType: 'json', jsonPayload };
+      }
+    }
+    return { topic, valueType: 'string' };
+  }
+
+  /**
+   * Look for the value, timestamp and point ID fields of a JSON payload from their names and types. When the values
+   * are in an array of objects, the fields are looked for in the first element
+   */
+  inferJsonPayload(data: any): SouthMQTTItemSettingsJsonPayload | null {
+    let fields = this.isJsonObjectArray(data) ? [{ path: '', value: data }] : this.flattenJsonPayload(data, '');
+    const arrayField = fields.find(field => this.isJsonObjectArray(field.value));
+    if (arrayField) {
+      fields = this.flattenJsonPayload(arrayField.value[0], '');
+    }
+
+    const fieldName = (path: string) => path.split('.').pop()!;
+    const valueField =
+      fields.find(field => VALUE_FIELD_NAMES.test(fieldName(field.path))) ||
+      fields.find(field => typeof field.value === 'number') ||
+      fields.find(field => !Array.isArray(field.value));
+    if (!valueField) {
+      return null;
+    }
+    const timestampField = fields.find(
+      field =>
+        field !== valueField &&
+        TIMESTAMP_FIELD_NAMES.test(fieldName(field.path)) &&
+        (typeof field.value === 'number' || typeof field.value === 'string')
+    );
+    const pointIdField = fields.find(
+      field => field !== valueField && POINT_ID_FIELD_NAMES.test(fieldName(field.path)) && typeof field.value === 'string'
+    );
+
+    return {
+      useArray: !!arrayField,
+      dataArrayPath: arrayField ? arrayField.path : null,
+      pointIdOrigin: pointIdField ? 'payload' : 'oibus',
+      pointIdPath: pointIdField ? pointIdField.path : null,
+      timestampOrigin: timestampField ? 'payload' : 'oibus',
+      timestampPayload: timestampField ? this.inferTimestampPayload(timestampField.path, timestampField.value) : null,
+      valuePath: valueField.path,
+      otherFields: []
+    };
+  }
+
+  private inferTimestampPayload(timestampPath: string, timestamp: number | string): SouthMQTTItemSettingsJsonPayloadTimestampPayload {
+    if (typeof timestamp === 'number') {
+      // Timestamps in seconds are lower than 1e11 until year 5138
+      return { timestampPath, timestampType: timestamp < 1e11 ? 'unix-epoch' : 'unix-epoch-ms' };
+    }
+    if (DateTime.fromISO(timestamp).isValid) {
+      return { timestampPath, timestampType: 'iso-string' };
+    }
+    return { timestampPath, timestampType: 'string', timezone: 'UTC', timestampFormat: 'yyyy-MM-dd HH:mm:ss' };
+  }
+
+  private flattenJsonPayload(data: object, prefix: string): Array<{ path: string; value: any }> {
+    return Object.entries(data).flatMap(([key, value]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      return this.isJsonObject(value) ? this.flattenJsonPayload(value, path) : [{ path, value }];
+    });
+  }
+
+  private isJsonObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private isJsonObjectArray(value: any): value is Array<object> {
+    return Array.isArray(value) && value.length > 0 && value.every(element => this.isJsonObject(element));
+  }
+
   async testConnectionToBroker(options: mqtt.IClientOptions): Promise<void> {
     return new Promise((resolve, reject) => {
       const client = mqtt.connect(this.connector.settings.url, options);
@@ -172,7 +359,7 @@ export default class SouthMQTT extends SouthConnector<SouthMQTTSettings, SouthMQ
     try {
       const associatedItem = this.getItem(topic);
 
-      const content = this.createContent(associatedItem, message, messageTimestamp);
+      const content = this.createContent(associatedItem, topic, message, messageTimestamp);
       await this.addContent({
         type: 'time-values',
         content
@@ -184,6 +371,7 @@ export default class SouthMQTT extends SouthConnector<SouthMQTTSettings, SouthMQ
 
   private createContent(
     associatedItem: SouthConnectorItemDTO<SouthMQTTItemSettings>,
+    topic: string,
     message: Buffer,
     messageTimestamp: Instant
   ): OIBusTimeValue[] {
@@ -212,7 +400,139 @@ export default class SouthMQTT extends SouthConnector<SouthMQTTSettings, SouthMQ
 
       case 'json':
         return this.formatValues(associatedItem, JSON.parse(message.toString()), messageTimestamp);
+
+      case 'sparkplug-b':
+        return this.formatSparkplugValues(topic, message, messageTimestamp);
+    }
+  }
+
+  /**
+   * Decode a Sparkplug B message (topic spBv1.0/group/messageType/node[/device]) into one value per metric, named
+   * group/node[/device]/metric. Birth certificates give the names of the metrics that data messages only identify by
+   * alias. Births and deaths of edge nodes and devices are added as ONLINE / OFFLINE values of their "status" point
+   */
+  formatSparkplugValues(topic: string, message: Buffer, messageTimestamp: Instant): Array<OIBusTimeValue> {
+    const [namespace, groupId, messageType, edgeNodeId, deviceId] = topic.split('/');
+    if (namespace !== SPARKPLUG_B_NAMESPACE || !groupId || !messageType || !edgeNodeId) {
+      throw new Error(`Topic "${topic}" is not a Sparkplug B topic`);
     }
+    const nodeDescriptor = `${groupId}/${edgeNodeId}`;
+    const descriptor = deviceId ? `${nodeDescriptor}/${deviceId}` : nodeDescriptor;
+    const payload = decodePayload(message);
+    const payloadTimestamp = payload.timestamp ? this.toInstant(payload.timestamp) : messageTimestamp;
+    const metrics = payload.metrics || [];
+
+    switch (messageType) {
+      case 'NBIRTH':
+      case 'DBIRTH':
+        if (messageType === 'NBIRTH') {
+          // Devices must be born again after the birth of their edge node
+          this.forgetSparkplugDescriptors(nodeDescriptor);
+          const bdSeq = metrics.find(metric => metric.name === 'bdSeq');
+          this.sparkplugBdSeqs.set(nodeDescriptor, bdSeq ? `${bdSeq.value}` : '');
+        }
+        this.sparkplugAliases.set(
+          descriptor,
+          new Map(metrics.filter(metric => metric.alias != null && metric.name).map(metric => [`${metric.alias}`, metric.name!]))
+        );
+        this.logger.info(`Sparkplug B ${deviceId ? 'device' : 'edge node'} "${descriptor}" is online`);
+        return [
+          this.createSparkplugStatus(descriptor, 'ONLINE', payloadTimestamp),
+          ...this.createSparkplugValues(descriptor, metrics, payloadTimestamp)
+        ];
+
+      case 'NDATA':
+      case 'DDATA':
+        return this.createSparkplugValues(descriptor, metrics, payloadTimestamp);
+
+      case 'NDEATH': {
+        // The death certificate is the MQTT will of the edge node: it is only valid for the session of the last NBIRTH
+        const bdSeq = metrics.find(metric => metric.name === 'bdSeq');
+        const lastBdSeq = this.sparkplugBdSeqs.get(nodeDescriptor);
+        if (bdSeq && lastBdSeq && `${bdSeq.value}` !== lastBdSeq) {
+          this.logger.debug(`Ignoring NDEATH of edge node "${nodeDescriptor}" from a previous session (bdSeq ${bdSeq.value})`);
+          return [];
+        }
+        const deadDescriptors = this.forgetSparkplugDescriptors(nodeDescriptor);
+        this.sparkplugBdSeqs.delete(nodeDescriptor);
+        this.logger.warn(`Sparkplug B edge node "${nodeDescriptor}" is offline`);
+        return [nodeDescriptor, ...deadDescriptors.filter(dead => dead !== nodeDescriptor)].map(dead =>
+          this.createSparkplugStatus(dead, 'OFFLINE', payloadTimestamp)
+        );
+      }
+
+      case 'DDEATH':
+        this.sparkplugAliases.delete(descriptor);
+        this.logger.warn(`Sparkplug B device "${descriptor}" is offline`);
+        return [this.createSparkplugStatus(descriptor, 'OFFLINE', payloadTimestamp)];
+
+      default:
+        // Commands (NCMD, DCMD) and host application states do not carry values
+        return [];
+    }
+  }
+
+  private createSparkplugValues(descriptor: string, metrics: Array<UMetric>, payloadTimestamp: Instant): Array<OIBusTimeValue> {
+    const aliases = this.sparkplugAliases.get(descriptor);
+    const values: Array<OIBusTimeValue> = [];
+    for (const metric of metrics) {
+      const name = metric.name || (metric.alias != null ? aliases?.get(`${metric.alias}`) : undefined);
+      if (!name) {
+        this.logger.warn(`Unknown alias ${metric.alias} for Sparkplug B metric of "${descriptor}": a birth certificate is expected first`);
+        continue;
+      }
+      if (metric.isNull || metric.value === null || metric.value === undefined) {
+        continue;
+      }
+      const quality = metric.properties?.['Quality']?.value;
+      values.push({
+        pointId: `${descriptor}/${name}`,
+        timestamp: metric.timestamp ? this.toInstant(metric.timestamp) : payloadTimestamp,
+        data: {
+          value: this.toSparkplugValue(metric.value),
+          quality: quality != null ? SPARKPLUG_B_QUALITIES[Number(quality)] || `${quality}` : 'good'
+        }
+      });
+    }
+    return values;
+  }
+
+  private createSparkplugStatus(descriptor: string, status: 'ONLINE' | 'OFFLINE', timestamp: Instant): OIBusTimeValue {
+    return { pointId: `${descriptor}/status`, timestamp, data: { value: status } };
+  }
+
+  /**
+   * Forget the aliases of an edge node and of its devices, and return their descriptors
+   */
+  private forgetSparkplugDescriptors(nodeDescriptor: string): Array<string> {
+    const descriptors = Array.from(this.sparkplugAliases.keys()).filter(
+      descriptor => descriptor === nodeDescriptor || descriptor.startsWith(`${nodeDescriptor}/`)
+    );
+    descriptors.forEach(descriptor => this.sparkplugAliases.delete(descriptor));
+    return descriptors;
+  }
+
+  private toSparkplugValue(value: NonNullable<UMetric['value']>): string | number {
+    if (typeof value === 'number' || typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    if (value instanceof Uint8Array) {
+      return Buffer.from(value).toString('base64');
+    }
+    if ('toNumber' in value) {
+      return value.toNumber();
+    }
+    // Data sets and templates
+    return JSON.stringify(value);
+  }
+
+  private toInstant(timestamp: number | { toNumber(): number }): Instant {
+    return DateTime.fromMillis(typeof timestamp === 'number' ? timestamp : timestamp.toNumber())
+      .toUTC()
+      .toISO()!;
   }
 
   formatValues(item: SouthConnectorItemDTO<SouthMQTTItemSettings>, data: any, messageTimestamp: Instant): Array<OIBusTimeValue> {
@@ -125,7 +125,7 @@ const manifest: SouthConnectorManifest = {
         'unix-epoch',
         'unix-epoch-ms'
       ]),
-      buildSerializationFormControl(['csv'])
+      buildSerializationFormControl(['csv', 'parquet', 'avro', 'json'])
     ]
   }
 };
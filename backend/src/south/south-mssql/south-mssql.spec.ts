@@ -27,6 +27,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -234,6 +235,33 @@ describe('SouthMSSQL with authentication', () => {
     expect(logger.debug).toHaveBeenCalledWith(`No result found for item ${items[2].name}. Request done in 0 ms`);
   });
 
+  it('should keep date time fields as timestamps for Parquet serialization', async () => {
+    const startTime = '2020-01-01T00:00:00.000Z';
+    const item: SouthConnectorItemDTO<SouthMSSQLItemSettings> = {
+      ...items[0],
+      settings: {
+        ...items[0].settings,
+        serialization: { ...items[0].settings.serialization, type: 'parquet', filename: 'sql-@CurrentDate.parquet', parquetCodec: 'snappy' }
+      }
+    };
+    south.queryData = jest
+      .fn()
+      .mockReturnValueOnce([{ timestamp: '2020-02-01T00:00:00.000Z', anotherTimestamp: '2023-02-01T00:00:00.000Z', value: 123 }]);
+    (utils.convertDateTimeToInstant as jest.Mock).mockImplementation(instant => instant);
+
+    await south.historyQuery([item], startTime, nowDateString);
+    expect(utils.formatInstant).not.toHaveBeenCalledWith('2020-02-01T00:00:00.000Z', expect.anything());
+    expect(utils.persistResults).toHaveBeenCalledWith(
+      [{ timestamp: new Date('2020-02-01T00:00:00.000Z'), anotherTimestamp: new Date('2023-02-01T00:00:00.000Z'), value: 123 }],
+      item.settings.serialization,
+      configuration.name,
+      item.name,
+      path.resolve('baseFolder', 'tmp'),
+      expect.any(Function),
+      logger
+    );
+  });
+
   it('should get data from MSSQL', async () => {
     const startTime = '2020-01-01T00:00:00.000Z';
     const endTime = '2022-01-01T00:00:00.000Z';
@@ -302,6 +330,47 @@ describe('SouthMSSQL with authentication', () => {
     expect(south.queryData).toHaveBeenCalled();
   });
 
+  it('should test item with results mapped to values', async () => {
+    const item: SouthConnectorItemDTO<SouthMSSQLItemSettings> = {
+      ...items[0],
+      settings: {
+        ...items[0].settings,
+        serialization: {
+          ...items[0].settings.serialization,
+          type: 'json',
+          pointIdColumn: 'name',
+          timestampColumn: 'timestamp',
+          valueColumn: 'value',
+          otherColumns: []
+        }
+      }
+    };
+    const values = [{ pointId: 'pressure', timestamp: '2020-02-01T00:00:00.000Z', data: { value: 123 } }];
+    south.queryData = jest
+      .fn()
+      .mockReturnValueOnce([
+        { name: 'pressure', timestamp: '2020-02-01T00:00:00.000Z', anotherTimestamp: '2023-02-01T00:00:00.000Z', value: 123 }
+      ]);
+    (utils.convertDateTimeToInstant as jest.Mock).mockImplementation(instant => instant);
+    (utils.convertResultsToTimeValues as jest.Mock).mockReturnValue(values);
+
+    const callback = jest.fn();
+    await south.testItem(item, callback);
+    expect(utils.convertResultsToTimeValues).toHaveBeenCalledWith(
+      [
+        {
+          name: 'pressure',
+          timestamp: new Date('2020-02-01T00:00:00.000Z'),
+          anotherTimestamp: new Date('2023-02-01T00:00:00.000Z'),
+          value: 123
+        }
+      ],
+      item.settings.serialization,
+      logger
+    );
+    expect(callback).toHaveBeenCalledWith({ type: 'time-values', content: values });
+  });
+
   it('should test item without datetimeFields', async () => {
     const startTime = '2020-01-01T00:00:00.000Z';
     south.queryData = jest.fn().mockReturnValueOnce([
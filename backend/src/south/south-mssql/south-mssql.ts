@@ -5,6 +5,7 @@ import SouthConnector from '../south-connector';
 import manifest from './manifest';
 import {
   convertDateTimeToInstant,
+  convertResultsToTimeValues,
   createFolder,
   formatInstant,
   logQuery,
@@ -32,7 +33,7 @@ export default class SouthMSSQL extends SouthConnector<SouthMSSQLSettings, South
 
   constructor(
     connector: SouthConnectorDTO<SouthMSSQLSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -130,12 +131,15 @@ export default class SouthMSSQL extends SouthConnector<SouthMSSQLSettings, South
           formattedEntry[key] = value;
         } else {
           const entryDate = convertDateTimeToInstant(value, datetimeField);
-          formattedEntry[key] = formatInstant(entryDate, {
-            type: 'string',
-            format: item.settings.serialization.outputTimestampFormat,
-            timezone: item.settings.serialization.outputTimezone,
-            locale: 'en-En'
-          });
+          formattedEntry[key] =
+            item.settings.serialization.type === 'csv'
+              ? formatInstant(entryDate, {
+                  type: 'string',
+                  format: item.settings.serialization.outputTimestampFormat,
+                  timezone: item.settings.serialization.outputTimezone,
+                  locale: 'en-En'
+                })
+              : new Date(entryDate);
         }
       });
       return formattedEntry;
@@ -143,7 +147,10 @@ export default class SouthMSSQL extends SouthConnector<SouthMSSQLSettings, South
 
     let oibusContent: OIBusContent;
     switch (item.settings.serialization.type) {
-      case 'csv': {
+      // Parquet and Avro files are binary: the results are previewed as CSV
+      case 'csv':
+      case 'parquet':
+      case 'avro': {
         const filePath = generateFilenameForSerialization(
           this.tmpFolder,
           item.settings.serialization.filename,
@@ -154,6 +161,12 @@ export default class SouthMSSQL extends SouthConnector<SouthMSSQLSettings, South
         oibusContent = { type: 'raw', filePath, content };
         break;
       }
+      case 'json':
+        oibusContent = {
+          type: 'time-values',
+          content: convertResultsToTimeValues(formattedResults, item.settings.serialization, this.logger)
+        };
+        break;
     }
     callback(oibusContent);
   }
@@ -186,12 +199,16 @@ export default class SouthMSSQL extends SouthConnector<SouthMSSQLSettings, South
                   updatedStartTime = entryDate;
                 }
               }
-              formattedEntry[key] = formatInstant(entryDate, {
-                type: 'string',
-                format: item.settings.serialization.outputTimestampFormat,
-                timezone: item.settings.serialization.outputTimezone,
-                locale: 'en-En'
-              });
+              // Only CSV files format date time fields: the other serializations keep them as dates
+              formattedEntry[key] =
+                item.settings.serialization.type === 'csv'
+                  ? formatInstant(entryDate, {
+                      type: 'string',
+                      format: item.settings.serialization.outputTimestampFormat,
+                      timezone: item.settings.serialization.outputTimezone,
+                      locale: 'en-En'
+                    })
+                  : new Date(entryDate);
             }
           });
           return formattedEntry;
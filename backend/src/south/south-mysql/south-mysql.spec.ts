@@ -28,6 +28,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -94,7 +94,7 @@ const manifest: SouthConnectorManifest = {
         displayInViewMode: true
       },
       buildDateTimeFieldsFormControl(['string', 'iso-string', 'unix-epoch', 'unix-epoch-ms']),
-      buildSerializationFormControl(['csv'])
+      buildSerializationFormControl(['csv', 'parquet', 'avro', 'json'])
     ]
   }
 };
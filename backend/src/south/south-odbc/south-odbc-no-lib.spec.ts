@@ -25,6 +25,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
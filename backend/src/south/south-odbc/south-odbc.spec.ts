@@ -48,6 +48,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -911,6 +912,17 @@ describe('SouthODBC odbc remote with authentication', () => {
     expect(logger.error).toHaveBeenCalledWith(`Error occurred when querying remote agent with status 500`);
   });
 
+  it('should not query remote agent for Parquet or Avro serialization', async () => {
+    const item: SouthConnectorItemDTO<SouthODBCItemSettings> = {
+      ...items[0],
+      settings: { ...items[0].settings, serialization: { ...items[0].settings.serialization, type: 'avro' } }
+    };
+    await expect(south.queryRemoteAgentData(item, '2020-01-01T00:00:00.000Z', '2022-01-01T00:00:00.000Z')).rejects.toThrow(
+      new Error(`Serialization "avro" of item ${item.name} is not supported with the remote agent`)
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
   it('should test item with queryRemoteAgentData', async () => {
     south.queryRemoteAgentData = jest
       .fn()
@@ -4,6 +4,7 @@ import SouthConnector from '../south-connector';
 import manifest from './manifest';
 import {
   convertDateTimeToInstant,
+  convertResultsToTimeValues,
   convertDelimiter,
   createFolder,
   formatInstant,
@@ -46,7 +47,7 @@ export default class SouthODBC extends SouthConnector<SouthODBCSettings, SouthOD
 
   constructor(
     connector: SouthConnectorDTO<SouthODBCSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -139,12 +140,15 @@ export default class SouthODBC extends SouthConnector<SouthODBCSettings, SouthOD
           formattedEntry[key] = value;
         } else {
           const entryDate = convertDateTimeToInstant(value, datetimeField);
-          formattedEntry[key] = formatInstant(entryDate, {
-            type: 'string',
-            format: item.settings.serialization.outputTimestampFormat,
-            timezone: item.settings.serialization.outputTimezone,
-            locale: 'en-En'
-          });
+          formattedEntry[key] =
+            item.settings.serialization.type === 'csv'
+              ? formatInstant(entryDate, {
+                  type: 'string',
+                  format: item.settings.serialization.outputTimestampFormat,
+                  timezone: item.settings.serialization.outputTimezone,
+                  locale: 'en-En'
+                })
+              : new Date(entryDate);
         }
       });
       return formattedEntry;
@@ -152,7 +156,10 @@ export default class SouthODBC extends SouthConnector<SouthODBCSettings, SouthOD
 
     let oibusContent: OIBusContent;
     switch (item.settings.serialization.type) {
-      case 'csv': {
+      // Parquet and Avro files are binary: the results are previewed as CSV
+      case 'csv':
+      case 'parquet':
+      case 'avro': {
         const filePath = generateFilenameForSerialization(
           this.tmpFolder,
           item.settings.serialization.filename,
@@ -163,6 +170,12 @@ export default class SouthODBC extends SouthConnector<SouthODBCSettings, SouthOD
         oibusContent = { type: 'raw', filePath, content };
         break;
       }
+      case 'json':
+        oibusContent = {
+          type: 'time-values',
+          content: convertResultsToTimeValues(formattedResults, item.settings.serialization, this.logger)
+        };
+        break;
     }
     callback(oibusContent);
   }
@@ -271,6 +284,10 @@ export default class SouthODBC extends SouthConnector<SouthODBCSettings, SouthOD
     endTime: Instant,
     test?: boolean
   ): Promise<string | Record<string, any>[]> {
+    // The remote agent serializes the results itself, in CSV
+    if (item.settings.serialization.type !== 'csv') {
+      throw new Error(`Serialization "${item.settings.serialization.type}" of item ${item.name} is not supported with the remote agent`);
+    }
     // test is here in case we are testing items
     let updatedStartTime = startTime;
     const startRequest = DateTime.now().toMillis();
@@ -394,12 +411,16 @@ export default class SouthODBC extends SouthConnector<SouthODBCSettings, SouthOD
                 updatedStartTime = entryDate;
               }
             }
-            formattedEntry[key] = formatInstant(entryDate, {
-              type: 'string',
-              format: item.settings.serialization.outputTimestampFormat,
-              timezone: item.settings.serialization.outputTimezone,
-              locale: 'en-En'
-            });
+            // Only CSV files format date time fields: the other serializations keep them as dates
+            formattedEntry[key] =
+              item.settings.serialization.type === 'csv'
+                ? formatInstant(entryDate, {
+                    type: 'string',
+                    format: item.settings.serialization.outputTimestampFormat,
+                    timezone: item.settings.serialization.outputTimezone,
+                    locale: 'en-En'
+                  })
+                : new Date(entryDate);
           }
         });
         return formattedEntry;
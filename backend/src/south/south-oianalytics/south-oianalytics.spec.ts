@@ -42,6 +42,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -46,7 +46,7 @@ export default class SouthOIAnalytics
 
   constructor(
     connector: SouthConnectorDTO<SouthOIAnalyticsSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -76,6 +76,7 @@ const manifest: SouthConnectorManifest = {
         displayInViewMode: true
       },
       buildDateTimeFieldsFormControl(['string', 'iso-string', 'unix-epoch', 'unix-epoch-ms']),
+      // The results are serialized in CSV by the remote agent: Parquet, Avro and values are not available
       buildSerializationFormControl(['csv'])
     ]
   }
@@ -36,7 +36,7 @@ export default class SouthOLEDB extends SouthConnector<SouthOLEDBSettings, South
 
   constructor(
     connector: SouthConnectorDTO<SouthOLEDBSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
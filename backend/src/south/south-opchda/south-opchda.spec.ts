@@ -19,6 +19,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -113,6 +114,7 @@ let south: SouthOPCHDA;
 describe('South OPCHDA', () => {
   beforeEach(async () => {
     jest.resetAllMocks();
+    (repositoryService.transformerRepository.getTransformers as jest.Mock).mockReturnValue([]);
     jest.useFakeTimers();
     repositoryService.southConnectorRepository.getSouthConnector = jest.fn().mockReturnValue(configuration);
 
@@ -24,7 +24,7 @@ export default class SouthOPCHDA extends SouthConnector implements QueriesHistor
 
   constructor(
     connector: SouthConnectorDTO<SouthOPCHDASettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
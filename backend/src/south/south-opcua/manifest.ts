@@ -1,4 +1,5 @@
 import { SouthConnectorManifest } from '../../../../shared/model/south-connector.model';
+import { buildDeadbandFormControl } from '../../../../shared/model/manifest-factory';
 
 const manifest: SouthConnectorManifest = {
   id: 'opcua',
@@ -11,7 +12,10 @@ const manifest: SouthConnectorManifest = {
     lastFile: false,
     history: true,
     forceMaxInstantPerItem: false,
-    sharedConnection: true
+    sharedConnection: true,
+    write: true,
+    methodCall: true,
+    browse: true
   },
   settings: [
     {
@@ -196,7 +200,8 @@ const manifest: SouthConnectorManifest = {
             displayInViewMode: true
           }
         ]
-      }
+      },
+      buildDeadbandFormControl({ field: 'mode', values: ['DA'] })
     ]
   }
 };
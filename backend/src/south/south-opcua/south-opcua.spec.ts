@@ -5,7 +5,9 @@ import nodeOPCUAClient, {
   ReadRawModifiedDetails,
   StatusCodes,
   TimestampsToReturn,
-  DataType
+  DataType,
+  Variant,
+  VariantArrayType
 } from 'node-opcua-client';
 
 import fs from 'node:fs/promises';
@@ -47,6 +49,17 @@ jest.mock('node-opcua-client', () => ({
   ClientMonitoredItem: { create: jest.fn() },
   MessageSecurityMode: { None: 1 },
   DataType: jest.requireActual('node-opcua-client').DataType,
+  Variant: jest.requireActual('node-opcua-client').Variant,
+  VariantArrayType: jest.requireActual('node-opcua-client').VariantArrayType,
+  resolveNodeId: jest.requireActual('node-opcua-client').resolveNodeId,
+  findBasicDataType: jest.fn(),
+  browseAll: jest.fn(),
+  AccessLevelFlag: jest.requireActual('node-opcua-client').AccessLevelFlag,
+  BrowseDirection: jest.requireActual('node-opcua-client').BrowseDirection,
+  DataTypeIds: jest.requireActual('node-opcua-client').DataTypeIds,
+  NodeClass: jest.requireActual('node-opcua-client').NodeClass,
+  ObjectIds: jest.requireActual('node-opcua-client').ObjectIds,
+  ReferenceTypeIds: jest.requireActual('node-opcua-client').ReferenceTypeIds,
   StatusCodes: jest.requireActual('node-opcua-client').StatusCodes,
   SecurityPolicy: jest.requireActual('node-opcua-client').SecurityPolicy,
   AttributeIds: jest.requireActual('node-opcua-client').AttributeIds,
@@ -66,6 +79,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -929,6 +943,203 @@ describe('SouthOPCUA', () => {
     await south.getHAValues([items[0]], nowDateString, nowDateString, session, true);
     expect(performMessageTransaction).toHaveBeenCalled();
   });
+
+  it('should write scalar and array values converted to the data type of the node', async () => {
+    const getBuiltInDataType = jest.fn().mockReturnValueOnce(DataType.Double).mockReturnValueOnce(DataType.Int16);
+    const write = jest.fn().mockReturnValue(StatusCodes.Good);
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({ getBuiltInDataType, write });
+    await south.start();
+
+    await south.writeItem(items[0], '12.5');
+    expect(getBuiltInDataType).toHaveBeenCalledWith(nodeOPCUAClient.resolveNodeId(items[0].settings.nodeId));
+    expect(write).toHaveBeenCalledWith({
+      nodeId: items[0].settings.nodeId,
+      attributeId: nodeOPCUAClient.AttributeIds.Value,
+      value: { value: new Variant({ dataType: DataType.Double, value: 12.5 }) }
+    });
+
+    await south.writeItem(items[0], [1, '2', 3]);
+    expect(write).toHaveBeenCalledWith({
+      nodeId: items[0].settings.nodeId,
+      attributeId: nodeOPCUAClient.AttributeIds.Value,
+      value: { value: new Variant({ dataType: DataType.Int16, arrayType: VariantArrayType.Array, value: [1, 2, 3] }) }
+    });
+  });
+
+  it('should throw an error when the write is rejected', async () => {
+    const getBuiltInDataType = jest.fn().mockReturnValue(DataType.Int16);
+    const write = jest.fn().mockReturnValue(StatusCodes.BadNotWritable);
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({ getBuiltInDataType, write });
+    await south.start();
+
+    await expect(south.writeItem(items[0], 12)).rejects.toThrow(
+      new Error(`Could not write node ${items[0].settings.nodeId}: BadNotWritable`)
+    );
+    await expect(south.writeItem(items[0], 70000)).rejects.toThrow(new Error('Value 70000 is not a valid Int16 value'));
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call method with input arguments converted to the declared data types', async () => {
+    const getArgumentDefinition = jest.fn().mockReturnValue({
+      inputArguments: [{ dataType: 'i=11' }, { dataType: 'i=12' }],
+      outputArguments: []
+    });
+    const call = jest.fn().mockReturnValueOnce({
+      statusCode: StatusCodes.Good,
+      outputArguments: [new Variant({ dataType: DataType.String, value: 'ok' }), { value: Float32Array.of(1, 2) }]
+    });
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({ getArgumentDefinition, call });
+    (nodeOPCUAClient.findBasicDataType as jest.Mock).mockReturnValueOnce(DataType.Double).mockReturnValueOnce(DataType.String);
+    await south.start();
+
+    expect(await south.callMethod('ns=3;s=Machine', 'ns=3;s=Machine.Start', ['10', 5])).toEqual(['ok', [1, 2]]);
+    expect(getArgumentDefinition).toHaveBeenCalledWith(nodeOPCUAClient.resolveNodeId('ns=3;s=Machine.Start'));
+    expect(nodeOPCUAClient.findBasicDataType).toHaveBeenCalledWith(expect.anything(), 'i=11');
+    expect(call).toHaveBeenCalledWith({
+      objectId: 'ns=3;s=Machine',
+      methodId: 'ns=3;s=Machine.Start',
+      inputArguments: [new Variant({ dataType: DataType.Double, value: 10 }), new Variant({ dataType: DataType.String, value: '5' })]
+    });
+  });
+
+  it('should throw an error when the method call fails', async () => {
+    const getArgumentDefinition = jest.fn().mockReturnValue({ inputArguments: [], outputArguments: [] });
+    const call = jest.fn().mockReturnValueOnce({ statusCode: StatusCodes.BadMethodInvalid });
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({ getArgumentDefinition, call });
+    await south.start();
+
+    await expect(south.callMethod('objectId', 'ns=3;s=Method', [1])).rejects.toThrow(
+      new Error('Method ns=3;s=Method expects 0 input arguments, 1 given')
+    );
+    await expect(south.callMethod('objectId', 'ns=3;s=Method', [])).rejects.toThrow(
+      new Error('Could not call method ns=3;s=Method of object objectId: BadMethodInvalid')
+    );
+  });
+
+  it('should coerce values to OPC UA data types', () => {
+    expect(south.coerceValue('true', DataType.Boolean)).toEqual(true);
+    expect(south.coerceValue(0, DataType.Boolean)).toEqual(false);
+    expect(south.coerceValue(false, DataType.Boolean)).toEqual(false);
+    expect(south.coerceValue('255', DataType.Byte)).toEqual(255);
+    expect(south.coerceValue(-12, DataType.Int64)).toEqual(-12);
+    expect(south.coerceValue('1.5', DataType.Float)).toEqual(1.5);
+    expect(south.coerceValue(12, DataType.String)).toEqual('12');
+    expect(south.coerceValue(nowDateString, DataType.DateTime)).toEqual(new Date(nowDateString));
+    expect(south.coerceValue(new Date(nowDateString).getTime(), DataType.DateTime)).toEqual(new Date(nowDateString));
+
+    expect(() => south.coerceValue('on', DataType.Boolean)).toThrow(new Error('Value "on" is not a valid Boolean value'));
+    expect(() => south.coerceValue(256, DataType.Byte)).toThrow(new Error('Value 256 is not a valid Byte value'));
+    expect(() => south.coerceValue(1.5, DataType.Int32)).toThrow(new Error('Value 1.5 is not a valid Int32 value'));
+    expect(() => south.coerceValue(true, DataType.Double)).toThrow(new Error('Value true is not a valid Double value'));
+    expect(() => south.coerceValue('', DataType.Double)).toThrow(new Error('Value "" is not a valid Double value'));
+    expect(() => south.coerceValue('date', DataType.DateTime)).toThrow(new Error('Value "date" is not a valid DateTime value'));
+    expect(() => south.coerceValue('ns=1;i=1', DataType.NodeId)).toThrow(new Error('OPC UA type NodeId is not supported for write'));
+  });
+
+  it('should browse the address space', async () => {
+    const read = jest
+      .fn()
+      .mockReturnValue([
+        { value: { value: nodeOPCUAClient.resolveNodeId('i=11') } },
+        { value: { value: 5 } },
+        { value: { value: true } },
+        { value: { value: nodeOPCUAClient.resolveNodeId('ns=2;i=3002') } },
+        { value: { value: 1 } },
+        { value: { value: false } }
+      ]);
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({ read });
+    (nodeOPCUAClient.browseAll as jest.Mock).mockReturnValueOnce({
+      statusCode: StatusCodes.Good,
+      references: [
+        {
+          nodeId: nodeOPCUAClient.resolveNodeId('ns=3;s=Machine'),
+          browseName: { name: 'Machine' },
+          displayName: { text: 'My machine' },
+          nodeClass: nodeOPCUAClient.NodeClass.Object
+        },
+        {
+          nodeId: nodeOPCUAClient.resolveNodeId('ns=3;s=Temperature'),
+          browseName: { name: 'Temperature' },
+          displayName: { text: 'Temperature' },
+          nodeClass: nodeOPCUAClient.NodeClass.Variable
+        },
+        {
+          nodeId: nodeOPCUAClient.resolveNodeId('ns=3;s=Status'),
+          browseName: { name: 'Status' },
+          displayName: { text: null },
+          nodeClass: nodeOPCUAClient.NodeClass.Variable
+        }
+      ]
+    });
+    await south.start();
+
+    expect(await south.browse(null)).toEqual([
+      {
+        nodeId: 'ns=3;s=Machine',
+        browseName: 'Machine',
+        displayName: 'My machine',
+        nodeClass: 'Object',
+        dataType: null,
+        accessLevel: [],
+        historizing: false
+      },
+      {
+        nodeId: 'ns=3;s=Temperature',
+        browseName: 'Temperature',
+        displayName: 'Temperature',
+        nodeClass: 'Variable',
+        dataType: 'Double',
+        accessLevel: ['CurrentRead', 'HistoryRead'],
+        historizing: true
+      },
+      {
+        nodeId: 'ns=3;s=Status',
+        browseName: 'Status',
+        displayName: 'Status',
+        nodeClass: 'Variable',
+        dataType: 'ns=2;i=3002',
+        accessLevel: ['CurrentRead'],
+        historizing: false
+      }
+    ]);
+    expect(nodeOPCUAClient.browseAll).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        nodeId: nodeOPCUAClient.resolveNodeId(nodeOPCUAClient.ObjectIds.ObjectsFolder),
+        browseDirection: nodeOPCUAClient.BrowseDirection.Forward
+      })
+    );
+    expect(read).toHaveBeenCalledWith([
+      { nodeId: 'ns=3;s=Temperature', attributeId: nodeOPCUAClient.AttributeIds.DataType },
+      { nodeId: 'ns=3;s=Temperature', attributeId: nodeOPCUAClient.AttributeIds.AccessLevel },
+      { nodeId: 'ns=3;s=Temperature', attributeId: nodeOPCUAClient.AttributeIds.Historizing },
+      { nodeId: 'ns=3;s=Status', attributeId: nodeOPCUAClient.AttributeIds.DataType },
+      { nodeId: 'ns=3;s=Status', attributeId: nodeOPCUAClient.AttributeIds.AccessLevel },
+      { nodeId: 'ns=3;s=Status', attributeId: nodeOPCUAClient.AttributeIds.Historizing }
+    ]);
+  });
+
+  it('should browse a node without variables', async () => {
+    const read = jest.fn();
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({ read });
+    (nodeOPCUAClient.browseAll as jest.Mock).mockReturnValueOnce({ statusCode: StatusCodes.Good, references: null });
+    await south.start();
+
+    expect(await south.browse('ns=3;s=Empty')).toEqual([]);
+    expect(nodeOPCUAClient.browseAll).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ nodeId: 'ns=3;s=Empty' }));
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it('should throw an error when the browse fails', async () => {
+    (nodeOPCUAClient.OPCUAClient.createSession as jest.Mock).mockReturnValue({});
+    (nodeOPCUAClient.browseAll as jest.Mock)
+      .mockReturnValueOnce({ statusCode: StatusCodes.BadNodeIdUnknown })
+      .mockReturnValueOnce({ statusCode: StatusCodes.BadNodeIdUnknown });
+    await south.start();
+
+    await expect(south.browse('ns=3;s=Unknown')).rejects.toThrow(new Error('Could not browse node ns=3;s=Unknown: BadNodeIdUnknown'));
+    await expect(south.browse(null)).rejects.toThrow(new Error('Could not browse node Objects: BadNodeIdUnknown'));
+  });
 });
 
 describe('SouthOPCUA with basic auth', () => {
@@ -1,22 +1,38 @@
 import {
+  AccessLevelFlag,
   AggregateFunction,
   AttributeIds,
+  browseAll,
+  BrowseDirection,
   ClientMonitoredItem,
   ClientSubscription,
   DataType,
+  DataTypeIds,
   DataValue,
+  findBasicDataType,
   HistoryReadRequest,
   MessageSecurityMode,
+  NodeClass,
+  NodeId,
+  ObjectIds,
   OPCUAClient,
   ReadProcessedDetails,
   ReadRawModifiedDetails,
+  ReferenceTypeIds,
+  resolveNodeId,
   StatusCodes,
   TimestampsToReturn,
   UserTokenType,
-  Variant
+  Variant,
+  VariantArrayType
 } from 'node-opcua-client';
 
-import { SouthConnectorDTO, SouthConnectorItemDTO } from '../../../../shared/model/south-connector.model';
+import {
+  SouthConnectorBrowseNodeDTO,
+  SouthConnectorDTO,
+  SouthConnectorItemDTO,
+  SouthItemWriteValue
+} from '../../../../shared/model/south-connector.model';
 import { Aggregate, Instant, Resampling } from '../../../../shared/model/types';
 
 import manifest from './manifest';
@@ -30,7 +46,15 @@ import { OPCUAClientOptions } from 'node-opcua-client/source/opcua_client';
 import { DateTime } from 'luxon';
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { DelegatesConnection, QueriesHistory, QueriesLastPoint, QueriesSubscription } from '../south-interface';
+import {
+  BrowsesNodes,
+  CallsMethod,
+  DelegatesConnection,
+  QueriesHistory,
+  QueriesLastPoint,
+  QueriesSubscription,
+  QueriesWrite
+} from '../south-interface';
 import { SouthOPCUAItemSettings, SouthOPCUASettings } from '../../../../shared/model/south-settings.model';
 import { randomUUID } from 'crypto';
 import { HistoryReadValueIdOptions } from 'node-opcua-types/source/_generated_opcua_types';
@@ -42,12 +66,36 @@ import ConnectionService, { ManagedConnection, ManagedConnectionSettings } from
 export const MAX_NUMBER_OF_NODE_TO_LOG = 10;
 export const NUM_VALUES_PER_NODE = 1000;
 
+const INTEGER_RANGES: Partial<Record<DataType, [number, number]>> = {
+  [DataType.SByte]: [-128, 127],
+  [DataType.Byte]: [0, 255],
+  [DataType.Int16]: [-32_768, 32_767],
+  [DataType.UInt16]: [0, 65_535],
+  [DataType.Int32]: [-2_147_483_648, 2_147_483_647],
+  [DataType.UInt32]: [0, 4_294_967_295],
+  [DataType.Int64]: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  [DataType.UInt64]: [0, Number.MAX_SAFE_INTEGER]
+};
+const ACCESS_LEVEL_FLAGS = [
+  AccessLevelFlag.CurrentRead,
+  AccessLevelFlag.CurrentWrite,
+  AccessLevelFlag.HistoryRead,
+  AccessLevelFlag.HistoryWrite
+];
+
 /**
  * Class SouthOPCUA - Connect to an OPCUA server
  */
 export default class SouthOPCUA
   extends SouthConnector<SouthOPCUASettings, SouthOPCUAItemSettings>
-  implements QueriesHistory, QueriesLastPoint, QueriesSubscription, DelegatesConnection<ClientSession>
+  implements
+    QueriesHistory,
+    QueriesLastPoint,
+    QueriesSubscription,
+    QueriesWrite,
+    CallsMethod,
+    BrowsesNodes,
+    DelegatesConnection<ClientSession>
 {
   static type = manifest.id;
 
@@ -60,7 +108,7 @@ export default class SouthOPCUA
 
   constructor(
     connector: SouthConnectorDTO<SouthOPCUASettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -653,6 +701,177 @@ export default class SouthOPCUA
     }
   }
 
+  /**
+   * Write a scalar or an array value on the node of the item, converted to the data type of the node
+   */
+  async writeItem(item: SouthConnectorItemDTO<SouthOPCUAItemSettings>, value: SouthItemWriteValue): Promise<void> {
+    const session = await this.connection.getSession();
+    const dataType = await session.getBuiltInDataType(resolveNodeId(item.settings.nodeId));
+    const statusCode = await session.write({
+      nodeId: item.settings.nodeId,
+      attributeId: AttributeIds.Value,
+      value: { value: this.toVariant(value, dataType) }
+    });
+    if (statusCode.isNotGood()) {
+      throw new Error(`Could not write node ${item.settings.nodeId}: ${statusCode.name}`);
+    }
+  }
+
+  /**
+   * Call a method with input arguments converted to the data types declared by the method, and return the values of
+   * its output arguments
+   */
+  async callMethod(objectId: string, methodId: string, inputArguments: Array<SouthItemWriteValue>): Promise<Array<any>> {
+    const session = await this.connection.getSession();
+    const argumentDefinition = await session.getArgumentDefinition(resolveNodeId(methodId));
+    if (argumentDefinition.inputArguments.length !== inputArguments.length) {
+      throw new Error(
+        `Method ${methodId} expects ${argumentDefinition.inputArguments.length} input arguments, ${inputArguments.length} given`
+      );
+    }
+    const inputVariants: Array<Variant> = [];
+    for (const [index, argument] of argumentDefinition.inputArguments.entries()) {
+      const dataType = await findBasicDataType(session, argument.dataType);
+      inputVariants.push(this.toVariant(inputArguments[index], dataType));
+    }
+
+    const result = await session.call({ objectId, methodId, inputArguments: inputVariants });
+    if (result.statusCode.isNotGood()) {
+      throw new Error(`Could not call method ${methodId} of object ${objectId}: ${result.statusCode.name}`);
+    }
+    // Typed arrays are converted to be serialized as JSON arrays
+    return (result.outputArguments || []).map(variant =>
+      ArrayBuffer.isView(variant.value) ? Array.from(variant.value as any) : variant.value
+    );
+  }
+
+  /**
+   * Browse the hierarchical references of a node (the Objects folder by default). The data type, access level and
+   * historizing attributes of the variables found are read to help choosing the settings of the items
+   */
+  async browse(nodeId: string | null): Promise<Array<SouthConnectorBrowseNodeDTO>> {
+    const session = await this.connection.getSession();
+    const browseResult = await browseAll(session, {
+      nodeId: nodeId || resolveNodeId(ObjectIds.ObjectsFolder),
+      referenceTypeId: resolveNodeId(ReferenceTypeIds.HierarchicalReferences),
+      includeSubtypes: true,
+      browseDirection: BrowseDirection.Forward,
+      nodeClassMask: 0,
+      resultMask: 0x3f
+    });
+    if (browseResult.statusCode.isNotGood()) {
+      throw new Error(`Could not browse node ${nodeId || 'Objects'}: ${browseResult.statusCode.name}`);
+    }
+
+    const nodes: Array<SouthConnectorBrowseNodeDTO> = (browseResult.references || []).map(reference => ({
+      nodeId: reference.nodeId.toString(),
+      browseName: reference.browseName.name || '',
+      displayName: reference.displayName.text || reference.browseName.name || '',
+      nodeClass: NodeClass[reference.nodeClass],
+      dataType: null,
+      accessLevel: [],
+      historizing: false
+    }));
+    const variables = nodes.filter(node => node.nodeClass === NodeClass[NodeClass.Variable]);
+    if (variables.length === 0) {
+      return nodes;
+    }
+
+    const dataValues = await session.read(
+      variables.flatMap(variable => [
+        { nodeId: variable.nodeId, attributeId: AttributeIds.DataType },
+        { nodeId: variable.nodeId, attributeId: AttributeIds.AccessLevel },
+        { nodeId: variable.nodeId, attributeId: AttributeIds.Historizing }
+      ])
+    );
+    variables.forEach((variable, index) => {
+      const [dataType, accessLevel, historizing] = dataValues.slice(index * 3, index * 3 + 3);
+      variable.dataType = dataType.value.value ? this.getDataTypeName(dataType.value.value) : null;
+      variable.accessLevel = ACCESS_LEVEL_FLAGS.filter(flag => (accessLevel.value.value ?? 0) & flag).map(flag => AccessLevelFlag[flag]);
+      variable.historizing = historizing.value.value === true;
+    });
+    return nodes;
+  }
+
+  /**
+   * Name of the standard data types, node ID of the data types defined by the server
+   */
+  getDataTypeName(dataTypeId: NodeId): string {
+    if (dataTypeId.namespace === 0) {
+      const name = Object.keys(DataTypeIds).find(key => DataTypeIds[key as keyof typeof DataTypeIds] === dataTypeId.value);
+      if (name) {
+        return name;
+      }
+    }
+    return dataTypeId.toString();
+  }
+
+  /**
+   * Build the variant to send to the server, arrays being sent as arrays of the given data type
+   */
+  toVariant(value: SouthItemWriteValue, dataType: DataType): Variant {
+    const coercedValue = Array.isArray(value)
+      ? value.map(element => this.coerceValue(element, dataType))
+      : this.coerceValue(value, dataType);
+    try {
+      return new Variant({
+        dataType,
+        arrayType: Array.isArray(value) ? VariantArrayType.Array : VariantArrayType.Scalar,
+        value: coercedValue
+      });
+    } catch {
+      throw new Error(`Value ${JSON.stringify(value)} is not a valid ${DataType[dataType]} value`);
+    }
+  }
+
+  coerceValue(value: number | boolean | string, dataType: DataType): any {
+    switch (dataType) {
+      case DataType.Boolean:
+        if (typeof value === 'boolean') {
+          return value;
+        }
+        if ([0, 1, '0', '1', 'true', 'false'].includes(value)) {
+          return value === 1 || value === '1' || value === 'true';
+        }
+        break;
+      case DataType.SByte:
+      case DataType.Byte:
+      case DataType.Int16:
+      case DataType.UInt16:
+      case DataType.Int32:
+      case DataType.UInt32:
+      case DataType.Int64:
+      case DataType.UInt64: {
+        const [min, max] = INTEGER_RANGES[dataType]!;
+        const numberValue = typeof value === 'boolean' || value === '' ? NaN : Number(value);
+        if (Number.isInteger(numberValue) && numberValue >= min && numberValue <= max) {
+          return numberValue;
+        }
+        break;
+      }
+      case DataType.Float:
+      case DataType.Double: {
+        const numberValue = typeof value === 'boolean' || value === '' ? NaN : Number(value);
+        if (Number.isFinite(numberValue)) {
+          return numberValue;
+        }
+        break;
+      }
+      case DataType.String:
+        return `${value}`;
+      case DataType.DateTime: {
+        const date = typeof value === 'number' ? DateTime.fromMillis(value) : DateTime.fromISO(`${value}`);
+        if (typeof value !== 'boolean' && date.isValid) {
+          return date.toJSDate();
+        }
+        break;
+      }
+      default:
+        throw new Error(`OPC UA type ${DataType[dataType]} is not supported for write`);
+    }
+    throw new Error(`Value ${JSON.stringify(value)} is not a valid ${DataType[dataType]} value`);
+  }
+
   async initOpcuaCertificateFolders(certFolder: string): Promise<void> {
     const opcuaBaseFolder = path.resolve(certFolder, 'opcua');
     await createFolder(path.join(opcuaBaseFolder, 'own'));
@@ -109,7 +109,7 @@ const manifest: SouthConnectorManifest = {
         displayInViewMode: false
       },
       buildDateTimeFieldsFormControl(['string', 'iso-string', 'unix-epoch', 'unix-epoch-ms']),
-      buildSerializationFormControl(['csv'])
+      buildSerializationFormControl(['csv', 'parquet', 'avro', 'json'])
     ]
   }
 };
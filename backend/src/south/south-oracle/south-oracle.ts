@@ -4,6 +4,7 @@ import SouthConnector from '../south-connector';
 import manifest from './manifest';
 import {
   convertDateTimeToInstant,
+  convertResultsToTimeValues,
   createFolder,
   formatInstant,
   generateReplacementParameters,
@@ -34,7 +35,7 @@ export default class SouthOracle extends SouthConnector<SouthOracleSettings, Sou
 
   constructor(
     connector: SouthConnectorDTO<SouthOracleSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -127,12 +128,15 @@ export default class SouthOracle extends SouthConnector<SouthOracleSettings, Sou
           formattedEntry[key] = value;
         } else {
           const entryDate = convertDateTimeToInstant(value, datetimeField);
-          formattedEntry[key] = formatInstant(entryDate, {
-            type: 'string',
-            format: item.settings.serialization.outputTimestampFormat,
-            timezone: item.settings.serialization.outputTimezone,
-            locale: 'en-En'
-          });
+          formattedEntry[key] =
+            item.settings.serialization.type === 'csv'
+              ? formatInstant(entryDate, {
+                  type: 'string',
+                  format: item.settings.serialization.outputTimestampFormat,
+                  timezone: item.settings.serialization.outputTimezone,
+                  locale: 'en-En'
+                })
+              : new Date(entryDate);
         }
       });
       return formattedEntry;
@@ -140,7 +144,10 @@ export default class SouthOracle extends SouthConnector<SouthOracleSettings, Sou
 
     let oibusContent: OIBusContent;
     switch (item.settings.serialization.type) {
-      case 'csv': {
+      // Parquet and Avro files are binary: the results are previewed as CSV
+      case 'csv':
+      case 'parquet':
+      case 'avro': {
         const filePath = generateFilenameForSerialization(
           this.tmpFolder,
           item.settings.serialization.filename,
@@ -151,6 +158,12 @@ export default class SouthOracle extends SouthConnector<SouthOracleSettings, Sou
         oibusContent = { type: 'raw', filePath, content };
         break;
       }
+      case 'json':
+        oibusContent = {
+          type: 'time-values',
+          content: convertResultsToTimeValues(formattedResults, item.settings.serialization, this.logger)
+        };
+        break;
     }
     callback(oibusContent);
   }
@@ -183,12 +196,16 @@ export default class SouthOracle extends SouthConnector<SouthOracleSettings, Sou
                   updatedStartTime = entryDate;
                 }
               }
-              formattedEntry[key] = formatInstant(entryDate, {
-                type: 'string',
-                format: item.settings.serialization.outputTimestampFormat,
-                timezone: item.settings.serialization.outputTimezone,
-                locale: 'en-En'
-              });
+              // Only CSV files format date time fields: the other serializations keep them as dates
+              formattedEntry[key] =
+                item.settings.serialization.type === 'csv'
+                  ? formatInstant(entryDate, {
+                      type: 'string',
+                      format: item.settings.serialization.outputTimestampFormat,
+                      timezone: item.settings.serialization.outputTimezone,
+                      locale: 'en-En'
+                    })
+                  : new Date(entryDate);
             }
           });
           return formattedEntry;
@@ -19,6 +19,7 @@ jest.mock(
   () =>
     function () {
       return {
+        splitSharedCacheScanModes: jest.fn(),
         createSouthCacheScanModeTable: jest.fn(),
         southCacheRepository: {
           database
@@ -98,6 +99,7 @@ let south: SouthPi;
 describe('South PI', () => {
   beforeEach(async () => {
     jest.resetAllMocks();
+    (repositoryService.transformerRepository.getTransformers as jest.Mock).mockReturnValue([]);
     jest.useFakeTimers();
     repositoryService.southConnectorRepository.getSouthConnector = jest.fn().mockReturnValue(configuration);
 
@@ -24,7 +24,7 @@ export default class SouthPI extends SouthConnector implements QueriesHistory {
 
   constructor(
     connector: SouthConnectorDTO<SouthPISettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
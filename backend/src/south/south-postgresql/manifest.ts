@@ -92,7 +92,7 @@ const manifest: SouthConnectorManifest = {
         displayInViewMode: true
       },
       buildDateTimeFieldsFormControl(['string', 'iso-string', 'unix-epoch', 'unix-epoch-ms', 'timestamp', 'timestamptz']),
-      buildSerializationFormControl(['csv'])
+      buildSerializationFormControl(['csv', 'parquet', 'avro', 'json'])
     ]
   }
 };
@@ -6,6 +6,7 @@ import SouthConnector from '../south-connector';
 import manifest from './manifest';
 import {
   convertDateTimeToInstant,
+  convertResultsToTimeValues,
   createFolder,
   formatInstant,
   generateReplacementParameters,
@@ -37,7 +38,7 @@ export default class SouthPostgreSQL
 
   constructor(
     connector: SouthConnectorDTO<SouthPostgreSQLSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -132,12 +133,15 @@ export default class SouthPostgreSQL
           formattedEntry[key] = value;
         } else {
           const entryDate = convertDateTimeToInstant(value, datetimeField);
-          formattedEntry[key] = formatInstant(entryDate, {
-            type: 'string',
-            format: item.settings.serialization.outputTimestampFormat,
-            timezone: item.settings.serialization.outputTimezone,
-            locale: 'en-En'
-          });
+          formattedEntry[key] =
+            item.settings.serialization.type === 'csv'
+              ? formatInstant(entryDate, {
+                  type: 'string',
+                  format: item.settings.serialization.outputTimestampFormat,
+                  timezone: item.settings.serialization.outputTimezone,
+                  locale: 'en-En'
+                })
+              : new Date(entryDate);
         }
       });
       return formattedEntry;
@@ -145,7 +149,10 @@ export default class SouthPostgreSQL
 
     let oibusContent: OIBusContent;
     switch (item.settings.serialization.type) {
-      case 'csv': {
+      // Parquet and Avro files are binary: the results are previewed as CSV
+      case 'csv':
+      case 'parquet':
+      case 'avro': {
         const filePath = generateFilenameForSerialization(
           this.tmpFolder,
           item.settings.serialization.filename,
@@ -156,6 +163,12 @@ export default class SouthPostgreSQL
         oibusContent = { type: 'raw', filePath, content };
         break;
       }
+      case 'json':
+        oibusContent = {
+          type: 'time-values',
+          content: convertResultsToTimeValues(formattedResults, item.settings.serialization, this.logger)
+        };
+        break;
     }
     callback(oibusContent);
   }
@@ -192,12 +205,16 @@ export default class SouthPostgreSQL
                   updatedStartTime = entryDate;
                 }
               }
-              formattedEntry[key] = formatInstant(entryDate, {
-                type: 'string',
-                format: item.settings.serialization.outputTimestampFormat,
-                timezone: item.settings.serialization.outputTimezone,
-                locale: 'en-En'
-              });
+              // Only CSV files format date time fields: the other serializations keep them as dates
+              formattedEntry[key] =
+                item.settings.serialization.type === 'csv'
+                  ? formatInstant(entryDate, {
+                      type: 'string',
+                      format: item.settings.serialization.outputTimestampFormat,
+                      timezone: item.settings.serialization.outputTimezone,
+                      locale: 'en-En'
+                    })
+                  : new Date(entryDate);
             }
           });
           return formattedEntry;
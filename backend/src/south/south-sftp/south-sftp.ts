@@ -28,7 +28,7 @@ export default class SouthSFTP extends SouthConnector<SouthSFTPSettings, SouthSF
    */
   constructor(
     connector: SouthConnectorDTO<SouthSFTPSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -56,7 +56,7 @@ export default class SouthSlims extends SouthConnector<SouthSlimsSettings, South
 
   constructor(
     connector: SouthConnectorDTO<SouthSlimsSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
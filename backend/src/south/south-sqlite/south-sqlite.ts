@@ -7,6 +7,7 @@ import SouthConnector from '../south-connector';
 import manifest from './manifest';
 import {
   convertDateTimeToInstant,
+  convertResultsToTimeValues,
   createFolder,
   formatInstant,
   logQuery,
@@ -33,7 +34,7 @@ export default class SouthSQLite extends SouthConnector<SouthSQLiteSettings, Sou
 
   constructor(
     connector: SouthConnectorDTO<SouthSQLiteSettings>,
-    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<void>,
+    engineAddContentCallback: (southId: string, data: OIBusContent) => Promise<number>,
     encryptionService: EncryptionService,
     repositoryService: RepositoryService,
     logger: pino.Logger,
@@ -98,12 +99,15 @@ export default class SouthSQLite extends SouthConnector<SouthSQLiteSettings, Sou
           formattedEntry[key] = value;
         } else {
           const entryDate = convertDateTimeToInstant(value, datetimeField);
-          formattedEntry[key] = formatInstant(entryDate, {
-            type: 'string',
-            format: item.settings.serialization.outputTimestampFormat,
-            timezone: item.settings.serialization.outputTimezone,
-            locale: 'en-En'
-          });
+          formattedEntry[key] =
+            item.settings.serialization.type === 'csv'
+              ? formatInstant(entryDate, {
+                  type: 'string',
+                  format: item.settings.serialization.outputTimestampFormat,
+                  timezone: item.settings.serialization.outputTimezone,
+                  locale: 'en-En'
+                })
+              : new Date(entryDate);
         }
       });
       return formattedEntry;
@@ -111,7 +115,10 @@ export default class SouthSQLite extends SouthConnector<SouthSQLiteSettings, Sou
 
     let oibusContent: OIBusContent;
     switch (item.settings.serialization.type) {
+      // Parquet and Avro files are binary: the results are previewed as CSV
       case 'csv':
+      case 'parquet':
+      case 'avro':
         const filePath = generateFilenameForSerialization(
           this.tmpFolder,
           item.settings.serialization.filename,
@@ -121,6 +128,12 @@ export default class SouthSQLite extends SouthConnector<SouthSQLiteSettings, Sou
         const content = generateCsvContent(formattedResults, item.settings.serialization.delimiter);
         oibusContent = { type: 'raw', filePath, content };
         break;
+      case 'json':
+        oibusContent = {
+          type: 'time-values',
+          content: convertResultsToTimeValues(formattedResults, item.settings.serialization, this.logger)
+        };
+        break;
     }
     callback(oibusContent);
   }
@@ -153,12 +166,16 @@ export default class SouthSQLite extends SouthConnector<SouthSQLiteSettings, Sou
                   updatedStartTime = entryDate;
                 }
               }
-              formattedEntry[key] = formatInstant(entryDate, {
-                type: 'string',
-                format: item.settings.serialization.outputTimestampFormat,
-                timezone: item.settings.serialization.outputTimezone,
-                locale: 'en-En'
-              });
+              // Only CSV files format date time fields: the other serializations keep them as dates
+              formattedEntry[key] =
+                item.settings.serialization.type === 'csv'
+                  ? formatInstant(entryDate, {
+                      type: 'string',
+                      format: item.settings.serialization.outputTimestampFormat,
+                      timezone: item.settings.serialization.outputTimezone,
+                      locale: 'en-En'
+                    })
+                  : new Date(entryDate);
             }
           });
           return formattedEntry;
@@ -16,6 +16,7 @@ export default class ArchiveServiceMock {
   ]);
   removeFiles = jest.fn();
   removeAllArchiveFiles = jest.fn();
+  removeOldestFile = jest.fn();
   setLogger = jest.fn();
   triggerRun: EventEmitter = {
     on: jest.fn(),
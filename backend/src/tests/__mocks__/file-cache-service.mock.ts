@@ -21,6 +21,7 @@ export default class FileCacheServiceMock {
   retryFiles = jest.fn();
   retryAllFiles = jest.fn();
   removeFileFromQueue = jest.fn();
+  removeOldestFile = jest.fn();
   manageErroredFiles = jest.fn();
   isEmpty = jest.fn();
   setLogger = jest.fn();
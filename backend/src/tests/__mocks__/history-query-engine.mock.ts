@@ -8,8 +8,11 @@ export default jest.fn().mockImplementation(() => {
     setLogger: jest.fn(),
     createHistoryQuery: jest.fn(),
     startHistoryQuery: jest.fn(),
+    retryHistoryQueryIntervals: jest.fn(),
     stopHistoryQuery: jest.fn(),
     getHistoryDataStream: jest.fn(),
-    deleteHistoryQuery: jest.fn()
+    deleteHistoryQuery: jest.fn(),
+    deleteAdditionalNorthCache: jest.fn(),
+    updateScanMode: jest.fn()
   };
 });
@@ -30,6 +30,7 @@ export default jest.fn().mockImplementation(() => ({
     }
   },
   request: {},
+  state: {},
   params: {},
   query: {},
   ok: jest.fn(),
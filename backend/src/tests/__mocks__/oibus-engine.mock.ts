@@ -16,8 +16,14 @@ export default jest.fn().mockImplementation(() => {
     stopNorth: jest.fn(),
     updateNorthConnectorSubscriptions: jest.fn(),
     onSouthItemsChange: jest.fn(),
+    onSouthTransformersChange: jest.fn(),
+    writeSouthItem: jest.fn(),
+    callSouthMethod: jest.fn(),
+    browseSouth: jest.fn(),
     addContent: jest.fn(),
     addExternalContent: jest.fn(),
+    addHistoryContent: jest.fn().mockResolvedValue(true),
+    isNorthBackpressuring: jest.fn(),
     getErrorFiles: jest.fn(),
     updateScanMode: jest.fn(),
     deleteSouth: jest.fn(),
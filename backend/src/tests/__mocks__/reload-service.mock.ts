@@ -23,6 +23,7 @@ export default jest.fn().mockImplementation(() => ({
   onCreateHistoryQuery: jest.fn(),
   onUpdateHistoryQuerySettings: jest.fn(),
   onStartHistoryQuery: jest.fn(),
+  onRetryHistoryQueryIntervals: jest.fn(),
   onRestartHistoryQuery: jest.fn(),
   onPauseHistoryQuery: jest.fn(),
   onDeleteHistoryQuery: jest.fn(),
@@ -34,8 +35,18 @@ export default jest.fn().mockImplementation(() => ({
   onCreateOrUpdateHistoryQueryItems: jest.fn(),
   onCreateHistoryItem: jest.fn(),
   onCreateNorthSubscription: jest.fn(),
+  writeSouthItem: jest.fn(),
+  onSetSouthCacheMaxInstant: jest.fn(),
+  onRewindSouthCache: jest.fn(),
+  callSouthMethod: jest.fn(),
+  browseSouth: jest.fn(),
+  onUpdateNorthSubscriptionScript: jest.fn(),
   onDeleteNorthSubscription: jest.fn(),
   onUpdateScanMode: jest.fn(),
+  onCreateTransformer: jest.fn(),
+  onUpdateTransformer: jest.fn(),
+  onOrderTransformers: jest.fn(),
+  onDeleteTransformer: jest.fn(),
   restartLogger: jest.fn(),
   oibusEngine: {
     resetSouthMetrics: jest.fn(),
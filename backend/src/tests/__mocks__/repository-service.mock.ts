@@ -57,6 +57,16 @@ export default jest.fn().mockImplementation(() => ({
     searchHistoryItems: jest.fn(),
     createAndUpdateItems: jest.fn()
   },
+  historyQueryRunRepository: {
+    getRuns: jest.fn(),
+    getLastRun: jest.fn(),
+    createRun: jest.fn(),
+    updateRun: jest.fn(),
+    deleteRuns: jest.fn(),
+    getIntervals: jest.fn(),
+    createIntervals: jest.fn(),
+    updateInterval: jest.fn()
+  },
   externalSourceRepository: {
     getExternalSources: jest.fn(),
     getExternalSource: jest.fn(),
@@ -146,10 +156,22 @@ export default jest.fn().mockImplementation(() => ({
     getNorthSubscriptions: jest.fn(),
     getSubscribedNorthConnectors: jest.fn(),
     checkNorthSubscription: jest.fn(),
+    getNorthSubscriptionScripts: jest.fn(() => []),
+    getNorthSubscriptionScript: jest.fn(),
+    updateNorthSubscriptionScript: jest.fn(),
     createNorthSubscription: jest.fn(),
     deleteNorthSubscription: jest.fn(),
     deleteNorthSubscriptions: jest.fn()
   },
+  transformerRepository: {
+    getTransformers: jest.fn(() => []),
+    getTransformer: jest.fn(),
+    createTransformer: jest.fn(),
+    updateTransformer: jest.fn(),
+    orderTransformers: jest.fn(),
+    deleteTransformer: jest.fn(),
+    deleteAllTransformers: jest.fn()
+  },
   southMetricsRepository: new SouthMetricsRepositoryMock(),
   northMetricsRepository: new NorthMetricsRepositoryMock(),
   southCacheRepository: {
@@ -160,6 +182,7 @@ export default jest.fn().mockImplementation(() => ({
     updateCacheScanModeId: jest.fn(),
     createOrUpdateCacheScanMode: jest.fn(),
     deleteCacheScanMode: jest.fn(),
-    getSouthCacheScanMode: jest.fn()
+    getSouthCacheScanMode: jest.fn(),
+    getSouthCacheScanModes: jest.fn()
   }
 }));
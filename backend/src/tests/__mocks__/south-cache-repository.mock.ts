@@ -9,5 +9,6 @@ export default jest.fn().mockImplementation(() => ({
   resetSouthCacheDatabase: jest.fn(),
   createCustomTable: jest.fn(),
   runQueryOnCustomTable: jest.fn(),
+  runQueriesOnCustomTable: jest.fn(),
   getQueryOnCustomTable: jest.fn()
 }));
@@ -18,10 +18,15 @@ export default class ValueCacheServiceMock {
   isEmpty = jest.fn();
   setLogger = jest.fn();
   getQueuedFilesMetadata = jest.fn();
+  removeQueuedValues = jest.fn();
   removeAllValues = jest.fn();
+  removeOldestValues = jest.fn();
   getErrorValueFiles = jest.fn();
   removeErrorValues = jest.fn();
   removeAllErrorValues = jest.fn();
   retryErrorValues = jest.fn();
   retryAllErrorValues = jest.fn();
+  getCacheSize = jest.fn();
+  getValuesPrefix = jest.fn();
+  flush = jest.fn();
 }
@@ -11,6 +11,7 @@ import {
 } from '../../../../shared/model/north-connector.model';
 import { SouthConnectorCommandDTO, SouthConnectorDTO, SouthConnectorItemDTO } from '../../../../shared/model/south-connector.model';
 import csv from 'papaparse';
+import { DateTime } from 'luxon';
 import fs from 'node:fs/promises';
 import { southTestManifest } from '../../tests/__mocks__/south-service.mock';
 import { northTestManifest } from '../../tests/__mocks__/north-service.mock';
@@ -55,9 +56,11 @@ const northCacheSettings: NorthCacheSettingsDTO = {
   retryInterval: 1000,
   retryCount: 3,
   maxSize: 10000,
+  overflowPolicy: 'drop-newest',
   oibusTimeValues: {
     groupCount: 100,
-    maxSendCount: 1000
+    maxSendCount: 1000,
+    storage: 'file'
   },
   rawFiles: {
     archive: northArchiveSettings,
@@ -96,6 +99,14 @@ const historyQueryCommand: HistoryQueryCommandDTO = {
   endTime: '2020-02-02T02:02:59.999Z',
   southType: 'south-test',
   northType: 'north-test',
+  northId: null,
+  schedule: {
+    enabled: false,
+    scanModeId: null,
+    windowDuration: 1,
+    windowUnit: 'day',
+    timezone: 'UTC'
+  },
   southSettings: {
     key: 'value'
   },
@@ -103,7 +114,8 @@ const historyQueryCommand: HistoryQueryCommandDTO = {
   northSettings: {
     key: 'value'
   },
-  caching: northCacheSettings
+  caching: northCacheSettings,
+  additionalNorths: []
 };
 const historyQueryCreateCommand: HistoryQueryCreateCommandDTO = {
   historyQuery: historyQueryCommand,
@@ -191,6 +203,32 @@ describe('History query controller', () => {
     expect(ctx.ok).toHaveBeenCalledWith(historyQuery);
   });
 
+  it('getHistoryQuery() should filter the secrets of additional North targets', async () => {
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue({
+      ...historyQuery,
+      additionalNorths: [
+        { id: 'targetId1', northType: 'north-test', northSettings: { field: 'value' }, caching: northCacheSettings },
+        { id: 'targetId2', northType: 'invalid', northSettings: { field: 'value' }, caching: northCacheSettings }
+      ]
+    });
+    ctx.app.encryptionService.filterSecrets
+      .mockReturnValueOnce(historyQuery.southSettings)
+      .mockReturnValueOnce(historyQuery.northSettings)
+      .mockReturnValueOnce({ field: 'filtered' });
+
+    await historyQueryController.getHistoryQuery(ctx);
+
+    expect(ctx.app.encryptionService.filterSecrets).toHaveBeenNthCalledWith(3, { field: 'value' }, northTestManifest.settings);
+    expect(ctx.ok).toHaveBeenCalledWith({
+      ...historyQuery,
+      additionalNorths: [
+        { id: 'targetId1', northType: 'north-test', northSettings: { field: 'filtered' }, caching: northCacheSettings },
+        { id: 'targetId2', northType: 'invalid', northSettings: {}, caching: northCacheSettings }
+      ]
+    });
+  });
+
   it('getHistoryQuery() should return not found when history query is not found', async () => {
     ctx.params.id = 'id';
     ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(null);
@@ -203,6 +241,206 @@ describe('History query controller', () => {
     expect(ctx.notFound).toHaveBeenCalled();
   });
 
+  it('getHistoryQueryRuns() should return the runs of a history query', async () => {
+    ctx.params.id = 'id';
+    const runs = [{ id: 'runId', historyId: 'id', status: 'FINISHED' }];
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(historyQuery);
+    ctx.app.repositoryService.historyQueryRunRepository.getRuns.mockReturnValue(runs);
+
+    await historyQueryController.getHistoryQueryRuns(ctx);
+
+    expect(ctx.app.repositoryService.historyQueryRunRepository.getRuns).toHaveBeenCalledWith(historyQuery.id);
+    expect(ctx.ok).toHaveBeenCalledWith(runs);
+  });
+
+  it('getHistoryQueryRuns() should return not found when history query is not found', async () => {
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(null);
+
+    await historyQueryController.getHistoryQueryRuns(ctx);
+
+    expect(ctx.app.repositoryService.historyQueryRunRepository.getRuns).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  describe('run report', () => {
+    const run = {
+      id: 'runId',
+      historyId: 'id',
+      status: 'FINISHED',
+      startTime: '2020-02-01T00:00:00.000Z',
+      endTime: '2020-02-02T00:00:00.000Z',
+      runStart: '2020-02-02T01:00:00.000Z',
+      runEnd: '2020-02-02T01:10:00.000Z',
+      error: null
+    };
+    const intervals = [
+      {
+        id: 'intervalId1',
+        runId: 'runId',
+        itemId: 'itemId1',
+        startTime: '2020-02-01T00:00:00.000Z',
+        endTime: '2020-02-01T12:00:00.000Z',
+        status: 'DONE',
+        numberOfValues: 10,
+        numberOfFiles: 1,
+        contentByItem: { item1: { numberOfValues: 10, numberOfFiles: 1 } },
+        error: null
+      },
+      {
+        id: 'intervalId2',
+        runId: 'runId',
+        itemId: 'itemId1',
+        startTime: '2020-02-01T12:00:00.000Z',
+        endTime: '2020-02-02T00:00:00.000Z',
+        status: 'DONE',
+        numberOfValues: 0,
+        numberOfFiles: 0,
+        contentByItem: {},
+        error: null
+      },
+      {
+        id: 'intervalId3',
+        runId: 'runId',
+        itemId: 'deletedItemId',
+        startTime: '2020-02-01T00:00:00.000Z',
+        endTime: '2020-02-02T00:00:00.000Z',
+        status: 'ERRORED',
+        numberOfValues: 0,
+        numberOfFiles: 0,
+        contentByItem: {},
+        error: 'query error'
+      }
+    ];
+
+    beforeEach(() => {
+      ctx.params.id = 'id';
+      ctx.query = {};
+      ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(historyQuery);
+      ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValue(run);
+      ctx.app.repositoryService.historyQueryRunRepository.getIntervals.mockReturnValue(intervals);
+      ctx.app.repositoryService.historyQueryItemRepository.listHistoryItems.mockReturnValue([
+        { id: 'itemId1', name: 'item1' },
+        { id: 'itemId2', name: 'item2' }
+      ]);
+    });
+
+    it('getHistoryQueryReport() should return the report of the last run', async () => {
+      await historyQueryController.getHistoryQueryReport(ctx);
+
+      expect(ctx.app.repositoryService.historyQueryRunRepository.getLastRun).toHaveBeenCalledWith(historyQuery.id);
+      expect(ctx.app.repositoryService.historyQueryRunRepository.getIntervals).toHaveBeenCalledWith('runId');
+      expect(ctx.ok).toHaveBeenCalledWith({
+        run,
+        duration: 600_000,
+        requestedIntervals: 3,
+        completedIntervals: 2,
+        erroredIntervals: 1,
+        numberOfValues: 10,
+        numberOfFiles: 1,
+        items: [
+          { itemName: 'item1', numberOfValues: 10, numberOfFiles: 1 },
+          { itemName: 'item2', numberOfValues: 0, numberOfFiles: 0 }
+        ],
+        emptyIntervals: [{ startTime: '2020-02-01T12:00:00.000Z', endTime: '2020-02-02T00:00:00.000Z', itemName: 'item1' }],
+        errors: [
+          { startTime: '2020-02-01T00:00:00.000Z', endTime: '2020-02-02T00:00:00.000Z', itemName: 'deletedItemId', error: 'query error' }
+        ]
+      });
+    });
+
+    it('getHistoryQueryReport() should return the report of a given run', async () => {
+      ctx.query.runId = 'runId';
+      ctx.app.repositoryService.historyQueryRunRepository.getRuns.mockReturnValue([run]);
+      ctx.app.repositoryService.historyQueryRunRepository.getIntervals.mockReturnValue([]);
+
+      await historyQueryController.getHistoryQueryReport(ctx);
+
+      expect(ctx.app.repositoryService.historyQueryRunRepository.getLastRun).not.toHaveBeenCalled();
+      expect(ctx.ok).toHaveBeenCalledWith(expect.objectContaining({ run, requestedIntervals: 0 }));
+    });
+
+    it('getHistoryQueryReport() should count the duration of a running run until now', async () => {
+      ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValue({ ...run, runEnd: null });
+
+      await historyQueryController.getHistoryQueryReport(ctx);
+
+      expect(ctx.ok).toHaveBeenCalledWith(
+        expect.objectContaining({ duration: DateTime.fromISO(nowDateString).toMillis() - DateTime.fromISO(run.runStart).toMillis() })
+      );
+    });
+
+    it('getHistoryQueryReport() should return not found when the history query or the run is not found', async () => {
+      ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce(null);
+      await historyQueryController.getHistoryQueryReport(ctx);
+      expect(ctx.notFound).toHaveBeenCalledTimes(1);
+
+      ctx.query.runId = 'unknownRunId';
+      ctx.app.repositoryService.historyQueryRunRepository.getRuns.mockReturnValue([run]);
+      await historyQueryController.getHistoryQueryReport(ctx);
+      expect(ctx.notFound).toHaveBeenCalledTimes(2);
+
+      ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValueOnce(null);
+      await historyQueryController.getHistoryQueryReport(ctx);
+      expect(ctx.notFound).toHaveBeenCalledTimes(3);
+      expect(ctx.ok).not.toHaveBeenCalled();
+    });
+
+    it('exportHistoryQueryReport() should download the intervals of the run in a CSV file', async () => {
+      (csv.unparse as jest.Mock).mockReturnValue('csv content');
+
+      await historyQueryController.exportHistoryQueryReport(ctx);
+
+      expect(csv.unparse).toHaveBeenCalledWith(
+        [
+          {
+            startTime: '2020-02-01T00:00:00.000Z',
+            endTime: '2020-02-01T12:00:00.000Z',
+            item: 'item1',
+            status: 'DONE',
+            numberOfValues: 10,
+            numberOfFiles: 1,
+            error: ''
+          },
+          {
+            startTime: '2020-02-01T12:00:00.000Z',
+            endTime: '2020-02-02T00:00:00.000Z',
+            item: 'item1',
+            status: 'DONE',
+            numberOfValues: 0,
+            numberOfFiles: 0,
+            error: ''
+          },
+          {
+            startTime: '2020-02-01T00:00:00.000Z',
+            endTime: '2020-02-02T00:00:00.000Z',
+            item: 'deletedItemId',
+            status: 'ERRORED',
+            numberOfValues: 0,
+            numberOfFiles: 0,
+            error: 'query error'
+          }
+        ],
+        { columns: ['startTime', 'endTime', 'item', 'status', 'numberOfValues', 'numberOfFiles', 'error'] }
+      );
+      expect(ctx.body).toEqual('csv content');
+      expect(ctx.set).toHaveBeenCalledWith('Content-disposition', 'attachment; filename=report-runId.csv');
+      expect(ctx.set).toHaveBeenCalledWith('Content-Type', 'application/force-download');
+      expect(ctx.ok).toHaveBeenCalled();
+    });
+
+    it('exportHistoryQueryReport() should return not found when the history query or the run is not found', async () => {
+      ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce(null);
+      await historyQueryController.exportHistoryQueryReport(ctx);
+      expect(ctx.notFound).toHaveBeenCalledTimes(1);
+
+      ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValueOnce(null);
+      await historyQueryController.exportHistoryQueryReport(ctx);
+      expect(ctx.notFound).toHaveBeenCalledTimes(2);
+      expect(csv.unparse).not.toHaveBeenCalled();
+    });
+  });
+
   it.each(invalidHistoryQueries)('getHistoryQuery() should return not found when history manifest not found', async invalidHistoryQuery => {
     ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(invalidHistoryQuery);
 
@@ -253,10 +491,19 @@ describe('History query controller', () => {
         endTime: '2020-02-02T02:02:59.999Z',
         southType: 'south-test',
         northType: 'north-test',
+        northId: null,
+        schedule: {
+          enabled: false,
+          scanModeId: null,
+          windowDuration: 1,
+          windowUnit: 'day',
+          timezone: 'UTC'
+        },
         southSettings: {},
         southSharedConnection: false,
         northSettings: {},
-        caching: northCacheSettings
+        caching: northCacheSettings,
+        additionalNorths: []
       },
       ctx.request.body.items
     );
@@ -314,16 +561,91 @@ describe('History query controller', () => {
         endTime: '2020-02-02T02:02:59.999Z',
         southType: 'south-test',
         northType: 'north-test',
+        northId: null,
+        schedule: {
+          enabled: false,
+          scanModeId: null,
+          windowDuration: 1,
+          windowUnit: 'day',
+          timezone: 'UTC'
+        },
         southSettings: {},
         southSharedConnection: false,
         northSettings: {},
-        caching: { ...northCacheSettings, scanModeName: 'scanModeName' }
+        caching: { ...northCacheSettings, scanModeName: 'scanModeName' },
+        additionalNorths: []
       },
       ctx.request.body.items
     );
     expect(ctx.created).toHaveBeenCalledWith(historyQuery);
   });
 
+  it('createHistoryQuery() should create History query with additional North targets', async () => {
+    ctx.request.body = {
+      ...JSON.parse(JSON.stringify(historyQueryCreateCommand))
+    };
+    ctx.request.body.historyQuery.additionalNorths = [
+      {
+        id: null,
+        northType: 'north-test',
+        northSettings: { field: 'value' },
+        caching: { ...northCacheSettings, scanModeId: undefined, scanModeName: 'scanModeName' }
+      }
+    ];
+    ctx.app.repositoryService.scanModeRepository.getScanModes.mockReturnValue([{ id: 'scanModeId', name: 'scanModeName' }]);
+    ctx.app.encryptionService.encryptConnectorSecrets
+      .mockReturnValueOnce({})
+      .mockReturnValueOnce({})
+      .mockReturnValueOnce({ field: 'encrypted' });
+    ctx.app.reloadService.onCreateHistoryQuery.mockReturnValue(historyQuery);
+
+    await historyQueryController.createHistoryQuery(ctx);
+
+    expect(validator.validateSettings).toHaveBeenCalledWith(northTestManifest.settings, { field: 'value' });
+    expect(ctx.app.encryptionService.encryptConnectorSecrets).toHaveBeenCalledWith(
+      { field: 'value' },
+      undefined,
+      northTestManifest.settings
+    );
+    expect(ctx.app.reloadService.onCreateHistoryQuery.mock.calls[0][0].additionalNorths).toEqual([
+      {
+        id: null,
+        northType: 'north-test',
+        northSettings: { field: 'encrypted' },
+        caching: { ...northCacheSettings, scanModeId: 'scanModeId', scanModeName: 'scanModeName' }
+      }
+    ]);
+    expect(ctx.created).toHaveBeenCalledWith(historyQuery);
+  });
+
+  it('createHistoryQuery() should not create History query with invalid additional North targets', async () => {
+    ctx.request.body = {
+      ...JSON.parse(JSON.stringify(historyQueryCreateCommand))
+    };
+    ctx.request.body.historyQuery.additionalNorths = [{ id: null, northType: 'invalid', northSettings: {}, caching: northCacheSettings }];
+    await historyQueryController.createHistoryQuery(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('North manifest invalid not found');
+
+    ctx.request.body.historyQuery.additionalNorths = [
+      { id: null, northType: 'north-test', northSettings: {}, caching: { ...northCacheSettings, scanModeId: undefined } }
+    ];
+    await historyQueryController.createHistoryQuery(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('Scan mode not specified');
+
+    ctx.app.repositoryService.scanModeRepository.getScanModes.mockReturnValue([]);
+    ctx.request.body.historyQuery.additionalNorths = [
+      {
+        id: null,
+        northType: 'north-test',
+        northSettings: {},
+        caching: { ...northCacheSettings, scanModeId: undefined, scanModeName: 'bad' }
+      }
+    ];
+    await historyQueryController.createHistoryQuery(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('Scan mode bad not found');
+    expect(ctx.app.reloadService.onCreateHistoryQuery).not.toHaveBeenCalled();
+  });
+
   it('createHistoryQuery() should fail to create History query without scanModeName', async () => {
     ctx.request.body = {
       ...JSON.parse(JSON.stringify(historyQueryCreateCommand))
@@ -400,10 +722,19 @@ describe('History query controller', () => {
         endTime: '2020-02-02T02:02:59.999Z',
         southType: 'south-test',
         northType: 'north-test',
+        northId: null,
+        schedule: {
+          enabled: false,
+          scanModeId: null,
+          windowDuration: 1,
+          windowUnit: 'day',
+          timezone: 'UTC'
+        },
         southSettings: {},
         southSharedConnection: false,
         northSettings: {},
-        caching: northCacheSettings
+        caching: northCacheSettings,
+        additionalNorths: []
       },
       ctx.request.body.items
     );
@@ -456,6 +787,92 @@ describe('History query controller', () => {
     expect(ctx.notFound).toHaveBeenCalled();
   });
 
+  it('createHistoryQuery() should create History query sending its data to an existing North connector', async () => {
+    ctx.request.body = JSON.parse(JSON.stringify(historyQueryCreateCommand));
+    ctx.request.body.historyQuery.northId = 'northId';
+    ctx.request.body.historyQuery.northType = 'other';
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue({ ...northConnector, type: 'north-test' });
+    ctx.app.encryptionService.encryptConnectorSecrets.mockReturnValueOnce({});
+    ctx.app.reloadService.onCreateHistoryQuery.mockReturnValue(historyQuery);
+
+    await historyQueryController.createHistoryQuery(ctx);
+
+    expect(ctx.app.repositoryService.northConnectorRepository.getNorthConnector).toHaveBeenCalledWith('northId');
+    expect(validator.validateSettings).not.toHaveBeenCalledWith(northTestManifest.settings, {});
+    expect(ctx.app.encryptionService.encryptConnectorSecrets).toHaveBeenCalledTimes(1);
+    expect(ctx.app.reloadService.onCreateHistoryQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ northId: 'northId', northType: 'north-test', northSettings: {} }),
+      ctx.request.body.items
+    );
+    expect(ctx.created).toHaveBeenCalledWith(historyQuery);
+  });
+
+  it('createHistoryQuery() should return 404 when the existing North connector is not found', async () => {
+    ctx.request.body = JSON.parse(JSON.stringify(historyQueryCreateCommand));
+    ctx.request.body.historyQuery.northId = 'northId';
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue(null);
+
+    await historyQueryController.createHistoryQuery(ctx);
+
+    expect(ctx.app.reloadService.onCreateHistoryQuery).not.toHaveBeenCalled();
+    expect(ctx.throw).toHaveBeenCalledWith(404, 'North connector not found');
+  });
+
+  it('createHistoryQuery() should create a scheduled History query', async () => {
+    ctx.request.body = JSON.parse(JSON.stringify(historyQueryCreateCommand));
+    ctx.request.body.historyQuery.schedule = {
+      enabled: true,
+      scanModeId: 'scheduleScanModeId',
+      windowDuration: 7,
+      windowUnit: 'day',
+      timezone: 'Europe/Paris'
+    };
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockReturnValue({ id: 'scheduleScanModeId' });
+    ctx.app.reloadService.onCreateHistoryQuery.mockReturnValue(historyQuery);
+
+    await historyQueryController.createHistoryQuery(ctx);
+
+    expect(ctx.app.repositoryService.scanModeRepository.getScanMode).toHaveBeenCalledWith('scheduleScanModeId');
+    expect(ctx.app.reloadService.onCreateHistoryQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ schedule: ctx.request.body.historyQuery.schedule }),
+      ctx.request.body.items
+    );
+    expect(ctx.created).toHaveBeenCalledWith(historyQuery);
+  });
+
+  it('createHistoryQuery() should create a History query without schedule', async () => {
+    ctx.request.body = JSON.parse(JSON.stringify(historyQueryCreateCommand));
+    delete ctx.request.body.historyQuery.schedule;
+    ctx.app.reloadService.onCreateHistoryQuery.mockReturnValue(historyQuery);
+
+    await historyQueryController.createHistoryQuery(ctx);
+
+    expect(ctx.app.reloadService.onCreateHistoryQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        schedule: { enabled: false, scanModeId: null, windowDuration: 1, windowUnit: 'day', timezone: 'UTC' }
+      }),
+      ctx.request.body.items
+    );
+    expect(ctx.created).toHaveBeenCalledWith(historyQuery);
+  });
+
+  it.each([
+    [{ scanModeId: null, timezone: 'UTC' }, 'Scan mode not specified'],
+    [{ scanModeId: 'unknown', timezone: 'UTC' }, 'Scan mode unknown not found'],
+    [{ scanModeId: 'scheduleScanModeId', timezone: 'Mars/Olympus' }, 'Timezone Mars/Olympus not valid']
+  ])('createHistoryQuery() should not create a History query with an invalid schedule', async (schedule, message) => {
+    ctx.request.body = JSON.parse(JSON.stringify(historyQueryCreateCommand));
+    ctx.request.body.historyQuery.schedule = { enabled: true, windowDuration: 1, windowUnit: 'day', ...schedule };
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockImplementation((id: string) =>
+      id === 'scheduleScanModeId' ? { id } : null
+    );
+
+    await historyQueryController.createHistoryQuery(ctx);
+
+    expect(ctx.app.reloadService.onCreateHistoryQuery).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith(message);
+  });
+
   it('startHistoryQuery() should restart when the history is in finished or errored state', async () => {
     ctx.params.enable = true;
     ctx.params.id = 'id';
@@ -471,6 +888,55 @@ describe('History query controller', () => {
     expect(ctx.badRequest).not.toHaveBeenCalled();
   });
 
+  it('retryHistoryQueryIntervals() should retry the failed intervals of the last run', async () => {
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValueOnce(historyQuery);
+    ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce({ id: 'runId', status: 'ERRORED' });
+    ctx.app.repositoryService.historyQueryRunRepository.getIntervals.mockReturnValueOnce([{ status: 'DONE' }, { status: 'ERRORED' }]);
+
+    await historyQueryController.retryHistoryQueryIntervals(ctx);
+
+    expect(ctx.app.repositoryService.historyQueryRunRepository.getLastRun).toHaveBeenCalledWith(historyQuery.id);
+    expect(ctx.app.repositoryService.historyQueryRunRepository.getIntervals).toHaveBeenCalledWith('runId');
+    expect(ctx.app.reloadService.onRetryHistoryQueryIntervals).toHaveBeenCalledWith(historyQuery.id);
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('retryHistoryQueryIntervals() should return not found when the history query or its last run is not found', async () => {
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValueOnce(null);
+    await historyQueryController.retryHistoryQueryIntervals(ctx);
+
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValueOnce(historyQuery);
+    ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce(null);
+    await historyQueryController.retryHistoryQueryIntervals(ctx);
+
+    expect(ctx.notFound).toHaveBeenCalledTimes(2);
+    expect(ctx.app.reloadService.onRetryHistoryQueryIntervals).not.toHaveBeenCalled();
+  });
+
+  it('retryHistoryQueryIntervals() should return bad request when the last run cannot be retried', async () => {
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(historyQuery);
+    ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce({ id: 'runId', status: 'RUNNING' });
+    await historyQueryController.retryHistoryQueryIntervals(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('The last run of the History query is still running');
+
+    ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce({ id: 'runId', status: 'FINISHED' });
+    ctx.app.repositoryService.historyQueryRunRepository.getIntervals.mockReturnValueOnce([{ status: 'DONE' }]);
+    await historyQueryController.retryHistoryQueryIntervals(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('The last run of the History query has no failed interval');
+
+    ctx.app.repositoryService.historyQueryRunRepository.getLastRun.mockReturnValueOnce({ id: 'runId', status: 'ERRORED' });
+    ctx.app.repositoryService.historyQueryRunRepository.getIntervals.mockReturnValueOnce([{ status: 'ERRORED' }]);
+    ctx.app.reloadService.onRetryHistoryQueryIntervals.mockImplementationOnce(() => {
+      throw new Error('retry error');
+    });
+    await historyQueryController.retryHistoryQueryIntervals(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('retry error');
+    expect(ctx.noContent).not.toHaveBeenCalled();
+  });
+
   it('createHistoryQuery() should return 404 when South connector not found', async () => {
     ctx.request.body = { ...JSON.parse(JSON.stringify(historyQueryCreateCommand)), fromSouthId: 'id1' };
 
@@ -631,6 +1097,73 @@ describe('History query controller', () => {
     expect(ctx.noContent).toHaveBeenCalled();
   });
 
+  it('updateHistoryQuery() should encrypt additional North targets from their previous settings', async () => {
+    ctx.request.body = {
+      historyQuery: {
+        ...historyQueryCommand,
+        additionalNorths: [{ id: 'targetId', northType: 'north-test', northSettings: { field: 'new' }, caching: northCacheSettings }]
+      },
+      resetCache: false,
+      items: [],
+      itemIdsToDelete: []
+    };
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue({
+      ...historyQuery,
+      additionalNorths: [{ id: 'targetId', northType: 'north-test', northSettings: { field: 'previous' }, caching: northCacheSettings }]
+    });
+
+    await historyQueryController.updateHistoryQuery(ctx);
+
+    expect(ctx.app.encryptionService.encryptConnectorSecrets).toHaveBeenCalledWith(
+      { field: 'new' },
+      { field: 'previous' },
+      northTestManifest.settings
+    );
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('updateHistoryQuery() should update History Query sending its data to an existing North connector', async () => {
+    ctx.request.body = {
+      historyQuery: { ...historyQueryCommand, northId: 'northId' },
+      resetCache: false,
+      items: [],
+      itemIdsToDelete: []
+    };
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue(historyQuery);
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue({ ...northConnector, type: 'north-test' });
+
+    await historyQueryController.updateHistoryQuery(ctx);
+
+    expect(validator.validateSettings).not.toHaveBeenCalledWith(northTestManifest.settings, {});
+    expect(ctx.app.reloadService.onUpdateHistoryQuerySettings).toHaveBeenCalledWith(
+      'id',
+      expect.objectContaining({ northId: 'northId', northType: 'north-test', northSettings: {} })
+    );
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('updateHistoryQuery() should check the new settings of a History Query leaving an existing North connector', async () => {
+    ctx.request.body = {
+      historyQuery: { ...historyQueryCommand, northSettings: { field: 'new' } },
+      resetCache: false,
+      items: [],
+      itemIdsToDelete: []
+    };
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.historyQueryRepository.getHistoryQuery.mockReturnValue({
+      ...historyQuery,
+      northId: 'northId',
+      northSettings: {}
+    });
+
+    await historyQueryController.updateHistoryQuery(ctx);
+
+    expect(validator.validateSettings).toHaveBeenCalledWith(northTestManifest.settings, { field: 'new' });
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
   it('updateHistoryQuery() should update History Query with scanModeName', async () => {
     ctx.request.body = {
       historyQuery: { ...JSON.parse(JSON.stringify(historyQueryCreateCommand.historyQuery)) },
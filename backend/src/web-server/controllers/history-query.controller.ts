@@ -3,6 +3,13 @@ import {
   HistoryQueryCommandDTO,
   HistoryQueryCreateCommandDTO,
   HistoryQueryDTO,
+  HistoryQueryNorthCommandDTO,
+  HistoryQueryNorthDTO,
+  HistoryQueryItemContent,
+  HistoryQueryReportDTO,
+  HistoryQueryRunDTO,
+  HistoryQueryRunIntervalDTO,
+  HistoryQueryScheduleDTO,
   SouthHistoryQueryItemDTO
 } from '../../../../shared/model/history-query.model';
 import JoiValidator from './validators/joi.validator';
@@ -21,6 +28,15 @@ import AbstractController from './abstract.controller';
 import Joi from 'joi';
 import { NorthCacheSettingsDTO, NorthConnectorCommandDTO, NorthConnectorDTO } from '../../../../shared/model/north-connector.model';
 import { OIBusContent } from '../../../../shared/model/engine.model';
+import { DateTime, IANAZone } from 'luxon';
+
+const DEFAULT_SCHEDULE: HistoryQueryScheduleDTO = {
+  enabled: false,
+  scanModeId: null,
+  windowDuration: 1,
+  windowUnit: 'day',
+  timezone: 'UTC'
+};
 
 interface HistoryQueryWithItemsCommandDTO {
   historyQuery: HistoryQueryCommandDTO;
@@ -46,6 +62,7 @@ export default class HistoryQueryController extends AbstractController {
         if (southManifest && northManifest) {
           historyQuery.southSettings = ctx.app.encryptionService.filterSecrets(historyQuery.southSettings, southManifest.settings);
           historyQuery.northSettings = ctx.app.encryptionService.filterSecrets(historyQuery.northSettings, northManifest.settings);
+          historyQuery.additionalNorths = this.filterAdditionalNorthsSecrets(ctx, historyQuery.additionalNorths);
           return historyQuery;
         }
         return null;
@@ -63,12 +80,104 @@ export default class HistoryQueryController extends AbstractController {
     if (southManifest && northManifest) {
       historyQuery.southSettings = ctx.app.encryptionService.filterSecrets(historyQuery.southSettings, southManifest.settings);
       historyQuery.northSettings = ctx.app.encryptionService.filterSecrets(historyQuery.northSettings, northManifest.settings);
+      historyQuery.additionalNorths = this.filterAdditionalNorthsSecrets(ctx, historyQuery.additionalNorths);
       return ctx.ok(historyQuery);
     } else {
       ctx.notFound();
     }
   };
 
+  getHistoryQueryRuns = (ctx: KoaContext<void, Array<HistoryQueryRunDTO>>) => {
+    const historyQuery = ctx.app.repositoryService.historyQueryRepository.getHistoryQuery(ctx.params.id);
+    if (!historyQuery) {
+      return ctx.notFound();
+    }
+    ctx.ok(ctx.app.repositoryService.historyQueryRunRepository.getRuns(historyQuery.id));
+  };
+
+  /**
+   * Report of the run given in query params, or of the last run
+   */
+  getHistoryQueryReport = (ctx: KoaContext<void, HistoryQueryReportDTO>) => {
+    const historyQuery = ctx.app.repositoryService.historyQueryRepository.getHistoryQuery(ctx.params.id);
+    if (!historyQuery) {
+      return ctx.notFound();
+    }
+    const run = this.findRun(ctx, historyQuery.id);
+    if (!run) {
+      return ctx.notFound();
+    }
+    const intervals = ctx.app.repositoryService.historyQueryRunRepository.getIntervals(run.id);
+    const itemNames = this.getItemNames(ctx, historyQuery.id);
+
+    const contentByItem = new Map<string, HistoryQueryItemContent>(
+      [...itemNames.values()].map(itemName => [itemName, { numberOfValues: 0, numberOfFiles: 0 }])
+    );
+    for (const interval of intervals) {
+      for (const [itemName, content] of Object.entries(interval.contentByItem)) {
+        const itemContent = contentByItem.get(itemName) || { numberOfValues: 0, numberOfFiles: 0 };
+        contentByItem.set(itemName, {
+          numberOfValues: itemContent.numberOfValues + content.numberOfValues,
+          numberOfFiles: itemContent.numberOfFiles + content.numberOfFiles
+        });
+      }
+    }
+    const getItemName = (interval: HistoryQueryRunIntervalDTO) =>
+      interval.itemId ? itemNames.get(interval.itemId) || interval.itemId : null;
+
+    ctx.ok({
+      run,
+      duration: DateTime.fromISO(run.runEnd || DateTime.now().toUTC().toISO()!).toMillis() - DateTime.fromISO(run.runStart).toMillis(),
+      requestedIntervals: intervals.length,
+      completedIntervals: intervals.filter(interval => interval.status === 'DONE').length,
+      erroredIntervals: intervals.filter(interval => interval.status === 'ERRORED').length,
+      numberOfValues: intervals.reduce((sum, interval) => sum + interval.numberOfValues, 0),
+      numberOfFiles: intervals.reduce((sum, interval) => sum + interval.numberOfFiles, 0),
+      items: [...contentByItem.entries()].map(([itemName, content]) => ({ itemName, ...content })),
+      emptyIntervals: intervals
+        .filter(interval => interval.status === 'DONE' && interval.numberOfValues === 0 && interval.numberOfFiles === 0)
+        .map(interval => ({ startTime: interval.startTime, endTime: interval.endTime, itemName: getItemName(interval) })),
+      errors: intervals
+        .filter(interval => interval.status === 'ERRORED')
+        .map(interval => ({
+          startTime: interval.startTime,
+          endTime: interval.endTime,
+          itemName: getItemName(interval),
+          error: interval.error!
+        }))
+    });
+  };
+
+  /**
+   * Export the intervals queried by the run given in query params, or by the last run, in a CSV file
+   */
+  exportHistoryQueryReport = (ctx: KoaContext<void, any>) => {
+    const historyQuery = ctx.app.repositoryService.historyQueryRepository.getHistoryQuery(ctx.params.id);
+    if (!historyQuery) {
+      return ctx.notFound();
+    }
+    const run = this.findRun(ctx, historyQuery.id);
+    if (!run) {
+      return ctx.notFound();
+    }
+    const itemNames = this.getItemNames(ctx, historyQuery.id);
+    const intervals = ctx.app.repositoryService.historyQueryRunRepository.getIntervals(run.id).map(interval => ({
+      startTime: interval.startTime,
+      endTime: interval.endTime,
+      item: interval.itemId ? itemNames.get(interval.itemId) || interval.itemId : '',
+      status: interval.status,
+      numberOfValues: interval.numberOfValues,
+      numberOfFiles: interval.numberOfFiles,
+      error: interval.error || ''
+    }));
+    ctx.body = csv.unparse(intervals, {
+      columns: ['startTime', 'endTime', 'item', 'status', 'numberOfValues', 'numberOfFiles', 'error']
+    });
+    ctx.set('Content-disposition', `attachment; filename=report-${run.id}.csv`);
+    ctx.set('Content-Type', 'application/force-download');
+    ctx.ok();
+  };
+
   createHistoryQuery = async (ctx: KoaContext<HistoryQueryCreateCommandDTO, void>) => {
     if (!ctx.request.body || !ctx.request.body.items || !ctx.request.body.historyQuery) {
       return ctx.badRequest();
@@ -88,6 +197,9 @@ export default class HistoryQueryController extends AbstractController {
       }
     }
 
+    if (!this.setExistingNorth(ctx, command)) {
+      return ctx.throw(404, 'North connector not found');
+    }
     const northManifest = ctx.app.northService.getInstalledNorthManifests().find(manifest => manifest.id === command.northType);
     if (!northManifest) {
       return ctx.throw(404, 'North manifest not found');
@@ -126,7 +238,9 @@ export default class HistoryQueryController extends AbstractController {
       }
 
       await this.validator.validateSettings(southManifest.settings, command.southSettings);
-      await this.validator.validateSettings(northManifest.settings, command.northSettings);
+      if (!command.northId) {
+        await this.validator.validateSettings(northManifest.settings, command.northSettings);
+      }
       // Check if item settings match the item schema, throw an error otherwise
       for (const item of itemsToAdd) {
         await this.validator.validateSettings(southManifest.items.settings, item.settings);
@@ -137,11 +251,15 @@ export default class HistoryQueryController extends AbstractController {
         southSource,
         southManifest.settings
       );
-      command.northSettings = await ctx.app.encryptionService.encryptConnectorSecrets(
-        command.northSettings,
-        northSource,
-        northManifest.settings
-      );
+      if (!command.northId) {
+        command.northSettings = await ctx.app.encryptionService.encryptConnectorSecrets(
+          command.northSettings,
+          northSource,
+          northManifest.settings
+        );
+      }
+      await this.prepareAdditionalNorths(ctx, command, duplicatedHistory?.additionalNorths || []);
+      this.checkSchedule(ctx, command);
 
       const historyQuery = await ctx.app.reloadService.onCreateHistoryQuery(command, itemsToAdd);
       ctx.created(historyQuery);
@@ -170,6 +288,9 @@ export default class HistoryQueryController extends AbstractController {
     }
 
     const command = ctx.request.body.historyQuery as HistoryQueryCommandDTO;
+    if (!this.setExistingNorth(ctx, command)) {
+      return ctx.throw(404, 'North connector not found');
+    }
     try {
       const scanModes = ctx.app.repositoryService.scanModeRepository.getScanModes();
       if (!command.caching.scanModeId && !command.caching.scanModeName) {
@@ -183,7 +304,13 @@ export default class HistoryQueryController extends AbstractController {
       }
 
       await this.validator.validateSettings(southManifest.settings, historyQuery.southSettings);
-      await this.validator.validateSettings(northManifest.settings, historyQuery.northSettings);
+      if (!command.northId) {
+        // Without previous North settings (existing North connector), the settings of the command are checked
+        await this.validator.validateSettings(
+          northManifest.settings,
+          historyQuery.northId ? command.northSettings : historyQuery.northSettings
+        );
+      }
       // Check if item settings match the item schema, throw an error otherwise
       for (const item of ctx.request.body!.items) {
         await this.validator.validateSettings(southManifest.items.settings, item.settings);
@@ -195,11 +322,15 @@ export default class HistoryQueryController extends AbstractController {
         southManifest.settings
       );
 
-      command.northSettings = await ctx.app.encryptionService.encryptConnectorSecrets(
-        command.northSettings,
-        historyQuery.northSettings,
-        northManifest.settings
-      );
+      if (!command.northId) {
+        command.northSettings = await ctx.app.encryptionService.encryptConnectorSecrets(
+          command.northSettings,
+          historyQuery.northSettings,
+          northManifest.settings
+        );
+      }
+      await this.prepareAdditionalNorths(ctx, command, historyQuery.additionalNorths);
+      this.checkSchedule(ctx, command);
 
       const resetCache = ctx.request.body.resetCache;
       const itemsToAdd = ctx.request.body!.items.filter(item => !item.id);
@@ -239,6 +370,31 @@ export default class HistoryQueryController extends AbstractController {
     }
   };
 
+  retryHistoryQueryIntervals = async (ctx: KoaContext<void, void>) => {
+    const historyQuery = ctx.app.repositoryService.historyQueryRepository.getHistoryQuery(ctx.params.id);
+    if (!historyQuery) {
+      return ctx.notFound();
+    }
+    const lastRun = ctx.app.repositoryService.historyQueryRunRepository.getLastRun(historyQuery.id);
+    if (!lastRun) {
+      return ctx.notFound();
+    }
+    if (lastRun.status === 'RUNNING') {
+      return ctx.badRequest('The last run of the History query is still running');
+    }
+    const intervals = ctx.app.repositoryService.historyQueryRunRepository.getIntervals(lastRun.id);
+    if (!intervals.some(interval => interval.status === 'ERRORED')) {
+      return ctx.badRequest('The last run of the History query has no failed interval');
+    }
+
+    try {
+      await ctx.app.reloadService.onRetryHistoryQueryIntervals(historyQuery.id);
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  };
+
   pauseHistoryQuery = async (ctx: KoaContext<void, void>) => {
     const historyQuery = ctx.app.repositoryService.historyQueryRepository.getHistoryQuery(ctx.params.id);
     if (!historyQuery) {
@@ -554,7 +710,7 @@ export default class HistoryQueryController extends AbstractController {
       const southToTest = ctx.app.southService.createSouth(
         command,
         /* istanbul ignore next: noop function */
-        async (_southId: string, _content: OIBusContent) => {},
+        async (_southId: string, _content: OIBusContent) => 0,
         'baseFolder',
         logger
       );
@@ -622,4 +778,107 @@ export default class HistoryQueryController extends AbstractController {
       ctx.badRequest(error.message);
     }
   }
+
+  /**
+   * A history query sending its data to an existing North connector takes the type of this North, without duplicating
+   * its settings. Return false if the North connector does not exist
+   */
+  private setExistingNorth(ctx: KoaContext<any, any>, command: HistoryQueryCommandDTO): boolean {
+    command.northId = command.northId || null;
+    if (!command.northId) {
+      return true;
+    }
+    const north = ctx.app.repositoryService.northConnectorRepository.getNorthConnector(command.northId);
+    if (!north) {
+      return false;
+    }
+    command.northType = north.type;
+    command.northSettings = {};
+    return true;
+  }
+
+  /**
+   * Check the settings of the additional North targets of a history query and encrypt their secrets, retrieved from
+   * the previous targets when they are not changed
+   */
+  private async prepareAdditionalNorths(
+    ctx: KoaContext<any, any>,
+    command: HistoryQueryCommandDTO,
+    previousNorths: Array<HistoryQueryNorthDTO>
+  ): Promise<void> {
+    command.additionalNorths = command.additionalNorths || [];
+    for (const target of command.additionalNorths) {
+      const manifest = ctx.app.northService.getInstalledNorthManifests().find(manifest => manifest.id === target.northType);
+      if (!manifest) {
+        throw new Error(`North manifest ${target.northType} not found`);
+      }
+      this.setAdditionalNorthScanMode(ctx, target);
+      await this.validator.validateSettings(manifest.settings, target.northSettings);
+      target.northSettings = await ctx.app.encryptionService.encryptConnectorSecrets(
+        target.northSettings,
+        previousNorths.find(north => north.id === target.id)?.northSettings,
+        manifest.settings
+      );
+    }
+  }
+
+  private setAdditionalNorthScanMode(ctx: KoaContext<any, any>, target: HistoryQueryNorthCommandDTO): void {
+    if (target.caching.scanModeId) {
+      return;
+    }
+    if (!target.caching.scanModeName) {
+      throw new Error(`Scan mode not specified`);
+    }
+    const scanMode = ctx.app.repositoryService.scanModeRepository
+      .getScanModes()
+      .find(element => element.name === target.caching.scanModeName);
+    if (!scanMode) {
+      throw new Error(`Scan mode ${target.caching.scanModeName} not found`);
+    }
+    target.caching.scanModeId = scanMode.id;
+  }
+
+  /**
+   * A history query sent without schedule is not scheduled, and the missing settings of a disabled schedule take their
+   * default values. A scheduled history query needs the scan mode starting its runs and the timezone of its window
+   */
+  private checkSchedule(ctx: KoaContext<any, any>, command: HistoryQueryCommandDTO): void {
+    command.schedule = { ...DEFAULT_SCHEDULE, ...command.schedule };
+    if (!command.schedule.enabled) {
+      return;
+    }
+    if (!command.schedule.scanModeId) {
+      throw new Error(`Scan mode not specified`);
+    }
+    if (!ctx.app.repositoryService.scanModeRepository.getScanMode(command.schedule.scanModeId)) {
+      throw new Error(`Scan mode ${command.schedule.scanModeId} not found`);
+    }
+    if (!IANAZone.isValidZone(command.schedule.timezone)) {
+      throw new Error(`Timezone ${command.schedule.timezone} not valid`);
+    }
+  }
+
+  private findRun(ctx: KoaContext<void, any>, historyId: string): HistoryQueryRunDTO | null {
+    if (ctx.query.runId) {
+      return ctx.app.repositoryService.historyQueryRunRepository.getRuns(historyId).find(run => run.id === ctx.query.runId) || null;
+    }
+    return ctx.app.repositoryService.historyQueryRunRepository.getLastRun(historyId);
+  }
+
+  private getItemNames(ctx: KoaContext<void, any>, historyId: string): Map<string, string> {
+    return new Map(ctx.app.repositoryService.historyQueryItemRepository.listHistoryItems(historyId, {}).map(item => [item.id, item.name]));
+  }
+
+  private filterAdditionalNorthsSecrets(
+    ctx: KoaContext<any, any>,
+    additionalNorths: Array<HistoryQueryNorthDTO>
+  ): Array<HistoryQueryNorthDTO> {
+    return additionalNorths.map(target => {
+      const manifest = ctx.app.northService.getInstalledNorthManifests().find(manifest => manifest.id === target.northType);
+      return {
+        ...target,
+        northSettings: manifest ? ctx.app.encryptionService.filterSecrets(target.northSettings, manifest.settings) : {}
+      };
+    });
+  }
 }
@@ -578,18 +578,29 @@ describe('North connector controller', () => {
 
     await northConnectorController.deleteNorthConnector(ctx);
 
-    expect(ctx.app.repositoryService.subscriptionRepository.deleteNorthSubscriptions).toHaveBeenCalledWith('id');
     expect(ctx.app.reloadService.onDeleteNorth).toHaveBeenCalledWith('id');
     expect(ctx.noContent).toHaveBeenCalled();
   });
 
+  it('deleteNorthConnector() should not delete a North connector used by a History query', async () => {
+    ctx.params.id = 'id';
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue(northConnector);
+    ctx.app.reloadService.onDeleteNorth.mockImplementationOnce(() => {
+      throw new Error(`North connector "${northConnector.name}" is used by History query "history"`);
+    });
+
+    await northConnectorController.deleteNorthConnector(ctx);
+
+    expect(ctx.noContent).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith(`North connector "${northConnector.name}" is used by History query "history"`);
+  });
+
   it('deleteNorthConnector() should return not found when North connector not found', async () => {
     ctx.params.id = 'id';
     ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue(null);
 
     await northConnectorController.deleteNorthConnector(ctx);
 
-    expect(ctx.app.repositoryService.subscriptionRepository.deleteNorthSubscriptions).not.toHaveBeenCalled();
     expect(ctx.app.reloadService.onDeleteNorth).not.toHaveBeenCalled();
     expect(ctx.notFound).toHaveBeenCalled();
   });
@@ -11,6 +11,16 @@ import {
 } from '../../../../shared/model/south-connector.model';
 import { southTestManifest } from '../../tests/__mocks__/south-service.mock';
 import { ScanModeDTO } from '../../../../shared/model/scan-mode.model';
+import {
+  southCacheRewindSchema,
+  southCacheSchema,
+  southItemDiscoverySchema,
+  southItemMaxInstantSchema,
+  southItemWriteSchema,
+  southMethodCallSchema
+} from './validators/oibus-validation-schema';
+
+import PinoLogger from '../../tests/__mocks__/logger.mock';
 
 jest.mock('./validators/joi.validator');
 jest.mock('papaparse');
@@ -758,6 +768,28 @@ describe('South connector controller', () => {
     expect(ctx.ok).toHaveBeenCalledWith(page);
   });
 
+  it('searchSouthItems() should return South items with their max instant', async () => {
+    ctx.params.southId = 'id';
+    ctx.query = {};
+    ctx.app.repositoryService.southItemRepository.searchSouthItems.mockReturnValue(page);
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southCacheRepository.getSouthCacheScanMode.mockReturnValueOnce({
+      southId: 'id',
+      scanModeId: item.scanModeId,
+      itemId: item.id,
+      maxInstant: '2020-02-02T02:02:02.222Z'
+    });
+
+    await southConnectorController.searchSouthItems(ctx);
+
+    expect(ctx.app.repositoryService.southCacheRepository.getSouthCacheScanMode).toHaveBeenCalledWith(
+      southConnector.id,
+      item.scanModeId,
+      item.id
+    );
+    expect(ctx.ok).toHaveBeenCalledWith({ ...page, content: [{ ...item, maxInstant: '2020-02-02T02:02:02.222Z' }] });
+  });
+
   it('getSouthItem() should return South item', async () => {
     ctx.params.id = 'id';
     ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue(item);
@@ -995,6 +1027,420 @@ describe('South connector controller', () => {
     expect(ctx.noContent).toHaveBeenCalled();
   });
 
+  it('writeSouthItem() should write South item value', async () => {
+    ctx.params.southId = 'id';
+    ctx.params.id = 'id';
+    ctx.request.body = { value: 12 };
+    ctx.state.user = 'admin';
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue({ ...item, connectorId: 'id' });
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, write: true } }
+    ]);
+
+    await southConnectorController.writeSouthItem(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(southItemWriteSchema, { value: 12 });
+    expect(ctx.app.reloadService.writeSouthItem).toHaveBeenCalledWith('id', { ...item, connectorId: 'id' }, 12, 'admin');
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('writeSouthItem() should return bad request when write fails', async () => {
+    ctx.request.body = { value: 12 };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue({ ...item, connectorId: 'id' });
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, write: true } }
+    ]);
+    ctx.app.reloadService.writeSouthItem.mockImplementationOnce(() => {
+      throw new Error('write error');
+    });
+
+    await southConnectorController.writeSouthItem(ctx);
+
+    expect(ctx.badRequest).toHaveBeenCalledWith('write error');
+  });
+
+  it('writeSouthItem() should return bad request when South does not support write', async () => {
+    ctx.request.body = { value: 12 };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue({ ...item, connectorId: 'id' });
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([southTestManifest]);
+
+    await southConnectorController.writeSouthItem(ctx);
+
+    expect(ctx.app.reloadService.writeSouthItem).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith('South connector of type "south-test" does not support write');
+  });
+
+  it('writeSouthItem() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.writeSouthItem(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValueOnce(item);
+    await southConnectorController.writeSouthItem(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South item not found');
+    expect(ctx.app.reloadService.writeSouthItem).not.toHaveBeenCalled();
+  });
+
+  it('setSouthItemMaxInstant() should set South item max instant', async () => {
+    ctx.params.southId = 'id';
+    ctx.params.id = 'id';
+    ctx.request.body = { maxInstant: '2020-02-02T02:02:02.222Z' };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue({ ...item, connectorId: 'id' });
+
+    ctx.app.repositoryService.southCacheRepository.getSouthCacheScanMode.mockReturnValueOnce({
+      southId: 'id',
+      scanModeId: item.scanModeId,
+      itemId: item.id,
+      maxInstant: '2021-02-02T02:02:02.222Z'
+    });
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockReturnValueOnce({ id: 'scanModeId', name: 'scanMode' });
+    ctx.state.user = 'admin';
+    const logger = new PinoLogger();
+    ctx.app.logger.child.mockReturnValueOnce(logger);
+
+    await southConnectorController.setSouthItemMaxInstant(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(southItemMaxInstantSchema, { maxInstant: '2020-02-02T02:02:02.222Z' });
+    expect(ctx.app.reloadService.onSetSouthCacheMaxInstant).toHaveBeenCalledWith({
+      southId: southConnector.id,
+      scanModeId: item.scanModeId,
+      itemId: item.id,
+      maxInstant: '2020-02-02T02:02:02.222Z'
+    });
+    expect(ctx.app.logger.child).toHaveBeenCalledWith({ scopeType: 'south', scopeId: southConnector.id, scopeName: southConnector.name });
+    expect(logger.info).toHaveBeenCalledWith(
+      'User "admin" set the max instant of item "name" for scan mode "scanMode" from 2021-02-02T02:02:02.222Z to 2020-02-02T02:02:02.222Z'
+    );
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('setSouthItemMaxInstant() should return bad request', async () => {
+    ctx.request.body = { maxInstant: 'invalid' };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue({ ...item, connectorId: 'id' });
+    (validator.validate as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('validation error');
+    });
+    await southConnectorController.setSouthItemMaxInstant(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('validation error');
+
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({
+      ...southConnector,
+      history: { ...southConnector.history, maxInstantPerItem: false }
+    });
+    await southConnectorController.setSouthItemMaxInstant(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith(`South connector "${southConnector.name}" does not keep a max instant per item`);
+    expect(ctx.app.reloadService.onSetSouthCacheMaxInstant).not.toHaveBeenCalled();
+  });
+
+  it('setSouthItemMaxInstant() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.setSouthItemMaxInstant(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValueOnce(item);
+    await southConnectorController.setSouthItemMaxInstant(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South item not found');
+    expect(ctx.app.reloadService.onSetSouthCacheMaxInstant).not.toHaveBeenCalled();
+  });
+
+  it('getSouthCache() should return the cache entries of the South', async () => {
+    const cacheEntries = [{ southId: southConnector.id, scanModeId: 'scanModeId', itemId: 'id', maxInstant: '2020-02-02T02:02:02.222Z' }];
+    ctx.params.southId = 'id';
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.southCacheRepository.getSouthCacheScanModes.mockReturnValueOnce(cacheEntries);
+
+    await southConnectorController.getSouthCache(ctx);
+
+    expect(ctx.app.repositoryService.southCacheRepository.getSouthCacheScanModes).toHaveBeenCalledWith(southConnector.id);
+    expect(ctx.ok).toHaveBeenCalledWith(cacheEntries);
+  });
+
+  it('getSouthCache() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.getSouthCache(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+  });
+
+  it('setSouthCacheMaxInstant() should set the max instant of a cache entry', async () => {
+    const command = { scanModeId: 'scanModeId', itemId: 'all', maxInstant: '2020-02-02T02:02:02.222Z' };
+    ctx.params.southId = 'id';
+    ctx.request.body = command;
+    ctx.state.user = 'admin';
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({
+      ...southConnector,
+      history: { ...southConnector.history, maxInstantPerItem: false }
+    });
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockReturnValue({ id: 'scanModeId', name: 'scanMode' });
+    ctx.app.repositoryService.southCacheRepository.getSouthCacheScanMode.mockReturnValueOnce(null);
+    const logger = new PinoLogger();
+    ctx.app.logger.child.mockReturnValueOnce(logger);
+
+    await southConnectorController.setSouthCacheMaxInstant(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(southCacheSchema, command);
+    expect(ctx.app.reloadService.onSetSouthCacheMaxInstant).toHaveBeenCalledWith({ southId: southConnector.id, ...command });
+    expect(logger.info).toHaveBeenCalledWith(
+      'User "admin" set the max instant of the items of scan mode "scanMode" from none to 2020-02-02T02:02:02.222Z'
+    );
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('setSouthCacheMaxInstant() should return bad request', async () => {
+    ctx.request.body = { scanModeId: 'scanModeId', itemId: 'all', maxInstant: '2020-02-02T02:02:02.222Z' };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockReturnValueOnce(null);
+    await southConnectorController.setSouthCacheMaxInstant(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('Scan mode "scanModeId" not found');
+
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockReturnValue({ id: 'scanModeId', name: 'scanMode' });
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValueOnce(null);
+    await southConnectorController.setSouthCacheMaxInstant(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('South item "all" not found');
+
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({
+      ...southConnector,
+      history: { ...southConnector.history, maxInstantPerItem: false }
+    });
+    ctx.request.body = { scanModeId: 'scanModeId', itemId: 'id', maxInstant: '2020-02-02T02:02:02.222Z' };
+    await southConnectorController.setSouthCacheMaxInstant(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith(`South connector "${southConnector.name}" keeps a max instant for all its items`);
+
+    (validator.validate as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('validation error');
+    });
+    await southConnectorController.setSouthCacheMaxInstant(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('validation error');
+    expect(ctx.app.reloadService.onSetSouthCacheMaxInstant).not.toHaveBeenCalled();
+  });
+
+  it('setSouthCacheMaxInstant() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.setSouthCacheMaxInstant(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+  });
+
+  it('rewindSouthCache() should rewind the cache entries', async () => {
+    ctx.params.southId = 'id';
+    ctx.request.body = { maxInstant: '2020-02-02T02:02:02.222Z' };
+    ctx.state.user = 'admin';
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.repositoryService.scanModeRepository.getScanMode.mockReturnValue(null);
+    ctx.app.repositoryService.southItemRepository.getSouthItem.mockReturnValue(item);
+    ctx.app.reloadService.onRewindSouthCache.mockReturnValueOnce([
+      { southId: southConnector.id, scanModeId: 'scanModeId', itemId: 'id', maxInstant: '2021-02-02T02:02:02.222Z' }
+    ]);
+    const logger = new PinoLogger();
+    ctx.app.logger.child.mockReturnValueOnce(logger);
+
+    await southConnectorController.rewindSouthCache(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(southCacheRewindSchema, { maxInstant: '2020-02-02T02:02:02.222Z' });
+    expect(ctx.app.reloadService.onRewindSouthCache).toHaveBeenCalledWith(southConnector.id, '2020-02-02T02:02:02.222Z');
+    expect(logger.info).toHaveBeenCalledWith(
+      'User "admin" set the max instant of item "name" for scan mode "scanModeId" from 2021-02-02T02:02:02.222Z to 2020-02-02T02:02:02.222Z'
+    );
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('rewindSouthCache() should return bad request', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    (validator.validate as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('validation error');
+    });
+    await southConnectorController.rewindSouthCache(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('validation error');
+    expect(ctx.app.reloadService.onRewindSouthCache).not.toHaveBeenCalled();
+  });
+
+  it('rewindSouthCache() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.rewindSouthCache(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+  });
+
+  it('callSouthMethod() should call South method', async () => {
+    const methodCall = { objectId: 'objectId', methodId: 'methodId', inputArguments: [12, 'fast'] };
+    ctx.params.southId = 'id';
+    ctx.request.body = methodCall;
+    ctx.state.user = 'admin';
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, methodCall: true } }
+    ]);
+    ctx.app.reloadService.callSouthMethod.mockReturnValueOnce(['started']);
+
+    await southConnectorController.callSouthMethod(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(southMethodCallSchema, methodCall);
+    expect(ctx.app.reloadService.callSouthMethod).toHaveBeenCalledWith('id', 'objectId', 'methodId', [12, 'fast'], 'admin');
+    expect(ctx.ok).toHaveBeenCalledWith({ outputArguments: ['started'] });
+  });
+
+  it('callSouthMethod() should return bad request when call fails', async () => {
+    ctx.request.body = { objectId: 'objectId', methodId: 'methodId', inputArguments: [] };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, methodCall: true } }
+    ]);
+    ctx.app.reloadService.callSouthMethod.mockImplementationOnce(() => {
+      throw new Error('call error');
+    });
+
+    await southConnectorController.callSouthMethod(ctx);
+
+    expect(ctx.badRequest).toHaveBeenCalledWith('call error');
+  });
+
+  it('callSouthMethod() should return bad request when South does not support method calls', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([southTestManifest]);
+
+    await southConnectorController.callSouthMethod(ctx);
+
+    expect(ctx.app.reloadService.callSouthMethod).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith('South connector of type "south-test" does not support method calls');
+  });
+
+  it('callSouthMethod() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.callSouthMethod(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+    expect(ctx.app.reloadService.callSouthMethod).not.toHaveBeenCalled();
+  });
+
+  it('browseSouth() should browse South nodes', async () => {
+    const nodes = [
+      {
+        nodeId: 'ns=3;s=Temperature',
+        browseName: 'Temperature',
+        displayName: 'Temperature',
+        nodeClass: 'Variable',
+        dataType: 'Double',
+        accessLevel: ['CurrentRead'],
+        historizing: false
+      }
+    ];
+    ctx.params.id = 'id';
+    ctx.query.nodeId = 'ns=3;s=Folder';
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, browse: true } }
+    ]);
+    ctx.app.reloadService.browseSouth.mockReturnValueOnce(nodes);
+
+    await southConnectorController.browseSouth(ctx);
+
+    expect(ctx.app.reloadService.browseSouth).toHaveBeenCalledWith(southConnector.id, 'ns=3;s=Folder');
+    expect(ctx.ok).toHaveBeenCalledWith(nodes);
+
+    ctx.query.nodeId = '';
+    ctx.app.reloadService.browseSouth.mockReturnValueOnce([]);
+    await southConnectorController.browseSouth(ctx);
+    expect(ctx.app.reloadService.browseSouth).toHaveBeenCalledWith(southConnector.id, null);
+  });
+
+  it('browseSouth() should return bad request when browse fails', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, browse: true } }
+    ]);
+    ctx.app.reloadService.browseSouth.mockImplementationOnce(() => {
+      throw new Error('browse error');
+    });
+
+    await southConnectorController.browseSouth(ctx);
+
+    expect(ctx.badRequest).toHaveBeenCalledWith('browse error');
+  });
+
+  it('browseSouth() should return bad request when South does not support browse', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([southTestManifest]);
+
+    await southConnectorController.browseSouth(ctx);
+
+    expect(ctx.app.reloadService.browseSouth).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith('South connector of type "south-test" does not support browse');
+  });
+
+  it('browseSouth() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.browseSouth(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+    expect(ctx.app.reloadService.browseSouth).not.toHaveBeenCalled();
+  });
+
+  it('discoverSouthItems() should discover South items', async () => {
+    const command = { topic: '#', duration: 10 };
+    const discoveredItems = [{ id: '', name: 'my/topic', enabled: true, connectorId: 'id', scanModeId: 'subscription', settings: {} }];
+    ctx.params.southId = 'id';
+    ctx.request.body = command;
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, discovery: true } }
+    ]);
+    const createdSouth = {
+      discoversItems: jest.fn().mockReturnValue(true),
+      discoverItems: jest.fn().mockReturnValue(discoveredItems)
+    };
+    (ctx.app.southService.createSouth as jest.Mock).mockReturnValue(createdSouth);
+
+    await southConnectorController.discoverSouthItems(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(southItemDiscoverySchema, command);
+    expect(ctx.app.logger.child).toHaveBeenCalledWith({ scopeType: 'south', scopeId: southConnector.id, scopeName: southConnector.name });
+    expect(ctx.app.southService.createSouth).toHaveBeenCalledWith(southConnector, expect.any(Function), 'baseFolder', undefined);
+    expect(createdSouth.discoverItems).toHaveBeenCalledWith(command);
+    expect(ctx.ok).toHaveBeenCalledWith(discoveredItems);
+  });
+
+  it('discoverSouthItems() should return bad request when discovery fails', async () => {
+    ctx.request.body = { topic: '#', duration: 10 };
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([
+      { ...southTestManifest, modes: { ...southTestManifest.modes, discovery: true } }
+    ]);
+    (ctx.app.southService.createSouth as jest.Mock)
+      .mockReturnValueOnce({
+        discoversItems: jest.fn().mockReturnValue(true),
+        discoverItems: jest.fn().mockImplementation(() => {
+          throw new Error('discovery error');
+        })
+      })
+      .mockReturnValueOnce({ discoversItems: jest.fn().mockReturnValue(false) });
+
+    await southConnectorController.discoverSouthItems(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('discovery error');
+
+    await southConnectorController.discoverSouthItems(ctx);
+    expect(ctx.badRequest).toHaveBeenCalledWith('South connector of type "south-test" does not support item discovery');
+  });
+
+  it('discoverSouthItems() should return bad request when South does not support discovery', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(southConnector);
+    ctx.app.southService.getInstalledSouthManifests.mockReturnValue([southTestManifest]);
+
+    await southConnectorController.discoverSouthItems(ctx);
+
+    expect(ctx.app.southService.createSouth).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith('South connector of type "south-test" does not support item discovery');
+  });
+
+  it('discoverSouthItems() should return not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValueOnce(null);
+    await southConnectorController.discoverSouthItems(ctx);
+    expect(ctx.notFound).toHaveBeenCalledWith('South not found');
+    expect(ctx.app.southService.createSouth).not.toHaveBeenCalled();
+  });
+
   it('deleteAllSouthItem() should delete all South items', async () => {
     ctx.params.southId = 'id';
 
@@ -1,18 +1,36 @@
 import { KoaContext } from '../koa';
 import csv from 'papaparse';
+import pino from 'pino';
 import {
+  SouthConnectorBrowseNodeDTO,
+  SouthCache,
+  SouthCacheCommandDTO,
+  SouthCacheRewindCommandDTO,
   SouthConnectorCommandDTO,
   SouthConnectorWithItemsCommandDTO,
   SouthConnectorDTO,
   SouthConnectorItemCommandDTO,
+  SouthConnectorItemDiscoveryCommandDTO,
   SouthConnectorItemDTO,
   SouthConnectorItemSearchParam,
   SouthType,
   SouthConnectorItemScanModeNameDTO,
-  SouthConnectorItemTestCommandDTO
+  SouthConnectorItemTestCommandDTO,
+  SouthConnectorItemMaxInstantCommandDTO,
+  SouthConnectorItemWriteCommandDTO,
+  SouthConnectorMethodCallCommandDTO,
+  SouthConnectorMethodCallResultDTO
 } from '../../../../shared/model/south-connector.model';
 import { Page } from '../../../../shared/model/types';
 import JoiValidator from './validators/joi.validator';
+import {
+  southItemDiscoverySchema,
+  southCacheRewindSchema,
+  southCacheSchema,
+  southItemMaxInstantSchema,
+  southItemWriteSchema,
+  southMethodCallSchema
+} from './validators/oibus-validation-schema';
 import fs from 'node:fs/promises';
 import { OIBusContent } from '../../../../shared/model/engine.model';
 
@@ -351,7 +369,7 @@ export default class SouthConnectorController {
 
   async listSouthItems(ctx: KoaContext<void, Array<SouthConnectorItemDTO>>): Promise<void> {
     const southItems = ctx.app.repositoryService.southItemRepository.listSouthItems(ctx.params.southId, {});
-    ctx.ok(southItems);
+    ctx.ok(this.addMaxInstants(ctx, southItems));
   }
 
   async searchSouthItems(ctx: KoaContext<void, Page<SouthConnectorItemDTO>>): Promise<void> {
@@ -360,7 +378,7 @@ export default class SouthConnectorController {
       name: ctx.query.name as string | undefined
     };
     const southItems = ctx.app.repositoryService.southItemRepository.searchSouthItems(ctx.params.southId, searchParams);
-    ctx.ok(southItems);
+    ctx.ok({ ...southItems, content: this.addMaxInstants(ctx, southItems.content) });
   }
 
   /**
@@ -637,10 +655,251 @@ export default class SouthConnectorController {
     ctx.noContent();
   }
 
+  /**
+   * Write a value on an item through its running South connector. The user is kept in the logs of the connector
+   */
+  async writeSouthItem(ctx: KoaContext<SouthConnectorItemWriteCommandDTO, void>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+    const southItem = ctx.app.repositoryService.southItemRepository.getSouthItem(ctx.params.id);
+    if (!southItem || southItem.connectorId !== southConnector.id) {
+      return ctx.notFound('South item not found');
+    }
+    const manifest = ctx.app.southService.getInstalledSouthManifests().find(southManifest => southManifest.id === southConnector.type);
+    if (!manifest?.modes.write) {
+      return ctx.badRequest(`South connector of type "${southConnector.type}" does not support write`);
+    }
+
+    try {
+      await this.validator.validate(southItemWriteSchema, ctx.request.body);
+      await ctx.app.reloadService.writeSouthItem(southConnector.id, southItem, ctx.request.body!.value, ctx.state.user);
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  /**
+   * Set the max instant of an item, to query its history again from this instant on the next run of its scan mode
+   */
+  async setSouthItemMaxInstant(ctx: KoaContext<SouthConnectorItemMaxInstantCommandDTO, void>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+    const southItem = ctx.app.repositoryService.southItemRepository.getSouthItem(ctx.params.id);
+    if (!southItem || southItem.connectorId !== southConnector.id) {
+      return ctx.notFound('South item not found');
+    }
+    if (!southConnector.history.maxInstantPerItem) {
+      return ctx.badRequest(`South connector "${southConnector.name}" does not keep a max instant per item`);
+    }
+
+    try {
+      await this.validator.validate(southItemMaxInstantSchema, ctx.request.body);
+      await this.setCacheMaxInstant(ctx, southConnector, {
+        southId: southConnector.id,
+        scanModeId: southItem.scanModeId,
+        itemId: southItem.id,
+        maxInstant: ctx.request.body!.maxInstant
+      });
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  async getSouthCache(ctx: KoaContext<void, Array<SouthCache>>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+    ctx.ok(ctx.app.repositoryService.southCacheRepository.getSouthCacheScanModes(southConnector.id));
+  }
+
+  /**
+   * Set the max instant of a cache entry to rewind or fast-forward the history of its items
+   */
+  async setSouthCacheMaxInstant(ctx: KoaContext<SouthCacheCommandDTO, void>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+
+    try {
+      await this.validator.validate(southCacheSchema, ctx.request.body);
+      const command: SouthCacheCommandDTO = ctx.request.body!;
+      if (!ctx.app.repositoryService.scanModeRepository.getScanMode(command.scanModeId)) {
+        return ctx.badRequest(`Scan mode "${command.scanModeId}" not found`);
+      }
+      if (southConnector.history.maxInstantPerItem) {
+        const southItem = ctx.app.repositoryService.southItemRepository.getSouthItem(command.itemId);
+        if (!southItem || southItem.connectorId !== southConnector.id) {
+          return ctx.badRequest(`South item "${command.itemId}" not found`);
+        }
+      } else if (command.itemId !== 'all') {
+        return ctx.badRequest(`South connector "${southConnector.name}" keeps a max instant for all its items`);
+      }
+      await this.setCacheMaxInstant(ctx, southConnector, { southId: southConnector.id, ...command });
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  /**
+   * Set back all the cache entries beyond the given instant, to query again the history of all the items from it
+   */
+  async rewindSouthCache(ctx: KoaContext<SouthCacheRewindCommandDTO, void>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+
+    try {
+      await this.validator.validate(southCacheRewindSchema, ctx.request.body);
+      const maxInstant = ctx.request.body!.maxInstant;
+      const logger = this.createSouthLogger(ctx, southConnector);
+      for (const previousCacheEntry of await ctx.app.reloadService.onRewindSouthCache(southConnector.id, maxInstant)) {
+        logger.info(
+          `User "${ctx.state.user}" set the max instant of ${this.describeCacheEntry(ctx, previousCacheEntry)} ` +
+            `from ${previousCacheEntry.maxInstant} to ${maxInstant}`
+        );
+      }
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  async callSouthMethod(ctx: KoaContext<SouthConnectorMethodCallCommandDTO, SouthConnectorMethodCallResultDTO>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+    const manifest = ctx.app.southService.getInstalledSouthManifests().find(southManifest => southManifest.id === southConnector.type);
+    if (!manifest?.modes.methodCall) {
+      return ctx.badRequest(`South connector of type "${southConnector.type}" does not support method calls`);
+    }
+
+    try {
+      await this.validator.validate(southMethodCallSchema, ctx.request.body);
+      const outputArguments = await ctx.app.reloadService.callSouthMethod(
+        southConnector.id,
+        ctx.request.body!.objectId,
+        ctx.request.body!.methodId,
+        ctx.request.body!.inputArguments,
+        ctx.state.user
+      );
+      ctx.ok({ outputArguments });
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  async browseSouth(ctx: KoaContext<void, Array<SouthConnectorBrowseNodeDTO>>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.id);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+    const manifest = ctx.app.southService.getInstalledSouthManifests().find(southManifest => southManifest.id === southConnector.type);
+    if (!manifest?.modes.browse) {
+      return ctx.badRequest(`South connector of type "${southConnector.type}" does not support browse`);
+    }
+
+    try {
+      ctx.ok(await ctx.app.reloadService.browseSouth(southConnector.id, (ctx.query.nodeId as string) || null));
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  async discoverSouthItems(ctx: KoaContext<SouthConnectorItemDiscoveryCommandDTO, Array<SouthConnectorItemDTO>>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound('South not found');
+    }
+    const manifest = ctx.app.southService.getInstalledSouthManifests().find(southManifest => southManifest.id === southConnector.type);
+    if (!manifest?.modes.discovery) {
+      return ctx.badRequest(`South connector of type "${southConnector.type}" does not support item discovery`);
+    }
+
+    try {
+      await this.validator.validate(southItemDiscoverySchema, ctx.request.body);
+      const logger = ctx.app.logger.child({
+        scopeType: 'south',
+        scopeId: southConnector.id,
+        scopeName: southConnector.name
+      });
+      // A dedicated instance is used so that the discovery does not depend on the state of the running connector
+      const southToDiscover = ctx.app.southService.createSouth(southConnector, this.addContent, 'baseFolder', logger);
+      if (!southToDiscover.discoversItems()) {
+        return ctx.badRequest(`South connector of type "${southConnector.type}" does not support item discovery`);
+      }
+      ctx.ok(await southToDiscover.discoverItems(ctx.request.body!));
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
   async deleteAllSouthItem(ctx: KoaContext<void, void>): Promise<void> {
     await ctx.app.reloadService.onDeleteAllSouthItems(ctx.params.southId);
     ctx.noContent();
   }
 
-  async addContent(_southId: string, _content: OIBusContent): Promise<void> {}
+  /**
+   * Set the max instant of a cache entry, keeping an audit entry in the logs of the connector
+   */
+  private async setCacheMaxInstant(ctx: KoaContext<any, any>, southConnector: SouthConnectorDTO, command: SouthCache): Promise<void> {
+    const previousCacheEntry = ctx.app.repositoryService.southCacheRepository.getSouthCacheScanMode(
+      command.southId,
+      command.scanModeId,
+      command.itemId
+    );
+    await ctx.app.reloadService.onSetSouthCacheMaxInstant(command);
+    this.createSouthLogger(ctx, southConnector).info(
+      `User "${ctx.state.user}" set the max instant of ${this.describeCacheEntry(ctx, command)} ` +
+        `from ${previousCacheEntry?.maxInstant || 'none'} to ${command.maxInstant}`
+    );
+  }
+
+  private describeCacheEntry(ctx: KoaContext<any, any>, cacheEntry: SouthCache): string {
+    const scanMode = ctx.app.repositoryService.scanModeRepository.getScanMode(cacheEntry.scanModeId);
+    const scanModeName = scanMode?.name || cacheEntry.scanModeId;
+    if (cacheEntry.itemId === 'all') {
+      return `the items of scan mode "${scanModeName}"`;
+    }
+    const southItem = ctx.app.repositoryService.southItemRepository.getSouthItem(cacheEntry.itemId);
+    return `item "${southItem?.name || cacheEntry.itemId}" for scan mode "${scanModeName}"`;
+  }
+
+  private createSouthLogger(ctx: KoaContext<any, any>, southConnector: SouthConnectorDTO): pino.Logger {
+    return ctx.app.logger.child({
+      scopeType: 'south',
+      scopeId: southConnector.id,
+      scopeName: southConnector.name
+    });
+  }
+
+  /**
+   * Add to the items the max instant kept in the South cache, when the connector keeps one per item
+   */
+  private addMaxInstants(ctx: KoaContext<any, any>, southItems: Array<SouthConnectorItemDTO>): Array<SouthConnectorItemDTO> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector?.history.maxInstantPerItem) {
+      return southItems;
+    }
+    return southItems.map(item => ({
+      ...item,
+      maxInstant:
+        ctx.app.repositoryService.southCacheRepository.getSouthCacheScanMode(southConnector.id, item.scanModeId, item.id)?.maxInstant ||
+        null
+    }));
+  }
+
+  async addContent(_southId: string, _content: OIBusContent): Promise<number> {
+    return 0;
+  }
 }
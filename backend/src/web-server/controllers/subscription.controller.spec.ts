@@ -1,7 +1,12 @@
 import SubscriptionController from './subscription.controller';
 import KoaContextMock from '../../tests/__mocks__/koa-context.mock';
+import JoiValidator from './validators/joi.validator';
+import { subscriptionScriptDryRunSchema, subscriptionScriptSchema } from './validators/oibus-validation-schema';
 
-const subscriptionController = new SubscriptionController();
+jest.mock('./validators/joi.validator');
+
+const validator = new JoiValidator();
+const subscriptionController = new SubscriptionController(validator);
 
 const ctx = new KoaContextMock();
 describe('Subscription controller', () => {
@@ -158,4 +163,101 @@ describe('Subscription controller', () => {
     expect(ctx.app.reloadService.onDeleteNorthSubscription).not.toHaveBeenCalled();
     expect(ctx.notFound).toHaveBeenCalled();
   });
+
+  it('getNorthSubscriptionScript() should return the script', async () => {
+    ctx.params.northId = 'northId';
+    ctx.params.southId = 'southId';
+    ctx.app.repositoryService.subscriptionRepository.getNorthSubscriptionScript.mockReturnValue({ southId: 'southId', script: 'content' });
+
+    await subscriptionController.getNorthSubscriptionScript(ctx);
+
+    expect(ctx.app.repositoryService.subscriptionRepository.getNorthSubscriptionScript).toHaveBeenCalledWith('northId', 'southId');
+    expect(ctx.ok).toHaveBeenCalledWith({ southId: 'southId', script: 'content' });
+  });
+
+  it('getNorthSubscriptionScript() should return not found', async () => {
+    ctx.app.repositoryService.subscriptionRepository.getNorthSubscriptionScript.mockReturnValue(null);
+
+    await subscriptionController.getNorthSubscriptionScript(ctx);
+
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  it('updateNorthSubscriptionScript() should update the script', async () => {
+    ctx.params.northId = 'northId';
+    ctx.params.southId = 'southId';
+    ctx.request.body = { script: 'content' };
+    ctx.app.repositoryService.subscriptionRepository.checkNorthSubscription.mockReturnValue(true);
+
+    await subscriptionController.updateNorthSubscriptionScript(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(subscriptionScriptSchema, { script: 'content' });
+    expect(ctx.app.reloadService.onUpdateNorthSubscriptionScript).toHaveBeenCalledWith('northId', 'southId', 'content');
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('updateNorthSubscriptionScript() should return not found', async () => {
+    ctx.request.body = { script: 'content' };
+    ctx.app.repositoryService.subscriptionRepository.checkNorthSubscription.mockReturnValue(false);
+
+    await subscriptionController.updateNorthSubscriptionScript(ctx);
+
+    expect(ctx.app.reloadService.onUpdateNorthSubscriptionScript).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  it('updateNorthSubscriptionScript() should return bad request', async () => {
+    ctx.request.body = { script: 'content' };
+    ctx.app.repositoryService.subscriptionRepository.checkNorthSubscription.mockReturnValue(true);
+    (validator.validate as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('invalid script');
+    });
+
+    await subscriptionController.updateNorthSubscriptionScript(ctx);
+
+    expect(ctx.app.reloadService.onUpdateNorthSubscriptionScript).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith('invalid script');
+  });
+
+  it('dryRunNorthSubscriptionScript() should return the transformed content', async () => {
+    ctx.params.northId = 'northId';
+    ctx.request.body = {
+      script: '({ ...content, content: content.content.filter(value => value.pointId === "point1") })',
+      content: {
+        type: 'time-values',
+        content: [
+          { pointId: 'point1', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 1 } },
+          { pointId: 'point2', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 2 } }
+        ]
+      }
+    };
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue({ id: 'northId' });
+
+    await subscriptionController.dryRunNorthSubscriptionScript(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(subscriptionScriptDryRunSchema, ctx.request.body);
+    expect(ctx.ok).toHaveBeenCalledWith({
+      type: 'time-values',
+      content: [{ pointId: 'point1', timestamp: '2020-02-02T02:02:02.222Z', data: { value: 1 } }]
+    });
+  });
+
+  it('dryRunNorthSubscriptionScript() should return bad request when the script fails', async () => {
+    ctx.request.body = { script: 'content.unknown.field', content: { type: 'raw', filePath: 'myFile.csv' } };
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue({ id: 'northId' });
+
+    await subscriptionController.dryRunNorthSubscriptionScript(ctx);
+
+    expect(ctx.ok).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith("Cannot read properties of undefined (reading 'field')");
+  });
+
+  it('dryRunNorthSubscriptionScript() should return not found', async () => {
+    ctx.app.repositoryService.northConnectorRepository.getNorthConnector.mockReturnValue(null);
+
+    await subscriptionController.dryRunNorthSubscriptionScript(ctx);
+
+    expect(validator.validate).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
 });
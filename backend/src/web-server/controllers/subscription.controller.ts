@@ -1,7 +1,18 @@
 import { KoaContext } from '../koa';
-import { SubscriptionDTO } from '../../../../shared/model/subscription.model';
+import {
+  SubscriptionDTO,
+  SubscriptionScriptCommandDTO,
+  SubscriptionScriptDryRunCommandDTO,
+  SubscriptionScriptDTO
+} from '../../../../shared/model/subscription.model';
+import { OIBusContent } from '../../../../shared/model/engine.model';
+import JoiValidator from './validators/joi.validator';
+import { subscriptionScriptDryRunSchema, subscriptionScriptSchema } from './validators/oibus-validation-schema';
+import ScriptTransformerService from '../../service/script-transformer.service';
 
 export default class SubscriptionController {
+  constructor(protected readonly validator: JoiValidator) {}
+
   async getNorthSubscriptions(ctx: KoaContext<void, Array<SubscriptionDTO>>): Promise<void> {
     const northConnector = ctx.app.repositoryService.northConnectorRepository.getNorthConnector(ctx.params.northId);
     if (!northConnector) {
@@ -45,4 +56,47 @@ export default class SubscriptionController {
     await ctx.app.reloadService.onDeleteNorthSubscription(ctx.params.northId, ctx.params.southId);
     return ctx.noContent();
   }
+
+  async getNorthSubscriptionScript(ctx: KoaContext<void, SubscriptionScriptDTO>): Promise<void> {
+    const subscriptionScript = ctx.app.repositoryService.subscriptionRepository.getNorthSubscriptionScript(
+      ctx.params.northId,
+      ctx.params.southId
+    );
+    if (!subscriptionScript) {
+      return ctx.notFound();
+    }
+    ctx.ok(subscriptionScript);
+  }
+
+  async updateNorthSubscriptionScript(ctx: KoaContext<SubscriptionScriptCommandDTO, void>): Promise<void> {
+    if (!ctx.app.repositoryService.subscriptionRepository.checkNorthSubscription(ctx.params.northId, ctx.params.southId)) {
+      return ctx.notFound();
+    }
+
+    try {
+      await this.validator.validate(subscriptionScriptSchema, ctx.request.body);
+      await ctx.app.reloadService.onUpdateNorthSubscriptionScript(ctx.params.northId, ctx.params.southId, ctx.request.body!.script);
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  /**
+   * Execute a script against sample content and return the transformed content, without caching it
+   */
+  async dryRunNorthSubscriptionScript(ctx: KoaContext<SubscriptionScriptDryRunCommandDTO, OIBusContent | null>): Promise<void> {
+    const northConnector = ctx.app.repositoryService.northConnectorRepository.getNorthConnector(ctx.params.northId);
+    if (!northConnector) {
+      return ctx.notFound();
+    }
+
+    try {
+      await this.validator.validate(subscriptionScriptDryRunSchema, ctx.request.body);
+      const command = ctx.request.body as SubscriptionScriptDryRunCommandDTO;
+      ctx.ok(new ScriptTransformerService(command.script).transform(command.content));
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
 }
@@ -0,0 +1,203 @@
+import Joi from 'joi';
+
+import TransformerController from './transformer.controller';
+import JoiValidator from './validators/joi.validator';
+import KoaContextMock from '../../tests/__mocks__/koa-context.mock';
+import { TransformerCommandDTO, TransformerDTO } from '../../../../shared/model/transformer.model';
+
+jest.mock('./validators/joi.validator');
+
+const validator = new JoiValidator();
+const schema = Joi.object({});
+const transformerController = new TransformerController(validator, schema);
+
+const ctx = new KoaContextMock();
+const transformerCommand: TransformerCommandDTO = {
+  type: 'scaling',
+  enabled: true,
+  pointIdFilter: null,
+  settings: { multiplier: 2, offset: 0 }
+};
+const transformer: TransformerDTO = {
+  id: 'transformerId',
+  southId: 'southId',
+  position: 0,
+  ...transformerCommand
+};
+
+describe('Transformer controller', () => {
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    ctx.params.southId = 'southId';
+    ctx.params.id = 'transformerId';
+  });
+
+  it('getTransformers() should return transformers', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({ id: 'southId' });
+    ctx.app.repositoryService.transformerRepository.getTransformers.mockReturnValue([transformer]);
+
+    await transformerController.getTransformers(ctx);
+
+    expect(ctx.app.repositoryService.transformerRepository.getTransformers).toHaveBeenCalledWith('southId');
+    expect(ctx.ok).toHaveBeenCalledWith([transformer]);
+  });
+
+  it('getTransformers() should return not found when South not found', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(null);
+
+    await transformerController.getTransformers(ctx);
+
+    expect(ctx.app.repositoryService.transformerRepository.getTransformers).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  it('getTransformer() should return transformer', async () => {
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValue(transformer);
+
+    await transformerController.getTransformer(ctx);
+
+    expect(ctx.app.repositoryService.transformerRepository.getTransformer).toHaveBeenCalledWith('transformerId');
+    expect(ctx.ok).toHaveBeenCalledWith(transformer);
+  });
+
+  it('getTransformer() should return not found', async () => {
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValueOnce(null);
+    await transformerController.getTransformer(ctx);
+    expect(ctx.notFound).toHaveBeenCalledTimes(1);
+
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValueOnce({ ...transformer, southId: 'anotherSouthId' });
+    await transformerController.getTransformer(ctx);
+    expect(ctx.notFound).toHaveBeenCalledTimes(2);
+    expect(ctx.ok).not.toHaveBeenCalled();
+  });
+
+  it('createTransformer() should create transformer', async () => {
+    ctx.request.body = transformerCommand;
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({ id: 'southId' });
+    ctx.app.reloadService.onCreateTransformer.mockReturnValue(transformer);
+
+    await transformerController.createTransformer(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(schema, transformerCommand);
+    expect(ctx.app.reloadService.onCreateTransformer).toHaveBeenCalledWith('southId', transformerCommand);
+    expect(ctx.created).toHaveBeenCalledWith(transformer);
+  });
+
+  it('createTransformer() should return not found when South not found', async () => {
+    ctx.request.body = transformerCommand;
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(null);
+
+    await transformerController.createTransformer(ctx);
+
+    expect(ctx.app.reloadService.onCreateTransformer).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  it('createTransformer() should return bad request', async () => {
+    ctx.request.body = transformerCommand;
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({ id: 'southId' });
+    const validationError = new Error('invalid body');
+    (validator.validate as jest.Mock).mockImplementationOnce(() => {
+      throw validationError;
+    });
+
+    await transformerController.createTransformer(ctx);
+
+    expect(ctx.app.reloadService.onCreateTransformer).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith(validationError.message);
+  });
+
+  it('updateTransformer() should update transformer', async () => {
+    ctx.request.body = transformerCommand;
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValue(transformer);
+
+    await transformerController.updateTransformer(ctx);
+
+    expect(validator.validate).toHaveBeenCalledWith(schema, transformerCommand);
+    expect(ctx.app.reloadService.onUpdateTransformer).toHaveBeenCalledWith('southId', 'transformerId', transformerCommand);
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('updateTransformer() should return not found', async () => {
+    ctx.request.body = transformerCommand;
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValue(null);
+
+    await transformerController.updateTransformer(ctx);
+
+    expect(ctx.app.reloadService.onUpdateTransformer).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  it('updateTransformer() should return bad request', async () => {
+    ctx.request.body = transformerCommand;
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValue(transformer);
+    const validationError = new Error('invalid body');
+    (validator.validate as jest.Mock).mockImplementationOnce(() => {
+      throw validationError;
+    });
+
+    await transformerController.updateTransformer(ctx);
+
+    expect(ctx.app.reloadService.onUpdateTransformer).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledWith(validationError.message);
+  });
+
+  it('orderTransformers() should order transformers', async () => {
+    ctx.request.body = ['transformerId2', 'transformerId'];
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({ id: 'southId' });
+    ctx.app.repositoryService.transformerRepository.getTransformers.mockReturnValue([
+      transformer,
+      { ...transformer, id: 'transformerId2' }
+    ]);
+
+    await transformerController.orderTransformers(ctx);
+
+    expect(ctx.app.reloadService.onOrderTransformers).toHaveBeenCalledWith('southId', ['transformerId2', 'transformerId']);
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('orderTransformers() should return not found when South not found', async () => {
+    ctx.request.body = ['transformerId'];
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue(null);
+
+    await transformerController.orderTransformers(ctx);
+
+    expect(ctx.app.reloadService.onOrderTransformers).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+
+  it('orderTransformers() should return bad request when the IDs do not match the transformers', async () => {
+    ctx.app.repositoryService.southConnectorRepository.getSouthConnector.mockReturnValue({ id: 'southId' });
+    ctx.app.repositoryService.transformerRepository.getTransformers.mockReturnValue([
+      transformer,
+      { ...transformer, id: 'transformerId2' }
+    ]);
+
+    for (const body of [null, ['transformerId'], ['transformerId', 'transformerId'], ['transformerId', 'transformerId3']]) {
+      ctx.request.body = body;
+      await transformerController.orderTransformers(ctx);
+    }
+
+    expect(ctx.app.reloadService.onOrderTransformers).not.toHaveBeenCalled();
+    expect(ctx.badRequest).toHaveBeenCalledTimes(4);
+    expect(ctx.badRequest).toHaveBeenCalledWith('The order must contain the IDs of all the transformers of the South connector');
+  });
+
+  it('deleteTransformer() should delete transformer', async () => {
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValue(transformer);
+
+    await transformerController.deleteTransformer(ctx);
+
+    expect(ctx.app.reloadService.onDeleteTransformer).toHaveBeenCalledWith('southId', 'transformerId');
+    expect(ctx.noContent).toHaveBeenCalled();
+  });
+
+  it('deleteTransformer() should return not found', async () => {
+    ctx.app.repositoryService.transformerRepository.getTransformer.mockReturnValue(null);
+
+    await transformerController.deleteTransformer(ctx);
+
+    expect(ctx.app.reloadService.onDeleteTransformer).not.toHaveBeenCalled();
+    expect(ctx.notFound).toHaveBeenCalled();
+  });
+});
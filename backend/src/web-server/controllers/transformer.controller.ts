@@ -0,0 +1,88 @@
+import { KoaContext } from '../koa';
+import { TransformerCommandDTO, TransformerDTO } from '../../../../shared/model/transformer.model';
+import AbstractController from './abstract.controller';
+
+export default class TransformerController extends AbstractController {
+  async getTransformers(ctx: KoaContext<void, Array<TransformerDTO>>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound();
+    }
+
+    const transformers = ctx.app.repositoryService.transformerRepository.getTransformers(ctx.params.southId);
+    ctx.ok(transformers);
+  }
+
+  async getTransformer(ctx: KoaContext<void, TransformerDTO>): Promise<void> {
+    const transformer = ctx.app.repositoryService.transformerRepository.getTransformer(ctx.params.id);
+    if (!transformer || transformer.southId !== ctx.params.southId) {
+      return ctx.notFound();
+    }
+    ctx.ok(transformer);
+  }
+
+  async createTransformer(ctx: KoaContext<TransformerCommandDTO, TransformerDTO>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound();
+    }
+
+    try {
+      await this.validate(ctx.request.body);
+      const transformer = await ctx.app.reloadService.onCreateTransformer(ctx.params.southId, ctx.request.body as TransformerCommandDTO);
+      ctx.created(transformer);
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  async updateTransformer(ctx: KoaContext<TransformerCommandDTO, void>): Promise<void> {
+    const transformer = ctx.app.repositoryService.transformerRepository.getTransformer(ctx.params.id);
+    if (!transformer || transformer.southId !== ctx.params.southId) {
+      return ctx.notFound();
+    }
+
+    try {
+      await this.validate(ctx.request.body);
+      await ctx.app.reloadService.onUpdateTransformer(ctx.params.southId, transformer.id, ctx.request.body as TransformerCommandDTO);
+      ctx.noContent();
+    } catch (error: any) {
+      ctx.badRequest(error.message);
+    }
+  }
+
+  /**
+   * Set the order in which the transformers are applied. The body must contain the IDs of all the transformers of
+   * the South connector
+   */
+  async orderTransformers(ctx: KoaContext<Array<string>, void>): Promise<void> {
+    const southConnector = ctx.app.repositoryService.southConnectorRepository.getSouthConnector(ctx.params.southId);
+    if (!southConnector) {
+      return ctx.notFound();
+    }
+
+    const transformerIds = ctx.request.body;
+    const transformers = ctx.app.repositoryService.transformerRepository.getTransformers(ctx.params.southId);
+    if (
+      !Array.isArray(transformerIds) ||
+      transformerIds.length !== transformers.length ||
+      new Set(transformerIds).size !== transformerIds.length ||
+      !transformers.every(transformer => transformerIds.includes(transformer.id))
+    ) {
+      return ctx.badRequest('The order must contain the IDs of all the transformers of the South connector');
+    }
+
+    await ctx.app.reloadService.onOrderTransformers(ctx.params.southId, transformerIds);
+    ctx.noContent();
+  }
+
+  async deleteTransformer(ctx: KoaContext<void, void>): Promise<void> {
+    const transformer = ctx.app.repositoryService.transformerRepository.getTransformer(ctx.params.id);
+    if (!transformer || transformer.southId !== ctx.params.southId) {
+      return ctx.notFound();
+    }
+
+    await ctx.app.reloadService.onDeleteTransformer(ctx.params.southId, transformer.id);
+    ctx.noContent();
+  }
+}
@@ -0,0 +1,80 @@
+import JoiValidator from './joi.validator';
+import { historyQuerySchema } from './oibus-validation-schema';
+
+interface DataProvider {
+  dto: any;
+  isValid: boolean;
+  errorMessage: string | null;
+}
+
+const historyQuery = {
+  name: 'name',
+  description: 'description',
+  enabled: true,
+  startTime: '2020-02-01T02:02:59.999Z',
+  endTime: '2020-02-02T02:02:59.999Z',
+  southType: 'south-test',
+  northType: 'north-test',
+  northId: null,
+  southSettings: {},
+  northSettings: {},
+  caching: {},
+  archive: {}
+};
+const schedule = {
+  enabled: true,
+  scanModeId: 'scanModeId',
+  windowDuration: 1,
+  windowUnit: 'day',
+  timezone: 'Europe/Paris'
+};
+
+const dataProviders: DataProvider[] = [
+  {
+    dto: historyQuery,
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: { ...historyQuery, schedule },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: { ...historyQuery, schedule: { ...schedule, timezone: 'UTC' } },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: { ...historyQuery, schedule: { enabled: false } },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: { ...historyQuery, schedule: { enabled: true, scanModeId: 'scanModeId' } },
+    isValid: false,
+    errorMessage: '"schedule.windowDuration" is required. "schedule.windowUnit" is required. "schedule.timezone" is required'
+  },
+  {
+    dto: { ...historyQuery, schedule: { ...schedule, timezone: 'Mars/Olympus' } },
+    isValid: false,
+    errorMessage: '"schedule.timezone" must be one of [UTC, '
+  },
+  {
+    dto: { ...historyQuery, schedule: { ...schedule, windowUnit: 'year' } },
+    isValid: false,
+    errorMessage: '"schedule.windowUnit" must be one of [hour, day, week, month]'
+  }
+];
+
+describe('History query validator', () => {
+  const validator: JoiValidator = new JoiValidator();
+
+  it.each(dataProviders)(`$# Should be valid: $isValid`, async dataProvider => {
+    if (dataProvider.isValid) {
+      await expect(validator.validate(historyQuerySchema, dataProvider.dto)).resolves.not.toThrow();
+    } else {
+      await expect(validator.validate(historyQuerySchema, dataProvider.dto)).rejects.toThrow(dataProvider.errorMessage as string);
+    }
+  });
+});
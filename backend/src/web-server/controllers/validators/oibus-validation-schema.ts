@@ -1,5 +1,19 @@
 import Joi from 'joi';
 import { validateCronExpression } from '../../../service/utils';
+import ScriptTransformerService from '../../../service/script-transformer.service';
+import { TRANSFORMER_TYPES, UNIT_CONVERSIONS } from '../../../../../shared/model/transformer.model';
+import { HISTORY_QUERY_WINDOW_UNITS } from '../../../../../shared/model/history-query.model';
+
+// TypeScript issue with Intl: https://github.com/microsoft/TypeScript/issues/49231
+// eslint-disable-next-line @typescript-eslint/no-namespace
+declare namespace Intl {
+  type Key = 'calendar' | 'collation' | 'currency' | 'numberingSystem' | 'timeZone' | 'unit';
+
+  function supportedValuesOf(input: Key): Array<string>;
+}
+
+// UTC is the default timezone of the schedules, but it is not part of the canonical IANA timezones
+const SCHEDULE_TIMEZONES = ['UTC', ...Intl.supportedValuesOf('timeZone')];
 
 const scanModeSchema: Joi.ObjectSchema = Joi.object({
   name: Joi.string().required(),
@@ -97,10 +111,31 @@ const historyQuerySchema: Joi.ObjectSchema = Joi.object({
   endTime: Joi.date().required(),
   southType: Joi.string().required().allow(null, ''),
   northType: Joi.string().required().allow(null, ''),
+  northId: Joi.string().allow(null, ''),
   southSettings: Joi.object().required(),
   northSettings: Joi.object().required(),
   caching: Joi.object().required(),
-  archive: Joi.object().required()
+  archive: Joi.object().required(),
+  additionalNorths: Joi.array().items(
+    Joi.object({
+      id: Joi.string().allow(null),
+      northType: Joi.string().required(),
+      northSettings: Joi.object().required(),
+      caching: Joi.object().required()
+    })
+  ),
+  // The window of a disabled schedule is optional
+  schedule: Joi.object({
+    enabled: Joi.boolean().required(),
+    scanModeId: Joi.string().allow(null),
+    windowDuration: Joi.number().integer().min(1).when('enabled', { is: true, then: Joi.required() }),
+    windowUnit: Joi.string()
+      .valid(...HISTORY_QUERY_WINDOW_UNITS)
+      .when('enabled', { is: true, then: Joi.required() }),
+    timezone: Joi.string()
+      .valid(...SCHEDULE_TIMEZONES)
+      .when('enabled', { is: true, then: Joi.required() })
+  }).default({ enabled: false })
 });
 const userSchema: Joi.ObjectSchema = Joi.object({
   login: Joi.string().required().min(4),
@@ -124,6 +159,105 @@ const logSchema: Joi.ObjectSchema = Joi.object({
   )
 });
 
+const transformerSchema: Joi.ObjectSchema = Joi.object({
+  type: Joi.string()
+    .required()
+    .valid(...TRANSFORMER_TYPES),
+  enabled: Joi.boolean().required(),
+  pointIdFilter: Joi.string().required().allow(null, '').custom(regExpValidator),
+  settings: Joi.alternatives()
+    .conditional('type', {
+      switch: [
+        {
+          is: 'scaling',
+          then: Joi.object({ multiplier: Joi.number().required(), offset: Joi.number().required() })
+        },
+        {
+          is: 'unit-conversion',
+          then: Joi.object({
+            conversion: Joi.string()
+              .required()
+              .valid(...UNIT_CONVERSIONS)
+          })
+        },
+        {
+          is: 'deadband',
+          then: Joi.object({
+            deadband: Joi.number().required().min(0),
+            relative: Joi.boolean().required(),
+            maxSilence: Joi.number().optional().min(0)
+          })
+        },
+        {
+          is: 'rename',
+          then: Joi.object({ regExp: Joi.string().required().custom(regExpValidator), replacement: Joi.string().required().allow('') })
+        },
+        {
+          is: 'quality-filter',
+          then: Joi.object({ qualityField: Joi.string().required(), droppedQualities: Joi.array().items(Joi.string()).required() })
+        }
+      ]
+    })
+    .required()
+});
+
+const subscriptionScriptSchema: Joi.ObjectSchema = Joi.object({
+  script: Joi.string().required().allow(null).custom(scriptValidator)
+});
+
+const subscriptionScriptDryRunSchema: Joi.ObjectSchema = Joi.object({
+  script: Joi.string().required().custom(scriptValidator),
+  content: contentSchema.required()
+});
+
+const southItemWriteValueSchema = Joi.alternatives().try(
+  Joi.number(),
+  Joi.boolean(),
+  Joi.string(),
+  Joi.array().items(Joi.number(), Joi.boolean(), Joi.string())
+);
+const southItemWriteSchema: Joi.ObjectSchema = Joi.object({
+  value: southItemWriteValueSchema.required()
+});
+const southItemMaxInstantSchema: Joi.ObjectSchema = Joi.object({
+  maxInstant: Joi.string().isoDate().required()
+});
+const southCacheSchema: Joi.ObjectSchema = Joi.object({
+  scanModeId: Joi.string().required(),
+  itemId: Joi.string().required(),
+  maxInstant: Joi.string().isoDate().required()
+});
+const southCacheRewindSchema: Joi.ObjectSchema = Joi.object({
+  maxInstant: Joi.string().isoDate().required()
+});
+const southMethodCallSchema: Joi.ObjectSchema = Joi.object({
+  objectId: Joi.string().required(),
+  methodId: Joi.string().required(),
+  inputArguments: Joi.array().items(southItemWriteValueSchema).required()
+});
+const southItemDiscoverySchema: Joi.ObjectSchema = Joi.object({
+  topic: Joi.string().required(),
+  duration: Joi.number().integer().required().min(1).max(300)
+});
+
+function regExpValidator(value: string, helper: Joi.CustomHelpers) {
+  try {
+    new RegExp(value);
+    return value;
+  } catch (error: any) {
+    return helper.message({ custom: error.message });
+  }
+}
+
+function scriptValidator(value: string, helper: Joi.CustomHelpers) {
+  try {
+    new ScriptTransformerService(value);
+    return value;
+  } catch (error: any) {
+    return helper.message({ custom: error.message });
+  }
+}
+
 function cronValidator(value: string, helper: Joi.CustomHelpers) {
   try {
     validateCronExpression(value);
@@ -144,5 +278,14 @@ export {
   historyQuerySchema,
   logSchema,
   commandSchema,
-  contentSchema
+  contentSchema,
+  transformerSchema,
+  subscriptionScriptSchema,
+  subscriptionScriptDryRunSchema,
+  southItemWriteSchema,
+  southItemMaxInstantSchema,
+  southCacheSchema,
+  southCacheRewindSchema,
+  southMethodCallSchema,
+  southItemDiscoverySchema
 };
@@ -0,0 +1,63 @@
+import JoiValidator from './joi.validator';
+import { subscriptionScriptDryRunSchema, subscriptionScriptSchema } from './oibus-validation-schema';
+import Joi from 'joi';
+
+interface DataProvider {
+  schema: Joi.ObjectSchema;
+  dto: any;
+  isValid: boolean;
+  errorMessage: string | null;
+}
+
+const dataProviders: DataProvider[] = [
+  {
+    schema: subscriptionScriptSchema,
+    dto: {},
+    isValid: false,
+    errorMessage: '"script" is required'
+  },
+  {
+    schema: subscriptionScriptSchema,
+    dto: { script: 'content.' },
+    isValid: false,
+    errorMessage: 'Unexpected end of input'
+  },
+  {
+    schema: subscriptionScriptSchema,
+    dto: { script: null },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    schema: subscriptionScriptSchema,
+    dto: { script: 'content' },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    schema: subscriptionScriptDryRunSchema,
+    dto: { script: null, content: { type: 'raw' } },
+    isValid: false,
+    errorMessage: '"script" must be a string. "content.filePath" is required'
+  },
+  {
+    schema: subscriptionScriptDryRunSchema,
+    dto: { script: 'content', content: { type: 'raw', filePath: 'myFile.csv' } },
+    isValid: true,
+    errorMessage: null
+  }
+];
+
+describe('Subscription script validator', () => {
+  const validator: JoiValidator = new JoiValidator();
+
+  it.each(dataProviders)(`$# Should be valid: $isValid`, async dataProvider => {
+    if (dataProvider.isValid) {
+      await expect(validator.validate(dataProvider.schema, dataProvider.dto)).resolves.not.toThrow();
+    } else {
+      await expect(validator.validate(dataProvider.schema, dataProvider.dto)).rejects.toThrow(
+        new Error(dataProvider.errorMessage as string)
+      );
+    }
+  });
+});
@@ -0,0 +1,165 @@
+import JoiValidator from './joi.validator';
+import { transformerSchema } from './oibus-validation-schema';
+
+interface DataProvider {
+  dto: any;
+  isValid: boolean;
+  errorMessage: string | null;
+}
+
+const dataProviders: DataProvider[] = [
+  {
+    dto: {
+      type1: 'missing',
+      enabled1: 'missing'
+    },
+    isValid: false,
+    errorMessage:
+      '"type" is required. "enabled" is required. "pointIdFilter" is required. "settings" is required. "type1" is not allowed. "enabled1" is not allowed'
+  },
+  {
+    dto: {
+      type: 'unknown',
+      enabled: true,
+      pointIdFilter: null,
+      settings: {}
+    },
+    isValid: false,
+    errorMessage:
+      '"type" must be one of [scaling, unit-conversion, deadband, rename, quality-filter]. "settings" does not match any of the allowed types'
+  },
+  {
+    dto: {
+      type: 'scaling',
+      enabled: true,
+      pointIdFilter: '[a-',
+      settings: { multiplier: 2, offset: 1 }
+    },
+    isValid: false,
+    errorMessage: 'Invalid regular expression: /[a-/: Unterminated character class'
+  },
+  {
+    dto: {
+      type: 'scaling',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { multiplier: 'two' }
+    },
+    isValid: false,
+    errorMessage: '"settings.multiplier" must be a number. "settings.offset" is required'
+  },
+  {
+    dto: {
+      type: 'scaling',
+      enabled: true,
+      pointIdFilter: '^point',
+      settings: { multiplier: 2, offset: 1 }
+    },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: {
+      type: 'unit-conversion',
+      enabled: true,
+      pointIdFilter: '',
+      settings: { conversion: 'celsius-to-miles' }
+    },
+    isValid: false,
+    errorMessage:
+      '"settings.conversion" must be one of [celsius-to-fahrenheit, fahrenheit-to-celsius, celsius-to-kelvin, kelvin-to-celsius, ' +
+      'bar-to-pascal, pascal-to-bar, bar-to-psi, psi-to-bar, meter-to-foot, foot-to-meter, kilowatt-to-horsepower, horsepower-to-kilowatt]'
+  },
+  {
+    dto: {
+      type: 'unit-conversion',
+      enabled: false,
+      pointIdFilter: null,
+      settings: { conversion: 'celsius-to-fahrenheit' }
+    },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: {
+      type: 'deadband',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { deadband: -1, relative: false }
+    },
+    isValid: false,
+    errorMessage: '"settings.deadband" must be greater than or equal to 0'
+  },
+  {
+    dto: {
+      type: 'deadband',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { deadband: 0.5, relative: true }
+    },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: {
+      type: 'deadband',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { deadband: 0.5, relative: true, maxSilence: -1 }
+    },
+    isValid: false,
+    errorMessage: '"settings.maxSilence" must be greater than or equal to 0'
+  },
+  {
+    dto: {
+      type: 'rename',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { regExp: '(unclosed', replacement: '' }
+    },
+    isValid: false,
+    errorMessage: 'Invalid regular expression: /(unclosed/: Unterminated group'
+  },
+  {
+    dto: {
+      type: 'rename',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { regExp: '^site1\\.(.*)$', replacement: 'plant-$1' }
+    },
+    isValid: true,
+    errorMessage: null
+  },
+  {
+    dto: {
+      type: 'quality-filter',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { qualityField: 'quality' }
+    },
+    isValid: false,
+    errorMessage: '"settings.droppedQualities" is required'
+  },
+  {
+    dto: {
+      type: 'quality-filter',
+      enabled: true,
+      pointIdFilter: null,
+      settings: { qualityField: 'quality', droppedQualities: ['bad', 'uncertain'] }
+    },
+    isValid: true,
+    errorMessage: null
+  }
+];
+
+describe('Transformer validator', () => {
+  const validator: JoiValidator = new JoiValidator();
+
+  it.each(dataProviders)(`$# Should be valid: $isValid`, async dataProvider => {
+    if (dataProvider.isValid) {
+      await expect(validator.validate(transformerSchema, dataProvider.dto)).resolves.not.toThrow();
+    } else {
+      await expect(validator.validate(transformerSchema, dataProvider.dto)).rejects.toThrow(new Error(dataProvider.errorMessage as string));
+    }
+  });
+});
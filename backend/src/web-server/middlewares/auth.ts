@@ -67,6 +67,8 @@ const auth = () => {
       return authError(ctx);
     }
 
+    // Keep the authenticated user for the controllers that log who requested an action
+    ctx.state.user = headerUser.name;
     if (ctx.request.url === '/api/users/current-user') {
       const currentUser = await ctx.app.repositoryService.userRepository.getUserByLogin(headerUser.name);
       return ctx.ok(currentUser);
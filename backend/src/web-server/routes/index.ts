@@ -25,10 +25,12 @@ import {
   logSchema,
   registrationSchema,
   scanModeSchema,
+  transformerSchema,
   userSchema
 } from '../controllers/validators/oibus-validation-schema';
 import CommandController from '../controllers/command.controller';
 import ContentController from '../controllers/content.controller';
+import TransformerController from '../controllers/transformer.controller';
 
 const joiValidator = new JoiValidator();
 const scanModeController = new ScanModeController(joiValidator, scanModeSchema);
@@ -43,7 +45,8 @@ const southConnectorController = new SouthConnectorController(joiValidator);
 const historyQueryController = new HistoryQueryController(joiValidator, historyQuerySchema);
 const userController = new UserController(joiValidator, userSchema);
 const logController = new LogController(joiValidator, logSchema);
-const subscriptionController = new SubscriptionController();
+const subscriptionController = new SubscriptionController(joiValidator);
+const transformerController = new TransformerController(joiValidator, transformerSchema);
 
 const router = new Router();
 
@@ -112,6 +115,15 @@ router.post('/api/north/:northId/subscriptions/:southId', (ctx: KoaContext<any,
 router.delete('/api/north/:northId/subscriptions/:southId', (ctx: KoaContext<any, any>) =>
   subscriptionController.deleteNorthSubscription(ctx)
 );
+router.post('/api/north/:northId/subscriptions/script/dry-run', (ctx: KoaContext<any, any>) =>
+  subscriptionController.dryRunNorthSubscriptionScript(ctx)
+);
+router.get('/api/north/:northId/subscriptions/:southId/script', (ctx: KoaContext<any, any>) =>
+  subscriptionController.getNorthSubscriptionScript(ctx)
+);
+router.put('/api/north/:northId/subscriptions/:southId/script', (ctx: KoaContext<any, any>) =>
+  subscriptionController.updateNorthSubscriptionScript(ctx)
+);
 router.get('/api/north/:northId/cache/file-errors', (ctx: KoaContext<any, any>) => northConnectorController.getFileErrors(ctx));
 router.get('/api/north/:northId/cache/file-errors/:filename', (ctx: KoaContext<any, any>) =>
   northConnectorController.getFileErrorContent(ctx)
@@ -172,6 +184,7 @@ router.get('/api/south-types/:id', (ctx: KoaContext<any, any>) => southConnector
 
 router.get('/api/south', (ctx: KoaContext<any, any>) => southConnectorController.getSouthConnectors(ctx));
 router.put('/api/south/:id/test-connection', (ctx: KoaContext<any, any>) => southConnectorController.testSouthConnection(ctx));
+router.get('/api/south/:id/browse', (ctx: KoaContext<any, any>) => southConnectorController.browseSouth(ctx));
 router.get('/api/south/:id', (ctx: KoaContext<any, any>) => southConnectorController.getSouthConnector(ctx));
 router.post('/api/south', (ctx: KoaContext<any, any>) => southConnectorController.createSouthConnector(ctx));
 router.put('/api/south/:id', (ctx: KoaContext<any, any>) => southConnectorController.updateSouthConnector(ctx));
@@ -187,20 +200,41 @@ router.post('/api/south/:southType/items/check-import/:southId', upload.single('
 );
 router.post('/api/south/:southId/items/import', (ctx: KoaContext<any, any>) => southConnectorController.importSouthItems(ctx));
 router.put('/api/south/:southId/items/export', (ctx: KoaContext<any, any>) => southConnectorController.exportSouthItems(ctx));
+router.put('/api/south/:southId/items/discover', (ctx: KoaContext<any, any>) => southConnectorController.discoverSouthItems(ctx));
 router.put('/api/south/items/to-csv', (ctx: KoaContext<any, any>) => southConnectorController.southItemsToCsv(ctx));
 router.get('/api/south/:southId/items/:id', (ctx: KoaContext<any, any>) => southConnectorController.getSouthItem(ctx));
 router.put('/api/south/:southId/items/:id', (ctx: KoaContext<any, any>) => southConnectorController.updateSouthItem(ctx));
 router.put('/api/south/:southId/items/:id/enable', (ctx: KoaContext<any, any>) => southConnectorController.enableSouthItem(ctx));
 router.put('/api/south/:southId/items/:id/disable', (ctx: KoaContext<any, any>) => southConnectorController.disableSouthItem(ctx));
+router.get('/api/south/:southId/cache', (ctx: KoaContext<any, any>) => southConnectorController.getSouthCache(ctx));
+router.put('/api/south/:southId/cache', (ctx: KoaContext<any, any>) => southConnectorController.setSouthCacheMaxInstant(ctx));
+router.put('/api/south/:southId/cache/rewind', (ctx: KoaContext<any, any>) => southConnectorController.rewindSouthCache(ctx));
+router.put('/api/south/:southId/items/:id/max-instant', (ctx: KoaContext<any, any>) =>
+  southConnectorController.setSouthItemMaxInstant(ctx)
+);
+router.put('/api/south/:southId/items/:id/write', (ctx: KoaContext<any, any>) => southConnectorController.writeSouthItem(ctx));
+router.put('/api/south/:southId/call-method', (ctx: KoaContext<any, any>) => southConnectorController.callSouthMethod(ctx));
 router.delete('/api/south/:southId/items/all', (ctx: KoaContext<any, any>) => southConnectorController.deleteAllSouthItem(ctx));
 router.delete('/api/south/:southId/items/:id', (ctx: KoaContext<any, any>) => southConnectorController.deleteSouthItem(ctx));
 router.put('/api/south/:southId/cache/reset-metrics', (ctx: KoaContext<any, any>) => southConnectorController.resetSouthMetrics(ctx));
+router.get('/api/south/:southId/transformers', (ctx: KoaContext<any, any>) => transformerController.getTransformers(ctx));
+router.post('/api/south/:southId/transformers', (ctx: KoaContext<any, any>) => transformerController.createTransformer(ctx));
+router.put('/api/south/:southId/transformers/order', (ctx: KoaContext<any, any>) => transformerController.orderTransformers(ctx));
+router.get('/api/south/:southId/transformers/:id', (ctx: KoaContext<any, any>) => transformerController.getTransformer(ctx));
+router.put('/api/south/:southId/transformers/:id', (ctx: KoaContext<any, any>) => transformerController.updateTransformer(ctx));
+router.delete('/api/south/:southId/transformers/:id', (ctx: KoaContext<any, any>) => transformerController.deleteTransformer(ctx));
 
 router.get('/api/history-queries', (ctx: KoaContext<any, any>) => historyQueryController.getHistoryQueries(ctx));
 router.get('/api/history-queries/:id', (ctx: KoaContext<any, any>) => historyQueryController.getHistoryQuery(ctx));
+router.get('/api/history-queries/:id/runs', (ctx: KoaContext<any, any>) => historyQueryController.getHistoryQueryRuns(ctx));
+router.get('/api/history-queries/:id/report', (ctx: KoaContext<any, any>) => historyQueryController.getHistoryQueryReport(ctx));
+router.get('/api/history-queries/:id/report/csv', (ctx: KoaContext<any, any>) => historyQueryController.exportHistoryQueryReport(ctx));
 router.post('/api/history-queries', (ctx: KoaContext<any, any>) => historyQueryController.createHistoryQuery(ctx));
 router.put('/api/history-queries/:id/start', (ctx: KoaContext<any, any>) => historyQueryController.startHistoryQuery(ctx));
 router.put('/api/history-queries/:id/pause', (ctx: KoaContext<any, any>) => historyQueryController.pauseHistoryQuery(ctx));
+router.put('/api/history-queries/:id/retry-failed-intervals', (ctx: KoaContext<any, any>) =>
+  historyQueryController.retryHistoryQueryIntervals(ctx)
+);
 router.put('/api/history-queries/:id', (ctx: KoaContext<any, any>) => historyQueryController.updateHistoryQuery(ctx));
 router.delete('/api/history-queries/:id', (ctx: KoaContext<any, any>) => historyQueryController.deleteHistoryQuery(ctx));
 
@@ -12,7 +12,7 @@ import { NorthConnectorService } from '../../services/north-connector.service';
 import { SouthConnectorService } from '../../services/south-connector.service';
 import { HistoryQueryService } from '../../services/history-query.service';
 import { HistoryQueryDTO } from '../../../../../shared/model/history-query.model';
-import { NorthConnectorCommandDTO, NorthConnectorManifest } from '../../../../../shared/model/north-connector.model';
+import { NorthConnectorCommandDTO, NorthConnectorDTO, NorthConnectorManifest } from '../../../../../shared/model/north-connector.model';
 import { SouthConnectorCommandDTO, SouthConnectorManifest } from '../../../../../shared/model/south-connector.model';
 import { Modal, ModalService } from '../../shared/modal.service';
 
@@ -60,6 +60,38 @@ class EditHistoryQueryComponentTester extends ComponentTester<EditHistoryQueryCo
   get sharedConnection() {
     return this.input('#south-shared-connection');
   }
+
+  get additionalNorths() {
+    return this.elements('.additional-north');
+  }
+
+  get additionalNorthType() {
+    return this.select('#additional-north-type')!;
+  }
+
+  get addAdditionalNorth() {
+    return this.button('#add-additional-north')!;
+  }
+
+  get northId() {
+    return this.select('#north-id')!;
+  }
+
+  get existingNorthInfo() {
+    return this.element('#existing-north-info');
+  }
+
+  get testNorthConnection() {
+    return this.button('#test-connection-north');
+  }
+
+  get scheduleEnabled() {
+    return this.input('#schedule-enabled')!;
+  }
+
+  get scheduleWindowDuration() {
+    return this.input('#schedule-window-duration');
+  }
 }
 
 describe('EditHistoryQueryComponent', () => {
@@ -84,6 +116,7 @@ describe('EditHistoryQueryComponent', () => {
     startTime: '2023-01-01T00:00:00.000Z',
     endTime: '2023-02-01T00:00:00.000Z',
     northType: 'Console',
+    northId: null,
     southType: 'SQL',
     northSettings: {},
     southSettings: {},
@@ -93,9 +126,11 @@ describe('EditHistoryQueryComponent', () => {
       retryInterval: 1000,
       retryCount: 3,
       maxSize: 30,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 1000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       },
       rawFiles: {
         sendFileImmediately: true,
@@ -104,9 +139,67 @@ describe('EditHistoryQueryComponent', () => {
           retentionDuration: 0
         }
       }
+    },
+    additionalNorths: [
+      {
+        id: 'targetId1',
+        northType: 'console',
+        northSettings: {},
+        caching: {
+          scanModeId: 'scanModeId1',
+          retryInterval: 2000,
+          retryCount: 2,
+          maxSize: 0,
+          overflowPolicy: 'stop',
+          oibusTimeValues: {
+            groupCount: 100,
+            maxSendCount: 1000,
+            storage: 'file'
+          },
+          rawFiles: {
+            sendFileImmediately: false,
+            archive: {
+              enabled: false,
+              retentionDuration: 0
+            }
+          }
+        }
+      }
+    ],
+    schedule: {
+      enabled: false,
+      scanModeId: null,
+      windowDuration: 1,
+      windowUnit: 'day',
+      timezone: 'UTC'
     }
   };
 
+  const existingNorth = {
+    id: 'northId1',
+    name: 'Existing console',
+    type: 'Console',
+    caching: {
+      scanModeId: 'scanModeId2',
+      retryInterval: 2000,
+      retryCount: 5,
+      maxSize: 100,
+      overflowPolicy: 'stop',
+      oibusTimeValues: {
+        groupCount: 100,
+        maxSendCount: 1000,
+        storage: 'sqlite'
+      },
+      rawFiles: {
+        sendFileImmediately: false,
+        archive: {
+          enabled: false,
+          retentionDuration: 0
+        }
+      }
+    }
+  } as NorthConnectorDTO;
+
   beforeEach(() => {
     northConnectorService = createMock(NorthConnectorService);
     southConnectorService = createMock(SouthConnectorService);
@@ -136,7 +229,11 @@ describe('EditHistoryQueryComponent', () => {
     });
 
     scanModeService.list.and.returnValue(of([]));
+    northConnectorService.getNorthConnectorTypes.and.returnValue(
+      of([{ id: 'console', category: 'debug', name: 'Console', description: 'Console description', modes: { files: true, points: true } }])
+    );
 
+    northConnectorService.list.and.returnValue(of([existingNorth]));
     historyQueryService.get.and.returnValue(of(historyQuery));
     northConnectorService.getNorthConnectorTypeManifest.and.returnValue(
       of({
@@ -278,4 +375,57 @@ describe('EditHistoryQueryComponent', () => {
     tester.detectChanges();
     expect(spy).toHaveBeenCalledWith('south', command, 'id1', null);
   });
+
+  it('should display, add and remove additional North targets', () => {
+    expect(tester.additionalNorths.length).toBe(1);
+    expect(tester.additionalNorths[0]).toContainText('Console target');
+    expect(tester.addAdditionalNorth.disabled).toBeTrue();
+
+    tester.additionalNorthType.selectLabel('Console');
+    tester.addAdditionalNorth.click();
+    expect(tester.additionalNorths.length).toBe(2);
+    expect(tester.componentInstance.historyQueryForm!.controls.additionalNorths.at(1).getRawValue().id).toBeNull();
+
+    tester.additionalNorths[0].button('.remove-additional-north')!.click();
+    expect(tester.additionalNorths.length).toBe(1);
+    expect(tester.componentInstance.historyQueryForm!.controls.additionalNorths.at(0).getRawValue().id).toBeNull();
+  });
+
+  it('should send data to an existing North connector', () => {
+    expect(tester.existingNorthInfo).toBeNull();
+    expect(tester.testNorthConnection).not.toBeNull();
+
+    tester.northId.selectLabel('Existing console');
+    const form = tester.componentInstance.historyQueryForm!;
+    expect(form.controls.northId.value).toBe('northId1');
+    expect(form.controls.caching.disabled).toBeTrue();
+    expect(form.controls.caching.getRawValue().scanModeId).toBe('scanModeId2');
+    expect(form.controls.northSettings.disabled).toBeTrue();
+    expect(tester.existingNorthInfo).not.toBeNull();
+    expect(tester.testNorthConnection).toBeNull();
+
+    tester.northId.selectIndex(0);
+    expect(form.controls.northId.value).toBeNull();
+    expect(form.controls.caching.enabled).toBeTrue();
+    expect(form.controls.northSettings.enabled).toBeTrue();
+  });
+
+  it('should toggle the schedule of the history query', () => {
+    const form = tester.componentInstance.historyQueryForm!;
+    expect(tester.scheduleWindowDuration).toBeNull();
+    expect(form.controls.startTime.enabled).toBeTrue();
+    expect(form.controls.schedule.controls.scanModeId.disabled).toBeTrue();
+    expect(form.valid).toBeTrue();
+
+    tester.scheduleEnabled.check();
+    expect(tester.scheduleWindowDuration).not.toBeNull();
+    expect(form.controls.startTime.disabled).toBeTrue();
+    expect(form.controls.schedule.controls.scanModeId.enabled).toBeTrue();
+    // the run schedule is required
+    expect(form.valid).toBeFalse();
+
+    tester.scheduleEnabled.uncheck();
+    expect(tester.scheduleWindowDuration).toBeNull();
+    expect(form.controls.startTime.enabled).toBeTrue();
+  });
 });
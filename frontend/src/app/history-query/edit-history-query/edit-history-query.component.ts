@@ -3,7 +3,7 @@ import { Component, OnInit, inject } from '@angular/core';
 import { TranslateModule } from '@ngx-translate/core';
 import { ObservableState, SaveButtonComponent } from '../../shared/save-button/save-button.component';
 import { formDirectives } from '../../shared/form-directives';
-import { FormControl, FormGroup, NonNullableFormBuilder, Validators } from '@angular/forms';
+import { FormArray, FormControl, FormGroup, NonNullableFormBuilder, Validators } from '@angular/forms';
 import { NotificationService } from '../../shared/notification.service';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { combineLatest, Observable, of, switchMap, tap } from 'rxjs';
@@ -11,11 +11,25 @@ import { FormComponent } from '../../shared/form/form.component';
 import { OibFormControl } from '../../../../../shared/model/form.model';
 import { ScanModeDTO } from '../../../../../shared/model/scan-mode.model';
 import { ScanModeService } from '../../services/scan-mode.service';
-import { NorthConnectorCommandDTO, NorthConnectorDTO, NorthConnectorManifest } from '../../../../../shared/model/north-connector.model';
+import {
+  NORTH_CACHE_OVERFLOW_POLICIES,
+  NORTH_VALUE_CACHE_STORAGES,
+  NorthCacheOverflowPolicy,
+  NorthConnectorCommandDTO,
+  NorthConnectorDTO,
+  NorthConnectorManifest,
+  NorthType,
+  NorthValueCacheStorage
+} from '../../../../../shared/model/north-connector.model';
 import { NorthConnectorService } from '../../services/north-connector.service';
 import { OibScanModeComponent } from '../../shared/form/oib-scan-mode/oib-scan-mode.component';
 import { createFormGroup, groupFormControlsByRow } from '../../shared/form-utils';
-import { HistoryQueryCommandDTO, HistoryQueryDTO } from '../../../../../shared/model/history-query.model';
+import {
+  HISTORY_QUERY_WINDOW_UNITS,
+  HistoryQueryCommandDTO,
+  HistoryQueryDTO,
+  HistoryQueryWindowUnit
+} from '../../../../../shared/model/history-query.model';
 import {
   SouthConnectorCommandDTO,
   SouthConnectorDTO,
@@ -24,7 +38,7 @@ import {
 } from '../../../../../shared/model/south-connector.model';
 import { SouthConnectorService } from '../../services/south-connector.service';
 import { HistoryQueryService } from '../../services/history-query.service';
-import { Instant } from '../../../../../shared/model/types';
+import { Instant, Timezone } from '../../../../../shared/model/types';
 import { DatetimepickerComponent } from '../../shared/datetimepicker/datetimepicker.component';
 import { BackNavigationDirective } from '../../shared/back-navigation.directives';
 import { BoxComponent, BoxTitleDirective } from '../../shared/box/box.component';
@@ -33,8 +47,47 @@ import { HistoryQueryItemsComponent } from '../history-query-items/history-query
 import { DateTime } from 'luxon';
 import { ModalService } from '../../shared/modal.service';
 import { TestConnectionResultModalComponent } from '../../shared/test-connection-result-modal/test-connection-result-modal.component';
+import { ValueCacheStoragesEnumPipe } from '../../shared/value-cache-storages-enum.pipe';
+import { CacheOverflowPoliciesEnumPipe } from '../../shared/cache-overflow-policies-enum.pipe';
 import { OibHelpComponent } from '../../shared/oib-help/oib-help.component';
 import { ResetCacheHistoryQueryModalComponent } from '../reset-cache-history-query-modal/reset-cache-history-query-modal.component';
+import { NgbTypeahead } from '@ng-bootstrap/ng-bootstrap';
+import { inMemoryTypeahead } from '../../shared/typeahead';
+
+// TypeScript issue with Intl: https://github.com/microsoft/TypeScript/issues/49231
+// eslint-disable-next-line @typescript-eslint/no-namespace
+declare namespace Intl {
+  type Key = 'calendar' | 'collation' | 'currency' | 'numberingSystem' | 'timeZone' | 'unit';
+
+  function supportedValuesOf(input: Key): Array<string>;
+}
+
+type CachingFormGroup = FormGroup<{
+  scanModeId: FormControl<string | null>;
+  retryInterval: FormControl<number>;
+  retryCount: FormControl<number>;
+  maxSize: FormControl<number>;
+  overflowPolicy: FormControl<NorthCacheOverflowPolicy>;
+  oibusTimeValues: FormGroup<{
+    groupCount: FormControl<number>;
+    maxSendCount: FormControl<number>;
+    storage: FormControl<NorthValueCacheStorage>;
+  }>;
+  rawFiles: FormGroup<{
+    sendFileImmediately: FormControl<boolean>;
+    archive: FormGroup<{
+      enabled: FormControl<boolean>;
+      retentionDuration: FormControl<number>;
+    }>;
+  }>;
+}>;
+
+type AdditionalNorthFormGroup = FormGroup<{
+  id: FormControl<string | null>;
+  northType: FormControl<string>;
+  northSettings: FormGroup;
+  caching: CachingFormGroup;
+}>;
 
 @Component({
   selector: 'oib-edit-history-query',
@@ -52,7 +105,10 @@ import { ResetCacheHistoryQueryModalComponent } from '../reset-cache-history-que
     BoxTitleDirective,
     SouthItemsComponent,
     HistoryQueryItemsComponent,
-    OibHelpComponent
+    OibHelpComponent,
+    ValueCacheStoragesEnumPipe,
+    CacheOverflowPoliciesEnumPipe,
+    NgbTypeahead
   ],
   templateUrl: './edit-history-query.component.html',
   styleUrl: './edit-history-query.component.scss'
@@ -81,6 +137,20 @@ export class EditHistoryQueryComponent implements OnInit {
   northType = '';
   fromNorthId = '';
   duplicateId = '';
+  northTypes: Array<NorthType> = [];
+  northConnectors: Array<NorthConnectorDTO> = [];
+  additionalNorthTypeCtrl = this.fb.control('');
+  additionalNorthManifests: Record<string, NorthConnectorManifest> = {};
+  additionalNorthSettingsControls: Record<string, Array<Array<OibFormControl>>> = {};
+  readonly valueCacheStorages = NORTH_VALUE_CACHE_STORAGES;
+  readonly cacheOverflowPolicies = NORTH_CACHE_OVERFLOW_POLICIES;
+  readonly windowUnits = HISTORY_QUERY_WINDOW_UNITS;
+
+  private timezones: ReadonlyArray<Timezone> = Intl.supportedValuesOf('timeZone');
+  timezoneTypeahead: (text$: Observable<string>) => Observable<Array<Timezone>> = inMemoryTypeahead(
+    () => ['UTC', ...this.timezones],
+    timezone => timezone
+  );
 
   historyQueryForm: FormGroup<{
     name: FormControl<string>;
@@ -92,33 +162,37 @@ export class EditHistoryQueryComponent implements OnInit {
       maxReadInterval: FormControl<number>;
       readDelay: FormControl<number>;
     }>;
-    caching: FormGroup<{
-      scanModeId: FormControl<string | null>;
-      retryInterval: FormControl<number>;
-      retryCount: FormControl<number>;
-      maxSize: FormControl<number>;
-      oibusTimeValues: FormGroup<{ groupCount: FormControl<number>; maxSendCount: FormControl<number> }>;
-      rawFiles: FormGroup<{
-        sendFileImmediately: FormControl<boolean>;
-        archive: FormGroup<{
-          enabled: FormControl<boolean>;
-          retentionDuration: FormControl<number>;
-        }>;
-      }>;
-    }>;
+    caching: CachingFormGroup;
+    northId: FormControl<string | null>;
     northSettings: FormGroup;
+    additionalNorths: FormArray<AdditionalNorthFormGroup>;
     southSharedConnection: FormControl<boolean>;
     southSettings: FormGroup;
+    schedule: FormGroup<{
+      enabled: FormControl<boolean>;
+      scanModeId: FormControl<string | null>;
+      windowDuration: FormControl<number>;
+      windowUnit: FormControl<HistoryQueryWindowUnit>;
+      timezone: FormControl<Timezone>;
+    }>;
   }> | null = null;
 
   inMemoryItems: Array<SouthConnectorItemDTO> = [];
   inMemoryItemIdsToDelete: Array<string> = [];
 
   ngOnInit() {
-    combineLatest([this.scanModeService.list(), this.route.paramMap, this.route.queryParamMap])
+    combineLatest([
+      this.scanModeService.list(),
+      this.northConnectorService.getNorthConnectorTypes(),
+      this.northConnectorService.list(),
+      this.route.paramMap,
+      this.route.queryParamMap
+    ])
       .pipe(
-        switchMap(([scanModes, params, queryParams]) => {
+        switchMap(([scanModes, northTypes, northConnectors, params, queryParams]) => {
           this.scanModes = scanModes.filter(scanMode => scanMode.id !== 'subscription');
+          this.northTypes = northTypes;
+          this.northConnectors = northConnectors;
 
           const paramHistoryQueryId = params.get('historyQueryId');
           const paramDuplicateHistoryQuery = queryParams.get('duplicate');
@@ -169,15 +243,22 @@ export class EditHistoryQueryComponent implements OnInit {
             }
           }
 
+          const additionalNorthTypes = [...new Set((historyQuery?.additionalNorths || []).map(target => target.northType))];
           return combineLatest([
             this.northConnectorService.getNorthConnectorTypeManifest(this.northType),
             this.southConnectorService.getSouthConnectorTypeManifest(this.southType),
             of(southConnector),
-            of(northConnector)
+            of(northConnector),
+            additionalNorthTypes.length > 0
+              ? combineLatest(additionalNorthTypes.map(type => this.northConnectorService.getNorthConnectorTypeManifest(type)))
+              : of([])
           ]);
         })
       )
-      .subscribe(([northManifest, southManifest, southConnector, northConnector]) => {
+      .subscribe(([northManifest, southManifest, southConnector, northConnector, additionalNorthManifests]) => {
+        for (const manifest of additionalNorthManifests) {
+          this.storeAdditionalNorthManifest(manifest);
+        }
         this.northManifest = northManifest;
         this.southManifest = southManifest;
         this.northSettingsControls = groupFormControlsByRow(northManifest.settings);
@@ -193,29 +274,30 @@ export class EditHistoryQueryComponent implements OnInit {
             maxReadInterval: 0,
             readDelay: 200
           }),
-          caching: this.fb.group({
-            scanModeId: this.fb.control<string | null>(null, Validators.required),
-            retryInterval: [5000, Validators.required],
-            retryCount: [3, Validators.required],
-            maxSize: [0, Validators.required],
-            oibusTimeValues: this.fb.group({
-              groupCount: [1000, Validators.required],
-              maxSendCount: [10_000, Validators.required]
-            }),
-            rawFiles: this.fb.group({
-              sendFileImmediately: true as boolean,
-              archive: this.fb.group({
-                enabled: [false, Validators.required],
-                retentionDuration: [72, Validators.required]
-              })
-            })
-          }),
+          caching: this.createCachingForm(),
+          northId: this.fb.control<string | null>(null),
           northSettings: createFormGroup(northManifest.settings, this.fb),
+          additionalNorths: this.fb.array<AdditionalNorthFormGroup>([]),
           southSettings: createFormGroup(southManifest.settings, this.fb),
-          southSharedConnection: this.fb.control(false)
+          southSharedConnection: this.fb.control(false),
+          schedule: this.fb.group({
+            enabled: false,
+            scanModeId: this.fb.control<string | null>(null, Validators.required),
+            windowDuration: [1, [Validators.required, Validators.min(1)]],
+            windowUnit: ['day' as HistoryQueryWindowUnit, Validators.required],
+            timezone: ['UTC' as Timezone, Validators.required]
+          })
         });
 
+        this.historyQueryForm.controls.northId.valueChanges.subscribe(northId => this.setExistingNorth(northId));
+        this.historyQueryForm.controls.schedule.controls.enabled.valueChanges.subscribe(enabled => this.setScheduleEnabled(enabled));
+
         if (this.historyQuery) {
+          for (const target of this.historyQuery.additionalNorths) {
+            this.historyQueryForm.controls.additionalNorths.push(
+              this.createAdditionalNorthForm(this.additionalNorthManifests[target.northType])
+            );
+          }
           this.historyQueryForm.patchValue(this.historyQuery);
         } else {
           if (southConnector) {
@@ -239,39 +321,38 @@ export class EditHistoryQueryComponent implements OnInit {
     }
 
     const formValue = this.historyQueryForm!.value;
+    // The caching settings are disabled when the data is sent to an existing North connector, and the time range or the schedule
+    // settings depending on whether the history query is scheduled
+    const rawFormValue = this.historyQueryForm!.getRawValue();
+    const caching = rawFormValue.caching;
     const command: HistoryQueryCommandDTO = {
       name: formValue.name!,
       description: formValue.description!,
-      startTime: formValue.startTime!,
-      endTime: formValue.endTime!,
+      startTime: rawFormValue.startTime,
+      endTime: rawFormValue.endTime,
       northType: this.northType,
+      northId: formValue.northId || null,
       southType: this.southType,
       southSettings: formValue.southSettings,
       southSharedConnection: formValue.southSharedConnection ?? false,
-      northSettings: formValue.northSettings,
+      northSettings: formValue.northSettings ?? {},
       history: {
         maxInstantPerItem: formValue.history!.maxInstantPerItem!,
         maxReadInterval: formValue.history!.maxReadInterval!,
         readDelay: formValue.history!.readDelay!,
         overlap: 0
       },
-      caching: {
-        scanModeId: formValue.caching!.scanModeId!,
-        retryInterval: formValue.caching!.retryInterval!,
-        retryCount: formValue.caching!.retryCount!,
-        maxSize: formValue.caching!.maxSize!,
-        oibusTimeValues: {
-          groupCount: formValue.caching!.oibusTimeValues!.groupCount!,
-          maxSendCount: formValue.caching!.oibusTimeValues!.maxSendCount!
-        },
-        rawFiles: {
-          sendFileImmediately: formValue.caching!.rawFiles!.sendFileImmediately!,
-          archive: {
-            enabled: formValue.caching!.rawFiles!.archive!.enabled!,
-            retentionDuration: formValue.caching!.rawFiles!.archive!.retentionDuration!
-          }
-        }
-      }
+      caching: { ...caching, scanModeId: caching.scanModeId! },
+      additionalNorths: this.historyQueryForm!.controls.additionalNorths.controls.map(targetForm => {
+        const target = targetForm.getRawValue();
+        return {
+          id: target.id,
+          northType: target.northType,
+          northSettings: targetForm.value.northSettings,
+          caching: { ...target.caching, scanModeId: target.caching.scanModeId! }
+        };
+      }),
+      schedule: rawFormValue.schedule
     };
     if (this.mode === 'edit') {
       const modalRef = this.modalService.open(ResetCacheHistoryQueryModalComponent);
@@ -303,6 +384,118 @@ export class EditHistoryQueryComponent implements OnInit {
     });
   }
 
+  /**
+   * The North connectors of the same type that can receive the data of the history query
+   */
+  get existingNorths(): Array<NorthConnectorDTO> {
+    return this.northConnectors.filter(north => north.type === this.northType);
+  }
+
+  addAdditionalNorth() {
+    const type = this.additionalNorthTypeCtrl.value;
+    if (!type) {
+      return;
+    }
+    const manifest$ = this.additionalNorthManifests[type]
+      ? of(this.additionalNorthManifests[type])
+      : this.northConnectorService.getNorthConnectorTypeManifest(type);
+    manifest$.subscribe(manifest => {
+      this.storeAdditionalNorthManifest(manifest);
+      const targetForm = this.createAdditionalNorthForm(manifest);
+      this.historyQueryForm!.controls.additionalNorths.push(targetForm);
+      // provoke value changes to make sure fields are properly hidden and disabled
+      targetForm.setValue(targetForm.getRawValue());
+      this.additionalNorthTypeCtrl.setValue('');
+    });
+  }
+
+  removeAdditionalNorth(index: number) {
+    this.historyQueryForm!.controls.additionalNorths.removeAt(index);
+  }
+
+  /**
+   * Data sent to an existing North connector uses its settings and cache: the North settings are not needed, and its caching
+   * settings are displayed read-only
+   */
+  private setExistingNorth(northId: string | null) {
+    const form = this.historyQueryForm!;
+    const existingNorth = this.northConnectors.find(north => north.id === northId);
+    if (existingNorth) {
+      form.controls.caching.patchValue(existingNorth.caching, { emitEvent: false });
+      form.controls.caching.disable({ emitEvent: false });
+      form.controls.northSettings.disable({ emitEvent: false });
+    } else if (form.controls.caching.disabled) {
+      form.controls.caching.enable({ emitEvent: false });
+      form.controls.northSettings.enable({ emitEvent: false });
+      // provoke value changes to make sure fields are properly hidden and disabled
+      form.controls.caching.setValue(form.controls.caching.getRawValue());
+      form.controls.northSettings.setValue(form.controls.northSettings.getRawValue());
+    }
+  }
+
+  /**
+   * A scheduled history query extracts a window relative to each run instead of a fixed time range
+   */
+  private setScheduleEnabled(enabled: boolean) {
+    const form = this.historyQueryForm!;
+    const scheduleControls = form.controls.schedule.controls;
+    for (const control of [
+      scheduleControls.scanModeId,
+      scheduleControls.windowDuration,
+      scheduleControls.windowUnit,
+      scheduleControls.timezone
+    ]) {
+      if (enabled) {
+        control.enable({ emitEvent: false });
+      } else {
+        control.disable({ emitEvent: false });
+      }
+    }
+    for (const control of [form.controls.startTime, form.controls.endTime]) {
+      if (enabled) {
+        control.disable({ emitEvent: false });
+      } else {
+        control.enable({ emitEvent: false });
+      }
+    }
+  }
+
+  private createAdditionalNorthForm(manifest: NorthConnectorManifest): AdditionalNorthFormGroup {
+    return this.fb.group({
+      id: this.fb.control<string | null>(null),
+      northType: this.fb.control(manifest.id),
+      northSettings: createFormGroup(manifest.settings, this.fb),
+      caching: this.createCachingForm()
+    });
+  }
+
+  private storeAdditionalNorthManifest(manifest: NorthConnectorManifest) {
+    this.additionalNorthManifests[manifest.id] = manifest;
+    this.additionalNorthSettingsControls[manifest.id] = groupFormControlsByRow(manifest.settings);
+  }
+
+  private createCachingForm(): CachingFormGroup {
+    return this.fb.group({
+      scanModeId: this.fb.control<string | null>(null, Validators.required),
+      retryInterval: [5000, Validators.required],
+      retryCount: [3, Validators.required],
+      maxSize: [0, Validators.required],
+      overflowPolicy: ['drop-newest' as NorthCacheOverflowPolicy, Validators.required],
+      oibusTimeValues: this.fb.group({
+        groupCount: [1000, Validators.required],
+        maxSendCount: [10_000, Validators.required],
+        storage: ['file' as NorthValueCacheStorage, Validators.required]
+      }),
+      rawFiles: this.fb.group({
+        sendFileImmediately: true as boolean,
+        archive: this.fb.group({
+          enabled: [false, Validators.required],
+          retentionDuration: [72, Validators.required]
+        })
+      })
+    });
+  }
+
   updateInMemoryItems({ items, itemIdsToDelete }: { items: Array<SouthConnectorItemDTO>; itemIdsToDelete: Array<string> }) {
     this.inMemoryItems = items;
     this.inMemoryItemIdsToDelete = itemIdsToDelete;
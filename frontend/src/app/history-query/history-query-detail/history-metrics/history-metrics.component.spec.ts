@@ -96,6 +96,7 @@ class TestComponent {
     },
     southType: 'OPCUA_HA',
     northType: 'OIConnect',
+    northId: null,
     startTime: '2023-01-01T00:00:00.000Z',
     endTime: '2023-01-01T00:00:00.000Z',
     southSettings: {
@@ -110,9 +111,11 @@ class TestComponent {
       retryInterval: 1000,
       retryCount: 3,
       maxSize: 30,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 1000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       },
       rawFiles: {
         sendFileImmediately: true,
@@ -121,6 +124,39 @@ class TestComponent {
           retentionDuration: 0
         }
       }
+    },
+    additionalNorths: [
+      {
+        id: 'targetId1',
+        northType: 'AmazonS3',
+        northSettings: {},
+        caching: {
+          scanModeId: 'scanModeId1',
+          retryInterval: 1000,
+          retryCount: 3,
+          maxSize: 0,
+          overflowPolicy: 'stop',
+          oibusTimeValues: {
+            groupCount: 1000,
+            maxSendCount: 10000,
+            storage: 'file'
+          },
+          rawFiles: {
+            sendFileImmediately: true,
+            archive: {
+              enabled: false,
+              retentionDuration: 0
+            }
+          }
+        }
+      }
+    ],
+    schedule: {
+      enabled: false,
+      scanModeId: null,
+      windowDuration: 1,
+      windowUnit: 'day',
+      timezone: 'UTC'
     }
   };
   historyMetrics: HistoryMetrics = {
@@ -130,6 +166,7 @@ class TestComponent {
       lastValueSent: null,
       lastFileSent: null,
       cacheSize: 0,
+      cacheFull: false,
       metricsStart: '2023-01-01T00:00:00.000Z',
       lastConnection: null,
       lastRunStart: null,
@@ -137,14 +174,35 @@ class TestComponent {
     },
     south: {
       numberOfValuesRetrieved: 20,
+      numberOfValuesSuppressed: 0,
       numberOfFilesRetrieved: 0,
       lastValueRetrieved: null,
       lastFileRetrieved: null,
+      lastNumberOfNorthsReached: null,
+      backpressured: false,
+      metricsStart: '2023-01-01T00:00:00.000Z',
+      lastConnection: null,
+      lastRunStart: null,
+      lastRunDuration: null,
       historyMetrics: {
         intervalProgress: 1
       }
+    },
+    additionalNorths: {
+      targetId1: {
+        numberOfValuesSent: 5,
+        numberOfFilesSent: 0,
+        lastValueSent: null,
+        lastFileSent: null,
+        cacheSize: 0,
+        cacheFull: false,
+        metricsStart: '2023-01-01T00:00:00.000Z',
+        lastConnection: null,
+        lastRunStart: null,
+        lastRunDuration: null
+      }
     }
-  } as HistoryMetrics;
+  };
 }
 
 class HistoryMetricsComponentTester extends ComponentTester<TestComponent> {
@@ -155,6 +213,10 @@ class HistoryMetricsComponentTester extends ComponentTester<TestComponent> {
   get title() {
     return this.element('#title')!;
   }
+
+  get additionalNorthMetrics() {
+    return this.elements('.additional-north-metrics');
+  }
 }
 
 describe('HistoryMetricsComponent', () => {
@@ -172,4 +234,17 @@ describe('HistoryMetricsComponent', () => {
     tester.detectChanges();
     expect(tester.title).toContainText('metrics');
   });
+
+  it('should display the metrics of additional North targets', () => {
+    tester.detectChanges();
+    expect(tester.additionalNorthMetrics.length).toBe(1);
+    expect(tester.additionalNorthMetrics[0]).toContainText('AmazonS3 target metrics');
+    expect(tester.additionalNorthMetrics[0]).toContainText('5');
+  });
+
+  it('should not display the North metrics of a history query sending its data to an existing North', () => {
+    tester.componentInstance.historyQuery = { ...tester.componentInstance.historyQuery, northId: 'northId' };
+    tester.detectChanges();
+    expect(tester.element('#existing-north-metrics')).not.toBeNull();
+  });
 });
@@ -1,6 +1,6 @@
 import { Component, Input } from '@angular/core';
 import { TranslateModule } from '@ngx-translate/core';
-import { HistoryMetrics } from '../../../../../../shared/model/engine.model';
+import { HistoryMetrics, NorthConnectorMetrics } from '../../../../../../shared/model/engine.model';
 import { JsonPipe } from '@angular/common';
 import { DatetimePipe } from '../../../shared/datetime.pipe';
 import { DurationPipe } from '../../../shared/duration.pipe';
@@ -33,14 +33,25 @@ export class HistoryMetricsComponent {
   }
 
   get northProgress() {
-    const valueProgress = this.historyMetrics.north.numberOfValuesSent / this.historyMetrics.south.numberOfValuesRetrieved;
-    const fileProgress = this.historyMetrics.north.numberOfFilesSent / this.historyMetrics.south.numberOfFilesRetrieved;
+    return this.sentProgress(this.historyMetrics.north);
+  }
+
+  get northProgressbarAnimated(): boolean {
+    return this.progressbarAnimated(this.northProgress);
+  }
+
+  /**
+   * Progress of a North, relatively to the data retrieved by the South
+   */
+  sentProgress(northMetrics: NorthConnectorMetrics): number {
+    const valueProgress = northMetrics.numberOfValuesSent / this.historyMetrics.south.numberOfValuesRetrieved;
+    const fileProgress = northMetrics.numberOfFilesSent / this.historyMetrics.south.numberOfFilesRetrieved;
 
     return valueProgress > 0 ? valueProgress : fileProgress;
   }
 
-  get northProgressbarAnimated(): boolean {
-    if (this.historyQuery.status === 'RUNNING' && this.northProgress !== 1) {
+  progressbarAnimated(progress: number): boolean {
+    if (this.historyQuery.status === 'RUNNING' && progress !== 1) {
       return true;
     }
     return false;
@@ -41,6 +41,10 @@ class HistoryQueryDisplayComponentTester extends ComponentTester<HistoryQueryDet
   get historyQueryLogs() {
     return this.elements('#logs-title');
   }
+
+  get runs() {
+    return this.elements('tbody.runs tr');
+  }
 }
 
 describe('HistoryQueryDisplayComponent', () => {
@@ -126,6 +130,7 @@ describe('HistoryQueryDisplayComponent', () => {
     },
     southType: 'OPCUA_HA',
     northType: 'OIConnect',
+    northId: null,
     startTime: '2023-01-01T00:00:00.000Z',
     endTime: '2023-01-01T00:00:00.000Z',
     southSettings: {
@@ -140,9 +145,11 @@ describe('HistoryQueryDisplayComponent', () => {
       retryInterval: 1000,
       retryCount: 3,
       maxSize: 30,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 1000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       },
       rawFiles: {
         sendFileImmediately: true,
@@ -151,6 +158,14 @@ describe('HistoryQueryDisplayComponent', () => {
           retentionDuration: 0
         }
       }
+    },
+    additionalNorths: [],
+    schedule: {
+      enabled: false,
+      scanModeId: null,
+      windowDuration: 1,
+      windowUnit: 'day',
+      timezone: 'UTC'
     }
   };
   const engineInfo: OIBusInfo = {
@@ -215,6 +230,20 @@ describe('HistoryQueryDisplayComponent', () => {
         }
       ])
     );
+    historyQueryService.getRuns.and.returnValue(
+      of([
+        {
+          id: 'runId1',
+          historyId: 'id1',
+          status: 'ERRORED',
+          startTime: '2023-01-01T00:00:00.000Z',
+          endTime: '2023-01-02T00:00:00.000Z',
+          runStart: '2023-01-02T00:00:00.000Z',
+          runEnd: '2023-01-02T00:10:00.000Z',
+          error: 'connection error'
+        }
+      ])
+    );
     scanModeService.list.and.returnValue(of([]));
     engineService.getInfo.and.returnValue(of(engineInfo));
 
@@ -243,6 +272,29 @@ describe('HistoryQueryDisplayComponent', () => {
     expect(item.elements('td')[2]).toContainText('sql');
   });
 
+  it('should display runs', () => {
+    tester.detectChanges();
+    expect(historyQueryService.getRuns).toHaveBeenCalledWith('id1');
+    expect(tester.runs.length).toBe(1);
+    expect(tester.runs[0].elements('td')[1]).toContainText('Errored');
+    expect(tester.runs[0].elements('td')[4]).toContainText('connection error');
+  });
+
+  it('should retry the failed intervals of the last run', () => {
+    historyQueryService.retryFailedIntervals.and.returnValue(of(undefined));
+    tester.detectChanges();
+    tester.button('#retry-failed-intervals')!.click();
+    expect(historyQueryService.retryFailedIntervals).toHaveBeenCalledWith('id1');
+    expect(historyQueryService.getRuns).toHaveBeenCalledTimes(2);
+  });
+
+  it('should download the report of a run', () => {
+    historyQueryService.downloadReport.and.returnValue(of(undefined));
+    tester.detectChanges();
+    tester.runs[0].button('.download-report')!.click();
+    expect(historyQueryService.downloadReport).toHaveBeenCalledWith('id1', 'runId1');
+  });
+
   it('should display logs', () => {
     tester.detectChanges();
     expect(tester.historyQueryLogs.length).toBe(1);
@@ -8,7 +8,7 @@ import { NorthConnectorCommandDTO, NorthConnectorManifest } from '../../../../..
 import { NorthConnectorService } from '../../services/north-connector.service';
 import { ScanModeDTO } from '../../../../../shared/model/scan-mode.model';
 import { ScanModeService } from '../../services/scan-mode.service';
-import { HistoryQueryDTO, HistoryQueryStatus } from '../../../../../shared/model/history-query.model';
+import { HistoryQueryDTO, HistoryQueryRunDTO, HistoryQueryStatus } from '../../../../../shared/model/history-query.model';
 import {
   SouthConnectorCommandDTO,
   SouthConnectorItemDTO,
@@ -22,6 +22,8 @@ import { HistoryQueryItemsComponent } from '../history-query-items/history-query
 import { BoxComponent, BoxTitleDirective } from '../../shared/box/box.component';
 import { EnabledEnumPipe } from '../../shared/enabled-enum.pipe';
 import { DurationPipe } from '../../shared/duration.pipe';
+import { ValueCacheStoragesEnumPipe } from '../../shared/value-cache-storages-enum.pipe';
+import { CacheOverflowPoliciesEnumPipe } from '../../shared/cache-overflow-policies-enum.pipe';
 import { ReactiveFormsModule } from '@angular/forms';
 import { HistoryMetricsComponent } from './history-metrics/history-metrics.component';
 import { BackNavigationDirective } from '../../shared/back-navigation.directives';
@@ -35,6 +37,7 @@ import { ClipboardModule } from '@angular/cdk/clipboard';
 import { ModalService } from '../../shared/modal.service';
 import { TestConnectionResultModalComponent } from '../../shared/test-connection-result-modal/test-connection-result-modal.component';
 import { LogsComponent } from '../../logs/logs.component';
+import { DatetimePipe } from '../../shared/datetime.pipe';
 
 @Component({
   selector: 'oib-history-query-detail',
@@ -50,12 +53,15 @@ import { LogsComponent } from '../../logs/logs.component';
     BoxTitleDirective,
     EnabledEnumPipe,
     DurationPipe,
+    ValueCacheStoragesEnumPipe,
+    CacheOverflowPoliciesEnumPipe,
     ReactiveFormsModule,
     HistoryMetricsComponent,
     SouthMetricsComponent,
     AsyncPipe,
     ClipboardModule,
-    LogsComponent
+    LogsComponent,
+    DatetimePipe
   ],
   templateUrl: './history-query-detail.component.html',
   styleUrl: './history-query-detail.component.scss',
@@ -83,6 +89,7 @@ export class HistoryQueryDetailComponent implements OnInit, OnDestroy {
   northManifest: NorthConnectorManifest | null = null;
   southManifest: SouthConnectorManifest | null = null;
   historyQueryItems: Array<SouthConnectorItemDTO> = [];
+  runs: Array<HistoryQueryRunDTO> = [];
   importing = false;
   exporting = false;
 
@@ -109,17 +116,18 @@ export class HistoryQueryDetailComponent implements OnInit, OnDestroy {
         }),
         switchMap(historyQuery => {
           if (!historyQuery) {
-            return combineLatest([of(null), of(null), of(null)]);
+            return combineLatest([of(null), of(null), of(null), of([])]);
           }
           this.historyQuery = historyQuery;
           return combineLatest([
             this.historyQueryService.listItems(historyQuery.id),
             this.northConnectorService.getNorthConnectorTypeManifest(historyQuery.northType),
-            this.southConnectorService.getSouthConnectorTypeManifest(historyQuery.southType)
+            this.southConnectorService.getSouthConnectorTypeManifest(historyQuery.southType),
+            this.historyQueryService.getRuns(historyQuery.id)
           ]);
         })
       )
-      .subscribe(([historyItems, northManifest, southManifest]) => {
+      .subscribe(([historyItems, northManifest, southManifest, runs]) => {
         if (!northManifest || !southManifest || !historyItems) {
           return;
         }
@@ -146,6 +154,7 @@ export class HistoryQueryDetailComponent implements OnInit, OnDestroy {
             };
           });
         this.historyQueryItems = historyItems;
+        this.runs = runs;
       });
   }
 
@@ -208,6 +217,26 @@ export class HistoryQueryDetailComponent implements OnInit, OnDestroy {
     }
   }
 
+  retryFailedIntervals() {
+    this.historyQueryService
+      .retryFailedIntervals(this.historyQuery!.id)
+      .pipe(
+        switchMap(() =>
+          combineLatest([this.historyQueryService.get(this.historyQuery!.id), this.historyQueryService.getRuns(this.historyQuery!.id)])
+        )
+      )
+      .subscribe(([updatedHistoryQuery, runs]) => {
+        this.historyQuery = updatedHistoryQuery;
+        this.runs = runs;
+        this.notificationService.success('history-query.runs.retried', { name: this.historyQuery!.name });
+        this.connectToEventSource();
+      });
+  }
+
+  downloadReport(run: HistoryQueryRunDTO) {
+    this.historyQueryService.downloadReport(this.historyQuery!.id, run.id).subscribe();
+  }
+
   onClipboardCopy(result: boolean) {
     if (result) {
       this.notificationService.success('history-query.cache-path-copy.success');
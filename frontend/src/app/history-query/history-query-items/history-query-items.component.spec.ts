@@ -30,6 +30,7 @@ class TestComponent {
     },
     southType: 'OPCUA_HA',
     northType: 'OIConnect',
+    northId: null,
     startTime: '2023-01-01T00:00:00.000Z',
     endTime: '2023-01-01T00:00:00.000Z',
     southSettings: {
@@ -44,9 +45,11 @@ class TestComponent {
       retryInterval: 1000,
       retryCount: 3,
       maxSize: 30,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 1000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       },
       rawFiles: {
         sendFileImmediately: true,
@@ -55,6 +58,14 @@ class TestComponent {
           retentionDuration: 0
         }
       }
+    },
+    additionalNorths: [],
+    schedule: {
+      enabled: false,
+      scanModeId: null,
+      windowDuration: 1,
+      windowUnit: 'day',
+      timezone: 'UTC'
     }
   };
   manifest: SouthConnectorManifest = {
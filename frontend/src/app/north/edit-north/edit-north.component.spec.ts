@@ -113,9 +113,11 @@ describe('EditNorthComponent', () => {
         retryInterval: 1000,
         retryCount: 3,
         maxSize: 0,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
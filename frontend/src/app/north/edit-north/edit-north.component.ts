@@ -11,7 +11,15 @@ import { FormComponent } from '../../shared/form/form.component';
 import { OibFormControl } from '../../../../../shared/model/form.model';
 import { ScanModeDTO } from '../../../../../shared/model/scan-mode.model';
 import { ScanModeService } from '../../services/scan-mode.service';
-import { NorthConnectorCommandDTO, NorthConnectorDTO, NorthConnectorManifest } from '../../../../../shared/model/north-connector.model';
+import {
+  NORTH_CACHE_OVERFLOW_POLICIES,
+  NORTH_VALUE_CACHE_STORAGES,
+  NorthCacheOverflowPolicy,
+  NorthConnectorCommandDTO,
+  NorthConnectorDTO,
+  NorthConnectorManifest,
+  NorthValueCacheStorage
+} from '../../../../../shared/model/north-connector.model';
 import { NorthConnectorService } from '../../services/north-connector.service';
 import { OibScanModeComponent } from '../../shared/form/oib-scan-mode/oib-scan-mode.component';
 import { createFormGroup, groupFormControlsByRow } from '../../shared/form-utils';
@@ -23,6 +31,8 @@ import { CertificateDTO } from '../../../../../shared/model/certificate.model';
 import { CertificateService } from '../../services/certificate.service';
 import { NorthSubscriptionsComponent } from '../north-subscriptions/north-subscriptions.component';
 import { OIBusSubscription } from '../../../../../shared/model/subscription.model';
+import { ValueCacheStoragesEnumPipe } from '../../shared/value-cache-storages-enum.pipe';
+import { CacheOverflowPoliciesEnumPipe } from '../../shared/cache-overflow-policies-enum.pipe';
 import { OibHelpComponent } from '../../shared/oib-help/oib-help.component';
 
 @Component({
@@ -39,7 +49,9 @@ import { OibHelpComponent } from '../../shared/oib-help/oib-help.component';
     BoxComponent,
     BoxTitleDirective,
     NorthSubscriptionsComponent,
-    OibHelpComponent
+    OibHelpComponent,
+    ValueCacheStoragesEnumPipe,
+    CacheOverflowPoliciesEnumPipe
   ],
   templateUrl: './edit-north.component.html',
   styleUrl: './edit-north.component.scss'
@@ -64,6 +76,8 @@ export class EditNorthComponent implements OnInit {
   scanModes: Array<ScanModeDTO> = [];
   certificates: Array<CertificateDTO> = [];
   manifest: NorthConnectorManifest | null = null;
+  readonly valueCacheStorages = NORTH_VALUE_CACHE_STORAGES;
+  readonly cacheOverflowPolicies = NORTH_CACHE_OVERFLOW_POLICIES;
 
   northForm: FormGroup<{
     name: FormControl<string>;
@@ -74,7 +88,12 @@ export class EditNorthComponent implements OnInit {
       retryInterval: FormControl<number>;
       retryCount: FormControl<number>;
       maxSize: FormControl<number>;
-      oibusTimeValues: FormGroup<{ groupCount: FormControl<number>; maxSendCount: FormControl<number> }>;
+      overflowPolicy: FormControl<NorthCacheOverflowPolicy>;
+      oibusTimeValues: FormGroup<{
+        groupCount: FormControl<number>;
+        maxSendCount: FormControl<number>;
+        storage: FormControl<NorthValueCacheStorage>;
+      }>;
       rawFiles: FormGroup<{
         sendFileImmediately: FormControl<boolean>;
         archive: FormGroup<{
@@ -139,9 +158,11 @@ export class EditNorthComponent implements OnInit {
             retryInterval: [5000, Validators.required],
             retryCount: [3, Validators.required],
             maxSize: [0, Validators.required],
+            overflowPolicy: ['drop-newest' as NorthCacheOverflowPolicy, Validators.required],
             oibusTimeValues: this.fb.group({
               groupCount: [1000, Validators.required],
-              maxSendCount: [10_000, Validators.required]
+              maxSendCount: [10_000, Validators.required],
+              storage: ['file' as NorthValueCacheStorage, Validators.required]
             }),
             rawFiles: this.fb.group({
               sendFileImmediately: true as boolean,
@@ -203,9 +224,11 @@ export class EditNorthComponent implements OnInit {
         retryInterval: formValue.caching!.retryInterval!,
         retryCount: formValue.caching!.retryCount!,
         maxSize: formValue.caching!.maxSize!,
+        overflowPolicy: formValue.caching!.overflowPolicy!,
         oibusTimeValues: {
           groupCount: formValue.caching!.oibusTimeValues!.groupCount!,
-          maxSendCount: formValue.caching!.oibusTimeValues!.maxSendCount!
+          maxSendCount: formValue.caching!.oibusTimeValues!.maxSendCount!,
+          storage: formValue.caching!.oibusTimeValues!.storage!
         },
         rawFiles: {
           sendFileImmediately: formValue.caching!.rawFiles!.sendFileImmediately!,
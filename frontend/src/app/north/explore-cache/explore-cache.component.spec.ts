@@ -58,9 +58,11 @@ describe('ExploreCacheComponent', () => {
       retryInterval: 1000,
       retryCount: 3,
       maxSize: 30,
+      overflowPolicy: 'drop-newest',
       oibusTimeValues: {
         groupCount: 1000,
-        maxSendCount: 10000
+        maxSendCount: 10000,
+        storage: 'file'
       }
     }
   } as NorthConnectorDTO;
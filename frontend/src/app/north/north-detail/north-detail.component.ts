@@ -13,6 +13,8 @@ import { NorthSubscriptionsComponent } from '../north-subscriptions/north-subscr
 import { NorthMetricsComponent } from '../north-metrics/north-metrics.component';
 import { BoxComponent, BoxTitleDirective } from '../../shared/box/box.component';
 import { DurationPipe } from '../../shared/duration.pipe';
+import { ValueCacheStoragesEnumPipe } from '../../shared/value-cache-storages-enum.pipe';
+import { CacheOverflowPoliciesEnumPipe } from '../../shared/cache-overflow-policies-enum.pipe';
 import { EnabledEnumPipe } from '../../shared/enabled-enum.pipe';
 import { NotificationService } from '../../shared/notification.service';
 import { BackNavigationDirective } from '../../shared/back-navigation.directives';
@@ -38,6 +40,8 @@ import { LogsComponent } from '../../logs/logs.component';
     BoxComponent,
     BoxTitleDirective,
     DurationPipe,
+    ValueCacheStoragesEnumPipe,
+    CacheOverflowPoliciesEnumPipe,
     EnabledEnumPipe,
     ClipboardModule,
     LogsComponent
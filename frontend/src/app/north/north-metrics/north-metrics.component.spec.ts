@@ -25,7 +25,8 @@ class TestComponent {
     numberOfFilesSent: 12,
     lastValueSent: { pointId: 'pointId', timestamp: '2020-02-02T00:00:00.000Z', data: { value: '13' } },
     lastFileSent: 'file',
-    cacheSize: 14
+    cacheSize: 14,
+    cacheFull: false
   };
   northConnector: NorthConnectorDTO = {
     id: 'northId',
@@ -3,7 +3,12 @@ import { TestBed } from '@angular/core/testing';
 import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 
 import { HistoryQueryService } from './history-query.service';
-import { HistoryQueryCommandDTO, HistoryQueryDTO } from '../../../../shared/model/history-query.model';
+import {
+  HistoryQueryCommandDTO,
+  HistoryQueryDTO,
+  HistoryQueryReportDTO,
+  HistoryQueryRunDTO
+} from '../../../../shared/model/history-query.model';
 import { toPage } from '../shared/test-utils';
 import { Page } from '../../../../shared/model/types';
 import {
@@ -50,6 +55,38 @@ describe('HistoryQueryService', () => {
     expect(expectedHistoryQuery!).toEqual(historyQuery);
   });
 
+  it('should get the runs of a History query', () => {
+    let expectedRuns: Array<HistoryQueryRunDTO> = [];
+    const runs = [{ id: 'runId1' }, { id: 'runId2' }] as Array<HistoryQueryRunDTO>;
+
+    service.getRuns('id1').subscribe(c => (expectedRuns = c));
+
+    http.expectOne({ url: '/api/history-queries/id1/runs', method: 'GET' }).flush(runs);
+    expect(expectedRuns).toEqual(runs);
+  });
+
+  it('should get the report of a History query run', () => {
+    let expectedReport: HistoryQueryReportDTO | null = null;
+    const report = { requestedIntervals: 2, completedIntervals: 2 } as HistoryQueryReportDTO;
+    service.getReport('id1').subscribe(c => (expectedReport = c));
+    http.expectOne({ url: '/api/history-queries/id1/report', method: 'GET' }).flush(report);
+    expect(expectedReport!).toEqual(report);
+
+    service.getReport('id1', 'runId').subscribe(c => (expectedReport = c));
+    http.expectOne({ url: '/api/history-queries/id1/report?runId=runId', method: 'GET' }).flush(report);
+  });
+
+  it('should download the report of a History query run', () => {
+    let downloaded = false;
+    spyOn(downloadService, 'download');
+    service.downloadReport('id1', 'runId').subscribe(() => (downloaded = true));
+
+    http.expectOne({ url: '/api/history-queries/id1/report/csv?runId=runId', method: 'GET' }).flush(new Blob());
+
+    expect(downloaded).toBe(true);
+    expect(downloadService.download).toHaveBeenCalled();
+  });
+
   it('should create a History query', () => {
     let done = false;
     const command: HistoryQueryCommandDTO = {
@@ -81,6 +118,7 @@ describe('HistoryQueryService', () => {
       endTime: '2023-01-01T00:00:00.000Z',
       southType: 'SQL',
       northType: 'OIConnect',
+      northId: null,
       southSettings: {},
       southSharedConnection: false,
       northSettings: {},
@@ -89,9 +127,11 @@ describe('HistoryQueryService', () => {
         retryInterval: 1000,
         retryCount: 3,
         maxSize: 30,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -100,6 +140,14 @@ describe('HistoryQueryService', () => {
             retentionDuration: 0
           }
         }
+      },
+      additionalNorths: [],
+      schedule: {
+        enabled: false,
+        scanModeId: null,
+        windowDuration: 1,
+        windowUnit: 'day',
+        timezone: 'UTC'
       }
     };
 
@@ -290,6 +338,16 @@ describe('HistoryQueryService', () => {
     expect(done).toBe(true);
   });
 
+  it('should retry the failed intervals of a History query', () => {
+    let done = false;
+
+    service.retryFailedIntervals('id1').subscribe(() => (done = true));
+    const testRequest = http.expectOne({ method: 'PUT', url: '/api/history-queries/id1/retry-failed-intervals' });
+    expect(testRequest.request.body).toEqual(null);
+    testRequest.flush(null);
+    expect(done).toBe(true);
+  });
+
   it('should test a History query North connector connection', () => {
     let done = false;
     const command: NorthConnectorCommandDTO = {
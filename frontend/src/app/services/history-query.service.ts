@@ -1,7 +1,12 @@
 import { HttpClient } from '@angular/common/http';
 import { map, Observable } from 'rxjs';
 import { Injectable, inject } from '@angular/core';
-import { HistoryQueryCommandDTO, HistoryQueryDTO } from '../../../../shared/model/history-query.model';
+import {
+  HistoryQueryCommandDTO,
+  HistoryQueryDTO,
+  HistoryQueryReportDTO,
+  HistoryQueryRunDTO
+} from '../../../../shared/model/history-query.model';
 import { Page } from '../../../../shared/model/types';
 import {
   SouthConnectorCommandDTO,
@@ -37,6 +42,34 @@ export class HistoryQueryService {
     return this.http.get<HistoryQueryDTO>(`/api/history-queries/${historyQueryId}`);
   }
 
+  /**
+   * Get the runs of a History query, the most recent first
+   * @param historyQueryId - the ID of the History query
+   */
+  getRuns(historyQueryId: string): Observable<Array<HistoryQueryRunDTO>> {
+    return this.http.get<Array<HistoryQueryRunDTO>>(`/api/history-queries/${historyQueryId}/runs`);
+  }
+
+  /**
+   * Get the data-completeness report of a run. The last run is reported when no run ID is given
+   * @param historyQueryId - the ID of the History query
+   * @param runId - the ID of the run
+   */
+  getReport(historyQueryId: string, runId: string | null = null): Observable<HistoryQueryReportDTO> {
+    return this.http.get<HistoryQueryReportDTO>(`/api/history-queries/${historyQueryId}/report`, { params: runId ? { runId } : {} });
+  }
+
+  /**
+   * Download the intervals of a run in a CSV file
+   * @param historyQueryId - the ID of the History query
+   * @param runId - the ID of the run
+   */
+  downloadReport(historyQueryId: string, runId: string): Observable<void> {
+    return this.http
+      .get(`/api/history-queries/${historyQueryId}/report/csv`, { params: { runId }, responseType: 'blob', observe: 'response' })
+      .pipe(map(response => this.downloadService.download(response, `report-${runId}.csv`)));
+  }
+
   /**
    * Create a new History query
    * @param command - the new History query
@@ -234,6 +267,14 @@ export class HistoryQueryService {
     return this.http.put<void>(`/api/history-queries/${historyQueryId}/pause`, null);
   }
 
+  /**
+   * Query again the failed intervals of the last run of a History query
+   * @param historyQueryId - the ID of the History query
+   */
+  retryFailedIntervals(historyQueryId: string): Observable<void> {
+    return this.http.put<void>(`/api/history-queries/${historyQueryId}/retry-failed-intervals`, null);
+  }
+
   testSouthConnection(historyQueryId: string, settings: SouthConnectorCommandDTO, fromConnectorId: string | null = null): Observable<void> {
     return this.http.put<void>(`/api/history-queries/${historyQueryId}/south/test-connection`, settings, {
       params: fromConnectorId ? { fromConnectorId } : {}
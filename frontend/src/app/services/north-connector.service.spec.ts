@@ -92,9 +92,11 @@ describe('NorthConnectorService', () => {
         retryInterval: 1000,
         retryCount: 3,
         maxSize: 30,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -126,9 +128,11 @@ describe('NorthConnectorService', () => {
         retryInterval: 1000,
         retryCount: 3,
         maxSize: 30,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -385,9 +389,11 @@ describe('NorthConnectorService', () => {
         retryInterval: 1000,
         retryCount: 3,
         maxSize: 30,
+        overflowPolicy: 'drop-newest',
         oibusTimeValues: {
           groupCount: 1000,
-          maxSendCount: 10000
+          maxSendCount: 10000,
+          storage: 'file'
         },
         rawFiles: {
           sendFileImmediately: true,
@@ -3,6 +3,8 @@ import { TestBed } from '@angular/core/testing';
 import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 import { SouthConnectorService } from './south-connector.service';
 import {
+  SouthCache,
+  SouthConnectorBrowseNodeDTO,
   SouthConnectorItemCommandDTO,
   SouthConnectorItemDTO,
   SouthConnectorCommandDTO,
@@ -213,6 +215,44 @@ describe('SouthConnectorService', () => {
     expect(done).toBe(true);
   });
 
+  it('should set the max instant of a South connector item', () => {
+    let done = false;
+    service.setItemMaxInstant('id1', 'southItemId1', '2020-02-02T02:02:02.222Z').subscribe(() => (done = true));
+    const testRequest = http.expectOne({ method: 'PUT', url: '/api/south/id1/items/southItemId1/max-instant' });
+    expect(testRequest.request.body).toEqual({ maxInstant: '2020-02-02T02:02:02.222Z' });
+    testRequest.flush(null);
+    expect(done).toBe(true);
+  });
+
+  it('should get the cache of a South connector', () => {
+    let expectedCache: Array<SouthCache> | null = null;
+    const cache: Array<SouthCache> = [
+      { southId: 'id1', scanModeId: 'scanModeId1', itemId: 'southItemId1', maxInstant: '2020-02-02T02:02:02.222Z' }
+    ];
+    service.getCache('id1').subscribe(c => (expectedCache = c));
+    http.expectOne({ method: 'GET', url: '/api/south/id1/cache' }).flush(cache);
+    expect(expectedCache!).toEqual(cache);
+  });
+
+  it('should set the max instant of a South connector cache entry', () => {
+    let done = false;
+    const command = { scanModeId: 'scanModeId1', itemId: 'all', maxInstant: '2020-02-02T02:02:02.222Z' };
+    service.setCacheMaxInstant('id1', command).subscribe(() => (done = true));
+    const testRequest = http.expectOne({ method: 'PUT', url: '/api/south/id1/cache' });
+    expect(testRequest.request.body).toEqual(command);
+    testRequest.flush(null);
+    expect(done).toBe(true);
+  });
+
+  it('should rewind the cache of a South connector', () => {
+    let done = false;
+    service.rewindCache('id1', '2020-02-02T02:02:02.222Z').subscribe(() => (done = true));
+    const testRequest = http.expectOne({ method: 'PUT', url: '/api/south/id1/cache/rewind' });
+    expect(testRequest.request.body).toEqual({ maxInstant: '2020-02-02T02:02:02.222Z' });
+    testRequest.flush(null);
+    expect(done).toBe(true);
+  });
+
   it('should delete all South connector items', () => {
     let done = false;
     service.deleteAllItems('id1').subscribe(() => (done = true));
@@ -322,6 +362,31 @@ describe('SouthConnectorService', () => {
     expect(done).toBe(true);
   });
 
+  it('should browse a South', () => {
+    let expectedNodes: Array<SouthConnectorBrowseNodeDTO> = [];
+    const nodes = [{ nodeId: 'ns=3;s=Temperature' } as SouthConnectorBrowseNodeDTO];
+
+    service.browse('id1', null).subscribe(c => (expectedNodes = c));
+    http.expectOne({ method: 'GET', url: '/api/south/id1/browse' }).flush(nodes);
+    expect(expectedNodes).toEqual(nodes);
+
+    service.browse('id1', 'ns=3;s=Folder').subscribe();
+    const testRequest = http.expectOne(request => request.method === 'GET' && request.url === '/api/south/id1/browse');
+    expect(testRequest.request.params.get('nodeId')).toEqual('ns=3;s=Folder');
+    testRequest.flush([]);
+  });
+
+  it('should discover South items', () => {
+    let expectedItems: Array<SouthConnectorItemDTO> = [];
+    const items = [{ name: 'my/topic' } as SouthConnectorItemDTO];
+
+    service.discoverItems('id1', { topic: '#', duration: 10 }).subscribe(c => (expectedItems = c));
+    const testRequest = http.expectOne({ method: 'PUT', url: '/api/south/id1/items/discover' });
+    expect(testRequest.request.body).toEqual({ topic: '#', duration: 10 });
+    testRequest.flush(items);
+    expect(expectedItems).toEqual(items);
+  });
+
   it('should start a South', () => {
     let done = false;
 
@@ -2,15 +2,21 @@ import { HttpClient } from '@angular/common/http';
 import { map, Observable } from 'rxjs';
 import { Injectable, inject } from '@angular/core';
 import {
+  SouthCache,
+  SouthCacheCommandDTO,
+  SouthCacheRewindCommandDTO,
+  SouthConnectorBrowseNodeDTO,
   SouthConnectorCommandDTO,
   SouthConnectorDTO,
+  SouthConnectorItemDiscoveryCommandDTO,
   SouthConnectorManifest,
   SouthConnectorItemCommandDTO,
   SouthConnectorItemDTO,
+  SouthConnectorItemMaxInstantCommandDTO,
   SouthConnectorItemSearchParam,
   SouthType
 } from '../../../../shared/model/south-connector.model';
-import { Page } from '../../../../shared/model/types';
+import { Instant, Page } from '../../../../shared/model/types';
 import { DownloadService } from './download.service';
 import { OIBusContent } from '../../../../shared/model/engine.model';
 
@@ -189,6 +195,44 @@ export class SouthConnectorService {
     return this.http.put<void>(`/api/south/${southId}/items/${itemId}/disable`, null);
   }
 
+  /**
+   * Set the max instant of an item, from which its history is queried again
+   * @param southId - the ID of the South connector
+   * @param itemId - the ID of the South connector item
+   * @param maxInstant - the new max instant of the item
+   */
+  setItemMaxInstant(southId: string, itemId: string, maxInstant: Instant) {
+    const command: SouthConnectorItemMaxInstantCommandDTO = { maxInstant };
+    return this.http.put<void>(`/api/south/${southId}/items/${itemId}/max-instant`, command);
+  }
+
+  /**
+   * Retrieve the cache entries of a South connector, with their max instant
+   * @param southId - the ID of the South connector
+   */
+  getCache(southId: string): Observable<Array<SouthCache>> {
+    return this.http.get<Array<SouthCache>>(`/api/south/${southId}/cache`);
+  }
+
+  /**
+   * Set the max instant of a cache entry of a South connector
+   * @param southId - the ID of the South connector
+   * @param command - the scan mode, the item and the new max instant of the cache entry
+   */
+  setCacheMaxInstant(southId: string, command: SouthCacheCommandDTO) {
+    return this.http.put<void>(`/api/south/${southId}/cache`, command);
+  }
+
+  /**
+   * Set back to the given max instant all the cache entries of a South connector beyond it
+   * @param southId - the ID of the South connector
+   * @param maxInstant - the max instant to rewind to
+   */
+  rewindCache(southId: string, maxInstant: Instant) {
+    const command: SouthCacheRewindCommandDTO = { maxInstant };
+    return this.http.put<void>(`/api/south/${southId}/cache/rewind`, command);
+  }
+
   /**
    * Delete all South items
    * @param southId - the ID of the South connector
@@ -259,6 +303,24 @@ export class SouthConnectorService {
     return this.http.post<void>(`/api/south/${southId}/items/import`, { items });
   }
 
+  /**
+   * Browse the children of a node of the South connector, or its root nodes when no node is given
+   */
+  browse(southId: string, nodeId: string | null): Observable<Array<SouthConnectorBrowseNodeDTO>> {
+    const params: Record<string, string> = {};
+    if (nodeId) {
+      params['nodeId'] = nodeId;
+    }
+    return this.http.get<Array<SouthConnectorBrowseNodeDTO>>(`/api/south/${southId}/browse`, { params });
+  }
+
+  /**
+   * Listen to the South connector during the duration of the command and retrieve the items it proposes
+   */
+  discoverItems(southId: string, command: SouthConnectorItemDiscoveryCommandDTO): Observable<Array<SouthConnectorItemDTO>> {
+    return this.http.put<Array<SouthConnectorItemDTO>>(`/api/south/${southId}/items/discover`, command);
+  }
+
   testConnection(southId: string, settings: SouthConnectorCommandDTO<any>): Observable<void> {
     return this.http.put<void>(`/api/south/${southId}/test-connection`, settings);
   }
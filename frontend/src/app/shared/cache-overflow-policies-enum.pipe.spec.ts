@@ -0,0 +1,12 @@
+import { testEnumPipe } from './base-enum-pipe.spec';
+import { CacheOverflowPoliciesEnumPipe } from './cache-overflow-policies-enum.pipe';
+
+describe('CacheOverflowPoliciesEnumPipe', () => {
+  it('should translate cache overflow policy', () => {
+    testEnumPipe(CacheOverflowPoliciesEnumPipe, {
+      stop: 'Stop and backpressure the South connectors',
+      'drop-oldest': 'Drop the oldest content',
+      'drop-newest': 'Drop the new content'
+    });
+  });
+});
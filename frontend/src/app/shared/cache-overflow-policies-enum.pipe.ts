@@ -0,0 +1,14 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { BaseEnumPipe } from './base-enum-pipe';
+import { NorthCacheOverflowPolicy } from '../../../../shared/model/north-connector.model';
+
+@Pipe({
+  name: 'cacheOverflowPoliciesEnum',
+  pure: false,
+  standalone: true
+})
+export class CacheOverflowPoliciesEnumPipe extends BaseEnumPipe<NorthCacheOverflowPolicy> implements PipeTransform {
+  constructor() {
+    super('cache-overflow-policies');
+  }
+}
@@ -0,0 +1,11 @@
+import { testEnumPipe } from './base-enum-pipe.spec';
+import { ValueCacheStoragesEnumPipe } from './value-cache-storages-enum.pipe';
+
+describe('ValueCacheStoragesEnumPipe', () => {
+  it('should translate value cache storage', () => {
+    testEnumPipe(ValueCacheStoragesEnumPipe, {
+      file: 'Files',
+      sqlite: 'SQLite database'
+    });
+  });
+});
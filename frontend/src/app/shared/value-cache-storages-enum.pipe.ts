@@ -0,0 +1,14 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { BaseEnumPipe } from './base-enum-pipe';
+import { NorthValueCacheStorage } from '../../../../shared/model/north-connector.model';
+
+@Pipe({
+  name: 'valueCacheStoragesEnum',
+  pure: false,
+  standalone: true
+})
+export class ValueCacheStoragesEnumPipe extends BaseEnumPipe<NorthValueCacheStorage> implements PipeTransform {
+  constructor() {
+    super('value-cache-storages');
+  }
+}
@@ -0,0 +1,213 @@
+import { BrowseSouthItemsModalComponent } from './browse-south-items-modal.component';
+import { ComponentTester, createMock, TestButton, TestInput } from 'ngx-speculoos';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import {
+  SouthConnectorBrowseNodeDTO,
+  SouthConnectorItemDTO,
+  SouthConnectorItemManifest
+} from '../../../../../shared/model/south-connector.model';
+import { ScanModeDTO } from '../../../../../shared/model/scan-mode.model';
+import { SouthConnectorService } from '../../services/south-connector.service';
+import { provideI18nTesting } from '../../../i18n/mock-i18n';
+
+class BrowseSouthItemsModalComponentTester extends ComponentTester<BrowseSouthItemsModalComponent> {
+  constructor() {
+    super(BrowseSouthItemsModalComponent);
+  }
+
+  get scanMode() {
+    return this.select('#scan-mode')!;
+  }
+
+  get historyScanMode() {
+    return this.select('#history-scan-mode');
+  }
+
+  get noHistoryScanMode() {
+    return this.element('#no-history-scan-mode');
+  }
+
+  get nodes() {
+    return this.elements('tbody tr.browse-node');
+  }
+
+  get selectNodes() {
+    return this.elements('.select-node') as Array<TestInput>;
+  }
+
+  get expandNodes() {
+    return this.elements('.expand-node') as Array<TestButton>;
+  }
+
+  get save() {
+    return this.button('#save-button')!;
+  }
+
+  get cancel() {
+    return this.button('#cancel-button')!;
+  }
+}
+
+describe('BrowseSouthItemsModalComponent', () => {
+  let tester: BrowseSouthItemsModalComponentTester;
+  let fakeActiveModal: NgbActiveModal;
+  let southConnectorService: jasmine.SpyObj<SouthConnectorService>;
+
+  const southItemSchema: SouthConnectorItemManifest = {
+    scanMode: { subscriptionOnly: false, acceptSubscription: true },
+    settings: [],
+    schema: []
+  } as SouthConnectorItemManifest;
+  const existingItems: Array<SouthConnectorItemDTO> = [
+    {
+      id: 'id1',
+      enabled: true,
+      name: 'Pressure',
+      connectorId: 'southId',
+      scanModeId: 'scanModeId1',
+      settings: { nodeId: 'ns=3;s=Pressure' }
+    }
+  ];
+  const scanModes: Array<ScanModeDTO> = [
+    {
+      id: 'scanModeId1',
+      name: 'scanMode1',
+      description: 'my first scanMode',
+      cron: '* * * * * *'
+    }
+  ];
+  const rootNodes: Array<SouthConnectorBrowseNodeDTO> = [
+    {
+      nodeId: 'ns=3;s=Machine',
+      browseName: 'Machine',
+      displayName: 'Machine',
+      nodeClass: 'Object',
+      dataType: null,
+      accessLevel: [],
+      historizing: false
+    }
+  ];
+  const machineNodes: Array<SouthConnectorBrowseNodeDTO> = [
+    {
+      nodeId: 'ns=3;s=Temperature',
+      browseName: 'Temperature',
+      displayName: 'Temperature',
+      nodeClass: 'Variable',
+      dataType: 'Double',
+      accessLevel: ['CurrentRead', 'HistoryRead'],
+      historizing: true
+    },
+    {
+      nodeId: 'ns=3;s=Machine.Pressure',
+      browseName: 'Pressure',
+      displayName: 'Pressure',
+      nodeClass: 'Variable',
+      dataType: 'Float',
+      accessLevel: ['CurrentRead'],
+      historizing: false
+    },
+    {
+      nodeId: 'ns=3;s=Pressure',
+      browseName: 'Pressure',
+      displayName: 'Pressure',
+      nodeClass: 'Variable',
+      dataType: 'Float',
+      accessLevel: ['CurrentRead'],
+      historizing: false
+    }
+  ];
+
+  beforeEach(() => {
+    fakeActiveModal = createMock(NgbActiveModal);
+    southConnectorService = createMock(SouthConnectorService);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideI18nTesting(),
+        { provide: NgbActiveModal, useValue: fakeActiveModal },
+        { provide: SouthConnectorService, useValue: southConnectorService }
+      ]
+    });
+
+    southConnectorService.browse.and.returnValues(of(rootNodes), of(machineNodes));
+    tester = new BrowseSouthItemsModalComponentTester();
+    tester.componentInstance.prepare('southId', southItemSchema, existingItems, scanModes);
+    tester.detectChanges();
+  });
+
+  it('should display the root nodes', () => {
+    expect(southConnectorService.browse).toHaveBeenCalledWith('southId', null);
+    expect(tester.nodes.length).toEqual(1);
+    expect(tester.nodes[0]).toContainText('Machine');
+    expect(tester.selectNodes.length).toEqual(0);
+    expect(tester.scanMode).toHaveSelectedLabel('scanMode1');
+    expect(tester.save.disabled).toBeTrue();
+  });
+
+  it('should expand and collapse a node', () => {
+    tester.expandNodes[0].click();
+    expect(southConnectorService.browse).toHaveBeenCalledWith('southId', 'ns=3;s=Machine');
+    expect(tester.nodes.length).toEqual(4);
+    expect(tester.nodes[1]).toContainText('ns=3;s=Temperature');
+    expect(tester.nodes[1]).toContainText('CurrentRead, HistoryRead');
+    expect(tester.selectNodes.length).toEqual(3);
+    expect(tester.selectNodes[2].disabled).toBeTrue();
+
+    tester.expandNodes[0].click();
+    expect(tester.nodes.length).toEqual(1);
+    tester.expandNodes[0].click();
+    expect(tester.nodes.length).toEqual(4);
+    expect(southConnectorService.browse).toHaveBeenCalledTimes(2);
+  });
+
+  it('should create items from the selected nodes', () => {
+    tester.expandNodes[0].click();
+    tester.selectNodes[0].check();
+    tester.selectNodes[1].check();
+    expect(tester.historyScanMode).toBeNull();
+    tester.scanMode.selectLabel('Subscribe');
+    expect(tester.historyScanMode).toHaveSelectedLabel('scanMode1');
+    tester.save.click();
+
+    expect(fakeActiveModal.close).toHaveBeenCalledWith([
+      {
+        id: '',
+        name: 'Temperature',
+        enabled: true,
+        connectorId: 'southId',
+        scanModeId: 'scanModeId1',
+        settings: { nodeId: 'ns=3;s=Temperature', mode: 'HA', haMode: { aggregate: 'raw', resampling: 'none' } }
+      },
+      {
+        id: '',
+        name: 'ns=3;s=Machine.Pressure',
+        enabled: true,
+        connectorId: 'southId',
+        scanModeId: 'subscription',
+        settings: { nodeId: 'ns=3;s=Machine.Pressure', mode: 'DA', haMode: { aggregate: 'raw', resampling: 'none' } }
+      }
+    ]);
+  });
+
+  it('should not subscribe to historized nodes without polled scan mode', () => {
+    southConnectorService.browse.and.returnValues(of(rootNodes), of(machineNodes));
+    tester.componentInstance.prepare('southId', southItemSchema, existingItems, []);
+    tester.detectChanges();
+    tester.expandNodes[0].click();
+    tester.selectNodes[1].check();
+    expect(tester.scanMode).toHaveSelectedLabel('Subscribe');
+    expect(tester.save.disabled).toBeFalse();
+
+    tester.selectNodes[0].check();
+    expect(tester.historyScanMode).toBeNull();
+    expect(tester.noHistoryScanMode).not.toBeNull();
+    expect(tester.save.disabled).toBeTrue();
+  });
+
+  it('should cancel', () => {
+    tester.cancel.click();
+    expect(fakeActiveModal.dismiss).toHaveBeenCalled();
+  });
+});
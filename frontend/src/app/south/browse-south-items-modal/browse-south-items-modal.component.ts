@@ -0,0 +1,157 @@
+import { Component, inject } from '@angular/core';
+import { AsyncPipe } from '@angular/common';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { NonNullableFormBuilder } from '@angular/forms';
+import { TranslateModule } from '@ngx-translate/core';
+import { formDirectives } from '../../shared/form-directives';
+import { ObservableState } from '../../shared/save-button/save-button.component';
+import { SouthConnectorService } from '../../services/south-connector.service';
+import {
+  SouthConnectorBrowseNodeDTO,
+  SouthConnectorItemDTO,
+  SouthConnectorItemManifest
+} from '../../../../../shared/model/south-connector.model';
+import { ScanModeDTO } from '../../../../../shared/model/scan-mode.model';
+import { SouthOPCUAItemSettings } from '../../../../../shared/model/south-settings.model';
+
+interface BrowseTreeNode {
+  node: SouthConnectorBrowseNodeDTO;
+  level: number;
+  expanded: boolean;
+  children: Array<BrowseTreeNode> | null;
+}
+
+@Component({
+  selector: 'oib-browse-south-items-modal',
+  templateUrl: './browse-south-items-modal.component.html',
+  styleUrl: './browse-south-items-modal.component.scss',
+  imports: [...formDirectives, TranslateModule, AsyncPipe],
+  standalone: true
+})
+export class BrowseSouthItemsModalComponent {
+  private modal = inject(NgbActiveModal);
+  private southConnectorService = inject(SouthConnectorService);
+  private fb = inject(NonNullableFormBuilder);
+
+  state = new ObservableState();
+  southId = '';
+  existingItemList: Array<SouthConnectorItemDTO> = [];
+  scanModes: Array<ScanModeDTO> = [];
+  acceptSubscription = false;
+  rootNodes: Array<BrowseTreeNode> = [];
+  displayedNodes: Array<BrowseTreeNode> = [];
+  selectedNodes = new Map<string, SouthConnectorBrowseNodeDTO>();
+  scanModeControl = this.fb.control('');
+  // Historized nodes are read in HA mode, which can not subscribe: they are polled with this scan mode instead
+  historyScanModeControl = this.fb.control('');
+
+  prepare(
+    southId: string,
+    southItemSchema: SouthConnectorItemManifest,
+    existingItemList: Array<SouthConnectorItemDTO>,
+    scanModes: Array<ScanModeDTO>
+  ) {
+    this.southId = southId;
+    this.existingItemList = existingItemList;
+    this.acceptSubscription = southItemSchema.scanMode.acceptSubscription;
+    this.scanModes = scanModes.filter(scanMode => scanMode.id !== 'subscription');
+    this.scanModeControl.setValue(this.scanModes[0]?.id || (this.acceptSubscription ? 'subscription' : ''));
+    this.historyScanModeControl.setValue(this.scanModes[0]?.id || '');
+    this.southConnectorService
+      .browse(southId, null)
+      .pipe(this.state.pendingUntilFinalization())
+      .subscribe(nodes => {
+        this.rootNodes = this.toTreeNodes(nodes, 0);
+        this.refreshDisplayedNodes();
+      });
+  }
+
+  /**
+   * Expand a node, fetching its children the first time, or collapse it
+   */
+  toggle(treeNode: BrowseTreeNode) {
+    if (treeNode.expanded) {
+      treeNode.expanded = false;
+      this.refreshDisplayedNodes();
+    } else if (treeNode.children) {
+      treeNode.expanded = true;
+      this.refreshDisplayedNodes();
+    } else {
+      this.southConnectorService
+        .browse(this.southId, treeNode.node.nodeId)
+        .pipe(this.state.pendingUntilFinalization())
+        .subscribe(nodes => {
+          treeNode.children = this.toTreeNodes(nodes, treeNode.level + 1);
+          treeNode.expanded = true;
+          this.refreshDisplayedNodes();
+        });
+    }
+  }
+
+  isSelectable(node: SouthConnectorBrowseNodeDTO): boolean {
+    return node.nodeClass === 'Variable';
+  }
+
+  isExisting(node: SouthConnectorBrowseNodeDTO): boolean {
+    return this.existingItemList.some(item => item.settings.nodeId === node.nodeId);
+  }
+
+  toggleSelection(node: SouthConnectorBrowseNodeDTO) {
+    if (this.selectedNodes.has(node.nodeId)) {
+      this.selectedNodes.delete(node.nodeId);
+    } else {
+      this.selectedNodes.set(node.nodeId, node);
+    }
+  }
+
+  /**
+   * Whether historized nodes are selected while subscribing, which needs a polled scan mode for these nodes
+   */
+  needsHistoryScanMode(): boolean {
+    return this.scanModeControl.value === 'subscription' && [...this.selectedNodes.values()].some(node => node.historizing);
+  }
+
+  cancel() {
+    this.modal.dismiss();
+  }
+
+  submit() {
+    const usedNames = new Set(this.existingItemList.map(item => item.name));
+    const newItemList: Array<SouthConnectorItemDTO<SouthOPCUAItemSettings>> = [];
+    for (const node of this.selectedNodes.values()) {
+      const name = usedNames.has(node.displayName) ? node.nodeId : node.displayName;
+      usedNames.add(name);
+      newItemList.push({
+        id: '',
+        name,
+        enabled: true,
+        connectorId: this.southId,
+        scanModeId: node.historizing && this.needsHistoryScanMode() ? this.historyScanModeControl.value : this.scanModeControl.value,
+        settings: {
+          nodeId: node.nodeId,
+          mode: node.historizing ? 'HA' : 'DA',
+          haMode: { aggregate: 'raw', resampling: 'none' }
+        }
+      });
+    }
+    this.modal.close(newItemList);
+  }
+
+  private toTreeNodes(nodes: Array<SouthConnectorBrowseNodeDTO>, level: number): Array<BrowseTreeNode> {
+    return nodes.map(node => ({ node, level, expanded: false, children: null }));
+  }
+
+  private refreshDisplayedNodes() {
+    const displayedNodes: Array<BrowseTreeNode> = [];
+    const addNodes = (treeNodes: Array<BrowseTreeNode>) => {
+      for (const treeNode of treeNodes) {
+        displayedNodes.push(treeNode);
+        if (treeNode.expanded && treeNode.children) {
+          addNodes(treeNode.children);
+        }
+      }
+    };
+    addNodes(this.rootNodes);
+    this.displayedNodes = displayedNodes;
+  }
+}
@@ -0,0 +1,91 @@
+import { DiscoverSouthItemsModalComponent } from './discover-south-items-modal.component';
+import { ComponentTester, createMock } from 'ngx-speculoos';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { DefaultValidationErrorsComponent } from '../../shared/default-validation-errors/default-validation-errors.component';
+import { SouthConnectorItemDTO } from '../../../../../shared/model/south-connector.model';
+import { SouthConnectorService } from '../../services/south-connector.service';
+import { provideI18nTesting } from '../../../i18n/mock-i18n';
+
+class DiscoverSouthItemsModalComponentTester extends ComponentTester<DiscoverSouthItemsModalComponent> {
+  constructor() {
+    super(DiscoverSouthItemsModalComponent);
+  }
+
+  get topic() {
+    return this.input('#topic')!;
+  }
+
+  get duration() {
+    return this.input('#duration')!;
+  }
+
+  get validationErrors() {
+    return this.elements('val-errors div');
+  }
+
+  get save() {
+    return this.button('#save-button')!;
+  }
+
+  get cancel() {
+    return this.button('#cancel-button')!;
+  }
+}
+
+describe('DiscoverSouthItemsModalComponent', () => {
+  let tester: DiscoverSouthItemsModalComponentTester;
+  let fakeActiveModal: NgbActiveModal;
+  let southConnectorService: jasmine.SpyObj<SouthConnectorService>;
+
+  beforeEach(() => {
+    fakeActiveModal = createMock(NgbActiveModal);
+    southConnectorService = createMock(SouthConnectorService);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideI18nTesting(),
+        { provide: NgbActiveModal, useValue: fakeActiveModal },
+        { provide: SouthConnectorService, useValue: southConnectorService }
+      ]
+    });
+
+    TestBed.createComponent(DefaultValidationErrorsComponent).detectChanges();
+
+    tester = new DiscoverSouthItemsModalComponentTester();
+    tester.componentInstance.prepare('southId');
+    tester.detectChanges();
+  });
+
+  it('should have a default form', () => {
+    expect(tester.topic).toHaveValue('#');
+    expect(tester.duration).toHaveValue('10');
+  });
+
+  it('should not discover if invalid', () => {
+    tester.topic.fillWith('');
+    tester.duration.fillWith('1000');
+    tester.save.click();
+
+    expect(tester.validationErrors.length).toBe(2);
+    expect(southConnectorService.discoverItems).not.toHaveBeenCalled();
+  });
+
+  it('should discover items', () => {
+    const items = [{ name: 'factory/temperature' } as SouthConnectorItemDTO];
+    southConnectorService.discoverItems.and.returnValue(of(items));
+
+    tester.topic.fillWith('factory/#');
+    tester.duration.fillWith('30');
+    tester.save.click();
+
+    expect(southConnectorService.discoverItems).toHaveBeenCalledWith('southId', { topic: 'factory/#', duration: 30 });
+    expect(fakeActiveModal.close).toHaveBeenCalledWith(items);
+  });
+
+  it('should cancel', () => {
+    tester.cancel.click();
+    expect(fakeActiveModal.dismiss).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { Component, inject } from '@angular/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { NonNullableFormBuilder, Validators } from '@angular/forms';
+import { ObservableState, SaveButtonComponent } from '../../shared/save-button/save-button.component';
+import { TranslateModule } from '@ngx-translate/core';
+import { formDirectives } from '../../shared/form-directives';
+import { SouthConnectorService } from '../../services/south-connector.service';
+import { SouthConnectorItemDiscoveryCommandDTO } from '../../../../../shared/model/south-connector.model';
+
+@Component({
+  selector: 'oib-discover-south-items-modal',
+  templateUrl: './discover-south-items-modal.component.html',
+  styleUrl: './discover-south-items-modal.component.scss',
+  imports: [...formDirectives, TranslateModule, SaveButtonComponent],
+  standalone: true
+})
+export class DiscoverSouthItemsModalComponent {
+  private modal = inject(NgbActiveModal);
+  private southConnectorService = inject(SouthConnectorService);
+
+  state = new ObservableState();
+  southId = '';
+  form = inject(NonNullableFormBuilder).group({
+    topic: ['#', Validators.required],
+    duration: [10, [Validators.required, Validators.min(1), Validators.max(300)]]
+  });
+
+  prepare(southId: string) {
+    this.southId = southId;
+  }
+
+  cancel() {
+    this.modal.dismiss();
+  }
+
+  /**
+   * Listen to the South connector during the chosen duration and close with the discovered items
+   */
+  save() {
+    if (!this.form.valid) {
+      return;
+    }
+
+    const formValue = this.form.value;
+    const command: SouthConnectorItemDiscoveryCommandDTO = {
+      topic: formValue.topic!,
+      duration: formValue.duration!
+    };
+    this.southConnectorService
+      .discoverItems(this.southId, command)
+      .pipe(this.state.pendingUntilFinalization())
+      .subscribe(items => this.modal.close(items));
+  }
+}
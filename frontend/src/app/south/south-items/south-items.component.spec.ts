@@ -80,6 +80,14 @@ class SouthItemsComponentTester extends ComponentTester<TestComponent> {
     return this.button('#export-items')!;
   }
 
+  get browseButton() {
+    return this.button('#browse-button');
+  }
+
+  get discoverButton() {
+    return this.button('#discover-button');
+  }
+
   get southItems() {
     return this.elements('tbody tr.south-item');
   }
@@ -165,6 +173,14 @@ describe('SouthItemsComponent', () => {
     expect(southConnectorService.listItems).toHaveBeenCalledTimes(2);
   });
 
+  it('should not display browse button when the South does not support browse', () => {
+    expect(tester.browseButton).toBeNull();
+  });
+
+  it('should not display discover button when the South does not support discovery', () => {
+    expect(tester.discoverButton).toBeNull();
+  });
+
   it('should delete all', () => {
     confirmationService.confirm.and.returnValue(of(undefined));
 
@@ -26,6 +26,8 @@ import { createPageFromArray, Page } from '../../../../../shared/model/types';
 import { emptyPage } from '../../shared/test-utils';
 import { PipeProviderService } from '../../shared/form/pipe-provider.service';
 import { ImportSouthItemsModalComponent } from '../import-south-items-modal/import-south-items-modal.component';
+import { BrowseSouthItemsModalComponent } from '../browse-south-items-modal/browse-south-items-modal.component';
+import { DiscoverSouthItemsModalComponent } from '../discover-south-items-modal/discover-south-items-modal.component';
 import { PaginationComponent } from '../../shared/pagination/pagination.component';
 import { OibHelpComponent } from '../../shared/oib-help/oib-help.component';
 import { ExportItemModalComponent } from '../../shared/export-item-modal/export-item-modal.component';
@@ -307,6 +309,31 @@ export class SouthItemsComponent implements OnInit {
       });
   }
 
+  /**
+   * Create items from the nodes selected in the address space of the South connector
+   */
+  browseItems() {
+    const modalRef = this.modalService.open(BrowseSouthItemsModalComponent, { size: 'xl' });
+    const component: BrowseSouthItemsModalComponent = modalRef.componentInstance;
+    component.prepare(this.southConnector!.id, this.southManifest.items, this.allItems, this.scanModes);
+    this.refreshAfterImportModalClosed(modalRef);
+  }
+
+  /**
+   * Discover the items published by the South connector, then validate them as imported items
+   */
+  discoverItems() {
+    const modalRef = this.modalService.open(DiscoverSouthItemsModalComponent);
+    const component: DiscoverSouthItemsModalComponent = modalRef.componentInstance;
+    component.prepare(this.southConnector!.id);
+    modalRef.result.subscribe((discoveredItems: Array<SouthConnectorItemDTO>) => {
+      const importModalRef = this.modalService.open(ImportSouthItemsModalComponent, { size: 'xl' });
+      const importComponent: ImportSouthItemsModalComponent = importModalRef.componentInstance;
+      importComponent.prepare(this.southManifest.items, this.allItems, discoveredItems, [], this.scanModes);
+      this.refreshAfterImportModalClosed(importModalRef);
+    });
+  }
+
   /**
    * Refresh the South item list when South items are created
    */
@@ -22,9 +22,12 @@ class TestComponent {
     lastRunStart: '2020-02-02T00:00:00.000Z',
     lastRunDuration: 10,
     numberOfValuesRetrieved: 11,
+    numberOfValuesSuppressed: 3,
     numberOfFilesRetrieved: 12,
     lastValueRetrieved: { pointId: 'pointId', timestamp: '2020-02-02T00:00:00.000Z', data: { value: '13' } },
     lastFileRetrieved: 'file',
+    lastNumberOfNorthsReached: 2,
+    backpressured: false,
     historyMetrics: {}
   };
   southConnector: SouthConnectorDTO = {
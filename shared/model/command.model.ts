@@ -1,6 +1,7 @@
 import { BaseEntity, Instant } from './types';
+import { SouthItemWriteValue } from './south-connector.model';
 
-export const OIBUS_COMMAND_TYPES = ['UPGRADE'] as const;
+export const OIBUS_COMMAND_TYPES = ['UPGRADE', 'WRITE_SOUTH_ITEM', 'CALL_SOUTH_METHOD'] as const;
 export type OIBusCommandType = (typeof OIBUS_COMMAND_TYPES)[number];
 
 export const OIBUS_COMMAND_STATUS = ['RETRIEVED', 'RUNNING', 'ERRORED', 'CANCELLED', 'COMPLETED'] as const;
@@ -16,7 +17,22 @@ export interface OIBusUpgradeCommand extends BaseOIBusCommand {
   version: string;
 }
 
-export type OIBusCommand = OIBusUpgradeCommand;
+export interface OIBusWriteSouthItemCommand extends BaseOIBusCommand {
+  type: 'WRITE_SOUTH_ITEM';
+  southId: string;
+  itemId: string;
+  value: SouthItemWriteValue;
+}
+
+export interface OIBusCallSouthMethodCommand extends BaseOIBusCommand {
+  type: 'CALL_SOUTH_METHOD';
+  southId: string;
+  objectId: string;
+  methodId: string;
+  inputArguments: Array<SouthItemWriteValue>;
+}
+
+export type OIBusCommand = OIBusUpgradeCommand | OIBusWriteSouthItemCommand | OIBusCallSouthMethodCommand;
 
 export interface BaseOIBusCommandDTO extends BaseEntity {
   ack: boolean;
@@ -33,7 +49,22 @@ export interface OIBusUpgradeCommandDTO extends BaseOIBusCommandDTO {
   assetId: string;
 }
 
-export type OIBusCommandDTO = OIBusUpgradeCommandDTO;
+export interface OIBusWriteSouthItemCommandDTO extends BaseOIBusCommandDTO {
+  type: 'WRITE_SOUTH_ITEM';
+  southId: string;
+  itemId: string;
+  value: SouthItemWriteValue;
+}
+
+export interface OIBusCallSouthMethodCommandDTO extends BaseOIBusCommandDTO {
+  type: 'CALL_SOUTH_METHOD';
+  southId: string;
+  objectId: string;
+  methodId: string;
+  inputArguments: Array<SouthItemWriteValue>;
+}
+
+export type OIBusCommandDTO = OIBusUpgradeCommandDTO | OIBusWriteSouthItemCommandDTO | OIBusCallSouthMethodCommandDTO;
 
 export interface CommandSearchParam {
   page?: number;
@@ -154,6 +154,7 @@ export interface NorthConnectorMetrics extends BaseConnectorMetrics {
   lastValueSent: OIBusTimeValue | null;
   lastFileSent: string | null;
   cacheSize: number;
+  cacheFull: boolean;
 }
 
 export interface SouthHistoryMetrics {
@@ -172,15 +173,20 @@ export interface SouthHistoryMetrics {
 
 export interface SouthConnectorMetrics extends BaseConnectorMetrics {
   numberOfValuesRetrieved: number;
+  numberOfValuesSuppressed: number;
   numberOfFilesRetrieved: number;
   lastValueRetrieved: OIBusTimeValue | null;
   lastFileRetrieved: string | null;
+  lastNumberOfNorthsReached: number | null;
+  backpressured: boolean;
   historyMetrics: SouthHistoryMetrics;
 }
 
 export interface HistoryMetrics {
   north: NorthConnectorMetrics;
   south: SouthConnectorMetrics;
+  // Metrics of the additional North targets, by target id
+  additionalNorths: Record<string, NorthConnectorMetrics>;
 }
 
 export interface EngineMetrics {
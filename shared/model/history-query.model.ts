@@ -1,11 +1,20 @@
 import { NorthCacheSettingsCommandDTO, NorthCacheSettingsDTO } from './north-connector.model';
 import { SouthConnectorHistorySettings, SouthConnectorItemDTO } from './south-connector.model';
-import { BaseEntity } from './types';
+import { BaseEntity, Instant } from './types';
 import { SouthItemSettings } from './south-settings.model';
 
 export const HISTORY_QUERY_STATUS = ['PENDING', 'RUNNING', 'PAUSED', 'FINISHED', 'ERRORED'] as const;
 export type HistoryQueryStatus = (typeof HISTORY_QUERY_STATUS)[number];
 
+export const HISTORY_QUERY_WINDOW_UNITS = ['hour', 'day', 'week', 'month'] as const;
+export type HistoryQueryWindowUnit = (typeof HISTORY_QUERY_WINDOW_UNITS)[number];
+
+export const HISTORY_QUERY_RUN_STATUS = ['RUNNING', 'FINISHED', 'ERRORED'] as const;
+export type HistoryQueryRunStatus = (typeof HISTORY_QUERY_RUN_STATUS)[number];
+
+export const HISTORY_QUERY_INTERVAL_STATUS = ['PENDING', 'DONE', 'ERRORED'] as const;
+export type HistoryQueryIntervalStatus = (typeof HISTORY_QUERY_INTERVAL_STATUS)[number];
+
 /**
  * DTO for history queries
  */
@@ -17,11 +26,90 @@ export interface HistoryQueryDTO extends BaseEntity {
   endTime: string;
   southType: string;
   northType: string;
+  northId: string | null; // existing North connector receiving the data instead of a dedicated one
   southSettings: any;
   southSharedConnection: boolean;
   northSettings: any;
   history: SouthConnectorHistorySettings;
   caching: NorthCacheSettingsDTO;
+  additionalNorths: Array<HistoryQueryNorthDTO>;
+  schedule: HistoryQueryScheduleDTO;
+}
+
+/**
+ * Schedule of a recurring history query. At each occurrence of the scan mode cron, the history query extracts the
+ * window ending at the start of the current unit in the timezone (midnight for days), and going back windowDuration units
+ */
+export interface HistoryQueryScheduleDTO {
+  enabled: boolean;
+  scanModeId: string | null;
+  windowDuration: number;
+  windowUnit: HistoryQueryWindowUnit;
+  timezone: string;
+}
+
+/**
+ * DTO for the runs of history queries
+ */
+export interface HistoryQueryRunDTO extends BaseEntity {
+  historyId: string;
+  status: HistoryQueryRunStatus;
+  startTime: Instant; // start of the extracted window
+  endTime: Instant; // end of the extracted window
+  runStart: Instant;
+  runEnd: Instant | null;
+  error: string | null;
+}
+
+/**
+ * Content retrieved for an item
+ */
+export interface HistoryQueryItemContent {
+  numberOfValues: number;
+  numberOfFiles: number;
+}
+
+/**
+ * DTO for the intervals queried by a run. The itemId is null when the items are queried together (without max instant per
+ * item). The content retrieved is attributed to the items whose name matches the point ID of the values, or to the item of
+ * the interval when it is queried alone: the other content is only counted in the interval totals
+ */
+export interface HistoryQueryRunIntervalDTO extends BaseEntity {
+  runId: string;
+  itemId: string | null;
+  startTime: Instant;
+  endTime: Instant;
+  status: HistoryQueryIntervalStatus;
+  numberOfValues: number;
+  numberOfFiles: number;
+  contentByItem: Record<string, HistoryQueryItemContent>;
+  error: string | null;
+}
+
+/**
+ * Report of what a run of a history query extracted
+ */
+export interface HistoryQueryReportDTO {
+  run: HistoryQueryRunDTO;
+  // in ms, until now when the run is still running
+  duration: number;
+  requestedIntervals: number;
+  completedIntervals: number;
+  erroredIntervals: number;
+  numberOfValues: number;
+  numberOfFiles: number;
+  items: Array<{ itemName: string } & HistoryQueryItemContent>;
+  emptyIntervals: Array<{ startTime: Instant; endTime: Instant; itemName: string | null }>;
+  errors: Array<{ startTime: Instant; endTime: Instant; itemName: string | null; error: string }>;
+}
+
+/**
+ * DTO for the North targets a history query sends its data to, in addition to its main North
+ */
+export interface HistoryQueryNorthDTO extends BaseEntity {
+  northType: string;
+  northSettings: any;
+  caching: NorthCacheSettingsDTO;
 }
 
 /**
@@ -34,11 +122,24 @@ export interface HistoryQueryCommandDTO {
   endTime: string;
   southType: string;
   northType: string;
+  northId: string | null;
   southSettings: object;
   southSharedConnection: boolean;
   northSettings: object;
   history: SouthConnectorHistorySettings;
   caching: NorthCacheSettingsCommandDTO;
+  additionalNorths: Array<HistoryQueryNorthCommandDTO>;
+  schedule: HistoryQueryScheduleDTO;
+}
+
+/**
+ * Command DTO for the additional North targets of history queries. A null id creates a new target
+ */
+export interface HistoryQueryNorthCommandDTO {
+  id: string | null;
+  northType: string;
+  northSettings: object;
+  caching: NorthCacheSettingsCommandDTO;
 }
 
 /**
@@ -1,5 +1,5 @@
-import { OibArrayFormControl, OibFormControl } from './form.model';
-import { DateTimeType, SerializationType } from './types';
+import { DisplayCondition, OibArrayFormControl, OibFormControl } from './form.model';
+import { AVRO_CODECS, DateTimeType, DEADBAND_TYPES, PARQUET_CODECS, SerializationType } from './types';
 
 export function buildDateTimeFieldsFormControl(dataTypes: Array<DateTimeType>): OibArrayFormControl {
   return {
@@ -145,6 +145,85 @@ export function buildSerializationFormControl(serializationTypes: Array<Serializ
         displayInViewMode: false,
         validators: [{ key: 'required' }]
       },
+      {
+        key: 'parquetCodec',
+        type: 'OibSelect',
+        label: 'Parquet codec',
+        options: [...PARQUET_CODECS],
+        defaultValue: 'snappy',
+        newRow: false,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }],
+        conditionalDisplay: { field: 'type', values: ['parquet'] }
+      },
+      {
+        key: 'avroCodec',
+        type: 'OibSelect',
+        label: 'Avro codec',
+        options: [...AVRO_CODECS],
+        defaultValue: 'deflate',
+        newRow: false,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }],
+        conditionalDisplay: { field: 'type', values: ['avro'] }
+      },
+      {
+        key: 'pointIdColumn',
+        type: 'OibText',
+        label: 'Point ID column',
+        defaultValue: '',
+        newRow: true,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }],
+        conditionalDisplay: { field: 'type', values: ['json'] }
+      },
+      {
+        key: 'timestampColumn',
+        type: 'OibText',
+        label: 'Timestamp column',
+        defaultValue: '',
+        newRow: false,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }],
+        conditionalDisplay: { field: 'type', values: ['json'] }
+      },
+      {
+        key: 'valueColumn',
+        type: 'OibText',
+        label: 'Value column',
+        defaultValue: '',
+        newRow: false,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }],
+        conditionalDisplay: { field: 'type', values: ['json'] }
+      },
+      {
+        key: 'otherColumns',
+        type: 'OibArray',
+        label: 'Additional fields',
+        content: [
+          {
+            key: 'name',
+            label: 'Field name in output',
+            type: 'OibText',
+            defaultValue: '',
+            validators: [{ key: 'required' }],
+            displayInViewMode: true
+          },
+          {
+            key: 'column',
+            label: 'Column',
+            type: 'OibText',
+            defaultValue: '',
+            validators: [{ key: 'required' }],
+            displayInViewMode: true
+          }
+        ],
+        class: 'col',
+        newRow: true,
+        displayInViewMode: false,
+        conditionalDisplay: { field: 'type', values: ['json'] }
+      },
       {
         key: 'outputTimestampFormat',
         type: 'OibText',
@@ -166,3 +245,47 @@ export function buildSerializationFormControl(serializationTypes: Array<Serializ
     ]
   };
 }
+
+export function buildDeadbandFormControl(conditionalDisplay?: DisplayCondition): OibFormControl {
+  return {
+    key: 'deadband',
+    type: 'OibFormGroup',
+    label: 'Deadband',
+    newRow: true,
+    displayInViewMode: false,
+    ...(conditionalDisplay ? { conditionalDisplay } : {}),
+    content: [
+      {
+        key: 'type',
+        type: 'OibSelect',
+        label: 'Deadband',
+        options: [...DEADBAND_TYPES],
+        defaultValue: 'none',
+        newRow: true,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }]
+      },
+      {
+        key: 'value',
+        type: 'OibNumber',
+        label: 'Minimal change',
+        defaultValue: 0,
+        newRow: false,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }, { key: 'min', params: { min: 0 } }],
+        conditionalDisplay: { field: 'type', values: ['absolute', 'percent'] }
+      },
+      {
+        key: 'maxSilence',
+        type: 'OibNumber',
+        label: 'Max silence',
+        defaultValue: 0,
+        unitLabel: 's',
+        newRow: false,
+        displayInViewMode: false,
+        validators: [{ key: 'required' }, { key: 'min', params: { min: 0 } }],
+        conditionalDisplay: { field: 'type', values: ['absolute', 'percent'] }
+      }
+    ]
+  };
+}
@@ -3,14 +3,22 @@ import { BaseEntity, Instant } from './types';
 import { NorthSettings } from './north-settings.model';
 import { OIBusSubscription } from './subscription.model';
 
+export const NORTH_VALUE_CACHE_STORAGES = ['file', 'sqlite'] as const;
+export type NorthValueCacheStorage = (typeof NORTH_VALUE_CACHE_STORAGES)[number];
+
+export const NORTH_CACHE_OVERFLOW_POLICIES = ['stop', 'drop-oldest', 'drop-newest'] as const;
+export type NorthCacheOverflowPolicy = (typeof NORTH_CACHE_OVERFLOW_POLICIES)[number];
+
 export interface NorthCacheSettingsDTO {
   scanModeId: string;
   retryInterval: number;
   retryCount: number;
   maxSize: number;
+  overflowPolicy: NorthCacheOverflowPolicy;
   oibusTimeValues: {
     groupCount: number;
     maxSendCount: number;
+    storage: NorthValueCacheStorage;
   };
   rawFiles: {
     sendFileImmediately: boolean;
@@ -24,9 +32,11 @@ export interface NorthCacheSettingsCommandDTO {
   retryInterval: number;
   retryCount: number;
   maxSize: number;
+  overflowPolicy: NorthCacheOverflowPolicy;
   oibusTimeValues: {
     groupCount: number;
     maxSendCount: number;
+    storage: NorthValueCacheStorage;
   };
   rawFiles: {
     sendFileImmediately: boolean;
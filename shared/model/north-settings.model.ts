@@ -4,16 +4,22 @@
 
 export type NorthAzureBlobSettingsAuthentication = 'accessKey' | 'sasToken' | 'aad' | 'external';
 
-export type NorthCsvToHttpSettingsRequestMethod = 'GET' | 'POST' | 'PUT' | 'PATCH';
+export type NorthCsvToHttpSettingsRequestMethod = 'POST' | 'PUT' | 'PATCH';
 
 export type NorthCsvToHttpSettingsCsvDelimiter = ',' | ';';
 
+export type NorthCsvToHttpSettingsMappingType = 'string' | 'integer' | 'float' | 'boolean' | 'json';
+
 export type NorthInfluxDBSettingsPrecision = 'ns' | 'u' | 'ms' | 's' | 'm' | 'h';
 
 export type NorthMqttSettingsQos = '0' | '1' | '2';
 
+export type NorthMqttSettingsAuthenticationType = 'none' | 'basic' | 'cert';
+
 export type NorthOIAnalyticsSettingsSpecificSettingsAuthentication = 'basic' | 'aad-client-secret' | 'aad-certificate';
 
+export type NorthOIBusSettingsAuthenticationType = 'basic' | 'bearer';
+
 export type NorthRestAPISettingsAuthenticationType = 'none' | 'basic' | 'bearer' | 'api-key';
 
 export type NorthSFTPSettingsAuthentication = 'password' | 'private-key';
@@ -35,6 +41,27 @@ export interface NorthOIAnalyticsSettingsSpecificSettings {
   proxyPassword?: string | null;
 }
 
+export interface NorthCsvToHttpSettingsMapping {
+  csvField: string;
+  httpField: string;
+  type: NorthCsvToHttpSettingsMappingType;
+}
+
+export interface NorthMqttSettingsAuthentication {
+  type: NorthMqttSettingsAuthenticationType;
+  username?: string;
+  password?: string | null;
+  certificateId?: string;
+  caFilePath?: string | null;
+}
+
+export interface NorthOIBusSettingsAuthentication {
+  type: NorthOIBusSettingsAuthenticationType;
+  username?: string;
+  password?: string | null;
+  token?: string | null;
+}
+
 export interface NorthRestAPISettingsAuthentication {
   type: NorthRestAPISettingsAuthenticationType;
   username?: string;
@@ -82,8 +109,9 @@ export interface NorthCsvToHttpSettings {
   applicativeHostUrl: string;
   requestMethod: NorthCsvToHttpSettingsRequestMethod;
   bodyMaxLength: number;
-  acceptUnconvertedRows: boolean | null;
+  acceptUnconvertedRows: boolean;
   csvDelimiter: NorthCsvToHttpSettingsCsvDelimiter;
+  mapping: Array<NorthCsvToHttpSettingsMapping> | null;
   useProxy: boolean;
   proxyUrl?: string;
   proxyUsername?: string | null;
@@ -113,7 +141,7 @@ export interface NorthInfluxDBSettings {
 export interface NorthMongoDBSettings {
   host: string;
   database: string;
-  username: string;
+  username: string | null;
   password: string | null;
   regExp: string;
   collection: string;
@@ -128,16 +156,12 @@ export interface NorthMongoDBSettings {
 export interface NorthMqttSettings {
   url: string;
   qos: NorthMqttSettingsQos;
-  username: string | null;
-  password: string | null;
-  certFile: string | null;
-  keyFile: string | null;
-  caFile: string | null;
-  rejectUnauthorized: boolean | null;
-  regExp: string;
+  persistent?: boolean;
+  authentication: NorthMqttSettingsAuthentication;
+  rejectUnauthorized: boolean;
+  reconnectPeriod: number;
+  connectTimeout: number;
   topic: string;
-  useDataKeyValue: boolean;
-  keyParentValue: string | null;
 }
 
 export interface NorthOIAnalyticsSettings {
@@ -151,8 +175,8 @@ export interface NorthOIBusSettings {
   host: string;
   acceptUnauthorized: boolean;
   timeout: number;
-  username: string;
-  password: string | null;
+  remoteNorthId: string;
+  authentication: NorthOIBusSettingsAuthentication;
   useProxy: boolean;
   proxyUrl?: string;
   proxyUsername?: string | null;
@@ -186,10 +210,12 @@ export interface NorthSFTPSettings {
 }
 
 export interface NorthTimescaleDBSettings {
-  username: string;
-  password: string | null;
   host: string;
+  port: number;
+  connectionTimeout: number;
   database: string;
+  username: string;
+  password: string | null;
   regExp: string;
   table: string;
   optFields: string | null;
@@ -1,9 +1,10 @@
 import { BaseEntity, Instant } from './types';
+import { NorthCacheOverflowPolicy } from './north-connector.model';
 
 export const OIANALYTICS_MESSAGE_STATUS = ['PENDING', 'COMPLETED', 'ERRORED'] as const;
 export type OIAnalyticsMessageStatus = (typeof OIANALYTICS_MESSAGE_STATUS)[number];
 
-export const OIANALYTICS_MESSAGE_TYPES = ['INFO'] as const;
+export const OIANALYTICS_MESSAGE_TYPES = ['INFO', 'NORTH_CACHE_FULL'] as const;
 export type OIAnalyticsMessageType = (typeof OIANALYTICS_MESSAGE_TYPES)[number];
 
 interface BaseOIAnalyticsMessageDTO extends BaseEntity {
@@ -42,6 +43,19 @@ export interface OIAnalyticsMessageInfoDTO extends BaseOIAnalyticsMessageDTO {
   content: InfoMessageContent;
 }
 
+export interface NorthCacheFullMessageContent {
+  northId: string;
+  northName: string;
+  cacheSize: number;
+  maxSize: number;
+  overflowPolicy: NorthCacheOverflowPolicy;
+}
+
+export interface OIAnalyticsMessageNorthCacheFullDTO extends BaseOIAnalyticsMessageDTO {
+  type: 'NORTH_CACHE_FULL';
+  content: NorthCacheFullMessageContent;
+}
+
 export interface OIAnalyticsMessageInfoCommandDTO extends BaseOIAnalyticsMessageCommandDTO {
   type: 'INFO';
   version: string;
@@ -56,6 +70,16 @@ export interface OIAnalyticsMessageInfoCommandDTO extends BaseOIAnalyticsMessage
   platform: string;
 }
 
-export type OIAnalyticsMessageCommand = OIAnalyticsMessageInfoCommandDTO;
-export type OIAnalyticsMessageDTO = OIAnalyticsMessageInfoDTO;
+export interface OIAnalyticsMessageNorthCacheFullCommandDTO extends BaseOIAnalyticsMessageCommandDTO {
+  type: 'NORTH_CACHE_FULL';
+  northId: string;
+  northName: string;
+  cacheSize: number;
+  maxSize: number;
+  overflowPolicy: NorthCacheOverflowPolicy;
+}
+
+export type OIAnalyticsMessageCommand = OIAnalyticsMessageInfoCommandDTO | OIAnalyticsMessageNorthCacheFullCommandDTO;
+export type OIAnalyticsMessageDTO = OIAnalyticsMessageInfoDTO | OIAnalyticsMessageNorthCacheFullDTO;
 export type InfoMessage = InfoMessageContent;
+export type NorthCacheFullMessage = NorthCacheFullMessageContent;
@@ -66,6 +66,8 @@ export interface SouthConnectorItemDTO<T extends SouthItemSettings = any> extend
   connectorId: string;
   settings: T;
   scanModeId: string;
+  // Max instant already retrieved for the item, only returned by the item search of connectors keeping it per item
+  maxInstant?: Instant | null;
 }
 
 export interface SouthConnectorItemScanModeNameDTO<T extends SouthItemSettings = any> extends BaseEntity {
@@ -94,6 +96,79 @@ export interface SouthConnectorItemTestCommandDTO {
   item: SouthConnectorItemCommandDTO;
 }
 
+/**
+ * Value written on an item: a scalar, or an array for connectors supporting array values (OPC UA for example)
+ */
+export type SouthItemWriteValue = number | boolean | string | Array<number | boolean | string>;
+
+/**
+ * Command used to write a value on an item through its South connector
+ */
+export interface SouthConnectorItemWriteCommandDTO {
+  value: SouthItemWriteValue;
+}
+
+/**
+ * Command used to set the max instant of an item, from which its history is queried again on the next run
+ */
+export interface SouthConnectorItemMaxInstantCommandDTO {
+  maxInstant: Instant;
+}
+
+/**
+ * Command used to set the max instant of a South cache entry. The item ID is "all" for the entries shared by the items
+ * of a scan mode
+ */
+export interface SouthCacheCommandDTO {
+  scanModeId: string;
+  itemId: string;
+  maxInstant: Instant;
+}
+
+/**
+ * Command used to set back to the given instant all the South cache entries beyond it
+ */
+export interface SouthCacheRewindCommandDTO {
+  maxInstant: Instant;
+}
+
+/**
+ * Command used to call a method of the remote system through its South connector
+ */
+export interface SouthConnectorMethodCallCommandDTO {
+  objectId: string;
+  methodId: string;
+  inputArguments: Array<SouthItemWriteValue>;
+}
+
+/**
+ * Values of the output arguments returned by a method call
+ */
+export interface SouthConnectorMethodCallResultDTO {
+  outputArguments: Array<any>;
+}
+
+/**
+ * Node of the address space of the remote system, as returned by a browse of its parent node
+ */
+export interface SouthConnectorBrowseNodeDTO {
+  nodeId: string;
+  browseName: string;
+  displayName: string;
+  nodeClass: string;
+  dataType: string | null;
+  accessLevel: Array<string>;
+  historizing: boolean;
+}
+
+/**
+ * Command used to listen to the remote system during a limited time to propose the items it publishes
+ */
+export interface SouthConnectorItemDiscoveryCommandDTO {
+  topic: string;
+  duration: number;
+}
+
 export interface SouthConnectorItemSearchParam {
   name?: string;
   scanModeId?: string;
@@ -121,6 +196,10 @@ export interface SouthConnectorManifest {
     history: boolean;
     forceMaxInstantPerItem: boolean;
     sharedConnection?: boolean;
+    write?: boolean;
+    methodCall?: boolean;
+    browse?: boolean;
+    discovery?: boolean;
   };
   settings: Array<OibFormControl>;
   items: SouthConnectorItemManifest;
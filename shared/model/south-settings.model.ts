@@ -8,6 +8,8 @@ export type SouthADSSettingsEnumAsText = 'Text' | 'Integer';
 
 export type SouthADSSettingsBoolAsText = 'Text' | 'Integer';
 
+export type SouthADSItemSettingsDeadbandType = 'none' | 'absolute' | 'percent';
+
 export type SouthModbusSettingsAddressOffset = 'Modbus' | 'JBus';
 
 export type SouthModbusSettingsEndianness = 'Big Endian' | 'Little Endian';
@@ -23,6 +25,8 @@ export type SouthModbusItemSettingsDataDataType =
   | 'Double'
   | 'Bit';
 
+export type SouthModbusItemSettingsDeadbandType = 'none' | 'absolute' | 'percent';
+
 export type SouthModbusItemSettingsModbusType = 'coil' | 'discreteInput' | 'inputRegister' | 'holdingRegister';
 
 export type SouthMQTTSettingsAuthenticationType = 'none' | 'basic' | 'cert';
@@ -35,7 +39,7 @@ export type SouthMQTTItemSettingsJsonPayloadPointIdOrigin = 'oibus' | 'payload';
 
 export type SouthMQTTItemSettingsJsonPayloadTimestampOrigin = 'oibus' | 'payload';
 
-export type SouthMQTTItemSettingsValueType = 'number' | 'string' | 'json';
+export type SouthMQTTItemSettingsValueType = 'number' | 'string' | 'json' | 'sparkplug-b';
 
 export type SouthMSSQLItemSettingsDateTimeFieldsType =
   | 'string'
@@ -48,7 +52,7 @@ export type SouthMSSQLItemSettingsDateTimeFieldsType =
   | 'unix-epoch'
   | 'unix-epoch-ms';
 
-export type SouthMSSQLItemSettingsSerializationType = 'csv';
+export type SouthMSSQLItemSettingsSerializationType = 'csv' | 'parquet' | 'avro' | 'json';
 
 export type SouthMSSQLItemSettingsSerializationDelimiter =
   | 'DOT'
@@ -60,9 +64,13 @@ export type SouthMSSQLItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthMSSQLItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthMSSQLItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthMySQLItemSettingsDateTimeFieldsType = 'string' | 'iso-string' | 'unix-epoch' | 'unix-epoch-ms';
 
-export type SouthMySQLItemSettingsSerializationType = 'csv';
+export type SouthMySQLItemSettingsSerializationType = 'csv' | 'parquet' | 'avro' | 'json';
 
 export type SouthMySQLItemSettingsSerializationDelimiter =
   | 'DOT'
@@ -74,9 +82,13 @@ export type SouthMySQLItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthMySQLItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthMySQLItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthODBCItemSettingsDateTimeFieldsType = 'string' | 'iso-string' | 'unix-epoch' | 'unix-epoch-ms';
 
-export type SouthODBCItemSettingsSerializationType = 'csv';
+export type SouthODBCItemSettingsSerializationType = 'csv' | 'parquet' | 'avro' | 'json';
 
 export type SouthODBCItemSettingsSerializationDelimiter =
   | 'DOT'
@@ -88,6 +100,10 @@ export type SouthODBCItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthODBCItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthODBCItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthOIAnalyticsSettingsSpecificSettingsAuthentication = 'basic' | 'aad-client-secret' | 'aad-certificate';
 
 export type SouthOIAnalyticsItemSettingsSerializationType = 'csv';
@@ -102,6 +118,10 @@ export type SouthOIAnalyticsItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthOIAnalyticsItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthOIAnalyticsItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthOLEDBItemSettingsDateTimeFieldsType = 'string' | 'iso-string' | 'unix-epoch' | 'unix-epoch-ms';
 
 export type SouthOLEDBItemSettingsSerializationType = 'csv';
@@ -116,6 +136,10 @@ export type SouthOLEDBItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthOLEDBItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthOLEDBItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthOPCHDAItemSettingsAggregate =
   | 'raw'
   | 'interpolative'
@@ -162,6 +186,8 @@ export type SouthOPCUASettingsSecurityPolicy =
   | 'PubSub_Aes128_CTR'
   | 'PubSub_Aes256_CTR';
 
+export type SouthOPCUAItemSettingsDeadbandType = 'none' | 'absolute' | 'percent';
+
 export type SouthOPCUAItemSettingsHaModeAggregate = 'raw' | 'average' | 'minimum' | 'maximum' | 'count';
 
 export type SouthOPCUAItemSettingsHaModeResampling = 'none' | '1s' | '10s' | '30s' | '1min' | '1h' | '1d';
@@ -170,7 +196,7 @@ export type SouthOPCUAItemSettingsMode = 'HA' | 'DA';
 
 export type SouthOracleItemSettingsDateTimeFieldsType = 'string' | 'iso-string' | 'unix-epoch' | 'unix-epoch-ms';
 
-export type SouthOracleItemSettingsSerializationType = 'csv';
+export type SouthOracleItemSettingsSerializationType = 'csv' | 'parquet' | 'avro' | 'json';
 
 export type SouthOracleItemSettingsSerializationDelimiter =
   | 'DOT'
@@ -182,6 +208,10 @@ export type SouthOracleItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthOracleItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthOracleItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthPIItemSettingsType = 'pointId' | 'pointQuery';
 
 export type SouthPostgreSQLItemSettingsDateTimeFieldsType =
@@ -192,7 +222,7 @@ export type SouthPostgreSQLItemSettingsDateTimeFieldsType =
   | 'timestamp'
   | 'timestamptz';
 
-export type SouthPostgreSQLItemSettingsSerializationType = 'csv';
+export type SouthPostgreSQLItemSettingsSerializationType = 'csv' | 'parquet' | 'avro' | 'json';
 
 export type SouthPostgreSQLItemSettingsSerializationDelimiter =
   | 'DOT'
@@ -204,6 +234,10 @@ export type SouthPostgreSQLItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthPostgreSQLItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthPostgreSQLItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthSFTPSettingsAuthentication = 'password' | 'private-key';
 
 export type SouthSlimsItemSettingsDateTimeFieldsType = 'string' | 'iso-string' | 'unix-epoch' | 'unix-epoch-ms';
@@ -220,9 +254,13 @@ export type SouthSlimsItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthSlimsItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthSlimsItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export type SouthSQLiteItemSettingsDateTimeFieldsType = 'string' | 'iso-string' | 'unix-epoch' | 'unix-epoch-ms';
 
-export type SouthSQLiteItemSettingsSerializationType = 'csv';
+export type SouthSQLiteItemSettingsSerializationType = 'csv' | 'parquet' | 'avro' | 'json';
 
 export type SouthSQLiteItemSettingsSerializationDelimiter =
   | 'DOT'
@@ -234,6 +272,10 @@ export type SouthSQLiteItemSettingsSerializationDelimiter =
   | 'TAB'
   | 'PIPE';
 
+export type SouthSQLiteItemSettingsSerializationParquetCodec = 'uncompressed' | 'snappy' | 'gzip';
+
+export type SouthSQLiteItemSettingsSerializationAvroCodec = 'null' | 'deflate';
+
 export interface SouthADSSettingsStructureFiltering {
   name: string;
   fields: string;
@@ -449,12 +491,24 @@ export type SouthSettings =
   | SouthSlimsSettings
   | SouthSQLiteSettings;
 
+export interface SouthADSItemSettingsDeadband {
+  type: SouthADSItemSettingsDeadbandType;
+  value?: number;
+  maxSilence?: number;
+}
+
 export interface SouthModbusItemSettingsData {
   dataType: SouthModbusItemSettingsDataDataType;
   bitIndex?: number;
   multiplierCoefficient: number;
 }
 
+export interface SouthModbusItemSettingsDeadband {
+  type: SouthModbusItemSettingsDeadbandType;
+  value?: number;
+  maxSilence?: number;
+}
+
 export interface SouthMQTTItemSettingsJsonPayloadTimestampPayload {
   timestampPath: string;
   timestampType: SouthMQTTItemSettingsJsonPayloadTimestampPayloadTimestampType;
@@ -487,11 +541,22 @@ export interface SouthMSSQLItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthMSSQLItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthMSSQLItemSettingsSerialization {
   type: SouthMSSQLItemSettingsSerializationType;
   filename: string;
   delimiter: SouthMSSQLItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthMSSQLItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthMSSQLItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthMSSQLItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -505,11 +570,22 @@ export interface SouthMySQLItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthMySQLItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthMySQLItemSettingsSerialization {
   type: SouthMySQLItemSettingsSerializationType;
   filename: string;
   delimiter: SouthMySQLItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthMySQLItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthMySQLItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthMySQLItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -523,11 +599,22 @@ export interface SouthODBCItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthODBCItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthODBCItemSettingsSerialization {
   type: SouthODBCItemSettingsSerializationType;
   filename: string;
   delimiter: SouthODBCItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthODBCItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthODBCItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthODBCItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -537,11 +624,22 @@ export interface SouthOIAnalyticsItemSettingsQueryParams {
   value: string;
 }
 
+export interface SouthOIAnalyticsItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthOIAnalyticsItemSettingsSerialization {
   type: SouthOIAnalyticsItemSettingsSerializationType;
   filename: string;
   delimiter: SouthOIAnalyticsItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthOIAnalyticsItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthOIAnalyticsItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthOIAnalyticsItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -555,15 +653,32 @@ export interface SouthOLEDBItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthOLEDBItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthOLEDBItemSettingsSerialization {
   type: SouthOLEDBItemSettingsSerializationType;
   filename: string;
   delimiter: SouthOLEDBItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthOLEDBItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthOLEDBItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthOLEDBItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
 
+export interface SouthOPCUAItemSettingsDeadband {
+  type: SouthOPCUAItemSettingsDeadbandType;
+  value?: number;
+  maxSilence?: number;
+}
+
 export interface SouthOPCUAItemSettingsHaMode {
   aggregate: SouthOPCUAItemSettingsHaModeAggregate;
   resampling?: SouthOPCUAItemSettingsHaModeResampling;
@@ -578,11 +693,22 @@ export interface SouthOracleItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthOracleItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthOracleItemSettingsSerialization {
   type: SouthOracleItemSettingsSerializationType;
   filename: string;
   delimiter: SouthOracleItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthOracleItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthOracleItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthOracleItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -596,11 +722,22 @@ export interface SouthPostgreSQLItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthPostgreSQLItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthPostgreSQLItemSettingsSerialization {
   type: SouthPostgreSQLItemSettingsSerializationType;
   filename: string;
   delimiter: SouthPostgreSQLItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthPostgreSQLItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthPostgreSQLItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthPostgreSQLItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -619,11 +756,22 @@ export interface SouthSlimsItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthSlimsItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthSlimsItemSettingsSerialization {
   type: SouthSlimsItemSettingsSerializationType;
   filename: string;
   delimiter: SouthSlimsItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthSlimsItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthSlimsItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthSlimsItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
@@ -637,17 +785,29 @@ export interface SouthSQLiteItemSettingsDateTimeFields {
   locale?: string;
 }
 
+export interface SouthSQLiteItemSettingsSerializationOtherColumns {
+  name: string;
+  column: string;
+}
+
 export interface SouthSQLiteItemSettingsSerialization {
   type: SouthSQLiteItemSettingsSerializationType;
   filename: string;
   delimiter: SouthSQLiteItemSettingsSerializationDelimiter;
   compression: boolean;
+  parquetCodec?: SouthSQLiteItemSettingsSerializationParquetCodec;
+  avroCodec?: SouthSQLiteItemSettingsSerializationAvroCodec;
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<SouthSQLiteItemSettingsSerializationOtherColumns> | null;
   outputTimestampFormat: string;
   outputTimezone: Timezone;
 }
 
 export interface SouthADSItemSettings {
   address: string;
+  deadband: SouthADSItemSettingsDeadband | null;
 }
 
 export interface SouthFolderScannerItemSettings {
@@ -661,6 +821,7 @@ export interface SouthModbusItemSettings {
   address: string;
   modbusType: SouthModbusItemSettingsModbusType;
   data?: SouthModbusItemSettingsData;
+  deadband: SouthModbusItemSettingsDeadband | null;
 }
 
 export interface SouthMQTTItemSettings {
@@ -710,6 +871,7 @@ export interface SouthOPCUAItemSettings {
   nodeId: string;
   mode: SouthOPCUAItemSettingsMode;
   haMode?: SouthOPCUAItemSettingsHaMode | null;
+  deadband?: SouthOPCUAItemSettingsDeadband | null;
 }
 
 export interface SouthOracleItemSettings {
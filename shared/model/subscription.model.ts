@@ -1,4 +1,5 @@
 import { SouthConnectorDTO } from './south-connector.model';
+import { OIBusContent } from './engine.model';
 
 /**
  * DTO for subscriptions
@@ -9,3 +10,23 @@ export interface OIBusSubscription {
   type: 'south';
   subscription: SouthConnectorDTO;
 }
+
+/**
+ * Script transforming the content a North connector receives from a subscribed South connector
+ */
+export interface SubscriptionScriptDTO {
+  southId: string;
+  script: string | null;
+}
+
+export interface SubscriptionScriptCommandDTO {
+  script: string | null;
+}
+
+/**
+ * Command used to execute a script against sample content without caching the result
+ */
+export interface SubscriptionScriptDryRunCommandDTO {
+  script: string;
+  content: OIBusContent;
+}
@@ -0,0 +1,112 @@
+import { BaseEntity } from './types';
+
+export const TRANSFORMER_TYPES = ['scaling', 'unit-conversion', 'deadband', 'rename', 'quality-filter'] as const;
+export type TransformerType = (typeof TRANSFORMER_TYPES)[number];
+
+export const UNIT_CONVERSIONS = [
+  'celsius-to-fahrenheit',
+  'fahrenheit-to-celsius',
+  'celsius-to-kelvin',
+  'kelvin-to-celsius',
+  'bar-to-pascal',
+  'pascal-to-bar',
+  'bar-to-psi',
+  'psi-to-bar',
+  'meter-to-foot',
+  'foot-to-meter',
+  'kilowatt-to-horsepower',
+  'horsepower-to-kilowatt'
+] as const;
+export type UnitConversion = (typeof UNIT_CONVERSIONS)[number];
+
+/**
+ * Apply value * multiplier + offset on numeric values
+ */
+export interface ScalingTransformerSettings {
+  multiplier: number;
+  offset: number;
+}
+
+export interface UnitConversionTransformerSettings {
+  conversion: UnitConversion;
+}
+
+/**
+ * Only keep the values of a point that differ from the last kept value of this point by more than the deadband.
+ * When relative, the deadband is a percentage of the last kept value
+ */
+export interface DeadbandTransformerSettings {
+  deadband: number;
+  relative: boolean;
+  // Maximal time without keeping a value, in seconds. A value is kept even if it is in the deadband after this time
+  maxSilence?: number;
+}
+
+/**
+ * Replace the point ID with the replacement of the regexp, which can use the groups of the regexp ($1, $2...)
+ */
+export interface RenameTransformerSettings {
+  regExp: string;
+  replacement: string;
+}
+
+/**
+ * Drop the values for which the quality field of the data is one of the dropped qualities
+ */
+export interface QualityFilterTransformerSettings {
+  qualityField: string;
+  droppedQualities: Array<string>;
+}
+
+export type TransformerSettings =
+  | ScalingTransformerSettings
+  | UnitConversionTransformerSettings
+  | DeadbandTransformerSettings
+  | RenameTransformerSettings
+  | QualityFilterTransformerSettings;
+
+interface BaseTransformerCommandDTO {
+  enabled: boolean;
+  // RegExp selecting the point IDs to transform. All values are transformed when null
+  pointIdFilter: string | null;
+}
+
+export interface ScalingTransformerCommandDTO extends BaseTransformerCommandDTO {
+  type: 'scaling';
+  settings: ScalingTransformerSettings;
+}
+
+export interface UnitConversionTransformerCommandDTO extends BaseTransformerCommandDTO {
+  type: 'unit-conversion';
+  settings: UnitConversionTransformerSettings;
+}
+
+export interface DeadbandTransformerCommandDTO extends BaseTransformerCommandDTO {
+  type: 'deadband';
+  settings: DeadbandTransformerSettings;
+}
+
+export interface RenameTransformerCommandDTO extends BaseTransformerCommandDTO {
+  type: 'rename';
+  settings: RenameTransformerSettings;
+}
+
+export interface QualityFilterTransformerCommandDTO extends BaseTransformerCommandDTO {
+  type: 'quality-filter';
+  settings: QualityFilterTransformerSettings;
+}
+
+/**
+ * Command DTO for transformers, with the settings of their type
+ */
+export type TransformerCommandDTO =
+  | ScalingTransformerCommandDTO
+  | UnitConversionTransformerCommandDTO
+  | DeadbandTransformerCommandDTO
+  | RenameTransformerCommandDTO
+  | QualityFilterTransformerCommandDTO;
+
+/**
+ * DTO for the transformers applied on the values of a South connector, in the order of their position
+ */
+export type TransformerDTO = TransformerCommandDTO & BaseEntity & { southId: string; position: number };
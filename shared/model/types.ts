@@ -108,9 +108,17 @@ export type Resampling = (typeof RESAMPLING)[number];
 export const ALL_CSV_CHARACTERS = ['DOT', 'SEMI_COLON', 'COLON', 'COMMA', 'NON_BREAKING_SPACE', 'SLASH', 'TAB', 'PIPE'] as const;
 export type CsvCharacter = (typeof ALL_CSV_CHARACTERS)[number];
 
-export const SERIALIZATION_TYPES = ['csv', 'file', 'json'];
+export const SERIALIZATION_TYPES = ['csv', 'file', 'json', 'parquet', 'avro'];
 export type SerializationType = (typeof SERIALIZATION_TYPES)[number];
 
+export const PARQUET_CODECS = ['uncompressed', 'snappy', 'gzip'] as const;
+export type ParquetCodec = (typeof PARQUET_CODECS)[number];
+
+export const AVRO_CODECS = ['null', 'deflate'] as const;
+export type AvroCodec = (typeof AVRO_CODECS)[number];
+
+export const DEADBAND_TYPES = ['none', 'absolute', 'percent'] as const;
+
 export interface BaseSerializationSettings {
   type: SerializationType;
 }
@@ -132,9 +140,33 @@ export interface FileSerializationSettings extends BaseSerializationSettings {
 
 export interface JSONSerializationSettings extends BaseSerializationSettings {
   type: 'json';
+  // Columns of the results mapped to the time values. Results are sent as is without value column
+  pointIdColumn?: string;
+  timestampColumn?: string;
+  valueColumn?: string;
+  otherColumns?: Array<{ name: string; column: string }> | null;
+}
+
+export interface ParquetSerializationSettings extends BaseSerializationSettings {
+  type: 'parquet';
+  filename: string;
+  compression: boolean;
+  parquetCodec?: ParquetCodec;
+}
+
+export interface AvroSerializationSettings extends BaseSerializationSettings {
+  type: 'avro';
+  filename: string;
+  compression: boolean;
+  avroCodec?: AvroCodec;
 }
 
-export type SerializationSettings = CSVSerializationSettings | FileSerializationSettings | JSONSerializationSettings;
+export type SerializationSettings =
+  | CSVSerializationSettings
+  | FileSerializationSettings
+  | JSONSerializationSettings
+  | ParquetSerializationSettings
+  | AvroSerializationSettings;
 
 export interface ConnectorManifest {
   id: string;